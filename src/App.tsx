@@ -4,11 +4,21 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/hooks/use-theme";
+import { AuthProvider } from "@/components/layout/AuthProvider";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { RequireAuth } from "@/components/layout/RequireAuth";
+import Login from "./pages/Login";
 import Index from "./pages/Index";
 import RawInventory from "./pages/RawInventory";
 import ProcessedInventory from "./pages/ProcessedInventory";
 import Accounting from "./pages/Accounting";
+import FinancialReports from "./pages/FinancialReports";
+import GstReturns from "./pages/GstReturns";
+import Traceability from "./pages/Traceability";
+import Recipes from "./pages/Recipes";
+import QualityControl from "./pages/QualityControl";
+import AuditLog from "./pages/AuditLog";
+import RecycleBin from "./pages/RecycleBin";
 import Doctors from "./pages/Doctors";
 import LossCalculation from "./pages/LossCalculation";
 import SupplierList from "./pages/SupplierList";
@@ -21,6 +31,8 @@ import DoctorDashboard from "./pages/DoctorDashboard";
 import Items from "./pages/Items";
 import ItemMonthlyReport from "./pages/ItemMonthlyReport";
 import Purchases from "./pages/Purchases";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import GoodsReceipts from "./pages/GoodsReceipts";
 import Transactions from "./pages/Transactions";
 import Payments from "./pages/Payments";
 import Invoices from "./pages/Invoices";
@@ -34,6 +46,8 @@ import BankDetails from "./pages/BankDetails";
 import CashDetails from "./pages/CashDetails";
 import Quotations from "./pages/Quotations";
 import QuotationNew from "./pages/QuotationNew";
+import SalesOrders from "./pages/SalesOrders";
+import DeliveryChallans from "./pages/DeliveryChallans";
 import ProformaInvoices from "./pages/ProformaInvoices";
 import ProformaInvoiceNew from "./pages/ProformaInvoiceNew";
 import { Suspense } from "react";
@@ -65,47 +79,63 @@ const App = () => {
     <Suspense fallback={<LoadingFallback />}>
       <QueryClientProvider client={queryClient}>
         <ThemeProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <Routes>
-                <Route path="/doctor-login" element={<DoctorLogin />} />
-                <Route path="/doctor-dashboard" element={<DoctorDashboard />} />
-                <Route path="/invoices/:invoiceId/print" element={<InvoicePrint />} />
-                <Route element={<AppLayout />}>
-                  <Route path="/" element={<Index />} />
-                  <Route path="/items" element={<Items />} />
-                  <Route path="/items/:itemId" element={<ItemMonthlyReport />} />
-                  <Route path="/purchases" element={<Purchases />} />
-                  <Route path="/raw-inventory" element={<RawInventory />} />
-                  <Route path="/processed-inventory" element={<ProcessedInventory />} />
-                  <Route path="/processing" element={<Processing />} />
-                  <Route path="/accounting" element={<Accounting />} />
-                  <Route path="/transactions" element={<Transactions />} />
-                  <Route path="/bank-book" element={<BankBook />} />
-                  <Route path="/bank-details" element={<BankDetails />} />
-                  <Route path="/cash-book" element={<CashBook />} />
-                  <Route path="/cash-details" element={<CashDetails />} />
-                  <Route path="/payments" element={<Payments />} />
-                  <Route path="/invoices" element={<Invoices />} />
-                  <Route path="/invoices/new" element={<InvoiceNew />} />
-                  <Route path="/quotations" element={<Quotations />} />
-                  <Route path="/quotations/new" element={<QuotationNew />} />
-                  <Route path="/proforma-invoices" element={<ProformaInvoices />} />
-                  <Route path="/proforma-invoices/new" element={<ProformaInvoiceNew />} />
-                  <Route path="/debit-credit-notes" element={<DebitCreditNotes />} />
-                  <Route path="/debit-credit-notes/new" element={<DebitCreditNoteNew />} />
-                  <Route path="/doctors" element={<Doctors />} />
-                  <Route path="/loss-calculation" element={<LossCalculation />} />
-                  <Route path="/suppliers" element={<SupplierList />} />
-                  <Route path="/customers" element={<CustomerList />} />
-                  <Route path="/settings" element={<Settings />} />
-                </Route>
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </TooltipProvider>
+          <AuthProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/doctor-login" element={<DoctorLogin />} />
+                  <Route path="/doctor-dashboard" element={<DoctorDashboard />} />
+                  <Route path="/login" element={<Login />} />
+                  <Route element={<RequireAuth />}>
+                    <Route path="/invoices/:invoiceId/print" element={<InvoicePrint />} />
+                    <Route element={<AppLayout />}>
+                      <Route path="/" element={<Index />} />
+                      <Route path="/items" element={<Items />} />
+                      <Route path="/items/:itemId" element={<ItemMonthlyReport />} />
+                      <Route path="/purchases" element={<Purchases />} />
+                      <Route path="/purchase-orders" element={<PurchaseOrders />} />
+                      <Route path="/goods-receipts" element={<GoodsReceipts />} />
+                      <Route path="/raw-inventory" element={<RawInventory />} />
+                      <Route path="/processed-inventory" element={<ProcessedInventory />} />
+                      <Route path="/processing" element={<Processing />} />
+                      <Route path="/recipes" element={<Recipes />} />
+                      <Route path="/quality-control" element={<QualityControl />} />
+                      <Route path="/traceability" element={<Traceability />} />
+                      <Route path="/accounting" element={<Accounting />} />
+                      <Route path="/financial-reports" element={<FinancialReports />} />
+                      <Route path="/gst-returns" element={<GstReturns />} />
+                      <Route path="/transactions" element={<Transactions />} />
+                      <Route path="/bank-book" element={<BankBook />} />
+                      <Route path="/bank-details" element={<BankDetails />} />
+                      <Route path="/cash-book" element={<CashBook />} />
+                      <Route path="/cash-details" element={<CashDetails />} />
+                      <Route path="/payments" element={<Payments />} />
+                      <Route path="/invoices" element={<Invoices />} />
+                      <Route path="/invoices/new" element={<InvoiceNew />} />
+                      <Route path="/quotations" element={<Quotations />} />
+                      <Route path="/quotations/new" element={<QuotationNew />} />
+                      <Route path="/sales-orders" element={<SalesOrders />} />
+                      <Route path="/delivery-challans" element={<DeliveryChallans />} />
+                      <Route path="/proforma-invoices" element={<ProformaInvoices />} />
+                      <Route path="/proforma-invoices/new" element={<ProformaInvoiceNew />} />
+                      <Route path="/debit-credit-notes" element={<DebitCreditNotes />} />
+                      <Route path="/debit-credit-notes/new" element={<DebitCreditNoteNew />} />
+                      <Route path="/doctors" element={<Doctors />} />
+                      <Route path="/loss-calculation" element={<LossCalculation />} />
+                      <Route path="/suppliers" element={<SupplierList />} />
+                      <Route path="/customers" element={<CustomerList />} />
+                      <Route path="/settings" element={<Settings />} />
+                      <Route path="/audit" element={<AuditLog />} />
+                      <Route path="/recycle-bin" element={<RecycleBin />} />
+                    </Route>
+                  </Route>
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </AuthProvider>
         </ThemeProvider>
       </QueryClientProvider>
     </Suspense>
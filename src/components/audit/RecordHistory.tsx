@@ -0,0 +1,79 @@
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useRecords } from "@/hooks/use-records";
+import { formatAuditTime } from "@/lib/audit";
+import type { AuditAction, AuditChange, CollectionName } from "@/lib/schemas";
+
+const actionVariant: Record<AuditAction, "default" | "secondary" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+};
+
+export function AuditActionBadge({ action }: { action: AuditAction }) {
+  return (
+    <Badge variant={actionVariant[action]} className="capitalize">
+      {action}
+    </Badge>
+  );
+}
+
+export function AuditChanges({ changes }: { changes: AuditChange[] }) {
+  if (changes.length === 0) return <p className="text-xs text-muted-foreground">No field changes recorded.</p>;
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="border-b border-border/50 last:border-0 align-top">
+            <td className="py-1 pr-3 font-medium whitespace-nowrap">{change.field}</td>
+            <td className="py-1 pr-3 text-destructive line-through break-all">{change.before ?? ""}</td>
+            <td className="py-1 text-success break-all">{change.after ?? ""}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface RecordHistoryProps {
+  collection: CollectionName;
+  recordId: string | undefined;
+}
+
+/** Audit entries for one record, newest first. */
+export function RecordHistory({ collection, recordId }: RecordHistoryProps) {
+  const { data, isLoading } = useRecords("auditLog", {
+    where: [
+      ["collection", "==", collection],
+      ["recordId", "==", recordId ?? ""],
+    ],
+  });
+  const entries = [...(data ?? [])].sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+
+  if (!recordId) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold flex items-center gap-2">
+        <History className="h-4 w-4" />
+        History
+      </h4>
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{isLoading ? "Loading history..." : "No changes recorded yet."}</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-3 rounded-lg border border-border p-3">
+          {entries.map((entry) => (
+            <div key={entry.id} className="space-y-1">
+              <div className="flex items-center gap-2 text-xs">
+                <AuditActionBadge action={entry.action} />
+                <span className="text-muted-foreground">{formatAuditTime(entry.createdAt)}</span>
+                <span className="text-muted-foreground">by {entry.actor || "unknown"}</span>
+              </div>
+              {entry.action !== "create" && <AuditChanges changes={entry.changes} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useMemo } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useRecords } from "@/hooks/use-records";
+import { expiryAlerts, NEAR_EXPIRY_DAYS } from "@/lib/lots";
+
+/** Lists raw material lots that have expired or expire within NEAR_EXPIRY_DAYS. Renders nothing otherwise. */
+export function ExpiryAlerts({ limit }: { limit?: number }) {
+  const lotsQuery = useRecords("rawLots");
+  const alerts = useMemo(() => expiryAlerts(lotsQuery.data ?? []), [lotsQuery.data]);
+
+  if (alerts.length === 0) return null;
+
+  const expired = alerts.filter((a) => a.status === "expired");
+  const shown = limit ? alerts.slice(0, limit) : alerts;
+
+  return (
+    <Alert variant={expired.length ? "destructive" : "default"} className="mb-6">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {expired.length > 0 && `${expired.length} expired lot${expired.length === 1 ? "" : "s"}`}
+        {expired.length > 0 && alerts.length > expired.length && ", "}
+        {alerts.length > expired.length &&
+          `${alerts.length - expired.length} expiring within ${NEAR_EXPIRY_DAYS} days`}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {shown.map(({ lot, status, daysLeft }) => (
+            <li key={lot.id} className="flex flex-wrap justify-between gap-2">
+              <span>
+                <span className="font-medium">{lot.rawItemName}</span>
+                <span className="text-muted-foreground"> lot {lot.lotNo}</span>
+              </span>
+              <span>
+                {lot.quantityRemaining} {lot.unit} ·{" "}
+                {status === "expired" ? `expired ${lot.expiryDate}` : `expires ${lot.expiryDate} (${daysLeft} days)`}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {shown.length < alerts.length && (
+          <p className="mt-2 text-xs text-muted-foreground">and {alerts.length - shown.length} more on Raw Inventory.</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import type { StockItemType, StockMovementType } from "@/lib/schemas";
+import { adjustStock, stockCard } from "@/lib/stock";
+
+const movementLabels: Record<StockMovementType, string> = {
+  opening: "Opening stock",
+  purchase: "Purchase receipt",
+  consumption: "Batch consumption",
+  production: "Batch output",
+  dispatch: "Invoice dispatch",
+  return: "Return",
+  adjustment: "Manual adjustment",
+  reversal: "Reversal",
+};
+
+interface StockCardDialogProps {
+  itemType: StockItemType;
+  item: { id: string; name: string; unit: string; quantity: number | string } | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a manual adjustment so the page can refresh its list. */
+  onAdjusted?: () => void;
+}
+
+export function StockCardDialog({ itemType, item, onOpenChange, onAdjusted }: StockCardDialogProps) {
+  const { toast } = useToast();
+  const [countedQuantity, setCountedQuantity] = useState("");
+  const [adjustNotes, setAdjustNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const movementsQuery = useRecords("stockMovements", {
+    where: [
+      ["itemType", "==", itemType],
+      ["itemId", "==", item?.id ?? ""],
+    ],
+  });
+
+  const currentQuantity = Number(item?.quantity) || 0;
+  const card = useMemo(() => stockCard(currentQuantity, movementsQuery.data ?? []), [currentQuantity, movementsQuery.data]);
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    const counted = parseFloat(countedQuantity);
+    if (!Number.isFinite(counted) || counted < 0) {
+      toast({ title: "Validation error", description: "Enter the counted quantity.", variant: "destructive" });
+      return;
+    }
+    if (!adjustNotes.trim()) {
+      toast({ title: "Validation error", description: "Give a reason for the adjustment.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await adjustStock(itemType, item.id, counted, adjustNotes.trim());
+      toast({ title: "Stock adjusted", description: `${item.name} set to ${counted} ${item.unit}.` });
+      setCountedQuantity("");
+      setAdjustNotes("");
+      await movementsQuery.refetch();
+      onAdjusted?.();
+    } catch (error) {
+      console.error("Error adjusting stock", error);
+      toast({ title: "Adjustment failed", description: "Could not adjust stock.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Stock Card: {item?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="rounded-xl border border-border overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="whitespace-nowrap">Date</TableHead>
+                <TableHead className="min-w-[160px]">Movement</TableHead>
+                <TableHead className="whitespace-nowrap">Reference</TableHead>
+                <TableHead className="text-right whitespace-nowrap">In</TableHead>
+                <TableHead className="text-right whitespace-nowrap">Out</TableHead>
+                <TableHead className="text-right whitespace-nowrap">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow className="bg-muted/40">
+                <TableCell />
+                <TableCell className="font-medium">Balance brought forward</TableCell>
+                <TableCell />
+                <TableCell />
+                <TableCell />
+                <TableCell className="text-right font-semibold">{card.broughtForward}</TableCell>
+              </TableRow>
+              {card.rows.map(({ movement, quantityIn, quantityOut, balance }) => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap">{movement.date || "-"}</TableCell>
+                  <TableCell>
+                    {movementLabels[movement.movementType]}
+                    {movement.notes && <div className="text-xs text-muted-foreground">{movement.notes}</div>}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{movement.reference || "-"}</TableCell>
+                  <TableCell className="text-right text-success">{quantityIn || ""}</TableCell>
+                  <TableCell className="text-right text-destructive">{quantityOut || ""}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {balance} {movement.unit}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!movementsQuery.isLoading && card.rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                    No movements recorded for this item yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <form onSubmit={handleAdjust} className="grid grid-cols-1 md:grid-cols-[160px_1fr_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="countedQuantity">Counted Quantity</Label>
+            <Input
+              id="countedQuantity"
+              type="number"
+              inputMode="decimal"
+              value={countedQuantity}
+              onChange={(e) => setCountedQuantity(e.target.value)}
+              placeholder={String(currentQuantity)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustNotes">Reason</Label>
+            <Input
+              id="adjustNotes"
+              value={adjustNotes}
+              onChange={(e) => setAdjustNotes(e.target.value)}
+              placeholder="e.g. Physical count, spillage"
+            />
+          </div>
+          <Button type="submit" disabled={isSaving || !countedQuantity}>
+            {isSaving ? "Saving..." : "Adjust Stock"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
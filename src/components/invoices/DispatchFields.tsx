@@ -0,0 +1,84 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TRANSPORT_MODE_LABELS } from "@/lib/eway-bill";
+import type { DispatchDetails, TransportMode } from "@/lib/schemas";
+
+interface DispatchFieldsProps {
+  value: DispatchDetails;
+  onChange: (value: DispatchDetails) => void;
+}
+
+/** Transport details for the e-way bill, shared by the new-invoice form and the e-way bill dialog. */
+export function DispatchFields({ value, onChange }: DispatchFieldsProps) {
+  const set = (patch: Partial<DispatchDetails>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label>Transport Mode</Label>
+        <Select value={value.transportMode} onValueChange={(v) => set({ transportMode: v as TransportMode })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TRANSPORT_MODE_LABELS).map(([mode, label]) => (
+              <SelectItem key={mode} value={mode}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="distanceKm">Distance (km)</Label>
+        <Input
+          id="distanceKm"
+          type="number"
+          inputMode="numeric"
+          min="0"
+          value={value.distanceKm || ""}
+          onChange={(e) => set({ distanceKm: parseInt(e.target.value, 10) || 0 })}
+          placeholder="0 = from PIN codes"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="vehicleNo">Vehicle No</Label>
+        <Input
+          id="vehicleNo"
+          value={value.vehicleNo || ""}
+          onChange={(e) => set({ vehicleNo: e.target.value.toUpperCase() })}
+          placeholder="e.g. GJ06AB1234"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="transporterName">Transporter Name</Label>
+        <Input id="transporterName" value={value.transporterName || ""} onChange={(e) => set({ transporterName: e.target.value })} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="transporterId">Transporter ID</Label>
+        <Input
+          id="transporterId"
+          value={value.transporterId || ""}
+          onChange={(e) => set({ transporterId: e.target.value.toUpperCase() })}
+          placeholder="GSTIN or TRANSIN"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="transportDocNo">LR / Doc No</Label>
+          <Input id="transportDocNo" value={value.transportDocNo || ""} onChange={(e) => set({ transportDocNo: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="transportDocDate">Doc Date</Label>
+          <Input
+            id="transportDocDate"
+            type="date"
+            value={value.transportDocDate || ""}
+            onChange={(e) => set({ transportDocDate: e.target.value })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import { saveAs } from "file-saver";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { companyStateCode } from "@/lib/company";
+import {
+  attachEInvoice,
+  buildEInvoice,
+  EInvoiceError,
+  eInvoiceProblems,
+  parseIrpResponse,
+  registerEInvoice,
+  usesMockIrp,
+} from "@/lib/einvoice";
+import type { InvoiceRecord } from "@/lib/schemas";
+import { QrCodeImage } from "./QrCodeImage";
+
+interface EInvoiceDialogProps {
+  invoice: InvoiceRecord | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after an IRN is stored so the page can refresh its list. */
+  onRegistered?: () => void;
+}
+
+export function EInvoiceDialog({ invoice, onOpenChange, onRegistered }: EInvoiceDialogProps) {
+  const { toast } = useToast();
+  const [responseText, setResponseText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { company } = useCompany();
+  const sellerState = companyStateCode(company);
+  const problems = useMemo(() => (invoice ? eInvoiceProblems(invoice, company, sellerState) : []), [invoice, company, sellerState]);
+  const details = invoice?.eInvoice;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setResponseText("");
+    onOpenChange(open);
+  };
+
+  const reportError = (error: unknown) => {
+    console.error("Error registering e-invoice", error);
+    toast({
+      title: error instanceof EInvoiceError ? "Validation error" : "Save failed",
+      description: error instanceof Error ? error.message : "Could not register the e-invoice.",
+      variant: "destructive",
+    });
+  };
+
+  const handleDownloadJson = () => {
+    if (!invoice) return;
+    try {
+      const payload = buildEInvoice(invoice, company, sellerState);
+      saveAs(
+        new Blob([JSON.stringify([payload], null, 2)], { type: "application/json" }),
+        `EINV_${payload.DocDtls.No.replace(/[^A-Za-z0-9-]+/g, "_")}.json`
+      );
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!invoice) return;
+    setIsSaving(true);
+    try {
+      const result = await registerEInvoice(invoice, company, sellerState);
+      toast({ title: "IRN generated", description: `Ack No ${result.ackNo}.` });
+      onRegistered?.();
+      handleOpenChange(false);
+    } catch (error) {
+      reportError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAttach = async () => {
+    if (!invoice) return;
+    setIsSaving(true);
+    try {
+      await attachEInvoice(invoice.id, parseIrpResponse(responseText.trim()));
+      toast({ title: "IRN attached", description: `Saved on invoice ${invoice.invoiceNo}.` });
+      onRegistered?.();
+      handleOpenChange(false);
+    } catch (error) {
+      reportError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>E-Invoice: {invoice?.manualInvoiceNo || invoice?.invoiceNo}</DialogTitle>
+        </DialogHeader>
+
+        {details ? (
+          <div className="flex flex-col sm:flex-row gap-4 items-start">
+            <QrCodeImage value={details.signedQrCode} size={140} />
+            <div className="space-y-2 text-sm min-w-0">
+              <div>
+                <span className="text-muted-foreground">IRN</span>
+                <div className="font-mono break-all">{details.irn}</div>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Ack No / Date</span>
+                <div>
+                  {details.ackNo} · {details.ackDate}
+                </div>
+              </div>
+              {details.source === "mock" && <Badge variant="secondary">Test IRN from the mock IRP</Badge>}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {problems.length > 0 ? (
+              <ul className="text-sm text-destructive list-disc pl-6 space-y-1">
+                {problems.map((p) => (
+                  <li key={p}>{p}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {usesMockIrp
+                  ? "No IRP is configured (VITE_IRP_URL); Generate IRN issues a test IRN from the mock IRP."
+                  : "Generate IRN sends this invoice to the configured IRP."}
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleDownloadJson} disabled={problems.length > 0}>
+                Download JSON
+              </Button>
+              <Button onClick={handleGenerate} disabled={isSaving || problems.length > 0}>
+                {isSaving ? "Generating..." : "Generate IRN"}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="irpResponse">IRP response</Label>
+              <Textarea
+                id="irpResponse"
+                rows={5}
+                value={responseText}
+                onChange={(e) => setResponseText(e.target.value)}
+                placeholder='Paste the JSON returned by the portal, e.g. { "Irn": "...", "AckNo": ..., "SignedQRCode": "..." }'
+              />
+              <Button variant="outline" onClick={handleAttach} disabled={isSaving || !responseText.trim()}>
+                Attach Response
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from "react";
+import { saveAs } from "file-saver";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { companyStateCode } from "@/lib/company";
+import {
+  attachEWayBill,
+  buildEWayBill,
+  dispatchDetails,
+  EMPTY_DISPATCH,
+  EWAY_BILL_THRESHOLD,
+  EWayBillError,
+  eWayBillProblems,
+  saveDispatch,
+} from "@/lib/eway-bill";
+import type { DispatchDetails, InvoiceRecord } from "@/lib/schemas";
+import { DispatchFields } from "./DispatchFields";
+
+interface EWayBillDialogProps {
+  invoice: InvoiceRecord | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after dispatch details or the EWB number are saved so the page can refresh its list. */
+  onSaved?: () => void;
+}
+
+export function EWayBillDialog({ invoice, onOpenChange, onSaved }: EWayBillDialogProps) {
+  const { toast } = useToast();
+  const [dispatch, setDispatch] = useState<DispatchDetails>(EMPTY_DISPATCH);
+  const [ewbNo, setEwbNo] = useState("");
+  const [ewbDate, setEwbDate] = useState("");
+  const [validUpto, setValidUpto] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDispatch(invoice?.dispatch ?? EMPTY_DISPATCH);
+    setEwbNo(invoice?.eWayBill?.ewbNo ?? "");
+    setEwbDate(invoice?.eWayBill?.ewbDate ?? new Date().toISOString().slice(0, 10));
+    setValidUpto(invoice?.eWayBill?.validUpto ?? "");
+  }, [invoice]);
+
+  const { company } = useCompany();
+  const sellerState = companyStateCode(company);
+  const edited = useMemo(() => (invoice ? { ...invoice, dispatch: dispatchDetails(dispatch) } : null), [invoice, dispatch]);
+  const problems = useMemo(() => (edited ? eWayBillProblems(edited, company, sellerState) : []), [edited, company, sellerState]);
+
+  const reportError = (error: unknown) => {
+    console.error("Error saving e-way bill", error);
+    toast({
+      title: error instanceof EWayBillError ? "Validation error" : "Save failed",
+      description: error instanceof Error ? error.message : "Could not save the e-way bill details.",
+      variant: "destructive",
+    });
+  };
+
+  const handleSaveDispatch = async () => {
+    if (!invoice) return;
+    setIsSaving(true);
+    try {
+      await saveDispatch(invoice.id, dispatch);
+      toast({ title: "Saved", description: "Dispatch details updated." });
+      onSaved?.();
+    } catch (error) {
+      reportError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownloadJson = async () => {
+    if (!invoice || !edited) return;
+    setIsSaving(true);
+    try {
+      const bill = buildEWayBill(edited, company, sellerState);
+      await saveDispatch(invoice.id, dispatch);
+      saveAs(
+        new Blob([JSON.stringify(bill, null, 2)], { type: "application/json" }),
+        `EWB_${bill.docNo.replace(/[^A-Za-z0-9-]+/g, "_")}.json`
+      );
+      onSaved?.();
+    } catch (error) {
+      reportError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAttach = async () => {
+    if (!invoice) return;
+    setIsSaving(true);
+    try {
+      const details = await attachEWayBill(invoice.id, { ewbNo, ewbDate, validUpto: validUpto || undefined });
+      toast({ title: "E-way bill saved", description: `EWB ${details.ewbNo} saved on invoice ${invoice.invoiceNo}.` });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      reportError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>E-Way Bill: {invoice?.manualInvoiceNo || invoice?.invoiceNo}</DialogTitle>
+        </DialogHeader>
+
+        {invoice && invoice.total < EWAY_BILL_THRESHOLD && (
+          <p className="text-sm text-muted-foreground">
+            The invoice value is below ₹{EWAY_BILL_THRESHOLD.toLocaleString("en-IN")}; an e-way bill is optional.
+          </p>
+        )}
+
+        <DispatchFields value={dispatch} onChange={setDispatch} />
+
+        {problems.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-6 space-y-1">
+            {problems.map((p) => (
+              <li key={p}>{p}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleSaveDispatch} disabled={isSaving}>
+            Save Dispatch
+          </Button>
+          <Button variant="outline" onClick={handleDownloadJson} disabled={isSaving || problems.length > 0}>
+            Download JSON
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_160px_160px_auto] gap-3 items-end border-t border-border pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="ewbNo">E-Way Bill No</Label>
+            <Input id="ewbNo" inputMode="numeric" value={ewbNo} onChange={(e) => setEwbNo(e.target.value)} placeholder="12 digits" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbDate">Generated On</Label>
+            <Input id="ewbDate" type="date" value={ewbDate} onChange={(e) => setEwbDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbValidUpto">Valid Upto</Label>
+            <Input id="ewbValidUpto" type="date" value={validUpto} onChange={(e) => setValidUpto(e.target.value)} />
+          </div>
+          <Button onClick={handleAttach} disabled={isSaving || !ewbNo.trim()}>
+            Save EWB No
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+
+interface QrCodeImageProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+/** Renders a value as a QR code image, e.g. the IRP's signed QR token. */
+export function QrCodeImage({ value, size = 160, className }: QrCodeImageProps) {
+  const [src, setSrc] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(value, { errorCorrectionLevel: "M", margin: 1, width: size })
+      .then((url) => !cancelled && setSrc(url))
+      .catch((error) => console.error("Error rendering QR code", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [value, size]);
+
+  return src ? <img src={src} width={size} height={size} alt="QR code" className={className} /> : null;
+}
@@ -1,6 +1,8 @@
 import { Bell, Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_LABELS } from "@/lib/auth";
 
 interface AppHeaderProps {
   title: string;
@@ -8,6 +10,14 @@ interface AppHeaderProps {
 }
 
 export function AppHeader({ title, subtitle }: AppHeaderProps) {
+  const { session } = useAuth();
+  const initials = (session?.name ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
   return (
     <header className="h-16 border-b border-border bg-card/50 backdrop-blur-sm flex items-center justify-between px-6">
       <div>
@@ -35,11 +45,11 @@ export function AppHeader({ title, subtitle }: AppHeaderProps) {
 
         <div className="flex items-center gap-3 pl-4 border-l border-border">
           <div className="text-right">
-            <p className="text-sm font-medium text-foreground">Admin User</p>
-            <p className="text-xs text-muted-foreground">Manager</p>
+            <p className="text-sm font-medium text-foreground">{session?.name}</p>
+            <p className="text-xs text-muted-foreground">{session ? ROLE_LABELS[session.role] : ""}</p>
           </div>
           <div className="w-10 h-10 rounded-full bg-primary/20 flex items-center justify-center">
-            <span className="text-sm font-bold text-primary">AU</span>
+            <span className="text-sm font-bold text-primary">{initials}</span>
           </div>
         </div>
       </div>
@@ -1,4 +1,6 @@
-import { NavLink, useLocation } from "react-router-dom";
+import { NavLink, useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_LABELS } from "@/lib/auth";
 import { 
   FlaskConical, 
   Package, 
@@ -10,6 +12,7 @@ import {
   Boxes,
   Calculator,
   LogIn,
+  LogOut,
   Users,
   UserCheck,
   ClipboardList,
@@ -19,21 +22,41 @@ import {
   FileText,
   FileMinus,
   FileCheck,
-  FileSignature
+  FileSignature,
+  BarChart3,
+  GitBranch,
+  BookOpen,
+  ShieldCheck,
+  History,
+  Trash2,
+  Landmark,
+  ClipboardCheck,
+  Truck,
+  ClipboardPen,
+  PackageCheck
 } from "lucide-react";
 
 const mainMenuItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
   { title: "Items", url: "/items", icon: ClipboardList },
+  { title: "Purchase Orders", url: "/purchase-orders", icon: ClipboardPen },
+  { title: "Goods Receipts", url: "/goods-receipts", icon: PackageCheck },
   { title: "Purchases", url: "/purchases", icon: ShoppingCart },
   { title: "Processing", url: "/processing", icon: FlaskConical },
+  { title: "Recipes", url: "/recipes", icon: BookOpen },
+  { title: "Quality Control", url: "/quality-control", icon: ShieldCheck },
+  { title: "Traceability", url: "/traceability", icon: GitBranch },
   { title: "Raw Inventory", url: "/raw-inventory", icon: Package },
   { title: "Processed Inventory", url: "/processed-inventory", icon: Boxes },
   { title: "Accounting", url: "/accounting", icon: Receipt },
+  { title: "Financial Reports", url: "/financial-reports", icon: BarChart3 },
+  { title: "GST Returns", url: "/gst-returns", icon: Landmark },
   { title: "Transactions", url: "/transactions", icon: ArrowLeftRight },
   { title: "Payments", url: "/payments", icon: CreditCard },
   { title: "Invoices", url: "/invoices", icon: FileText },
   { title: "Quotations", url: "/quotations", icon: FileSignature },
+  { title: "Sales Orders", url: "/sales-orders", icon: ClipboardCheck },
+  { title: "Delivery Challans", url: "/delivery-challans", icon: Truck },
   { title: "Proforma Invoices", url: "/proforma-invoices", icon: FileCheck },
   { title: "Debit/Credit Notes", url: "/debit-credit-notes", icon: FileMinus },
   { title: "Doctors", url: "/doctors", icon: Stethoscope },
@@ -44,12 +67,21 @@ const mainMenuItems = [
 
 const systemMenuItems = [
   { title: "Settings", url: "/settings", icon: Settings },
+  { title: "Audit Log", url: "/audit", icon: History },
+  { title: "Recycle Bin", url: "/recycle-bin", icon: Trash2 },
   { title: "Profile", url: "/profile", icon: User },
   { title: "Doctor Login", url: "/doctor-login", icon: LogIn },
 ];
 
 export function AppSidebar() {
   const location = useLocation();
+  const navigate = useNavigate();
+  const { session, canOpen, signOut } = useAuth();
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/login", { replace: true });
+  };
 
   const isActive = (path: string) => {
     if (path === "/") return location.pathname === "/";
@@ -78,7 +110,7 @@ export function AppSidebar() {
             Main Menu
           </p>
           <ul className="space-y-1">
-            {mainMenuItems.map((item) => (
+            {mainMenuItems.filter((item) => canOpen(item.url)).map((item) => (
               <li key={item.title}>
                 <NavLink
                   to={item.url}
@@ -97,7 +129,7 @@ export function AppSidebar() {
             System
           </p>
           <ul className="space-y-1">
-            {systemMenuItems.map((item) => (
+            {systemMenuItems.filter((item) => canOpen(item.url)).map((item) => (
               <li key={item.title}>
                 <NavLink
                   to={item.url}
@@ -118,10 +150,17 @@ export function AppSidebar() {
           <div className="w-10 h-10 rounded-full bg-primary/20 flex items-center justify-center">
             <User className="w-5 h-5 text-primary" />
           </div>
-          <div>
-            <p className="text-sm font-medium text-foreground">Admin User</p>
-            <p className="text-xs text-muted-foreground">Pharma Manager</p>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-foreground truncate">{session?.name}</p>
+            <p className="text-xs text-muted-foreground">{session ? ROLE_LABELS[session.role] : ""}</p>
           </div>
+          <button
+            onClick={handleSignOut}
+            title="Sign out"
+            className="w-8 h-8 rounded-lg flex items-center justify-center text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors"
+          >
+            <LogOut className="w-4 h-4" />
+          </button>
         </div>
       </div>
     </aside>
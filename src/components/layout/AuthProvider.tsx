@@ -0,0 +1,61 @@
+import { useEffect, useState, ReactNode } from "react";
+import { AuthContext } from "@/hooks/use-auth";
+import {
+  canAccessPath,
+  hasPermission,
+  restoreSession,
+  setUpFirstAdmin,
+  signInStaff,
+  signOutStaff,
+  type StaffSession,
+} from "@/lib/auth";
+import { setAuditActor } from "@/lib/audit";
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<StaffSession | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    restoreSession()
+      .then(setSession)
+      .catch((error) => console.warn("Failed to restore session:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    setAuditActor(session?.email);
+  }, [session]);
+
+  const signIn = async (email: string, password: string) => {
+    const next = await signInStaff(email, password);
+    setSession(next);
+    return next;
+  };
+
+  const setUpAdmin = async (input: { email: string; name: string; password: string }) => {
+    const next = await setUpFirstAdmin(input);
+    setSession(next);
+    return next;
+  };
+
+  const signOut = async () => {
+    await signOutStaff();
+    setSession(null);
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        loading,
+        signIn,
+        setUpAdmin,
+        signOut,
+        can: (permission) => hasPermission(session?.role, permission),
+        canOpen: (pathname) => canAccessPath(session?.role, pathname),
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
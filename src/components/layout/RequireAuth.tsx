@@ -0,0 +1,35 @@
+import { Link, Navigate, Outlet, useLocation } from "react-router-dom";
+import { ShieldX } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export function RequireAuth() {
+  const { session, loading, canOpen } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!session) return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+
+  if (!canOpen(location.pathname)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <div className="text-center">
+          <ShieldX className="w-12 h-12 text-destructive mx-auto mb-4" />
+          <h1 className="mb-2 text-2xl font-bold">Access denied</h1>
+          <p className="mb-4 text-muted-foreground">Your role doesn't have access to this page.</p>
+          <Link to="/" className="text-primary underline hover:text-primary/90">
+            Return to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <Outlet />;
+}
@@ -0,0 +1,64 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNumbering } from "@/hooks/use-numbering";
+import { previewDocumentNumber } from "@/lib/numbering";
+import type { DocumentType } from "@/lib/schemas";
+
+interface DocumentNumberFieldsProps {
+  documentType: DocumentType;
+  label: string;
+  /** Issue date; decides the financial year of the series. */
+  date: string;
+  branch: string;
+  onBranchChange: (branch: string) => void;
+}
+
+/**
+ * The system number a new document will get, and the branch whose series it comes from. The
+ * number is only a preview: the real one is taken from the counter when the document is saved.
+ */
+export function DocumentNumberFields({ documentType, label, date, branch, onBranchChange }: DocumentNumberFieldsProps) {
+  const { settings } = useNumbering();
+  const { branches } = settings;
+
+  useEffect(() => {
+    if (branches.length && !branches.some((b) => b.code === branch)) onBranchChange(branches[0].code);
+  }, [branches, branch, onBranchChange]);
+
+  const preview = useQuery({
+    queryKey: ["documentNumberPreview", documentType, date, branch, settings],
+    queryFn: () => previewDocumentNumber(documentType, date, branch),
+    enabled: !!date,
+  });
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor={`${documentType}SystemNo`}>{label}</Label>
+        <Input id={`${documentType}SystemNo`} value={preview.data ?? ""} readOnly disabled />
+        <p className="text-xs text-muted-foreground">Next in the series; confirmed when the document is saved.</p>
+      </div>
+
+      {branches.length > 0 && (
+        <div className="space-y-2">
+          <Label>Branch</Label>
+          <Select value={branch} onValueChange={onBranchChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select branch" />
+            </SelectTrigger>
+            <SelectContent>
+              {branches.map((b) => (
+                <SelectItem key={b.code} value={b.code}>
+                  {b.code} - {b.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+import { companyStateCode, type CompanyDetails } from "@/lib/company";
+import { stateLabel } from "@/lib/gst";
+import { cn } from "@/lib/utils";
+
+// Seller blocks shared by the printed documents; all of them render from the company profile.
+
+const joined = (parts: Array<string | false | undefined>) => parts.filter(Boolean).join(" | ");
+
+export function CompanyLetterhead({ company, className }: { company: CompanyDetails; className?: string }) {
+  const state = companyStateCode(company);
+  const ids = joined([company.gstin && `GSTIN: ${company.gstin}`, state && `State: ${stateLabel(state)}`, company.pan && `PAN: ${company.pan}`]);
+  const licences = joined((company.drugLicences ?? []).map((l) => `DL ${l.label || "No"}: ${l.number}`));
+  const contact = joined([company.phone && `Phone: ${company.phone}`, company.email && `Email: ${company.email}`, company.website]);
+
+  return (
+    <div className={cn("flex items-center gap-4", className)}>
+      {company.logo && <img src={company.logo} alt="" className="h-16 w-28 object-contain" />}
+      <div className="flex-1 text-center">
+        <div className="text-2xl font-bold">{company.name}</div>
+        {company.tradeName && <div className="text-sm italic">{company.tradeName}</div>}
+        {company.address && <div className="text-sm whitespace-pre-wrap">{company.address}</div>}
+        {company.factoryAddress && <div className="text-xs whitespace-pre-wrap">Works: {company.factoryAddress}</div>}
+        {ids && <div className="text-sm">{ids}</div>}
+        {licences && <div className="text-xs">{licences}</div>}
+        {contact && <div className="text-xs">{contact}</div>}
+      </div>
+      {company.logo && <div className="w-28" />}
+    </div>
+  );
+}
+
+/** Where the buyer should pay, when the profile has bank or UPI details. */
+export function CompanyBankDetailsBlock({ company, className }: { company: CompanyDetails; className?: string }) {
+  const bank = company.bank;
+  if (!bank) return null;
+  return (
+    <div className={cn("text-xs space-y-0.5", className)}>
+      <div className="font-semibold">Bank Details for Remittance</div>
+      {bank.accountNo && (
+        <>
+          <div>A/c Name: {bank.accountName}</div>
+          <div>
+            {bank.bankName} · A/c No: {bank.accountNo}
+          </div>
+          <div>{joined([bank.ifsc && `IFSC: ${bank.ifsc}`, bank.branch && `Branch: ${bank.branch}`])}</div>
+        </>
+      )}
+      {bank.upiId && <div>UPI: {bank.upiId}</div>}
+    </div>
+  );
+}
+
+export function CompanySignature({ company, className }: { company: CompanyDetails; className?: string }) {
+  return (
+    <div className={cn("text-right", className)}>
+      <div className="font-semibold">For {company.name}</div>
+      {company.signature ? <img src={company.signature} alt="" className="ml-auto h-12 my-1 object-contain" /> : <div className="h-12" />}
+      <div>Authorised Signatory</div>
+    </div>
+  );
+}
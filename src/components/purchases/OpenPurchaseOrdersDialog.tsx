@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import { ExportExcelButton } from "@/components/ExportExcelButton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useRecords } from "@/hooks/use-records";
+import { openPurchaseOrderLines } from "@/lib/purchase-orders";
+
+interface OpenPurchaseOrdersDialogProps {
+  supplier: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const money = (n: number) => `₹${n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** What a supplier still owes us on open purchase orders, line by line. */
+export function OpenPurchaseOrdersDialog({ supplier, onOpenChange }: OpenPurchaseOrdersDialogProps) {
+  const ordersQuery = useRecords("purchaseOrders", { where: [["supplierId", "==", supplier?.id ?? ""]] });
+  const lines = useMemo(() => openPurchaseOrderLines(ordersQuery.data ?? []), [ordersQuery.data]);
+  const pendingValue = lines.reduce((sum, l) => sum + l.pendingValue, 0);
+
+  const exportRows = useMemo(
+    () =>
+      lines.map((l) => ({
+        "PO No": l.poNo,
+        "PO Date": l.poDate,
+        "Expected By": l.expectedDate,
+        Item: l.item,
+        Unit: l.unit,
+        Ordered: l.ordered,
+        Received: l.received,
+        Pending: l.pending,
+        Rate: l.rate,
+        "Pending Value": l.pendingValue,
+      })),
+    [lines]
+  );
+
+  return (
+    <Dialog open={!!supplier} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Open Purchase Orders: {supplier?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            {lines.length} pending line{lines.length === 1 ? "" : "s"} worth {money(pendingValue)} incl. GST
+          </span>
+          <ExportExcelButton
+            rows={exportRows}
+            fileName={`open-purchase-orders-${(supplier?.name ?? "supplier").replace(/\s+/g, "-").toLowerCase()}`}
+            sheetName="Open POs"
+          />
+        </div>
+
+        <div className="rounded-xl border border-border overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="whitespace-nowrap">PO</TableHead>
+                <TableHead className="whitespace-nowrap">Expected By</TableHead>
+                <TableHead className="min-w-[160px]">Item</TableHead>
+                <TableHead className="text-right whitespace-nowrap">Ordered</TableHead>
+                <TableHead className="text-right whitespace-nowrap">Received</TableHead>
+                <TableHead className="text-right whitespace-nowrap">Pending</TableHead>
+                <TableHead className="text-right whitespace-nowrap">Pending Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((l, i) => (
+                <TableRow key={`${l.poNo}-${i}`}>
+                  <TableCell className="whitespace-nowrap">
+                    <div className="font-medium">{l.poNo}</div>
+                    <div className="text-xs text-muted-foreground">{l.poDate}</div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{l.expectedDate || "-"}</TableCell>
+                  <TableCell>{l.item}</TableCell>
+                  <TableCell className="text-right">{l.ordered}</TableCell>
+                  <TableCell className="text-right">{l.received}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {l.pending} {l.unit}
+                  </TableCell>
+                  <TableCell className="text-right">{money(l.pendingValue)}</TableCell>
+                </TableRow>
+              ))}
+              {!ordersQuery.isLoading && lines.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                    No open purchase orders for this supplier.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { billTaxByRate, landedRate } from "@/lib/purchase-bills";
+import type { PurchaseBillRecord } from "@/lib/schemas";
+
+interface PurchaseBillDialogProps {
+  bill: PurchaseBillRecord | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const money = (n: number) => `₹${n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** A purchase bill's lines with their landed cost, its GST by rate and its totals. */
+export function PurchaseBillDialog({ bill, onOpenChange }: PurchaseBillDialogProps) {
+  const taxRows = bill ? billTaxByRate(bill) : [];
+  const igst = bill?.taxType === "IGST";
+
+  return (
+    <Dialog open={!!bill} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Bill {bill?.billNo} from {bill?.supplierName}
+          </DialogTitle>
+        </DialogHeader>
+
+        {bill && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+              <span>Dated {bill.billDate}</span>
+              {bill.dueDate && <span>Due {bill.dueDate}</span>}
+              {bill.supplierGstin && <span>GSTIN {bill.supplierGstin}</span>}
+              <Badge variant="outline">{bill.taxType}</Badge>
+            </div>
+
+            <div className="rounded-xl border border-border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[160px]">Item</TableHead>
+                    <TableHead className="whitespace-nowrap">Lot</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Qty</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Rate</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Discount</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Taxable</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">GST</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Freight</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Landed Rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bill.items.map((line, i) => (
+                    <TableRow key={i}>
+                      <TableCell>
+                        <div className="font-medium">{line.itemName}</div>
+                        <div className="text-xs text-muted-foreground">{line.itemCode}</div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <div className="font-mono text-xs">{line.lotNo || "-"}</div>
+                        {line.expiryDate && <div className="text-xs text-muted-foreground">Exp {line.expiryDate}</div>}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {line.quantity} {line.unit}
+                      </TableCell>
+                      <TableCell className="text-right">{money(line.rate)}</TableCell>
+                      <TableCell className="text-right">{line.discount ? money(line.discount) : "-"}</TableCell>
+                      <TableCell className="text-right">{money(line.taxable)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {money(line.cgst + line.sgst + line.igst)}
+                        <div className="text-xs text-muted-foreground">{line.tax}%</div>
+                      </TableCell>
+                      <TableCell className="text-right">{line.freight ? money(line.freight) : "-"}</TableCell>
+                      <TableCell className="text-right font-medium">{money(landedRate(line))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="rounded-xl border border-border overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>GST Rate</TableHead>
+                      <TableHead className="text-right">Taxable</TableHead>
+                      {igst ? (
+                        <TableHead className="text-right">IGST</TableHead>
+                      ) : (
+                        <>
+                          <TableHead className="text-right">CGST</TableHead>
+                          <TableHead className="text-right">SGST</TableHead>
+                        </>
+                      )}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {taxRows.map((r) => (
+                      <TableRow key={r.rate}>
+                        <TableCell>{r.rate}%</TableCell>
+                        <TableCell className="text-right">{money(r.taxable)}</TableCell>
+                        {igst ? (
+                          <TableCell className="text-right">{money(r.igst)}</TableCell>
+                        ) : (
+                          <>
+                            <TableCell className="text-right">{money(r.cgst)}</TableCell>
+                            <TableCell className="text-right">{money(r.sgst)}</TableCell>
+                          </>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="space-y-1 text-sm">
+                {[
+                  ["Value", bill.subtotal],
+                  ["Discount", -bill.discount],
+                  ["Taxable value", bill.taxable],
+                  ["CGST", bill.cgst],
+                  ["SGST", bill.sgst],
+                  ["IGST", bill.igst],
+                  ["Freight", bill.freight],
+                ]
+                  .filter(([, amount]) => amount)
+                  .map(([label, amount]) => (
+                    <div key={label} className="flex justify-between">
+                      <span className="text-muted-foreground">{label}</span>
+                      <span>{money(Number(amount))}</span>
+                    </div>
+                  ))}
+                <div className="flex justify-between border-t pt-1 font-semibold">
+                  <span>Bill total</span>
+                  <span>{money(bill.total)}</span>
+                </div>
+              </div>
+            </div>
+
+            {bill.notes && <p className="text-sm text-muted-foreground">{bill.notes}</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
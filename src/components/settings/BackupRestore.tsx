@@ -0,0 +1,163 @@
+import { useRef, useState } from "react";
+import { saveAs } from "file-saver";
+import { Download, HardDriveDownload, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  backupFileName,
+  createBackup,
+  parseBackup,
+  planRestore,
+  restoreBackup,
+  serializeBackup,
+  type BackupFile,
+  type RestoreCollectionPlan,
+} from "@/lib/backup";
+
+/** Admin-only backup download and restore with a dry-run preview. */
+export function BackupRestore() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [pending, setPending] = useState<{ fileName: string; backup: BackupFile; plan: RestoreCollectionPlan[] } | null>(null);
+  const [progress, setProgress] = useState("");
+
+  const handleBackup = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await createBackup();
+      const count = Object.values(backup.collections).reduce((sum, rows) => sum + rows.length, 0);
+      saveAs(new Blob([serializeBackup(backup)], { type: "application/json" }), backupFileName(backup.createdAt));
+      toast({ title: "Backup downloaded", description: `${count} records from ${Object.keys(backup.collections).length} collections.` });
+    } catch (error) {
+      console.error("Error creating backup", error);
+      toast({
+        title: "Backup failed",
+        description: error instanceof Error ? error.message : "Could not read the database.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const backup = parseBackup(await file.text());
+      setPending({ fileName: file.name, backup, plan: await planRestore(backup) });
+    } catch (error) {
+      console.error("Error reading backup", error);
+      toast({
+        title: "Invalid backup",
+        description: error instanceof Error ? error.message : "Could not read the file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    setIsRestoring(true);
+    try {
+      const written = await restoreBackup(pending.backup, (done, total) => setProgress(`${done} / ${total}`));
+      toast({ title: "Restore complete", description: `${written} records written from ${pending.fileName}.` });
+      setPending(null);
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error) {
+      console.error("Error restoring backup", error);
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "Some records may not have been written.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+      setProgress("");
+    }
+  };
+
+  const totals = (pending?.plan ?? []).reduce(
+    (sum, p) => ({ added: sum.added + p.added, changed: sum.changed + p.changed, unchanged: sum.unchanged + p.unchanged }),
+    { added: 0, changed: 0, unchanged: 0 }
+  );
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-full bg-primary/20 flex items-center justify-center">
+            <HardDriveDownload className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Backup &amp; Restore</h2>
+            <p className="text-sm text-muted-foreground">Download every collection as a JSON file, or load one back</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 flex flex-wrap items-center gap-3">
+        <Button onClick={handleBackup} disabled={isExporting} className="gap-2">
+          <Download className="h-4 w-4" />
+          {isExporting ? "Preparing..." : "Backup"}
+        </Button>
+        <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isRestoring} className="gap-2">
+          <Upload className="h-4 w-4" />
+          Restore
+        </Button>
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+        <p className="text-xs text-muted-foreground">
+          Restore writes records back under their original ids. Records added since the backup are kept.
+        </p>
+      </div>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && !isRestoring && setPending(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Restore {pending?.fileName}</DialogTitle>
+            <DialogDescription>
+              Backup taken {pending?.backup.createdAt.toLocaleString("en-IN")}. Nothing has been written yet. Review what
+              the restore would change.
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Collection</TableHead>
+                <TableHead className="text-right">New</TableHead>
+                <TableHead className="text-right">Overwritten</TableHead>
+                <TableHead className="text-right">Unchanged</TableHead>
+                <TableHead className="text-right">Kept (not in backup)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pending?.plan.map((p) => (
+                <TableRow key={p.path}>
+                  <TableCell className="font-mono text-xs">{p.path}</TableCell>
+                  <TableCell className="text-right">{p.added}</TableCell>
+                  <TableCell className={`text-right ${p.changed ? "text-warning font-medium" : ""}`}>{p.changed}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{p.unchanged}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{p.onlyInDatabase}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <DialogFooter className="items-center">
+            {progress && <span className="text-sm text-muted-foreground mr-auto">Writing {progress}</span>}
+            <Button variant="outline" onClick={() => setPending(null)} disabled={isRestoring}>
+              Cancel
+            </Button>
+            <Button onClick={handleRestore} disabled={isRestoring || totals.added + totals.changed === 0}>
+              {isRestoring ? "Restoring..." : `Restore ${totals.added} new, overwrite ${totals.changed}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { Building2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { CompanyProfileError, DEFAULT_COMPANY, saveCompanyProfile } from "@/lib/company";
+import { GST_STATES, stateCodeFromGstin } from "@/lib/gst";
+import type { CompanyProfileRecord, DrugLicence, RecordInput } from "@/lib/schemas";
+
+type ProfileForm = RecordInput<"companyProfile"> & { drugLicences: DrugLicence[] };
+
+const AUTO_STATE = "auto";
+
+function formFromProfile(profile: CompanyProfileRecord | null): ProfileForm {
+  if (!profile) {
+    return {
+      legalName: DEFAULT_COMPANY.name,
+      gstin: DEFAULT_COMPANY.gstin,
+      stateCode: DEFAULT_COMPANY.stateCode,
+      address: DEFAULT_COMPANY.address,
+      phone: DEFAULT_COMPANY.phone,
+      email: DEFAULT_COMPANY.email,
+      drugLicences: [{ label: "20B", number: "" }, { label: "21B", number: "" }],
+    };
+  }
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...form } = profile;
+  return { ...form, drugLicences: profile.drugLicences ?? [] };
+}
+
+/** Shrinks an uploaded image so it fits in the profile record, keeping its aspect ratio. */
+function readImage(file: File, maxWidth: number, maxHeight: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Could not read the image."));
+    reader.onload = () => {
+      const img = new Image();
+      img.onerror = () => reject(new Error("The file is not an image."));
+      img.onload = () => {
+        const scale = Math.min(1, maxWidth / img.width, maxHeight / img.height);
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL("image/png"));
+      };
+      img.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Admin-only editor for the seller details printed on invoices, statements and reports. */
+export function CompanyProfile() {
+  const { toast } = useToast();
+  const { profile, isLoading, refetch } = useCompany();
+  const [form, setForm] = useState<ProfileForm>(() => formFromProfile(null));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading) setForm(formFromProfile(profile));
+  }, [profile, isLoading]);
+
+  const set = (patch: Partial<ProfileForm>) => setForm((f) => ({ ...f, ...patch }));
+  const field = (key: keyof ProfileForm) => ({
+    value: (form[key] as string | undefined) ?? "",
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => set({ [key]: e.target.value }),
+  });
+
+  const setLicence = (index: number, patch: Partial<DrugLicence>) =>
+    set({ drugLicences: form.drugLicences.map((l, i) => (i === index ? { ...l, ...patch } : l)) });
+
+  const handleImage = async (key: "logo" | "signature", file: File | undefined) => {
+    if (!file) return;
+    try {
+      set({ [key]: await readImage(file, key === "logo" ? 400 : 300, key === "logo" ? 200 : 120) });
+    } catch (error) {
+      toast({
+        title: "Validation error",
+        description: error instanceof Error ? error.message : "Could not read the image.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveCompanyProfile(form);
+      toast({ title: "Company profile saved", description: "Printed documents now use these details." });
+      await refetch();
+    } catch (error) {
+      console.error("Error saving company profile", error);
+      toast({
+        title: error instanceof CompanyProfileError ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the company profile.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const gstinState = stateCodeFromGstin(form.gstin);
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-full bg-primary/20 flex items-center justify-center">
+            <Building2 className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Company Profile</h2>
+            <p className="text-sm text-muted-foreground">Seller details on every printed invoice, statement and report</p>
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={isSaving || isLoading}>
+          {isSaving ? "Saving..." : "Save Profile"}
+        </Button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="legalName">Legal Name *</Label>
+            <Input id="legalName" {...field("legalName")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tradeName">Trade Name</Label>
+            <Input id="tradeName" {...field("tradeName")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="companyGstin">GSTIN</Label>
+            <Input id="companyGstin" value={form.gstin ?? ""} onChange={(e) => set({ gstin: e.target.value.toUpperCase() })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pan">PAN</Label>
+            <Input id="pan" value={form.pan ?? ""} onChange={(e) => set({ pan: e.target.value.toUpperCase() })} />
+          </div>
+          <div className="space-y-2">
+            <Label>State</Label>
+            <Select value={form.stateCode || AUTO_STATE} onValueChange={(v) => set({ stateCode: v === AUTO_STATE ? "" : v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_STATE}>
+                  From GSTIN{gstinState ? ` (${gstinState} - ${GST_STATES[gstinState]})` : ""}
+                </SelectItem>
+                {Object.entries(GST_STATES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>
+                    {code} - {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="companyPhone">Phone</Label>
+            <Input id="companyPhone" {...field("phone")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="companyEmail">Email</Label>
+            <Input id="companyEmail" type="email" {...field("email")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="website">Website</Label>
+            <Input id="website" {...field("website")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="companyAddress">Registered Address * (with PIN code)</Label>
+            <Textarea id="companyAddress" rows={3} {...field("address")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="factoryAddress">Works / Factory Address</Label>
+            <Textarea id="factoryAddress" rows={3} {...field("factoryAddress")} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Drug Licence Numbers</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => set({ drugLicences: [...form.drugLicences, { label: "", number: "" }] })}
+            >
+              <Plus className="h-4 w-4" />
+              Add Licence
+            </Button>
+          </div>
+          {form.drugLicences.map((licence, i) => (
+            <div key={i} className="grid grid-cols-[140px_1fr_auto] gap-2">
+              <Input value={licence.label} onChange={(e) => setLicence(i, { label: e.target.value })} placeholder="Form, e.g. 20B" />
+              <Input value={licence.number} onChange={(e) => setLicence(i, { number: e.target.value })} placeholder="Licence number" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => set({ drugLicences: form.drugLicences.filter((_, j) => j !== i) })}
+                title="Remove"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Bank Details for Remittance</Label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input {...field("bankName")} placeholder="Bank name" />
+            <Input {...field("bankAccountName")} placeholder="Account name" />
+            <Input {...field("bankAccountNo")} placeholder="Account number" />
+            <Input value={form.bankIfsc ?? ""} onChange={(e) => set({ bankIfsc: e.target.value.toUpperCase() })} placeholder="IFSC" />
+            <Input {...field("bankBranch")} placeholder="Branch" />
+            <Input {...field("upiId")} placeholder="UPI ID" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(["logo", "signature"] as const).map((key) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`${key}Upload`}>{key === "logo" ? "Logo" : "Signature"}</Label>
+              {form[key] && (
+                <div className="flex items-center gap-3">
+                  <img src={form[key]} alt="" className="h-16 max-w-[200px] object-contain border border-border rounded p-1 bg-white" />
+                  <Button variant="outline" size="sm" onClick={() => set({ [key]: "" })}>
+                    Remove
+                  </Button>
+                </div>
+              )}
+              <Input id={`${key}Upload`} type="file" accept="image/*" onChange={(e) => handleImage(key, e.target.files?.[0])} />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="terms">Terms &amp; Conditions</Label>
+          <Textarea id="terms" rows={4} {...field("terms")} placeholder="Printed at the foot of invoices" />
+        </div>
+      </div>
+    </div>
+  );
+}
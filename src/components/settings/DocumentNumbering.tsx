@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Hash, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNumbering } from "@/hooks/use-numbering";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DOCUMENT_TYPE_LABELS,
+  formatDocumentNumber,
+  NumberingError,
+  numberingProblems,
+  saveNumbering,
+  type NumberingSettings,
+} from "@/lib/numbering";
+import type { DocumentSeries, DocumentType } from "@/lib/schemas";
+
+/** Admin-only editor for the prefix and layout of each document series, and the branches. */
+export function DocumentNumbering() {
+  const { toast } = useToast();
+  const { settings, isLoading, refetch } = useNumbering();
+  const [form, setForm] = useState<NumberingSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading) setForm(settings);
+  }, [settings, isLoading]);
+
+  const setSeries = (type: DocumentType, patch: Partial<DocumentSeries>) =>
+    setForm((f) => ({ ...f, series: { ...f.series, [type]: { ...f.series[type], ...patch } } }));
+
+  const setBranch = (index: number, patch: { code?: string; name?: string }) =>
+    setForm((f) => ({ ...f, branches: f.branches.map((b, i) => (i === index ? { ...b, ...patch } : b)) }));
+
+  const problems = numberingProblems(form);
+  const today = new Date().toISOString().slice(0, 10);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveNumbering(form);
+      toast({ title: "Numbering saved", description: "New documents will be numbered with these series." });
+      await refetch();
+    } catch (error) {
+      console.error("Error saving numbering settings", error);
+      toast({
+        title: error instanceof NumberingError ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the numbering settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-full bg-primary/20 flex items-center justify-center">
+            <Hash className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Document Numbering</h2>
+            <p className="text-sm text-muted-foreground">Series for sales and purchase documents</p>
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={isSaving || isLoading || problems.length > 0}>
+          {isSaving ? "Saving..." : "Save Numbering"}
+        </Button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document</TableHead>
+                <TableHead className="w-[110px]">Prefix</TableHead>
+                <TableHead className="min-w-[220px]">Format</TableHead>
+                <TableHead className="w-[90px]">Digits</TableHead>
+                <TableHead className="w-[110px]">Reset Apr 1</TableHead>
+                <TableHead>Next Number</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.values(form.series).map((s) => (
+                <TableRow key={s.documentType}>
+                  <TableCell className="font-medium">{DOCUMENT_TYPE_LABELS[s.documentType]}</TableCell>
+                  <TableCell>
+                    <Input value={s.prefix} onChange={(e) => setSeries(s.documentType, { prefix: e.target.value.toUpperCase() })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input value={s.format} onChange={(e) => setSeries(s.documentType, { format: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={8}
+                      value={s.padding}
+                      onChange={(e) => setSeries(s.documentType, { padding: Number(e.target.value) || 0 })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={s.resetYearly} onCheckedChange={(v) => setSeries(s.documentType, { resetYearly: v })} />
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{formatDocumentNumber(s, 1, today, form.branches[0]?.code)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Format placeholders: {"{PREFIX}"}, {"{FY}"} (2026-27), {"{FYS}"} (2627), {"{BRANCH}"} and {"{SEQ}"}. The example
+          shows the first number of a series.
+        </p>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Branches</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setForm((f) => ({ ...f, branches: [...f.branches, { code: "", name: "" }] }))}
+            >
+              <Plus className="h-4 w-4" />
+              Add Branch
+            </Button>
+          </div>
+          {form.branches.length === 0 && (
+            <p className="text-sm text-muted-foreground">No branches: every document is numbered from one series.</p>
+          )}
+          {form.branches.map((branch, i) => (
+            <div key={i} className="grid grid-cols-[140px_1fr_auto] gap-2">
+              <Input value={branch.code} onChange={(e) => setBranch(i, { code: e.target.value.toUpperCase() })} placeholder="Code, e.g. AHD" />
+              <Input value={branch.name} onChange={(e) => setBranch(i, { name: e.target.value })} placeholder="Branch name" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setForm((f) => ({ ...f, branches: f.branches.filter((_, j) => j !== i) }))}
+                title="Remove"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-6 space-y-1">
+            {problems.map((p) => (
+              <li key={p}>{p}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Pencil, Plus, UserCog } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthBackend, ROLE_LABELS, saveStaffUser, STAFF_ROLES } from "@/lib/auth";
+import type { StaffRole, StaffUserRecord } from "@/lib/schemas";
+
+const emptyForm = { email: "", name: "", role: "sales" as StaffRole, disabled: false, password: "" };
+
+/** Admin-only list of staff accounts and their roles. */
+export function StaffAccess() {
+  const { session } = useAuth();
+  const { toast } = useToast();
+  const staffQuery = useRecords("staffUsers");
+  const staff = [...(staffQuery.data ?? [])].sort((a, b) => a.email.localeCompare(b.email));
+  const localSignIn = getAuthBackend().kind === "local";
+
+  const [editing, setEditing] = useState<StaffUserRecord | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const openForm = (user: StaffUserRecord | null) => {
+    setEditing(user);
+    setForm(user ? { email: user.email, name: user.name, role: user.role, disabled: user.disabled, password: "" } : emptyForm);
+    setIsOpen(true);
+  };
+
+  const isSelf = editing?.email === session?.email;
+
+  const handleSave = async () => {
+    if (!form.email.trim() || !form.name.trim()) {
+      toast({ title: "Validation error", description: "Enter the name and email.", variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveStaffUser(form, editing ?? undefined);
+      toast({ title: "Staff saved", description: `${form.name} is set up as ${ROLE_LABELS[form.role]}.` });
+      setIsOpen(false);
+      await staffQuery.refetch();
+    } catch (error) {
+      console.error("Error saving staff user", error);
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the staff account.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-full bg-primary/20 flex items-center justify-center">
+            <UserCog className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Staff Access</h2>
+            <p className="text-sm text-muted-foreground">Who can sign in and what their role allows</p>
+          </div>
+        </div>
+        <Button onClick={() => openForm(null)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Staff
+        </Button>
+      </div>
+
+      <div className="p-6 space-y-3">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[60px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {staff.map((user) => (
+              <TableRow key={user.id}>
+                <TableCell className="font-medium">{user.name}</TableCell>
+                <TableCell>{user.email}</TableCell>
+                <TableCell>{ROLE_LABELS[user.role]}</TableCell>
+                <TableCell>
+                  <Badge variant={user.disabled ? "secondary" : "default"}>{user.disabled ? "Disabled" : "Active"}</Badge>
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" onClick={() => openForm(user)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground">
+          {localSignIn
+            ? "Offline mode: staff sign in with the password set here."
+            : "Create the sign-in in Firebase Authentication, then add the same email here to give it a role."}
+        </p>
+      </div>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Staff" : "Add Staff"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="staffName">Name</Label>
+              <Input id="staffName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staffEmail">Email</Label>
+              <Input
+                id="staffEmail"
+                type="email"
+                value={form.email}
+                disabled={!!editing}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={form.role}
+                disabled={isSelf}
+                onValueChange={(value) => setForm({ ...form, role: value as StaffRole })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAFF_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {localSignIn && (
+              <div className="space-y-2">
+                <Label htmlFor="staffPassword">{editing ? "New Password" : "Password"}</Label>
+                <Input
+                  id="staffPassword"
+                  type="password"
+                  value={form.password}
+                  placeholder={editing ? "Leave empty to keep the current password" : ""}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="staffDisabled">Disabled</Label>
+              <Switch
+                id="staffDisabled"
+                checked={form.disabled}
+                disabled={isSelf}
+                onCheckedChange={(checked) => setForm({ ...form, disabled: checked })}
+              />
+            </div>
+            {isSelf && <p className="text-xs text-muted-foreground">You can't change your own role or disable yourself.</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react";
+import type { Permission, StaffSession } from "@/lib/auth";
+
+export interface AuthContextType {
+  session: StaffSession | null;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<StaffSession>;
+  setUpAdmin: (input: { email: string; name: string; password: string }) => Promise<StaffSession>;
+  signOut: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  canOpen: (pathname: string) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
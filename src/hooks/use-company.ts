@@ -0,0 +1,10 @@
+import { useMemo } from "react";
+import { COMPANY_PROFILE_ID, companyFromProfile } from "@/lib/company";
+import { useRecord } from "@/hooks/use-records";
+
+/** The company profile every printed document renders its seller details from. */
+export function useCompany() {
+  const query = useRecord("companyProfile", COMPANY_PROFILE_ID);
+  const company = useMemo(() => companyFromProfile(query.data), [query.data]);
+  return { company, profile: query.data ?? null, isLoading: query.isLoading, refetch: query.refetch };
+}
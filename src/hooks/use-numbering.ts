@@ -0,0 +1,10 @@
+import { useMemo } from "react";
+import { NUMBERING_SETTINGS_ID, numberingFromRecord } from "@/lib/numbering";
+import { useRecord } from "@/hooks/use-records";
+
+/** Document series and branches, with the built-in series filled in for types not configured. */
+export function useNumbering() {
+  const query = useRecord("numberingSettings", NUMBERING_SETTINGS_ID);
+  const settings = useMemo(() => numberingFromRecord(query.data), [query.data]);
+  return { settings, isLoading: query.isLoading, refetch: query.refetch };
+}
@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createRecord,
+  deleteRecord,
+  getRecord,
+  listRecords,
+  runRecordTransaction,
+  updateRecord,
+  type ListOptions,
+  type RecordTransaction,
+} from "@/lib/repository";
+import type { CollectionName, RecordInput } from "@/lib/schemas";
+
+export const recordKeys = {
+  all: (name: CollectionName) => [name] as const,
+  list: (name: CollectionName, options: ListOptions = {}) => [name, "list", options] as const,
+  detail: (name: CollectionName, id: string) => [name, "detail", id] as const,
+};
+
+export function useRecords<C extends CollectionName>(name: C, options: ListOptions = {}) {
+  return useQuery({
+    queryKey: recordKeys.list(name, options),
+    queryFn: () => listRecords(name, options),
+  });
+}
+
+export function useRecord<C extends CollectionName>(name: C, id: string | undefined) {
+  return useQuery({
+    queryKey: recordKeys.detail(name, id ?? ""),
+    queryFn: () => getRecord(name, id as string),
+    enabled: !!id,
+  });
+}
+
+export function useCreateRecord<C extends CollectionName>(name: C) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: RecordInput<C>) => createRecord(name, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordKeys.all(name) }),
+  });
+}
+
+export function useUpdateRecord<C extends CollectionName>(name: C) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RecordInput<C> }) => updateRecord(name, id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordKeys.all(name) }),
+  });
+}
+
+export function useDeleteRecord(name: CollectionName) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => deleteRecord(name, id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordKeys.all(name) }),
+  });
+}
+
+/** Runs several writes atomically and refreshes every collection they touch. */
+export function useRecordTransaction(names: CollectionName[]) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (fn: (tx: RecordTransaction) => Promise<unknown>) => runRecordTransaction(fn),
+    onSuccess: () => Promise.all(names.map((name) => queryClient.invalidateQueries({ queryKey: recordKeys.all(name) }))),
+  });
+}
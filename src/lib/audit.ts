@@ -0,0 +1,96 @@
+import type { AuditAction, AuditChange, CollectionName, RecordInput } from "@/lib/schemas";
+
+// Every write that goes through the repository is logged to `auditLog` in the same
+// transaction (see runRecordTransaction). This module holds the pure parts: who is acting,
+// which collections are logged and how a before/after pair becomes a field-level diff.
+
+type StoredDocument = Record<string, unknown>;
+
+/** Collections that are never logged: the log itself, portal sessions and the derived ledgers. */
+const UNAUDITED = new Set<CollectionName>(["auditLog", "doctorSessions", "journalEntries", "numberCounters", "stockMovements"]);
+
+/** Never copied into the log, not even as a diff. */
+const REDACTED_FIELDS = new Set(["password", "passwordHash", "salt"]);
+
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+/** Uploaded images (data URLs) are logged as changed, not copied. */
+const shown = (value: string | undefined) => (value?.startsWith("data:") ? "[image]" : value);
+
+/** Fields tried in order for a human-readable reference to the record. */
+const REFERENCE_FIELDS = [
+  "invoiceNo",
+  "batchNo",
+  "noteNo",
+  "quotationNo",
+  "reference",
+  "lotNo",
+  "productName",
+  "name",
+  "email",
+  "partyName",
+];
+
+let actor = "";
+
+/** Set by the auth provider whenever a staff member signs in or out. */
+export function setAuditActor(email: string | null | undefined) {
+  actor = email ?? "";
+}
+
+export const auditActor = () => actor;
+
+export const formatAuditTime = (date: Date | undefined) =>
+  date ? date.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" }) : "-";
+
+export function isAudited(name: CollectionName): boolean {
+  return !UNAUDITED.has(name);
+}
+
+function display(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value, (_k, v) => (v instanceof Date ? v.toISOString() : v));
+  return String(value);
+}
+
+/** Top-level fields whose value differs between the two versions of a document. */
+export function diffDocuments(before: StoredDocument | null, after: StoredDocument | null): AuditChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditChange[] = [];
+  for (const field of [...fields].sort()) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = display(before?.[field]);
+    const to = display(after?.[field]);
+    if (from === to) continue;
+    changes.push(REDACTED_FIELDS.has(field) ? { field, before: from && "••••", after: to && "••••" } : { field, before: shown(from), after: shown(to) });
+  }
+  return changes;
+}
+
+function referenceOf(doc: StoredDocument | null): string | undefined {
+  if (!doc) return undefined;
+  for (const field of REFERENCE_FIELDS) {
+    const value = display(doc[field]);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+export function auditEntry(
+  collection: CollectionName,
+  recordId: string,
+  action: AuditAction,
+  before: StoredDocument | null,
+  after: StoredDocument | null
+): RecordInput<"auditLog"> {
+  return {
+    collection,
+    recordId,
+    action,
+    reference: referenceOf(after) ?? referenceOf(before),
+    changes: diffDocuments(before, after),
+    actor,
+    source: globalThis.location?.pathname ?? "",
+  };
+}
@@ -0,0 +1,300 @@
+import { signInWithEmailAndPassword, signOut as firebaseSignOut } from "firebase/auth";
+import { auth } from "@/lib/firebase";
+import { hashPassword, saltedPasswordHash } from "@/lib/passwords";
+import { getRecord, listRecords, putRecord, updateRecord } from "@/lib/repository";
+import type { StaffRole, StaffUserRecord } from "@/lib/schemas";
+import { getStorage } from "@/lib/storage";
+
+// Staff sign-in and role-based access. Credentials are checked by Firebase Auth when the app
+// runs on Firestore, and by a local stand-in (salted hashes on the staff record) on the
+// IndexedDB and in-memory backends. Either way the role comes from `staffUsers`, keyed by
+// the lower-cased email.
+
+export const STAFF_ROLES: StaffRole[] = ["admin", "accountant", "production", "sales"];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  admin: "Administrator",
+  accountant: "Accountant",
+  production: "Production",
+  sales: "Sales",
+};
+
+export type Permission =
+  | "deleteRecords"
+  | "editPayments"
+  | "wipeData"
+  | "manageStaff"
+  | "manageDoctorAccess"
+  | "manageCompany";
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  admin: ["deleteRecords", "editPayments", "wipeData", "manageStaff", "manageDoctorAccess", "manageCompany"],
+  accountant: ["editPayments"],
+  production: [],
+  sales: [],
+};
+
+/** Pages each role may open, by path prefix. Admins can open everything. */
+const ROLE_PATHS: Record<Exclude<StaffRole, "admin">, string[]> = {
+  accountant: [
+    "/accounting",
+    "/financial-reports",
+    "/gst-returns",
+    "/transactions",
+    "/bank-book",
+    "/bank-details",
+    "/cash-book",
+    "/cash-details",
+    "/payments",
+    "/invoices",
+    "/quotations",
+    "/sales-orders",
+    "/delivery-challans",
+    "/proforma-invoices",
+    "/debit-credit-notes",
+    "/purchase-orders",
+    "/goods-receipts",
+    "/purchases",
+    "/suppliers",
+    "/customers",
+    "/audit",
+  ],
+  production: [
+    "/items",
+    "/purchase-orders",
+    "/goods-receipts",
+    "/purchases",
+    "/raw-inventory",
+    "/processed-inventory",
+    "/processing",
+    "/recipes",
+    "/quality-control",
+    "/traceability",
+    "/loss-calculation",
+    "/suppliers",
+  ],
+  sales: [
+    "/items",
+    "/processed-inventory",
+    "/invoices",
+    "/quotations",
+    "/sales-orders",
+    "/delivery-challans",
+    "/proforma-invoices",
+    "/debit-credit-notes",
+    "/customers",
+    "/doctors",
+    "/doctor-login",
+  ],
+};
+
+/** Open to every signed-in role. */
+const SHARED_PATHS = ["/", "/settings"];
+
+export interface StaffSession {
+  email: string;
+  name: string;
+  role: StaffRole;
+}
+
+export class PermissionDeniedError extends Error {
+  constructor(message = "You don't have permission to do that.") {
+    super(message);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+export class SignInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignInError";
+  }
+}
+
+export function hasPermission(role: StaffRole | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function canAccessPath(role: StaffRole | undefined, pathname: string): boolean {
+  if (!role) return false;
+  if (role === "admin") return true;
+  const matchesPrefix = (prefix: string) =>
+    prefix === "/" ? pathname === "/" : pathname === prefix || pathname.startsWith(`${prefix}/`);
+  return SHARED_PATHS.some(matchesPrefix) || ROLE_PATHS[role].some(matchesPrefix);
+}
+
+export const staffUserId = (email: string) => email.trim().toLowerCase();
+
+async function passwordMatches(staff: StaffUserRecord, password: string): Promise<boolean> {
+  return !!staff.passwordHash && !!staff.salt && (await hashPassword(password, staff.salt)) === staff.passwordHash;
+}
+
+// ---------- Backends ----------
+
+export type AuthKind = "firebase" | "local";
+
+export interface AuthBackend {
+  readonly kind: AuthKind;
+  /** Checks the credentials and returns the signed-in email. */
+  signIn(email: string, password: string): Promise<string>;
+  signOut(): Promise<void>;
+  /** The email still signed in from an earlier visit, if any. */
+  restore(): Promise<string | null>;
+}
+
+class FirebaseAuthBackend implements AuthBackend {
+  readonly kind = "firebase" as const;
+
+  async signIn(email: string, password: string) {
+    try {
+      const credential = await signInWithEmailAndPassword(auth, email.trim(), password);
+      return credential.user.email ?? email;
+    } catch (error) {
+      console.error("Firebase sign-in failed", error);
+      throw new SignInError("Invalid email or password.");
+    }
+  }
+
+  async signOut() {
+    await firebaseSignOut(auth);
+  }
+
+  async restore() {
+    await auth.authStateReady();
+    return auth.currentUser?.email ?? null;
+  }
+}
+
+const LOCAL_SESSION_KEY = "staffSession";
+
+class LocalAuthBackend implements AuthBackend {
+  readonly kind = "local" as const;
+
+  async signIn(email: string, password: string) {
+    const staff = await getRecord("staffUsers", staffUserId(email));
+    if (!staff || !(await passwordMatches(staff, password))) throw new SignInError("Invalid email or password.");
+    localStorage.setItem(LOCAL_SESSION_KEY, staffUserId(email));
+    return email.trim();
+  }
+
+  async signOut() {
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+  }
+
+  async restore() {
+    return localStorage.getItem(LOCAL_SESSION_KEY);
+  }
+}
+
+/** Firebase Auth goes with Firestore; the offline backends use local sign-in. */
+export function resolveAuthKind(storageKind: string, firebaseAuthReady: boolean): AuthKind {
+  return storageKind === "firestore" && firebaseAuthReady ? "firebase" : "local";
+}
+
+let currentBackend: AuthBackend | null = null;
+
+export function getAuthBackend(): AuthBackend {
+  if (!currentBackend) {
+    currentBackend =
+      resolveAuthKind(getStorage().kind, !!auth) === "firebase" ? new FirebaseAuthBackend() : new LocalAuthBackend();
+  }
+  return currentBackend;
+}
+
+export function setAuthBackend(backend: AuthBackend | null) {
+  currentBackend = backend;
+}
+
+// ---------- Sessions ----------
+
+function toSession(staff: StaffUserRecord): StaffSession {
+  return { email: staff.email, name: staff.name || staff.email, role: staff.role };
+}
+
+async function sessionFor(email: string): Promise<StaffSession> {
+  const staff = await getRecord("staffUsers", staffUserId(email));
+  if (!staff) throw new SignInError("This account has not been given access. Ask an administrator to add you.");
+  if (staff.disabled) throw new SignInError("This account has been disabled.");
+  return toSession(staff);
+}
+
+/** A fresh install has no staff yet; its administrator must be set up before anyone can sign in. */
+export async function needsFirstRunSetup(): Promise<boolean> {
+  return (await listRecords("staffUsers", { limit: 1 })).length === 0;
+}
+
+export async function signInStaff(email: string, password: string): Promise<StaffSession> {
+  if (await needsFirstRunSetup()) throw new SignInError("No administrator has been set up yet.");
+  const backend = getAuthBackend();
+  const signedInAs = await backend.signIn(email, password);
+  try {
+    return await sessionFor(signedInAs);
+  } catch (error) {
+    await backend.signOut();
+    throw error;
+  }
+}
+
+/**
+ * First-run setup: creates the administrator account and signs it in. Refused once any staff
+ * account exists. With Firebase Auth the account must already exist there; the password is
+ * checked against it before the administrator record is written.
+ */
+export async function setUpFirstAdmin(input: { email: string; name: string; password: string }): Promise<StaffSession> {
+  const email = staffUserId(input.email);
+  if (!email.includes("@")) throw new SignInError("Enter a valid email address.");
+  if (input.password.length < 6) throw new SignInError("Use a password of at least 6 characters.");
+  if (!(await needsFirstRunSetup())) throw new SignInError("An administrator has already been set up. Sign in instead.");
+
+  const backend = getAuthBackend();
+  const local = backend.kind === "local";
+  if (!local) await backend.signIn(email, input.password);
+  await putRecord("staffUsers", email, {
+    email,
+    name: input.name.trim() || "Administrator",
+    role: "admin",
+    ...(local ? await saltedPasswordHash(input.password) : {}),
+  });
+  if (local) await backend.signIn(email, input.password);
+  return sessionFor(email);
+}
+
+export async function restoreSession(): Promise<StaffSession | null> {
+  const backend = getAuthBackend();
+  const email = await backend.restore();
+  if (!email) return null;
+  try {
+    return await sessionFor(email);
+  } catch {
+    await backend.signOut();
+    return null;
+  }
+}
+
+export function signOutStaff(): Promise<void> {
+  return getAuthBackend().signOut();
+}
+
+export async function saveStaffUser(
+  input: { email: string; name: string; role: StaffRole; disabled?: boolean; password?: string },
+  existing?: StaffUserRecord
+): Promise<void> {
+  const email = staffUserId(input.email);
+  if (!email.includes("@")) throw new SignInError("Enter a valid email address.");
+  const local = getAuthBackend().kind === "local";
+  if (local && !existing && !input.password) throw new SignInError("Set a password for the new account.");
+  const record = {
+    email,
+    name: input.name.trim(),
+    role: input.role,
+    disabled: !!input.disabled,
+    ...(local && input.password
+      ? await saltedPasswordHash(input.password)
+      : { passwordHash: existing?.passwordHash, salt: existing?.salt }),
+  };
+  if (existing) {
+    await updateRecord("staffUsers", existing.id, record);
+  } else {
+    await putRecord("staffUsers", email, record);
+  }
+}
@@ -0,0 +1,267 @@
+import { getStorage, type StoredDocument, type StoredRecord } from "@/lib/storage";
+import { serializeRecord } from "@/lib/repository";
+import { collectionDefinitions, type CollectionDefinition } from "@/lib/schemas";
+
+// Whole-dataset backups. A backup is one JSON file holding every document of every
+// collection, keyed by collection path, so subcollections such as doctors/{id}/patients
+// sit alongside the top-level ones. Restoring writes documents back under their original
+// ids; documents created since the backup are left alone. Number counters never go back
+// below a number already issued, and an inventory quantity the restore changes gets an
+// adjustment in the movement log so the log still explains the balance. Wiping deletes the same set of
+// collections, apart from staff sign-ins and the company's own settings.
+
+export const BACKUP_FORMAT = "sentiment-pharma-suite-backup";
+export const BACKUP_VERSION = 1;
+
+/** Firestore allows 500 writes per transaction; keep some margin. */
+const WRITE_BATCH_SIZE = 400;
+
+/** Short-lived portal sign-ins; restoring them would revive ended sessions. */
+const SKIPPED_PATHS = new Set([collectionDefinitions.doctorSessions.path]);
+
+/** Kept by a wipe, so an administrator can still sign in and the company's setup survives. */
+const KEPT_ON_WIPE = new Set(
+  [collectionDefinitions.staffUsers, collectionDefinitions.companyProfile, collectionDefinitions.numberingSettings].map((def) => def.path)
+);
+
+/**
+ * Fields never written to a backup: password hashes and salts, and legacy plaintext doctor
+ * passwords awaiting migration. A restore keeps whatever the database holds for them, so a
+ * restored account signs in with its current password, or needs a new one set.
+ */
+const OMITTED_FIELDS: Record<string, string[]> = {
+  [collectionDefinitions.doctors.path]: ["password"],
+  [collectionDefinitions.staffUsers.path]: ["passwordHash", "salt"],
+  [collectionDefinitions.doctorCredentials.path]: ["passwordHash", "salt"],
+};
+
+const definitions: CollectionDefinition[] = Object.values(collectionDefinitions);
+
+const COUNTERS_PATH = collectionDefinitions.numberCounters.path;
+const INVENTORY_PATHS: Record<string, "raw" | "processed"> = {
+  [collectionDefinitions.rawInventory.path]: "raw",
+  [collectionDefinitions.processedInventory.path]: "processed",
+};
+
+const SUBCOLLECTIONS = definitions
+  .filter((def) => def.parent)
+  .map((def) => ({ parent: def.parent, name: def.path }));
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupFormatError";
+  }
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: Date;
+  collections: Record<string, StoredRecord[]>;
+}
+
+export interface RestoreCollectionPlan {
+  path: string;
+  added: number;
+  changed: number;
+  unchanged: number;
+  /** Documents in the database that the backup doesn't have; restore leaves them as they are. */
+  onlyInDatabase: number;
+}
+
+function knownPaths(): string[] {
+  return definitions
+    .filter((def) => !def.parent)
+    .map((def) => def.path)
+    .sort();
+}
+
+export function backupPaths(): string[] {
+  return knownPaths().filter((path) => !SKIPPED_PATHS.has(path));
+}
+
+/** Every collection a wipe empties. */
+export function wipePaths(): string[] {
+  return knownPaths().filter((path) => !KEPT_ON_WIPE.has(path));
+}
+
+/** Deletes every document in the wiped collections and their subcollections. Returns the number deleted. */
+export async function wipeAllData(): Promise<number> {
+  const storage = getStorage();
+  const deletes: Array<{ path: string; id: string }> = [];
+  for (const path of wipePaths()) {
+    const rows = await storage.list(path);
+    for (const { parent, name } of SUBCOLLECTIONS.filter((s) => s.parent === path)) {
+      for (const owner of rows) {
+        const child = `${parent}/${owner.id}/${name}`;
+        deletes.push(...(await storage.list(child)).map((r) => ({ path: child, id: r.id })));
+      }
+    }
+    deletes.push(...rows.map((r) => ({ path, id: r.id })));
+  }
+  for (let i = 0; i < deletes.length; i += WRITE_BATCH_SIZE) {
+    const chunk = deletes.slice(i, i + WRITE_BATCH_SIZE);
+    await storage.runTransaction(async (tx) => {
+      for (const { path, id } of chunk) tx.delete(path, id);
+    });
+  }
+  return deletes.length;
+}
+
+export async function createBackup(now = new Date()): Promise<BackupFile> {
+  const storage = getStorage();
+  const collections: Record<string, StoredRecord[]> = {};
+  for (const path of backupPaths()) {
+    const omitted = OMITTED_FIELDS[path] ?? [];
+    collections[path] = (await storage.list(path)).map(({ id, data }) => ({
+      id,
+      data: Object.fromEntries(Object.entries(data).filter(([field]) => !omitted.includes(field))),
+    }));
+  }
+  for (const { parent, name } of SUBCOLLECTIONS) {
+    for (const owner of collections[parent] ?? []) {
+      const path = `${parent}/${owner.id}/${name}`;
+      const rows = await storage.list(path);
+      if (rows.length) collections[path] = rows;
+    }
+  }
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: now, collections };
+}
+
+// Dates are tagged so they come back as Dates rather than ISO strings. Keys are sorted so
+// the same document always serializes the same way, which the dry-run diff relies on.
+const DATE_TAG = "$date";
+
+function encode(value: unknown): unknown {
+  if (value instanceof Date) return { [DATE_TAG]: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encode);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) out[key] = encode((value as Record<string, unknown>)[key]);
+    return out;
+  }
+  return value;
+}
+
+export function serializeBackup(backup: BackupFile): string {
+  return JSON.stringify(encode(backup));
+}
+
+export function parseBackup(text: string): BackupFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text, (_key, value) =>
+      value && typeof value === "object" && Object.keys(value).length === 1 && typeof value[DATE_TAG] === "string"
+        ? new Date(value[DATE_TAG])
+        : value
+    );
+  } catch {
+    throw new BackupFormatError("The file is not valid JSON.");
+  }
+
+  const backup = parsed as Partial<BackupFile> | null;
+  if (!backup || backup.format !== BACKUP_FORMAT) throw new BackupFormatError("This is not a backup file from this app.");
+  if (typeof backup.version !== "number" || backup.version < 1 || backup.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`Backup version ${backup.version} is not supported by this app (version ${BACKUP_VERSION}).`);
+  }
+  if (!backup.collections || typeof backup.collections !== "object") throw new BackupFormatError("The backup has no collections.");
+  for (const [path, rows] of Object.entries(backup.collections)) {
+    const def = definitionAt(path);
+    if (!def) throw new BackupFormatError(`The backup has an unknown collection ${path}.`);
+    if (!Array.isArray(rows) || rows.some((r) => typeof r?.id !== "string" || !r.data || typeof r.data !== "object")) {
+      throw new BackupFormatError(`Collection ${path} in the backup is malformed.`);
+    }
+    for (const { id, data } of rows) {
+      if (!def.schema.safeParse(def.normalize ? def.normalize(data) : data).success) {
+        throw new BackupFormatError(`Document ${path}/${id} in the backup does not match its collection.`);
+      }
+    }
+  }
+  return backup as BackupFile;
+}
+
+/** The definition of a backed-up path: a top-level collection or "{parent}/{id}/{name}". */
+function definitionAt(path: string): CollectionDefinition | undefined {
+  const [parent, owner, name, ...rest] = path.split("/");
+  if (owner === undefined) return backupPaths().includes(parent) ? definitions.find((def) => def.path === parent) : undefined;
+  if (!owner || rest.length || !backupPaths().includes(parent)) return undefined;
+  return definitions.find((def) => def.parent === parent && def.path === name);
+}
+
+/**
+ * What restoring `data` over `current` writes: counters keep the higher last number and
+ * fields left out of backups keep their current values.
+ */
+function restoredData(path: string, data: StoredDocument, current: StoredDocument | null): StoredDocument {
+  if (!current) return data;
+  const kept = Object.fromEntries(
+    (OMITTED_FIELDS[path] ?? []).filter((field) => field in current).map((field) => [field, current[field]])
+  );
+  if (path !== COUNTERS_PATH) return { ...data, ...kept };
+  return { ...data, ...kept, lastNumber: Math.max(Number(current.lastNumber) || 0, Number(data.lastNumber) || 0) };
+}
+
+const fingerprint = (data: StoredDocument) => JSON.stringify(encode(data));
+
+/** Dry run: what restoring the backup would do to each collection. */
+export async function planRestore(backup: BackupFile): Promise<RestoreCollectionPlan[]> {
+  const storage = getStorage();
+  const plans: RestoreCollectionPlan[] = [];
+  for (const [path, rows] of Object.entries(backup.collections)) {
+    const current = new Map((await storage.list(path)).map((r) => [r.id, r.data]));
+    const plan: RestoreCollectionPlan = { path, added: 0, changed: 0, unchanged: 0, onlyInDatabase: 0 };
+    for (const row of rows) {
+      const existing = current.get(row.id);
+      if (existing === undefined) plan.added += 1;
+      else if (fingerprint(existing) === fingerprint(restoredData(path, row.data, existing))) plan.unchanged += 1;
+      else plan.changed += 1;
+      current.delete(row.id);
+    }
+    plan.onlyInDatabase = current.size;
+    plans.push(plan);
+  }
+  return plans.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Writes every document in the backup back under its id, in batches. Returns the number written. */
+export async function restoreBackup(backup: BackupFile, onProgress?: (written: number, total: number) => void): Promise<number> {
+  const storage = getStorage();
+  const now = new Date();
+  const writes = Object.entries(backup.collections).flatMap(([path, rows]) => rows.map((row) => ({ path, ...row })));
+  let written = 0;
+  for (let i = 0; i < writes.length; i += WRITE_BATCH_SIZE) {
+    const chunk = writes.slice(i, i + WRITE_BATCH_SIZE);
+    await storage.runTransaction(async (tx) => {
+      const current = await Promise.all(
+        chunk.map(({ path, id }) => (path === COUNTERS_PATH || INVENTORY_PATHS[path] || OMITTED_FIELDS[path] ? tx.get(path, id) : null))
+      );
+      chunk.forEach(({ path, id, data }, index) => {
+        tx.set(path, id, restoredData(path, data, current[index]));
+        const itemType = INVENTORY_PATHS[path];
+        const delta = Math.round((Number(data.quantity ?? 0) - Number(current[index]?.quantity ?? 0)) * 1000) / 1000;
+        if (itemType && current[index] && delta) {
+          const movements = collectionDefinitions.stockMovements.path;
+          const movement = serializeRecord("stockMovements", {
+            date: now.toISOString().split("T")[0],
+            itemType,
+            itemId: id,
+            itemName: data.name as string,
+            unit: data.unit as string,
+            movementType: "adjustment",
+            quantity: delta,
+            balanceAfter: Number(data.quantity ?? 0),
+            sourceType: "restore",
+            reference: `Backup of ${backup.createdAt.toISOString().slice(0, 10)}`,
+          });
+          tx.set(movements, storage.newId(movements), { ...movement, createdAt: now, updatedAt: now });
+        }
+      });
+    });
+    written += chunk.length;
+    onProgress?.(written, writes.length);
+  }
+  return written;
+}
+
+export const backupFileName = (date: Date) => `sentiment-pharma-backup-${date.toISOString().slice(0, 10)}.json`;
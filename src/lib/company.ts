@@ -0,0 +1,121 @@
+import { isValidGstin, stateCodeFromGstin } from "@/lib/gst";
+import { getRecord, putRecord } from "@/lib/repository";
+import type { CompanyProfileRecord, DrugLicence, RecordInput } from "@/lib/schemas";
+
+// The seller printed on every invoice, statement and report. It is edited under Settings →
+// Company Profile and stored as a single companyProfile record; until that is saved the
+// VITE_COMPANY_* variables (or just the name) are used.
+
+export const COMPANY_PROFILE_ID = "default";
+
+export interface CompanyBankDetails {
+  bankName: string;
+  accountName: string;
+  accountNo: string;
+  ifsc: string;
+  branch: string;
+  upiId: string;
+}
+
+export interface CompanyDetails {
+  /** Legal name, as registered for GST. */
+  name: string;
+  tradeName?: string;
+  /** Registered address. */
+  address: string;
+  factoryAddress?: string;
+  phone: string;
+  email: string;
+  website?: string;
+  gstin: string;
+  pan?: string;
+  /** GST state code of the registered place of business, e.g. "24" for Gujarat. */
+  stateCode: string;
+  drugLicences?: DrugLicence[];
+  bank?: CompanyBankDetails;
+  logo?: string;
+  signature?: string;
+  terms?: string;
+}
+
+/** The company as configured through environment variables, before a profile is saved. */
+export const DEFAULT_COMPANY: CompanyDetails = {
+  name: import.meta.env.VITE_COMPANY_NAME || "Sentiment Pharma",
+  address: import.meta.env.VITE_COMPANY_ADDRESS || "",
+  phone: import.meta.env.VITE_COMPANY_PHONE || "",
+  email: import.meta.env.VITE_COMPANY_EMAIL || "",
+  gstin: (import.meta.env.VITE_COMPANY_GSTIN || "").toUpperCase(),
+  stateCode: import.meta.env.VITE_COMPANY_STATE_CODE || "",
+};
+
+/** The company's GST state: set explicitly, or read from its GSTIN. */
+export function companyStateCode(company: CompanyDetails): string | undefined {
+  return company.stateCode || stateCodeFromGstin(company.gstin);
+}
+
+export function companyFromProfile(profile: CompanyProfileRecord | null | undefined): CompanyDetails {
+  if (!profile?.legalName) return DEFAULT_COMPANY;
+  const bank = {
+    bankName: profile.bankName || "",
+    accountName: profile.bankAccountName || profile.legalName,
+    accountNo: profile.bankAccountNo || "",
+    ifsc: profile.bankIfsc || "",
+    branch: profile.bankBranch || "",
+    upiId: profile.upiId || "",
+  };
+  return {
+    name: profile.legalName,
+    tradeName: profile.tradeName,
+    address: profile.address,
+    factoryAddress: profile.factoryAddress,
+    phone: profile.phone || "",
+    email: profile.email || "",
+    website: profile.website,
+    gstin: profile.gstin.toUpperCase(),
+    pan: profile.pan,
+    stateCode: profile.stateCode || "",
+    drugLicences: profile.drugLicences.filter((l) => l.number),
+    bank: bank.accountNo || bank.upiId ? bank : undefined,
+    logo: profile.logo,
+    signature: profile.signature,
+    terms: profile.terms,
+  };
+}
+
+export async function loadCompany(): Promise<CompanyDetails> {
+  return companyFromProfile(await getRecord("companyProfile", COMPANY_PROFILE_ID));
+}
+
+export class CompanyProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CompanyProfileError";
+  }
+}
+
+/** Largest logo or signature image accepted, as a data URL. */
+export const MAX_PROFILE_IMAGE_LENGTH = 300_000;
+
+export async function saveCompanyProfile(profile: RecordInput<"companyProfile">): Promise<void> {
+  if (!profile.legalName?.trim()) throw new CompanyProfileError("Enter the company's legal name.");
+  if (!profile.address?.trim()) throw new CompanyProfileError("Enter the registered address.");
+  const gstin = (profile.gstin || "").trim().toUpperCase();
+  if (gstin && !isValidGstin(gstin)) throw new CompanyProfileError(`${gstin} is not a valid GSTIN.`);
+  if (profile.stateCode && gstin && stateCodeFromGstin(gstin) !== profile.stateCode) {
+    throw new CompanyProfileError("The state does not match the GSTIN.");
+  }
+  if (profile.bankIfsc && !/^[A-Z]{4}0[A-Z0-9]{6}$/.test(profile.bankIfsc.toUpperCase())) {
+    throw new CompanyProfileError(`${profile.bankIfsc} is not a valid IFSC code.`);
+  }
+  for (const image of [profile.logo, profile.signature]) {
+    if (image && image.length > MAX_PROFILE_IMAGE_LENGTH) {
+      throw new CompanyProfileError("Images must be under about 200 KB; use a smaller logo or signature.");
+    }
+  }
+  await putRecord("companyProfile", COMPANY_PROFILE_ID, {
+    ...profile,
+    gstin,
+    bankIfsc: profile.bankIfsc?.toUpperCase(),
+    drugLicences: (profile.drugLicences ?? []).filter((l) => l.number.trim()),
+  });
+}
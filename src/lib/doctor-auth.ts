@@ -0,0 +1,202 @@
+import { hashPassword, PBKDF2_ITERATIONS, saltedPasswordHash } from "@/lib/passwords";
+import {
+  createRecord,
+  deleteRecord,
+  getRecord,
+  listRecords,
+  runRecordTransaction,
+  updateRecord,
+  type RecordTransaction,
+} from "@/lib/repository";
+import type { DoctorCredentialRecord, DoctorRecord, RecordInput } from "@/lib/schemas";
+
+// Doctor portal sign-in. Passwords live only in `doctorCredentials` as salted PBKDF2 hashes;
+// a sign-in creates a `doctorSessions` record whose id is kept in localStorage and checked
+// again on every visit, so ending sessions on the server side logs the doctor out everywhere.
+
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+export const SESSION_HOURS = 12;
+
+const SESSION_KEY = "doctorSession";
+
+export class DoctorSignInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DoctorSignInError";
+  }
+}
+
+export interface DoctorPortalSession {
+  sessionId: string;
+  expiresAt: Date;
+  doctor: DoctorRecord;
+}
+
+async function newCredential(doctorId: string, loginId: string, password: string): Promise<RecordInput<"doctorCredentials">> {
+  return {
+    doctorId,
+    loginId: loginId.trim(),
+    ...(await saltedPasswordHash(password)),
+    iterations: PBKDF2_ITERATIONS,
+    failedAttempts: 0,
+  };
+}
+
+async function findCredential(loginId: string): Promise<DoctorCredentialRecord | undefined> {
+  const [credential] = await listRecords("doctorCredentials", { where: [["loginId", "==", loginId.trim()]], limit: 1 });
+  return credential;
+}
+
+async function assertLoginIdFree(loginId: string, doctorId?: string) {
+  const taken = await findCredential(loginId);
+  if (taken && taken.doctorId !== doctorId) throw new DoctorSignInError(`Login ID ${loginId} is already in use.`);
+}
+
+/** Queues deletion of every open session for a doctor. */
+function endSessions(tx: RecordTransaction, sessionIds: string[]) {
+  for (const id of sessionIds) tx.delete("doctorSessions", id);
+}
+
+async function sessionIdsFor(doctorId: string): Promise<string[]> {
+  return (await listRecords("doctorSessions", { where: [["doctorId", "==", doctorId]] })).map((s) => s.id);
+}
+
+export async function createDoctorAccount(
+  doctor: RecordInput<"doctors">,
+  loginId: string,
+  password: string
+): Promise<string> {
+  await assertLoginIdFree(loginId);
+  const hashed = await newCredential("", loginId, password);
+  return runRecordTransaction(async (tx) => {
+    const doctorId = tx.create("doctors", { ...doctor, loginId: loginId.trim() });
+    tx.put("doctorCredentials", doctorId, { ...hashed, doctorId });
+    return doctorId;
+  });
+}
+
+/**
+ * Rewrites a doctor read in `tx` without its legacy plaintext password. An update can only
+ * blank the field; replacing the document removes it.
+ */
+function dropLegacyPassword(tx: RecordTransaction, { id, password: _password, ...doctor }: DoctorRecord, patch: RecordInput<"doctors"> = {}) {
+  tx.put("doctors", id, { ...doctor, ...patch });
+}
+
+/** Admin reset: sets a new password, clears any lockout and ends the doctor's sessions. */
+export async function resetDoctorPassword(doctorId: string, loginId: string, password: string): Promise<void> {
+  await assertLoginIdFree(loginId, doctorId);
+  const credential = await newCredential(doctorId, loginId, password);
+  const sessions = await sessionIdsFor(doctorId);
+  await runRecordTransaction(async (tx) => {
+    const doctor = await tx.get("doctors", doctorId);
+    if (!doctor) throw new DoctorSignInError("This doctor no longer exists.");
+    tx.put("doctorCredentials", doctorId, credential);
+    dropLegacyPassword(tx, doctor, { loginId: loginId.trim() });
+    endSessions(tx, sessions);
+  });
+}
+
+/**
+ * Doctors added before credentials were hashed still carry a plaintext password on their
+ * record. The first successful sign-in moves it into doctorCredentials and removes it.
+ */
+async function migrateLegacyPassword(loginId: string, password: string): Promise<DoctorCredentialRecord | null> {
+  const [doctor] = await listRecords("doctors", { where: [["loginId", "==", loginId.trim()]], limit: 1 });
+  if (!doctor?.password || doctor.password !== password) return null;
+  const credential = await newCredential(doctor.id, loginId, password);
+  await runRecordTransaction(async (tx) => {
+    const current = await tx.get("doctors", doctor.id);
+    tx.put("doctorCredentials", doctor.id, credential);
+    if (current) dropLegacyPassword(tx, current);
+  });
+  return getRecord("doctorCredentials", doctor.id);
+}
+
+/**
+ * Hashes every plaintext password still on a doctor record into doctorCredentials and removes
+ * it, without waiting for the doctors to sign in. A doctor who already has a credential just
+ * loses the stale copy. Returns how many records were cleaned.
+ */
+export async function migrateLegacyPasswords(): Promise<number> {
+  const [doctors, credentials] = await Promise.all([listRecords("doctors"), listRecords("doctorCredentials")]);
+  const hashed = new Set(credentials.map((c) => c.id));
+  const legacy = doctors.filter((d) => d.password);
+  if (!legacy.length) return 0;
+  const fresh = await Promise.all(
+    legacy.filter((d) => d.loginId && !hashed.has(d.id)).map((d) => newCredential(d.id, d.loginId!, d.password!))
+  );
+  await runRecordTransaction(async (tx) => {
+    const current = [];
+    for (const { id } of legacy) current.push(await tx.get("doctors", id));
+    for (const credential of fresh) tx.put("doctorCredentials", credential.doctorId!, credential);
+    for (const doctor of current) if (doctor) dropLegacyPassword(tx, doctor);
+  });
+  return legacy.length;
+}
+
+export async function signInDoctor(loginId: string, password: string, now = new Date()): Promise<DoctorPortalSession> {
+  const invalid = new DoctorSignInError("Invalid login credentials");
+  let credential = await findCredential(loginId);
+
+  if (!credential) {
+    credential = await migrateLegacyPassword(loginId, password);
+    if (!credential) throw invalid;
+  } else {
+    if (credential.lockedUntil && credential.lockedUntil > now) {
+      const minutes = Math.ceil((credential.lockedUntil.getTime() - now.getTime()) / 60000);
+      throw new DoctorSignInError(`Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`);
+    }
+    const hash = await hashPassword(password, credential.salt, credential.iterations || PBKDF2_ITERATIONS);
+    if (hash !== credential.passwordHash) {
+      const failedAttempts = credential.failedAttempts + 1;
+      const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+      await updateRecord("doctorCredentials", credential.id, {
+        failedAttempts: locked ? 0 : failedAttempts,
+        lockedUntil: locked ? new Date(now.getTime() + LOCKOUT_MINUTES * 60000) : credential.lockedUntil,
+      });
+      if (locked) throw new DoctorSignInError(`Too many failed attempts. The account is locked for ${LOCKOUT_MINUTES} minutes.`);
+      throw invalid;
+    }
+    if (credential.failedAttempts || credential.lockedUntil) {
+      await updateRecord("doctorCredentials", credential.id, { failedAttempts: 0, lockedUntil: null });
+    }
+  }
+
+  const doctor = await getRecord("doctors", credential.doctorId);
+  if (!doctor) throw invalid;
+  if (doctor.status === "Inactive") throw new DoctorSignInError("This doctor account is inactive.");
+
+  const expiresAt = new Date(now.getTime() + SESSION_HOURS * 3600000);
+  const sessionId = await createRecord("doctorSessions", { doctorId: doctor.id, expiresAt });
+  localStorage.setItem(SESSION_KEY, sessionId);
+  return { sessionId, expiresAt, doctor };
+}
+
+/** The signed-in doctor, or null when there is no session or it expired or was ended. */
+export async function currentDoctorSession(now = new Date()): Promise<DoctorPortalSession | null> {
+  const sessionId = localStorage.getItem(SESSION_KEY);
+  if (!sessionId) return null;
+  const session = await getRecord("doctorSessions", sessionId);
+  const doctor = session && session.expiresAt > now ? await getRecord("doctors", session.doctorId) : null;
+  if (!session || !doctor || doctor.status === "Inactive") {
+    localStorage.removeItem(SESSION_KEY);
+    if (session) await deleteRecord("doctorSessions", sessionId);
+    return null;
+  }
+  return { sessionId, expiresAt: session.expiresAt, doctor };
+}
+
+export async function signOutDoctor(): Promise<void> {
+  const sessionId = localStorage.getItem(SESSION_KEY);
+  localStorage.removeItem(SESSION_KEY);
+  if (sessionId) await deleteRecord("doctorSessions", sessionId);
+}
+
+/** Ends every session of the doctor, on this device and any other. */
+export async function signOutDoctorEverywhere(doctorId: string): Promise<void> {
+  localStorage.removeItem(SESSION_KEY);
+  const sessions = await sessionIdsFor(doctorId);
+  await runRecordTransaction(async (tx) => endSessions(tx, sessions));
+}
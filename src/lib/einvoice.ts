@@ -0,0 +1,249 @@
+import type { CompanyDetails } from "@/lib/company";
+import { dmyDate, gstLine, invoicePlaceOfSupply, invoiceTaxLines, isValidGstin, stateCodeFromGstin, taxTypeFor, unitQuantityCode } from "@/lib/gst";
+import { updateRecord } from "@/lib/repository";
+import { eInvoiceSchema, type EInvoiceDetails, type InvoiceRecord } from "@/lib/schemas";
+
+// E-invoicing: an invoice to a registered buyer is reported to the Invoice Registration Portal
+// (IRP) in the NIC INV-01 schema. The IRP answers with an IRN, an acknowledgement and a signed
+// QR code, which are stored on the invoice and printed on it. Without VITE_IRP_URL a local
+// mock IRP issues test IRNs so the flow can be tried end to end.
+
+export const EINVOICE_SCHEMA_VERSION = "1.1";
+
+const IRP_URL: string = import.meta.env.VITE_IRP_URL || "";
+
+/** True when no IRP is configured and registerEInvoice issues test IRNs locally. */
+export const usesMockIrp = !IRP_URL;
+
+export class EInvoiceError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join(" "));
+    this.name = "EInvoiceError";
+  }
+}
+
+const round2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+const round3 = (n: number) => Math.round((Number(n) || 0) * 1000) / 1000;
+
+interface PostalAddress {
+  addr1: string;
+  loc: string;
+  pin?: number;
+}
+
+/** Splits a free-text address into the first line, the locality and the PIN code. */
+export function postalAddress(address: string | undefined): PostalAddress {
+  const pinMatch = (address || "").match(/\b[1-9]\d{5}\b/);
+  const parts = (address || "")
+    .replace(/\b[1-9]\d{5}\b/, "")
+    .split(/[\n,]+/)
+    .map((p) => p.trim().replace(/[-–]+$/, "").trim())
+    .filter(Boolean);
+  return {
+    addr1: (parts[0] || "").slice(0, 100),
+    loc: (parts.length > 1 ? parts[parts.length - 1] : parts[0] || "").slice(0, 50),
+    pin: pinMatch ? Number(pinMatch[0]) : undefined,
+  };
+}
+
+/** Everything that would make the IRP reject this invoice, in plain words. */
+export function eInvoiceProblems(invoice: InvoiceRecord, company: CompanyDetails, sellerState: string | undefined): string[] {
+  const problems: string[] = [];
+  const buyerGstin = (invoice.customer?.gst || "").trim().toUpperCase();
+  if (!isValidGstin(company.gstin)) problems.push("The company GSTIN is missing or invalid (Settings → Company Profile).");
+  if (!sellerState) problems.push("The company state is not set (Settings → Company Profile).");
+  if (!postalAddress(company.address).pin) problems.push("The company address has no 6-digit PIN code.");
+  if (!isValidGstin(buyerGstin)) problems.push("E-invoices are only for registered buyers; the customer GSTIN is missing or invalid.");
+  if (!postalAddress(invoice.customer?.address).pin) problems.push("The customer address has no 6-digit PIN code.");
+  if (!invoicePlaceOfSupply(invoice, sellerState)) problems.push("The invoice has no place of supply.");
+  if ((invoice.manualInvoiceNo || invoice.invoiceNo).length > 16) problems.push("The invoice number is longer than 16 characters.");
+  const expectedTaxType = taxTypeFor(sellerState, invoicePlaceOfSupply(invoice, sellerState));
+  for (const line of invoiceTaxLines(invoice, sellerState)) {
+    if (!/^\d{4}(\d{2}){0,2}$/.test(line.hsnCode || "")) problems.push(`${line.name} needs a 4, 6 or 8 digit HSN code.`);
+    if (line.taxType !== expectedTaxType) problems.push(`${line.name} is taxed as ${line.taxType} but the place of supply needs ${expectedTaxType}.`);
+  }
+  return problems;
+}
+
+/** The INV-01 JSON for one invoice. Throws EInvoiceError listing what has to be fixed first. */
+export function buildEInvoice(invoice: InvoiceRecord, company: CompanyDetails, sellerState: string | undefined) {
+  const problems = eInvoiceProblems(invoice, company, sellerState);
+  if (problems.length) throw new EInvoiceError(problems);
+
+  const buyerGstin = (invoice.customer?.gst || "").trim().toUpperCase();
+  const seller = postalAddress(company.address);
+  const buyer = postalAddress(invoice.customer?.address);
+  const items = invoiceTaxLines(invoice, sellerState).map((line, i) => {
+    const amounts = gstLine(line);
+    return {
+      SlNo: String(i + 1),
+      PrdDesc: line.name.slice(0, 300),
+      IsServc: "N",
+      HsnCd: line.hsnCode,
+      Qty: round3(line.quantity),
+      Unit: unitQuantityCode(line.unit),
+      UnitPrice: round3(line.rate),
+      TotAmt: amounts.taxable,
+      Discount: 0,
+      AssAmt: amounts.taxable,
+      GstRt: amounts.rate,
+      IgstAmt: amounts.igst,
+      CgstAmt: amounts.cgst,
+      SgstAmt: amounts.sgst,
+      CesRt: 0,
+      CesAmt: 0,
+      CesNonAdvlAmt: 0,
+      StateCesRt: 0,
+      StateCesAmt: 0,
+      StateCesNonAdvlAmt: 0,
+      OthChrg: 0,
+      TotItemVal: round2(amounts.total),
+    };
+  });
+  const sum = (key: "AssAmt" | "CgstAmt" | "SgstAmt" | "IgstAmt" | "TotItemVal") => round2(items.reduce((s, it) => s + it[key], 0));
+
+  return {
+    Version: EINVOICE_SCHEMA_VERSION,
+    TranDtls: { TaxSch: "GST", SupTyp: "B2B", RegRev: "N", IgstOnIntra: "N" },
+    DocDtls: { Typ: "INV", No: invoice.manualInvoiceNo || invoice.invoiceNo, Dt: dmyDate(invoice.issueDate) },
+    SellerDtls: {
+      Gstin: company.gstin,
+      LglNm: company.name,
+      Addr1: seller.addr1,
+      Loc: seller.loc,
+      Pin: seller.pin,
+      Stcd: sellerState,
+      ...(company.phone ? { Ph: company.phone.replace(/\D/g, "").slice(-12) } : {}),
+      ...(company.email ? { Em: company.email } : {}),
+    },
+    BuyerDtls: {
+      Gstin: buyerGstin,
+      LglNm: invoice.partyName,
+      Pos: invoicePlaceOfSupply(invoice, sellerState),
+      Addr1: buyer.addr1,
+      Loc: buyer.loc,
+      Pin: buyer.pin,
+      Stcd: stateCodeFromGstin(buyerGstin),
+    },
+    ItemList: items,
+    ValDtls: {
+      AssVal: sum("AssAmt"),
+      CgstVal: sum("CgstAmt"),
+      SgstVal: sum("SgstAmt"),
+      IgstVal: sum("IgstAmt"),
+      CesVal: 0,
+      StCesVal: 0,
+      Discount: 0,
+      OthChrg: 0,
+      RndOffAmt: 0,
+      TotInvVal: sum("TotItemVal"),
+    },
+  };
+}
+
+export type EInvoicePayload = ReturnType<typeof buildEInvoice>;
+
+/**
+ * Reads what the IRP sent back: either the decoded result ({ Irn, AckNo, ... }) or the raw
+ * envelope whose Data field holds it as a JSON string.
+ */
+export function parseIrpResponse(response: unknown): EInvoiceDetails {
+  let body = typeof response === "string" ? safeJson(response) : response;
+  if (body && typeof body === "object" && typeof (body as { Data?: unknown }).Data === "string") {
+    body = safeJson((body as { Data: string }).Data);
+  }
+  const r = (body ?? {}) as Record<string, unknown>;
+  if (!/^[0-9a-f]{64}$/i.test(String(r.Irn ?? ""))) {
+    const errors = (r.ErrorDetails as Array<{ ErrorMessage?: string }> | undefined)?.map((e) => e.ErrorMessage).filter(Boolean);
+    throw new EInvoiceError(errors?.length ? errors : ["The IRP response has no valid IRN."]);
+  }
+  if (!r.SignedQRCode) throw new EInvoiceError(["The IRP response has no signed QR code."]);
+  return eInvoiceSchema.parse({
+    irn: r.Irn,
+    ackNo: r.AckNo,
+    ackDate: r.AckDt,
+    signedQrCode: r.SignedQRCode,
+    signedInvoice: r.SignedInvoice,
+  });
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new EInvoiceError(["The IRP response is not valid JSON."]);
+  }
+}
+
+export async function attachEInvoice(invoiceId: string, details: EInvoiceDetails): Promise<void> {
+  await updateRecord("invoices", invoiceId, { eInvoice: details });
+}
+
+// ---------- Mock IRP ----------
+
+const base64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/=+$/, "")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** e.g. "05/04/2025" → "2025-26" */
+function financialYearOf(irpDt: string): string {
+  const [, month, year] = irpDt.split("/").map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Answers like the IRP without signing anything: the IRN is derived the way the portal derives
+ * it (SHA-256 of GSTIN, financial year, document type and number), and the QR token carries the
+ * same fields as the real one with a dummy signature.
+ */
+export async function mockIrp(payload: EInvoicePayload, now = new Date()) {
+  const irn = await sha256Hex(
+    `${payload.SellerDtls.Gstin}${financialYearOf(payload.DocDtls.Dt)}${payload.DocDtls.Typ}${payload.DocDtls.No}`
+  );
+  const ackDt = `${now.toISOString().slice(0, 10)} ${now.toTimeString().slice(0, 8)}`;
+  const qrData = {
+    SellerGstin: payload.SellerDtls.Gstin,
+    BuyerGstin: payload.BuyerDtls.Gstin,
+    DocNo: payload.DocDtls.No,
+    DocTyp: payload.DocDtls.Typ,
+    DocDt: payload.DocDtls.Dt,
+    TotInvVal: payload.ValDtls.TotInvVal,
+    ItemCnt: payload.ItemList.length,
+    MainHsnCode: payload.ItemList[0]?.HsnCd,
+    Irn: irn,
+    IrnDt: ackDt,
+  };
+  const token = (data: unknown) => `${base64Url(JSON.stringify({ alg: "none", typ: "JWT" }))}.${base64Url(JSON.stringify({ data: JSON.stringify(data) }))}.mock`;
+  return {
+    AckNo: Number(`1${now.getTime()}`.slice(0, 15)),
+    AckDt: ackDt,
+    Irn: irn,
+    SignedInvoice: token(payload),
+    SignedQRCode: token(qrData),
+    Status: "ACT",
+  };
+}
+
+/** Registers the invoice with the configured IRP, or the mock one, and stores the result on it. */
+export async function registerEInvoice(invoice: InvoiceRecord, company: CompanyDetails, sellerState: string | undefined) {
+  const payload = buildEInvoice(invoice, company, sellerState);
+  let response: unknown;
+  if (IRP_URL) {
+    const res = await fetch(IRP_URL, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(payload) });
+    response = await res.json().catch(() => null);
+    if (!res.ok && !response) throw new EInvoiceError([`The IRP answered ${res.status} ${res.statusText}.`]);
+  } else {
+    response = await mockIrp(payload);
+  }
+  const details = { ...parseIrpResponse(response), source: IRP_URL ? undefined : "mock" };
+  await attachEInvoice(invoice.id, details);
+  return details;
+}
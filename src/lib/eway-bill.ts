@@ -0,0 +1,193 @@
+import type { CompanyDetails } from "@/lib/company";
+import { postalAddress } from "@/lib/einvoice";
+import { dmyDate, gstLine, invoicePlaceOfSupply, invoiceTaxLines, isValidGstin, stateCodeFromGstin, unitQuantityCode } from "@/lib/gst";
+import { updateRecord } from "@/lib/repository";
+import { eWayBillSchema, type DispatchDetails, type EWayBillDetails, type InvoiceRecord, type TransportMode } from "@/lib/schemas";
+
+// E-way bills: goods worth more than ₹50,000 moving against an invoice need an e-way bill.
+// Part-A (parties, HSN, value, distance) and Part-B (vehicle) are built here from the invoice
+// and its dispatch details, either as the single-bill JSON of the e-way bill API or as the
+// bulk file the e-way bill portal's offline utility uploads. The portal's EWB number is then
+// stored on the invoice and printed on it.
+
+/** Consignment value above which an e-way bill is mandatory. */
+export const EWAY_BILL_THRESHOLD = 50000;
+
+export const EWAY_BILL_BULK_VERSION = "1.0.0621";
+
+const TRANSPORT_MODE_CODES: Record<TransportMode, string> = { road: "1", rail: "2", air: "3", ship: "4" };
+
+export const TRANSPORT_MODE_LABELS: Record<TransportMode, string> = { road: "Road", rail: "Rail", air: "Air", ship: "Ship" };
+
+export class EWayBillError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join(" "));
+    this.name = "EWayBillError";
+  }
+}
+
+const round2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+
+const VEHICLE_PATTERN = /^[A-Z]{2}[0-9]{1,2}[A-Z]{0,3}[0-9]{4}$/;
+const TRANSPORTER_ID_PATTERN = /^[0-9A-Z]{15}$/;
+
+/** "gj 06 ab 1234" → "GJ06AB1234" */
+export const normalizeVehicleNo = (vehicleNo: string | undefined) => (vehicleNo || "").toUpperCase().replace(/[^0-9A-Z]/g, "");
+
+/** Everything that would make the portal reject this invoice's e-way bill, in plain words. */
+export function eWayBillProblems(invoice: InvoiceRecord, company: CompanyDetails, sellerState: string | undefined): string[] {
+  const problems: string[] = [];
+  const dispatch = invoice.dispatch;
+  if (!isValidGstin(company.gstin)) problems.push("The company GSTIN is missing or invalid (Settings → Company Profile).");
+  if (!sellerState) problems.push("The company state is not set (Settings → Company Profile).");
+  if (!postalAddress(company.address).pin) problems.push("The company address has no 6-digit PIN code.");
+  if (!postalAddress(invoice.customer?.address).pin) problems.push("The customer address has no 6-digit PIN code.");
+  if (!invoicePlaceOfSupply(invoice, sellerState)) problems.push("The invoice has no place of supply.");
+  if ((invoice.manualInvoiceNo || invoice.invoiceNo).length > 16) problems.push("The invoice number is longer than 16 characters.");
+  for (const line of invoiceTaxLines(invoice, sellerState)) {
+    if (!/^\d{4}(\d{2}){0,2}$/.test(line.hsnCode || "")) problems.push(`${line.name} needs a 4, 6 or 8 digit HSN code.`);
+  }
+
+  if (!dispatch) {
+    problems.push("Enter the dispatch details: distance and transporter or vehicle.");
+    return problems;
+  }
+  if (!Number.isInteger(dispatch.distanceKm) || dispatch.distanceKm < 0 || dispatch.distanceKm > 4000) {
+    problems.push("The distance must be a whole number of kilometres up to 4000 (0 lets the portal work it out from the PIN codes).");
+  }
+  if (dispatch.transporterId && !TRANSPORTER_ID_PATTERN.test(dispatch.transporterId.toUpperCase())) {
+    problems.push("The transporter ID must be the transporter's 15-character GSTIN or TRANSIN.");
+  }
+  const vehicleNo = normalizeVehicleNo(dispatch.vehicleNo);
+  if (vehicleNo && !VEHICLE_PATTERN.test(vehicleNo)) problems.push(`${dispatch.vehicleNo} is not a valid vehicle number.`);
+  if (dispatch.transportMode === "road" && !vehicleNo && !dispatch.transporterId) {
+    problems.push("Road transport needs a vehicle number or a transporter ID.");
+  }
+  if (dispatch.transportMode !== "road" && !(dispatch.transportDocNo && dispatch.transportDocDate)) {
+    problems.push(`${TRANSPORT_MODE_LABELS[dispatch.transportMode]} transport needs the transport document number and date.`);
+  }
+  return problems;
+}
+
+/**
+ * The e-way bill for one invoice, in the e-way bill API's generate request format.
+ * Throws EWayBillError listing what has to be fixed first.
+ */
+export function buildEWayBill(invoice: InvoiceRecord, company: CompanyDetails, sellerState: string | undefined) {
+  const problems = eWayBillProblems(invoice, company, sellerState);
+  if (problems.length) throw new EWayBillError(problems);
+
+  const dispatch = invoice.dispatch!;
+  const buyerGstin = (invoice.customer?.gst || "").trim().toUpperCase();
+  const pos = invoicePlaceOfSupply(invoice, sellerState)!;
+  const seller = postalAddress(company.address);
+  const buyer = postalAddress(invoice.customer?.address);
+  const lines = invoiceTaxLines(invoice, sellerState).map((line) => ({ line, amounts: gstLine(line) }));
+  const sum = (key: "taxable" | "cgst" | "sgst" | "igst") => round2(lines.reduce((s, l) => s + l.amounts[key], 0));
+  const vehicleNo = normalizeVehicleNo(dispatch.vehicleNo);
+
+  return {
+    supplyType: "O",
+    subSupplyType: "1",
+    subSupplyDesc: "",
+    docType: "INV",
+    docNo: invoice.manualInvoiceNo || invoice.invoiceNo,
+    docDate: dmyDate(invoice.issueDate),
+    fromGstin: company.gstin,
+    fromTrdName: company.name,
+    fromAddr1: seller.addr1,
+    fromAddr2: "",
+    fromPlace: seller.loc,
+    fromPincode: seller.pin!,
+    actFromStateCode: Number(sellerState),
+    fromStateCode: Number(sellerState),
+    toGstin: isValidGstin(buyerGstin) ? buyerGstin : "URP",
+    toTrdName: invoice.partyName,
+    toAddr1: buyer.addr1,
+    toAddr2: "",
+    toPlace: buyer.loc,
+    toPincode: buyer.pin!,
+    actToStateCode: Number(pos),
+    toStateCode: Number(stateCodeFromGstin(buyerGstin) || pos),
+    transactionType: 1,
+    otherValue: 0,
+    totalValue: sum("taxable"),
+    cgstValue: sum("cgst"),
+    sgstValue: sum("sgst"),
+    igstValue: sum("igst"),
+    cessValue: 0,
+    cessNonAdvolValue: 0,
+    totInvValue: round2(sum("taxable") + sum("cgst") + sum("sgst") + sum("igst")),
+    transporterId: (dispatch.transporterId || "").toUpperCase(),
+    transporterName: dispatch.transporterName || "",
+    transDocNo: dispatch.transportDocNo || "",
+    transMode: TRANSPORT_MODE_CODES[dispatch.transportMode],
+    transDistance: String(dispatch.distanceKm),
+    transDocDate: dispatch.transportDocDate ? dmyDate(dispatch.transportDocDate) : "",
+    vehicleNo,
+    vehicleType: vehicleNo ? "R" : "",
+    itemList: lines.map(({ line, amounts }) => ({
+      productName: line.name.slice(0, 100),
+      productDesc: line.name.slice(0, 100),
+      hsnCode: Number(line.hsnCode),
+      quantity: line.quantity,
+      qtyUnit: unitQuantityCode(line.unit),
+      cgstRate: line.taxType === "IGST" ? 0 : amounts.rate / 2,
+      sgstRate: line.taxType === "IGST" ? 0 : amounts.rate / 2,
+      igstRate: line.taxType === "IGST" ? amounts.rate : 0,
+      cessRate: 0,
+      cessNonadvol: 0,
+      taxableAmount: amounts.taxable,
+    })),
+  };
+}
+
+export type EWayBillPayload = ReturnType<typeof buildEWayBill>;
+
+/** Several e-way bills in the bulk upload format of the portal's offline utility. */
+export function eWayBillBulkJson(bills: EWayBillPayload[]) {
+  return {
+    version: EWAY_BILL_BULK_VERSION,
+    billLists: bills.map(({ actFromStateCode, actToStateCode, transactionType, otherValue, cessNonAdvolValue, itemList, ...bill }) => ({
+      userGstin: bill.fromGstin,
+      ...bill,
+      actualFromStateCode: actFromStateCode,
+      actualToStateCode: actToStateCode,
+      transType: transactionType,
+      OthValue: otherValue,
+      TotNonAdvolVal: cessNonAdvolValue,
+      mainHsnCode: itemList[0]?.hsnCode,
+      itemList: itemList.map((item, i) => ({ itemNo: i + 1, ...item })),
+    })),
+  };
+}
+
+export const EMPTY_DISPATCH: DispatchDetails = { transportMode: "road", distanceKm: 0 };
+
+/** The dispatch details as entered on a form, or undefined when nothing was entered. */
+export function dispatchDetails(dispatch: DispatchDetails): DispatchDetails | undefined {
+  const cleaned = {
+    ...dispatch,
+    transporterId: dispatch.transporterId?.trim().toUpperCase() || undefined,
+    transporterName: dispatch.transporterName?.trim() || undefined,
+    vehicleNo: normalizeVehicleNo(dispatch.vehicleNo) || undefined,
+    transportDocNo: dispatch.transportDocNo?.trim() || undefined,
+    transportDocDate: dispatch.transportDocDate || undefined,
+  };
+  const entered = cleaned.distanceKm || cleaned.transporterId || cleaned.transporterName || cleaned.vehicleNo || cleaned.transportDocNo;
+  return entered ? cleaned : undefined;
+}
+
+export async function saveDispatch(invoiceId: string, dispatch: DispatchDetails): Promise<void> {
+  await updateRecord("invoices", invoiceId, { dispatch: dispatchDetails(dispatch) ?? null });
+}
+
+/** Stores the EWB number the portal issued. */
+export async function attachEWayBill(invoiceId: string, details: EWayBillDetails): Promise<EWayBillDetails> {
+  const ewbNo = details.ewbNo.replace(/\s+/g, "");
+  if (!/^\d{12}$/.test(ewbNo)) throw new EWayBillError(["The e-way bill number must be 12 digits."]);
+  if (!details.ewbDate) throw new EWayBillError(["Enter the e-way bill date."]);
+  const parsed = eWayBillSchema.parse({ ...details, ewbNo });
+  await updateRecord("invoices", invoiceId, { eWayBill: parsed });
+  return parsed;
+}
@@ -12,10 +12,20 @@ export function exportToExcel<T extends Record<string, unknown>>({
   sheetName = "Sheet1",
   rows,
 }: ExportExcelOptions<T>) {
-  const safeRows = rows ?? [];
-  const worksheet = XLSX.utils.json_to_sheet(safeRows);
+  exportSheetsToExcel({ fileName, sheets: [{ name: sheetName, rows }] });
+}
+
+export type ExportSheetsOptions = {
+  fileName: string;
+  sheets: Array<{ name: string; rows: Record<string, unknown>[] }>;
+};
+
+/** One workbook with a sheet per entry; sheet names are cut to Excel's 31-character limit. */
+export function exportSheetsToExcel({ fileName, sheets }: ExportSheetsOptions) {
   const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows ?? []), sheet.name.slice(0, 31));
+  }
 
   const data = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
   const blob = new Blob([data], {
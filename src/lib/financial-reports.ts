@@ -0,0 +1,239 @@
+import { ACCOUNTS, CHART_OF_ACCOUNTS, accountBalances, inRange, type LedgerAccount } from "@/lib/ledger";
+import type { JournalEntryRecord } from "@/lib/schemas";
+
+// Financial statements computed from the general ledger. The P&L covers a period; the trial
+// balance and balance sheet are cumulative up to the period's end date. Every figure is
+// returned for both the requested period and the one before it so pages can compare.
+
+export interface ReportPeriod {
+  from: string;
+  to: string;
+}
+
+const round2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Indian financial year (April to March) containing the given date. */
+export function financialYear(date: string): ReportPeriod {
+  const year = Number(date.slice(0, 4));
+  const start = Number(date.slice(5, 7)) >= 4 ? year : year - 1;
+  return { from: `${start}-04-01`, to: `${start + 1}-03-31` };
+}
+
+/**
+ * The period of the same shape immediately before this one. Whole financial years and whole
+ * months map to the previous year/month; anything else to the same number of days.
+ */
+export function previousPeriod(period: ReportPeriod): ReportPeriod {
+  const fy = financialYear(period.from);
+  if (fy.from === period.from && fy.to === period.to) return financialYear(shiftDate(period.from, -1));
+
+  const monthStart = `${period.from.slice(0, 7)}-01`;
+  const monthEnd = shiftDate(`${shiftDate(monthStart, 32).slice(0, 7)}-01`, -1);
+  if (period.from === monthStart && period.to === monthEnd) {
+    const prevEnd = shiftDate(period.from, -1);
+    return { from: `${prevEnd.slice(0, 7)}-01`, to: prevEnd };
+  }
+
+  const days = Math.round((Date.parse(period.to) - Date.parse(period.from)) / 86_400_000);
+  const to = shiftDate(period.from, -1);
+  return { from: shiftDate(to, -days), to };
+}
+
+export interface Comparative {
+  current: number;
+  previous: number;
+}
+
+// ---------- Trial balance ----------
+
+export interface TrialBalanceRow {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+  previousDebit: number;
+  previousCredit: number;
+}
+
+export interface TrialBalance {
+  rows: TrialBalanceRow[];
+  totalDebit: Comparative;
+  totalCredit: Comparative;
+}
+
+function closingSides(entries: JournalEntryRecord[], asOf: string) {
+  return new Map(
+    accountBalances(entries, { to: asOf }).map((b) => {
+      const net = round2(b.debit - b.credit);
+      return [b.account.code, { debit: Math.max(net, 0), credit: Math.max(-net, 0) }];
+    })
+  );
+}
+
+export function trialBalance(entries: JournalEntryRecord[], asOf: string, previousAsOf: string): TrialBalance {
+  const current = closingSides(entries, asOf);
+  const previous = closingSides(entries, previousAsOf);
+
+  const rows = CHART_OF_ACCOUNTS.map((account) => ({
+    account,
+    debit: current.get(account.code)?.debit ?? 0,
+    credit: current.get(account.code)?.credit ?? 0,
+    previousDebit: previous.get(account.code)?.debit ?? 0,
+    previousCredit: previous.get(account.code)?.credit ?? 0,
+  })).filter((r) => r.debit || r.credit || r.previousDebit || r.previousCredit);
+
+  const sum = (pick: (r: TrialBalanceRow) => number) => round2(rows.reduce((s, r) => s + pick(r), 0));
+  return {
+    rows,
+    totalDebit: { current: sum((r) => r.debit), previous: sum((r) => r.previousDebit) },
+    totalCredit: { current: sum((r) => r.credit), previous: sum((r) => r.previousCredit) },
+  };
+}
+
+// ---------- Statements ----------
+
+export interface StatementRow extends Comparative {
+  label: string;
+}
+
+export interface StatementSection {
+  title: string;
+  rows: StatementRow[];
+  total: Comparative;
+}
+
+function section(title: string, current: Map<string, number>, previous: Map<string, number>): StatementSection {
+  const labels = Array.from(new Set([...current.keys(), ...previous.keys()]));
+  const rows = labels
+    .map((label) => ({ label, current: round2(current.get(label) ?? 0), previous: round2(previous.get(label) ?? 0) }))
+    .filter((r) => r.current || r.previous);
+  return {
+    title,
+    rows,
+    total: {
+      current: round2(rows.reduce((s, r) => s + r.current, 0)),
+      previous: round2(rows.reduce((s, r) => s + r.previous, 0)),
+    },
+  };
+}
+
+// Manual book entries land in Other Income / General Expenses with their category as the
+// line memo, so those two accounts are split by category; the rest report as one row each.
+const SPLIT_BY_CATEGORY = new Set([ACCOUNTS.otherIncome.code, ACCOUNTS.generalExpenses.code]);
+
+function profitAndLossGroups(entries: JournalEntryRecord[], period: ReportPeriod) {
+  const income = new Map<string, number>();
+  const expenses = new Map<string, number>();
+  for (const entry of entries) {
+    if (!inRange(entry.date, period)) continue;
+    for (const line of entry.lines) {
+      const account = CHART_OF_ACCOUNTS.find((a) => a.code === line.accountCode);
+      if (!account || (account.type !== "Income" && account.type !== "Expense")) continue;
+      const label =
+        SPLIT_BY_CATEGORY.has(account.code) && line.memo ? `${account.name} - ${line.memo}` : account.name;
+      const net = (line.debit || 0) - (line.credit || 0);
+      if (account.type === "Income") income.set(label, (income.get(label) ?? 0) - net);
+      else expenses.set(label, (expenses.get(label) ?? 0) + net);
+    }
+  }
+  return { income, expenses };
+}
+
+export interface ProfitAndLoss {
+  income: StatementSection;
+  expenses: StatementSection;
+  netProfit: Comparative;
+}
+
+export function profitAndLoss(entries: JournalEntryRecord[], period: ReportPeriod, previous: ReportPeriod): ProfitAndLoss {
+  const current = profitAndLossGroups(entries, period);
+  const prior = profitAndLossGroups(entries, previous);
+  const income = section("Income", current.income, prior.income);
+  const expenses = section("Expenses", current.expenses, prior.expenses);
+  return {
+    income,
+    expenses,
+    netProfit: {
+      current: round2(income.total.current - expenses.total.current),
+      previous: round2(income.total.previous - expenses.total.previous),
+    },
+  };
+}
+
+export interface BalanceSheet {
+  assets: StatementSection;
+  liabilities: StatementSection;
+  equity: StatementSection;
+  /** Liabilities plus equity; equals total assets when the ledger balances. */
+  totalLiabilitiesAndEquity: Comparative;
+}
+
+function balanceSheetGroups(entries: JournalEntryRecord[], asOf: string) {
+  const assets = new Map<string, number>();
+  const liabilities = new Map<string, number>();
+  const equity = new Map<string, number>();
+  let retained = 0;
+  for (const b of accountBalances(entries, { to: asOf })) {
+    if (b.account.type === "Asset") assets.set(b.account.name, b.balance);
+    else if (b.account.type === "Liability") liabilities.set(b.account.name, b.balance);
+    else if (b.account.type === "Equity") equity.set(b.account.name, b.balance);
+    else if (b.account.type === "Income") retained += b.balance;
+    else retained -= b.balance;
+  }
+  equity.set("Profit & Loss Account", retained);
+  return { assets, liabilities, equity };
+}
+
+export function balanceSheet(entries: JournalEntryRecord[], asOf: string, previousAsOf: string): BalanceSheet {
+  const current = balanceSheetGroups(entries, asOf);
+  const prior = balanceSheetGroups(entries, previousAsOf);
+  const liabilities = section("Liabilities", current.liabilities, prior.liabilities);
+  const equity = section("Capital & Reserves", current.equity, prior.equity);
+  return {
+    assets: section("Assets", current.assets, prior.assets),
+    liabilities,
+    equity,
+    totalLiabilitiesAndEquity: {
+      current: round2(liabilities.total.current + equity.total.current),
+      previous: round2(liabilities.total.previous + equity.total.previous),
+    },
+  };
+}
+
+export interface PartyOutstanding {
+  partyId: string;
+  partyName: string;
+  amount: number;
+}
+
+/**
+ * Per-party balance of the receivables (invoices less receipts and notes) or payables
+ * (purchases less payments and notes) account as of a date, largest first.
+ */
+export function outstandingByParty(
+  entries: JournalEntryRecord[],
+  account: LedgerAccount,
+  asOf: string
+): PartyOutstanding[] {
+  const sign = account.type === "Asset" ? 1 : -1;
+  const byParty = new Map<string, PartyOutstanding>();
+  for (const entry of entries) {
+    if (!inRange(entry.date, { to: asOf })) continue;
+    for (const line of entry.lines) {
+      if (line.accountCode !== account.code) continue;
+      const key = line.partyId || line.partyName || "";
+      const row = byParty.get(key) ?? { partyId: line.partyId || "", partyName: line.partyName || "Unassigned", amount: 0 };
+      row.amount += sign * ((line.debit || 0) - (line.credit || 0));
+      byParty.set(key, row);
+    }
+  }
+  return Array.from(byParty.values())
+    .map((r) => ({ ...r, amount: round2(r.amount) }))
+    .filter((r) => r.amount)
+    .sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,486 @@
+import {
+  dmyDate,
+  invoicePlaceOfSupply,
+  invoiceTaxLines,
+  isValidGstin,
+  stateCodeFromGstin,
+  summaryByHsn,
+  summaryByRate,
+  taxTypeFor,
+  unitQuantityCode,
+  type GstAmounts,
+  type GstSummaryRow,
+} from "@/lib/gst";
+import type {
+  DebitCreditNoteRecord,
+  InvoiceLineItem,
+  InvoiceRecord,
+  ItemRecord,
+  PartyRecord,
+  PurchaseBillRecord,
+  PurchaseRecord,
+} from "@/lib/schemas";
+
+// Monthly GST returns built from the books: the GSTR-1 sections (outward supplies by invoice,
+// notes and HSN) and the GSTR-3B summary with input tax from purchase bills and purchases. Both are produced as
+// plain rows for the page and Excel, and in the JSON layout the GST offline tool imports.
+
+/** Inter-state invoices to unregistered buyers above this value are reported invoice-wise (B2CL). */
+export const B2CL_THRESHOLD = 100000;
+
+const round2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+
+export interface GstReturnInput {
+  /** Return period as YYYY-MM. */
+  month: string;
+  sellerState: string | undefined;
+  invoices: InvoiceRecord[];
+  notes: DebitCreditNoteRecord[];
+  purchases: PurchaseRecord[];
+  /** Bills carry their own tax breakdown, so it is taken as billed. */
+  purchaseBills?: PurchaseBillRecord[];
+  customers: PartyRecord[];
+  suppliers: PartyRecord[];
+  items: ItemRecord[];
+}
+
+export interface OutwardDocument {
+  /** Buyer GSTIN; empty for unregistered buyers. */
+  ctin: string;
+  partyName: string;
+  number: string;
+  date: string;
+  value: number;
+  pos: string;
+  rates: GstSummaryRow[];
+}
+
+export interface NoteDocument extends OutwardDocument {
+  noteType: "C" | "D";
+  invoiceNo: string;
+}
+
+export interface B2csRow extends GstAmounts {
+  supplyType: "INTRA" | "INTER";
+  pos: string;
+  rate: number;
+}
+
+export interface HsnRow extends GstAmounts {
+  hsnCode: string;
+  description: string;
+  uqc: string;
+  quantity: number;
+  rate: number;
+  value: number;
+}
+
+export interface Gstr1 {
+  b2b: OutwardDocument[];
+  b2cl: OutwardDocument[];
+  b2cs: B2csRow[];
+  cdnr: NoteDocument[];
+  cdnur: NoteDocument[];
+  hsn: HsnRow[];
+  warnings: string[];
+}
+
+export interface InputTaxRow extends GstAmounts {
+  purchaseId: string;
+  date: string;
+  supplierName: string;
+  ctin: string;
+  invoiceNo: string;
+}
+
+export interface Gstr3b {
+  /** 3.1(a): taxable outward supplies, net of notes. */
+  outward: GstAmounts;
+  /** 3.1(c): nil-rated supplies. */
+  nilRated: number;
+  /** 3.2: inter-state supplies to unregistered buyers, by place of supply. */
+  interStateUnregistered: Array<{ pos: string; taxable: number; igst: number }>;
+  /** 4(A)(5): input tax on purchases from the books. */
+  inputTax: GstAmounts;
+  inputTaxRows: InputTaxRow[];
+  /** Output tax less input tax per head; negative means credit carried forward. */
+  netPayable: Omit<GstAmounts, "taxable">;
+  warnings: string[];
+}
+
+const inMonth = (date: string | undefined, month: string) => (date || "").slice(0, 7) === month;
+
+const documentNo = (invoice: InvoiceRecord) => invoice.manualInvoiceNo || invoice.invoiceNo;
+
+const grossOf = (r: GstAmounts) => round2(r.taxable + r.cgst + r.sgst + r.igst);
+
+const addAmounts = (a: GstAmounts, b: GstAmounts, sign = 1): GstAmounts => ({
+  taxable: round2(a.taxable + sign * b.taxable),
+  cgst: round2(a.cgst + sign * b.cgst),
+  sgst: round2(a.sgst + sign * b.sgst),
+  igst: round2(a.igst + sign * b.igst),
+});
+
+const ZERO: GstAmounts = { taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+
+interface ClassifiedInvoice {
+  invoice: InvoiceRecord;
+  doc: OutwardDocument;
+  interState: boolean;
+  section: "b2b" | "b2cl" | "b2cs";
+}
+
+function classifyInvoice(invoice: InvoiceRecord, sellerState: string | undefined): ClassifiedInvoice {
+  const lines = invoiceTaxLines(invoice, sellerState);
+  const rates = summaryByRate(lines);
+  const ctin = (invoice.customer?.gst || "").trim().toUpperCase();
+  const pos = invoicePlaceOfSupply(invoice, sellerState) || "";
+  const value = rates.reduce((sum, r) => round2(sum + grossOf(r)), 0);
+  const interState = lines.some((l) => l.taxType === "IGST");
+  const doc: OutwardDocument = {
+    ctin: isValidGstin(ctin) ? ctin : "",
+    partyName: invoice.partyName,
+    number: documentNo(invoice),
+    date: invoice.issueDate,
+    value,
+    pos,
+    rates,
+  };
+  const section = doc.ctin ? "b2b" : interState && value > B2CL_THRESHOLD ? "b2cl" : "b2cs";
+  return { invoice, doc, interState, section };
+}
+
+/**
+ * A note carries only a tax-inclusive amount; its tax is worked out from the invoice it refers
+ * to, spreading the amount over that invoice's rates in proportion to their value.
+ */
+function noteRates(note: DebitCreditNoteRecord, invoice: ClassifiedInvoice | undefined): GstSummaryRow[] {
+  if (!invoice || invoice.doc.value <= 0) return [{ rate: 0, taxable: round2(note.amount), cgst: 0, sgst: 0, igst: 0 }];
+  const lines = invoice.doc.rates.map((r) => {
+    const share = (note.amount * grossOf(r)) / invoice.doc.value;
+    return {
+      quantity: 1,
+      rate: round2(share / (1 + r.rate / 100)),
+      tax: r.rate,
+      taxType: invoice.interState ? ("IGST" as const) : ("CGST / SGST" as const),
+    };
+  });
+  return summaryByRate(lines);
+}
+
+export function buildGstr1(input: GstReturnInput): Gstr1 {
+  const { month, sellerState } = input;
+  const warnings: string[] = [];
+  const classified = input.invoices
+    .filter((invoice) => invoice.status !== "Cancelled")
+    .map((invoice) => classifyInvoice(invoice, sellerState));
+  const byNumber = new Map<string, ClassifiedInvoice>();
+  for (const c of classified) {
+    byNumber.set(c.invoice.invoiceNo, c);
+    if (c.invoice.manualInvoiceNo) byNumber.set(c.invoice.manualInvoiceNo, c);
+  }
+  const customerById = new Map(input.customers.map((c) => [c.id, c]));
+
+  const result: Gstr1 = { b2b: [], b2cl: [], b2cs: [], cdnr: [], cdnur: [], hsn: [], warnings };
+  const b2cs = new Map<string, B2csRow>();
+  const addB2cs = (supplyType: "INTRA" | "INTER", pos: string, rates: GstSummaryRow[], sign: number) => {
+    for (const r of rates) {
+      const key = `${supplyType}|${pos}|${r.rate}`;
+      const row = b2cs.get(key) ?? { supplyType, pos, rate: r.rate, ...ZERO };
+      b2cs.set(key, { ...row, ...addAmounts(row, r, sign) });
+    }
+  };
+
+  const hsnLines: InvoiceLineItem[] = [];
+  for (const c of classified.filter((x) => inMonth(x.invoice.issueDate, month))) {
+    if (c.doc.number.length > 16) warnings.push(`Invoice ${c.doc.number} is longer than the 16 characters GSTR-1 allows.`);
+    if ((c.invoice.customer?.gst || "").trim() && !c.doc.ctin) {
+      warnings.push(`Invoice ${c.doc.number}: customer GSTIN "${c.invoice.customer?.gst}" is not valid; reported as B2C.`);
+    }
+    if (c.section === "b2cs") addB2cs(c.interState ? "INTER" : "INTRA", c.doc.pos, c.doc.rates, 1);
+    else result[c.section].push(c.doc);
+
+    for (const line of invoiceTaxLines(c.invoice, sellerState)) {
+      if (!line.hsnCode) warnings.push(`Invoice ${c.doc.number}: ${line.name} has no HSN code.`);
+      hsnLines.push(line);
+    }
+  }
+
+  for (const note of input.notes.filter((n) => n.partyType === "customer" && inMonth(n.date, month))) {
+    const invoice = byNumber.get(note.relatedInvoiceNo);
+    if (!invoice) warnings.push(`${note.noteType} note ${note.noteNo}: invoice "${note.relatedInvoiceNo}" not found; reported at 0%.`);
+    const rates = noteRates(note, invoice);
+    const ctinCandidate = (invoice?.invoice.customer?.gst || customerById.get(note.partyId)?.gst || "").trim().toUpperCase();
+    const ctin = isValidGstin(ctinCandidate) ? ctinCandidate : "";
+    const pos = invoice?.doc.pos || stateCodeFromGstin(ctin) || sellerState || "";
+    const doc: NoteDocument = {
+      ctin,
+      partyName: note.partyName,
+      number: note.noteNo,
+      date: note.date,
+      value: round2(note.amount),
+      pos,
+      rates,
+      noteType: note.noteType === "Credit" ? "C" : "D",
+      invoiceNo: note.relatedInvoiceNo,
+    };
+    if (ctin) result.cdnr.push(doc);
+    else if (invoice?.section === "b2cl") result.cdnur.push(doc);
+    else addB2cs(invoice?.interState ? "INTER" : "INTRA", pos, rates, doc.noteType === "C" ? -1 : 1);
+  }
+
+  result.b2cs = [...b2cs.values()].sort((a, b) => a.pos.localeCompare(b.pos) || a.rate - b.rate);
+
+  const hsnQuantity = new Map<string, { quantity: number; description: string; uqc: string }>();
+  for (const line of hsnLines) {
+    const key = `${line.hsnCode || ""}|${Number(line.tax) || 0}`;
+    const prev = hsnQuantity.get(key);
+    hsnQuantity.set(key, {
+      quantity: round2((prev?.quantity ?? 0) + (Number(line.quantity) || 0)),
+      description: prev?.description || line.name,
+      uqc: prev?.uqc || unitQuantityCode(line.unit),
+    });
+  }
+  result.hsn = summaryByHsn(hsnLines).map((r) => {
+    const extra = hsnQuantity.get(`${r.hsnCode}|${r.rate}`);
+    return {
+      ...r,
+      hsnCode: r.hsnCode || "",
+      description: extra?.description ?? "",
+      uqc: extra?.uqc ?? "OTH",
+      quantity: extra?.quantity ?? 0,
+      value: grossOf(r),
+    };
+  });
+
+  return result;
+}
+
+/**
+ * Input tax on one purchase. Purchases record a per-unit price before tax (invoicePrice) and
+ * on the tax invoice (taxInvoicePrice); the difference is the tax. When only the tax invoice
+ * price is known, the item's GST rate is used to back the tax out of it.
+ */
+export function purchaseInputTax(purchase: PurchaseRecord, gstRate: number | undefined): { taxable: number; tax: number } | null {
+  if (purchase.notTaxInvoice || purchase.taxInvoicePrice <= 0) return null;
+  const gross = purchase.taxInvoicePrice * purchase.quantity;
+  if (purchase.invoicePrice > 0 && purchase.taxInvoicePrice > purchase.invoicePrice) {
+    const taxable = round2(purchase.invoicePrice * purchase.quantity);
+    return { taxable, tax: round2(gross - taxable) };
+  }
+  if (gstRate === undefined) return null;
+  const taxable = round2(gross / (1 + gstRate / 100));
+  return { taxable, tax: round2(gross - taxable) };
+}
+
+export function buildGstr3b(input: GstReturnInput, gstr1: Gstr1 = buildGstr1(input)): Gstr3b {
+  const { month, sellerState } = input;
+  const warnings: string[] = [];
+
+  const outwardRates = [
+    ...[...gstr1.b2b, ...gstr1.b2cl].flatMap((d) => d.rates.map((r) => ({ r, sign: 1 }))),
+    ...gstr1.b2cs.map((r) => ({ r, sign: 1 })),
+    ...[...gstr1.cdnr, ...gstr1.cdnur].flatMap((d) => d.rates.map((r) => ({ r, sign: d.noteType === "C" ? -1 : 1 }))),
+  ];
+  let outward = ZERO;
+  let nilRated = 0;
+  for (const { r, sign } of outwardRates) {
+    if (r.rate > 0) outward = addAmounts(outward, r, sign);
+    else nilRated = round2(nilRated + sign * r.taxable);
+  }
+
+  const unregistered = new Map<string, { pos: string; taxable: number; igst: number }>();
+  const interRows = [
+    ...gstr1.b2cl.flatMap((d) => d.rates.map((r) => ({ pos: d.pos, r, sign: 1 }))),
+    ...gstr1.cdnur.flatMap((d) => d.rates.map((r) => ({ pos: d.pos, r, sign: d.noteType === "C" ? -1 : 1 }))),
+    ...gstr1.b2cs.filter((r) => r.supplyType === "INTER").map((r) => ({ pos: r.pos, r, sign: 1 })),
+  ];
+  for (const { pos, r, sign } of interRows) {
+    const row = unregistered.get(pos) ?? { pos, taxable: 0, igst: 0 };
+    unregistered.set(pos, { pos, taxable: round2(row.taxable + sign * r.taxable), igst: round2(row.igst + sign * r.igst) });
+  }
+
+  const rateByItemId = new Map(input.items.map((it) => [it.id, it.gstRate ?? undefined]));
+  const supplierById = new Map(input.suppliers.map((s) => [s.id, s]));
+  const inputTaxRows: InputTaxRow[] = [];
+  for (const p of input.purchases.filter((x) => inMonth(x.date, month))) {
+    const tax = purchaseInputTax(p, rateByItemId.get(p.itemId));
+    if (!tax) {
+      if (!p.notTaxInvoice) warnings.push(`Purchase ${p.invoiceNo || p.id} (${p.itemName}): tax cannot be worked out; set the item's GST rate.`);
+      continue;
+    }
+    const ctinCandidate = (supplierById.get(p.supplierId)?.gst || "").trim().toUpperCase();
+    const ctin = isValidGstin(ctinCandidate) ? ctinCandidate : "";
+    const interState = taxTypeFor(sellerState, stateCodeFromGstin(ctin) || sellerState) === "IGST";
+    const cgst = interState ? 0 : round2(tax.tax / 2);
+    inputTaxRows.push({
+      purchaseId: p.id,
+      date: p.date,
+      supplierName: p.supplierName,
+      ctin,
+      invoiceNo: p.invoiceNo,
+      taxable: tax.taxable,
+      cgst,
+      sgst: interState ? 0 : round2(tax.tax - cgst),
+      igst: interState ? tax.tax : 0,
+    });
+  }
+  for (const bill of (input.purchaseBills ?? []).filter((b) => inMonth(b.billDate, month))) {
+    if (!bill.cgst && !bill.sgst && !bill.igst) continue;
+    const ctin = (bill.supplierGstin || "").trim().toUpperCase();
+    inputTaxRows.push({
+      purchaseId: bill.id,
+      date: bill.billDate,
+      supplierName: bill.supplierName,
+      ctin: isValidGstin(ctin) ? ctin : "",
+      invoiceNo: bill.billNo,
+      taxable: bill.taxable,
+      cgst: bill.cgst,
+      sgst: bill.sgst,
+      igst: bill.igst,
+    });
+  }
+  const inputTax = inputTaxRows.reduce<GstAmounts>((sum, r) => addAmounts(sum, r), ZERO);
+
+  return {
+    outward,
+    nilRated,
+    interStateUnregistered: [...unregistered.values()].filter((r) => r.taxable).sort((a, b) => a.pos.localeCompare(b.pos)),
+    inputTax,
+    inputTaxRows,
+    netPayable: {
+      cgst: round2(outward.cgst - inputTax.cgst),
+      sgst: round2(outward.sgst - inputTax.sgst),
+      igst: round2(outward.igst - inputTax.igst),
+    },
+    warnings,
+  };
+}
+
+// ---------- Offline tool JSON ----------
+
+/** Return period as the portal writes it: MMYYYY. */
+export const returnPeriod = (month: string) => `${month.slice(5, 7)}${month.slice(0, 4)}`;
+
+const itemDetails = (rates: GstSummaryRow[]) =>
+  rates.map((r, i) => ({
+    num: i + 1,
+    itm_det: { txval: r.taxable, rt: r.rate, iamt: r.igst, camt: r.cgst, samt: r.sgst, csamt: 0 },
+  }));
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Array<[string, T[]]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) groups.set(key(row), [...(groups.get(key(row)) ?? []), row]);
+  return [...groups.entries()];
+}
+
+export function gstr1Json(gstin: string, month: string, gstr1: Gstr1) {
+  return {
+    gstin,
+    fp: returnPeriod(month),
+    b2b: groupBy(gstr1.b2b, (d) => d.ctin).map(([ctin, docs]) => ({
+      ctin,
+      inv: docs.map((d) => ({
+        inum: d.number,
+        idt: dmyDate(d.date, "-"),
+        val: d.value,
+        pos: d.pos,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: itemDetails(d.rates),
+      })),
+    })),
+    b2cl: groupBy(gstr1.b2cl, (d) => d.pos).map(([pos, docs]) => ({
+      pos,
+      inv: docs.map((d) => ({ inum: d.number, idt: dmyDate(d.date, "-"), val: d.value, itms: itemDetails(d.rates) })),
+    })),
+    b2cs: gstr1.b2cs.map((r) => ({
+      sply_ty: r.supplyType,
+      pos: r.pos,
+      typ: "OE",
+      txval: r.taxable,
+      rt: r.rate,
+      iamt: r.igst,
+      camt: r.cgst,
+      samt: r.sgst,
+      csamt: 0,
+    })),
+    cdnr: groupBy(gstr1.cdnr, (d) => d.ctin).map(([ctin, docs]) => ({
+      ctin,
+      nt: docs.map((d) => ({
+        ntty: d.noteType,
+        nt_num: d.number,
+        nt_dt: dmyDate(d.date, "-"),
+        val: d.value,
+        pos: d.pos,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: itemDetails(d.rates),
+      })),
+    })),
+    cdnur: gstr1.cdnur.map((d) => ({
+      typ: "B2CL",
+      ntty: d.noteType,
+      nt_num: d.number,
+      nt_dt: dmyDate(d.date, "-"),
+      val: d.value,
+      pos: d.pos,
+      itms: itemDetails(d.rates),
+    })),
+    hsn: {
+      data: gstr1.hsn.map((r, i) => ({
+        num: i + 1,
+        hsn_sc: r.hsnCode,
+        desc: r.description.slice(0, 30),
+        uqc: r.uqc,
+        qty: r.quantity,
+        rt: r.rate,
+        txval: r.taxable,
+        iamt: r.igst,
+        camt: r.cgst,
+        samt: r.sgst,
+        csamt: 0,
+      })),
+    },
+  };
+}
+
+const taxHeads = (a: GstAmounts) => ({ iamt: a.igst, camt: a.cgst, samt: a.sgst, csamt: 0 });
+const noTax = { iamt: 0, camt: 0, samt: 0, csamt: 0 };
+
+export function gstr3bJson(gstin: string, month: string, gstr3b: Gstr3b) {
+  return {
+    gstin,
+    ret_period: returnPeriod(month),
+    sup_details: {
+      osup_det: { txval: gstr3b.outward.taxable, ...taxHeads(gstr3b.outward) },
+      osup_zero: { txval: 0, iamt: 0, csamt: 0 },
+      osup_nil_exmp: { txval: gstr3b.nilRated },
+      isup_rev: { txval: 0, ...noTax },
+      osup_nongst: { txval: 0 },
+    },
+    inter_sup: {
+      unreg_details: gstr3b.interStateUnregistered.map((r) => ({ pos: r.pos, txval: r.taxable, iamt: r.igst })),
+      comp_details: [],
+      uin_details: [],
+    },
+    itc_elg: {
+      itc_avl: [
+        { ty: "IMPG", ...noTax },
+        { ty: "IMPS", ...noTax },
+        { ty: "ISRC", ...noTax },
+        { ty: "ISD", ...noTax },
+        { ty: "OTH", ...taxHeads(gstr3b.inputTax) },
+      ],
+      itc_rev: [
+        { ty: "RUL", ...noTax },
+        { ty: "OTH", ...noTax },
+      ],
+      itc_net: taxHeads(gstr3b.inputTax),
+      itc_inelg: [
+        { ty: "RUL", ...noTax },
+        { ty: "OTH", ...noTax },
+      ],
+    },
+  };
+}
@@ -0,0 +1,233 @@
+import type { InvoiceLineItem, InvoiceRecord, TaxType } from "@/lib/schemas";
+
+// GST rules for tax invoices: state codes and place of supply, the CGST/SGST vs IGST
+// split, per-rate and per-HSN summaries and the amount in words.
+
+/** GST state codes as used in the first two digits of a GSTIN. */
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const round2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+
+export function isValidGstin(gstin: string | undefined): boolean {
+  return !!gstin && GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+export function stateCodeFromGstin(gstin: string | undefined): string | undefined {
+  if (!isValidGstin(gstin)) return undefined;
+  const code = gstin.trim().slice(0, 2);
+  return GST_STATES[code] ? code : undefined;
+}
+
+export const stateLabel = (code: string | undefined) => (code && GST_STATES[code] ? `${GST_STATES[code]} (${code})` : "—");
+
+/** Supplies within the seller's state carry CGST + SGST; anything crossing a state line carries IGST. */
+export function taxTypeFor(sellerState: string | undefined, placeOfSupply: string | undefined): TaxType {
+  return sellerState && placeOfSupply && sellerState !== placeOfSupply ? "IGST" : "CGST / SGST";
+}
+
+type TaxedLine = Pick<InvoiceLineItem, "quantity" | "rate" | "tax" | "taxType"> & { hsnCode?: string };
+
+export interface GstAmounts {
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface GstLine extends GstAmounts {
+  rate: number;
+  total: number;
+}
+
+export function gstLine(item: TaxedLine): GstLine {
+  const taxable = round2((Number(item.quantity) || 0) * (Number(item.rate) || 0));
+  const rate = Number(item.tax) || 0;
+  const tax = round2((taxable * rate) / 100);
+  if (item.taxType === "IGST") return { taxable, rate, cgst: 0, sgst: 0, igst: tax, total: taxable + tax };
+  const cgst = round2(tax / 2);
+  return { taxable, rate, cgst, sgst: round2(tax - cgst), igst: 0, total: taxable + tax };
+}
+
+export interface GstSummaryRow extends GstAmounts {
+  hsnCode?: string;
+  rate: number;
+}
+
+function summarize(items: TaxedLine[], withHsn: boolean): GstSummaryRow[] {
+  const rows = new Map<string, GstSummaryRow>();
+  for (const item of items) {
+    const line = gstLine(item);
+    const hsnCode = withHsn ? item.hsnCode || "" : undefined;
+    const key = `${hsnCode ?? ""}|${line.rate}`;
+    const row = rows.get(key) ?? { hsnCode, rate: line.rate, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+    row.taxable = round2(row.taxable + line.taxable);
+    row.cgst = round2(row.cgst + line.cgst);
+    row.sgst = round2(row.sgst + line.sgst);
+    row.igst = round2(row.igst + line.igst);
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) => (a.hsnCode ?? "").localeCompare(b.hsnCode ?? "") || a.rate - b.rate);
+}
+
+/** Taxable value and tax per GST rate. */
+export const summaryByRate = (items: TaxedLine[]) => summarize(items, false);
+
+/** Taxable value and tax per HSN code and rate, as the tax invoice and GSTR-1 need. */
+export const summaryByHsn = (items: TaxedLine[]) => summarize(items, true);
+
+export function gstTotals(items: TaxedLine[]): GstAmounts {
+  return summaryByRate(items).reduce(
+    (sum, r) => ({
+      taxable: round2(sum.taxable + r.taxable),
+      cgst: round2(sum.cgst + r.cgst),
+      sgst: round2(sum.sgst + r.sgst),
+      igst: round2(sum.igst + r.igst),
+    }),
+    { taxable: 0, cgst: 0, sgst: 0, igst: 0 }
+  );
+}
+
+/** GST unit quantity codes for the units used on invoices. */
+const UQC: Record<string, string> = {
+  pcs: "PCS",
+  nos: "NOS",
+  kg: "KGS",
+  kgs: "KGS",
+  g: "GMS",
+  gm: "GMS",
+  gms: "GMS",
+  l: "LTR",
+  ltr: "LTR",
+  ml: "MLT",
+  box: "BOX",
+  btl: "BTL",
+  bottle: "BTL",
+  strip: "PAC",
+  pack: "PAC",
+  tab: "TBS",
+  tablets: "TBS",
+};
+
+export const unitQuantityCode = (unit: string) => UQC[(unit || "").trim().toLowerCase()] || "OTH";
+
+/** yyyy-mm-dd → dd/mm/yyyy, the date format of the GST, IRP and e-way bill portals. */
+export const dmyDate = (ymd: string, separator = "/") => (ymd || "").split("-").reverse().join(separator);
+
+type InvoiceTaxFields = Pick<InvoiceRecord, "items" | "placeOfSupply" | "customer" | "subtotal" | "taxPercent" | "notes">;
+
+/** Where an invoice's supply took place: as recorded, else the buyer's GSTIN state, else the seller's. */
+export function invoicePlaceOfSupply(invoice: InvoiceTaxFields, sellerState: string | undefined): string | undefined {
+  return invoice.placeOfSupply || stateCodeFromGstin(invoice.customer?.gst) || sellerState;
+}
+
+/** Invoice lines for tax purposes. Invoices entered without items become one line for their subtotal. */
+export function invoiceTaxLines(invoice: InvoiceTaxFields, sellerState: string | undefined): InvoiceLineItem[] {
+  if (invoice.items.length) return invoice.items;
+  return [
+    {
+      processedInventoryId: "",
+      name: invoice.notes || "Goods as per order",
+      unit: "",
+      quantity: 1,
+      rate: invoice.subtotal,
+      taxType: taxTypeFor(sellerState, invoicePlaceOfSupply(invoice, sellerState)),
+      tax: invoice.taxPercent,
+    },
+  ];
+}
+
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function belowHundred(n: number): string {
+  return n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", belowHundred(n % 100)].filter(Boolean).join(" ");
+}
+
+/** Indian numbering: crore, lakh, thousand. */
+function integerInWords(n: number): string {
+  if (n === 0) return "Zero";
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10_000_000);
+  if (crore) parts.push(`${integerInWords(crore)} Crore`);
+  const lakh = Math.floor((n % 10_000_000) / 100_000);
+  if (lakh) parts.push(`${belowHundred(lakh)} Lakh`);
+  const thousand = Math.floor((n % 100_000) / 1000);
+  if (thousand) parts.push(`${belowHundred(thousand)} Thousand`);
+  const rest = n % 1000;
+  if (rest) parts.push(belowThousand(rest));
+  return parts.join(" ");
+}
+
+/** e.g. 1234.5 → "Rupees One Thousand Two Hundred Thirty Four and Fifty Paise Only" */
+export function amountInWords(amount: number): string {
+  const paiseTotal = Math.round(Math.abs(Number(amount) || 0) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  return `Rupees ${integerInWords(rupees)}${paise ? ` and ${belowHundred(paise)} Paise` : ""} Only`;
+}
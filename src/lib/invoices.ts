@@ -0,0 +1,145 @@
+import { invoiceJournal, postJournal } from "@/lib/ledger";
+import { assertSaleable } from "@/lib/qc";
+import { listRecords, runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import { readChallanBilling, unbillChallans } from "@/lib/sales-orders";
+import type { InvoiceLineItem, InvoiceRecord, ProcessedInventoryRecord, RecordInput } from "@/lib/schemas";
+import { applyStockChange } from "@/lib/stock";
+
+// Editing, cancelling and deleting invoices. The goods on an invoice left processed inventory
+// when it was saved, so each change works out per item how many units the invoice holds now
+// against before and moves only that difference, in the same transaction as the invoice write.
+// As elsewhere, all reads happen before the first write. Invoices raised from delivery
+// challans are the exception: their goods left with the challans, so they hold no stock here
+// and their quantities can't be edited.
+
+export class InvoiceStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoiceStateError";
+  }
+}
+
+export const isCancelled = (invoice: Pick<InvoiceRecord, "status">) => invoice.status === "Cancelled";
+
+export const isFromChallans = (invoice: Pick<InvoiceRecord, "challanIds">) => Boolean(invoice.challanIds?.length);
+
+/** The lines whose goods this invoice took out of stock. */
+export const stockLines = (invoice: Pick<InvoiceRecord, "items" | "challanIds">) => (isFromChallans(invoice) ? [] : invoice.items);
+
+/** Units of each processed item on the invoice lines. */
+export function soldQuantities(items: InvoiceLineItem[] | undefined): Map<string, number> {
+  const sold = new Map<string, number>();
+  for (const line of items ?? []) {
+    if (!line.processedInventoryId || !(line.quantity > 0)) continue;
+    sold.set(line.processedInventoryId, (sold.get(line.processedInventoryId) ?? 0) + line.quantity);
+  }
+  return sold;
+}
+
+/** Units to put back in stock per item when `before` lines become `after`; negative means more goes out. */
+export function invoiceStockDelta(before: InvoiceLineItem[] | undefined, after: InvoiceLineItem[] | undefined): Map<string, number> {
+  const delta = new Map<string, number>();
+  const was = soldQuantities(before);
+  const now = soldQuantities(after);
+  for (const id of new Set([...was.keys(), ...now.keys()])) {
+    const change = (was.get(id) ?? 0) - (now.get(id) ?? 0);
+    if (change) delta.set(id, change);
+  }
+  return delta;
+}
+
+export interface InvoiceStockChange {
+  item: ProcessedInventoryRecord;
+  delta: number;
+}
+
+export async function readInvoiceStock(tx: RecordTransaction, delta: Map<string, number>): Promise<InvoiceStockChange[]> {
+  const changes: InvoiceStockChange[] = [];
+  for (const [id, change] of delta) {
+    const item = await tx.get("processedInventory", id);
+    if (!item) throw new InvoiceStateError(`Processed inventory item not found: ${id}`);
+    changes.push({ item, delta: change });
+  }
+  return changes;
+}
+
+export function moveInvoiceStock(tx: RecordTransaction, invoice: InvoiceRecord, changes: InvoiceStockChange[]) {
+  for (const { item, delta } of changes) {
+    if (delta < 0) assertSaleable(item, -delta);
+    applyStockChange(tx, "processed", item, delta, {
+      date: new Date().toISOString().slice(0, 10),
+      movementType: delta > 0 ? "reversal" : "dispatch",
+      sourceType: "invoice",
+      sourceId: invoice.id,
+      reference: invoice.invoiceNo,
+    });
+  }
+}
+
+/**
+ * Saves changes to an invoice: lines added or increased take stock out, lines removed or
+ * reduced put it back, and the ledger entry is re-posted. Invoices with an IRN keep their
+ * number, party and total.
+ */
+export async function updateInvoice(id: string, patch: RecordInput<"invoices">): Promise<void> {
+  await runRecordTransaction(async (tx) => {
+    const invoice = await tx.get("invoices", id);
+    if (!invoice || invoice.deletedAt) throw new InvoiceStateError("This invoice no longer exists.");
+    if (isCancelled(invoice)) throw new InvoiceStateError("Cancelled invoices can't be edited.");
+    if (patch.status === "Cancelled") throw new InvoiceStateError("Use Cancel to cancel an invoice.");
+    if (patch.invoiceNo !== undefined && patch.invoiceNo !== invoice.invoiceNo) {
+      throw new InvoiceStateError("An invoice keeps the number it was issued with.");
+    }
+
+    const next = { ...invoice, ...patch };
+    if (
+      invoice.eInvoice &&
+      (next.partyId !== invoice.partyId || Math.abs(next.total - invoice.total) > 0.005)
+    ) {
+      throw new InvoiceStateError("This invoice has an IRN; its party and amounts cannot change.");
+    }
+
+    if (isFromChallans(invoice) && invoiceStockDelta(invoice.items, next.items).size) {
+      throw new InvoiceStateError("Quantities on this invoice come from its delivery challans and cannot change.");
+    }
+
+    const changes = await readInvoiceStock(tx, invoiceStockDelta(stockLines(invoice), stockLines(next)));
+    tx.update("invoices", id, patch);
+    moveInvoiceStock(tx, next, changes);
+    postJournal(tx, "invoice", id, invoiceJournal(next));
+  });
+}
+
+/** Completed receipts keep an invoice in the party's ledger; they have to be reversed before it goes. */
+export async function hasCompletedReceipts(invoiceId: string): Promise<boolean> {
+  const receipts = await listRecords("payments", { where: [["invoiceId", "==", invoiceId]] });
+  return receipts.some((p) => p.status === "Completed");
+}
+
+/**
+ * Cancels an invoice: it keeps its number and stays on the list as "Cancelled", its goods go
+ * back to stock (or its delivery challans become billable again) and its ledger entry is
+ * removed. Refuses while receipts are recorded against it.
+ */
+export async function cancelInvoice(id: string, reason: string): Promise<void> {
+  if (await hasCompletedReceipts(id)) {
+    throw new InvoiceStateError("Payments are recorded against this invoice; reverse them before cancelling it.");
+  }
+
+  await runRecordTransaction(async (tx) => {
+    const invoice = await tx.get("invoices", id);
+    if (!invoice || invoice.deletedAt) throw new InvoiceStateError("This invoice no longer exists.");
+    if (isCancelled(invoice)) return;
+
+    const changes = await readInvoiceStock(tx, invoiceStockDelta(stockLines(invoice), []));
+    const billing = await readChallanBilling(tx, invoice);
+    tx.update("invoices", id, {
+      status: "Cancelled",
+      cancelledAt: new Date(),
+      cancelReason: reason.trim() || undefined,
+    });
+    moveInvoiceStock(tx, invoice, changes);
+    unbillChallans(tx, billing);
+    postJournal(tx, "invoice", id, null);
+  });
+}
@@ -0,0 +1,475 @@
+import { deleteRecord, listRecords, putRecord, type RecordTransaction } from "@/lib/repository";
+import type {
+  AccountingTransactionRecord,
+  AccountType,
+  BankAccountRecord,
+  CashAccountRecord,
+  DebitCreditNoteRecord,
+  InvoiceRecord,
+  JournalEntryRecord,
+  JournalLine,
+  JournalSourceType,
+  PartyRecord,
+  PaymentRecord,
+  PurchaseBillRecord,
+  PurchaseRecord,
+  TransactionRecord,
+} from "@/lib/schemas";
+
+// Double-entry general ledger. Every business document (invoice, payment, purchase,
+// debit/credit note, bank transfer, manual book entry) maps to exactly one balanced journal
+// entry whose id is derived from the document, so re-posting on edit replaces it and
+// deleting the document removes it. Balances and reports are computed from the journal.
+
+export interface LedgerAccount {
+  code: string;
+  name: string;
+  type: AccountType;
+}
+
+export const ACCOUNTS = {
+  cash: { code: "1000", name: "Cash in Hand", type: "Asset" },
+  bank: { code: "1010", name: "Bank Accounts", type: "Asset" },
+  receivables: { code: "1100", name: "Sundry Debtors", type: "Asset" },
+  inventory: { code: "1200", name: "Inventory", type: "Asset" },
+  inputTax: { code: "1300", name: "GST Input Credit", type: "Asset" },
+  payables: { code: "2000", name: "Sundry Creditors", type: "Liability" },
+  taxPayable: { code: "2100", name: "GST Payable", type: "Liability" },
+  capital: { code: "3000", name: "Capital Account", type: "Equity" },
+  sales: { code: "4000", name: "Sales", type: "Income" },
+  salesAdjustments: { code: "4010", name: "Sales Returns & Adjustments", type: "Income" },
+  otherIncome: { code: "4100", name: "Other Income", type: "Income" },
+  purchases: { code: "5000", name: "Purchases", type: "Expense" },
+  purchaseAdjustments: { code: "5010", name: "Purchase Returns & Adjustments", type: "Expense" },
+  bankCharges: { code: "5100", name: "Bank Charges", type: "Expense" },
+  generalExpenses: { code: "5200", name: "General Expenses", type: "Expense" },
+} satisfies Record<string, LedgerAccount>;
+
+export const CHART_OF_ACCOUNTS: LedgerAccount[] = Object.values(ACCOUNTS);
+
+const accountByCode = new Map(CHART_OF_ACCOUNTS.map((a) => [a.code, a]));
+
+export function findAccount(code: string): LedgerAccount | undefined {
+  return accountByCode.get(code);
+}
+
+/** Assets and expenses carry debit balances; liabilities, equity and income carry credit balances. */
+export function isDebitNature(type: AccountType): boolean {
+  return type === "Asset" || type === "Expense";
+}
+
+export interface JournalDraft {
+  date: string;
+  memo: string;
+  reference?: string;
+  lines: JournalLine[];
+}
+
+export class UnbalancedJournalError extends Error {
+  constructor(memo: string, debit: number, credit: number) {
+    super(`Journal "${memo}" does not balance: debit ${debit.toFixed(2)} vs credit ${credit.toFixed(2)}.`);
+    this.name = "UnbalancedJournalError";
+  }
+}
+
+const round2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+
+type LineExtras = Omit<Partial<JournalLine>, "accountCode" | "accountName" | "debit" | "credit">;
+
+function debit(account: LedgerAccount, amount: number, extras: LineExtras = {}): JournalLine {
+  return { accountCode: account.code, accountName: account.name, debit: round2(amount), credit: 0, ...extras };
+}
+
+function credit(account: LedgerAccount, amount: number, extras: LineExtras = {}): JournalLine {
+  return { accountCode: account.code, accountName: account.name, debit: 0, credit: round2(amount), ...extras };
+}
+
+function partyExtras(partyType: string | undefined, partyId: string | undefined, partyName: string | undefined): LineExtras {
+  return { partyType: partyType || undefined, partyId: partyId || undefined, partyName: partyName || undefined };
+}
+
+export function journalTotals(lines: JournalLine[]) {
+  const totalDebit = round2(lines.reduce((sum, l) => sum + (l.debit || 0), 0));
+  const totalCredit = round2(lines.reduce((sum, l) => sum + (l.credit || 0), 0));
+  return { totalDebit, totalCredit };
+}
+
+export function assertBalanced(draft: JournalDraft) {
+  const { totalDebit, totalCredit } = journalTotals(draft.lines);
+  if (Math.abs(totalDebit - totalCredit) > 0.005) throw new UnbalancedJournalError(draft.memo, totalDebit, totalCredit);
+}
+
+function withoutEmptyLines(draft: JournalDraft): JournalDraft | null {
+  const lines = draft.lines.filter((l) => l.debit > 0 || l.credit > 0);
+  return lines.length ? { ...draft, lines } : null;
+}
+
+// ---------- Posting rules ----------
+
+export function invoiceJournal(invoice: InvoiceRecord): JournalDraft | null {
+  const total = round2(invoice.total);
+  if (total <= 0 || invoice.status === "Cancelled") return null;
+  const tax = Math.min(total, round2(invoice.tax));
+  const party = partyExtras(invoice.partyType, invoice.partyId, invoice.partyName);
+  return withoutEmptyLines({
+    date: invoice.issueDate,
+    memo: `Sales invoice ${invoice.manualInvoiceNo || invoice.invoiceNo} - ${invoice.partyName || ""}`,
+    reference: invoice.invoiceNo,
+    lines: [debit(ACCOUNTS.receivables, total, party), credit(ACCOUNTS.sales, total - tax), credit(ACCOUNTS.taxPayable, tax)],
+  });
+}
+
+/** Purchases store a per-unit `totalPrice`, so the bill value is quantity × price. */
+export function purchaseAmount(purchase: PurchaseRecord): number {
+  return round2((Number(purchase.quantity) || 0) * (Number(purchase.totalPrice) || 0));
+}
+
+export function purchaseJournal(purchase: PurchaseRecord): JournalDraft | null {
+  const amount = purchaseAmount(purchase);
+  if (amount <= 0) return null;
+  return {
+    date: purchase.date,
+    memo: `Purchase ${purchase.invoiceNo} - ${purchase.supplierName}`,
+    reference: purchase.invoiceNo,
+    lines: [
+      debit(ACCOUNTS.purchases, amount, { memo: purchase.itemName || undefined }),
+      credit(ACCOUNTS.payables, amount, partyExtras("supplier", purchase.supplierId, purchase.supplierName)),
+    ],
+  };
+}
+
+/** Bills carry their GST breakdown, so the tax goes to input credit rather than purchases. */
+export function purchaseBillJournal(bill: PurchaseBillRecord): JournalDraft | null {
+  const total = round2(bill.total);
+  if (total <= 0) return null;
+  const tax = Math.min(total, round2(bill.cgst + bill.sgst + bill.igst));
+  return withoutEmptyLines({
+    date: bill.billDate,
+    memo: `Purchase bill ${bill.billNo} - ${bill.supplierName}`,
+    reference: bill.billNo,
+    lines: [
+      debit(ACCOUNTS.purchases, round2(total - tax)),
+      debit(ACCOUNTS.inputTax, tax),
+      credit(ACCOUNTS.payables, total, partyExtras("supplier", bill.supplierId, bill.supplierName)),
+    ],
+  });
+}
+
+function moneyLine(
+  side: typeof debit,
+  amount: number,
+  method: string | undefined,
+  bankAccountId: string | undefined,
+  bankAccountName: string | undefined,
+  cashAccountId?: string
+): JournalLine {
+  if (method === "Cash") return side(ACCOUNTS.cash, amount, { cashAccountId: cashAccountId || undefined });
+  return side(ACCOUNTS.bank, amount, { bankAccountId: bankAccountId || undefined, memo: bankAccountName || undefined });
+}
+
+export function paymentJournal(payment: PaymentRecord): JournalDraft | null {
+  const amount = round2(payment.amount);
+  if (payment.status !== "Completed" || amount <= 0) return null;
+
+  const party = partyExtras(payment.partyType, payment.partyId, payment.partyName);
+  const incoming = payment.direction === "In";
+  const counterAccount =
+    payment.partyType === "customer"
+      ? ACCOUNTS.receivables
+      : payment.partyType === "supplier"
+        ? ACCOUNTS.payables
+        : incoming
+          ? ACCOUNTS.otherIncome
+          : ACCOUNTS.generalExpenses;
+
+  const money = (side: typeof debit, value: number) =>
+    moneyLine(side, value, payment.method, payment.bankAccountId, payment.bankAccountName, payment.cashAccountId);
+
+  const lines = incoming
+    ? [money(debit, amount), credit(counterAccount, amount, party)]
+    : [debit(counterAccount, amount, party), money(credit, amount)];
+
+  const charge = payment.method === "Cash" ? 0 : round2(payment.bankTransferCharge);
+  if (charge > 0) lines.push(debit(ACCOUNTS.bankCharges, charge), money(credit, charge));
+
+  return {
+    date: payment.date,
+    memo: `Payment ${incoming ? "received from" : "paid to"} ${payment.partyName || ""}`.trim(),
+    reference: payment.reference || payment.invoiceNo || undefined,
+    lines,
+  };
+}
+
+export function debitCreditNoteJournal(note: DebitCreditNoteRecord): JournalDraft | null {
+  const amount = round2(note.amount);
+  if (amount <= 0) return null;
+
+  const isSupplier = note.partyType === "supplier";
+  const partyAccount = isSupplier ? ACCOUNTS.payables : ACCOUNTS.receivables;
+  const adjustmentAccount = isSupplier ? ACCOUNTS.purchaseAdjustments : ACCOUNTS.salesAdjustments;
+  const party = partyExtras(note.partyType, note.partyId, note.partyName);
+  // A debit note raises what the customer owes us or lowers what we owe the supplier.
+  const lines =
+    note.noteType === "Debit"
+      ? [debit(partyAccount, amount, party), credit(adjustmentAccount, amount)]
+      : [debit(adjustmentAccount, amount), credit(partyAccount, amount, party)];
+
+  return {
+    date: note.date,
+    memo: `${note.noteType} note ${note.noteNo} - ${note.partyName || ""}`,
+    reference: note.relatedInvoiceNo || undefined,
+    lines,
+  };
+}
+
+export interface BankTransfer {
+  reference: string;
+  date: string;
+  description: string;
+  amount: number;
+  fromBankId: string;
+  fromBankName: string;
+  toBankId: string;
+  toBankName: string;
+}
+
+export function transferJournal(transfer: BankTransfer): JournalDraft | null {
+  const amount = round2(transfer.amount);
+  if (amount <= 0) return null;
+  return {
+    date: transfer.date,
+    memo: transfer.description || `Transfer ${transfer.fromBankName} to ${transfer.toBankName}`,
+    reference: transfer.reference,
+    lines: [
+      debit(ACCOUNTS.bank, amount, { bankAccountId: transfer.toBankId, memo: transfer.toBankName }),
+      credit(ACCOUNTS.bank, amount, { bankAccountId: transfer.fromBankId, memo: transfer.fromBankName }),
+    ],
+  };
+}
+
+/** Manual deposits/withdrawals entered on the Transactions page. */
+export function bookEntryJournal(entry: AccountingTransactionRecord): JournalDraft | null {
+  const amount = round2(entry.amount);
+  if (entry.status !== "Completed" || amount <= 0) return null;
+
+  const method = entry.accountType === "cash" ? "Cash" : "Bank";
+  const money = (side: typeof debit, value: number) =>
+    moneyLine(side, value, method, entry.accountId, entry.accountName, entry.accountId);
+  const lines =
+    entry.type === "Deposit"
+      ? [money(debit, amount), credit(ACCOUNTS.otherIncome, amount, { memo: entry.category })]
+      : [debit(ACCOUNTS.generalExpenses, amount, { memo: entry.category }), money(credit, amount)];
+
+  const charge = round2(entry.transferCharge);
+  if (charge > 0) lines.push(debit(ACCOUNTS.bankCharges, charge), money(credit, charge));
+
+  return { date: entry.date, memo: entry.description || entry.category, reference: entry.reference || undefined, lines };
+}
+
+export function bankOpeningJournal(account: BankAccountRecord): JournalDraft | null {
+  const amount = round2(account.initialBalance);
+  if (!amount) return null;
+  const bankLine = { bankAccountId: account.id, memo: account.accountName };
+  return {
+    date: account.createdAt ? account.createdAt.toISOString().slice(0, 10) : "",
+    memo: `Opening balance - ${account.accountName}`,
+    lines:
+      amount > 0
+        ? [debit(ACCOUNTS.bank, amount, bankLine), credit(ACCOUNTS.capital, amount)]
+        : [debit(ACCOUNTS.capital, -amount), credit(ACCOUNTS.bank, -amount, bankLine)],
+  };
+}
+
+export function cashOpeningJournal(account: CashAccountRecord): JournalDraft | null {
+  const amount = round2(account.opening);
+  if (amount <= 0) return null;
+  return {
+    date: account.createdAt ? account.createdAt.toISOString().slice(0, 10) : "",
+    memo: `Opening balance - ${account.accountName}`,
+    lines: [debit(ACCOUNTS.cash, amount, { cashAccountId: account.id }), credit(ACCOUNTS.capital, amount)],
+  };
+}
+
+export function partyOpeningJournal(partyType: "customer" | "supplier", party: PartyRecord): JournalDraft | null {
+  const amount = round2(party.opening);
+  if (!amount) return null;
+  const account = partyType === "customer" ? ACCOUNTS.receivables : ACCOUNTS.payables;
+  const extras = partyExtras(partyType, party.id, party.name);
+  // Positive opening means the party owes us (customer) or we owe them (supplier).
+  const owedToUs = partyType === "customer" ? amount > 0 : amount < 0;
+  const value = Math.abs(amount);
+  return {
+    date: party.createdAt ? party.createdAt.toISOString().slice(0, 10) : "",
+    memo: `Opening balance - ${party.name}`,
+    lines: owedToUs
+      ? [debit(account, value, extras), credit(ACCOUNTS.capital, value)]
+      : [debit(ACCOUNTS.capital, value), credit(account, value, extras)],
+  };
+}
+
+// ---------- Posting ----------
+
+export function journalId(sourceType: JournalSourceType, sourceId: string): string {
+  return `${sourceType}-${sourceId}`;
+}
+
+function journalRecord(sourceType: JournalSourceType, sourceId: string, draft: JournalDraft) {
+  assertBalanced(draft);
+  return {
+    ...draft,
+    sourceType,
+    sourceId,
+    total: journalTotals(draft.lines).totalDebit,
+  };
+}
+
+/**
+ * Writes (or replaces) the journal entry for a source document inside the caller's
+ * transaction. Passing null removes it, e.g. when a payment goes back to Pending.
+ */
+export function postJournal(tx: RecordTransaction, sourceType: JournalSourceType, sourceId: string, draft: JournalDraft | null) {
+  const id = journalId(sourceType, sourceId);
+  if (!draft) {
+    tx.delete("journalEntries", id);
+    return;
+  }
+  tx.put("journalEntries", id, journalRecord(sourceType, sourceId, draft));
+}
+
+export function removeJournal(tx: RecordTransaction, sourceType: JournalSourceType, sourceId: string) {
+  tx.delete("journalEntries", journalId(sourceType, sourceId));
+}
+
+/**
+ * Re-derives every automatic journal entry from the source collections. Safe to run
+ * repeatedly; entries whose source no longer exists are removed. Manual entries are kept.
+ */
+export async function rebuildLedger(): Promise<{ posted: number; removed: number }> {
+  const [invoices, payments, purchases, bills, notes, bookEntries, transactions, bankAccounts, cashAccounts, customers, suppliers, existing] =
+    await Promise.all([
+      listRecords("invoices"),
+      listRecords("payments"),
+      listRecords("purchases"),
+      listRecords("purchaseBills"),
+      listRecords("debitCreditNotes"),
+      listRecords("accountingTransactions"),
+      listRecords("transactions"),
+      listRecords("bankAccounts"),
+      listRecords("cashAccounts"),
+      listRecords("customers"),
+      listRecords("suppliers"),
+      listRecords("journalEntries"),
+    ]);
+
+  const drafts: Array<[JournalSourceType, string, JournalDraft | null]> = [];
+  for (const x of invoices) drafts.push(["invoice", x.id, invoiceJournal(x)]);
+  for (const x of payments) drafts.push(["payment", x.id, paymentJournal(x)]);
+  for (const x of purchases) drafts.push(["purchase", x.id, purchaseJournal(x)]);
+  for (const x of bills) drafts.push(["purchaseBill", x.id, purchaseBillJournal(x)]);
+  for (const x of notes) drafts.push(["debitCreditNote", x.id, debitCreditNoteJournal(x)]);
+
+  // Book entries mirrored from payments are already covered by the payment's journal.
+  const paymentMirrors = new Set(payments.flatMap((p) => [p.acctAccountingTxId, p.acctBankChargeTxId]).filter(Boolean));
+  for (const x of bookEntries) {
+    if (!paymentMirrors.has(x.id)) drafts.push(["bookEntry", x.id, bookEntryJournal(x)]);
+  }
+
+  for (const transfer of selfTransfers(transactions)) drafts.push(["transfer", transfer.reference, transferJournal(transfer)]);
+
+  for (const x of bankAccounts) drafts.push(["opening", `bank-${x.id}`, bankOpeningJournal(x)]);
+  for (const x of cashAccounts) drafts.push(["opening", `cash-${x.id}`, cashOpeningJournal(x)]);
+  for (const x of customers) drafts.push(["opening", `customer-${x.id}`, partyOpeningJournal("customer", x)]);
+  for (const x of suppliers) drafts.push(["opening", `supplier-${x.id}`, partyOpeningJournal("supplier", x)]);
+
+  const wanted = new Set<string>();
+  let posted = 0;
+  for (const [sourceType, sourceId, draft] of drafts) {
+    if (!draft) continue;
+    const id = journalId(sourceType, sourceId);
+    wanted.add(id);
+    await putRecord("journalEntries", id, journalRecord(sourceType, sourceId, draft));
+    posted += 1;
+  }
+
+  let removed = 0;
+  for (const entry of existing) {
+    if (entry.sourceType === "manual" || wanted.has(entry.id)) continue;
+    await deleteRecord("journalEntries", entry.id);
+    removed += 1;
+  }
+
+  return { posted, removed };
+}
+
+/** Self transfers are stored as an Expense/Income pair sharing a TRF- reference. */
+function selfTransfers(transactions: TransactionRecord[]): BankTransfer[] {
+  const byReference = new Map<string, BankTransfer>();
+  for (const t of transactions) {
+    if (t.category !== "Self Transfer" || !t.reference) continue;
+    const transfer = byReference.get(t.reference) ?? {
+      reference: t.reference,
+      date: t.date || "",
+      description: t.description || "",
+      amount: t.amount || 0,
+      fromBankId: "",
+      fromBankName: "",
+      toBankId: "",
+      toBankName: "",
+    };
+    if (t.type === "Expense") {
+      transfer.fromBankId = t.bankAccountId || "";
+      transfer.fromBankName = t.bankAccountName || "";
+      transfer.description = t.description || transfer.description;
+    } else {
+      transfer.toBankId = t.bankAccountId || "";
+      transfer.toBankName = t.bankAccountName || "";
+    }
+    byReference.set(t.reference, transfer);
+  }
+  return Array.from(byReference.values()).filter((t) => t.fromBankId && t.toBankId);
+}
+
+// ---------- Balances ----------
+
+export interface AccountBalance {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+  /** Positive in the account's natural direction (debit for assets/expenses, credit otherwise). */
+  balance: number;
+}
+
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export function inRange(date: string, range: DateRange = {}): boolean {
+  if (range.from && date < range.from) return false;
+  if (range.to && date > range.to) return false;
+  return true;
+}
+
+export function accountBalances(entries: JournalEntryRecord[], range: DateRange = {}): AccountBalance[] {
+  const totals = new Map<string, { debit: number; credit: number }>();
+  for (const entry of entries) {
+    if (!inRange(entry.date, range)) continue;
+    for (const line of entry.lines) {
+      const t = totals.get(line.accountCode) ?? { debit: 0, credit: 0 };
+      t.debit += line.debit || 0;
+      t.credit += line.credit || 0;
+      totals.set(line.accountCode, t);
+    }
+  }
+
+  return CHART_OF_ACCOUNTS.map((account) => {
+    const t = totals.get(account.code) ?? { debit: 0, credit: 0 };
+    const net = t.debit - t.credit;
+    return {
+      account,
+      debit: round2(t.debit),
+      credit: round2(t.credit),
+      balance: round2(isDebitNature(account.type) ? net : -net),
+    };
+  });
+}
@@ -0,0 +1,65 @@
+import type { jsPDF } from "jspdf";
+import type { CompanyDetails } from "@/lib/company";
+
+// The company block at the top of generated reports: drawn into jsPDF documents, or written
+// as HTML for the pages that print through a popup window.
+
+const LOGO_HEIGHT = 14;
+const MARGIN = 14;
+
+function detailLines(company: CompanyDetails): string[] {
+  const licences = (company.drugLicences ?? []).map((l) => `DL ${l.label || "No"}: ${l.number}`).join("  |  ");
+  return [
+    company.address.replace(/\s*\n\s*/g, ", "),
+    [company.gstin && `GSTIN: ${company.gstin}`, company.phone && `Phone: ${company.phone}`, company.email].filter(Boolean).join("  |  "),
+    licences,
+  ].filter(Boolean);
+}
+
+/** Draws the company's logo, name, address and registrations; returns the y just below them. */
+export function drawPdfLetterhead(doc: jsPDF, company: CompanyDetails, top = 12): number {
+  let x = MARGIN;
+  if (company.logo) {
+    try {
+      const { width, height } = doc.getImageProperties(company.logo);
+      const logoWidth = (width / height) * LOGO_HEIGHT;
+      doc.addImage(company.logo, "PNG", MARGIN, top, logoWidth, LOGO_HEIGHT);
+      x += logoWidth + 4;
+    } catch (error) {
+      console.error("Could not draw the company logo", error);
+    }
+  }
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(13);
+  doc.text(company.name, x, top + 5);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  let y = top + 10;
+  for (const line of detailLines(company)) {
+    const wrapped: string[] = doc.splitTextToSize(line, doc.internal.pageSize.getWidth() - x - MARGIN);
+    doc.text(wrapped, x, y);
+    y += 4 * wrapped.length;
+  }
+  if (x > MARGIN) y = Math.max(y, top + LOGO_HEIGHT + 2);
+  doc.setDrawColor(200);
+  doc.line(MARGIN, y, doc.internal.pageSize.getWidth() - MARGIN, y);
+  return y + 4;
+}
+
+/** The same block as HTML, for reports printed from a popup window. */
+export function letterheadHtml(company: CompanyDetails, escapeHtml: (value: string) => string): string {
+  const logo = company.logo ? `<img src="${company.logo}" alt="" style="height:48px;margin-right:12px" />` : "";
+  const lines = detailLines(company)
+    .map((line) => `<div style="font-size:11px;color:#444">${escapeHtml(line)}</div>`)
+    .join("");
+  return `
+    <div style="display:flex;align-items:center;border-bottom:1px solid #ccc;padding-bottom:8px;margin-bottom:12px">
+      ${logo}
+      <div>
+        <div style="font-size:16px;font-weight:700">${escapeHtml(company.name)}</div>
+        ${lines}
+      </div>
+    </div>
+  `;
+}
@@ -0,0 +1,112 @@
+import { listRecords, type RecordTransaction } from "@/lib/repository";
+import type { BatchLotUsage, RawInventoryRecord, RawLotRecord } from "@/lib/schemas";
+
+// Lots are consumed first-expiry-first-out. Expired lots are never used; they stay on hand
+// (and in the alerts) until someone adjusts them out of stock.
+
+export type ExpiryStatus = "expired" | "near-expiry" | "ok";
+
+/** How far ahead a lot counts as near expiry. */
+export const NEAR_EXPIRY_DAYS = 90;
+
+const today = () => new Date().toISOString().split("T")[0];
+
+function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+export function expiryStatus(expiryDate: string | undefined, asOf = today(), warnDays = NEAR_EXPIRY_DAYS): ExpiryStatus {
+  if (!expiryDate) return "ok";
+  if (expiryDate < asOf) return "expired";
+  return expiryDate <= addDays(asOf, warnDays) ? "near-expiry" : "ok";
+}
+
+/** Earliest expiry first; lots without an expiry go last, oldest receipt first within a date. */
+export function fefoOrder<T extends Pick<RawLotRecord, "expiryDate" | "receivedDate">>(lots: T[]): T[] {
+  return [...lots].sort(
+    (a, b) =>
+      (a.expiryDate || "9999-12-31").localeCompare(b.expiryDate || "9999-12-31") ||
+      a.receivedDate.localeCompare(b.receivedDate)
+  );
+}
+
+export interface LotAllocation {
+  /** Taken from stock received before lots were recorded. */
+  untracked: number;
+  lots: BatchLotUsage[];
+  /** What couldn't be covered by usable stock. */
+  shortfall: number;
+}
+
+/**
+ * Plans how `quantity` of an item is drawn. Untracked stock is older than any lot, so it goes
+ * first; then unexpired lots in FEFO order. The plan never exceeds the item's own quantity,
+ * which can sit below the lot total after a manual adjustment.
+ */
+export function allocateFefo(
+  item: Pick<RawInventoryRecord, "quantity">,
+  lots: RawLotRecord[],
+  quantity: number,
+  asOf = today()
+): LotAllocation {
+  const lotTotal = lots.reduce((sum, lot) => sum + Math.max(lot.quantityRemaining, 0), 0);
+  let remaining = Math.min(quantity, Math.max(item.quantity, 0));
+  const untracked = Math.min(remaining, Math.max(item.quantity - lotTotal, 0));
+  remaining -= untracked;
+
+  const used: BatchLotUsage[] = [];
+  for (const lot of fefoOrder(lots)) {
+    if (remaining <= 0) break;
+    if (lot.quantityRemaining <= 0 || expiryStatus(lot.expiryDate, asOf) === "expired") continue;
+    const take = Math.min(lot.quantityRemaining, remaining);
+    used.push({ lotId: lot.id, lotNo: lot.lotNo, expiryDate: lot.expiryDate, quantity: take });
+    remaining -= take;
+  }
+
+  const drawn = untracked + used.reduce((sum, u) => sum + u.quantity, 0);
+  return { untracked, lots: used, shortfall: quantity - drawn };
+}
+
+/** Lots with stock left, per raw item. */
+export async function listOpenLots(rawItemIds: string[]): Promise<Map<string, RawLotRecord[]>> {
+  const ids = Array.from(new Set(rawItemIds.filter(Boolean)));
+  const lists = await Promise.all(ids.map((id) => listRecords("rawLots", { where: [["rawItemId", "==", id]] })));
+  return new Map(ids.map((id, i) => [id, lists[i].filter((lot) => lot.quantityRemaining > 0)]));
+}
+
+/** Re-reads lots inside a transaction, dropping any deleted since they were listed. */
+export async function readLots(tx: RecordTransaction, lotIds: string[]): Promise<RawLotRecord[]> {
+  const lots = await Promise.all(Array.from(new Set(lotIds)).map((id) => tx.get("rawLots", id)));
+  return lots.filter((lot): lot is RawLotRecord => !!lot);
+}
+
+/** Moves each lot's remaining quantity by `sign` × the usage (−1 to consume, +1 to return). */
+export function applyLotUsage(tx: RecordTransaction, lots: RawLotRecord[], usage: BatchLotUsage[], sign: 1 | -1) {
+  const byId = new Map(lots.map((lot) => [lot.id, lot]));
+  for (const use of usage) {
+    const lot = byId.get(use.lotId);
+    if (!lot) continue;
+    lot.quantityRemaining += sign * use.quantity;
+    tx.update("rawLots", lot.id, { quantityRemaining: lot.quantityRemaining });
+  }
+}
+
+export interface ExpiryAlert {
+  lot: RawLotRecord;
+  status: Exclude<ExpiryStatus, "ok">;
+  daysLeft: number;
+}
+
+/** Expired and near-expiry lots still holding stock, soonest first. */
+export function expiryAlerts(lots: RawLotRecord[], asOf = today(), warnDays = NEAR_EXPIRY_DAYS): ExpiryAlert[] {
+  const alerts: ExpiryAlert[] = [];
+  for (const lot of fefoOrder(lots)) {
+    const status = expiryStatus(lot.expiryDate, asOf, warnDays);
+    if (lot.quantityRemaining <= 0 || status === "ok") continue;
+    const daysLeft = Math.round((Date.parse(lot.expiryDate) - Date.parse(asOf)) / 86_400_000);
+    alerts.push({ lot, status, daysLeft });
+  }
+  return alerts;
+}
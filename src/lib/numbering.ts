@@ -0,0 +1,142 @@
+import { financialYear } from "@/lib/financial-reports";
+import { getRecord, putRecord, type RecordTransaction } from "@/lib/repository";
+import type { Branch, DocumentSeries, DocumentType, NumberingSettingsRecord, RecordInput } from "@/lib/schemas";
+
+// Document numbers come from counter records (numberCounters) that are read and bumped in the
+// same transaction that creates the document, so two users saving at once never get the same
+// number and a failed save never burns one. Each document type has its own series, per
+// financial year when it resets on April 1, and per branch once branches are set up.
+
+export const NUMBERING_SETTINGS_ID = "default";
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: "Tax Invoice",
+  proformaInvoice: "Proforma Invoice",
+  quotation: "Quotation",
+  salesOrder: "Sales Order",
+  deliveryChallan: "Delivery Challan",
+  purchaseOrder: "Purchase Order",
+  goodsReceipt: "Goods Receipt Note",
+};
+
+export const DEFAULT_SERIES: Record<DocumentType, DocumentSeries> = {
+  invoice: { documentType: "invoice", prefix: "INV", format: "{PREFIX}/{FY}/{SEQ}", padding: 4, resetYearly: true },
+  proformaInvoice: { documentType: "proformaInvoice", prefix: "PI", format: "{PREFIX}/{FY}/{SEQ}", padding: 4, resetYearly: true },
+  quotation: { documentType: "quotation", prefix: "QUO", format: "{PREFIX}/{FY}/{SEQ}", padding: 4, resetYearly: true },
+  salesOrder: { documentType: "salesOrder", prefix: "SO", format: "{PREFIX}/{FY}/{SEQ}", padding: 4, resetYearly: true },
+  deliveryChallan: { documentType: "deliveryChallan", prefix: "DC", format: "{PREFIX}/{FY}/{SEQ}", padding: 4, resetYearly: true },
+  purchaseOrder: { documentType: "purchaseOrder", prefix: "PO", format: "{PREFIX}/{FY}/{SEQ}", padding: 4, resetYearly: true },
+  goodsReceipt: { documentType: "goodsReceipt", prefix: "GRN", format: "{PREFIX}/{FY}/{SEQ}", padding: 4, resetYearly: true },
+};
+
+/** Series without a yearly reset keep one counter under this key. */
+const ALL_YEARS = "all";
+
+/** GST caps invoice numbers at 16 characters. */
+export const MAX_DOCUMENT_NUMBER_LENGTH = 16;
+
+export interface NumberingSettings {
+  series: Record<DocumentType, DocumentSeries>;
+  branches: Branch[];
+}
+
+export class NumberingError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join(" "));
+    this.name = "NumberingError";
+  }
+}
+
+export function numberingFromRecord(record: NumberingSettingsRecord | null | undefined): NumberingSettings {
+  const series = { ...DEFAULT_SERIES };
+  for (const s of record?.series ?? []) series[s.documentType] = s;
+  return { series, branches: record?.branches ?? [] };
+}
+
+export async function loadNumbering(): Promise<NumberingSettings> {
+  return numberingFromRecord(await getRecord("numberingSettings", NUMBERING_SETTINGS_ID));
+}
+
+/** e.g. "2026-09-14" → "2026-27" */
+export function financialYearLabel(date: string): string {
+  const start = Number(financialYear(date).from.slice(0, 4));
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+export function formatDocumentNumber(series: DocumentSeries, sequence: number, date: string, branch = ""): string {
+  const fy = financialYearLabel(date);
+  return series.format
+    .replace(/\{PREFIX\}/g, series.prefix)
+    .replace(/\{FY\}/g, fy)
+    .replace(/\{FYS\}/g, fy.slice(2).replace("-", ""))
+    .replace(/\{BRANCH\}/g, branch)
+    .replace(/\{SEQ\}/g, String(sequence).padStart(Math.max(1, series.padding || 1), "0"))
+    .replace(/\/{2,}|-{2,}/g, (m) => m[0])
+    .replace(/^[/-]+|[/-]+$/g, "");
+}
+
+export function counterId(documentType: DocumentType, series: DocumentSeries, date: string, branch = ""): string {
+  return [documentType, series.resetYearly ? financialYearLabel(date) : ALL_YEARS, branch || "main"].join("_");
+}
+
+/**
+ * Takes the next number of a series inside `tx`. It reads, so call it before the transaction's
+ * first write; the counter only moves if the transaction that creates the document commits.
+ */
+export async function nextDocumentNumber(tx: RecordTransaction, documentType: DocumentType, date: string, branch = ""): Promise<string> {
+  const { series } = numberingFromRecord(await tx.get("numberingSettings", NUMBERING_SETTINGS_ID));
+  const s = series[documentType];
+  const id = counterId(documentType, s, date, branch);
+  const counter = await tx.get("numberCounters", id);
+  const lastNumber = (counter?.lastNumber ?? 0) + 1;
+  tx.put("numberCounters", id, {
+    documentType,
+    financialYear: s.resetYearly ? financialYearLabel(date) : ALL_YEARS,
+    branch,
+    lastNumber,
+  });
+  return formatDocumentNumber(s, lastNumber, date, branch);
+}
+
+/** The number the next save would get, for display only; another user may take it first. */
+export async function previewDocumentNumber(documentType: DocumentType, date: string, branch = ""): Promise<string> {
+  const { series } = await loadNumbering();
+  const s = series[documentType];
+  const counter = await getRecord("numberCounters", counterId(documentType, s, date, branch));
+  return formatDocumentNumber(s, (counter?.lastNumber ?? 0) + 1, date, branch);
+}
+
+export function numberingProblems(settings: NumberingSettings): string[] {
+  const problems: string[] = [];
+  const codes = settings.branches.map((b) => b.code.trim().toUpperCase());
+  if (codes.some((c) => !c)) problems.push("Every branch needs a code.");
+  if (new Set(codes).size !== codes.length) problems.push("Branch codes must be unique.");
+  const longestCode = codes.reduce((n, c) => Math.max(n, c.length), 0);
+
+  for (const s of Object.values(settings.series)) {
+    const label = DOCUMENT_TYPE_LABELS[s.documentType];
+    if (!s.format.includes("{SEQ}")) problems.push(`${label}: the format must contain {SEQ}.`);
+    if (settings.branches.length > 1 && !s.format.includes("{BRANCH}")) {
+      problems.push(`${label}: add {BRANCH} to the format, or branches will issue the same numbers.`);
+    }
+    if (s.resetYearly && !/\{FYS?\}/.test(s.format)) {
+      problems.push(`${label}: add {FY} to the format, or numbers will repeat after the April reset.`);
+    }
+    if (s.padding < 1 || s.padding > 8) problems.push(`${label}: the sequence must be padded to 1–8 digits.`);
+    const sample = formatDocumentNumber(s, 1, "2026-04-01", "X".repeat(longestCode));
+    if (s.documentType === "invoice" && sample.length > MAX_DOCUMENT_NUMBER_LENGTH) {
+      problems.push(`${label}: ${sample} is longer than the ${MAX_DOCUMENT_NUMBER_LENGTH} characters GST allows.`);
+    }
+  }
+  return problems;
+}
+
+export async function saveNumbering(settings: NumberingSettings): Promise<void> {
+  const cleaned: RecordInput<"numberingSettings"> = {
+    series: Object.values(settings.series).map((s) => ({ ...s, prefix: s.prefix.trim(), format: s.format.trim() })),
+    branches: settings.branches.map((b) => ({ code: b.code.trim().toUpperCase(), name: b.name.trim() })),
+  };
+  const problems = numberingProblems({ series: settings.series, branches: cleaned.branches });
+  if (problems.length) throw new NumberingError(problems);
+  await putRecord("numberingSettings", NUMBERING_SETTINGS_ID, cleaned);
+}
@@ -0,0 +1,20 @@
+// Salted PBKDF2 password hashes, used by the local staff sign-in and the doctor portal.
+// Hashes and salts are stored as hex strings.
+
+export const PBKDF2_ITERATIONS = 100_000;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map((h) => parseInt(h, 16)));
+
+export async function hashPassword(password: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<string> {
+  const subtle = globalThis.crypto.subtle;
+  const key = await subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt: fromHex(salt), iterations }, key, 256);
+  return toHex(new Uint8Array(bits));
+}
+
+/** A fresh random salt and the hash of `password` under it. */
+export async function saltedPasswordHash(password: string): Promise<{ salt: string; passwordHash: string }> {
+  const salt = toHex(globalThis.crypto.getRandomValues(new Uint8Array(16)));
+  return { salt, passwordHash: await hashPassword(password, salt) };
+}
@@ -0,0 +1,272 @@
+import { allocateFefo, applyLotUsage, listOpenLots, readLots, type LotAllocation } from "@/lib/lots";
+import { listRecords, runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import type { BatchItem, BatchRecord, BatchStatus, ProcessedInventoryRecord, RawLotRecord } from "@/lib/schemas";
+import { applyStockChange, recordMovement, type MovementSource } from "@/lib/stock";
+
+// Batch creation, approval and deletion. Each runs as one transaction that re-reads the
+// stock it touches, so two people processing at once can't drive raw stock negative and a
+// failure half way leaves nothing behind. Firestore wants every read before the first
+// write, hence the read-then-apply shape of the helpers below.
+
+export class InsufficientStockError extends Error {
+  constructor(
+    readonly itemName: string,
+    readonly available: number,
+    readonly requested: number,
+    /** Stock there is but that can't be used, e.g. "2 more in QC quarantine". */
+    readonly heldBack = ""
+  ) {
+    super(`Only ${available} of ${itemName} in stock${heldBack && ` (${heldBack})`}, ${requested} needed.`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+export class BatchStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchStateError";
+  }
+}
+
+export interface FinishedGoods {
+  producedItemName: string;
+  actualOutputQuantity: number;
+}
+
+export interface NewBatch {
+  batchNo: string;
+  manualBatchNo?: string;
+  batchDate: string;
+  status: BatchStatus;
+  items: BatchItem[];
+  /** Required when the batch is created already approved. */
+  output?: FinishedGoods;
+  recipeId?: string;
+  targetOutputQuantity?: number;
+}
+
+/** Sums use quantities per raw item so the same material on two lines is checked once. */
+function usageByItem(items: BatchItem[]) {
+  const usage = new Map<string, { name: string; quantity: number }>();
+  for (const item of items) {
+    if (!item.rawItemId || !(item.useQuantity > 0)) continue;
+    const row = usage.get(item.rawItemId) ?? { name: item.rawItemName, quantity: 0 };
+    row.quantity += item.useQuantity;
+    usage.set(item.rawItemId, row);
+  }
+  return usage;
+}
+
+async function readRawStock(tx: RecordTransaction, items: BatchItem[], openLots = new Map<string, RawLotRecord[]>()) {
+  const usage = Array.from(usageByItem(items));
+  const stock = await Promise.all(usage.map(([id]) => tx.get("rawInventory", id)));
+  const lots = await Promise.all(usage.map(([id]) => readLots(tx, (openLots.get(id) ?? []).map((lot) => lot.id))));
+  return usage.map(([id, use], i) => ({ id, use, stock: stock[i], lots: lots[i] }));
+}
+
+type RawStock = Awaited<ReturnType<typeof readRawStock>>;
+
+/** Picks the lots each raw item is drawn from, failing if usable (unexpired) stock is short. */
+function planConsumption(rows: RawStock, asOf: string): Map<string, LotAllocation> {
+  const plans = new Map<string, LotAllocation>();
+  for (const { id, use, stock, lots } of rows) {
+    const plan = allocateFefo({ quantity: stock?.quantity ?? 0 }, lots, use.quantity, asOf);
+    if (!stock || plan.shortfall > 0) {
+      throw new InsufficientStockError(stock?.name || use.name, use.quantity - plan.shortfall, use.quantity);
+    }
+    plans.set(id, plan);
+  }
+  return plans;
+}
+
+/** Records on each line which lots it used, splitting an item's plan across its lines in order. */
+function withLotUsage(items: BatchItem[], plans: Map<string, LotAllocation>): BatchItem[] {
+  const left = new Map(
+    Array.from(plans, ([id, plan]) => [id, { untracked: plan.untracked, lots: plan.lots.map((lot) => ({ ...lot })) }])
+  );
+  return items.map((item) => {
+    const plan = left.get(item.rawItemId);
+    if (!plan || !(item.useQuantity > 0)) return { ...item, lots: [] };
+
+    let need = item.useQuantity;
+    const fromUntracked = Math.min(plan.untracked, need);
+    plan.untracked -= fromUntracked;
+    need -= fromUntracked;
+
+    const lots: BatchItem["lots"] = [];
+    while (need > 0 && plan.lots.length) {
+      const lot = plan.lots[0];
+      const take = Math.min(lot.quantity, need);
+      lots.push({ ...lot, quantity: take });
+      lot.quantity -= take;
+      need -= take;
+      if (lot.quantity <= 0) plan.lots.shift();
+    }
+    return { ...item, lots };
+  });
+}
+
+function consumeRawMaterials(tx: RecordTransaction, rows: RawStock, plans: Map<string, LotAllocation>, source: MovementSource) {
+  for (const { id, use, stock, lots } of rows) {
+    applyLotUsage(tx, lots, plans.get(id).lots, -1);
+    applyStockChange(tx, "raw", stock, -use.quantity, source);
+  }
+}
+
+function restoreRawMaterials(tx: RecordTransaction, rows: RawStock, source: MovementSource) {
+  for (const { use, stock } of rows) {
+    // A raw item deleted since the batch was made has nothing to return to.
+    if (stock) applyStockChange(tx, "raw", stock, use.quantity, source);
+  }
+}
+
+/** Finished goods are keyed by name. */
+export async function findProcessedItemId(name: string): Promise<string | null> {
+  const [existing] = await listRecords("processedInventory", { where: [["name", "==", name]], limit: 1 });
+  return existing?.id ?? null;
+}
+
+function receiveFinishedGoods(
+  tx: RecordTransaction,
+  existing: ProcessedInventoryRecord | null,
+  output: FinishedGoods,
+  batch: { batchNo: string; unit: string; processDate: string },
+  source: MovementSource
+) {
+  // New output is held in quarantine until QC releases the batch.
+  if (existing) {
+    applyStockChange(tx, "processed", existing, output.actualOutputQuantity, source, {
+      quarantineQuantity: existing.quarantineQuantity + output.actualOutputQuantity,
+    });
+    return;
+  }
+
+  const item = {
+    productId: `PROD-${Date.now()}-${Math.random().toString(36).slice(2, 11).toUpperCase()}`,
+    name: output.producedItemName,
+    batchNo: batch.batchNo,
+    quantity: output.actualOutputQuantity,
+    unit: batch.unit || "kg",
+    category: "Finished Goods",
+    location: "Production",
+    status: "In Stock",
+    processDate: batch.processDate,
+    quarantineQuantity: output.actualOutputQuantity,
+  };
+  const id = tx.create("processedInventory", item);
+  recordMovement(tx, "processed", { ...item, id }, output.actualOutputQuantity, output.actualOutputQuantity, source);
+}
+
+function batchSource(movementType: MovementSource["movementType"], batchId: string, batchNo: string, date: string): MovementSource {
+  return { date, movementType, sourceType: "batch", sourceId: batchId, reference: batchNo };
+}
+
+function assertOutput(output: FinishedGoods | undefined): FinishedGoods {
+  if (!output?.producedItemName.trim()) throw new BatchStateError("Enter the produced item name for approved batches.");
+  if (!(output.actualOutputQuantity > 0)) throw new BatchStateError("Enter a valid actual output quantity.");
+  return { ...output, producedItemName: output.producedItemName.trim() };
+}
+
+export async function createBatch(input: NewBatch): Promise<string> {
+  const output = input.status === "approved" ? assertOutput(input.output) : null;
+  const existingId = output ? await findProcessedItemId(output.producedItemName) : null;
+  const openLots = await listOpenLots(input.items.map((item) => item.rawItemId));
+
+  return runRecordTransaction(async (tx) => {
+    const raw = await readRawStock(tx, input.items, openLots);
+    const existing = existingId ? await tx.get("processedInventory", existingId) : null;
+    const plans = planConsumption(raw, input.batchDate);
+
+    const batchId = tx.create("batches", {
+      batchNo: input.batchNo,
+      manualBatchNo: input.manualBatchNo,
+      items: withLotUsage(input.items, plans),
+      status: input.status,
+      batchDate: input.batchDate,
+      recipeId: input.recipeId,
+      targetOutputQuantity: input.targetOutputQuantity,
+      ...(output ? { ...output, qcStatus: "quarantine" as const } : {}),
+    });
+
+    consumeRawMaterials(tx, raw, plans, batchSource("consumption", batchId, input.batchNo, input.batchDate));
+    if (output) {
+      receiveFinishedGoods(
+        tx,
+        existing,
+        output,
+        { batchNo: input.batchNo, unit: input.items[0]?.unit, processDate: input.batchDate },
+        batchSource("production", batchId, input.batchNo, input.batchDate)
+      );
+    }
+    return batchId;
+  });
+}
+
+/**
+ * Changes a batch's status. Moving to "approved" adds the output to finished goods; the
+ * batch is re-read first so a batch approved elsewhere in the meantime isn't counted twice.
+ */
+export async function updateBatchStatus(batchId: string, status: BatchStatus, approval?: FinishedGoods): Promise<void> {
+  const output = status === "approved" ? assertOutput(approval) : null;
+  const existingId = output ? await findProcessedItemId(output.producedItemName) : null;
+
+  await runRecordTransaction(async (tx) => {
+    const batch = await tx.get("batches", batchId);
+    if (!batch) throw new BatchStateError("This batch no longer exists.");
+    if (batch.status === "approved") {
+      if (status !== "approved") throw new BatchStateError("Approved batches can't be moved back; delete the batch instead.");
+      return;
+    }
+
+    const existing = existingId ? await tx.get("processedInventory", existingId) : null;
+    if (output) {
+      const processDate = new Date().toISOString().split("T")[0];
+      receiveFinishedGoods(
+        tx,
+        existing,
+        output,
+        { batchNo: batch.batchNo, unit: batch.items[0]?.unit, processDate },
+        batchSource("production", batchId, batch.batchNo, processDate)
+      );
+    }
+    tx.update("batches", batchId, { status, ...(output ? { ...output, qcStatus: "quarantine" as const } : {}) });
+  });
+}
+
+/**
+ * Deletes a batch and returns its raw materials to stock and to the lots they came from. For
+ * an approved batch the output is taken back out of finished goods, which fails if some of it
+ * has already been sold.
+ */
+export async function deleteBatch(batch: BatchRecord): Promise<void> {
+  const producedId =
+    batch.status === "approved" && batch.producedItemName ? await findProcessedItemId(batch.producedItemName) : null;
+
+  await runRecordTransaction(async (tx) => {
+    const current = await tx.get("batches", batch.id);
+    if (!current) throw new BatchStateError("This batch no longer exists.");
+
+    const produced = producedId ? await tx.get("processedInventory", producedId) : null;
+    const raw = await readRawStock(tx, current.items);
+    const usedLots = current.items.flatMap((item) => item.lots ?? []);
+    const lots = await readLots(tx, usedLots.map((use) => use.lotId));
+    const source = batchSource("reversal", batch.id, current.batchNo, new Date().toISOString().split("T")[0]);
+
+    // Output rejected by QC has already been written off.
+    if (current.status === "approved" && current.actualOutputQuantity && current.qcStatus !== "rejected") {
+      const available = produced?.quantity ?? 0;
+      if (!produced || available < current.actualOutputQuantity) {
+        throw new InsufficientStockError(current.producedItemName || current.batchNo, available, current.actualOutputQuantity);
+      }
+      const quarantineQuantity =
+        current.qcStatus === "quarantine"
+          ? Math.max(produced.quarantineQuantity - current.actualOutputQuantity, 0)
+          : produced.quarantineQuantity;
+      applyStockChange(tx, "processed", produced, -current.actualOutputQuantity, source, { quarantineQuantity });
+    }
+
+    restoreRawMaterials(tx, raw, source);
+    applyLotUsage(tx, lots, usedLots, 1);
+    tx.delete("batches", batch.id);
+  });
+}
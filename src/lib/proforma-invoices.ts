@@ -0,0 +1,114 @@
+import { soldQuantities } from "@/lib/invoices";
+import { nextDocumentNumber } from "@/lib/numbering";
+import { assertSaleable } from "@/lib/qc";
+import { runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import type { ProcessedInventoryRecord, ProformaInvoiceRecord, RecordInput } from "@/lib/schemas";
+import { applyStockChange, heldStock, readProcessedItems, round3, today } from "@/lib/stock";
+
+// Proforma invoices take their goods out of processed inventory when saved, logging the
+// movements against the proforma. What a proforma holds is read back from those movements,
+// so an edit moves only the difference per item and deleting one puts everything back.
+
+export class ProformaInvoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProformaInvoiceError";
+  }
+}
+
+/** Puts back what the proforma holds beyond `wanted` and takes out what it lacks. */
+function moveStock(
+  tx: RecordTransaction,
+  proforma: Pick<ProformaInvoiceRecord, "id" | "proformaInvoiceNo">,
+  items: Map<string, ProcessedInventoryRecord>,
+  held: Map<string, number>,
+  wanted: Map<string, number>
+) {
+  for (const [id, item] of items) {
+    const delta = round3((held.get(id) ?? 0) - (wanted.get(id) ?? 0));
+    if (!delta) continue;
+    if (delta < 0) assertSaleable(item, -delta);
+    applyStockChange(tx, "processed", item, delta, {
+      date: today(),
+      movementType: delta > 0 ? "reversal" : "dispatch",
+      sourceType: "proformaInvoice",
+      sourceId: proforma.id,
+      reference: proforma.proformaInvoiceNo,
+    });
+  }
+}
+
+/**
+ * Saves a proforma and takes its goods out of stock; returns the proforma number. Converting
+ * a quotation saved before the movement log puts back what the quotation took first, and marks
+ * the quotation converted in the same transaction.
+ */
+export async function createProformaInvoice(
+  proforma: Omit<RecordInput<"proformaInvoices">, "proformaInvoiceNo">,
+  quotationId?: string
+): Promise<string> {
+  const heldByQuotation = quotationId ? await heldStock("quotation", quotationId) : new Map<string, number>();
+  const wanted = soldQuantities(proforma.items);
+  const date = proforma.issueDate || today();
+
+  return runRecordTransaction(async (tx) => {
+    const quotation = quotationId ? await tx.get("quotations", quotationId) : null;
+    if (quotationId && (!quotation || quotation.status === "Converted")) {
+      throw new ProformaInvoiceError("This quotation has already been converted.");
+    }
+    const items = await readProcessedItems(tx, new Set([...wanted.keys(), ...heldByQuotation.keys()]));
+    for (const [id, needed] of wanted) assertSaleable(items.get(id)!, needed, heldByQuotation.get(id));
+
+    const proformaInvoiceNo = await nextDocumentNumber(tx, "proformaInvoice", date, proforma.branch);
+    const id = tx.create("proformaInvoices", { ...proforma, proformaInvoiceNo });
+    for (const [itemId, item] of items) {
+      const returned = heldByQuotation.get(itemId) ?? 0;
+      const quantity = returned
+        ? applyStockChange(tx, "processed", item, returned, {
+            date,
+            movementType: "reversal",
+            sourceType: "quotation",
+            sourceId: quotationId,
+            reference: quotation?.quotationNo,
+          })
+        : item.quantity;
+      const needed = wanted.get(itemId);
+      if (!needed) continue;
+      applyStockChange(tx, "processed", { ...item, quantity }, -needed, {
+        date,
+        movementType: "dispatch",
+        sourceType: "proformaInvoice",
+        sourceId: id,
+        reference: proformaInvoiceNo,
+      });
+    }
+    if (quotation) tx.update("quotations", quotation.id, { status: "Converted" });
+    return proformaInvoiceNo;
+  });
+}
+
+/** Saves changes to a proforma, moving the stock its lines now need against what it holds. */
+export async function updateProformaInvoice(id: string, patch: RecordInput<"proformaInvoices">): Promise<void> {
+  const held = await heldStock("proformaInvoice", id);
+  await runRecordTransaction(async (tx) => {
+    const proforma = await tx.get("proformaInvoices", id);
+    if (!proforma) throw new ProformaInvoiceError("This proforma invoice no longer exists.");
+    // One saved before the movement log holds nothing we can account for, so its stock stays put.
+    const wanted = held.size && patch.items ? soldQuantities(patch.items) : held;
+    const items = await readProcessedItems(tx, new Set([...held.keys(), ...wanted.keys()]));
+    tx.update("proformaInvoices", id, patch);
+    moveStock(tx, proforma, items, held, wanted);
+  });
+}
+
+/** Deletes a proforma and returns the goods it holds to stock. */
+export async function deleteProformaInvoice(id: string): Promise<void> {
+  const held = await heldStock("proformaInvoice", id);
+  await runRecordTransaction(async (tx) => {
+    const proforma = await tx.get("proformaInvoices", id);
+    if (!proforma) return;
+    const items = await readProcessedItems(tx, held.keys());
+    tx.delete("proformaInvoices", id);
+    moveStock(tx, proforma, items, held, new Map());
+  });
+}
@@ -0,0 +1,300 @@
+import { companyStateCode, loadCompany } from "@/lib/company";
+import { stateCodeFromGstin, summaryByRate, taxTypeFor, type GstAmounts, type GstSummaryRow } from "@/lib/gst";
+import { purchaseInputTax } from "@/lib/gst-returns";
+import { postJournal, purchaseAmount, purchaseBillJournal } from "@/lib/ledger";
+import { getRecord, listRecords, runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import type { PurchaseBillLine, PurchaseBillRecord, PurchaseRecord, RawInventoryRecord, TaxType } from "@/lib/schemas";
+import { receiveRawStock, type MovementSource } from "@/lib/stock";
+
+// Purchase bills: a supplier's invoice booked as one document with many lines. The bill
+// discount and freight are spread over the lines so each carries its own taxable value and
+// landed cost. Lines bought directly take their material into raw stock as a lot; lines
+// billing a goods receipt were stocked by the GRN. Purchases recorded before bills existed
+// (one row per item) are grouped back into bills by invoice number for display and payments.
+
+export class PurchaseBillError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PurchaseBillError";
+  }
+}
+
+const round2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+
+/**
+ * Splits an amount in proportion to the weights, to the paisa. Rounding leftovers go to the
+ * largest share so the parts always add back to the whole.
+ */
+export function allocate(total: number, weights: number[]): number[] {
+  const amount = round2(total);
+  const sum = weights.reduce((s, w) => s + Math.max(w, 0), 0);
+  if (!weights.length || !amount) return weights.map(() => 0);
+  const shares = weights.map((w, i) => (sum > 0 ? round2((amount * Math.max(w, 0)) / sum) : i === 0 ? amount : 0));
+  const largest = weights.reduce((best, w, i) => (w > weights[best] ? i : best), 0);
+  shares[largest] = round2(shares[largest] + amount - shares.reduce((s, x) => s + x, 0));
+  return shares;
+}
+
+export type NewPurchaseBillLine = Pick<PurchaseBillLine, "itemId" | "itemCode" | "itemName" | "unit" | "quantity" | "rate" | "tax"> &
+  Partial<
+    Pick<
+      PurchaseBillLine,
+      "hsnCode" | "lotNo" | "manufacturingDate" | "expiryDate" | "purchaseOrderId" | "goodsReceiptId" | "grnLine"
+    >
+  >;
+
+export interface PricedBill extends GstAmounts {
+  items: PurchaseBillLine[];
+  subtotal: number;
+  discount: number;
+  freight: number;
+  total: number;
+}
+
+/** Works out each line's discount, GST, freight and landed cost, and the bill's totals. */
+export function priceBill(
+  lines: NewPurchaseBillLine[],
+  charges: { discount?: number; freight?: number },
+  taxType: TaxType
+): PricedBill {
+  const values = lines.map((l) => round2(l.quantity * l.rate));
+  const discounts = allocate(charges.discount ?? 0, values);
+  const taxables = values.map((v, i) => round2(v - discounts[i]));
+  const freights = allocate(charges.freight ?? 0, taxables);
+
+  const items = lines.map((l, i) => {
+    const tax = round2((taxables[i] * l.tax) / 100);
+    const cgst = taxType === "IGST" ? 0 : round2(tax / 2);
+    return {
+      ...l,
+      discount: discounts[i],
+      taxable: taxables[i],
+      cgst,
+      sgst: taxType === "IGST" ? 0 : round2(tax - cgst),
+      igst: taxType === "IGST" ? tax : 0,
+      freight: freights[i],
+      landedCost: round2(taxables[i] + freights[i]),
+    };
+  });
+
+  const sum = (pick: (l: PurchaseBillLine) => number) => round2(items.reduce((s, l) => s + pick(l), 0));
+  const totals = {
+    subtotal: round2(values.reduce((s, v) => s + v, 0)),
+    discount: sum((l) => l.discount),
+    taxable: sum((l) => l.taxable),
+    cgst: sum((l) => l.cgst),
+    sgst: sum((l) => l.sgst),
+    igst: sum((l) => l.igst),
+    freight: sum((l) => l.freight),
+  };
+  return { items, ...totals, total: round2(totals.taxable + totals.cgst + totals.sgst + totals.igst + totals.freight) };
+}
+
+/** What one unit of a line cost us once the discount and freight are spread over it. */
+export const landedRate = (line: Pick<PurchaseBillLine, "landedCost" | "quantity">) =>
+  line.quantity > 0 ? round2(line.landedCost / line.quantity) : 0;
+
+/** Taxable value and GST per rate on a bill, for its tax breakdown. */
+export const billTaxByRate = (bill: Pick<PurchaseBillRecord, "items" | "taxType">): GstSummaryRow[] =>
+  summaryByRate(bill.items.map((l) => ({ quantity: 1, rate: l.taxable, tax: l.tax, taxType: bill.taxType })));
+
+export interface NewPurchaseBill {
+  billNo: string;
+  billDate: string;
+  dueDate?: string;
+  supplierId: string;
+  supplierName: string;
+  items: NewPurchaseBillLine[];
+  discount?: number;
+  freight?: number;
+  notes?: string;
+}
+
+export interface PreparedPurchaseBill {
+  bill: Omit<PurchaseBillRecord, "id">;
+  /** Raw items by code for the lines that bring stock in. */
+  rawIds: Map<string, string>;
+}
+
+/** Lines bought directly rather than billed against a goods receipt bring their stock in. */
+const stocksIn = (line: Pick<PurchaseBillLine, "goodsReceiptId">) => !line.goodsReceiptId;
+
+/**
+ * Checks a bill and prices it, reading what the transaction will need: the supplier's GSTIN
+ * for the tax type, earlier bills for duplicates and the raw items its lines go into.
+ */
+export async function preparePurchaseBill(input: NewPurchaseBill): Promise<PreparedPurchaseBill> {
+  const billNo = input.billNo.trim();
+  if (!input.supplierId) throw new PurchaseBillError("Select a supplier.");
+  if (!billNo) throw new PurchaseBillError("Enter the supplier's bill number.");
+  if (!input.billDate) throw new PurchaseBillError("Enter the bill date.");
+  if (input.dueDate && input.dueDate < input.billDate) throw new PurchaseBillError("The due date can't be before the bill date.");
+  const lines = input.items.filter((l) => l.itemId && l.quantity > 0);
+  if (!lines.length) throw new PurchaseBillError("Add at least one item with a quantity.");
+  for (const l of lines) {
+    if (l.rate < 0 || l.tax < 0) throw new PurchaseBillError(`${l.itemName}: the rate and GST can't be negative.`);
+    if (!stocksIn(l)) continue;
+    if (!l.lotNo?.trim() || !l.expiryDate) throw new PurchaseBillError(`${l.itemName}: enter the supplier's batch number and expiry date.`);
+    if (l.manufacturingDate && l.manufacturingDate > l.expiryDate) {
+      throw new PurchaseBillError(`${l.itemName}: the manufacturing date must be before the expiry date.`);
+    }
+  }
+  if ((input.discount ?? 0) < 0 || (input.freight ?? 0) < 0) throw new PurchaseBillError("Freight and discount can't be negative.");
+
+  const [supplier, company, bills, legacy] = await Promise.all([
+    getRecord("suppliers", input.supplierId),
+    loadCompany(),
+    listRecords("purchaseBills", { where: [["supplierId", "==", input.supplierId]] }),
+    listRecords("purchases", { where: [["supplierId", "==", input.supplierId]] }),
+  ]);
+  const key = billNo.toLowerCase();
+  if ([...bills.map((b) => b.billNo), ...legacy.map((p) => p.invoiceNo)].some((no) => no.trim().toLowerCase() === key)) {
+    throw new PurchaseBillError(`Bill ${billNo} from ${input.supplierName} is already booked.`);
+  }
+
+  const supplierGstin = (supplier?.gst || "").trim().toUpperCase() || undefined;
+  const taxType = taxTypeFor(stateCodeFromGstin(supplierGstin), companyStateCode(company));
+  const priced = priceBill(
+    lines.map((l) => ({ ...l, lotNo: l.lotNo?.trim() || undefined })),
+    input,
+    taxType
+  );
+  if (priced.discount > priced.subtotal) throw new PurchaseBillError("The discount can't be more than the bill value.");
+
+  const rawIds = new Map<string, string>();
+  for (const code of new Set(lines.filter(stocksIn).map((l) => l.itemCode))) {
+    const [item] = await listRecords("rawInventory", { where: [["itemCode", "==", code]] });
+    if (item) rawIds.set(code, item.id);
+  }
+
+  return {
+    bill: {
+      billNo,
+      billDate: input.billDate,
+      dueDate: input.dueDate || undefined,
+      supplierId: input.supplierId,
+      supplierName: supplier?.name || input.supplierName,
+      supplierGstin,
+      taxType,
+      notes: input.notes?.trim() || undefined,
+      ...priced,
+    },
+    rawIds,
+  };
+}
+
+/**
+ * Saves a prepared bill inside a transaction: the bill, stock and a lot for each line bought
+ * directly, and its journal. Reads come first, so call it before the transaction's other writes.
+ */
+export async function savePurchaseBill(tx: RecordTransaction, { bill, rawIds }: PreparedPurchaseBill): Promise<string> {
+  const stocked = bill.items.filter(stocksIn);
+  const rawItems = new Map<string, RawInventoryRecord | null>();
+  for (const code of new Set(stocked.map((l) => l.itemCode))) {
+    const id = rawIds.get(code);
+    rawItems.set(code, id ? await tx.get("rawInventory", id) : null);
+  }
+
+  const billId = tx.create("purchaseBills", bill);
+  const source: MovementSource = { date: bill.billDate, movementType: "purchase", sourceType: "purchaseBill", sourceId: billId, reference: bill.billNo };
+  const rawItemIds = new Map<string, string>();
+  for (const [itemCode, item] of rawItems) {
+    const mine = stocked.filter((l) => l.itemCode === itemCode);
+    const quantity = Math.round(mine.reduce((sum, l) => sum + l.quantity, 0) * 1000) / 1000;
+    const { itemName, unit } = mine[0];
+    rawItemIds.set(itemCode, receiveRawStock(tx, item, { itemCode, itemName, supplierName: bill.supplierName, quantity, unit }, source));
+  }
+  for (const line of stocked) {
+    tx.create("rawLots", {
+      rawItemId: rawItemIds.get(line.itemCode)!,
+      rawItemName: line.itemName,
+      lotNo: line.lotNo ?? "",
+      manufacturingDate: line.manufacturingDate,
+      expiryDate: line.expiryDate,
+      receivedDate: bill.billDate,
+      quantityReceived: line.quantity,
+      quantityRemaining: line.quantity,
+      unit: line.unit,
+      supplierName: bill.supplierName,
+      purchaseBillId: billId,
+    });
+  }
+
+  postJournal(tx, "purchaseBill", billId, purchaseBillJournal({ ...bill, id: billId }));
+  return billId;
+}
+
+/** Books a supplier's bill; returns its total. */
+export async function createPurchaseBill(input: NewPurchaseBill): Promise<number> {
+  const prepared = await preparePurchaseBill(input);
+  await runRecordTransaction((tx) => savePurchaseBill(tx, prepared));
+  return prepared.bill.total;
+}
+
+export interface LegacyPurchaseBill extends PurchaseBillRecord {
+  /** The one-item purchase rows the bill was grouped from. */
+  purchaseIds: string[];
+}
+
+/**
+ * Groups purchase rows that share a supplier and invoice number into bills. The bill takes the
+ * first row's id, so payments recorded against any of its rows can be found by `purchaseIds`.
+ */
+export function legacyPurchaseBills(purchases: PurchaseRecord[]): LegacyPurchaseBill[] {
+  const groups = new Map<string, PurchaseRecord[]>();
+  for (const p of purchases) {
+    const key = `${p.supplierId}|${p.invoiceNo.trim().toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), p]);
+  }
+
+  return [...groups.values()].map((rows) => {
+    const items = rows.map((p) => {
+      const amount = round2(purchaseAmount(p));
+      const taxed = purchaseInputTax(p, undefined);
+      const taxable = taxed?.taxable ?? amount;
+      const tax = round2(amount - taxable);
+      const cgst = round2(tax / 2);
+      return {
+        itemId: p.itemId,
+        itemCode: p.itemCode,
+        itemName: p.itemName,
+        unit: p.unit,
+        quantity: p.quantity,
+        rate: p.invoicePrice || p.totalPrice,
+        tax: taxable > 0 ? round2((tax / taxable) * 100) : 0,
+        discount: 0,
+        taxable,
+        cgst,
+        sgst: round2(tax - cgst),
+        igst: 0,
+        freight: 0,
+        landedCost: taxable,
+        lotNo: p.lotNo,
+        manufacturingDate: p.manufacturingDate,
+        expiryDate: p.expiryDate,
+      };
+    });
+    const sum = (pick: (l: PurchaseBillLine) => number) => round2(items.reduce((s, l) => s + pick(l), 0));
+    const first = rows[0];
+    return {
+      id: first.id,
+      purchaseIds: rows.map((p) => p.id),
+      billNo: first.invoiceNo,
+      billDate: first.date,
+      supplierId: first.supplierId,
+      supplierName: first.supplierName,
+      taxType: "CGST / SGST" as const,
+      items,
+      subtotal: sum((l) => l.taxable),
+      discount: 0,
+      taxable: sum((l) => l.taxable),
+      cgst: sum((l) => l.cgst),
+      sgst: sum((l) => l.sgst),
+      igst: 0,
+      freight: 0,
+      total: round2(rows.reduce((s, p) => s + purchaseAmount(p), 0)),
+      createdAt: first.createdAt,
+      updatedAt: first.updatedAt,
+    };
+  });
+}
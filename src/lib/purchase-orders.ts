@@ -0,0 +1,537 @@
+import { nextDocumentNumber } from "@/lib/numbering";
+import { preparePurchaseBill, savePurchaseBill } from "@/lib/purchase-bills";
+import { getRecord, listRecords, runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import type {
+  GoodsReceiptLine,
+  GoodsReceiptRecord,
+  PurchaseOrderLine,
+  PurchaseOrderRecord,
+  PurchaseOrderStatus,
+  RawInventoryRecord,
+} from "@/lib/schemas";
+import { receiveRawStock, type MovementSource } from "@/lib/stock";
+
+// Purchase orders to suppliers, goods receipt notes against them, and the three-way match that
+// books the supplier's invoice. A GRN takes accepted goods into raw stock straight away (with
+// a lot per line); goods on QC hold wait on the GRN until QC releases or rejects them. Nothing
+// reaches payables until the supplier's invoice is matched against the order's rates and the
+// quantities actually accepted; it is then booked as a purchase bill like any other.
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+export class ThreeWayMatchError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join(" "));
+    this.name = "ThreeWayMatchError";
+  }
+}
+
+/** Billed rates may differ from the order by this fraction before the match flags them. */
+export const RATE_TOLERANCE = 0.01;
+
+const round2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+const round3 = (n: number) => Math.round((Number(n) || 0) * 1000) / 1000;
+
+/** Still to come on a line; rejected goods don't count, so the supplier can replace them. */
+export const pendingQuantity = (line: PurchaseOrderLine) => round3(Math.max(line.quantity - line.receivedQuantity, 0));
+
+/** Accepted on a GRN line but not yet on a supplier invoice. */
+export const billableQuantity = (line: GoodsReceiptLine) => round3(Math.max(line.acceptedQuantity - line.billedQuantity, 0));
+
+export const lineValue = (line: Pick<PurchaseOrderLine, "quantity" | "rate" | "tax">) =>
+  round2(line.quantity * line.rate * (1 + line.tax / 100));
+
+/** Closed and Cancelled are set by hand and stay; otherwise the status follows the lines. */
+export function purchaseOrderStatus(order: Pick<PurchaseOrderRecord, "items" | "status">): PurchaseOrderStatus {
+  if (order.status === "Closed" || order.status === "Cancelled") return order.status;
+  const lines = order.items.filter((l) => l.quantity > 0);
+  if (lines.length && lines.every((l) => l.receivedQuantity >= l.quantity)) return "Received";
+  if (lines.some((l) => l.receivedQuantity > 0)) return "Partly Received";
+  return "Open";
+}
+
+/** Orders that can still take goods receipts. */
+export const isPurchaseOrderOpen = (order: Pick<PurchaseOrderRecord, "items" | "status">) =>
+  ["Open", "Partly Received"].includes(purchaseOrderStatus(order));
+
+export interface NewPurchaseOrder {
+  poDate: string;
+  supplierId: string;
+  supplierName: string;
+  expectedDate?: string;
+  items: Pick<PurchaseOrderLine, "itemId" | "itemCode" | "itemName" | "unit" | "quantity" | "rate" | "tax">[];
+  notes?: string;
+  branch?: string;
+}
+
+/** Saves a purchase order; returns its number. */
+export async function createPurchaseOrder(order: NewPurchaseOrder): Promise<string> {
+  if (!order.supplierId) throw new PurchaseOrderError("Select a supplier.");
+  const items = order.items
+    .filter((l) => l.itemId && l.quantity > 0)
+    .map((l) => ({ ...l, receivedQuantity: 0, rejectedQuantity: 0, billedQuantity: 0 }));
+  if (!items.length) throw new PurchaseOrderError("Add at least one item with a quantity.");
+  if (order.expectedDate && order.expectedDate < order.poDate) {
+    throw new PurchaseOrderError("The expected date can't be before the order date.");
+  }
+
+  return runRecordTransaction(async (tx) => {
+    const poNo = await nextDocumentNumber(tx, "purchaseOrder", order.poDate, order.branch);
+    tx.create("purchaseOrders", {
+      poNo,
+      poDate: order.poDate,
+      supplierId: order.supplierId,
+      supplierName: order.supplierName,
+      expectedDate: order.expectedDate || undefined,
+      items,
+      total: round2(items.reduce((sum, l) => sum + lineValue(l), 0)),
+      status: "Open",
+      notes: order.notes,
+      branch: order.branch,
+    });
+    return poNo;
+  });
+}
+
+/** Closes an order early; nothing more can be received against it. */
+export async function closePurchaseOrder(orderId: string): Promise<void> {
+  await runRecordTransaction(async (tx) => {
+    const order = await tx.get("purchaseOrders", orderId);
+    if (!order) throw new PurchaseOrderError("This purchase order no longer exists.");
+    if (!isPurchaseOrderOpen(order)) {
+      throw new PurchaseOrderError(`Purchase order ${order.poNo} is already ${purchaseOrderStatus(order).toLowerCase()}.`);
+    }
+    tx.update("purchaseOrders", order.id, { status: order.items.some((l) => l.receivedQuantity > 0) ? "Closed" : "Cancelled" });
+  });
+}
+
+/** Raw items by code, for the transaction to re-read. */
+async function findRawItems(codes: Iterable<string>): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  for (const code of new Set(codes)) {
+    const [item] = await listRecords("rawInventory", { where: [["itemCode", "==", code]] });
+    if (item) ids.set(code, item.id);
+  }
+  return ids;
+}
+
+/** Reads the raw items the receipts go into, by item code. Call before any write. */
+async function readRawItems(
+  tx: RecordTransaction,
+  rawIds: Map<string, string>,
+  codes: Iterable<string>
+): Promise<Map<string, RawInventoryRecord | null>> {
+  const items = new Map<string, RawInventoryRecord | null>();
+  for (const code of new Set(codes)) {
+    const id = rawIds.get(code);
+    items.set(code, id ? await tx.get("rawInventory", id) : null);
+  }
+  return items;
+}
+
+type LotFields = Pick<GoodsReceiptLine, "itemCode" | "itemName" | "unit" | "lotNo" | "manufacturingDate" | "expiryDate">;
+
+/** Brings accepted goods into raw stock: one stock change per item and one lot per line. */
+function stockIn(
+  tx: RecordTransaction,
+  rawItems: Map<string, RawInventoryRecord | null>,
+  grn: Pick<GoodsReceiptRecord, "id" | "grnNo" | "supplierName">,
+  date: string,
+  receipts: { line: LotFields; quantity: number }[]
+) {
+  const source: MovementSource = { date, movementType: "purchase", sourceType: "goodsReceipt", sourceId: grn.id, reference: grn.grnNo };
+  const rawItemIds = new Map<string, string>();
+  for (const [itemCode, item] of rawItems) {
+    const mine = receipts.filter((r) => r.line.itemCode === itemCode);
+    if (!mine.length) continue;
+    const quantity = round3(mine.reduce((sum, r) => sum + r.quantity, 0));
+    const { itemName, unit } = mine[0].line;
+    rawItemIds.set(itemCode, receiveRawStock(tx, item, { itemCode, itemName, supplierName: grn.supplierName, quantity, unit }, source));
+  }
+
+  for (const { line, quantity } of receipts) {
+    tx.create("rawLots", {
+      rawItemId: rawItemIds.get(line.itemCode)!,
+      rawItemName: line.itemName,
+      lotNo: line.lotNo ?? "",
+      manufacturingDate: line.manufacturingDate,
+      expiryDate: line.expiryDate,
+      receivedDate: date,
+      quantityReceived: quantity,
+      quantityRemaining: quantity,
+      unit: line.unit,
+      supplierName: grn.supplierName,
+      goodsReceiptId: grn.id,
+    });
+  }
+}
+
+export interface ReceivedLine {
+  /** Index of the purchase order line. */
+  orderLine: number;
+  /** Everything that arrived, including what was rejected. */
+  receivedQuantity: number;
+  rejectedQuantity?: number;
+  /** Kept but waiting on QC; stays out of stock until released. */
+  heldQuantity?: number;
+  lotNo: string;
+  manufacturingDate?: string;
+  expiryDate: string;
+}
+
+export interface NewGoodsReceipt {
+  grnDate: string;
+  deliveryNoteNo?: string;
+  vehicleNo?: string;
+  lines: ReceivedLine[];
+  notes?: string;
+}
+
+/**
+ * Records a delivery against an open purchase order; returns the GRN number. Rejected goods
+ * go back to the supplier and stay pending on the order; accepted goods enter raw stock.
+ */
+export async function receiveGoods(orderId: string, receipt: NewGoodsReceipt): Promise<string> {
+  const order = await getRecord("purchaseOrders", orderId);
+  if (!order) throw new PurchaseOrderError("This purchase order no longer exists.");
+  const rawIds = await findRawItems(order.items.map((l) => l.itemCode));
+
+  return runRecordTransaction(async (tx) => {
+    const current = await tx.get("purchaseOrders", orderId);
+    if (!current) throw new PurchaseOrderError("This purchase order no longer exists.");
+    if (!isPurchaseOrderOpen(current)) {
+      throw new PurchaseOrderError(`Purchase order ${current.poNo} is ${purchaseOrderStatus(current).toLowerCase()}.`);
+    }
+
+    const lines: GoodsReceiptLine[] = [];
+    for (const r of receipt.lines) {
+      const received = round3(r.receivedQuantity);
+      if (received <= 0) continue;
+      const line = current.items[r.orderLine];
+      if (!line) throw new PurchaseOrderError("A received line is not on this purchase order.");
+      const rejected = round3(r.rejectedQuantity);
+      const held = round3(r.heldQuantity);
+      if (rejected < 0 || held < 0 || rejected + held > received) {
+        throw new PurchaseOrderError(`Rejected and held quantities of ${line.itemName} can't exceed what was received.`);
+      }
+      const kept = round3(received - rejected);
+      const earlier = lines.filter((l) => l.orderLine === r.orderLine).reduce((sum, l) => sum + l.receivedQuantity - l.rejectedQuantity, 0);
+      const pending = round3(pendingQuantity(line) - earlier);
+      if (kept > pending) {
+        throw new PurchaseOrderError(`Only ${pending} ${line.unit} of ${line.itemName} is pending on this order.`);
+      }
+      if (kept > 0 && (!r.lotNo?.trim() || !r.expiryDate)) {
+        throw new PurchaseOrderError(`Enter the supplier batch number and expiry date for ${line.itemName}.`);
+      }
+      if (r.manufacturingDate && r.expiryDate && r.manufacturingDate > r.expiryDate) {
+        throw new PurchaseOrderError(`The manufacturing date of ${line.itemName} must be before its expiry date.`);
+      }
+      lines.push({
+        orderLine: r.orderLine,
+        itemId: line.itemId,
+        itemCode: line.itemCode,
+        itemName: line.itemName,
+        unit: line.unit,
+        receivedQuantity: received,
+        acceptedQuantity: round3(kept - held),
+        rejectedQuantity: rejected,
+        heldQuantity: held,
+        billedQuantity: 0,
+        lotNo: r.lotNo?.trim() || undefined,
+        manufacturingDate: r.manufacturingDate || undefined,
+        expiryDate: r.expiryDate || undefined,
+      });
+    }
+    if (!lines.length) throw new PurchaseOrderError("Enter a received quantity.");
+
+    const accepted = lines.filter((l) => l.acceptedQuantity > 0);
+    const rawItems = await readRawItems(tx, rawIds, accepted.map((l) => l.itemCode));
+    const grnNo = await nextDocumentNumber(tx, "goodsReceipt", receipt.grnDate, current.branch);
+
+    const grnId = tx.create("goodsReceipts", {
+      grnNo,
+      grnDate: receipt.grnDate,
+      purchaseOrderId: current.id,
+      poNo: current.poNo,
+      supplierId: current.supplierId,
+      supplierName: current.supplierName,
+      deliveryNoteNo: receipt.deliveryNoteNo?.trim() || undefined,
+      vehicleNo: receipt.vehicleNo?.trim() || undefined,
+      items: lines,
+      notes: receipt.notes,
+      branch: current.branch,
+    });
+    stockIn(
+      tx,
+      rawItems,
+      { id: grnId, grnNo, supplierName: current.supplierName },
+      receipt.grnDate,
+      accepted.map((line) => ({ line, quantity: line.acceptedQuantity }))
+    );
+
+    const items = current.items.map((line, index) => {
+      const mine = lines.filter((l) => l.orderLine === index);
+      if (!mine.length) return line;
+      const rejected = mine.reduce((sum, l) => sum + l.rejectedQuantity, 0);
+      const kept = mine.reduce((sum, l) => sum + l.receivedQuantity - l.rejectedQuantity, 0);
+      return {
+        ...line,
+        receivedQuantity: round3(line.receivedQuantity + kept),
+        rejectedQuantity: round3(line.rejectedQuantity + rejected),
+      };
+    });
+    tx.update("purchaseOrders", current.id, { items, status: purchaseOrderStatus({ ...current, items }) });
+    return grnNo;
+  });
+}
+
+/**
+ * Ends QC hold on a GRN line, in part or in full. Released goods enter raw stock as of
+ * `date`; rejected goods go back to the supplier and are pending again on the order.
+ */
+export async function releaseQcHold(
+  grnId: string,
+  lineIndex: number,
+  decision: { acceptedQuantity: number; rejectedQuantity: number; date: string }
+): Promise<void> {
+  const grn = await getRecord("goodsReceipts", grnId);
+  const line = grn?.items[lineIndex];
+  if (!grn || !line) throw new PurchaseOrderError("This goods receipt line no longer exists.");
+  const rawIds = await findRawItems([line.itemCode]);
+
+  await runRecordTransaction(async (tx) => {
+    const current = await tx.get("goodsReceipts", grnId);
+    const held = current?.items[lineIndex];
+    if (!current || !held) throw new PurchaseOrderError("This goods receipt line no longer exists.");
+    const accepted = round3(decision.acceptedQuantity);
+    const rejected = round3(decision.rejectedQuantity);
+    if (accepted < 0 || rejected < 0 || accepted + rejected <= 0) throw new PurchaseOrderError("Enter a quantity to release or reject.");
+    if (accepted + rejected > held.heldQuantity) {
+      throw new PurchaseOrderError(`Only ${held.heldQuantity} ${held.unit} of ${held.itemName} is on QC hold.`);
+    }
+    const order = await tx.get("purchaseOrders", current.purchaseOrderId);
+    const rawItems = accepted > 0 ? await readRawItems(tx, rawIds, [held.itemCode]) : new Map<string, RawInventoryRecord | null>();
+
+    const items = current.items.map((l, index) =>
+      index === lineIndex
+        ? {
+            ...l,
+            acceptedQuantity: round3(l.acceptedQuantity + accepted),
+            rejectedQuantity: round3(l.rejectedQuantity + rejected),
+            heldQuantity: round3(l.heldQuantity - accepted - rejected),
+          }
+        : l
+    );
+    tx.update("goodsReceipts", current.id, { items });
+    if (accepted > 0) stockIn(tx, rawItems, current, decision.date, [{ line: held, quantity: accepted }]);
+
+    if (order && rejected > 0) {
+      const orderItems = order.items.map((l, index) =>
+        index === held.orderLine
+          ? {
+              ...l,
+              receivedQuantity: round3(Math.max(l.receivedQuantity - rejected, 0)),
+              rejectedQuantity: round3(l.rejectedQuantity + rejected),
+            }
+          : l
+      );
+      tx.update("purchaseOrders", order.id, { items: orderItems, status: purchaseOrderStatus({ ...order, items: orderItems }) });
+    }
+  });
+}
+
+export interface SupplierInvoiceLine {
+  goodsReceiptId: string;
+  /** Index of the line on the GRN. */
+  grnLine: number;
+  quantity: number;
+  /** Billed price per unit before GST. */
+  rate: number;
+  tax: number;
+}
+
+export interface MatchProblem {
+  /** Quantity problems always block booking; rate and tax variances can be accepted. */
+  kind: "quantity" | "rate" | "tax";
+  message: string;
+}
+
+/**
+ * Checks a supplier invoice against the goods receipts it bills and their purchase orders:
+ * quantities against what was accepted and not yet billed, rates and GST against the order.
+ */
+export function threeWayMatch(
+  receipts: GoodsReceiptRecord[],
+  orders: PurchaseOrderRecord[],
+  lines: SupplierInvoiceLine[]
+): MatchProblem[] {
+  const problems: MatchProblem[] = [];
+  const billed = new Map<string, number>();
+  for (const l of lines) {
+    const grn = receipts.find((r) => r.id === l.goodsReceiptId);
+    const line = grn?.items[l.grnLine];
+    if (!grn || !line) {
+      problems.push({ kind: "quantity", message: "A billed line is not on any selected goods receipt." });
+      continue;
+    }
+    const key = `${grn.id}:${l.grnLine}`;
+    const quantity = round3((billed.get(key) ?? 0) + l.quantity);
+    billed.set(key, quantity);
+    if (quantity > billableQuantity(line)) {
+      problems.push({
+        kind: "quantity",
+        message: `${line.itemName} on ${grn.grnNo}: billed ${quantity} ${line.unit} but only ${billableQuantity(line)} was accepted and not yet billed.`,
+      });
+    }
+
+    const ordered = orders.find((o) => o.id === grn.purchaseOrderId)?.items[line.orderLine];
+    if (!ordered) continue;
+    if (Math.abs(l.rate - ordered.rate) > ordered.rate * RATE_TOLERANCE) {
+      problems.push({ kind: "rate", message: `${line.itemName}: billed at ${l.rate} against ${ordered.rate} on ${grn.poNo}.` });
+    }
+    if (l.tax !== ordered.tax) {
+      problems.push({ kind: "tax", message: `${line.itemName}: GST ${l.tax}% billed against ${ordered.tax}% on ${grn.poNo}.` });
+    }
+  }
+  return problems;
+}
+
+export interface SupplierInvoice {
+  invoiceNo: string;
+  date: string;
+  dueDate?: string;
+  lines: SupplierInvoiceLine[];
+  freight?: number;
+  discount?: number;
+  /** Book despite rate or GST differences from the order. */
+  acceptVariance?: boolean;
+}
+
+/**
+ * Books a supplier's invoice against goods receipts after the three-way match, as one purchase
+ * bill posted to payables. The goods are already in stock from the GRN, so none moves here.
+ * Returns the bill total.
+ */
+export async function bookSupplierInvoice(invoice: SupplierInvoice): Promise<number> {
+  const lines = invoice.lines.filter((l) => l.quantity > 0);
+  if (!lines.length) throw new PurchaseOrderError("Enter a quantity to bill.");
+
+  const grnIds = [...new Set(lines.map((l) => l.goodsReceiptId))];
+  const receipts = await Promise.all(grnIds.map((id) => getRecord("goodsReceipts", id)));
+  if (receipts.some((r) => !r)) throw new PurchaseOrderError("A selected goods receipt no longer exists.");
+  const [first] = receipts;
+  if (receipts.some((r) => r.supplierId !== first.supplierId)) {
+    throw new PurchaseOrderError("Goods receipts on one invoice must be from the same supplier.");
+  }
+  const prepared = await preparePurchaseBill({
+    billNo: invoice.invoiceNo,
+    billDate: invoice.date,
+    dueDate: invoice.dueDate,
+    supplierId: first.supplierId,
+    supplierName: first.supplierName,
+    discount: invoice.discount,
+    freight: invoice.freight,
+    items: lines.map((l) => {
+      const grn = receipts.find((r) => r.id === l.goodsReceiptId)!;
+      const line = grn.items[l.grnLine];
+      if (!line) throw new PurchaseOrderError(`${grn.grnNo} has no line ${l.grnLine + 1}.`);
+      return {
+        itemId: line.itemId,
+        itemCode: line.itemCode,
+        itemName: line.itemName,
+        unit: line.unit,
+        quantity: l.quantity,
+        rate: l.rate,
+        tax: l.tax,
+        lotNo: line.lotNo,
+        manufacturingDate: line.manufacturingDate,
+        expiryDate: line.expiryDate,
+        purchaseOrderId: grn.purchaseOrderId,
+        goodsReceiptId: grn.id,
+        grnLine: l.grnLine,
+      };
+    }),
+  });
+
+  return runRecordTransaction(async (tx) => {
+    const receipts: GoodsReceiptRecord[] = [];
+    for (const id of grnIds) {
+      const grn = await tx.get("goodsReceipts", id);
+      if (!grn) throw new PurchaseOrderError("A selected goods receipt no longer exists.");
+      receipts.push(grn);
+    }
+    const orders: PurchaseOrderRecord[] = [];
+    for (const id of new Set(receipts.map((r) => r.purchaseOrderId))) {
+      const order = await tx.get("purchaseOrders", id);
+      if (order) orders.push(order);
+    }
+
+    const blocking = threeWayMatch(receipts, orders, lines).filter((p) => p.kind === "quantity" || !invoice.acceptVariance);
+    if (blocking.length) throw new ThreeWayMatchError(blocking.map((p) => p.message));
+
+    await savePurchaseBill(tx, prepared);
+
+    const billedOnOrders = new Map<string, number>();
+    for (const l of lines) {
+      const grn = receipts.find((r) => r.id === l.goodsReceiptId)!;
+      const key = `${grn.purchaseOrderId}:${grn.items[l.grnLine].orderLine}`;
+      billedOnOrders.set(key, (billedOnOrders.get(key) ?? 0) + l.quantity);
+    }
+    for (const grn of receipts) {
+      const items = grn.items.map((line, index) => {
+        const quantity = lines.filter((l) => l.goodsReceiptId === grn.id && l.grnLine === index).reduce((sum, l) => sum + l.quantity, 0);
+        return quantity ? { ...line, billedQuantity: round3(line.billedQuantity + quantity) } : line;
+      });
+      tx.update("goodsReceipts", grn.id, { items });
+    }
+    for (const order of orders) {
+      const items = order.items.map((line, index) => {
+        const quantity = billedOnOrders.get(`${order.id}:${index}`);
+        return quantity ? { ...line, billedQuantity: round3(line.billedQuantity + quantity) } : line;
+      });
+      tx.update("purchaseOrders", order.id, { items });
+    }
+    return prepared.bill.total;
+  });
+}
+
+export interface OpenPurchaseOrderLine extends Record<string, unknown> {
+  poNo: string;
+  poDate: string;
+  expectedDate: string;
+  item: string;
+  unit: string;
+  ordered: number;
+  received: number;
+  pending: number;
+  rate: number;
+  pendingValue: number;
+}
+
+/** Lines still to be delivered on open purchase orders, oldest order first. */
+export function openPurchaseOrderLines(orders: PurchaseOrderRecord[]): OpenPurchaseOrderLine[] {
+  return orders
+    .filter(isPurchaseOrderOpen)
+    .sort((a, b) => a.poDate.localeCompare(b.poDate))
+    .flatMap((order) =>
+      order.items
+        .filter((line) => pendingQuantity(line) > 0)
+        .map((line) => ({
+          poNo: order.poNo,
+          poDate: order.poDate,
+          expectedDate: order.expectedDate ?? "",
+          item: line.itemName,
+          unit: line.unit,
+          ordered: line.quantity,
+          received: line.receivedQuantity,
+          pending: pendingQuantity(line),
+          rate: line.rate,
+          pendingValue: lineValue({ ...line, quantity: pendingQuantity(line) }),
+        }))
+    );
+}
@@ -0,0 +1,151 @@
+import { BatchStateError, findProcessedItemId, InsufficientStockError } from "@/lib/production";
+import { getRecord, putRecord, runRecordTransaction } from "@/lib/repository";
+import type {
+  BatchRecord,
+  ProcessedInventoryRecord,
+  QcParameter,
+  QcResult,
+  QcSpecificationRecord,
+  QcTestStatus,
+} from "@/lib/schemas";
+import { applyStockChange, round3, today } from "@/lib/stock";
+
+// Quality control for finished batches. Approving a batch puts its output in quarantine
+// (see receiveFinishedGoods); QC results then release it for sale or reject it, which
+// writes the output off.
+
+/** Parameters most product specifications start from. */
+export const DEFAULT_QC_PARAMETERS: QcParameter[] = [
+  { name: "Assay", unit: "%", min: 98, max: 102 },
+  { name: "Loss on drying (moisture)", unit: "%", max: 0.5 },
+  { name: "pH", unit: "", min: 5, max: 7 },
+  { name: "Total aerobic microbial count", unit: "cfu/g", max: 1000 },
+  { name: "Total yeast & mould count", unit: "cfu/g", max: 100 },
+];
+
+export function specificationText(param: Pick<QcParameter, "min" | "max" | "unit">): string {
+  const unit = param.unit ? ` ${param.unit}` : "";
+  if (param.min !== undefined && param.max !== undefined) return `${param.min} - ${param.max}${unit}`;
+  if (param.min !== undefined) return `NLT ${param.min}${unit}`;
+  if (param.max !== undefined) return `NMT ${param.max}${unit}`;
+  return "Report";
+}
+
+export function evaluateResult(param: QcParameter, value: number | undefined): boolean {
+  if (value === undefined || !Number.isFinite(value)) return false;
+  if (param.min !== undefined && value < param.min) return false;
+  if (param.max !== undefined && value > param.max) return false;
+  return true;
+}
+
+/** Judges each result against the spec. Pending until every parameter has a value. */
+export function evaluateTest(
+  parameters: QcParameter[],
+  values: (number | undefined)[]
+): { results: QcResult[]; status: QcTestStatus } {
+  const results = parameters.map((param, i) => ({ ...param, value: values[i], passed: evaluateResult(param, values[i]) }));
+  const status: QcTestStatus = !results.length || results.some((r) => r.value === undefined)
+    ? "pending"
+    : results.every((r) => r.passed)
+      ? "passed"
+      : "failed";
+  return { results, status };
+}
+
+export function findSpecification(specs: QcSpecificationRecord[], productName: string | undefined) {
+  const name = productName?.trim().toLowerCase();
+  return name ? specs.find((s) => s.productName.trim().toLowerCase() === name) : undefined;
+}
+
+/** Stock that may be invoiced: everything not held in quarantine or reserved for a sales order. */
+export function saleableQuantity(
+  item: Pick<ProcessedInventoryRecord, "quantity" | "quarantineQuantity"> & Partial<Pick<ProcessedInventoryRecord, "reservedQuantity">>
+): number {
+  return Math.max(item.quantity - (item.quarantineQuantity || 0) - (item.reservedQuantity || 0), 0);
+}
+
+/**
+ * Throws unless `item` can supply `needed` units for sale, naming the stock held back in
+ * quarantine or for sales orders. `returning` is stock the caller puts back in the same
+ * transaction, such as what an older quotation took.
+ */
+export function assertSaleable(item: ProcessedInventoryRecord, needed: number, returning = 0): void {
+  const available = round3(saleableQuantity(item) + returning);
+  if (available >= needed) return;
+  const heldBack = [
+    item.quarantineQuantity && `${item.quarantineQuantity} more in QC quarantine`,
+    item.reservedQuantity && `${item.reservedQuantity} reserved for sales orders`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  throw new InsufficientStockError(item.name || item.id, available, needed, heldBack);
+}
+
+export async function saveQcResults(
+  batch: BatchRecord,
+  spec: QcSpecificationRecord | undefined,
+  values: (number | undefined)[],
+  meta: { testedBy?: string; testedDate?: string; remarks?: string }
+): Promise<QcTestStatus> {
+  if (batch.qcStatus !== "quarantine") throw new BatchStateError("Only batches in quarantine can be tested.");
+  if (!spec?.parameters.length) {
+    throw new BatchStateError(`Add a QC specification for ${batch.producedItemName || "this product"} first.`);
+  }
+  const { results, status } = evaluateTest(spec.parameters, values);
+  await putRecord("qcTests", batch.id, {
+    batchId: batch.id,
+    batchNo: batch.batchNo,
+    productName: batch.producedItemName ?? "",
+    specificationId: spec.id,
+    results,
+    status,
+    testedBy: meta.testedBy,
+    testedDate: meta.testedDate || today(),
+    remarks: meta.remarks,
+  });
+  return status;
+}
+
+/**
+ * Ends a batch's quarantine. Released output becomes saleable; rejected output is written
+ * off finished goods. Release needs a passed test; rejection doesn't.
+ */
+export async function decideQc(batchId: string, decision: "released" | "rejected", decidedBy: string): Promise<void> {
+  const batch = await getRecord("batches", batchId);
+  const producedId = batch?.producedItemName ? await findProcessedItemId(batch.producedItemName) : null;
+
+  await runRecordTransaction(async (tx) => {
+    const current = await tx.get("batches", batchId);
+    if (!current) throw new BatchStateError("This batch no longer exists.");
+    if (current.qcStatus !== "quarantine") throw new BatchStateError(`Batch ${current.batchNo} is not in quarantine.`);
+
+    const test = await tx.get("qcTests", batchId);
+    if (decision === "released" && test?.status !== "passed") {
+      throw new BatchStateError("Enter passing QC results before releasing the batch.");
+    }
+
+    const produced = producedId ? await tx.get("processedInventory", producedId) : null;
+    const output = current.actualOutputQuantity || 0;
+    const date = today();
+
+    if (produced && output > 0) {
+      const quarantineQuantity = Math.max(produced.quarantineQuantity - output, 0);
+      if (decision === "released") {
+        tx.update("processedInventory", produced.id, { quarantineQuantity });
+      } else {
+        const source = {
+          date,
+          movementType: "adjustment" as const,
+          sourceType: "batch",
+          sourceId: batchId,
+          reference: current.batchNo,
+          notes: "Rejected by QC",
+        };
+        applyStockChange(tx, "processed", produced, -Math.min(output, produced.quantity), source, { quarantineQuantity });
+      }
+    }
+
+    tx.update("batches", batchId, { qcStatus: decision });
+    if (test) tx.update("qcTests", batchId, { decidedBy: decidedBy || undefined, decidedDate: date });
+  });
+}
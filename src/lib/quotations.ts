@@ -0,0 +1,29 @@
+import { runRecordTransaction } from "@/lib/repository";
+import { applyStockChange, heldStock, today } from "@/lib/stock";
+
+// A quotation is only an offer and moves no stock. Quotations saved before sales orders existed
+// took their goods out when saved; what one still holds is read back from the movement log.
+
+/** Deletes a quotation and returns any goods an older quotation took out of stock. */
+export async function deleteQuotation(id: string): Promise<void> {
+  const held = await heldStock("quotation", id);
+  await runRecordTransaction(async (tx) => {
+    const quotation = await tx.get("quotations", id);
+    if (!quotation) return;
+    const items = [];
+    for (const itemId of held.keys()) {
+      const item = await tx.get("processedInventory", itemId);
+      if (item) items.push(item);
+    }
+    tx.delete("quotations", id);
+    for (const item of items) {
+      applyStockChange(tx, "processed", item, held.get(item.id)!, {
+        date: today(),
+        movementType: "reversal",
+        sourceType: "quotation",
+        sourceId: id,
+        reference: quotation.quotationNo,
+      });
+    }
+  });
+}
@@ -0,0 +1,61 @@
+import type { BatchItem, BatchRecord, RawInventoryRecord, RecipeRecord } from "@/lib/schemas";
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+export function recipeInputTotal(recipe: Pick<RecipeRecord, "items">): number {
+  return recipe.items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+}
+
+/** Yield from the recipe's own quantities, used when no expected yield was entered. */
+export function standardYield(recipe: Pick<RecipeRecord, "items" | "outputQuantity" | "expectedYield">): number {
+  if (recipe.expectedYield > 0) return recipe.expectedYield;
+  const input = recipeInputTotal(recipe);
+  return input > 0 ? (recipe.outputQuantity / input) * 100 : 100;
+}
+
+/** Batch lines for `targetOutput` of the product, with current stock filled in from inventory. */
+export function scaleRecipe(recipe: RecipeRecord, targetOutput: number, inventory: RawInventoryRecord[]): BatchItem[] {
+  const factor = recipe.outputQuantity > 0 ? targetOutput / recipe.outputQuantity : 0;
+  return recipe.items.map((item) => {
+    const stock = inventory.find((inv) => inv.id === item.rawItemId);
+    return {
+      rawItemId: item.rawItemId,
+      rawItemName: stock?.name || item.rawItemName,
+      currentQuantity: stock?.quantity ?? 0,
+      unit: stock?.unit || item.unit,
+      useQuantity: round(item.quantity * factor),
+      lots: [],
+    };
+  });
+}
+
+/** The recipe a batch was made from, or for older batches the one for the same product. */
+export function recipeForBatch(
+  recipes: RecipeRecord[],
+  batch: Pick<BatchRecord, "recipeId" | "producedItemName">
+): RecipeRecord | undefined {
+  if (batch.recipeId) return recipes.find((r) => r.id === batch.recipeId);
+  const name = batch.producedItemName?.trim().toLowerCase();
+  return name ? recipes.find((r) => r.productName.trim().toLowerCase() === name) : undefined;
+}
+
+export interface LossComparison {
+  actualLossPercent: number;
+  standardLossPercent: number;
+  /** Actual minus standard loss, in percentage points. */
+  variance: number;
+  tolerance: number;
+  withinTolerance: boolean;
+}
+
+export function compareWithStandard(
+  recipe: Pick<RecipeRecord, "items" | "outputQuantity" | "expectedYield" | "lossTolerance">,
+  inputQuantity: number,
+  outputQuantity: number
+): LossComparison {
+  const actualLossPercent = inputQuantity > 0 ? ((inputQuantity - outputQuantity) / inputQuantity) * 100 : 0;
+  const standardLossPercent = 100 - standardYield(recipe);
+  const variance = actualLossPercent - standardLossPercent;
+  const tolerance = recipe.lossTolerance || 0;
+  return { actualLossPercent, standardLossPercent, variance, tolerance, withinTolerance: variance <= tolerance };
+}
@@ -0,0 +1,204 @@
+import { auditActor } from "@/lib/audit";
+import {
+  hasCompletedReceipts,
+  InvoiceStateError,
+  invoiceStockDelta,
+  isCancelled,
+  isFromChallans,
+  moveInvoiceStock,
+  readInvoiceStock,
+} from "@/lib/invoices";
+import { journalId } from "@/lib/ledger";
+import { DocumentNotFoundError, listRecords, runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import type { DebitCreditNoteRecord, InvoiceRecord, RecordOf, StockItemType } from "@/lib/schemas";
+import { applyStockChange, noteReturnMovement, stockCollection, type StockItem } from "@/lib/stock";
+
+// Deleting an invoice, party, item or note moves it to the Recycle Bin: the record and the
+// rows that only exist because of it (its journal entry, a note's bank transaction) are
+// stamped with deletedAt, which listRecords hides. Restoring clears the stamps again and
+// purging removes the whole group for good. Goods on a deleted invoice or note go back to
+// stock while it sits in the bin.
+
+export const RECYCLABLE_COLLECTIONS = ["invoices", "debitCreditNotes", "customers", "suppliers", "items"] as const;
+export type RecyclableCollection = (typeof RECYCLABLE_COLLECTIONS)[number];
+
+export const RECYCLABLE_LABELS: Record<RecyclableCollection, string> = {
+  invoices: "Invoice",
+  debitCreditNotes: "Debit/Credit note",
+  customers: "Customer",
+  suppliers: "Supplier",
+  items: "Item",
+};
+
+type DependentCollection = "transactions" | "journalEntries";
+type Dependent = [DependentCollection, string];
+
+const DEPENDENT_COLLECTIONS: DependentCollection[] = ["transactions", "journalEntries"];
+
+const DESCRIBE: { [C in RecyclableCollection]: (record: RecordOf<C>) => string } = {
+  invoices: (x) => `${x.invoiceNo} · ${x.partyName}`,
+  debitCreditNotes: (x) => `${x.noteType} note ${x.noteNo} · ${x.partyName}`,
+  customers: (x) => x.name,
+  suppliers: (x) => x.name,
+  items: (x) => (x.code ? `${x.code} · ${x.name}` : x.name),
+};
+
+export interface RecycleBinEntry {
+  collection: RecyclableCollection;
+  id: string;
+  label: string;
+  deletedAt: Date;
+  deletedBy?: string;
+}
+
+const groupKey = (name: RecyclableCollection, id: string) => `${name}/${id}`;
+
+function dependentsOf(name: RecyclableCollection, record: RecordOf<RecyclableCollection>): Dependent[] {
+  switch (name) {
+    case "invoices":
+      return [["journalEntries", journalId("invoice", record.id)]];
+    case "debitCreditNotes": {
+      const { transactionId } = record as DebitCreditNoteRecord;
+      const journal: Dependent = ["journalEntries", journalId("debitCreditNote", record.id)];
+      return transactionId ? [journal, ["transactions", transactionId]] : [journal];
+    }
+    case "customers":
+      return [["journalEntries", journalId("opening", `customer-${record.id}`)]];
+    case "suppliers":
+      return [["journalEntries", journalId("opening", `supplier-${record.id}`)]];
+    default:
+      return [];
+  }
+}
+
+/** Dependents archived with a record; listed before the transaction like any other query. */
+async function dependentsInBin(name: RecyclableCollection, id: string): Promise<Dependent[]> {
+  const where: [string, "==", string][] = [["deletedWith", "==", groupKey(name, id)]];
+  const found = await Promise.all(
+    DEPENDENT_COLLECTIONS.map(async (dep) =>
+      (await listRecords(dep, { where, includeDeleted: true })).map((row): Dependent => [dep, row.id])
+    )
+  );
+  return found.flat();
+}
+
+interface ReturnedStock {
+  itemType: StockItemType;
+  delta: number;
+  stock: StockItem;
+}
+
+/** Goods returned on a note come off stock while it sits in the bin and go back on restore. */
+async function readReturnedStock(tx: RecordTransaction, note: DebitCreditNoteRecord): Promise<ReturnedStock | null> {
+  const returned = noteReturnMovement(note);
+  const stock = returned ? await tx.get(stockCollection(returned.itemType), note.returnItemId) : null;
+  return stock && returned ? { ...returned, stock } : null;
+}
+
+function moveReturnedStock(
+  tx: RecordTransaction,
+  note: DebitCreditNoteRecord,
+  returned: ReturnedStock,
+  movementType: "return" | "reversal"
+) {
+  const delta = movementType === "return" ? returned.delta : -returned.delta;
+  if (returned.stock.quantity + delta < 0) {
+    throw new Error(`Insufficient stock for ${returned.stock.name}. Available: ${returned.stock.quantity}`);
+  }
+  applyStockChange(tx, returned.itemType, returned.stock, delta, {
+    date: new Date().toISOString().slice(0, 10),
+    movementType,
+    sourceType: "debitCreditNote",
+    sourceId: note.id,
+    reference: note.noteNo,
+  });
+}
+
+/**
+ * Moves a record and its dependents to the Recycle Bin inside the caller's transaction.
+ * Does its own reads, so call it before the transaction writes anything else.
+ */
+async function archiveRecord(tx: RecordTransaction, name: RecyclableCollection, id: string): Promise<void> {
+  const record = await tx.get(name, id);
+  if (!record) throw new DocumentNotFoundError(name, id);
+  if (record.deletedAt) return;
+
+  const dependents: Dependent[] = [];
+  for (const [dep, depId] of dependentsOf(name, record)) {
+    if (await tx.get(dep, depId)) dependents.push([dep, depId]);
+  }
+  const note = name === "debitCreditNotes" ? (record as DebitCreditNoteRecord) : null;
+  const returned = note ? await readReturnedStock(tx, note) : null;
+  if (name === "invoices" && (record as InvoiceRecord).eInvoice) {
+    const { invoiceNo } = record as InvoiceRecord;
+    throw new InvoiceStateError(`Invoice ${invoiceNo} has an IRN; cancel the IRN on the IRP first, then cancel the invoice.`);
+  }
+  const invoice = name === "invoices" && !isCancelled(record as InvoiceRecord) ? (record as InvoiceRecord) : null;
+  if (invoice && isFromChallans(invoice)) {
+    throw new InvoiceStateError(`Invoice ${invoice.invoiceNo} was raised from delivery challans; cancel it instead.`);
+  }
+  const sold = invoice ? await readInvoiceStock(tx, invoiceStockDelta(invoice.items, [])) : [];
+
+  const stamp = { deletedAt: new Date(), deletedBy: auditActor() };
+  tx.update(name, id, stamp);
+  for (const [dep, depId] of dependents) tx.update(dep, depId, { ...stamp, deletedWith: groupKey(name, id) });
+  if (note && returned) moveReturnedStock(tx, note, returned, "reversal");
+  if (invoice) moveInvoiceStock(tx, invoice, sold);
+}
+
+export async function moveToRecycleBin(name: RecyclableCollection, id: string): Promise<void> {
+  if (name === "invoices" && (await hasCompletedReceipts(id))) {
+    throw new InvoiceStateError("Payments are recorded against this invoice; reverse them before deleting it.");
+  }
+  await runRecordTransaction((tx) => archiveRecord(tx, name, id));
+}
+
+export async function restoreRecord(name: RecyclableCollection, id: string): Promise<void> {
+  const dependents = await dependentsInBin(name, id);
+  await runRecordTransaction(async (tx) => {
+    const record = await tx.get(name, id);
+    if (!record?.deletedAt) return;
+    for (const [dep, depId] of dependents) await tx.get(dep, depId);
+    const note = name === "debitCreditNotes" ? (record as DebitCreditNoteRecord) : null;
+    const returned = note ? await readReturnedStock(tx, note) : null;
+    const invoice = name === "invoices" && !isCancelled(record as InvoiceRecord) ? (record as InvoiceRecord) : null;
+    const sold = invoice ? await readInvoiceStock(tx, invoiceStockDelta([], invoice.items)) : [];
+
+    const cleared = { deletedAt: null, deletedBy: null, deletedWith: null };
+    tx.update(name, id, cleared);
+    for (const [dep, depId] of dependents) tx.update(dep, depId, cleared);
+    if (note && returned) moveReturnedStock(tx, note, returned, "return");
+    if (invoice) moveInvoiceStock(tx, invoice, sold);
+  });
+}
+
+/** Deletes a binned record and its dependents permanently. */
+export async function purgeRecord(name: RecyclableCollection, id: string): Promise<void> {
+  const dependents = await dependentsInBin(name, id);
+  await runRecordTransaction(async (tx) => {
+    const record = await tx.get(name, id);
+    if (!record?.deletedAt) throw new Error("Only records in the Recycle Bin can be purged.");
+    for (const [dep, depId] of dependents) await tx.get(dep, depId);
+
+    tx.delete(name, id);
+    for (const [dep, depId] of dependents) tx.delete(dep, depId);
+  });
+}
+
+async function binnedIn<C extends RecyclableCollection>(collection: C): Promise<RecycleBinEntry[]> {
+  const rows = await listRecords(collection, { where: [["deletedAt", ">", new Date(0)]], includeDeleted: true });
+  const describe = DESCRIBE[collection] as (record: RecordOf<C>) => string;
+  return rows.map((row) => ({
+    collection,
+    id: row.id,
+    label: describe(row),
+    deletedAt: row.deletedAt,
+    deletedBy: row.deletedBy,
+  }));
+}
+
+/** Everything in the Recycle Bin, most recently deleted first. */
+export async function listRecycleBin(): Promise<RecycleBinEntry[]> {
+  const groups = await Promise.all(RECYCLABLE_COLLECTIONS.map((collection) => binnedIn(collection)));
+  return groups.flat().sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
@@ -0,0 +1,196 @@
+import { auditEntry, isAudited } from "@/lib/audit";
+import { getStorage, type StorageQuery, type StorageTransaction, type StoredDocument } from "@/lib/storage";
+import {
+  collectionDefinitions,
+  type AuditAction,
+  type CollectionDefinition,
+  type CollectionName,
+  type RecordInput,
+  type RecordOf,
+} from "@/lib/schemas";
+
+export { DatabaseUnavailableError, DocumentNotFoundError, type WhereClause } from "@/lib/storage";
+
+export interface ListOptions extends StorageQuery {
+  /** Also return records sitting in the Recycle Bin, which lists otherwise hide. */
+  includeDeleted?: boolean;
+  /** The record to list under, for collections nested under another; ids come back as "{parentId}/{id}". */
+  parentId?: string;
+}
+
+function definitionOf(name: CollectionName): CollectionDefinition {
+  return collectionDefinitions[name];
+}
+
+/** Storage path and document id of a record; subcollection records are addressed "{parentId}/{id}". */
+function locate(name: CollectionName, id: string): [path: string, docId: string] {
+  const { path, parent } = definitionOf(name);
+  if (!parent) return [path, id];
+  const [parentId, docId] = id.split("/");
+  return [`${parent}/${parentId}/${path}`, docId];
+}
+
+/** Firestore rejects `undefined` anywhere in a document, so drop those keys before writing. */
+export function compact<T>(value: T): T {
+  if (Array.isArray(value)) return value.map((v) => compact(v)) as T;
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      if (v !== undefined) out[k] = compact(v);
+    }
+    return out as T;
+  }
+  return value;
+}
+
+/** Parses a raw document into its typed record, applying legacy field renames first. */
+export function parseRecord<C extends CollectionName>(name: C, id: string, raw: Record<string, unknown>): RecordOf<C> {
+  const def = definitionOf(name);
+  const normalized = def.normalize ? def.normalize(raw) : raw;
+  return { ...def.schema.parse(normalized), id } as RecordOf<C>;
+}
+
+/** Validates a full document for writing. Unknown keys are dropped. */
+export function serializeRecord<C extends CollectionName>(name: C, data: RecordInput<C>): Record<string, unknown> {
+  const def = definitionOf(name);
+  const { createdAt: _c, updatedAt: _u, ...fields } = def.schema.parse(def.normalize ? def.normalize(data) : data);
+  return compact(fields);
+}
+
+/**
+ * Validates only the fields present in a patch. Optional fields that were cleared
+ * (e.g. a blanked-out reference) are written as null so the stored value is removed.
+ */
+export function serializePatch<C extends CollectionName>(name: C, patch: RecordInput<C>): Record<string, unknown> {
+  const def = definitionOf(name);
+  const { createdAt: _c, updatedAt: _u, ...fields } = def.schema.partial().parse(patch);
+  for (const key of Object.keys(patch)) {
+    if (key in fields && fields[key] === undefined && (patch as Record<string, unknown>)[key] !== undefined) {
+      fields[key] = null;
+    }
+  }
+  return compact(fields);
+}
+
+/**
+ * Soft-deleted records are filtered out after the query runs (Firestore can't match a
+ * missing field), so a `limit` may return fewer rows than asked for.
+ */
+export async function listRecords<C extends CollectionName>(name: C, options: ListOptions = {}): Promise<RecordOf<C>[]> {
+  const { includeDeleted, parentId, ...query } = options;
+  const { path, parent } = definitionOf(name);
+  if (parent && !parentId) throw new Error(`${name} records are nested under ${parent}; list them with a parentId.`);
+  const rows = await getStorage().list(parent ? `${parent}/${parentId}/${path}` : path, query);
+  return rows
+    .filter((r) => includeDeleted || !r.data.deletedAt)
+    .map((r) => parseRecord(name, parent ? `${parentId}/${r.id}` : r.id, r.data));
+}
+
+export async function getRecord<C extends CollectionName>(name: C, id: string): Promise<RecordOf<C> | null> {
+  const data = await getStorage().get(...locate(name, id));
+  return data ? parseRecord(name, id, data) : null;
+}
+
+export async function createRecord<C extends CollectionName>(name: C, data: RecordInput<C>): Promise<string> {
+  return runRecordTransaction(async (tx) => tx.create(name, data));
+}
+
+// The single-document writes below read the current version first (inside the same
+// transaction) so the audit log can record what changed.
+
+/** Creates or replaces a document under a caller-chosen id (e.g. one derived from its source). */
+export async function putRecord<C extends CollectionName>(name: C, id: string, data: RecordInput<C>): Promise<void> {
+  await runRecordTransaction(async (tx) => {
+    await tx.get(name, id);
+    tx.put(name, id, data);
+  });
+}
+
+export async function updateRecord<C extends CollectionName>(name: C, id: string, patch: RecordInput<C>): Promise<void> {
+  await runRecordTransaction(async (tx) => {
+    if (isAudited(name)) await tx.get(name, id);
+    tx.update(name, id, patch);
+  });
+}
+
+export async function deleteRecord(name: CollectionName, id: string): Promise<void> {
+  await runRecordTransaction(async (tx) => {
+    if (isAudited(name)) await tx.get(name, id);
+    tx.delete(name, id);
+  });
+}
+
+/**
+ * Typed view of a storage transaction. Reads must come before writes, as in Firestore, and
+ * only single documents can be read: queries can't run inside a transaction, so list what it
+ * needs with listRecords beforehand and re-read those records by id inside it.
+ */
+export interface RecordTransaction {
+  get<C extends CollectionName>(name: C, id: string): Promise<RecordOf<C> | null>;
+  create<C extends CollectionName>(name: C, data: RecordInput<C>): string;
+  /** Keeps the creation time of a document this transaction read; read it first when replacing one. */
+  put<C extends CollectionName>(name: C, id: string, data: RecordInput<C>): void;
+  update<C extends CollectionName>(name: C, id: string, patch: RecordInput<C>): void;
+  delete(name: CollectionName, id: string): void;
+}
+
+/**
+ * Runs `fn` in a storage transaction and appends an audit entry for each write to an
+ * audited collection. The "before" side of a diff is whatever this transaction read, so
+ * callers that want a full diff should tx.get a record before changing it.
+ */
+export function runRecordTransaction<T>(fn: (tx: RecordTransaction) => Promise<T>): Promise<T> {
+  const storage = getStorage();
+  return storage.runTransaction(async (tx: StorageTransaction) => {
+    const known = new Map<string, StoredDocument | null>();
+    const entries: RecordInput<"auditLog">[] = [];
+    const keyOf = (name: CollectionName, id: string) => `${name}/${id}`;
+
+    const log = (name: CollectionName, id: string, action: AuditAction, after: StoredDocument | null) => {
+      const before = known.get(keyOf(name, id)) ?? null;
+      known.set(keyOf(name, id), after);
+      if (isAudited(name)) entries.push(auditEntry(name, id, action, before, after));
+    };
+
+    const result = await fn({
+      get: async (name, id) => {
+        const data = await tx.get(...locate(name, id));
+        known.set(keyOf(name, id), data);
+        return data ? parseRecord(name, id, data) : null;
+      },
+      create: (name, data) => {
+        const { path, parent } = definitionOf(name);
+        if (parent) throw new Error(`${name} records are nested under ${parent}; write them with put.`);
+        const id = storage.newId(path);
+        const now = new Date();
+        const doc = { ...serializeRecord(name, data), createdAt: now, updatedAt: now };
+        tx.set(path, id, doc);
+        log(name, id, "create", doc);
+        return id;
+      },
+      put: (name, id, data) => {
+        const now = new Date();
+        const existing = known.get(keyOf(name, id));
+        const doc = { ...serializeRecord(name, data), createdAt: existing?.createdAt ?? now, updatedAt: now };
+        tx.set(...locate(name, id), doc);
+        log(name, id, existing ? "update" : "create", doc);
+      },
+      update: (name, id, patch) => {
+        const changes = { ...serializePatch(name, patch), updatedAt: new Date() };
+        tx.update(...locate(name, id), changes);
+        log(name, id, "update", { ...known.get(keyOf(name, id)), ...changes });
+      },
+      delete: (name, id) => {
+        tx.delete(...locate(name, id));
+        log(name, id, "delete", null);
+      },
+    });
+
+    const auditPath = definitionOf("auditLog").path;
+    const now = new Date();
+    for (const entry of entries) {
+      tx.set(auditPath, storage.newId(auditPath), { ...serializeRecord("auditLog", entry), createdAt: now, updatedAt: now });
+    }
+    return result;
+  });
+}
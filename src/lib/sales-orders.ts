@@ -0,0 +1,352 @@
+import { companyStateCode, loadCompany } from "@/lib/company";
+import { gstTotals, taxTypeFor } from "@/lib/gst";
+import { invoiceJournal, postJournal } from "@/lib/ledger";
+import { nextDocumentNumber } from "@/lib/numbering";
+import { InsufficientStockError } from "@/lib/production";
+import { assertSaleable } from "@/lib/qc";
+import { runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import type {
+  ChallanLine,
+  DeliveryChallanRecord,
+  DispatchDetails,
+  InvoiceLineItem,
+  InvoiceRecord,
+  ProcessedInventoryRecord,
+  SalesOrderRecord,
+  SalesOrderLine,
+  SalesOrderStatus,
+} from "@/lib/schemas";
+import { applyStockChange, heldStock, readProcessedItems, round3, today } from "@/lib/stock";
+
+// Sales orders sit between a quotation and the invoice. Saving an order reserves its goods
+// (reservedQuantity on the processed item) so invoices and other orders can't promise them
+// again. Delivery challans dispatch the goods against the order, in as many lots as needed,
+// taking them out of stock and out of the reservation together. Invoices are raised from one
+// or more challans and move no stock themselves. Order lines keep running totals of what has
+// been dispatched and invoiced, and the order status follows from them.
+
+export class SalesOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SalesOrderError";
+  }
+}
+
+export const outstandingQuantity = (line: SalesOrderLine) => round3(Math.max(line.quantity - line.dispatchedQuantity, 0));
+
+/** Closed and Cancelled are set by hand and stay; otherwise the status follows the lines. */
+export function orderStatus(order: Pick<SalesOrderRecord, "items" | "status">): SalesOrderStatus {
+  if (order.status === "Closed" || order.status === "Cancelled") return order.status;
+  const lines = order.items.filter((l) => l.quantity > 0);
+  if (lines.length && lines.every((l) => l.invoicedQuantity >= l.quantity)) return "Invoiced";
+  if (lines.length && lines.every((l) => l.dispatchedQuantity >= l.quantity)) return "Dispatched";
+  if (lines.some((l) => l.dispatchedQuantity > 0)) return "Partly Dispatched";
+  return "Open";
+}
+
+/** Orders that still hold a reservation and can take more challans. */
+export const isOrderOpen = (order: Pick<SalesOrderRecord, "items" | "status">) =>
+  ["Open", "Partly Dispatched"].includes(orderStatus(order));
+
+export const isChallanInvoiced = (challan: Pick<DeliveryChallanRecord, "invoiceId">) => Boolean(challan.invoiceId);
+
+/** Adds up quantities per processed item, so an item on two lines is checked once. */
+function byItem(entries: [string, number][]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const [id, quantity] of entries) {
+    if (!id || !quantity) continue;
+    totals.set(id, round3((totals.get(id) ?? 0) + quantity));
+  }
+  return totals;
+}
+
+const reservedAfter = (item: ProcessedInventoryRecord, change: number) => round3(Math.max((item.reservedQuantity || 0) + change, 0));
+
+async function sellerState(): Promise<string | undefined> {
+  return companyStateCode(await loadCompany());
+}
+
+export interface NewSalesOrder {
+  orderDate: string;
+  partyId: string;
+  partyName: string;
+  customer?: InvoiceRecord["customer"];
+  placeOfSupply?: string;
+  customerPoNo?: string;
+  /** The tax type follows from the place of supply. */
+  items: Omit<InvoiceLineItem, "taxType">[];
+  notes?: string;
+  branch?: string;
+  quotationId?: string;
+}
+
+/**
+ * Saves a sales order and reserves its goods; returns the order number. Quotations saved
+ * before orders existed took their goods out of stock, so converting one puts those back
+ * first and they end up reserved rather than gone twice.
+ */
+export async function createSalesOrder(order: NewSalesOrder): Promise<string> {
+  if (!order.partyId) throw new SalesOrderError("Select a customer.");
+  const taxType = taxTypeFor(await sellerState(), order.placeOfSupply);
+  const items = order.items.filter((l) => l.processedInventoryId && l.quantity > 0).map((l) => ({ ...l, taxType }));
+  if (!items.length) throw new SalesOrderError("Add at least one item with a quantity.");
+
+  const heldByQuotation = order.quotationId ? await heldStock("quotation", order.quotationId) : new Map<string, number>();
+  const wanted = byItem(items.map((l) => [l.processedInventoryId, l.quantity]));
+
+  return runRecordTransaction(async (tx) => {
+    const quotation = order.quotationId ? await tx.get("quotations", order.quotationId) : null;
+    if (order.quotationId && (!quotation || quotation.status === "Converted")) {
+      throw new SalesOrderError("This quotation has already been converted.");
+    }
+    const stock = await readProcessedItems(tx, new Set([...wanted.keys(), ...heldByQuotation.keys()]));
+    for (const [id, quantity] of wanted) assertSaleable(stock.get(id)!, quantity, heldByQuotation.get(id));
+
+    const orderNo = await nextDocumentNumber(tx, "salesOrder", order.orderDate, order.branch);
+    const totals = gstTotals(items);
+    tx.create("salesOrders", {
+      orderNo,
+      customerPoNo: order.customerPoNo,
+      orderDate: order.orderDate,
+      partyId: order.partyId,
+      partyName: order.partyName,
+      customer: order.customer,
+      placeOfSupply: order.placeOfSupply,
+      quotationId: order.quotationId,
+      items: items.map((l) => ({ ...l, dispatchedQuantity: 0, invoicedQuantity: 0 })),
+      total: round3(totals.taxable + totals.cgst + totals.sgst + totals.igst),
+      status: "Open",
+      notes: order.notes,
+      branch: order.branch,
+    });
+
+    for (const [id, item] of stock) {
+      const reservedQuantity = reservedAfter(item, wanted.get(id) ?? 0);
+      const returned = heldByQuotation.get(id);
+      if (!returned) {
+        tx.update("processedInventory", id, { reservedQuantity });
+        continue;
+      }
+      const source = {
+        date: order.orderDate,
+        movementType: "reversal" as const,
+        sourceType: "quotation",
+        sourceId: order.quotationId,
+        reference: quotation?.quotationNo,
+      };
+      applyStockChange(tx, "processed", item, returned, source, { reservedQuantity });
+    }
+    if (quotation) tx.update("quotations", quotation.id, { status: "Converted" });
+    return orderNo;
+  });
+}
+
+export interface NewDeliveryChallan {
+  challanDate: string;
+  /** Quantity to dispatch per order line, by line index. */
+  quantities: number[];
+  dispatch?: DispatchDetails;
+  notes?: string;
+}
+
+/**
+ * Dispatches part or all of an open order: the goods leave stock and the order's reservation
+ * in one movement, and the order lines record what went. Returns the challan number.
+ */
+export async function createDeliveryChallan(orderId: string, challan: NewDeliveryChallan): Promise<string> {
+  return runRecordTransaction(async (tx) => {
+    const order = await tx.get("salesOrders", orderId);
+    if (!order) throw new SalesOrderError("This sales order no longer exists.");
+    if (!isOrderOpen(order)) throw new SalesOrderError(`Sales order ${order.orderNo} is ${orderStatus(order).toLowerCase()}.`);
+
+    const lines: ChallanLine[] = [];
+    order.items.forEach((line, index) => {
+      const quantity = round3(Number(challan.quantities[index]) || 0);
+      if (quantity <= 0) return;
+      if (quantity > outstandingQuantity(line)) {
+        throw new SalesOrderError(`Only ${outstandingQuantity(line)} ${line.unit} of ${line.name} is left to dispatch on this order.`);
+      }
+      const { dispatchedQuantity: _d, invoicedQuantity: _i, ...item } = line;
+      lines.push({ ...item, quantity, orderLine: index });
+    });
+    if (!lines.length) throw new SalesOrderError("Enter a quantity to dispatch.");
+
+    const going = byItem(lines.map((l) => [l.processedInventoryId, l.quantity]));
+    const stock = await readProcessedItems(tx, going.keys());
+    for (const [id, quantity] of going) {
+      const item = stock.get(id)!;
+      const onHand = round3(Math.max(item.quantity - (item.quarantineQuantity || 0), 0));
+      if (onHand < quantity) throw new InsufficientStockError(item.name || id, onHand, quantity);
+    }
+
+    const challanNo = await nextDocumentNumber(tx, "deliveryChallan", challan.challanDate, order.branch);
+    const challanId = tx.create("deliveryChallans", {
+      challanNo,
+      challanDate: challan.challanDate,
+      salesOrderId: order.id,
+      orderNo: order.orderNo,
+      partyId: order.partyId,
+      partyName: order.partyName,
+      customer: order.customer,
+      placeOfSupply: order.placeOfSupply,
+      items: lines,
+      dispatch: challan.dispatch,
+      notes: challan.notes,
+      branch: order.branch,
+    });
+
+    for (const [id, quantity] of going) {
+      const item = stock.get(id)!;
+      applyStockChange(
+        tx,
+        "processed",
+        item,
+        -quantity,
+        { date: challan.challanDate, movementType: "dispatch", sourceType: "deliveryChallan", sourceId: challanId, reference: challanNo },
+        { reservedQuantity: reservedAfter(item, -quantity) }
+      );
+    }
+
+    const items = order.items.map((line, index) => {
+      const sent = lines.filter((l) => l.orderLine === index).reduce((sum, l) => sum + l.quantity, 0);
+      return sent ? { ...line, dispatchedQuantity: round3(line.dispatchedQuantity + sent) } : line;
+    });
+    tx.update("salesOrders", order.id, { items, status: orderStatus({ ...order, items }) });
+    return challanNo;
+  });
+}
+
+/** Closes an order early: what is still undispatched is released from the reservation. */
+export async function closeSalesOrder(orderId: string): Promise<void> {
+  await runRecordTransaction(async (tx) => {
+    const order = await tx.get("salesOrders", orderId);
+    if (!order) throw new SalesOrderError("This sales order no longer exists.");
+    if (!isOrderOpen(order)) throw new SalesOrderError(`Sales order ${order.orderNo} is already ${orderStatus(order).toLowerCase()}.`);
+
+    const held = byItem(order.items.map((l) => [l.processedInventoryId, outstandingQuantity(l)]));
+    const stock = await readProcessedItems(tx, held.keys());
+    for (const [id, quantity] of held) tx.update("processedInventory", id, { reservedQuantity: reservedAfter(stock.get(id)!, -quantity) });
+    tx.update("salesOrders", order.id, { status: order.items.some((l) => l.dispatchedQuantity > 0) ? "Closed" : "Cancelled" });
+  });
+}
+
+/** Adds (or with -1, takes back) the challans' quantities to the invoiced totals of their orders. */
+function billOrders(orders: SalesOrderRecord[], challans: DeliveryChallanRecord[], sign: 1 | -1) {
+  return orders.map((order) => {
+    const items = order.items.map((line) => ({ ...line }));
+    for (const challan of challans.filter((c) => c.salesOrderId === order.id)) {
+      for (const l of challan.items) {
+        const line = items[l.orderLine];
+        if (line) line.invoicedQuantity = round3(Math.max(line.invoicedQuantity + sign * l.quantity, 0));
+      }
+    }
+    return { ...order, items, status: orderStatus({ ...order, items }) };
+  });
+}
+
+async function readOrders(tx: RecordTransaction, challans: DeliveryChallanRecord[]): Promise<SalesOrderRecord[]> {
+  const orders: SalesOrderRecord[] = [];
+  for (const id of new Set(challans.map((c) => c.salesOrderId))) {
+    const order = await tx.get("salesOrders", id);
+    if (order) orders.push(order);
+  }
+  return orders;
+}
+
+/** One invoice line per item, rate and tax across all the challans. */
+export function challanInvoiceLines(challans: Pick<DeliveryChallanRecord, "items">[], taxType: InvoiceLineItem["taxType"]): InvoiceLineItem[] {
+  const lines = new Map<string, InvoiceLineItem>();
+  for (const { items } of challans) {
+    for (const { orderLine: _orderLine, ...l } of items) {
+      const key = [l.processedInventoryId, l.rate, l.tax, l.hsnCode ?? ""].join("|");
+      const line = lines.get(key);
+      if (line) line.quantity = round3(line.quantity + l.quantity);
+      else lines.set(key, { ...l, taxType });
+    }
+  }
+  return [...lines.values()];
+}
+
+export interface ChallanInvoiceOptions {
+  issueDate: string;
+  dueDate?: string;
+  manualInvoiceNo?: string;
+}
+
+/**
+ * Raises one tax invoice for delivery challans of the same customer and posts it to the
+ * ledger. The goods already left stock with the challans, so no stock moves here.
+ */
+export async function invoiceFromChallans(challanIds: string[], options: ChallanInvoiceOptions): Promise<string> {
+  if (!challanIds.length) throw new SalesOrderError("Select at least one delivery challan.");
+  const seller = await sellerState();
+
+  return runRecordTransaction(async (tx) => {
+    const challans: DeliveryChallanRecord[] = [];
+    for (const id of challanIds) {
+      const challan = await tx.get("deliveryChallans", id);
+      if (!challan) throw new SalesOrderError("A selected delivery challan no longer exists.");
+      if (isChallanInvoiced(challan)) throw new SalesOrderError(`Challan ${challan.challanNo} is already on invoice ${challan.invoiceNo}.`);
+      challans.push(challan);
+    }
+    const [first] = challans;
+    if (challans.some((c) => c.partyId !== first.partyId)) throw new SalesOrderError("Challans on one invoice must be for the same customer.");
+    if (challans.some((c) => (c.placeOfSupply || "") !== (first.placeOfSupply || ""))) {
+      throw new SalesOrderError("Challans on one invoice must have the same place of supply.");
+    }
+    const orders = await readOrders(tx, challans);
+
+    const items = challanInvoiceLines(challans, taxTypeFor(seller, first.placeOfSupply));
+    const totals = gstTotals(items);
+    const tax = round3(totals.cgst + totals.sgst + totals.igst);
+    const invoiceNo = await nextDocumentNumber(tx, "invoice", options.issueDate, first.branch);
+    const invoice = {
+      invoiceNo,
+      manualInvoiceNo: options.manualInvoiceNo?.trim() || undefined,
+      partyType: "customer" as const,
+      partyId: first.partyId,
+      partyName: first.partyName,
+      customer: first.customer,
+      issueDate: options.issueDate || today(),
+      dueDate: options.dueDate ?? "",
+      placeOfSupply: first.placeOfSupply,
+      items,
+      subtotal: totals.taxable,
+      taxPercent: 0,
+      tax,
+      total: round3(totals.taxable + tax),
+      status: "Unpaid" as const,
+      notes: `Against delivery challan${challans.length > 1 ? "s" : ""} ${challans.map((c) => c.challanNo).join(", ")}`,
+      dispatch: challans.find((c) => c.dispatch)?.dispatch,
+      branch: first.branch,
+      challanIds: challans.map((c) => c.id),
+    };
+    const invoiceId = tx.create("invoices", invoice);
+
+    for (const challan of challans) tx.update("deliveryChallans", challan.id, { invoiceId, invoiceNo });
+    for (const order of billOrders(orders, challans, 1)) tx.update("salesOrders", order.id, { items: order.items, status: order.status });
+    postJournal(tx, "invoice", invoiceId, invoiceJournal({ ...invoice, id: invoiceId } as InvoiceRecord));
+    return invoiceNo;
+  });
+}
+
+export interface ChallanBilling {
+  challans: DeliveryChallanRecord[];
+  orders: SalesOrderRecord[];
+}
+
+/** Reads the challans behind an invoice and their orders, for unbillChallans. */
+export async function readChallanBilling(tx: RecordTransaction, invoice: Pick<InvoiceRecord, "id" | "challanIds">): Promise<ChallanBilling> {
+  const challans: DeliveryChallanRecord[] = [];
+  for (const id of invoice.challanIds ?? []) {
+    const challan = await tx.get("deliveryChallans", id);
+    if (challan?.invoiceId === invoice.id) challans.push(challan);
+  }
+  return { challans, orders: await readOrders(tx, challans) };
+}
+
+/** Frees the challans of a cancelled invoice so they can be billed again. */
+export function unbillChallans(tx: RecordTransaction, { challans, orders }: ChallanBilling) {
+  for (const challan of challans) tx.update("deliveryChallans", challan.id, { invoiceId: null, invoiceNo: null });
+  for (const order of billOrders(orders, challans, -1)) tx.update("salesOrders", order.id, { items: order.items, status: order.status });
+}
@@ -0,0 +1,1168 @@
+import { z } from "zod";
+
+// Firestore documents written by older pages are loosely typed: numbers are sometimes
+// stored as strings, optional fields are missing or "", and timestamps may be Firestore
+// Timestamps, Dates or ISO strings. These field helpers normalize all of that on read so
+// every page sees the same shape.
+
+export function toDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value;
+  const maybeTimestamp = value as { toDate?: () => Date };
+  if (typeof maybeTimestamp.toDate === "function") return maybeTimestamp.toDate();
+  if (typeof value === "string" || typeof value === "number") {
+    const d = new Date(value);
+    return Number.isNaN(d.getTime()) ? undefined : d;
+  }
+  return undefined;
+}
+
+export function toNumber(value: unknown): number {
+  const n = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(n) ? n : 0;
+}
+
+const text = (fallback = "") => z.preprocess((v) => (v ?? fallback).toString(), z.string());
+const optionalText = () => z.preprocess((v) => (v ?? "").toString() || undefined, z.string().optional());
+const amount = () => z.preprocess(toNumber, z.number());
+const optionalAmount = () => z.preprocess((v) => (v === undefined || v === null || v === "" ? undefined : toNumber(v)), z.number().optional());
+const flag = () => z.preprocess((v) => Boolean(v), z.boolean());
+const timestamp = () => z.preprocess(toDate, z.date().optional());
+/** A nested object that may be missing, or cleared by writing null. */
+const optionalObject = <T extends z.ZodTypeAny>(schema: T) => z.preprocess((v) => v ?? undefined, schema.optional());
+const list = <T extends z.ZodTypeAny>(item: T) => z.preprocess((v) => (Array.isArray(v) ? v : []), z.array(item));
+
+function oneOf<T extends [string, ...string[]]>(values: T, fallback: T[number]) {
+  return z.preprocess((v) => ((values as readonly unknown[]).includes(v) ? v : fallback), z.enum(values));
+}
+
+const auditFields = {
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+};
+
+/**
+ * Set on records moved to the Recycle Bin (see recycle-bin.ts). `deletedWith` marks a
+ * dependent row, e.g. a note's bank transaction, archived along with another record.
+ */
+const deletionFields = {
+  deletedAt: timestamp(),
+  deletedBy: optionalText(),
+  deletedWith: optionalText(),
+};
+
+export const partyTypeSchema = oneOf(["customer", "supplier"], "customer");
+export type PartyType = z.output<typeof partyTypeSchema>;
+
+// ---------- Parties ----------
+
+export const partySchema = z.object({
+  name: text(),
+  address: text(),
+  phone: text(),
+  email: text(),
+  gst: text(),
+  opening: amount(),
+  ...auditFields,
+  ...deletionFields,
+});
+
+export type PartyRecord = z.output<typeof partySchema> & { id: string };
+
+// ---------- Items & inventory ----------
+
+export const itemSchema = z.object({
+  code: text(),
+  name: text(),
+  openingBalance: amount(),
+  unit: text("pcs"),
+  hsnCode: optionalText(),
+  /** Default GST % for invoices. */
+  gstRate: optionalAmount(),
+  notes: optionalText(),
+  ...auditFields,
+  ...deletionFields,
+});
+
+export type ItemRecord = z.output<typeof itemSchema> & { id: string };
+
+export const itemMonthlyRowSchema = z.object({
+  month: text(),
+  inQty: amount(),
+  outQty: amount(),
+  availableQty: amount(),
+  unit: text("pcs"),
+  lastUnitPrice: amount(),
+  stockValue: amount(),
+});
+
+/** The last monthly stock report run for an item and year; the id is "{itemId}_{year}". */
+export const itemMonthlyReportSchema = z.object({
+  itemId: text(),
+  itemCode: text(),
+  itemName: text(),
+  unit: text("pcs"),
+  year: amount(),
+  rows: list(itemMonthlyRowSchema),
+  ...auditFields,
+});
+
+export type ItemMonthlyReportRecord = z.output<typeof itemMonthlyReportSchema> & { id: string };
+
+/** Names offered when naming a batch's output; the id is the name itself. */
+export const itemNameSuggestionSchema = z.object({
+  name: text(),
+  ...auditFields,
+});
+
+export const stockStatusSchema = oneOf(["Adequate", "Low", "Critical", "Overstocked", "In Stock"], "Adequate");
+
+export const rawInventorySchema = z.object({
+  itemCode: optionalText(),
+  name: text(),
+  category: text(),
+  quantity: amount(),
+  unit: text("kg"),
+  location: text(),
+  supplier: text(),
+  reorderLevel: amount(),
+  status: stockStatusSchema,
+  lastUpdated: text(),
+  ...auditFields,
+});
+
+export type RawInventoryRecord = z.output<typeof rawInventorySchema> & { id: string };
+
+export const processedInventorySchema = z.object({
+  productId: optionalText(),
+  name: text(),
+  category: text(),
+  quantity: amount(),
+  unit: text("kg"),
+  location: text(),
+  reorderLevel: amount(),
+  status: stockStatusSchema,
+  batchNo: text(),
+  processDate: optionalText(),
+  processedDate: optionalText(),
+  lastUpdated: text(),
+  /** Part of `quantity` from batches still awaiting QC release; it can't be invoiced. */
+  quarantineQuantity: amount(),
+  /** Part of `quantity` promised to open sales orders; only their delivery challans can take it. */
+  reservedQuantity: amount(),
+  ...auditFields,
+});
+
+export type ProcessedInventoryRecord = z.output<typeof processedInventorySchema> & { id: string };
+
+// ---------- Raw material lots ----------
+
+// One lot per purchase receipt. The rawInventory row keeps the item's total; lots say which
+// supplier batch that stock came from and when it expires. Stock that predates lots has none.
+export const rawLotSchema = z.object({
+  rawItemId: text(),
+  rawItemName: text(),
+  lotNo: text(),
+  manufacturingDate: optionalText(),
+  expiryDate: optionalText(),
+  receivedDate: text(),
+  quantityReceived: amount(),
+  quantityRemaining: amount(),
+  unit: text(),
+  supplierName: optionalText(),
+  purchaseId: optionalText(),
+  purchaseBillId: optionalText(),
+  /** Lots received against a purchase order; their bill is booked later. */
+  goodsReceiptId: optionalText(),
+  ...auditFields,
+});
+
+export type RawLotRecord = z.output<typeof rawLotSchema> & { id: string };
+
+// ---------- Stock movements ----------
+
+export const stockItemTypeSchema = oneOf(["raw", "processed"], "raw");
+export type StockItemType = z.output<typeof stockItemTypeSchema>;
+
+export const stockMovementTypeSchema = oneOf(
+  ["opening", "purchase", "consumption", "production", "dispatch", "return", "adjustment", "reversal"],
+  "adjustment"
+);
+export type StockMovementType = z.output<typeof stockMovementTypeSchema>;
+
+// Append-only: one row per change to an inventory quantity. `quantity` is signed (in > 0,
+// out < 0) and `balanceAfter` is the item's stock once the change was applied.
+export const stockMovementSchema = z.object({
+  date: text(),
+  itemType: stockItemTypeSchema,
+  itemId: text(),
+  itemName: text(),
+  unit: text(),
+  movementType: stockMovementTypeSchema,
+  quantity: amount(),
+  balanceAfter: amount(),
+  sourceType: optionalText(),
+  sourceId: optionalText(),
+  reference: optionalText(),
+  notes: optionalText(),
+  ...auditFields,
+});
+
+export type StockMovementRecord = z.output<typeof stockMovementSchema> & { id: string };
+
+// ---------- Production ----------
+
+export const batchStatusSchema = oneOf(["in process", "approved", "discarded"], "in process");
+export type BatchStatus = z.output<typeof batchStatusSchema>;
+
+// Output of an approved batch sits in quarantine until QC releases or rejects it. Batches
+// approved before QC existed read as released.
+export const batchQcStatusSchema = oneOf(["quarantine", "released", "rejected"], "released");
+export type BatchQcStatus = z.output<typeof batchQcStatusSchema>;
+
+// Which lots a batch line drew from, so deleting the batch can put the stock back.
+export const batchLotUsageSchema = z.object({
+  lotId: text(),
+  lotNo: text(),
+  expiryDate: optionalText(),
+  quantity: amount(),
+});
+
+export type BatchLotUsage = z.output<typeof batchLotUsageSchema>;
+
+export const batchItemSchema = z.object({
+  rawItemId: text(),
+  rawItemName: text(),
+  currentQuantity: amount(),
+  unit: text(),
+  useQuantity: amount(),
+  lots: list(batchLotUsageSchema),
+});
+
+export type BatchItem = z.output<typeof batchItemSchema>;
+
+export const batchSchema = z.object({
+  batchNo: text(),
+  manualBatchNo: optionalText(),
+  items: list(batchItemSchema),
+  status: batchStatusSchema,
+  batchDate: text(),
+  actualOutputQuantity: optionalAmount(),
+  producedItemName: optionalText(),
+  recipeId: optionalText(),
+  targetOutputQuantity: optionalAmount(),
+  qcStatus: batchQcStatusSchema,
+  ...auditFields,
+});
+
+export type BatchRecord = z.output<typeof batchSchema> & { id: string };
+
+// ---------- Recipes (bill of materials) ----------
+
+export const recipeItemSchema = z.object({
+  rawItemId: text(),
+  rawItemName: text(),
+  quantity: amount(),
+  unit: text("kg"),
+});
+
+export type RecipeItem = z.output<typeof recipeItemSchema>;
+
+// Item quantities are for one standard run producing `outputQuantity`; batches scale them.
+// `expectedYield` is output as a percentage of input, and `lossTolerance` the percentage
+// points of loss over the standard (100 - expectedYield) still accepted.
+export const recipeSchema = z.object({
+  productName: text(),
+  outputQuantity: amount(),
+  outputUnit: text("kg"),
+  expectedYield: amount(),
+  lossTolerance: amount(),
+  items: list(recipeItemSchema),
+  notes: optionalText(),
+  ...auditFields,
+});
+
+export type RecipeRecord = z.output<typeof recipeSchema> & { id: string };
+
+// ---------- Quality control ----------
+
+// A test with no min/max is recorded but not judged.
+export const qcParameterSchema = z.object({
+  name: text(),
+  unit: text(),
+  min: optionalAmount(),
+  max: optionalAmount(),
+  method: optionalText(),
+});
+
+export type QcParameter = z.output<typeof qcParameterSchema>;
+
+export const qcSpecificationSchema = z.object({
+  productName: text(),
+  parameters: list(qcParameterSchema),
+  notes: optionalText(),
+  ...auditFields,
+});
+
+export type QcSpecificationRecord = z.output<typeof qcSpecificationSchema> & { id: string };
+
+export const qcResultSchema = qcParameterSchema.extend({
+  value: optionalAmount(),
+  passed: flag(),
+});
+
+export type QcResult = z.output<typeof qcResultSchema>;
+
+export const qcTestStatusSchema = oneOf(["pending", "passed", "failed"], "pending");
+export type QcTestStatus = z.output<typeof qcTestStatusSchema>;
+
+// One per batch, stored under the batch's id; re-testing replaces the results.
+export const qcTestSchema = z.object({
+  batchId: text(),
+  batchNo: text(),
+  productName: text(),
+  specificationId: optionalText(),
+  results: list(qcResultSchema),
+  status: qcTestStatusSchema,
+  testedBy: optionalText(),
+  testedDate: optionalText(),
+  /** Who released or rejected the batch, and when. */
+  decidedBy: optionalText(),
+  decidedDate: optionalText(),
+  remarks: optionalText(),
+  ...auditFields,
+});
+
+export type QcTestRecord = z.output<typeof qcTestSchema> & { id: string };
+
+// ---------- Purchases ----------
+
+// One item per row, the way purchases were recorded before purchase bills. Kept for the older
+// records; new supplier invoices are purchase bills.
+
+export const purchaseSchema = z.object({
+  date: text(),
+  supplierId: text(),
+  supplierName: text(),
+  invoiceNo: text(),
+  itemId: text(),
+  itemCode: text(),
+  itemName: text(),
+  quantity: amount(),
+  unit: text("pcs"),
+  invoicePrice: amount(),
+  taxInvoicePrice: amount(),
+  notTaxInvoice: flag(),
+  totalPrice: amount(),
+  lotNo: optionalText(),
+  manufacturingDate: optionalText(),
+  expiryDate: optionalText(),
+  ...auditFields,
+});
+
+export type PurchaseRecord = z.output<typeof purchaseSchema> & { id: string };
+
+// ---------- Purchase orders & goods receipts ----------
+
+// A purchase order lists what we asked a supplier for at agreed rates. Goods receipt notes
+// (GRNs) record each delivery against it; accepted goods go into raw stock, goods on QC hold
+// wait on the GRN until released. The supplier's invoice is then matched against both before
+// it is booked as purchases.
+
+export const purchaseOrderLineSchema = z.object({
+  itemId: text(),
+  itemCode: text(),
+  itemName: text(),
+  unit: text("kg"),
+  quantity: amount(),
+  /** Agreed price per unit before GST. */
+  rate: amount(),
+  /** GST rate in percent. */
+  tax: amount(),
+  /** Kept so far: accepted plus on QC hold. */
+  receivedQuantity: amount(),
+  rejectedQuantity: amount(),
+  billedQuantity: amount(),
+});
+
+export type PurchaseOrderLine = z.output<typeof purchaseOrderLineSchema>;
+
+export const purchaseOrderStatusSchema = oneOf(["Open", "Partly Received", "Received", "Closed", "Cancelled"], "Open");
+export type PurchaseOrderStatus = z.output<typeof purchaseOrderStatusSchema>;
+
+export const purchaseOrderSchema = z.object({
+  poNo: text(),
+  poDate: text(),
+  supplierId: text(),
+  supplierName: text(),
+  expectedDate: optionalText(),
+  items: list(purchaseOrderLineSchema),
+  total: amount(),
+  status: purchaseOrderStatusSchema,
+  notes: optionalText(),
+  branch: optionalText(),
+  ...auditFields,
+});
+
+export type PurchaseOrderRecord = z.output<typeof purchaseOrderSchema> & { id: string };
+
+export const goodsReceiptLineSchema = z.object({
+  /** Index of the purchase order line this delivers. */
+  orderLine: amount(),
+  itemId: text(),
+  itemCode: text(),
+  itemName: text(),
+  unit: text("kg"),
+  /** Everything that arrived, including what was rejected at the gate. */
+  receivedQuantity: amount(),
+  acceptedQuantity: amount(),
+  rejectedQuantity: amount(),
+  /** Awaiting QC; not in stock until released. */
+  heldQuantity: amount(),
+  billedQuantity: amount(),
+  lotNo: optionalText(),
+  manufacturingDate: optionalText(),
+  expiryDate: optionalText(),
+});
+
+export type GoodsReceiptLine = z.output<typeof goodsReceiptLineSchema>;
+
+export const goodsReceiptSchema = z.object({
+  grnNo: text(),
+  grnDate: text(),
+  purchaseOrderId: text(),
+  poNo: text(),
+  supplierId: text(),
+  supplierName: text(),
+  /** The supplier's delivery challan or invoice number on the consignment. */
+  deliveryNoteNo: optionalText(),
+  vehicleNo: optionalText(),
+  items: list(goodsReceiptLineSchema),
+  notes: optionalText(),
+  branch: optionalText(),
+  ...auditFields,
+});
+
+export type GoodsReceiptRecord = z.output<typeof goodsReceiptSchema> & { id: string };
+
+// ---------- Sales ----------
+
+export const taxTypeSchema = oneOf(["CGST / SGST", "IGST"], "CGST / SGST");
+export type TaxType = z.output<typeof taxTypeSchema>;
+
+export const invoiceLineItemSchema = z.object({
+  processedInventoryId: text(),
+  name: text(),
+  hsnCode: optionalText(),
+  unit: text("pcs"),
+  quantity: amount(),
+  rate: amount(),
+  taxType: taxTypeSchema,
+  tax: amount(),
+});
+
+export type InvoiceLineItem = z.output<typeof invoiceLineItemSchema>;
+
+/** Registration details returned by the Invoice Registration Portal for an e-invoice. */
+export const eInvoiceSchema = z.object({
+  irn: text(),
+  ackNo: text(),
+  ackDate: text(),
+  signedQrCode: text(),
+  signedInvoice: optionalText(),
+  /** "mock" when the IRN came from the built-in test IRP rather than the portal. */
+  source: optionalText(),
+});
+
+export type EInvoiceDetails = z.output<typeof eInvoiceSchema>;
+
+export const transportModeSchema = oneOf(["road", "rail", "air", "ship"], "road");
+export type TransportMode = z.output<typeof transportModeSchema>;
+
+/** How the goods on an invoice leave the plant; the transport part of the e-way bill. */
+export const dispatchSchema = z.object({
+  transportMode: transportModeSchema,
+  distanceKm: amount(),
+  transporterId: optionalText(),
+  transporterName: optionalText(),
+  vehicleNo: optionalText(),
+  transportDocNo: optionalText(),
+  transportDocDate: optionalText(),
+});
+
+export type DispatchDetails = z.output<typeof dispatchSchema>;
+
+export const eWayBillSchema = z.object({
+  ewbNo: text(),
+  ewbDate: text(),
+  validUpto: optionalText(),
+});
+
+export type EWayBillDetails = z.output<typeof eWayBillSchema>;
+
+export const invoiceStatusSchema = oneOf(["Approved", "In Process", "Paid", "Pending", "Overdue", "Unpaid", "Cancelled"], "Pending");
+export type InvoiceStatus = z.output<typeof invoiceStatusSchema>;
+
+export const invoiceSchema = z.object({
+  invoiceNo: text(),
+  manualInvoiceNo: optionalText(),
+  cuNumber: optionalText(),
+  pin: optionalText(),
+  partyType: partyTypeSchema,
+  partyId: text(),
+  partyName: text(),
+  customer: z
+    .object({
+      address: text(),
+      phone: text(),
+      email: text(),
+      gst: text(),
+    })
+    .optional(),
+  issueDate: text(),
+  dueDate: text(),
+  /** GST state code of the place of supply; decides CGST/SGST vs IGST. */
+  placeOfSupply: optionalText(),
+  items: list(invoiceLineItemSchema),
+  subtotal: amount(),
+  taxPercent: amount(),
+  tax: amount(),
+  total: amount(),
+  status: invoiceStatusSchema,
+  notes: optionalText(),
+  eInvoice: optionalObject(eInvoiceSchema),
+  dispatch: optionalObject(dispatchSchema),
+  eWayBill: optionalObject(eWayBillSchema),
+  /** Branch code whose numbering series the document number was taken from. */
+  branch: optionalText(),
+  /** Set with status "Cancelled": the invoice keeps its number but its stock and ledger entry are reversed. */
+  cancelledAt: timestamp(),
+  cancelReason: optionalText(),
+  /** Delivery challans the invoice was raised from; their goods left stock with the challans. */
+  challanIds: list(text()),
+  ...auditFields,
+  ...deletionFields,
+});
+
+export type InvoiceRecord = z.output<typeof invoiceSchema> & { id: string };
+
+export const proformaInvoiceSchema = invoiceSchema
+  .omit({
+    invoiceNo: true,
+    manualInvoiceNo: true,
+    eInvoice: true,
+    dispatch: true,
+    eWayBill: true,
+    cancelledAt: true,
+    cancelReason: true,
+    challanIds: true,
+  })
+  .extend({
+    proformaInvoiceNo: text(),
+    manualProformaInvoiceNo: optionalText(),
+  });
+
+export type ProformaInvoiceRecord = z.output<typeof proformaInvoiceSchema> & { id: string };
+
+export const quotationSchema = invoiceSchema
+  .omit({
+    invoiceNo: true,
+    manualInvoiceNo: true,
+    cuNumber: true,
+    pin: true,
+    dueDate: true,
+    eInvoice: true,
+    dispatch: true,
+    eWayBill: true,
+    cancelledAt: true,
+    cancelReason: true,
+    challanIds: true,
+    status: true,
+  })
+  .extend({
+    quotationNo: text(),
+    manualQuotationNo: optionalText(),
+    validUntil: optionalText(),
+    status: optionalText(),
+  });
+
+export type QuotationRecord = z.output<typeof quotationSchema> & { id: string };
+
+// ---------- Sales orders & delivery challans ----------
+
+// A sales order reserves processed stock for a customer; delivery challans dispatch it in one
+// or more lots, and invoices are raised from the challans. Order lines track how much of each
+// has been dispatched and invoiced.
+
+export const salesOrderLineSchema = invoiceLineItemSchema.extend({
+  dispatchedQuantity: amount(),
+  invoicedQuantity: amount(),
+});
+
+export type SalesOrderLine = z.output<typeof salesOrderLineSchema>;
+
+export const salesOrderStatusSchema = oneOf(
+  ["Open", "Partly Dispatched", "Dispatched", "Invoiced", "Closed", "Cancelled"],
+  "Open"
+);
+export type SalesOrderStatus = z.output<typeof salesOrderStatusSchema>;
+
+export const salesOrderSchema = z.object({
+  orderNo: text(),
+  customerPoNo: optionalText(),
+  orderDate: text(),
+  partyId: text(),
+  partyName: text(),
+  customer: invoiceSchema.shape.customer,
+  placeOfSupply: optionalText(),
+  quotationId: optionalText(),
+  items: list(salesOrderLineSchema),
+  total: amount(),
+  status: salesOrderStatusSchema,
+  notes: optionalText(),
+  branch: optionalText(),
+  ...auditFields,
+});
+
+export type SalesOrderRecord = z.output<typeof salesOrderSchema> & { id: string };
+
+export const challanLineSchema = invoiceLineItemSchema.extend({
+  /** Index of the sales order line this dispatches. */
+  orderLine: amount(),
+});
+
+export type ChallanLine = z.output<typeof challanLineSchema>;
+
+export const deliveryChallanSchema = z.object({
+  challanNo: text(),
+  challanDate: text(),
+  salesOrderId: text(),
+  orderNo: text(),
+  partyId: text(),
+  partyName: text(),
+  customer: invoiceSchema.shape.customer,
+  placeOfSupply: optionalText(),
+  items: list(challanLineSchema),
+  dispatch: optionalObject(dispatchSchema),
+  /** Set once the challan is billed; cleared again if that invoice is cancelled. */
+  invoiceId: optionalText(),
+  invoiceNo: optionalText(),
+  notes: optionalText(),
+  branch: optionalText(),
+  ...auditFields,
+});
+
+export type DeliveryChallanRecord = z.output<typeof deliveryChallanSchema> & { id: string };
+
+// Invoices converted from quotations were saved with `lineItems` instead of `items`, as were
+// the quotations of older pages.
+function normalizeInvoice(raw: Record<string, unknown>): Record<string, unknown> {
+  if (Array.isArray(raw.items) || !Array.isArray(raw.lineItems)) return raw;
+  const { lineItems, ...rest } = raw;
+  return { ...rest, items: lineItems };
+}
+
+export const noteTypeSchema = oneOf(["Debit", "Credit"], "Debit");
+export type NoteType = z.output<typeof noteTypeSchema>;
+
+export const debitCreditNoteSchema = z.object({
+  noteType: noteTypeSchema,
+  noteNo: text(),
+  date: text(),
+  partyType: partyTypeSchema,
+  partyId: text(),
+  partyName: text(),
+  amount: amount(),
+  relatedInvoiceNo: text(),
+  reason: text(),
+  transactionId: optionalText(),
+  // Goods coming back with the note: a customer return (credit note) or a return to the
+  // supplier (debit note). See noteReturnMovement in stock.ts.
+  returnItemId: optionalText(),
+  returnItemName: optionalText(),
+  returnQuantity: optionalAmount(),
+  ...auditFields,
+  ...deletionFields,
+});
+
+export type DebitCreditNoteRecord = z.output<typeof debitCreditNoteSchema> & { id: string };
+
+// ---------- Purchase bills ----------
+
+// A supplier's invoice as one document: a header with freight, discount and the GST breakdown,
+// and a line per material. The bill discount lowers each line's taxable value in proportion to
+// its value; freight is spread the same way over the taxable values into each line's landed
+// cost. Freight is carried at the amount billed and is not part of the GST breakdown.
+
+export const purchaseBillLineSchema = z.object({
+  itemId: text(),
+  itemCode: text(),
+  itemName: text(),
+  hsnCode: optionalText(),
+  unit: text("kg"),
+  quantity: amount(),
+  /** Price per unit before discount and GST. */
+  rate: amount(),
+  /** GST rate in percent. */
+  tax: amount(),
+  /** This line's share of the bill discount. */
+  discount: amount(),
+  taxable: amount(),
+  cgst: amount(),
+  sgst: amount(),
+  igst: amount(),
+  /** This line's share of the freight. */
+  freight: amount(),
+  /** Taxable value plus freight: what the material cost us, GST being recoverable. */
+  landedCost: amount(),
+  lotNo: optionalText(),
+  manufacturingDate: optionalText(),
+  expiryDate: optionalText(),
+  /** Set on lines billing a goods receipt; their stock came in with the receipt. */
+  purchaseOrderId: optionalText(),
+  goodsReceiptId: optionalText(),
+  grnLine: optionalAmount(),
+});
+
+export type PurchaseBillLine = z.output<typeof purchaseBillLineSchema>;
+
+export const purchaseBillSchema = z.object({
+  /** The supplier's invoice number. */
+  billNo: text(),
+  billDate: text(),
+  dueDate: optionalText(),
+  supplierId: text(),
+  supplierName: text(),
+  supplierGstin: optionalText(),
+  taxType: taxTypeSchema,
+  items: list(purchaseBillLineSchema),
+  /** Value of the lines before discount. */
+  subtotal: amount(),
+  discount: amount(),
+  taxable: amount(),
+  cgst: amount(),
+  sgst: amount(),
+  igst: amount(),
+  freight: amount(),
+  total: amount(),
+  notes: optionalText(),
+  ...auditFields,
+});
+
+export type PurchaseBillRecord = z.output<typeof purchaseBillSchema> & { id: string };
+
+// ---------- Money ----------
+
+export const paymentDirectionSchema = oneOf(["In", "Out"], "In");
+export const paymentMethodSchema = oneOf(["Cash", "UPI", "Bank", "Bank Transfer", "Card", "Cheque"], "Cash");
+export const paymentStatusSchema = oneOf(["Completed", "Pending", "Failed"], "Completed");
+
+export type PaymentDirection = z.output<typeof paymentDirectionSchema>;
+export type PaymentMethod = z.output<typeof paymentMethodSchema>;
+export type PaymentStatus = z.output<typeof paymentStatusSchema>;
+
+export const paymentSchema = z.object({
+  date: text(),
+  direction: paymentDirectionSchema,
+  partyType: oneOf(["customer", "supplier", "other"], "customer"),
+  partyId: optionalText(),
+  partyName: optionalText(),
+  invoiceId: optionalText(),
+  invoiceNo: optionalText(),
+  amount: amount(),
+  method: paymentMethodSchema,
+  reference: text(),
+  bankAccountId: optionalText(),
+  bankAccountName: optionalText(),
+  cashAccountId: optionalText(),
+  cashAccountName: optionalText(),
+  bankTransferCharge: amount(),
+  accountingTxId: optionalText(),
+  bankChargeTxId: optionalText(),
+  acctAccountingTxId: optionalText(),
+  acctBankChargeTxId: optionalText(),
+  notes: optionalText(),
+  status: paymentStatusSchema,
+  ...auditFields,
+});
+
+export type PaymentRecord = z.output<typeof paymentSchema> & { id: string };
+
+/** Income/expense rows shown on the Accounting page (`transactions` collection). */
+export const transactionSchema = z.object({
+  date: text(),
+  description: text(),
+  category: text("General"),
+  type: oneOf(["Income", "Expense"], "Income"),
+  amount: amount(),
+  status: optionalText(),
+  reference: optionalText(),
+  paymentMethod: optionalText(),
+  bankAccountId: optionalText(),
+  bankAccountName: optionalText(),
+  receiver: optionalText(),
+  partyType: optionalText(),
+  partyId: optionalText(),
+  partyName: optionalText(),
+  notes: optionalText(),
+  ...auditFields,
+  ...deletionFields,
+});
+
+export type TransactionRecord = z.output<typeof transactionSchema> & { id: string };
+
+/** Deposits/withdrawals against bank and cash accounts (`accountingTransactions` collection). */
+export const accountingTransactionSchema = z.object({
+  date: text(),
+  description: text(),
+  type: oneOf(["Deposit", "Withdrawal"], "Deposit"),
+  amount: amount(),
+  category: text("General"),
+  paymentMethod: optionalText(),
+  transferCharge: amount(),
+  accountType: optionalText(),
+  accountId: text(),
+  accountName: optionalText(),
+  reference: optionalText(),
+  notes: optionalText(),
+  status: paymentStatusSchema,
+  ...auditFields,
+});
+
+export type AccountingTransactionRecord = z.output<typeof accountingTransactionSchema> & { id: string };
+
+export const bankAccountSchema = z.object({
+  accountName: text(),
+  accountNumber: text(),
+  initialBalance: amount(),
+  opening: amount(),
+  ...auditFields,
+});
+
+export type BankAccountRecord = z.output<typeof bankAccountSchema> & { id: string };
+
+export const cashAccountSchema = z.object({
+  accountName: text("Cash"),
+  opening: amount(),
+  ...auditFields,
+});
+
+export type CashAccountRecord = z.output<typeof cashAccountSchema> & { id: string };
+
+// Older bank/cash account documents used `name` and `openingBalance`.
+function normalizeAccount(raw: Record<string, unknown>): Record<string, unknown> {
+  return {
+    ...raw,
+    accountName: raw.accountName || raw.name,
+    initialBalance: raw.initialBalance ?? raw.openingBalance,
+  };
+}
+
+// ---------- Ledger ----------
+
+export const accountTypeSchema = oneOf(["Asset", "Liability", "Equity", "Income", "Expense"], "Asset");
+export type AccountType = z.output<typeof accountTypeSchema>;
+
+export const journalSourceTypeSchema = oneOf(
+  ["invoice", "payment", "purchase", "purchaseBill", "debitCreditNote", "transfer", "bookEntry", "opening", "manual"],
+  "manual"
+);
+export type JournalSourceType = z.output<typeof journalSourceTypeSchema>;
+
+export const journalLineSchema = z.object({
+  accountCode: text(),
+  accountName: text(),
+  debit: amount(),
+  credit: amount(),
+  bankAccountId: optionalText(),
+  cashAccountId: optionalText(),
+  partyType: optionalText(),
+  partyId: optionalText(),
+  partyName: optionalText(),
+  memo: optionalText(),
+});
+
+export type JournalLine = z.output<typeof journalLineSchema>;
+
+export const journalEntrySchema = z.object({
+  date: text(),
+  memo: text(),
+  sourceType: journalSourceTypeSchema,
+  sourceId: text(),
+  reference: optionalText(),
+  lines: list(journalLineSchema),
+  total: amount(),
+  ...auditFields,
+  ...deletionFields,
+});
+
+export type JournalEntryRecord = z.output<typeof journalEntrySchema> & { id: string };
+
+// ---------- Staff ----------
+
+export const staffRoleSchema = oneOf(["admin", "accountant", "production", "sales"], "sales");
+export type StaffRole = z.output<typeof staffRoleSchema>;
+
+/** Stored under the lower-cased email so both auth backends can look staff up after sign-in. */
+export const staffUserSchema = z.object({
+  email: text(),
+  name: text(),
+  role: staffRoleSchema,
+  disabled: flag(),
+  // Only the local sign-in uses these (see passwords.ts); Firebase Auth keeps its own credentials.
+  passwordHash: optionalText(),
+  salt: optionalText(),
+  ...auditFields,
+});
+
+export type StaffUserRecord = z.output<typeof staffUserSchema> & { id: string };
+
+// ---------- Doctor portal ----------
+
+export const doctorStatusSchema = oneOf(["Active", "Inactive", "New"], "New");
+
+export const doctorSchema = z.object({
+  name: text(),
+  specialization: text(),
+  hospital: text(),
+  city: text(),
+  phone: text(),
+  email: text(),
+  status: doctorStatusSchema,
+  lastVisit: text("Never"),
+  prescriptions: amount(),
+  loginId: optionalText(),
+  // Plaintext password from before doctorCredentials existed; migrateLegacyPasswords removes it.
+  password: optionalText(),
+  ...auditFields,
+});
+
+export type DoctorRecord = z.output<typeof doctorSchema> & { id: string };
+
+export const patientHistorySchema = z.object({
+  id: text(),
+  date: text(),
+  note: text(),
+  doctor: optionalText(),
+  prescription: optionalText(),
+  pastHistory: optionalText(),
+  personalHistory: optionalText(),
+});
+
+/** A doctor's own patient, kept under doctors/{doctorId}/patients. */
+export const patientSchema = z.object({
+  name: text(),
+  age: optionalAmount(),
+  gender: optionalText(),
+  phone: optionalText(),
+  mobile: optionalText(),
+  email: optionalText(),
+  weight: optionalText(),
+  height: optionalText(),
+  bloodPressure: optionalText(),
+  bloodGroup: optionalText(),
+  notes: optionalText(),
+  histories: list(patientHistorySchema),
+  ...auditFields,
+});
+
+export type PatientRecord = z.output<typeof patientSchema> & { id: string };
+
+/** Stored under the doctor's id. */
+export const doctorCredentialSchema = z.object({
+  doctorId: text(),
+  loginId: text(),
+  salt: text(),
+  passwordHash: text(),
+  iterations: amount(),
+  failedAttempts: amount(),
+  lockedUntil: timestamp(),
+  ...auditFields,
+});
+
+export type DoctorCredentialRecord = z.output<typeof doctorCredentialSchema> & { id: string };
+
+export const doctorSessionSchema = z.object({
+  doctorId: text(),
+  expiresAt: timestamp(),
+  ...auditFields,
+});
+
+export type DoctorSessionRecord = z.output<typeof doctorSessionSchema> & { id: string };
+
+// ---------- Audit trail ----------
+
+export const auditActionSchema = oneOf(["create", "update", "delete"], "update");
+export type AuditAction = z.output<typeof auditActionSchema>;
+
+export const auditChangeSchema = z.object({
+  field: text(),
+  before: optionalText(),
+  after: optionalText(),
+});
+
+export type AuditChange = z.output<typeof auditChangeSchema>;
+
+export const auditLogSchema = z.object({
+  collection: text(),
+  recordId: text(),
+  action: auditActionSchema,
+  reference: optionalText(),
+  changes: list(auditChangeSchema),
+  /** Email of the signed-in staff member; empty for writes made without one. */
+  actor: text(),
+  /** Page the write was made from. */
+  source: text(),
+  ...auditFields,
+});
+
+export type AuditLogRecord = z.output<typeof auditLogSchema> & { id: string };
+
+// ---------- Company profile ----------
+
+export const drugLicenceSchema = z.object({
+  /** Licence form, e.g. "20B" or "Form 25". */
+  label: text(),
+  number: text(),
+});
+
+export type DrugLicence = z.output<typeof drugLicenceSchema>;
+
+/** The single record (id "default") every printed document takes the seller's details from. */
+export const companyProfileSchema = z.object({
+  legalName: text(),
+  tradeName: optionalText(),
+  gstin: text(),
+  pan: optionalText(),
+  /** GST state code; read from the GSTIN when empty. */
+  stateCode: optionalText(),
+  address: text(),
+  factoryAddress: optionalText(),
+  phone: optionalText(),
+  email: optionalText(),
+  website: optionalText(),
+  drugLicences: list(drugLicenceSchema),
+  bankName: optionalText(),
+  bankAccountName: optionalText(),
+  bankAccountNo: optionalText(),
+  bankIfsc: optionalText(),
+  bankBranch: optionalText(),
+  upiId: optionalText(),
+  /** Images as data URLs, kept small enough to live in the record. */
+  logo: optionalText(),
+  signature: optionalText(),
+  terms: optionalText(),
+  ...auditFields,
+});
+
+export type CompanyProfileRecord = z.output<typeof companyProfileSchema> & { id: string };
+
+// ---------- Document numbering ----------
+
+export const documentTypeSchema = oneOf(
+  ["invoice", "proformaInvoice", "quotation", "salesOrder", "deliveryChallan", "purchaseOrder", "goodsReceipt"],
+  "invoice"
+);
+export type DocumentType = z.output<typeof documentTypeSchema>;
+
+export const documentSeriesSchema = z.object({
+  documentType: documentTypeSchema,
+  prefix: text(),
+  /** Layout of the number: {PREFIX}, {FY} (2026-27), {FYS} (2627), {BRANCH} and {SEQ} are filled in. */
+  format: text(),
+  /** Digits the sequence is zero-padded to. */
+  padding: amount(),
+  /** Start again from 1 every April 1. */
+  resetYearly: flag(),
+});
+
+export type DocumentSeries = z.output<typeof documentSeriesSchema>;
+
+export const branchSchema = z.object({
+  /** Short code used in document numbers, e.g. "AHD". */
+  code: text(),
+  name: text(),
+});
+
+export type Branch = z.output<typeof branchSchema>;
+
+/** The single record (id "default") holding the series of each document type and the branches. */
+export const numberingSettingsSchema = z.object({
+  series: list(documentSeriesSchema),
+  branches: list(branchSchema),
+  ...auditFields,
+});
+
+export type NumberingSettingsRecord = z.output<typeof numberingSettingsSchema> & { id: string };
+
+/** Last number issued in one series; the id is "{documentType}_{financialYear}_{branch}". */
+export const numberCounterSchema = z.object({
+  documentType: documentTypeSchema,
+  financialYear: text(),
+  branch: text(),
+  lastNumber: amount(),
+  ...auditFields,
+});
+
+export type NumberCounterRecord = z.output<typeof numberCounterSchema> & { id: string };
+
+// ---------- Registry ----------
+
+export interface CollectionDefinition {
+  path: string;
+  schema: z.AnyZodObject;
+  normalize?: (raw: Record<string, unknown>) => Record<string, unknown>;
+  /**
+   * Path of the collection whose documents hold this one as a subcollection. Its records
+   * are addressed "{parentId}/{id}" and, having no single path, are written with put.
+   */
+  parent?: string;
+}
+
+export const collectionDefinitions = {
+  invoices: { path: "invoices", schema: invoiceSchema, normalize: normalizeInvoice },
+  proformaInvoices: { path: "proformaInvoices", schema: proformaInvoiceSchema },
+  quotations: { path: "quotations", schema: quotationSchema, normalize: normalizeInvoice },
+  salesOrders: { path: "salesOrders", schema: salesOrderSchema },
+  deliveryChallans: { path: "deliveryChallans", schema: deliveryChallanSchema },
+  purchaseOrders: { path: "purchaseOrders", schema: purchaseOrderSchema },
+  goodsReceipts: { path: "goodsReceipts", schema: goodsReceiptSchema },
+  payments: { path: "payments", schema: paymentSchema },
+  purchases: { path: "purchases", schema: purchaseSchema },
+  purchaseBills: { path: "purchaseBills", schema: purchaseBillSchema },
+  batches: { path: "batches", schema: batchSchema },
+  rawInventory: { path: "rawInventory", schema: rawInventorySchema },
+  processedInventory: { path: "processedInventory", schema: processedInventorySchema },
+  customers: { path: "customers", schema: partySchema },
+  suppliers: { path: "suppliers", schema: partySchema },
+  items: { path: "items", schema: itemSchema },
+  itemMonthlyReports: { path: "itemMonthlyReports", schema: itemMonthlyReportSchema },
+  itemNameSuggestions: { path: "itemNameSuggestions", schema: itemNameSuggestionSchema },
+  transactions: { path: "transactions", schema: transactionSchema },
+  accountingTransactions: { path: "accountingTransactions", schema: accountingTransactionSchema },
+  debitCreditNotes: { path: "debitCreditNotes", schema: debitCreditNoteSchema },
+  bankAccounts: { path: "bankAccounts", schema: bankAccountSchema, normalize: normalizeAccount },
+  cashAccounts: { path: "cashAccounts", schema: cashAccountSchema, normalize: normalizeAccount },
+  journalEntries: { path: "journalEntries", schema: journalEntrySchema },
+  stockMovements: { path: "stockMovements", schema: stockMovementSchema },
+  rawLots: { path: "rawLots", schema: rawLotSchema },
+  recipes: { path: "recipes", schema: recipeSchema },
+  qcSpecifications: { path: "qcSpecifications", schema: qcSpecificationSchema },
+  qcTests: { path: "qcTests", schema: qcTestSchema },
+  staffUsers: { path: "staffUsers", schema: staffUserSchema },
+  doctors: { path: "doctors", schema: doctorSchema },
+  patients: { path: "patients", schema: patientSchema, parent: "doctors" },
+  doctorCredentials: { path: "doctorCredentials", schema: doctorCredentialSchema },
+  doctorSessions: { path: "doctorSessions", schema: doctorSessionSchema },
+  auditLog: { path: "auditLog", schema: auditLogSchema },
+  companyProfile: { path: "companyProfile", schema: companyProfileSchema },
+  numberingSettings: { path: "numberingSettings", schema: numberingSettingsSchema },
+  numberCounters: { path: "numberCounters", schema: numberCounterSchema },
+} satisfies Record<string, CollectionDefinition>;
+
+export type CollectionName = keyof typeof collectionDefinitions;
+
+export type RecordOf<C extends CollectionName> = z.output<(typeof collectionDefinitions)[C]["schema"]> & { id: string };
+
+/** Fields a caller may write; ids and audit timestamps are managed by the repository. */
+export type RecordInput<C extends CollectionName> = Partial<Omit<RecordOf<C>, "id" | "createdAt" | "updatedAt">>;
@@ -0,0 +1,201 @@
+import { listRecords, runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import type {
+  DebitCreditNoteRecord,
+  ProcessedInventoryRecord,
+  RawInventoryRecord,
+  StockItemType,
+  StockMovementRecord,
+  StockMovementType,
+} from "@/lib/schemas";
+
+// Every write to an inventory quantity goes through applyStockChange (or recordMovement for
+// rows created with their stock) so the stockMovements log explains today's balance.
+
+export type StockItem = RawInventoryRecord | ProcessedInventoryRecord;
+
+export interface MovementSource {
+  date: string;
+  movementType: StockMovementType;
+  sourceType?: string;
+  sourceId?: string;
+  reference?: string;
+  notes?: string;
+}
+
+export function stockCollection(itemType: StockItemType) {
+  return itemType === "raw" ? "rawInventory" : "processedInventory";
+}
+
+export const today = () => new Date().toISOString().split("T")[0];
+
+/** Quantities are kept to three decimals so adding and taking back leaves no drift. */
+export const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+/** Reads processed items in the caller's transaction, keyed by id. */
+export async function readProcessedItems(tx: RecordTransaction, ids: Iterable<string>): Promise<Map<string, ProcessedInventoryRecord>> {
+  const items = new Map<string, ProcessedInventoryRecord>();
+  for (const id of ids) {
+    const item = await tx.get("processedInventory", id);
+    if (!item) throw new Error(`Processed inventory item not found: ${id}`);
+    items.set(id, item);
+  }
+  return items;
+}
+
+/**
+ * Units of each item a document has taken out of stock and not put back, read from the
+ * movements logged against it. Documents saved before the movement log hold nothing here.
+ */
+export async function heldStock(sourceType: string, sourceId: string): Promise<Map<string, number>> {
+  const held = new Map<string, number>();
+  for (const m of await listRecords("stockMovements", { where: [["sourceId", "==", sourceId]] })) {
+    if (m.sourceType !== sourceType) continue;
+    held.set(m.itemId, round3((held.get(m.itemId) ?? 0) - m.quantity));
+  }
+  for (const [id, quantity] of held) if (!quantity) held.delete(id);
+  return held;
+}
+
+/** Logs a movement for stock written some other way, e.g. a new item created with its opening quantity. */
+export function recordMovement(
+  tx: RecordTransaction,
+  itemType: StockItemType,
+  item: { id: string; name?: string; unit?: string },
+  quantity: number,
+  balanceAfter: number,
+  source: MovementSource
+) {
+  tx.create("stockMovements", {
+    ...source,
+    itemType,
+    itemId: item.id,
+    itemName: item.name,
+    unit: item.unit,
+    quantity,
+    balanceAfter,
+  });
+}
+
+/**
+ * Moves an item's stock by `delta` (negative for stock going out) and logs the movement.
+ * `item` must have been read in the same transaction.
+ */
+export function applyStockChange(
+  tx: RecordTransaction,
+  itemType: StockItemType,
+  item: StockItem,
+  delta: number,
+  source: MovementSource,
+  patch: { unit?: string; supplier?: string; quarantineQuantity?: number; reservedQuantity?: number } = {}
+): number {
+  const balanceAfter = item.quantity + delta;
+  tx.update(stockCollection(itemType), item.id, { ...patch, quantity: balanceAfter, lastUpdated: source.date || today() });
+  recordMovement(tx, itemType, { ...item, unit: patch.unit || item.unit }, delta, balanceAfter, source);
+  return balanceAfter;
+}
+
+export interface RawReceipt {
+  itemCode: string;
+  itemName: string;
+  supplierName: string;
+  quantity: number;
+  unit: string;
+}
+
+/**
+ * Brings purchased material into raw stock, creating the raw item on its first receipt.
+ * `current` is the item with this code, read in the same transaction. Returns its id.
+ */
+export function receiveRawStock(
+  tx: RecordTransaction,
+  current: RawInventoryRecord | null,
+  receipt: RawReceipt,
+  source: MovementSource
+): string {
+  if (!current) {
+    // Raw Inventory page expects: name/category/supplier/location/status/lastUpdated/reorderLevel
+    const item = {
+      itemCode: receipt.itemCode,
+      name: receipt.itemName,
+      category: "Purchased",
+      quantity: receipt.quantity,
+      unit: receipt.unit,
+      location: "Main Store",
+      supplier: receipt.supplierName,
+      reorderLevel: 0,
+      status: "Adequate" as const,
+      lastUpdated: source.date,
+    };
+    const id = tx.create("rawInventory", item);
+    recordMovement(tx, "raw", { ...item, id }, receipt.quantity, receipt.quantity, source);
+    return id;
+  }
+
+  applyStockChange(tx, "raw", current, receipt.quantity, source, {
+    unit: receipt.unit || current.unit,
+    supplier: receipt.supplierName || current.supplier,
+  });
+  return current.id;
+}
+
+/** Sets an item's stock to a counted quantity, logging the difference as an adjustment. */
+export async function adjustStock(itemType: StockItemType, itemId: string, countedQuantity: number, notes: string) {
+  await runRecordTransaction(async (tx) => {
+    const item = await tx.get(stockCollection(itemType), itemId);
+    if (!item) throw new Error("This item no longer exists.");
+    const delta = countedQuantity - item.quantity;
+    if (!delta) return;
+    applyStockChange(tx, itemType, item, delta, { date: today(), movementType: "adjustment", notes: notes || undefined });
+  });
+}
+
+export interface StockCardRow {
+  movement: StockMovementRecord;
+  quantityIn: number;
+  quantityOut: number;
+  balance: number;
+}
+
+export interface StockCard {
+  /** Stock that predates the movement log, derived so the running balance ends at today's quantity. */
+  broughtForward: number;
+  rows: StockCardRow[];
+}
+
+export function stockCard(currentQuantity: number, movements: StockMovementRecord[]): StockCard {
+  const ordered = [...movements].sort(
+    (a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || a.date.localeCompare(b.date)
+  );
+  const net = ordered.reduce((sum, m) => sum + m.quantity, 0);
+  const broughtForward = currentQuantity - net;
+
+  let balance = broughtForward;
+  const rows = ordered.map((movement) => {
+    balance += movement.quantity;
+    return {
+      movement,
+      quantityIn: Math.max(movement.quantity, 0),
+      quantityOut: Math.max(-movement.quantity, 0),
+      balance,
+    };
+  });
+  return { broughtForward, rows };
+}
+
+/**
+ * Which stock goods returned on a debit/credit note belong to. Customers return finished
+ * goods (credit note, stock in); we return raw material to suppliers (debit note, stock out).
+ */
+export function noteReturnItemType(noteType: string, partyType: string): StockItemType | null {
+  if (noteType === "Credit" && partyType === "customer") return "processed";
+  if (noteType === "Debit" && partyType === "supplier") return "raw";
+  return null;
+}
+
+export function noteReturnMovement(
+  note: Pick<DebitCreditNoteRecord, "noteType" | "partyType" | "returnItemId" | "returnQuantity">
+): { itemType: StockItemType; delta: number } | null {
+  const itemType = noteReturnItemType(note.noteType, note.partyType);
+  if (!itemType || !note.returnItemId || !(note.returnQuantity > 0)) return null;
+  return { itemType, delta: itemType === "processed" ? note.returnQuantity : -note.returnQuantity };
+}
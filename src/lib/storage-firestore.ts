@@ -0,0 +1,101 @@
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  limit as limitConstraint,
+  orderBy as orderByConstraint,
+  query,
+  runTransaction,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where as whereConstraint,
+  type Firestore,
+  type QueryConstraint,
+} from "firebase/firestore";
+import {
+  DatabaseUnavailableError,
+  type StorageBackend,
+  type StorageQuery,
+  type StorageTransaction,
+  type StoredDocument,
+  type StoredRecord,
+} from "@/lib/storage";
+
+/** Converts Firestore Timestamps (at any depth) to Dates so callers never see SDK types. */
+function fromFirestore(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromFirestore);
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = fromFirestore(v);
+    return out;
+  }
+  return value;
+}
+
+export class FirestoreStorage implements StorageBackend {
+  readonly kind = "firestore" as const;
+
+  private get database(): Firestore {
+    if (!db) throw new DatabaseUnavailableError();
+    return db;
+  }
+
+  async list(path: string, options: StorageQuery = {}): Promise<StoredRecord[]> {
+    const constraints: QueryConstraint[] = [];
+    for (const [field, op, value] of options.where ?? []) {
+      constraints.push(whereConstraint(field, op, value));
+    }
+    if (options.orderBy) constraints.push(orderByConstraint(options.orderBy, options.direction ?? "asc"));
+    if (options.limit) constraints.push(limitConstraint(options.limit));
+
+    const snap = await getDocs(query(collection(this.database, path), ...constraints));
+    return snap.docs.map((d) => ({ id: d.id, data: fromFirestore(d.data()) as StoredDocument }));
+  }
+
+  async get(path: string, id: string): Promise<StoredDocument | null> {
+    const snap = await getDoc(doc(this.database, path, id));
+    return snap.exists() ? (fromFirestore(snap.data()) as StoredDocument) : null;
+  }
+
+  newId(path: string): string {
+    return doc(collection(this.database, path)).id;
+  }
+
+  async set(path: string, id: string, data: StoredDocument): Promise<void> {
+    await setDoc(doc(this.database, path, id), data);
+  }
+
+  async update(path: string, id: string, patch: StoredDocument): Promise<void> {
+    await updateDoc(doc(this.database, path, id), patch);
+  }
+
+  async remove(path: string, id: string): Promise<void> {
+    await deleteDoc(doc(this.database, path, id));
+  }
+
+  runTransaction<T>(fn: (tx: StorageTransaction) => Promise<T>): Promise<T> {
+    const database = this.database;
+    return runTransaction(database, (transaction) =>
+      fn({
+        get: async (path, id) => {
+          const snap = await transaction.get(doc(database, path, id));
+          return snap.exists() ? (fromFirestore(snap.data()) as StoredDocument) : null;
+        },
+        set: (path, id, data) => {
+          transaction.set(doc(database, path, id), data);
+        },
+        update: (path, id, patch) => {
+          transaction.update(doc(database, path, id), patch);
+        },
+        delete: (path, id) => {
+          transaction.delete(doc(database, path, id));
+        },
+      })
+    );
+  }
+}
@@ -0,0 +1,267 @@
+import {
+  DocumentNotFoundError,
+  type StorageBackend,
+  type StorageKind,
+  type StorageQuery,
+  type StorageTransaction,
+  type StoredDocument,
+  type StoredRecord,
+  type WhereOp,
+} from "@/lib/storage";
+
+// A document store that lives in the page. With no persistence it is the in-memory backend
+// used by tests; with IndexedDbPersistence it survives reloads so the app works offline and
+// without a Firebase project. Query semantics follow Firestore closely enough for the pages:
+// a where/orderBy on a field skips documents that don't have it.
+
+export interface LocalChange {
+  path: string;
+  id: string;
+  data: StoredDocument | null;
+}
+
+export interface LocalPersistence {
+  load(): Promise<LocalChange[]>;
+  save(changes: LocalChange[]): Promise<void>;
+}
+
+const ID_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+function randomId(): string {
+  const bytes = new Uint8Array(20);
+  if (globalThis.crypto?.getRandomValues) {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return Array.from(bytes, (b) => ID_CHARS[b % ID_CHARS.length]).join("");
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function readField(data: StoredDocument, field: string): unknown {
+  let value: unknown = data;
+  for (const part of field.split(".")) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function writeField(data: StoredDocument, field: string, value: unknown) {
+  const parts = field.split(".");
+  let target = data;
+  for (const part of parts.slice(0, -1)) {
+    const next = target[part];
+    if (!next || typeof next !== "object" || Array.isArray(next)) target[part] = {};
+    target = target[part] as StoredDocument;
+  }
+  target[parts[parts.length - 1]] = value;
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return comparable(a) === comparable(b);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (typeof x === "number" && typeof y === "number") return x - y;
+  if (typeof x === "string" && typeof y === "string") return x < y ? -1 : x > y ? 1 : 0;
+  return String(x).localeCompare(String(y));
+}
+
+function matches(value: unknown, op: WhereOp, expected: unknown): boolean {
+  if (value === undefined) return false;
+  switch (op) {
+    case "==":
+      return sameValue(value, expected);
+    case "!=":
+      return !sameValue(value, expected);
+    case "in":
+      return Array.isArray(expected) && expected.some((e) => sameValue(value, e));
+    case "not-in":
+      return Array.isArray(expected) && !expected.some((e) => sameValue(value, e));
+    case "array-contains":
+      return Array.isArray(value) && value.some((v) => sameValue(v, expected));
+    default: {
+      if (typeof comparable(value) !== typeof comparable(expected)) return false;
+      const diff = compareValues(value, expected);
+      if (op === "<") return diff < 0;
+      if (op === "<=") return diff <= 0;
+      if (op === ">") return diff > 0;
+      return diff >= 0;
+    }
+  }
+}
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly kind: StorageKind;
+  private readonly collections = new Map<string, Map<string, StoredDocument>>();
+  private readonly ready: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly persistence?: LocalPersistence) {
+    this.kind = persistence ? "indexeddb" : "memory";
+    this.ready = persistence
+      ? persistence.load().then(
+          (rows) => {
+            for (const row of rows) if (row.data) this.docs(row.path).set(row.id, row.data);
+          },
+          (error) => console.error("Error loading local database", error)
+        )
+      : Promise.resolve();
+  }
+
+  private docs(path: string): Map<string, StoredDocument> {
+    let docs = this.collections.get(path);
+    if (!docs) {
+      docs = new Map();
+      this.collections.set(path, docs);
+    }
+    return docs;
+  }
+
+  /** Serializes writers so a transaction never sees another one half-applied. */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => this.ready).then(fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async list(path: string, options: StorageQuery = {}): Promise<StoredRecord[]> {
+    await this.ready;
+    let rows = Array.from(this.docs(path), ([id, data]) => ({ id, data }));
+    for (const [field, op, value] of options.where ?? []) {
+      rows = rows.filter((r) => matches(readField(r.data, field), op, value));
+    }
+    if (options.orderBy) {
+      const field = options.orderBy;
+      const sign = options.direction === "desc" ? -1 : 1;
+      rows = rows
+        .filter((r) => readField(r.data, field) !== undefined)
+        .sort((a, b) => sign * compareValues(readField(a.data, field), readField(b.data, field)));
+    }
+    if (options.limit) rows = rows.slice(0, options.limit);
+    return rows.map((r) => ({ id: r.id, data: clone(r.data) }));
+  }
+
+  async get(path: string, id: string): Promise<StoredDocument | null> {
+    await this.ready;
+    const data = this.docs(path).get(id);
+    return data ? clone(data) : null;
+  }
+
+  newId(): string {
+    return randomId();
+  }
+
+  set(path: string, id: string, data: StoredDocument): Promise<void> {
+    return this.runTransaction(async (tx) => tx.set(path, id, data));
+  }
+
+  update(path: string, id: string, patch: StoredDocument): Promise<void> {
+    return this.runTransaction(async (tx) => {
+      if (!(await tx.get(path, id))) throw new DocumentNotFoundError(path, id);
+      tx.update(path, id, patch);
+    });
+  }
+
+  remove(path: string, id: string): Promise<void> {
+    return this.runTransaction(async (tx) => tx.delete(path, id));
+  }
+
+  runTransaction<T>(fn: (tx: StorageTransaction) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const pending = new Map<string, LocalChange>();
+      const key = (path: string, id: string) => `${path}\u0000${id}`;
+      const current = (path: string, id: string): StoredDocument | null => {
+        const write = pending.get(key(path, id));
+        if (write) return write.data;
+        return this.docs(path).get(id) ?? null;
+      };
+
+      const result = await fn({
+        get: async (path, id) => {
+          const data = current(path, id);
+          return data ? clone(data) : null;
+        },
+        set: (path, id, data) => {
+          pending.set(key(path, id), { path, id, data: clone(data) });
+        },
+        update: (path, id, patch) => {
+          const base = current(path, id);
+          if (!base) throw new DocumentNotFoundError(path, id);
+          const next = clone(base);
+          for (const [field, value] of Object.entries(clone(patch))) writeField(next, field, value);
+          pending.set(key(path, id), { path, id, data: next });
+        },
+        delete: (path, id) => {
+          pending.set(key(path, id), { path, id, data: null });
+        },
+      });
+
+      const changes = Array.from(pending.values());
+      if (changes.length && this.persistence) await this.persistence.save(changes);
+      for (const change of changes) {
+        if (change.data) this.docs(change.path).set(change.id, change.data);
+        else this.docs(change.path).delete(change.id);
+      }
+      return result;
+    });
+  }
+}
+
+const IDB_NAME = "sentiment-pharma";
+const IDB_STORE = "documents";
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Keeps every document in one object store keyed by [collection path, id]. */
+export class IndexedDbPersistence implements LocalPersistence {
+  private database: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB is not available in this browser."));
+      const request = indexedDB.open(IDB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IDB_STORE, { keyPath: ["path", "id"] });
+      };
+      this.database = requestResult(request);
+    }
+    return this.database;
+  }
+
+  async load(): Promise<LocalChange[]> {
+    const database = await this.open();
+    const store = database.transaction(IDB_STORE, "readonly").objectStore(IDB_STORE);
+    return requestResult(store.getAll() as IDBRequest<LocalChange[]>);
+  }
+
+  async save(changes: LocalChange[]): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(IDB_STORE, "readwrite");
+    const store = transaction.objectStore(IDB_STORE);
+    for (const change of changes) {
+      if (change.data) store.put(change);
+      else store.delete([change.path, change.id]);
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import { db } from "@/lib/firebase";
+import { FirestoreStorage } from "@/lib/storage-firestore";
+import { IndexedDbPersistence, LocalStorageBackend } from "@/lib/storage-local";
+
+// Everything the repository needs from a document store. Paths are collection paths
+// ("invoices", "doctors/abc/patients"); documents are plain objects whose timestamps are
+// JS Dates regardless of which backend stored them.
+
+export type StoredDocument = Record<string, unknown>;
+
+export interface StoredRecord {
+  id: string;
+  data: StoredDocument;
+}
+
+export type WhereOp = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "not-in" | "array-contains";
+
+export type WhereClause = [field: string, op: WhereOp, value: unknown];
+
+export interface StorageQuery {
+  where?: WhereClause[];
+  orderBy?: string;
+  direction?: "asc" | "desc";
+  limit?: number;
+}
+
+/** Reads must happen before writes; writes are applied together when the callback resolves. */
+export interface StorageTransaction {
+  get(path: string, id: string): Promise<StoredDocument | null>;
+  set(path: string, id: string, data: StoredDocument): void;
+  update(path: string, id: string, patch: StoredDocument): void;
+  delete(path: string, id: string): void;
+}
+
+export type StorageKind = "firestore" | "indexeddb" | "memory";
+
+export interface StorageBackend {
+  readonly kind: StorageKind;
+  list(path: string, query?: StorageQuery): Promise<StoredRecord[]>;
+  get(path: string, id: string): Promise<StoredDocument | null>;
+  newId(path: string): string;
+  set(path: string, id: string, data: StoredDocument): Promise<void>;
+  update(path: string, id: string, patch: StoredDocument): Promise<void>;
+  remove(path: string, id: string): Promise<void>;
+  runTransaction<T>(fn: (tx: StorageTransaction) => Promise<T>): Promise<T>;
+}
+
+export class DatabaseUnavailableError extends Error {
+  constructor() {
+    super("Firebase is not initialized. Please check your environment variables.");
+    this.name = "DatabaseUnavailableError";
+  }
+}
+
+export class DocumentNotFoundError extends Error {
+  constructor(path: string, id: string) {
+    super(`No document ${path}/${id}.`);
+    this.name = "DocumentNotFoundError";
+  }
+}
+
+/**
+ * Picks the backend from VITE_STORAGE_BACKEND. Tests always get an in-memory store; when
+ * nothing is configured the app uses Firestore if it initialized and IndexedDB otherwise.
+ */
+export function resolveStorageKind(configured: string | undefined, mode: string, firestoreReady: boolean): StorageKind {
+  if (mode === "test") return "memory";
+  if (configured === "firestore" || configured === "indexeddb" || configured === "memory") return configured;
+  return firestoreReady ? "firestore" : "indexeddb";
+}
+
+let current: StorageBackend | null = null;
+
+function createBackend(kind: StorageKind): StorageBackend {
+  if (kind === "firestore") return new FirestoreStorage();
+  if (kind === "indexeddb") return new LocalStorageBackend(new IndexedDbPersistence());
+  return new LocalStorageBackend();
+}
+
+export function getStorage(): StorageBackend {
+  if (!current) {
+    current = createBackend(resolveStorageKind(import.meta.env.VITE_STORAGE_BACKEND, import.meta.env.MODE, !!db));
+  }
+  return current;
+}
+
+/** Replaces the active backend, e.g. with a fresh in-memory store per test. */
+export function setStorage(backend: StorageBackend | null) {
+  current = backend;
+}
@@ -0,0 +1,188 @@
+import type {
+  BatchItem,
+  BatchLotUsage,
+  BatchRecord,
+  DeliveryChallanRecord,
+  InvoiceRecord,
+  ProformaInvoiceRecord,
+  PurchaseBillRecord,
+  PurchaseRecord,
+  RawLotRecord,
+  StockMovementRecord,
+} from "@/lib/schemas";
+
+// Batch genealogy. Upstream comes from the lots each batch line consumed; downstream from
+// stock movements: the batch's "production" movement names the finished-goods item, and any
+// dispatch of that item afterwards may carry the batch. Finished goods are pooled per product,
+// so downstream is every customer who could have received it, which is what a recall needs.
+
+export interface TraceData {
+  batches: BatchRecord[];
+  lots: RawLotRecord[];
+  purchases: PurchaseRecord[];
+  purchaseBills: PurchaseBillRecord[];
+  /** Finished-goods movements; raw movements are ignored. */
+  movements: StockMovementRecord[];
+  invoices: InvoiceRecord[];
+  proformaInvoices: ProformaInvoiceRecord[];
+  deliveryChallans: DeliveryChallanRecord[];
+}
+
+export type TraceQuery =
+  | { kind: "batch"; batchNo: string }
+  | { kind: "rawItem"; rawItemId: string }
+  | { kind: "purchase"; invoiceNo: string };
+
+export interface TracedLot {
+  usage: BatchLotUsage;
+  lot?: RawLotRecord;
+  purchase?: PurchaseRecord;
+  bill?: PurchaseBillRecord;
+}
+
+export interface TracedInput {
+  item: BatchItem;
+  lots: TracedLot[];
+  /** Quantity drawn from stock received before lots were recorded, so of unknown origin. */
+  untracked: number;
+}
+
+export interface TracedDispatch {
+  date: string;
+  documentType: "Invoice" | "Proforma Invoice" | "Delivery Challan";
+  documentId: string;
+  documentNo: string;
+  customer: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface BatchTrace {
+  batch: BatchRecord;
+  inputs: TracedInput[];
+  product?: { itemId: string; itemName: string; quantity: number; unit: string; date: string };
+  dispatches: TracedDispatch[];
+}
+
+const byId = <T extends { id: string }>(rows: T[]) => new Map(rows.map((row) => [row.id, row]));
+
+const createdAtMs = (m: StockMovementRecord) => m.createdAt?.getTime() ?? 0;
+
+function matchingBatches(data: TraceData, query: TraceQuery): BatchRecord[] {
+  switch (query.kind) {
+    case "batch": {
+      const q = query.batchNo.trim().toLowerCase();
+      return data.batches.filter((b) => b.batchNo.toLowerCase() === q || b.manualBatchNo?.toLowerCase() === q);
+    }
+    case "rawItem":
+      return data.batches.filter((b) => b.items.some((item) => item.rawItemId === query.rawItemId));
+    case "purchase": {
+      const lotIds = new Set(tracePurchaseLots(data, query.invoiceNo).map((lot) => lot.id));
+      return data.batches.filter((b) => b.items.some((item) => (item.lots ?? []).some((use) => lotIds.has(use.lotId))));
+    }
+  }
+}
+
+/** Purchase bills by the goods-receipt lots they billed, keyed `goodsReceiptId|lotNo`. */
+function billsByReceiptLot(bills: PurchaseBillRecord[]): Map<string, PurchaseBillRecord> {
+  const keys = new Map<string, PurchaseBillRecord>();
+  for (const bill of bills) {
+    for (const line of bill.items) {
+      if (line.goodsReceiptId) keys.set(`${line.goodsReceiptId}|${line.lotNo ?? ""}`, bill);
+    }
+  }
+  return keys;
+}
+
+/** The purchase bill a lot came in on: directly, or through the goods receipt it billed. */
+function lotBill(lot: RawLotRecord, bills: Map<string, PurchaseBillRecord>, receiptLots: Map<string, PurchaseBillRecord>) {
+  if (lot.purchaseBillId) return bills.get(lot.purchaseBillId);
+  return lot.goodsReceiptId ? receiptLots.get(`${lot.goodsReceiptId}|${lot.lotNo}`) : undefined;
+}
+
+/** Lots received on a supplier invoice: a purchase bill, directly or on the goods receipts it billed, or older purchase rows. */
+export function tracePurchaseLots(data: Pick<TraceData, "lots" | "purchases" | "purchaseBills">, invoiceNo: string): RawLotRecord[] {
+  const q = invoiceNo.trim().toLowerCase();
+  const purchaseIds = new Set(data.purchases.filter((p) => p.invoiceNo.toLowerCase() === q).map((p) => p.id));
+  const bills = data.purchaseBills.filter((b) => b.billNo.toLowerCase() === q);
+  const billIds = byId(bills);
+  const receiptLots = billsByReceiptLot(bills);
+  return data.lots.filter((lot) => (lot.purchaseId && purchaseIds.has(lot.purchaseId)) || lotBill(lot, billIds, receiptLots));
+}
+
+function traceInputs(batch: BatchRecord, lots: Map<string, RawLotRecord>, data: TraceData): TracedInput[] {
+  const purchases = byId(data.purchases);
+  const bills = byId(data.purchaseBills);
+  const receiptLots = billsByReceiptLot(data.purchaseBills);
+  return batch.items
+    .filter((item) => item.rawItemId && item.useQuantity > 0)
+    .map((item) => {
+      const used = (item.lots ?? []).map((usage) => {
+        const lot = lots.get(usage.lotId);
+        return {
+          usage,
+          lot,
+          purchase: lot?.purchaseId ? purchases.get(lot.purchaseId) : undefined,
+          bill: lot ? lotBill(lot, bills, receiptLots) : undefined,
+        };
+      });
+      const fromLots = used.reduce((sum, u) => sum + u.usage.quantity, 0);
+      return { item, lots: used, untracked: Math.max(item.useQuantity - fromLots, 0) };
+    });
+}
+
+function traceDispatches(production: StockMovementRecord, data: TraceData): TracedDispatch[] {
+  const documents = {
+    invoice: { documentType: "Invoice" as const, byId: byId(data.invoices) },
+    proformaInvoice: { documentType: "Proforma Invoice" as const, byId: byId(data.proformaInvoices) },
+    deliveryChallan: { documentType: "Delivery Challan" as const, byId: byId(data.deliveryChallans) },
+  };
+  const producedAt = createdAtMs(production);
+
+  return data.movements
+    .filter(
+      (m) =>
+        m.movementType === "dispatch" &&
+        m.itemType === "processed" &&
+        m.itemId === production.itemId &&
+        createdAtMs(m) >= producedAt
+    )
+    .map((m) => {
+      // Invoices are the only other documents that dispatch goods.
+      const source = documents[m.sourceType as keyof typeof documents] ?? documents.invoice;
+      return {
+        date: m.date,
+        documentType: source.documentType,
+        documentId: m.sourceId ?? "",
+        documentNo: m.reference || "-",
+        customer: source.byId.get(m.sourceId ?? "")?.partyName || "Unknown",
+        quantity: -m.quantity,
+        unit: m.unit,
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function traceBatches(data: TraceData, query: TraceQuery): BatchTrace[] {
+  const lots = byId(data.lots);
+
+  return matchingBatches(data, query)
+    .sort((a, b) => a.batchDate.localeCompare(b.batchDate))
+    .map((batch) => {
+      const production = data.movements.find(
+        (m) => m.movementType === "production" && m.sourceType === "batch" && m.sourceId === batch.id
+      );
+      return {
+        batch,
+        inputs: traceInputs(batch, lots, data),
+        product: production && {
+          itemId: production.itemId,
+          itemName: production.itemName,
+          quantity: production.quantity,
+          unit: production.unit,
+          date: production.date,
+        },
+        dispatches: production ? traceDispatches(production, data) : [],
+      };
+    });
+}
@@ -6,42 +6,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
 import {
-  addDoc,
-  collection,
-  getDocs,
-  orderBy,
-  query,
-  Timestamp,
-} from "firebase/firestore";
+  accountBalances,
+  bankOpeningJournal,
+  journalId,
+  postJournal,
+  rebuildLedger,
+  transferJournal,
+} from "@/lib/ledger";
+import { letterheadHtml } from "@/lib/letterhead";
+import { DatabaseUnavailableError, listRecords, runRecordTransaction } from "@/lib/repository";
+import type { BankAccountRecord, JournalEntryRecord } from "@/lib/schemas";
 import { saveAs } from "file-saver";
-import { ArrowLeftRight, FileDown, FileText, Landmark, RefreshCw } from "lucide-react";
-
-type TransactionType = "Income" | "Expense";
-
-interface AccountingTransaction {
-  id: string;
-  date: string; // YYYY-MM-DD
-  description: string;
-  category: string;
-  type: TransactionType;
-  amount: number;
-  paymentMethod?: string;
-  bankAccountId?: string;
-  bankAccountName?: string;
-  receiver?: string;
-  createdAt?: Date;
-}
+import { ArrowLeftRight, BookOpen, FileDown, FileText, Landmark, RefreshCw } from "lucide-react";
 
-interface BankAccount {
-  id: string;
-  accountName: string;
-  accountNumber: string;
-  initialBalance: number;
-  createdAt?: Date;
-}
+type BankAccount = BankAccountRecord;
 
 const rupees = (value: number) => `₹${(value || 0).toLocaleString("en-IN")}`;
 
@@ -74,11 +55,12 @@ function escapeHtml(value: unknown): string {
 }
 
 export default function Accounting() {
-  const [transactions, setTransactions] = useState<AccountingTransaction[]>([]);
+  const [entries, setEntries] = useState<JournalEntryRecord[]>([]);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
 
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isRebuilding, setIsRebuilding] = useState(false);
 
   const [isManageBanksOpen, setIsManageBanksOpen] = useState(false);
   const [bankForm, setBankForm] = useState({
@@ -97,47 +79,14 @@ export default function Accounting() {
   });
 
   const { toast } = useToast();
+  const { company } = useCompany();
 
-  const fetchTransactions = async () => {
-    const qy = query(collection(db, "transactions"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        date: (data.date || "").toString(),
-        description: (data.description || "").toString(),
-        category: (data.category || "General").toString(),
-        amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-        type: (data.type || "Income") as TransactionType,
-        paymentMethod: (data.paymentMethod || "").toString() || undefined,
-        bankAccountId: (data.bankAccountId || "").toString() || undefined,
-        bankAccountName: (data.bankAccountName || "").toString() || undefined,
-        receiver: (data.receiver || data.partyName || "").toString() || undefined,
-        createdAt: data.createdAt?.toDate?.() || new Date(),
-      } as AccountingTransaction;
-    });
-    setTransactions(list);
+  const fetchEntries = async () => {
+    setEntries(await listRecords("journalEntries", { orderBy: "date", direction: "desc" }));
   };
 
   const fetchBankAccounts = async () => {
-    const qy = query(collection(db, "bankAccounts"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        accountName: (data.accountName || data.name || "").toString(),
-        accountNumber: (data.accountNumber || "").toString(),
-        initialBalance:
-          typeof data.initialBalance === "number"
-            ? data.initialBalance
-            : typeof data.openingBalance === "number"
-              ? data.openingBalance
-              : parseFloat(data.initialBalance ?? data.openingBalance) || 0,
-        createdAt: data.createdAt?.toDate?.() || new Date(),
-      } as BankAccount;
-    });
+    const list = await listRecords("bankAccounts", { orderBy: "createdAt", direction: "desc" });
     // Filter out ABC BANK and other test banks
     const filteredList = list.filter((b) => {
       const name = (b.accountName || "").toUpperCase().trim();
@@ -147,22 +96,18 @@ export default function Accounting() {
   };
 
   const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
     setIsLoading(true);
     try {
-      await Promise.all([fetchBankAccounts(), fetchTransactions()]);
+      await Promise.all([fetchBankAccounts(), fetchEntries()]);
     } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
       console.error("Error loading accounting data", error);
       toast({
         title: "Load failed",
-        description: "Could not load bank accounts/transactions from Firestore.",
+        description: "Could not load bank accounts/ledger from Firestore.",
         variant: "destructive",
       });
     } finally {
@@ -174,32 +119,51 @@ export default function Accounting() {
     fetchAll();
   }, []);
 
+  const balances = useMemo(() => accountBalances(entries), [entries]);
+
   const incomeTotal = useMemo(
-    () => transactions.filter((t) => t.type === "Income").reduce((sum, t) => sum + (t.amount || 0), 0),
-    [transactions]
+    () => balances.filter((b) => b.account.type === "Income").reduce((sum, b) => sum + b.balance, 0),
+    [balances]
   );
 
   const expenseTotal = useMemo(
-    () => transactions.filter((t) => t.type === "Expense").reduce((sum, t) => sum + (t.amount || 0), 0),
-    [transactions]
+    () => balances.filter((b) => b.account.type === "Expense").reduce((sum, b) => sum + b.balance, 0),
+    [balances]
   );
 
   const netBalance = useMemo(() => incomeTotal - expenseTotal, [incomeTotal, expenseTotal]);
 
+  // Opening balances live on the bank account itself, so only movements come from the ledger.
   const bankBalanceById = useMemo(() => {
     const map = new Map<string, number>();
     for (const bank of bankAccounts) {
       map.set(bank.id, bank.initialBalance || 0);
     }
-    for (const t of transactions) {
-      if (!t.bankAccountId) continue;
-      if (!map.has(t.bankAccountId)) map.set(t.bankAccountId, 0);
-      const prev = map.get(t.bankAccountId) ?? 0;
-      const delta = t.type === "Income" ? (t.amount || 0) : -(t.amount || 0);
-      map.set(t.bankAccountId, prev + delta);
+    for (const entry of entries) {
+      if (entry.sourceType === "opening") continue;
+      for (const line of entry.lines) {
+        if (!line.bankAccountId) continue;
+        const prev = map.get(line.bankAccountId) ?? 0;
+        map.set(line.bankAccountId, prev + (line.debit || 0) - (line.credit || 0));
+      }
     }
     return map;
-  }, [bankAccounts, transactions]);
+  }, [bankAccounts, entries]);
+
+  const handleRebuild = async () => {
+    if (!confirm("Re-post every invoice, payment, purchase and note to the ledger?")) return;
+    setIsRebuilding(true);
+    try {
+      const { posted, removed } = await rebuildLedger();
+      toast({ title: "Ledger rebuilt", description: `${posted} entries posted, ${removed} stale entries removed.` });
+      fetchEntries();
+    } catch (error) {
+      console.error("Error rebuilding ledger", error);
+      toast({ title: "Rebuild failed", description: "Could not rebuild the ledger.", variant: "destructive" });
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
 
   const openManageBanks = () => {
     setBankForm({ accountName: "", accountNumber: "", initialBalance: "0" });
@@ -219,7 +183,6 @@ export default function Accounting() {
 
   const createBankAccount = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!db) return;
 
     const accountName = bankForm.accountName.trim();
     const accountNumber = bankForm.accountNumber.trim();
@@ -236,15 +199,14 @@ export default function Accounting() {
 
     setIsSubmitting(true);
     try {
-      await addDoc(collection(db, "bankAccounts"), {
-        accountName,
-        accountNumber,
-        initialBalance,
-        createdAt: Timestamp.now(),
+      await runRecordTransaction(async (tx) => {
+        const account = { accountName, accountNumber, initialBalance };
+        const id = tx.create("bankAccounts", account);
+        postJournal(tx, "opening", `bank-${id}`, bankOpeningJournal({ ...account, id, createdAt: new Date() }));
       });
       toast({ title: "Bank added", description: "Bank account created successfully." });
       setIsManageBanksOpen(false);
-      fetchBankAccounts();
+      fetchAll();
     } catch (error) {
       console.error("Error creating bank account", error);
       toast({ title: "Create failed", description: "Could not create bank account.", variant: "destructive" });
@@ -255,7 +217,6 @@ export default function Accounting() {
 
   const createSelfTransfer = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!db) return;
 
     const amount = safeNumber(transferForm.amount);
     if (!transferForm.fromBankId || !transferForm.toBankId) {
@@ -285,8 +246,9 @@ export default function Accounting() {
     setIsSubmitting(true);
     try {
       const transferId = `TRF-${Date.now()}`;
-      await Promise.all([
-        addDoc(collection(db, "transactions"), {
+      await runRecordTransaction(async (tx) => {
+        // The paired Expense/Income rows keep the bank and cash books working.
+        tx.create("transactions", {
           date: transferForm.date,
           description: transferForm.description || `Self transfer to ${toBank.accountName}`,
           category: "Self Transfer",
@@ -300,9 +262,8 @@ export default function Accounting() {
           paymentMethod: "Bank Transfer",
           bankAccountId: fromBank.id,
           bankAccountName: fromBank.accountName,
-          createdAt: Timestamp.now(),
-        }),
-        addDoc(collection(db, "transactions"), {
+        });
+        tx.create("transactions", {
           date: transferForm.date,
           description: transferForm.description || `Self transfer from ${fromBank.accountName}`,
           category: "Self Transfer",
@@ -316,13 +277,27 @@ export default function Accounting() {
           paymentMethod: "Bank Transfer",
           bankAccountId: toBank.id,
           bankAccountName: toBank.accountName,
-          createdAt: Timestamp.now(),
-        }),
-      ]);
+        });
+        postJournal(
+          tx,
+          "transfer",
+          transferId,
+          transferJournal({
+            reference: transferId,
+            date: transferForm.date,
+            description: transferForm.description,
+            amount,
+            fromBankId: fromBank.id,
+            fromBankName: fromBank.accountName,
+            toBankId: toBank.id,
+            toBankName: toBank.accountName,
+          })
+        );
+      });
 
       toast({ title: "Transfer created", description: "Self transfer recorded successfully." });
       setIsSelfTransferOpen(false);
-      fetchTransactions();
+      fetchEntries();
     } catch (error) {
       console.error("Error creating self transfer", error);
       toast({ title: "Transfer failed", description: "Could not create transfer.", variant: "destructive" });
@@ -331,38 +306,37 @@ export default function Accounting() {
     }
   };
 
+  const journalRows = useMemo(
+    () =>
+      entries.flatMap((entry) =>
+        entry.lines.map((line, index) => ({
+          key: `${entry.id}-${index}`,
+          first: index === 0,
+          entry,
+          line,
+        }))
+      ),
+    [entries]
+  );
+
   const downloadCsv = () => {
-    const headers = [
-      "Date",
-      "Description",
-      "Category",
-      "Type",
-      "Payment Method",
-      "Bank Account",
-      "Standard Receiver",
-      "Amount",
-    ];
-
-    const rows = transactions.map((t) => {
-      const bankName =
-        t.bankAccountName ||
-        (t.bankAccountId ? bankAccounts.find((b) => b.id === t.bankAccountId)?.accountName : "") ||
-        "";
-      const paymentMethod = t.paymentMethod || (t.bankAccountId ? "Bank" : "");
-      return [
-        t.date,
-        t.description,
-        t.category,
-        t.type,
-        paymentMethod,
-        bankName,
-        t.receiver || "",
-        t.amount,
-      ].map(escapeCsv);
-    });
+    const headers = ["Date", "Entry", "Memo", "Reference", "Account", "Party", "Debit", "Credit"];
+
+    const rows = journalRows.map(({ entry, line }) =>
+      [
+        entry.date,
+        journalId(entry.sourceType, entry.sourceId),
+        entry.memo,
+        entry.reference || "",
+        `${line.accountCode} ${line.accountName}`,
+        line.partyName || line.memo || "",
+        line.debit || "",
+        line.credit || "",
+      ].map(escapeCsv)
+    );
 
     const csv = [headers.map(escapeCsv).join(","), ...rows.map((r) => r.join(","))].join("\n");
-    saveAs(new Blob([csv], { type: "text/csv;charset=utf-8" }), `accounting-transactions-${new Date().toISOString().slice(0, 10)}.csv`);
+    saveAs(new Blob([csv], { type: "text/csv;charset=utf-8" }), `general-ledger-${new Date().toISOString().slice(0, 10)}.csv`);
   };
 
   const downloadPdf = () => {
@@ -372,24 +346,16 @@ export default function Accounting() {
       return;
     }
 
-    const rowsHtml = transactions
-      .map((t) => {
-        const bankName =
-          t.bankAccountName ||
-          (t.bankAccountId ? bankAccounts.find((b) => b.id === t.bankAccountId)?.accountName : "") ||
-          "";
-        const paymentMethod = t.paymentMethod || (t.bankAccountId ? "Bank" : "");
-        const amount = `${t.type === "Income" ? "+" : "-"}${rupees(t.amount)}`;
+    const rowsHtml = journalRows
+      .map(({ first, entry, line }) => {
         return `
           <tr>
-            <td>${escapeHtml(t.date)}</td>
-            <td>${escapeHtml(t.description)}</td>
-            <td>${escapeHtml(t.category)}</td>
-            <td>${escapeHtml(t.type)}</td>
-            <td>${escapeHtml(paymentMethod)}</td>
-            <td>${escapeHtml(bankName)}</td>
-            <td>${escapeHtml(t.receiver || "")}</td>
-            <td style="text-align:right">${escapeHtml(amount)}</td>
+            <td>${first ? escapeHtml(entry.date) : ""}</td>
+            <td>${first ? escapeHtml(entry.memo) : ""}</td>
+            <td>${escapeHtml(`${line.accountCode} ${line.accountName}`)}</td>
+            <td>${escapeHtml(line.partyName || line.memo || "")}</td>
+            <td style="text-align:right">${line.debit ? escapeHtml(rupees(line.debit)) : ""}</td>
+            <td style="text-align:right">${line.credit ? escapeHtml(rupees(line.credit)) : ""}</td>
           </tr>
         `;
       })
@@ -398,7 +364,7 @@ export default function Accounting() {
     win.document.write(`
       <html>
         <head>
-          <title>Transaction History</title>
+          <title>General Ledger</title>
           <style>
             body { font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial; padding: 20px; }
             h1 { font-size: 18px; margin: 0 0 10px; }
@@ -409,19 +375,18 @@ export default function Accounting() {
           </style>
         </head>
         <body>
-          <h1>Transaction History</h1>
+          ${letterheadHtml(company, escapeHtml)}
+          <h1>General Ledger</h1>
           <div class="meta">Generated on ${new Date().toLocaleString()}</div>
           <table>
             <thead>
               <tr>
                 <th>Date</th>
-                <th>Description</th>
-                <th>Category</th>
-                <th>Type</th>
-                <th>Payment Method</th>
-                <th>Bank Account</th>
-                <th>Standard Receiver</th>
-                <th style="text-align:right">Amount</th>
+                <th>Memo</th>
+                <th>Account</th>
+                <th>Party / Detail</th>
+                <th style="text-align:right">Debit</th>
+                <th style="text-align:right">Credit</th>
               </tr>
             </thead>
             <tbody>
@@ -438,7 +403,7 @@ export default function Accounting() {
 
   return (
     <>
-      <AppHeader title="Accounting" subtitle="Bank accounts, transfers, and transaction history" />
+      <AppHeader title="Accounting" subtitle="Bank accounts, transfers, and the general ledger" />
 
       <div className="flex-1 overflow-auto p-6">
         {/* Bank Accounts */}
@@ -465,6 +430,10 @@ export default function Accounting() {
                 <Landmark className="w-4 h-4" />
                 Manage Bank Accounts
               </Button>
+              <Button variant="outline" className="gap-2" onClick={handleRebuild} disabled={isRebuilding}>
+                <BookOpen className="w-4 h-4" />
+                {isRebuilding ? "Rebuilding..." : "Rebuild Ledger"}
+              </Button>
               <Button variant="outline" className="gap-2" onClick={fetchAll} disabled={isLoading}>
                 <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
                 Refresh
@@ -521,12 +490,52 @@ export default function Accounting() {
           </div>
         </div>
 
-        {/* Transaction History */}
+        {/* Chart of Accounts */}
+        <div className="bg-card rounded-xl border border-border overflow-hidden mb-6">
+          <div className="border-b border-border px-6 py-4">
+            <h2 className="text-lg font-semibold text-foreground">Chart of Accounts</h2>
+            <p className="text-sm text-muted-foreground">Balances computed from posted journal entries</p>
+          </div>
+
+          <div className="p-6">
+            <div className="rounded-xl border border-border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">Code</TableHead>
+                    <TableHead className="min-w-[220px]">Account</TableHead>
+                    <TableHead className="whitespace-nowrap">Type</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Debit</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Credit</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {balances.map((b) => (
+                    <TableRow key={b.account.code}>
+                      <TableCell className="whitespace-nowrap font-mono">{b.account.code}</TableCell>
+                      <TableCell className="font-medium">{b.account.name}</TableCell>
+                      <TableCell className="whitespace-nowrap">{b.account.type}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{rupees(b.debit)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{rupees(b.credit)}</TableCell>
+                      <TableCell className={`text-right font-semibold whitespace-nowrap ${b.balance < 0 ? "text-destructive" : ""}`}>
+                        {b.balance < 0 ? "-" : ""}
+                        {rupees(Math.abs(b.balance))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </div>
+
+        {/* General Ledger */}
         <div className="bg-card rounded-xl border border-border overflow-hidden">
           <div className="flex items-center justify-between border-b border-border px-6 py-4">
             <div>
-              <h2 className="text-lg font-semibold text-foreground">Transaction History</h2>
-              <p className="text-sm text-muted-foreground">All entries with bank & payment details</p>
+              <h2 className="text-lg font-semibold text-foreground">General Ledger</h2>
+              <p className="text-sm text-muted-foreground">Journal entries posted from invoices, payments, purchases and notes</p>
             </div>
 
             <div className="flex items-center gap-2">
@@ -547,46 +556,41 @@ export default function Accounting() {
                 <TableHeader>
                   <TableRow>
                     <TableHead className="whitespace-nowrap">Date</TableHead>
-                    <TableHead className="min-w-[220px]">Description</TableHead>
-                    <TableHead className="whitespace-nowrap">Category</TableHead>
-                    <TableHead className="whitespace-nowrap">Type</TableHead>
-                    <TableHead className="whitespace-nowrap">Payment Method</TableHead>
-                    <TableHead className="min-w-[160px]">Bank Account</TableHead>
-                    <TableHead className="min-w-[160px]">Standard Receiver</TableHead>
-                    <TableHead className="text-right whitespace-nowrap">Amount</TableHead>
+                    <TableHead className="min-w-[220px]">Memo</TableHead>
+                    <TableHead className="min-w-[180px]">Account</TableHead>
+                    <TableHead className="min-w-[160px]">Party / Detail</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Debit</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">Credit</TableHead>
                   </TableRow>
                 </TableHeader>
 
                 <TableBody>
-                  {transactions.length === 0 ? (
+                  {journalRows.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={8} className="text-center py-10 text-muted-foreground">
-                        No transactions found.
+                      <TableCell colSpan={6} className="text-center py-10 text-muted-foreground">
+                        No journal entries yet. Click “Rebuild Ledger” to post existing records.
                       </TableCell>
                     </TableRow>
                   ) : (
-                    transactions.map((t) => {
-                      const amountClass = t.type === "Income" ? "text-success" : "text-destructive";
-                      const bankName =
-                        t.bankAccountName ||
-                        (t.bankAccountId ? bankAccounts.find((b) => b.id === t.bankAccountId)?.accountName : "") ||
-                        "";
-                      const paymentMethod = t.paymentMethod || (t.bankAccountId ? "Bank" : "");
-                      return (
-                        <TableRow key={t.id}>
-                          <TableCell className="whitespace-nowrap">{t.date || "-"}</TableCell>
-                          <TableCell className="font-medium">{t.description || "-"}</TableCell>
-                          <TableCell className="whitespace-nowrap">{t.category || "-"}</TableCell>
-                          <TableCell className="whitespace-nowrap">{t.type}</TableCell>
-                          <TableCell className="whitespace-nowrap">{paymentMethod || "-"}</TableCell>
-                          <TableCell className="whitespace-nowrap">{bankName || "-"}</TableCell>
-                          <TableCell className="whitespace-nowrap">{t.receiver || "-"}</TableCell>
-                          <TableCell className={`text-right font-semibold whitespace-nowrap ${amountClass}`}>
-                            {t.type === "Income" ? "+" : "-"}{rupees(t.amount)}
-                          </TableCell>
-                        </TableRow>
-                      );
-                    })
+                    journalRows.map(({ key, first, entry, line }) => (
+                      <TableRow key={key} className={first ? "border-t-2" : ""}>
+                        <TableCell className="whitespace-nowrap">{first ? entry.date || "-" : ""}</TableCell>
+                        <TableCell className="font-medium">
+                          {first ? (
+                            <>
+                              {entry.memo || "-"}
+                              {entry.reference && <div className="text-xs text-muted-foreground">{entry.reference}</div>}
+                            </>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className={`whitespace-nowrap ${line.credit ? "pl-8" : ""}`}>
+                          {line.accountCode} {line.accountName}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{line.partyName || line.memo || "-"}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{line.debit ? rupees(line.debit) : ""}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{line.credit ? rupees(line.credit) : ""}</TableCell>
+                      </TableRow>
+                    ))
                   )}
                 </TableBody>
               </Table>
@@ -0,0 +1,214 @@
+import { useMemo, useState } from "react";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { AuditActionBadge, AuditChanges } from "@/components/audit/RecordHistory";
+import { ExportExcelButton } from "@/components/ExportExcelButton";
+import { DataTable } from "@/components/tables/DataTable";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRecords } from "@/hooks/use-records";
+import { formatAuditTime } from "@/lib/audit";
+import type { AuditLogRecord } from "@/lib/schemas";
+import { RefreshCw, Search } from "lucide-react";
+
+/** Most recent entries loaded into the page; narrow by date to look further back. */
+const PAGE_LIMIT = 1000;
+
+export default function AuditLog() {
+  const [search, setSearch] = useState("");
+  const [collectionFilter, setCollectionFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [selected, setSelected] = useState<AuditLogRecord | null>(null);
+
+  const where = useMemo(() => {
+    const clauses: [string, "<=" | ">=", Date][] = [];
+    if (fromDate) clauses.push(["createdAt", ">=", new Date(`${fromDate}T00:00:00`)]);
+    if (toDate) clauses.push(["createdAt", "<=", new Date(`${toDate}T23:59:59.999`)]);
+    return clauses;
+  }, [fromDate, toDate]);
+
+  const auditQuery = useRecords("auditLog", { where, orderBy: "createdAt", direction: "desc", limit: PAGE_LIMIT });
+  const entries = useMemo(() => auditQuery.data ?? [], [auditQuery.data]);
+
+  const collections = useMemo(() => [...new Set(entries.map((e) => e.collection))].sort(), [entries]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries.filter((e) => {
+      if (collectionFilter !== "all" && e.collection !== collectionFilter) return false;
+      if (actionFilter !== "all" && e.action !== actionFilter) return false;
+      if (!term) return true;
+      return [e.reference, e.recordId, e.actor, e.source, ...e.changes.map((c) => c.field)].some((v) =>
+        v?.toLowerCase().includes(term)
+      );
+    });
+  }, [entries, search, collectionFilter, actionFilter]);
+
+  const exportRows = filtered.map((e) => ({
+    Time: formatAuditTime(e.createdAt),
+    User: e.actor || "unknown",
+    Action: e.action,
+    Collection: e.collection,
+    Reference: e.reference || "",
+    "Record ID": e.recordId,
+    Page: e.source,
+    Changes: e.changes.map((c) => `${c.field}: ${c.before ?? ""} -> ${c.after ?? ""}`).join("; "),
+  }));
+
+  const columns = [
+    { key: "createdAt", header: "Time", render: (e: AuditLogRecord) => formatAuditTime(e.createdAt) },
+    { key: "actor", header: "User", render: (e: AuditLogRecord) => e.actor || <span className="text-muted-foreground">unknown</span> },
+    { key: "action", header: "Action", render: (e: AuditLogRecord) => <AuditActionBadge action={e.action} /> },
+    { key: "collection", header: "Collection" },
+    {
+      key: "reference",
+      header: "Record",
+      render: (e: AuditLogRecord) => (
+        <div>
+          <div className="font-medium">{e.reference || "-"}</div>
+          <div className="text-xs text-muted-foreground font-mono">{e.recordId}</div>
+        </div>
+      ),
+    },
+    { key: "source", header: "Page" },
+    {
+      key: "changes",
+      header: "Fields",
+      render: (e: AuditLogRecord) => (
+        <span className="text-xs text-muted-foreground">
+          {e.changes.slice(0, 4).map((c) => c.field).join(", ")}
+          {e.changes.length > 4 ? ` +${e.changes.length - 4}` : ""}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <AppHeader title="Audit Log" subtitle="Who changed what, when and from where" />
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <Card className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="auditSearch">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="auditSearch"
+                  className="pl-10"
+                  placeholder="Reference, record id, user, page or field"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Collection</Label>
+              <Select value={collectionFilter} onValueChange={setCollectionFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All collections</SelectItem>
+                  {collections.map((c) => (
+                    <SelectItem key={c} value={c}>
+                      {c}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={actionFilter} onValueChange={setActionFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  <SelectItem value="create">Create</SelectItem>
+                  <SelectItem value="update">Update</SelectItem>
+                  <SelectItem value="delete">Delete</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => auditQuery.refetch()} disabled={auditQuery.isFetching}>
+                <RefreshCw className={`w-4 h-4 ${auditQuery.isFetching ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+              <ExportExcelButton rows={exportRows} fileName="audit-log" sheetName="Audit Log" label="Export" variant="outline" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auditFrom">From</Label>
+              <Input id="auditFrom" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auditTo">To</Label>
+              <Input id="auditTo" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-6">
+          {filtered.length === 0 ? (
+            <p className="text-center py-10 text-muted-foreground">
+              {auditQuery.isLoading ? "Loading audit log..." : "No audit entries match."}
+            </p>
+          ) : (
+            <>
+              <DataTable data={filtered} columns={columns} keyField="id" onRowClick={(e) => setSelected(e)} />
+              {entries.length >= PAGE_LIMIT && (
+                <p className="text-xs text-muted-foreground mt-3">
+                  Showing the latest {PAGE_LIMIT} entries. Set a date range to look further back.
+                </p>
+              )}
+            </>
+          )}
+        </Card>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {selected && <AuditActionBadge action={selected.action} />}
+              {selected?.collection} {selected?.reference || selected?.recordId}
+            </DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="text-muted-foreground">Time: </span>
+                  {formatAuditTime(selected.createdAt)}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">User: </span>
+                  {selected.actor || "unknown"}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Page: </span>
+                  {selected.source || "-"}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Record ID: </span>
+                  <span className="font-mono text-xs">{selected.recordId}</span>
+                </div>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <AuditChanges changes={selected.changes} />
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -5,9 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, orderBy, query } from "firebase/firestore";
+import { drawPdfLetterhead } from "@/lib/letterhead";
+import { listRecords } from "@/lib/repository";
 import { ArrowLeft, Download, RefreshCw, Search } from "lucide-react";
 import jsPDF from "jspdf";
 import "jspdf-autotable";
@@ -52,6 +53,7 @@ interface AccountSummary {
 export default function BankBook() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { company } = useCompany();
   const [accounts, setAccounts] = useState<BankAccount[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [search, setSearch] = useState("");
@@ -65,17 +67,12 @@ export default function BankBook() {
   };
 
   const fetchBankAccounts = async () => {
-    if (!db) return;
-    const snap = await getDocs(collection(db, "bankAccounts"));
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        accountName: (data.accountName || "").toString(),
-        accountNumber: data.accountNumber ? data.accountNumber.toString() : undefined,
-        opening: typeof data.opening === "number" ? data.opening : parseFloat(data.opening) || 0,
-      } as BankAccount;
-    });
+    const list: BankAccount[] = (await listRecords("bankAccounts")).map(({ id, accountName, accountNumber, opening }) => ({
+      id,
+      accountName,
+      accountNumber: accountNumber || undefined,
+      opening,
+    }));
     // Filter out ABC BANK, test banks, and CASH accounts
     const filteredList = list.filter((b) => {
       const name = (b.accountName || "").toUpperCase().trim();
@@ -91,57 +88,50 @@ export default function BankBook() {
   };
 
   const fetchTransactions = async () => {
-    if (!db) return;
-    
     // Fetch from both collections to get all bank transactions
-    const [accountingTxSnap, regularTxSnap] = await Promise.all([
-      getDocs(query(collection(db, "accountingTransactions"), orderBy("date", "desc"))),
-      getDocs(query(collection(db, "transactions"), orderBy("createdAt", "desc")))
+    const [accountingTx, regularTx] = await Promise.all([
+      listRecords("accountingTransactions", { orderBy: "date", direction: "desc" }),
+      listRecords("transactions", { orderBy: "createdAt", direction: "desc" }),
     ]);
-    
-    const accountingTxList = accountingTxSnap.docs
-      .map((d) => {
-        const data = d.data();
-        const accountName = (data.accountName || "").toUpperCase().trim();
+
+    const accountingTxList = accountingTx
+      .map((t) => {
+        const accountName = (t.accountName || "").toUpperCase().trim();
         // Skip cash account transactions
         if (accountName === "CASH" || accountName.includes("CASH")) {
           return null;
         }
         return {
-          id: d.id,
-          date: (data.date || "").toString(),
-          description: (data.description || "").toString(),
-          type: (data.type || "Deposit") as "Deposit" | "Withdrawal",
-          amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-          accountId: (data.accountId || "").toString(),
-          accountName: data.accountName ? data.accountName.toString() : undefined,
-          reference: data.reference ? data.reference.toString() : undefined,
-          status: (data.status || "Completed").toString(),
-          createdAt: data.createdAt?.toDate?.() || new Date(),
+          id: t.id,
+          date: t.date,
+          description: t.description,
+          type: t.type,
+          amount: t.amount,
+          accountId: t.accountId,
+          accountName: t.accountName,
+          reference: t.reference,
+          status: t.status || "Completed",
+          createdAt: t.createdAt,
         } as Transaction;
       })
       .filter((t): t is Transaction => t !== null);
-    
+
     // Convert regular transactions to bank format
-    const regularTxList = regularTxSnap.docs.map((d) => {
-      const data = d.data();
-      const bankAccountId = (data.bankAccountId || "").toString();
-      if (!bankAccountId) return null;
-      
-      return {
-        id: d.id,
-        date: (data.date || "").toString(),
-        description: (data.description || "").toString(),
-        type: (data.type === "Income" || data.type === "Deposit") ? "Deposit" : "Withdrawal" as "Deposit" | "Withdrawal",
-        amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-        accountId: bankAccountId,
-        accountName: data.bankAccountName ? data.bankAccountName.toString() : undefined,
-        reference: data.reference ? data.reference.toString() : undefined,
+    const regularTxList = regularTx
+      .filter((t) => t.bankAccountId)
+      .map((t) => ({
+        id: t.id,
+        date: t.date,
+        description: t.description,
+        type: t.type === "Income" ? "Deposit" : "Withdrawal",
+        amount: t.amount,
+        accountId: t.bankAccountId,
+        accountName: t.bankAccountName,
+        reference: t.reference,
         status: "Completed",
-        createdAt: data.createdAt?.toDate?.() || new Date(),
-      } as Transaction;
-    }).filter(t => t !== null) as Transaction[];
-    
+        createdAt: t.createdAt,
+      }) as Transaction);
+
     // Combine both lists
     const allTransactions = [...accountingTxList, ...regularTxList];
     
@@ -206,15 +196,6 @@ export default function BankBook() {
   }, [filtered]);
 
   const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
       await fetchBankAccounts();
@@ -243,14 +224,15 @@ export default function BankBook() {
 
   const downloadPDF = () => {
     const doc = new jsPDF();
+    const top = drawPdfLetterhead(doc, company);
 
     // Title
     doc.setFontSize(18);
-    doc.text("Bank Accounts", 14, 20);
+    doc.text("Bank Accounts", 14, top + 6);
 
     // Subtitle
     doc.setFontSize(11);
-    doc.text("View all bank account balances", 14, 28);
+    doc.text("View all bank account balances", 14, top + 14);
 
     // Table
     const tableData = filtered.map((row, index) => [
@@ -277,7 +259,7 @@ export default function BankBook() {
     ]);
 
     doc.autoTable({
-      startY: 35,
+      startY: top + 21,
       head: [["#", "ACCOUNT NAME", "OPENING(RS)", "C/D", "WITHDRAW", "DEPOSIT", "CLOSING AMOUNT", "C/D"]],
       body: tableData,
       styles: { fontSize: 9 },
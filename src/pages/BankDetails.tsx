@@ -4,9 +4,10 @@ import { AppHeader } from "@/components/layout/AppHeader";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, where } from "firebase/firestore";
+import { drawPdfLetterhead } from "@/lib/letterhead";
+import { getRecord, listRecords } from "@/lib/repository";
 import { ArrowLeft, Download } from "lucide-react";
 import jsPDF from "jspdf";
 import "jspdf-autotable";
@@ -41,6 +42,7 @@ interface MonthSummary {
 export default function BankDetails() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { company } = useCompany();
   const [searchParams] = useSearchParams();
   const bankId = searchParams.get("bankId");
   const bankName = searchParams.get("bankName") || "Bank Account";
@@ -58,47 +60,38 @@ export default function BankDetails() {
   };
 
   const fetchTransactions = async () => {
-    if (!db || !bankId) return;
+    if (!bankId) return;
     setIsLoading(true);
     try {
       // Fetch from both collections
-      const [accountingTxSnap, regularTxSnap, bankAccountSnap] = await Promise.all([
-        getDocs(query(collection(db, "accountingTransactions"), where("accountId", "==", bankId))),
-        getDocs(query(collection(db, "transactions"), where("bankAccountId", "==", bankId))),
-        getDocs(query(collection(db, "bankAccounts"), where("__name__", "==", bankId))),
+      const [accountingTx, regularTx, bankAccount] = await Promise.all([
+        listRecords("accountingTransactions", { where: [["accountId", "==", bankId]] }),
+        listRecords("transactions", { where: [["bankAccountId", "==", bankId]] }),
+        getRecord("bankAccounts", bankId),
       ]);
 
       // Get opening balance
-      if (!bankAccountSnap.empty) {
-        const bankData = bankAccountSnap.docs[0].data();
-        setOpening(typeof bankData.opening === "number" ? bankData.opening : parseFloat(bankData.opening) || 0);
-      }
-
-      const accountingTxList = accountingTxSnap.docs.map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          date: (data.date || "").toString(),
-          description: (data.description || "").toString(),
-          type: (data.type || "Deposit") as "Deposit" | "Withdrawal",
-          amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-          reference: data.reference ? data.reference.toString() : undefined,
-          status: (data.status || "Completed").toString(),
-        } as Transaction;
-      });
-
-      const regularTxList = regularTxSnap.docs.map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          date: (data.date || "").toString(),
-          description: (data.description || "").toString(),
-          type: (data.type === "Income" || data.type === "Deposit") ? "Deposit" : "Withdrawal" as "Deposit" | "Withdrawal",
-          amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-          reference: data.reference ? data.reference.toString() : undefined,
-          status: "Completed",
-        } as Transaction;
-      });
+      if (bankAccount) setOpening(bankAccount.opening);
+
+      const accountingTxList = accountingTx.map((t) => ({
+        id: t.id,
+        date: t.date,
+        description: t.description,
+        type: t.type,
+        amount: t.amount,
+        reference: t.reference,
+        status: t.status || "Completed",
+      }) as Transaction);
+
+      const regularTxList = regularTx.map((t) => ({
+        id: t.id,
+        date: t.date,
+        description: t.description,
+        type: t.type === "Income" ? "Deposit" : "Withdrawal",
+        amount: t.amount,
+        reference: t.reference,
+        status: "Completed",
+      }) as Transaction);
 
       const allTransactions = [...accountingTxList, ...regularTxList]
         .filter(t => t.status === "Completed")
@@ -214,10 +207,11 @@ export default function BankDetails() {
 
   const downloadPDF = () => {
     const doc = new jsPDF();
+    const top = drawPdfLetterhead(doc, company);
     doc.setFontSize(18);
-    doc.text(bankName, 14, 20);
+    doc.text(bankName, 14, top + 6);
     doc.setFontSize(11);
-    doc.text(selectedMonth ? `Transactions for ${selectedMonth}` : "Month-wise Summary", 14, 28);
+    doc.text(selectedMonth ? `Transactions for ${selectedMonth}` : "Month-wise Summary", 14, top + 14);
 
     if (selectedMonth) {
       const tableData = filteredTransactions.map((tx, idx) => [
@@ -230,7 +224,7 @@ export default function BankDetails() {
       ]);
 
       doc.autoTable({
-        startY: 35,
+        startY: top + 21,
         head: [["#", "Date", "Description", "Type", "Amount", "Reference"]],
         body: tableData,
         styles: { fontSize: 9 },
@@ -248,7 +242,7 @@ export default function BankDetails() {
       ]);
 
       doc.autoTable({
-        startY: 35,
+        startY: top + 21,
         head: [["#", "Month", "Opening", "Deposits", "Withdrawals", "Closing", "Transactions"]],
         body: tableData,
         styles: { fontSize: 9 },
@@ -5,9 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { addDoc, collection, getDocs, orderBy, query, Timestamp } from "firebase/firestore";
+import { drawPdfLetterhead } from "@/lib/letterhead";
+import { createRecord, listRecords } from "@/lib/repository";
 import { ArrowLeft, Download, RefreshCw, Search } from "lucide-react";
 import jsPDF from "jspdf";
 import "jspdf-autotable";
@@ -50,6 +51,7 @@ interface AccountSummary {
 export default function CashBook() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { company } = useCompany();
   const [accounts, setAccounts] = useState<CashAccount[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [search, setSearch] = useState("");
@@ -63,27 +65,18 @@ export default function CashBook() {
   };
 
   const fetchCashAccounts = async () => {
-    if (!db) return;
-    const snap = await getDocs(collection(db, "cashAccounts"));
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        accountName: (data.accountName || "").toString(),
-        opening: typeof data.opening === "number" ? data.opening : parseFloat(data.opening) || 0,
-      } as CashAccount;
-    });
+    const list: CashAccount[] = (await listRecords("cashAccounts")).map(({ id, accountName, opening }) => ({
+      id,
+      accountName,
+      opening,
+    }));
     
     // If no cash accounts exist, create a default one
     if (list.length === 0) {
       try {
-        const defaultCashRef = await addDoc(collection(db, "cashAccounts"), {
-          accountName: "Cash",
-          opening: 0,
-          createdAt: Timestamp.now(),
-        });
+        const id = await createRecord("cashAccounts", { accountName: "Cash", opening: 0 });
         list.push({
-          id: defaultCashRef.id,
+          id,
           accountName: "Cash",
           opening: 0,
         });
@@ -100,29 +93,26 @@ export default function CashBook() {
   };
 
   const fetchTransactions = async () => {
-    if (!db) return;
-    const q = query(collection(db, "accountingTransactions"), orderBy("date", "desc"));
-    const snap = await getDocs(q);
-    const list = snap.docs
-      .map((d) => {
-        const data = d.data();
-        const accountName = (data.accountName || "").toUpperCase().trim();
+    const records = await listRecords("accountingTransactions", { orderBy: "date", direction: "desc" });
+    const list = records
+      .map((t) => {
+        const accountName = (t.accountName || "").toUpperCase().trim();
         // Only include cash account transactions
         const isCashTransaction = accountName === "CASH" || accountName.includes("CASH");
         if (!isCashTransaction) {
           return null;
         }
         return {
-          id: d.id,
-          date: (data.date || "").toString(),
-          description: (data.description || "").toString(),
-          type: (data.type || "Deposit") as "Deposit" | "Withdrawal",
-          amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-          accountId: (data.accountId || "").toString(),
-          accountName: data.accountName ? data.accountName.toString() : undefined,
-          reference: data.reference ? data.reference.toString() : undefined,
-          status: (data.status || "Completed").toString(),
-          createdAt: data.createdAt?.toDate?.() || new Date(),
+          id: t.id,
+          date: t.date,
+          description: t.description,
+          type: t.type,
+          amount: t.amount,
+          accountId: t.accountId,
+          accountName: t.accountName,
+          reference: t.reference,
+          status: t.status || "Completed",
+          createdAt: t.createdAt,
         } as Transaction;
       })
       .filter((t): t is Transaction => {
@@ -181,15 +171,6 @@ export default function CashBook() {
   }, [filtered]);
 
   const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
       await fetchCashAccounts();
@@ -218,14 +199,15 @@ export default function CashBook() {
 
   const downloadPDF = () => {
     const doc = new jsPDF();
+    const top = drawPdfLetterhead(doc, company);
 
     // Title
     doc.setFontSize(18);
-    doc.text("Cash Accounts", 14, 20);
+    doc.text("Cash Accounts", 14, top + 6);
 
     // Subtitle
     doc.setFontSize(11);
-    doc.text("View all cash account balances", 14, 28);
+    doc.text("View all cash account balances", 14, top + 14);
 
     // Table
     const tableData = filtered.map((row, index) => [
@@ -252,7 +234,7 @@ export default function CashBook() {
     ]);
 
     doc.autoTable({
-      startY: 35,
+      startY: top + 21,
       head: [["#", "ACCOUNT NAME", "OPENING(RS)", "C/D", "WITHDRAW", "DEPOSIT", "CLOSING AMOUNT", "C/D"]],
       body: tableData,
       styles: { fontSize: 9 },
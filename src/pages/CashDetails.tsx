@@ -4,9 +4,10 @@ import { AppHeader } from "@/components/layout/AppHeader";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, where } from "firebase/firestore";
+import { drawPdfLetterhead } from "@/lib/letterhead";
+import { getRecord, listRecords } from "@/lib/repository";
 import { ArrowLeft, Download } from "lucide-react";
 import jsPDF from "jspdf";
 import "jspdf-autotable";
@@ -41,6 +42,7 @@ interface MonthSummary {
 export default function CashDetails() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { company } = useCompany();
   const [searchParams] = useSearchParams();
   const cashId = searchParams.get("cashId");
   const cashName = searchParams.get("cashName") || "Cash Account";
@@ -58,31 +60,25 @@ export default function CashDetails() {
   };
 
   const fetchTransactions = async () => {
-    if (!db || !cashId) return;
+    if (!cashId) return;
     setIsLoading(true);
     try {
-      const [accountingTxSnap, cashAccountSnap] = await Promise.all([
-        getDocs(query(collection(db, "accountingTransactions"), where("accountId", "==", cashId))),
-        getDocs(query(collection(db, "cashAccounts"), where("__name__", "==", cashId))),
+      const [accountingTx, cashAccount] = await Promise.all([
+        listRecords("accountingTransactions", { where: [["accountId", "==", cashId]] }),
+        getRecord("cashAccounts", cashId),
       ]);
 
-      if (!cashAccountSnap.empty) {
-        const cashData = cashAccountSnap.docs[0].data();
-        setOpening(typeof cashData.opening === "number" ? cashData.opening : parseFloat(cashData.opening) || 0);
-      }
+      if (cashAccount) setOpening(cashAccount.opening);
 
-      const accountingTxList = accountingTxSnap.docs.map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          date: (data.date || "").toString(),
-          description: (data.description || "").toString(),
-          type: (data.type || "Deposit") as "Deposit" | "Withdrawal",
-          amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-          reference: data.reference ? data.reference.toString() : undefined,
-          status: (data.status || "Completed").toString(),
-        } as Transaction;
-      });
+      const accountingTxList = accountingTx.map((t) => ({
+        id: t.id,
+        date: t.date,
+        description: t.description,
+        type: t.type,
+        amount: t.amount,
+        reference: t.reference,
+        status: t.status || "Completed",
+      }) as Transaction);
 
       const allTransactions = accountingTxList
         .filter(t => t.status === "Completed")
@@ -198,10 +194,11 @@ export default function CashDetails() {
 
   const downloadPDF = () => {
     const doc = new jsPDF();
+    const top = drawPdfLetterhead(doc, company);
     doc.setFontSize(18);
-    doc.text(cashName, 14, 20);
+    doc.text(cashName, 14, top + 6);
     doc.setFontSize(11);
-    doc.text(selectedMonth ? `Transactions for ${selectedMonth}` : "Month-wise Summary", 14, 28);
+    doc.text(selectedMonth ? `Transactions for ${selectedMonth}` : "Month-wise Summary", 14, top + 14);
 
     if (selectedMonth) {
       const tableData = filteredTransactions.map((tx, idx) => [
@@ -214,7 +211,7 @@ export default function CashDetails() {
       ]);
 
       doc.autoTable({
-        startY: 35,
+        startY: top + 21,
         head: [["#", "Date", "Description", "Type", "Amount", "Reference"]],
         body: tableData,
         styles: { fontSize: 9 },
@@ -232,7 +229,7 @@ export default function CashDetails() {
       ]);
 
       doc.autoTable({
-        startY: 35,
+        startY: top + 21,
         head: [["#", "Month", "Opening", "Deposits", "Withdrawals", "Closing", "Transactions"]],
         body: tableData,
         styles: { fontSize: 9 },
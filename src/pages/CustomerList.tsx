@@ -24,9 +24,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, addDoc, getDocs, updateDoc, deleteDoc, doc, Timestamp } from "firebase/firestore";
+import { moveToRecycleBin } from "@/lib/recycle-bin";
+import { createRecord, listRecords, updateRecord } from "@/lib/repository";
 
 interface Customer {
   id: string;
@@ -48,6 +49,7 @@ const CustomerList = () => {
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const [formData, setFormData] = useState({
     name: "",
@@ -95,22 +97,10 @@ const CustomerList = () => {
   const fetchCustomers = async () => {
     try {
       setIsLoading(true);
-      const customersCollection = collection(db, "customers");
-      const customerSnapshot = await getDocs(customersCollection);
-      const customerList = customerSnapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          name: data.name || "",
-          address: data.address || "",
-          phone: data.phone || "",
-          email: data.email || "",
-          gst: data.gst || "",
-          opening: typeof data.opening === 'number' ? data.opening : parseFloat(data.opening) || 0,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || undefined
-        };
-      }) as Customer[];
+      const customerList = (await listRecords("customers")).map((record) => ({
+        ...record,
+        createdAt: record.createdAt ?? new Date(),
+      })) as Customer[];
       
       // Sort by creation date (newest first)
       customerList.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
@@ -121,7 +111,7 @@ const CustomerList = () => {
       console.error("Error fetching customers:", error);
       toast({
         title: "Error",
-        description: "Failed to fetch customers. Please check your Firebase connection.",
+        description: "Failed to fetch customers. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -156,13 +146,13 @@ const CustomerList = () => {
   };
 
   const handleDeleteCustomer = async (customerId: string) => {
-    if (!confirm("Are you sure you want to delete this customer?")) return;
+    if (!confirm("Move this customer to the Recycle Bin?")) return;
 
     try {
-      await deleteDoc(doc(db, "customers", customerId));
+      await moveToRecycleBin("customers", customerId);
       toast({
         title: "Success",
-        description: "Customer deleted successfully"
+        description: "Customer moved to the Recycle Bin"
       });
       fetchCustomers();
     } catch (error) {
@@ -228,21 +218,14 @@ const CustomerList = () => {
 
       if (editingCustomer) {
         // Update existing customer
-        await updateDoc(doc(db, "customers", editingCustomer.id), {
-          ...customerData,
-          updatedAt: Timestamp.now()
-        });
+        await updateRecord("customers", editingCustomer.id, customerData);
         toast({
           title: "Success",
           description: "Customer updated successfully",
         });
       } else {
         // Add new customer
-        await addDoc(collection(db, "customers"), {
-          ...customerData,
-          createdAt: Timestamp.now(),
-          updatedAt: Timestamp.now()
-        });
+        await createRecord("customers", customerData);
         toast({
           title: "Success",
           description: "Customer added successfully",
@@ -353,14 +336,16 @@ const CustomerList = () => {
           >
             <Pencil className="h-4 w-4" />
           </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => handleDeleteCustomer(row.id)}
-            className="hover:bg-destructive/10 hover:text-destructive"
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          {can("deleteRecords") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDeleteCustomer(row.id)}
+              className="hover:bg-destructive/10 hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       )
     }
@@ -8,17 +8,12 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, doc, getDocs, Timestamp, writeBatch } from "firebase/firestore";
+import { debitCreditNoteJournal, postJournal } from "@/lib/ledger";
+import { DatabaseUnavailableError, listRecords, runRecordTransaction } from "@/lib/repository";
+import type { NoteType, PartyRecord, ProcessedInventoryRecord, RawInventoryRecord } from "@/lib/schemas";
+import { applyStockChange, noteReturnItemType, noteReturnMovement, stockCollection } from "@/lib/stock";
 import { ArrowLeft, FilePlus } from "lucide-react";
 
-type NoteType = "Debit" | "Credit";
-
-interface PartyOption {
-  id: string;
-  name: string;
-}
-
 function safeNumber(value: string): number {
   const n = parseFloat(value);
   return Number.isFinite(n) ? n : 0;
@@ -41,8 +36,8 @@ export default function DebitCreditNoteNew() {
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const [customers, setCustomers] = useState<PartyOption[]>([]);
-  const [suppliers, setSuppliers] = useState<PartyOption[]>([]);
+  const [customers, setCustomers] = useState<PartyRecord[]>([]);
+  const [suppliers, setSuppliers] = useState<PartyRecord[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -54,42 +49,39 @@ export default function DebitCreditNoteNew() {
   const [amount, setAmount] = useState("");
   const [relatedInvoiceNo, setRelatedInvoiceNo] = useState("");
   const [reason, setReason] = useState("");
+  const [rawItems, setRawItems] = useState<RawInventoryRecord[]>([]);
+  const [processedItems, setProcessedItems] = useState<ProcessedInventoryRecord[]>([]);
+  const [returnItemId, setReturnItemId] = useState("");
+  const [returnQuantity, setReturnQuantity] = useState("");
 
   const noteNo = useMemo(() => generateNoteNo(noteType, date, noteNoSuffix), [date, noteNoSuffix, noteType]);
 
   const partyOptions = useMemo(() => (partyType === "supplier" ? suppliers : customers), [customers, suppliers, partyType]);
   const selectedParty = useMemo(() => partyOptions.find((p) => p.id === partyId) || null, [partyOptions, partyId]);
 
-  const fetchParties = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
+  // Only a customer's credit note or a debit note to a supplier can carry goods back.
+  const returnKind = noteReturnItemType(noteType, partyType);
+  const returnOptions = returnKind === "raw" ? rawItems : returnKind === "processed" ? processedItems : [];
 
+  const fetchParties = async () => {
     setIsLoading(true);
     try {
-      const [customersSnap, suppliersSnap] = await Promise.all([
-        getDocs(collection(db, "customers")),
-        getDocs(collection(db, "suppliers")),
+      const [customersList, suppliersList, rawList, processedList] = await Promise.all([
+        listRecords("customers"),
+        listRecords("suppliers"),
+        listRecords("rawInventory"),
+        listRecords("processedInventory"),
       ]);
-
-      const customersList = customersSnap.docs
-        .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-        .filter((x) => x.name)
-        .sort((a, b) => a.name.localeCompare(b.name));
-
-      const suppliersList = suppliersSnap.docs
-        .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-        .filter((x) => x.name)
-        .sort((a, b) => a.name.localeCompare(b.name));
-
-      setCustomers(customersList);
-      setSuppliers(suppliersList);
+      const byName = (a: { name?: string }, b: { name?: string }) => a.name.localeCompare(b.name);
+      setCustomers(customersList.filter((x) => x.name).sort(byName));
+      setSuppliers(suppliersList.filter((x) => x.name).sort(byName));
+      setRawItems(rawList.filter((x) => x.name).sort(byName));
+      setProcessedItems(processedList.filter((x) => x.name).sort(byName));
     } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
       console.error("Error loading parties", error);
       toast({ title: "Load failed", description: "Could not load customers/suppliers.", variant: "destructive" });
     } finally {
@@ -105,18 +97,13 @@ export default function DebitCreditNoteNew() {
     setPartyId("");
   }, [partyType]);
 
+  useEffect(() => {
+    setReturnItemId("");
+  }, [returnKind]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     if (!partyId) {
       toast({ title: "Validation error", description: "Select a party.", variant: "destructive" });
       return;
@@ -133,56 +120,73 @@ export default function DebitCreditNoteNew() {
       return;
     }
 
+    const returned = returnKind && returnItemId ? returnOptions.find((i) => i.id === returnItemId) : undefined;
+    const returnedQty = safeNumber(returnQuantity);
+    if (returned && returnedQty <= 0) {
+      toast({ title: "Validation error", description: "Enter the returned quantity.", variant: "destructive" });
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      const batch = writeBatch(db);
-      const notesRef = collection(db, "debitCreditNotes");
-      const txRef = collection(db, "transactions");
-
-      const noteDoc = doc(notesRef);
-      const transactionDoc = doc(txRef);
-
       const trimmedRelatedInvoiceNo = relatedInvoiceNo.trim();
       const partyName = selectedParty?.name || "";
 
-      batch.set(noteDoc, {
-        noteType,
-        noteNo,
-        date,
-        partyType,
-        partyId,
-        partyName,
-        amount: numericAmount,
-        relatedInvoiceNo: trimmedRelatedInvoiceNo,
-        reason: reason.trim(),
-        transactionId: transactionDoc.id,
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
-      });
-
-      batch.set(transactionDoc, {
-        date,
-        description: `${noteType} Note ${noteNo}`,
-        category: noteType === "Debit" ? "Debit Note" : "Credit Note",
-        amount: numericAmount,
-        type: noteToTransactionType(noteType),
-        status: "Completed",
-        reference: trimmedRelatedInvoiceNo || noteNo,
-        partyType,
-        partyId,
-        partyName,
-        notes: reason.trim(),
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
+      await runRecordTransaction(async (tx) => {
+        const stock = returned ? await tx.get(stockCollection(returnKind), returned.id) : null;
+        if (returned && !stock) throw new Error(`${returned.name} is no longer in inventory.`);
+
+        const transactionId = tx.create("transactions", {
+          date,
+          description: `${noteType} Note ${noteNo}`,
+          category: noteType === "Debit" ? "Debit Note" : "Credit Note",
+          amount: numericAmount,
+          type: noteToTransactionType(noteType),
+          status: "Completed",
+          reference: trimmedRelatedInvoiceNo || noteNo,
+          partyType,
+          partyId,
+          partyName,
+          notes: reason.trim(),
+        });
+
+        const note = {
+          noteType,
+          noteNo,
+          date,
+          partyType,
+          partyId,
+          partyName,
+          amount: numericAmount,
+          relatedInvoiceNo: trimmedRelatedInvoiceNo,
+          reason: reason.trim(),
+          transactionId,
+          ...(returned ? { returnItemId: returned.id, returnItemName: returned.name, returnQuantity: returnedQty } : {}),
+        };
+        const noteId = tx.create("debitCreditNotes", note);
+        postJournal(tx, "debitCreditNote", noteId, debitCreditNoteJournal({ ...note, id: noteId }));
+
+        const movement = noteReturnMovement(note);
+        if (stock && movement) {
+          if (stock.quantity + movement.delta < 0) {
+            throw new Error(`Insufficient stock for ${stock.name}. Available: ${stock.quantity}, Required: ${returnedQty}`);
+          }
+          applyStockChange(tx, movement.itemType, stock, movement.delta, {
+            date,
+            movementType: "return",
+            sourceType: "debitCreditNote",
+            sourceId: noteId,
+            reference: noteNo,
+          });
+        }
       });
 
-      await batch.commit();
-
-      toast({ title: "Saved", description: "Note saved to Firestore." });
+      toast({ title: "Saved", description: "Note saved and posted to the ledger." });
       navigate("/debit-credit-notes");
     } catch (error) {
       console.error("Error saving note", error);
-      toast({ title: "Save failed", description: "Could not save note.", variant: "destructive" });
+      const msg = error instanceof Error ? error.message : "Could not save note.";
+      toast({ title: "Save failed", description: msg, variant: "destructive" });
     } finally {
       setIsSubmitting(false);
     }
@@ -285,6 +289,45 @@ export default function DebitCreditNoteNew() {
             </div>
           </Card>
 
+          {returnKind && (
+            <Card className="p-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{returnKind === "processed" ? "Goods Returned by Customer" : "Material Returned to Supplier"}</Label>
+                  <Select value={returnItemId || "none"} onValueChange={(v) => setReturnItemId(v === "none" ? "" : v)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="No goods returned" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No goods returned</SelectItem>
+                      {returnOptions.map((i) => (
+                        <SelectItem key={i.id} value={i.id}>
+                          {i.name} ({i.quantity} {i.unit})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {returnKind === "processed" ? "Adds the quantity back to processed inventory." : "Removes the quantity from raw inventory."}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="returnQuantity">Returned Quantity</Label>
+                  <Input
+                    id="returnQuantity"
+                    type="number"
+                    inputMode="decimal"
+                    value={returnQuantity}
+                    onChange={(e) => setReturnQuantity(e.target.value)}
+                    placeholder="0"
+                    disabled={!returnItemId}
+                  />
+                </div>
+              </div>
+            </Card>
+          )}
+
           <div className="flex items-center justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => navigate("/debit-credit-notes")} disabled={isSubmitting}>
               Cancel
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { AppHeader } from "@/components/layout/AppHeader";
 import { StatCard } from "@/components/cards/StatCard";
@@ -11,42 +11,16 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  orderBy,
-  query,
-  Timestamp,
-  updateDoc,
-} from "firebase/firestore";
+import { debitCreditNoteJournal, postJournal } from "@/lib/ledger";
+import { moveToRecycleBin } from "@/lib/recycle-bin";
+import { DatabaseUnavailableError, listRecords, runRecordTransaction } from "@/lib/repository";
+import type { DebitCreditNoteRecord, NoteType, PartyRecord } from "@/lib/schemas";
+import { noteReturnMovement } from "@/lib/stock";
 import { FileMinus, FilePlus, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
 
-type NoteType = "Debit" | "Credit";
-
-interface NoteRecord {
-  id: string;
-  noteType: NoteType;
-  noteNo: string;
-  date: string; // YYYY-MM-DD
-  partyType: "customer" | "supplier";
-  partyId: string;
-  partyName: string;
-  amount: number;
-  relatedInvoiceNo: string;
-  reason: string;
-  transactionId?: string;
-  createdAt?: Date;
-}
-
-interface PartyOption {
-  id: string;
-  name: string;
-}
+type NoteRecord = DebitCreditNoteRecord;
 
 const defaultFormState = {
   noteType: "Debit" as NoteType,
@@ -71,8 +45,8 @@ function noteToTransactionType(noteType: NoteType): "Income" | "Expense" {
 export default function DebitCreditNotes() {
   const navigate = useNavigate();
   const [notes, setNotes] = useState<NoteRecord[]>([]);
-  const [customers, setCustomers] = useState<PartyOption[]>([]);
-  const [suppliers, setSuppliers] = useState<PartyOption[]>([]);
+  const [customers, setCustomers] = useState<PartyRecord[]>([]);
+  const [suppliers, setSuppliers] = useState<PartyRecord[]>([]);
 
   const [search, setSearch] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -84,8 +58,12 @@ export default function DebitCreditNotes() {
 
   const { toast } = useToast();
 
+  const { can } = useAuth();
+
   const partyOptions = useMemo(() => (formData.partyType === "supplier" ? suppliers : customers), [customers, suppliers, formData.partyType]);
   const selectedParty = useMemo(() => partyOptions.find((p) => p.id === formData.partyId), [partyOptions, formData.partyId]);
+  // Returned goods moved stock by the note's type and party type, so those stay as saved.
+  const movedStock = !!editing && !!noteReturnMovement(editing);
 
   const filtered = useMemo(() => {
     if (!search.trim()) return notes;
@@ -118,63 +96,26 @@ export default function DebitCreditNotes() {
     [filtered]
   );
 
-  const fetchParties = async () => {
-    const [customersSnap, suppliersSnap] = await Promise.all([
-      getDocs(collection(db, "customers")),
-      getDocs(collection(db, "suppliers")),
-    ]);
-
-    const customersList = customersSnap.docs
-      .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
-
-    const suppliersList = suppliersSnap.docs
-      .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
-
-    setCustomers(customersList);
-    setSuppliers(suppliersList);
-  };
-
-  const fetchNotes = async () => {
-    const qy = query(collection(db, "debitCreditNotes"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        noteType: (data.noteType || "Debit") as NoteType,
-        noteNo: (data.noteNo || "").toString(),
-        date: (data.date || "").toString(),
-        partyType: (data.partyType || "customer") as NoteRecord["partyType"],
-        partyId: (data.partyId || "").toString(),
-        partyName: (data.partyName || "").toString(),
-        amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-        relatedInvoiceNo: (data.relatedInvoiceNo || "").toString(),
-        reason: (data.reason || "").toString(),
-        transactionId: (data.transactionId || "").toString() || undefined,
-        createdAt: data.createdAt?.toDate?.() || new Date(),
-      } as NoteRecord;
-    });
-    setNotes(list);
-  };
+  const fetchParties = useCallback(async () => {
+    const [customersList, suppliersList] = await Promise.all([listRecords("customers"), listRecords("suppliers")]);
+    const byName = (a: PartyRecord, b: PartyRecord) => a.name.localeCompare(b.name);
+    setCustomers(customersList.filter((x) => x.name).sort(byName));
+    setSuppliers(suppliersList.filter((x) => x.name).sort(byName));
+  }, []);
 
-  const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
+  const fetchNotes = useCallback(async () => {
+    setNotes(await listRecords("debitCreditNotes", { orderBy: "createdAt", direction: "desc" }));
+  }, []);
 
+  const fetchAll = useCallback(async () => {
     setIsLoading(true);
     try {
       await Promise.all([fetchParties(), fetchNotes()]);
     } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
       console.error("Error fetching debit/credit notes", error);
       toast({
         title: "Load failed",
@@ -184,11 +125,11 @@ export default function DebitCreditNotes() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [fetchParties, fetchNotes, toast]);
 
   useEffect(() => {
     fetchAll();
-  }, []);
+  }, [fetchAll]);
 
   const resetForm = () => {
     setEditing(null);
@@ -214,24 +155,17 @@ export default function DebitCreditNotes() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!db) return;
-    if (!confirm("Delete this note?")) return;
-
-    const note = notes.find((n) => n.id === id);
+    if (!confirm("Move this note to the Recycle Bin? Any stock change from returned goods is reversed.")) return;
 
     try {
-      await deleteDoc(doc(db, "debitCreditNotes", id));
-
-      if (note?.transactionId) {
-        await deleteDoc(doc(db, "transactions", note.transactionId));
-      }
-      toast({ title: "Deleted", description: "Note removed." });
+      await moveToRecycleBin("debitCreditNotes", id);
+      toast({ title: "Deleted", description: "Note moved to the Recycle Bin." });
       fetchNotes();
     } catch (error) {
       console.error("Error deleting note", error);
       toast({
         title: "Delete failed",
-        description: "Could not delete note.",
+        description: error instanceof Error ? error.message : "Could not delete note.",
         variant: "destructive",
       });
     }
@@ -248,15 +182,6 @@ export default function DebitCreditNotes() {
       return;
     }
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     if (!formData.noteNo.trim()) {
       toast({ title: "Validation error", description: "Note number is required.", variant: "destructive" });
       return;
@@ -288,16 +213,22 @@ export default function DebitCreditNotes() {
       amount,
       relatedInvoiceNo: formData.relatedInvoiceNo.trim(),
       reason: formData.reason.trim(),
-      updatedAt: Timestamp.now(),
     };
 
     setIsSubmitting(true);
     try {
-      if (editing) {
-        await updateDoc(doc(db, "debitCreditNotes", editing.id), payload);
+      await runRecordTransaction(async (tx) => {
+        const note = await tx.get("debitCreditNotes", editing.id);
+        if (!note || note.deletedAt) throw new Error("This note no longer exists.");
+        if (noteReturnMovement(note) && (payload.noteType !== note.noteType || payload.partyType !== note.partyType)) {
+          throw new Error("Goods were returned on this note; delete it and enter a new one to change its type or party type.");
+        }
+        const linked = note.transactionId ? await tx.get("transactions", note.transactionId) : null;
+
+        tx.update("debitCreditNotes", editing.id, payload);
 
-        if (editing.transactionId) {
-          await updateDoc(doc(db, "transactions", editing.transactionId), {
+        if (linked) {
+          tx.update("transactions", linked.id, {
             date: payload.date,
             description: `${payload.noteType} Note ${payload.noteNo}`,
             category: payload.noteType === "Debit" ? "Debit Note" : "Credit Note",
@@ -309,17 +240,11 @@ export default function DebitCreditNotes() {
             partyId: payload.partyId,
             partyName: payload.partyName,
             notes: payload.reason,
-            updatedAt: Timestamp.now(),
           });
         }
-        toast({ title: "Updated", description: "Note updated." });
-      } else {
-        await addDoc(collection(db, "debitCreditNotes"), {
-          ...payload,
-          createdAt: Timestamp.now(),
-        });
-        toast({ title: "Saved", description: "Note saved to Firestore." });
-      }
+        postJournal(tx, "debitCreditNote", editing.id, debitCreditNoteJournal({ ...note, ...payload }));
+      });
+      toast({ title: "Updated", description: "Note updated." });
 
       setIsDialogOpen(false);
       resetForm();
@@ -328,7 +253,7 @@ export default function DebitCreditNotes() {
       console.error("Error saving note", error);
       toast({
         title: "Save failed",
-        description: "Could not save note.",
+        description: error instanceof Error ? error.message : "Could not save note.",
         variant: "destructive",
       });
     } finally {
@@ -336,46 +261,45 @@ export default function DebitCreditNotes() {
     }
   };
 
-  const columns = useMemo(
-    () => [
-      {
-        key: "noteType",
-        header: "Type",
-        render: (n: NoteRecord) => (
-          <span className={n.noteType === "Debit" ? "text-warning font-medium" : "text-success font-medium"}>
-            {n.noteType}
-          </span>
-        ),
-      },
-      { key: "noteNo", header: "Note No" },
-      { key: "date", header: "Date" },
-      { key: "partyName", header: "Party" },
-      {
-        key: "amount",
-        header: "Amount",
-        render: (n: NoteRecord) => <span className="font-medium">₹{(n.amount || 0).toLocaleString("en-IN")}</span>,
-      },
-      { key: "relatedInvoiceNo", header: "Invoice No" },
-      { key: "reason", header: "Reason" },
-      {
-        key: "actions",
-        header: "Actions",
-        render: (n: NoteRecord) => (
-          <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
-            <Button variant="outline" size="sm" className="gap-1" onClick={() => openEdit(n)}>
-              <Pencil className="w-4 h-4" />
-              Edit
-            </Button>
+  const columns = [
+    {
+      key: "noteType",
+      header: "Type",
+      render: (n: NoteRecord) => (
+        <span className={n.noteType === "Debit" ? "text-warning font-medium" : "text-success font-medium"}>
+          {n.noteType}
+        </span>
+      ),
+    },
+    { key: "noteNo", header: "Note No" },
+    { key: "date", header: "Date" },
+    { key: "partyName", header: "Party" },
+    {
+      key: "amount",
+      header: "Amount",
+      render: (n: NoteRecord) => <span className="font-medium">₹{(n.amount || 0).toLocaleString("en-IN")}</span>,
+    },
+    { key: "relatedInvoiceNo", header: "Invoice No" },
+    { key: "reason", header: "Reason" },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (n: NoteRecord) => (
+        <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => openEdit(n)}>
+            <Pencil className="w-4 h-4" />
+            Edit
+          </Button>
+          {can("deleteRecords") && (
             <Button variant="destructive" size="sm" className="gap-1" onClick={() => handleDelete(n.id)}>
               <Trash2 className="w-4 h-4" />
               Delete
             </Button>
-          </div>
-        ),
-      },
-    ],
-    []
-  );
+          )}
+        </div>
+      ),
+    },
+  ];
 
   return (
     <>
@@ -463,7 +387,11 @@ export default function DebitCreditNotes() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Type</Label>
-                <Select value={formData.noteType} onValueChange={(v) => setFormData((s) => ({ ...s, noteType: v as NoteType }))}>
+                <Select
+                  value={formData.noteType}
+                  onValueChange={(v) => setFormData((s) => ({ ...s, noteType: v as NoteType }))}
+                  disabled={movedStock}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Select type" />
                   </SelectTrigger>
@@ -486,7 +414,11 @@ export default function DebitCreditNotes() {
 
               <div className="space-y-2">
                 <Label>Party Type</Label>
-                <Select value={formData.partyType} onValueChange={(v) => setFormData((s) => ({ ...s, partyType: v as NoteRecord["partyType"], partyId: "" }))}>
+                <Select
+                  value={formData.partyType}
+                  onValueChange={(v) => setFormData((s) => ({ ...s, partyType: v as NoteRecord["partyType"], partyId: "" }))}
+                  disabled={movedStock}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Select type" />
                   </SelectTrigger>
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { DataTable } from "@/components/tables/DataTable";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import { invoiceFromChallans, isChallanInvoiced, SalesOrderError } from "@/lib/sales-orders";
+import type { DeliveryChallanRecord } from "@/lib/schemas";
+import { FileText, RefreshCw, Truck } from "lucide-react";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function DeliveryChallans() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const challansQuery = useRecords("deliveryChallans", { orderBy: "challanDate", direction: "desc" });
+  const challans = useMemo(() => challansQuery.data ?? [], [challansQuery.data]);
+  const isLoading = challansQuery.isFetching;
+
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [issueDate, setIssueDate] = useState(today());
+  const [dueDate, setDueDate] = useState("");
+  const [manualInvoiceNo, setManualInvoiceNo] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!challansQuery.error) return;
+    console.error("Error fetching delivery challans", challansQuery.error);
+    toast({ title: "Load failed", description: "Could not load delivery challans.", variant: "destructive" });
+  }, [challansQuery.error, toast]);
+
+  const selectedChallans = challans.filter((c) => selected.includes(c.id));
+  const selectedParty = selectedChallans[0]?.partyId;
+
+  const toggle = (challan: DeliveryChallanRecord, checked: boolean) =>
+    setSelected((ids) => (checked ? [...ids, challan.id] : ids.filter((id) => id !== challan.id)));
+
+  const openInvoice = () => {
+    setIssueDate(today());
+    setDueDate("");
+    setManualInvoiceNo("");
+    setIsDialogOpen(true);
+  };
+
+  const handleInvoice = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!manualInvoiceNo.trim()) {
+      toast({ title: "Validation error", description: "Manual invoice number is required.", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const invoiceNo = await invoiceFromChallans(selected, { issueDate, dueDate, manualInvoiceNo });
+      toast({ title: "Invoice raised", description: `Invoice ${invoiceNo} saved and posted to the ledger.` });
+      setIsDialogOpen(false);
+      setSelected([]);
+      challansQuery.refetch();
+    } catch (error) {
+      console.error("Error raising invoice from challans", error);
+      toast({
+        title: error instanceof SalesOrderError ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not raise the invoice.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const columns = [
+    {
+      key: "select",
+      header: "",
+      render: (c: DeliveryChallanRecord) =>
+        !isChallanInvoiced(c) && (
+          <Checkbox
+            checked={selected.includes(c.id)}
+            disabled={!!selectedParty && selectedParty !== c.partyId}
+            onCheckedChange={(checked) => toggle(c, checked === true)}
+            aria-label={`Select ${c.challanNo}`}
+          />
+        ),
+    },
+    {
+      key: "challanNo",
+      header: "Challan",
+      render: (c: DeliveryChallanRecord) => (
+        <div>
+          <div className="font-medium">{c.challanNo}</div>
+          <div className="text-xs text-muted-foreground">{c.challanDate}</div>
+        </div>
+      ),
+    },
+    { key: "orderNo", header: "Sales Order" },
+    { key: "partyName", header: "Customer" },
+    {
+      key: "items",
+      header: "Goods",
+      render: (c: DeliveryChallanRecord) => (
+        <span className="text-sm">{c.items.map((l) => `${l.name} ${l.quantity} ${l.unit}`).join(", ")}</span>
+      ),
+    },
+    {
+      key: "dispatch",
+      header: "Vehicle",
+      render: (c: DeliveryChallanRecord) => <span className="text-sm">{c.dispatch?.vehicleNo || "—"}</span>,
+    },
+    {
+      key: "invoiceNo",
+      header: "Invoice",
+      render: (c: DeliveryChallanRecord) =>
+        isChallanInvoiced(c) ? (
+          <span className="rounded-full bg-success/20 text-success text-[11px] px-2 py-1 font-semibold">{c.invoiceNo}</span>
+        ) : (
+          <span className="rounded-full bg-warning/20 text-warning text-[11px] px-2 py-1 font-semibold">To invoice</span>
+        ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Delivery Challans" subtitle="Goods dispatched against sales orders, ready to be invoiced" />
+
+      <div className="p-6 space-y-6">
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <Button variant="secondary" onClick={() => challansQuery.refetch()} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate("/sales-orders")}>
+                Sales Orders
+              </Button>
+              <Button onClick={openInvoice} disabled={selected.length === 0}>
+                <FileText className="h-4 w-4 mr-2" />
+                Raise Invoice{selected.length ? ` (${selected.length})` : ""}
+              </Button>
+            </div>
+          </div>
+
+          {challans.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-muted-foreground/30 p-10 text-center text-muted-foreground">
+              <Truck className="w-12 h-12 mx-auto mb-4 opacity-20" />
+              {isLoading ? "Loading delivery challans..." : "No delivery challans yet. Dispatch a sales order to create one."}
+            </div>
+          ) : (
+            <DataTable data={challans} columns={columns} keyField="id" />
+          )}
+          <p className="text-xs text-muted-foreground">
+            Select one or more challans of the same customer to bill them on one tax invoice. Their goods have already left stock.
+          </p>
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <form onSubmit={handleInvoice}>
+            <DialogHeader>
+              <DialogTitle>Invoice {selectedChallans.map((c) => c.challanNo).join(", ")}</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="challanManualInvoiceNo">Manual Invoice No *</Label>
+                <Input id="challanManualInvoiceNo" value={manualInvoiceNo} onChange={(e) => setManualInvoiceNo(e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="challanIssueDate">Invoice Date</Label>
+                  <Input id="challanIssueDate" type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="challanDueDate">Due Date</Label>
+                  <Input id="challanDueDate" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The invoice takes the next number of its series when saved; lines, rates and tax come from the sales orders.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Raise Invoice"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
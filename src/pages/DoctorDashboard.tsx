@@ -1,12 +1,13 @@
-import React, { useState, useEffect } from "react";
+import React, { useCallback, useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { LogOut, Stethoscope, LayoutDashboard, UserPlus, ClipboardList } from "lucide-react";
+import { LogOut, MonitorX, Stethoscope, LayoutDashboard, UserPlus, ClipboardList } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, doc, setDoc, onSnapshot, query, getDocs } from "firebase/firestore";
+import { currentDoctorSession, signOutDoctor, signOutDoctorEverywhere } from "@/lib/doctor-auth";
+import { listRecords, putRecord, updateRecord } from "@/lib/repository";
+import type { DoctorRecord } from "@/lib/schemas";
 
 type View = "dashboard" | "add" | "history";
 
@@ -37,60 +38,55 @@ interface Patient {
 }
 
 export default function DoctorDashboard() {
-  const [currentDoctor, setCurrentDoctor] = useState<any>(null);
+  const [currentDoctor, setCurrentDoctor] = useState<DoctorRecord | null>(null);
   const [view, setView] = useState<View>("dashboard");
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [patients, setPatients] = useState<Patient[]>([]);
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // The stored session id is checked against doctorSessions on every visit and the
+  // doctor is sent back to the login page when it expires or is ended elsewhere.
   useEffect(() => {
-    const doctorData = localStorage.getItem("currentDoctor");
-    if (!doctorData) {
-      navigate("/doctor-login");
-      return;
-    }
-    const doctor = JSON.parse(doctorData);
-    setCurrentDoctor(doctor);
-    
-    console.log("Doctor logged in:", doctor);
-    console.log("Firestore initialized:", !!db);
-    
-    // Load patients from Firestore
-    if (db) {
-      const patientsRef = collection(db, "doctors", doctor.id, "patients");
-      console.log("Setting up Firestore listener for patients");
-      const unsubscribe = onSnapshot(patientsRef, (snapshot) => {
-        console.log("Firestore data received, docs count:", snapshot.docs.length);
-        const patientsArray = snapshot.docs.map(doc => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            name: data.name,
-            age: data.age,
-            gender: data.gender,
-            phone: data.phone,
-            mobile: data.mobile,
-            email: data.email,
-            weight: data.weight,
-            height: data.height,
-            bloodPressure: data.bloodPressure,
-            bloodGroup: data.bloodGroup,
-            notes: data.notes,
-            histories: data.histories || []
-          } as Patient;
-        });
-        console.log("Patients loaded:", patientsArray);
-        setPatients(patientsArray);
-      }, (error) => {
-        console.error("Firestore listener error:", error);
+    let cancelled = false;
+    let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    currentDoctorSession()
+      .then((session) => {
+        if (cancelled) return;
+        if (!session) {
+          navigate("/doctor-login");
+          return;
+        }
+        setCurrentDoctor(session.doctor);
+        expiryTimer = setTimeout(() => {
+          signOutDoctor().finally(() => navigate("/doctor-login"));
+          toast({ title: "Session expired", description: "Please sign in again." });
+        }, Math.min(session.expiresAt.getTime() - Date.now(), 2 ** 31 - 1));
+      })
+      .catch((error) => {
+        console.error("Failed to verify doctor session:", error);
+        navigate("/doctor-login");
       });
-      
-      return () => unsubscribe();
-    } else {
-      console.error("Firestore not initialized!");
+
+    return () => {
+      cancelled = true;
+      clearTimeout(expiryTimer);
+    };
+  }, [navigate, toast]);
+
+  const loadPatients = useCallback(async () => {
+    if (!currentDoctor) return;
+    try {
+      setPatients((await listRecords("patients", { parentId: currentDoctor.id })) as Patient[]);
+    } catch (error) {
+      console.error("Error loading patients:", error);
     }
-  }, [navigate]);
+  }, [currentDoctor]);
+
+  useEffect(() => {
+    loadPatients();
+  }, [loadPatients]);
 
   const addPatient = async (p: Omit<Patient, "id" | "histories">) => {
     if (!currentDoctor) {
@@ -102,16 +98,6 @@ export default function DoctorDashboard() {
       return;
     }
     
-    if (!db) {
-      toast({
-        title: "Database Error",
-        description: "Firestore not initialized. Check your Firebase configuration.",
-        variant: "destructive",
-      });
-      console.error("Firestore is null");
-      return;
-    }
-    
     const patientId = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const patient = {
       name: p.name,
@@ -126,15 +112,12 @@ export default function DoctorDashboard() {
       bloodGroup: p.bloodGroup,
       notes: p.notes,
       histories: [],
-      createdAt: new Date().toISOString()
     };
     
-    console.log("Adding patient to Firestore:", patient, "Doctor ID:", currentDoctor.id);
-    
     try {
-      await setDoc(doc(db, "doctors", currentDoctor.id, "patients", patientId), patient);
-      console.log("Patient added successfully to Firestore");
+      await putRecord("patients", `${currentDoctor.id}/${patientId}`, patient);
       // Stay on add patient page to see the updated table
+      await loadPatients();
     } catch (error) {
       console.error("Error adding patient:", error);
       toast({
@@ -146,7 +129,7 @@ export default function DoctorDashboard() {
   };
 
   const addHistory = async (patientId: string, entry: Omit<HistoryEntry, "id">) => {
-    if (!currentDoctor || !db) return;
+    if (!currentDoctor) return;
     
     const patient = patients.find(p => p.id === patientId);
     if (!patient) return;
@@ -156,11 +139,8 @@ export default function DoctorDashboard() {
     const updatedHistories = [...patient.histories, newHistory];
     
     try {
-      await setDoc(doc(db, "doctors", currentDoctor.id, "patients", patientId), {
-        ...patient,
-        histories: updatedHistories
-      });
-      console.log("History added successfully to Firestore");
+      await updateRecord("patients", patientId, { histories: updatedHistories });
+      await loadPatients();
     } catch (error) {
       console.error("Error adding history:", error);
       toast({
@@ -171,11 +151,27 @@ export default function DoctorDashboard() {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem("currentDoctor");
+  const handleLogout = async () => {
+    await signOutDoctor();
     navigate("/doctor-login");
   };
 
+  const handleLogoutEverywhere = async () => {
+    if (!currentDoctor) return;
+    if (!confirm("Sign out of the doctor portal on all devices?")) return;
+    try {
+      await signOutDoctorEverywhere(currentDoctor.id);
+      navigate("/doctor-login");
+    } catch (error) {
+      console.error("Error ending sessions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to sign out other devices",
+        variant: "destructive",
+      });
+    }
+  };
+
   const Dashboard = () => {
     return (
       <div className="p-6">
@@ -569,10 +565,16 @@ export default function DoctorDashboard() {
               <p className="text-xs text-muted-foreground">{currentDoctor.specialization || "Doctor"}</p>
             </div>
           </div>
-          <Button variant="outline" onClick={handleLogout} size="sm" className="gap-2">
-            <LogOut className="w-4 h-4" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={handleLogoutEverywhere} size="sm" className="gap-2">
+              <MonitorX className="w-4 h-4" />
+              Logout all devices
+            </Button>
+            <Button variant="outline" onClick={handleLogout} size="sm" className="gap-2">
+              <LogOut className="w-4 h-4" />
+              Logout
+            </Button>
+          </div>
         </div>
 
         <div className="flex-1 overflow-auto">
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Stethoscope } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -6,8 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, query, where, getDocs } from "firebase/firestore";
+import { currentDoctorSession, signInDoctor } from "@/lib/doctor-auth";
 
 export default function DoctorLogin() {
   const [loginId, setLoginId] = useState("");
@@ -16,6 +15,14 @@ export default function DoctorLogin() {
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  useEffect(() => {
+    currentDoctorSession()
+      .then((session) => {
+        if (session) navigate("/doctor-dashboard", { replace: true });
+      })
+      .catch((error) => console.warn("Failed to check doctor session:", error));
+  }, [navigate]);
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -30,48 +37,19 @@ export default function DoctorLogin() {
 
     setIsLoading(true);
     try {
-      if (!db) {
-        throw new Error("Firebase not initialized");
-      }
-
-      // Find doctor by loginId
-      const doctorsRef = collection(db, "doctors");
-      const q = query(doctorsRef, where("loginId", "==", loginId));
-      const querySnapshot = await getDocs(q);
-
-      if (querySnapshot.empty) {
-        throw new Error("Invalid login credentials");
-      }
-
-      const doctorDoc = querySnapshot.docs[0];
-      const doctorData = doctorDoc.data();
-
-      // Validate password
-      // Note: In production, use proper password hashing (bcrypt, etc.)
-      if (doctorData.password !== password) {
-        throw new Error("Invalid login credentials");
-      }
-
-      // Store doctor info in localStorage
-      localStorage.setItem("currentDoctor", JSON.stringify({
-        id: doctorDoc.id,
-        name: doctorData.name,
-        email: doctorData.email,
-        specialization: doctorData.specialization,
-        loginId: doctorData.loginId,
-      }));
+      const { doctor } = await signInDoctor(loginId, password);
 
       toast({
         title: "Login Successful",
-        description: `Welcome back, Dr. ${doctorData.name}`,
+        description: `Welcome back, Dr. ${doctor.name}`,
       });
 
       navigate("/doctor-dashboard");
-    } catch (error: any) {
+    } catch (error) {
       console.error("Login error:", error);
       toast({
         title: "Login Failed",
-        description: error.message || "Invalid credentials",
+        description: error instanceof Error ? error.message : "Invalid credentials",
         variant: "destructive",
       });
     } finally {
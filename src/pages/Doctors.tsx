@@ -13,16 +13,18 @@ import {
   Filter,
   Phone,
   Mail,
-  MapPin
+  MapPin,
+  KeyRound
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, addDoc, getDocs, query } from "firebase/firestore";
+import { createDoctorAccount, migrateLegacyPasswords, resetDoctorPassword } from "@/lib/doctor-auth";
+import { listRecords } from "@/lib/repository";
 
 type TabType = "all" | "active" | "meetings";
 
@@ -39,6 +41,9 @@ interface Doctor {
   prescriptions: number;
   loginId?: string;
   createdAt?: string;
+  // Joined from doctorCredentials; the doctor document itself holds no password.
+  hasCredentials?: boolean;
+  lockedUntil?: Date;
 }
 
 interface Meeting {
@@ -62,6 +67,10 @@ export default function Doctors() {
   const [isAddDoctorOpen, setIsAddDoctorOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const [resetDoctor, setResetDoctor] = useState<Doctor | null>(null);
+  const [resetLoginId, setResetLoginId] = useState("");
+  const [resetPassword, setResetPassword] = useState("");
   
   const [newDoctor, setNewDoctor] = useState({
     name: "",
@@ -81,14 +90,17 @@ export default function Doctors() {
 
   const loadDoctors = async () => {
     try {
-      if (!db) return;
-      const doctorsRef = collection(db, "doctors");
-      const q = query(doctorsRef);
-      const querySnapshot = await getDocs(q);
-      const doctorsData: Doctor[] = [];
-      querySnapshot.forEach((doc) => {
-        doctorsData.push({ id: doc.id, ...doc.data() } as Doctor);
-      });
+      // Older doctor records may still hold a plaintext password; hash those before listing.
+      await migrateLegacyPasswords();
+      const [records, credentials] = await Promise.all([listRecords("doctors"), listRecords("doctorCredentials")]);
+      const credentialsById = new Map(credentials.map((c) => [c.id, c]));
+      // Never keep a legacy plaintext password in page state.
+      const doctorsData = records.map(({ password: _password, createdAt, ...doctor }) => ({
+        ...doctor,
+        createdAt: createdAt?.toISOString(),
+        hasCredentials: credentialsById.has(doctor.id),
+        lockedUntil: credentialsById.get(doctor.id)?.lockedUntil,
+      })) as Doctor[];
       setDoctors(doctorsData);
     } catch (error) {
       console.error("Error loading doctors:", error);
@@ -107,29 +119,21 @@ export default function Doctors() {
 
     setIsLoading(true);
     try {
-      if (!db) {
-        throw new Error("Firebase not initialized");
-      }
-
-      // Store doctor credentials in Firestore (will be used for login validation)
-      // Note: In production, you should use Firebase Admin SDK or Cloud Functions
-      // to create user accounts without affecting current session
-      const doctorData = {
-        name: newDoctor.name,
-        specialization: newDoctor.specialization,
-        hospital: newDoctor.hospital,
-        city: newDoctor.city,
-        phone: newDoctor.phone,
-        email: newDoctor.email,
-        loginId: newDoctor.loginId,
-        password: newDoctor.password, // In production, hash this password
-        status: newDoctor.status,
-        lastVisit: "Never",
-        prescriptions: 0,
-        createdAt: new Date().toISOString(),
-      };
-
-      await addDoc(collection(db, "doctors"), doctorData);
+      await createDoctorAccount(
+        {
+          name: newDoctor.name,
+          specialization: newDoctor.specialization,
+          hospital: newDoctor.hospital,
+          city: newDoctor.city,
+          phone: newDoctor.phone,
+          email: newDoctor.email,
+          status: newDoctor.status,
+          lastVisit: "Never",
+          prescriptions: 0,
+        },
+        newDoctor.loginId,
+        newDoctor.password
+      );
 
       toast({
         title: "Doctor Added Successfully",
@@ -150,11 +154,48 @@ export default function Doctors() {
       });
       
       loadDoctors();
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error adding doctor:", error);
       toast({
         title: "Error",
-        description: error.message || "Failed to add doctor",
+        description: error instanceof Error ? error.message : "Failed to add doctor",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openReset = (doctor: Doctor) => {
+    setResetDoctor(doctor);
+    setResetLoginId(doctor.loginId || "");
+    setResetPassword("");
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetDoctor) return;
+    if (!resetLoginId.trim() || resetPassword.length < 6) {
+      toast({
+        title: "Missing Information",
+        description: "Enter a login ID and a password of at least 6 characters",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await resetDoctorPassword(resetDoctor.id, resetLoginId, resetPassword);
+      toast({
+        title: "Password Reset",
+        description: `Dr. ${resetDoctor.name} has been signed out everywhere and can log in with the new password.`,
+      });
+      setResetDoctor(null);
+      loadDoctors();
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset password",
         variant: "destructive",
       });
     } finally {
@@ -221,6 +262,27 @@ export default function Doctors() {
         <span className="text-primary font-medium">{item.prescriptions}</span>
       )
     },
+    {
+      key: "loginId" as keyof Doctor,
+      header: "Portal Login",
+      render: (item: Doctor) => (
+        <div className="flex items-center gap-2">
+          <div>
+            <p className="text-sm">{item.loginId || "-"}</p>
+            {item.lockedUntil && item.lockedUntil > new Date() ? (
+              <p className="text-xs text-destructive">Locked</p>
+            ) : !item.hasCredentials ? (
+              <p className="text-xs text-muted-foreground">No password set</p>
+            ) : null}
+          </div>
+          {can("manageDoctorAccess") && (
+            <Button variant="ghost" size="sm" title="Reset password" onClick={() => openReset(item)}>
+              <KeyRound className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      )
+    },
   ];
 
   const meetingColumns = [
@@ -577,6 +639,40 @@ export default function Doctors() {
           </div>
         </div>
       </div>
+
+      <Dialog open={!!resetDoctor} onOpenChange={(open) => !open && setResetDoctor(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Portal Password</DialogTitle>
+            <DialogDescription>
+              Sets a new password for Dr. {resetDoctor?.name}, unlocks the account and ends all of their sessions.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="resetLoginId">Login ID</Label>
+              <Input id="resetLoginId" value={resetLoginId} onChange={(e) => setResetLoginId(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="resetPassword">New Password</Label>
+              <Input
+                id="resetPassword"
+                type="password"
+                value={resetPassword}
+                onChange={(e) => setResetPassword(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setResetDoctor(null)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleResetPassword} disabled={isLoading}>
+              {isLoading ? "Saving..." : "Reset Password"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
@@ -0,0 +1,314 @@
+import { useMemo, useState } from "react";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useCompany } from "@/hooks/use-company";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import { exportToExcel } from "@/lib/export-excel";
+import {
+  balanceSheet,
+  financialYear,
+  outstandingByParty,
+  previousPeriod,
+  profitAndLoss,
+  trialBalance,
+  type Comparative,
+  type ReportPeriod,
+  type StatementSection,
+} from "@/lib/financial-reports";
+import { ACCOUNTS } from "@/lib/ledger";
+import { drawPdfLetterhead } from "@/lib/letterhead";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { Download, FileText, RefreshCw } from "lucide-react";
+
+type ReportTab = "trial-balance" | "profit-loss" | "balance-sheet";
+
+const money = (n: number): string => {
+  const value = Number.isFinite(n) ? n : 0;
+  const text = Math.abs(value).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return value < 0 ? `(${text})` : text;
+};
+
+const blank = (n: number) => (n ? money(n) : "");
+
+type ReportLine = { label: string; current: string; previous: string; bold?: boolean };
+
+function sectionLines(section: StatementSection): ReportLine[] {
+  return [
+    { label: section.title, current: "", previous: "", bold: true },
+    ...section.rows.map((r) => ({ label: `  ${r.label}`, current: money(r.current), previous: money(r.previous) })),
+    { label: `Total ${section.title}`, current: money(section.total.current), previous: money(section.total.previous), bold: true },
+  ];
+}
+
+function totalLine(label: string, value: Comparative): ReportLine {
+  return { label, current: money(value.current), previous: money(value.previous), bold: true };
+}
+
+export default function FinancialReports() {
+  const { toast } = useToast();
+  const { company } = useCompany();
+  const [tab, setTab] = useState<ReportTab>("trial-balance");
+  const [period, setPeriod] = useState<ReportPeriod>(() => financialYear(new Date().toISOString().slice(0, 10)));
+
+  const { data: entries = [], isFetching, refetch } = useRecords("journalEntries");
+
+  const previous = useMemo(() => previousPeriod(period), [period]);
+  const periodLabel = `${period.from} to ${period.to}`;
+  const previousLabel = `${previous.from} to ${previous.to}`;
+
+  const tb = useMemo(() => trialBalance(entries, period.to, previous.to), [entries, period.to, previous.to]);
+  const pl = useMemo(() => profitAndLoss(entries, period, previous), [entries, period, previous]);
+  const bs = useMemo(() => balanceSheet(entries, period.to, previous.to), [entries, period.to, previous.to]);
+  const debtors = useMemo(() => outstandingByParty(entries, ACCOUNTS.receivables, period.to), [entries, period.to]);
+  const creditors = useMemo(() => outstandingByParty(entries, ACCOUNTS.payables, period.to), [entries, period.to]);
+
+  const statementLines = useMemo<Record<Exclude<ReportTab, "trial-balance">, ReportLine[]>>(
+    () => ({
+      "profit-loss": [...sectionLines(pl.income), ...sectionLines(pl.expenses), totalLine("Net Profit / (Loss)", pl.netProfit)],
+      "balance-sheet": [
+        ...sectionLines(bs.assets),
+        ...sectionLines(bs.liabilities),
+        ...sectionLines(bs.equity),
+        totalLine("Total Liabilities & Capital", bs.totalLiabilitiesAndEquity),
+      ],
+    }),
+    [pl, bs]
+  );
+
+  const reportTitle = {
+    "trial-balance": "Trial Balance",
+    "profit-loss": "Profit & Loss",
+    "balance-sheet": "Balance Sheet",
+  }[tab];
+
+  const tableFor = (which: ReportTab) => {
+    if (which === "trial-balance") {
+      const head = ["Code", "Account", `Debit (${period.to})`, `Credit (${period.to})`, `Debit (${previous.to})`, `Credit (${previous.to})`];
+      const body = [
+        ...tb.rows.map((r) => [
+          r.account.code,
+          r.account.name,
+          blank(r.debit),
+          blank(r.credit),
+          blank(r.previousDebit),
+          blank(r.previousCredit),
+        ]),
+        ["", "Total", money(tb.totalDebit.current), money(tb.totalCredit.current), money(tb.totalDebit.previous), money(tb.totalCredit.previous)],
+      ];
+      return { head, body };
+    }
+    const head = ["Particulars", periodLabel, previousLabel];
+    const body = statementLines[which].map((l) => [l.label, l.current, l.previous]);
+    return { head, body };
+  };
+
+  const handleExportExcel = () => {
+    const { head, body } = tableFor(tab);
+    const rows = body.map((cells) => Object.fromEntries(head.map((h, i) => [h, cells[i]])));
+    exportToExcel({ rows, fileName: `${reportTitle.replace(/[^A-Za-z]+/g, "_")}_${period.to}`, sheetName: reportTitle.slice(0, 31) });
+  };
+
+  const handleExportPdf = () => {
+    const { head, body } = tableFor(tab);
+    const doc = new jsPDF();
+    const top = drawPdfLetterhead(doc, company);
+
+    doc.setFontSize(18);
+    doc.text(reportTitle, 14, top + 6);
+
+    doc.setFontSize(11);
+    doc.text(tab === "profit-loss" ? `For ${periodLabel}` : `As of ${period.to} (compared with ${previous.to})`, 14, top + 14);
+
+    const boldRows = new Set(
+      tab === "trial-balance"
+        ? [body.length - 1]
+        : statementLines[tab].flatMap((l, i) => (l.bold ? [i] : []))
+    );
+    autoTable(doc, {
+      startY: top + 21,
+      head: [head],
+      body,
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [59, 130, 246] },
+      columnStyles: tab === "trial-balance" ? {} : { 1: { halign: "right" }, 2: { halign: "right" } },
+      didParseCell: (data) => {
+        if (data.section === "body" && boldRows.has(data.row.index)) {
+          data.cell.styles.fontStyle = "bold";
+        }
+      },
+    });
+
+    doc.save(`${reportTitle.replace(/[^A-Za-z]+/g, "_")}_${period.to}.pdf`);
+    toast({ title: "PDF Downloaded", description: `${reportTitle} has been downloaded.` });
+  };
+
+  const renderStatement = (lines: ReportLine[]) => (
+    <div className="rounded-xl border border-border overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[260px]">Particulars</TableHead>
+            <TableHead className="text-right whitespace-nowrap">{periodLabel}</TableHead>
+            <TableHead className="text-right whitespace-nowrap text-muted-foreground">{previousLabel}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.map((l, i) => (
+            <TableRow key={`${l.label}-${i}`} className={l.bold ? "bg-muted/40" : ""}>
+              <TableCell className={`whitespace-pre ${l.bold ? "font-semibold" : ""}`}>{l.label}</TableCell>
+              <TableCell className={`text-right whitespace-nowrap ${l.bold ? "font-semibold" : ""}`}>{l.current}</TableCell>
+              <TableCell className="text-right whitespace-nowrap text-muted-foreground">{l.previous}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  const tbBalanced = Math.abs(tb.totalDebit.current - tb.totalCredit.current) < 0.01;
+  const bsBalanced = Math.abs(bs.assets.total.current - bs.totalLiabilitiesAndEquity.current) < 0.01;
+
+  return (
+    <>
+      <AppHeader title="Financial Reports" subtitle="Trial balance, profit & loss and balance sheet from the ledger" />
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <Card className="p-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input type="date" value={period.from} onChange={(e) => setPeriod((p) => ({ ...p, from: e.target.value }))} />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Input type="date" value={period.to} onChange={(e) => setPeriod((p) => ({ ...p, to: e.target.value }))} />
+              </div>
+              <p className="text-sm text-muted-foreground pb-2">Compared with {previousLabel}</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={handleExportExcel}>
+                <Download className="w-4 h-4" />
+                Export Excel
+              </Button>
+              <Button className="gap-2" onClick={handleExportPdf}>
+                <FileText className="w-4 h-4" />
+                Download PDF
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        <Tabs value={tab} onValueChange={(v) => setTab(v as ReportTab)}>
+          <TabsList>
+            <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+            <TabsTrigger value="profit-loss">Profit & Loss</TabsTrigger>
+            <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="trial-balance">
+            <Card className="p-6 space-y-4">
+              {!tbBalanced && (
+                <p className="text-sm text-destructive">Debits and credits differ. Rebuild the ledger from the Accounting page.</p>
+              )}
+              <div className="rounded-xl border border-border overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="whitespace-nowrap">Code</TableHead>
+                      <TableHead className="min-w-[220px]">Account</TableHead>
+                      <TableHead className="text-right whitespace-nowrap">Debit</TableHead>
+                      <TableHead className="text-right whitespace-nowrap">Credit</TableHead>
+                      <TableHead className="text-right whitespace-nowrap text-muted-foreground">Prev. Debit</TableHead>
+                      <TableHead className="text-right whitespace-nowrap text-muted-foreground">Prev. Credit</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tb.rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-10 text-muted-foreground">
+                          No journal entries up to {period.to}.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      tb.rows.map((r) => (
+                        <TableRow key={r.account.code}>
+                          <TableCell className="font-mono">{r.account.code}</TableCell>
+                          <TableCell className="font-medium">{r.account.name}</TableCell>
+                          <TableCell className="text-right">{blank(r.debit)}</TableCell>
+                          <TableCell className="text-right">{blank(r.credit)}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">{blank(r.previousDebit)}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">{blank(r.previousCredit)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                    <TableRow className="bg-muted/40 font-semibold">
+                      <TableCell />
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right">{money(tb.totalDebit.current)}</TableCell>
+                      <TableCell className="text-right">{money(tb.totalCredit.current)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{money(tb.totalDebit.previous)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{money(tb.totalCredit.previous)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="profit-loss">
+            <Card className="p-6">{renderStatement(statementLines["profit-loss"])}</Card>
+          </TabsContent>
+
+          <TabsContent value="balance-sheet">
+            <Card className="p-6 space-y-6">
+              {!bsBalanced && (
+                <p className="text-sm text-destructive">Assets do not equal liabilities and capital. Rebuild the ledger from the Accounting page.</p>
+              )}
+              {renderStatement(statementLines["balance-sheet"])}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {[
+                  { title: "Sundry Debtors (from invoices)", rows: debtors },
+                  { title: "Sundry Creditors (from purchases)", rows: creditors },
+                ].map(({ title, rows }) => (
+                  <div key={title} className="rounded-xl border border-border overflow-auto">
+                    <div className="px-4 py-3 border-b border-border font-semibold text-foreground">{title}</div>
+                    <Table>
+                      <TableBody>
+                        {rows.length === 0 ? (
+                          <TableRow>
+                            <TableCell className="text-center py-6 text-muted-foreground">Nothing outstanding.</TableCell>
+                          </TableRow>
+                        ) : (
+                          rows.map((r) => (
+                            <TableRow key={r.partyId || r.partyName}>
+                              <TableCell>{r.partyName}</TableCell>
+                              <TableCell className="text-right">{money(r.amount)}</TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,531 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { DataTable } from "@/components/tables/DataTable";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import { PurchaseBillError, priceBill } from "@/lib/purchase-bills";
+import {
+  billableQuantity,
+  bookSupplierInvoice,
+  PurchaseOrderError,
+  releaseQcHold,
+  threeWayMatch,
+  ThreeWayMatchError,
+  type SupplierInvoiceLine,
+} from "@/lib/purchase-orders";
+import type { GoodsReceiptRecord } from "@/lib/schemas";
+import { FileText, PackageCheck, RefreshCw, ShieldCheck } from "lucide-react";
+
+type BillLine = { goodsReceiptId: string; grnLine: number; quantity: string; rate: string; tax: string };
+type HoldDecision = { acceptedQuantity: string; rejectedQuantity: string };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function safeNumber(value: string): number {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+const isValidationError = (error: unknown) =>
+  error instanceof PurchaseOrderError || error instanceof ThreeWayMatchError || error instanceof PurchaseBillError;
+
+const hasHold = (grn: GoodsReceiptRecord) => grn.items.some((l) => l.heldQuantity > 0);
+const isBillable = (grn: GoodsReceiptRecord) => grn.items.some((l) => billableQuantity(l) > 0);
+
+export default function GoodsReceipts() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const receiptsQuery = useRecords("goodsReceipts", { orderBy: "grnDate", direction: "desc" });
+  const ordersQuery = useRecords("purchaseOrders");
+  const receipts = useMemo(() => receiptsQuery.data ?? [], [receiptsQuery.data]);
+  const orders = useMemo(() => ordersQuery.data ?? [], [ordersQuery.data]);
+  const isLoading = receiptsQuery.isFetching;
+
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isBillDialogOpen, setIsBillDialogOpen] = useState(false);
+  const [invoiceNo, setInvoiceNo] = useState("");
+  const [invoiceDate, setInvoiceDate] = useState(today());
+  const [dueDate, setDueDate] = useState("");
+  const [freight, setFreight] = useState("");
+  const [discount, setDiscount] = useState("");
+  const [billLines, setBillLines] = useState<BillLine[]>([]);
+  const [acceptVariance, setAcceptVariance] = useState(false);
+  const [releasing, setReleasing] = useState<GoodsReceiptRecord | null>(null);
+  const [releaseDate, setReleaseDate] = useState(today());
+  const [decisions, setDecisions] = useState<HoldDecision[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!receiptsQuery.error) return;
+    console.error("Error fetching goods receipts", receiptsQuery.error);
+    toast({ title: "Load failed", description: "Could not load goods receipts.", variant: "destructive" });
+  }, [receiptsQuery.error, toast]);
+
+  const refresh = () => {
+    receiptsQuery.refetch();
+    ordersQuery.refetch();
+  };
+
+  const selectedReceipts = receipts.filter((r) => selected.includes(r.id));
+  const selectedSupplier = selectedReceipts[0]?.supplierId;
+
+  const toggle = (grn: GoodsReceiptRecord, checked: boolean) =>
+    setSelected((ids) => (checked ? [...ids, grn.id] : ids.filter((id) => id !== grn.id)));
+
+  const invoiceLines: SupplierInvoiceLine[] = billLines.map((l) => ({
+    goodsReceiptId: l.goodsReceiptId,
+    grnLine: l.grnLine,
+    quantity: safeNumber(l.quantity),
+    rate: safeNumber(l.rate),
+    tax: safeNumber(l.tax),
+  }));
+  const billed = invoiceLines.filter((l) => l.quantity > 0);
+  const problems = threeWayMatch(selectedReceipts, orders, billed);
+  // The total doesn't depend on the CGST/SGST vs IGST split, which is settled when the bill is booked.
+  const billTotal = priceBill(
+    billed.map((l) => ({ itemId: "", itemCode: "", itemName: "", unit: "", quantity: l.quantity, rate: l.rate, tax: l.tax })),
+    { discount: safeNumber(discount), freight: safeNumber(freight) },
+    "CGST / SGST"
+  ).total;
+
+  const updateBillLine = (index: number, patch: Partial<BillLine>) =>
+    setBillLines((lines) => lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+
+  const openBill = () => {
+    setInvoiceNo("");
+    setInvoiceDate(today());
+    setDueDate("");
+    setFreight("");
+    setDiscount("");
+    setAcceptVariance(false);
+    setBillLines(
+      selectedReceipts.flatMap((grn) =>
+        grn.items.flatMap((line, grnLine) => {
+          if (billableQuantity(line) <= 0) return [];
+          const ordered = orders.find((o) => o.id === grn.purchaseOrderId)?.items[line.orderLine];
+          return [
+            {
+              goodsReceiptId: grn.id,
+              grnLine,
+              quantity: String(billableQuantity(line)),
+              rate: String(ordered?.rate ?? ""),
+              tax: String(ordered?.tax ?? ""),
+            },
+          ];
+        })
+      )
+    );
+    setIsBillDialogOpen(true);
+  };
+
+  const openRelease = (grn: GoodsReceiptRecord) => {
+    setReleasing(grn);
+    setReleaseDate(today());
+    setDecisions(grn.items.map((line) => ({ acceptedQuantity: line.heldQuantity ? String(line.heldQuantity) : "", rejectedQuantity: "" })));
+  };
+
+  const handleBook = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      const amount = await bookSupplierInvoice({
+        invoiceNo,
+        date: invoiceDate,
+        dueDate: dueDate || undefined,
+        lines: invoiceLines,
+        freight: safeNumber(freight),
+        discount: safeNumber(discount),
+        acceptVariance,
+      });
+      toast({
+        title: "Invoice booked",
+        description: `Supplier invoice ${invoiceNo.trim()} booked to payables for ₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2 })}.`,
+      });
+      setIsBillDialogOpen(false);
+      setSelected([]);
+      refresh();
+    } catch (error) {
+      console.error("Error booking supplier invoice", error);
+      toast({
+        title: isValidationError(error) ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not book the supplier invoice.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRelease = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!releasing) return;
+
+    setIsSubmitting(true);
+    try {
+      let released = 0;
+      for (const [index, decision] of decisions.entries()) {
+        const acceptedQuantity = safeNumber(decision.acceptedQuantity);
+        const rejectedQuantity = safeNumber(decision.rejectedQuantity);
+        if (!acceptedQuantity && !rejectedQuantity) continue;
+        await releaseQcHold(releasing.id, index, { acceptedQuantity, rejectedQuantity, date: releaseDate });
+        released += 1;
+      }
+      if (!released) {
+        toast({ title: "Validation error", description: "Enter a quantity to release or reject.", variant: "destructive" });
+        return;
+      }
+      toast({ title: "QC hold updated", description: `Released goods on ${releasing.grnNo} added to Raw Inventory.` });
+      setReleasing(null);
+      refresh();
+    } catch (error) {
+      console.error("Error releasing QC hold", error);
+      toast({
+        title: isValidationError(error) ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not update the QC hold.",
+        variant: "destructive",
+      });
+      refresh();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const columns = [
+    {
+      key: "select",
+      header: "",
+      render: (g: GoodsReceiptRecord) =>
+        isBillable(g) && (
+          <Checkbox
+            checked={selected.includes(g.id)}
+            disabled={!!selectedSupplier && selectedSupplier !== g.supplierId}
+            onCheckedChange={(checked) => toggle(g, checked === true)}
+            aria-label={`Select ${g.grnNo}`}
+          />
+        ),
+    },
+    {
+      key: "grnNo",
+      header: "GRN",
+      render: (g: GoodsReceiptRecord) => (
+        <div>
+          <div className="font-medium">{g.grnNo}</div>
+          <div className="text-xs text-muted-foreground">
+            {g.grnDate}
+            {g.deliveryNoteNo ? ` · DN ${g.deliveryNoteNo}` : ""}
+          </div>
+        </div>
+      ),
+    },
+    { key: "poNo", header: "PO" },
+    { key: "supplierName", header: "Supplier" },
+    {
+      key: "items",
+      header: "Accepted / Rejected / On hold / Billed",
+      render: (g: GoodsReceiptRecord) => (
+        <div className="space-y-1 text-sm">
+          {g.items.map((line, i) => (
+            <div key={i} className="whitespace-nowrap">
+              {line.itemName}: {line.acceptedQuantity} / {line.rejectedQuantity} / {line.heldQuantity} / {line.billedQuantity} {line.unit}
+            </div>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (g: GoodsReceiptRecord) =>
+        hasHold(g) && (
+          <div onClick={(e) => e.stopPropagation()}>
+            <Button variant="ghost" size="sm" onClick={() => openRelease(g)} title="Release or reject goods on QC hold">
+              <ShieldCheck className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Goods Receipts" subtitle="Deliveries received against purchase orders, matched to supplier invoices" />
+
+      <div className="p-6 space-y-6">
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <Button variant="secondary" onClick={refresh} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate("/purchase-orders")}>
+                Purchase Orders
+              </Button>
+              <Button onClick={openBill} disabled={selected.length === 0}>
+                <FileText className="h-4 w-4 mr-2" />
+                Book Supplier Invoice{selected.length ? ` (${selected.length})` : ""}
+              </Button>
+            </div>
+          </div>
+
+          {receipts.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-muted-foreground/30 p-10 text-center text-muted-foreground">
+              <PackageCheck className="w-12 h-12 mx-auto mb-4 opacity-20" />
+              {isLoading ? "Loading goods receipts..." : "No goods receipts yet. Receive goods against a purchase order to create one."}
+            </div>
+          ) : (
+            <DataTable data={receipts} columns={columns} keyField="id" />
+          )}
+          <p className="text-xs text-muted-foreground">
+            Select receipts from one supplier to book their invoice. It is matched against the purchase order rates and the
+            accepted quantities before anything is posted to payables.
+          </p>
+        </Card>
+      </div>
+
+      <Dialog open={isBillDialogOpen} onOpenChange={setIsBillDialogOpen}>
+        <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleBook}>
+            <DialogHeader>
+              <DialogTitle>Supplier Invoice from {selectedReceipts[0]?.supplierName}</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplierInvoiceNo">Invoice No *</Label>
+                  <Input id="supplierInvoiceNo" value={invoiceNo} onChange={(e) => setInvoiceNo(e.target.value)} required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplierInvoiceDate">Invoice Date</Label>
+                  <Input
+                    id="supplierInvoiceDate"
+                    type="date"
+                    value={invoiceDate}
+                    onChange={(e) => setInvoiceDate(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplierDueDate">Due Date</Label>
+                  <Input id="supplierDueDate" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+                </div>
+              </div>
+
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>GRN</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">To Bill</TableHead>
+                      <TableHead className="w-[110px]">Billed Qty</TableHead>
+                      <TableHead className="w-[110px]">Rate</TableHead>
+                      <TableHead className="w-[90px]">GST %</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {billLines.map((bill, index) => {
+                      const grn = selectedReceipts.find((r) => r.id === bill.goodsReceiptId);
+                      const line = grn?.items[bill.grnLine];
+                      return (
+                        <TableRow key={`${bill.goodsReceiptId}-${bill.grnLine}`}>
+                          <TableCell>{grn?.grnNo}</TableCell>
+                          <TableCell>{line?.itemName}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {line ? billableQuantity(line) : 0} {line?.unit}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={bill.quantity}
+                              onChange={(e) => updateBillLine(index, { quantity: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={bill.rate}
+                              onChange={(e) => updateBillLine(index, { rate: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={bill.tax}
+                              onChange={(e) => updateBillLine(index, { tax: e.target.value })}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplierFreight">Freight</Label>
+                  <Input
+                    id="supplierFreight"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={freight}
+                    onChange={(e) => setFreight(e.target.value)}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplierDiscount">Discount</Label>
+                  <Input
+                    id="supplierDiscount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={discount}
+                    onChange={(e) => setDiscount(e.target.value)}
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Invoice total incl. GST and freight</span>
+                <span className="font-semibold">
+                  ₹{billTotal.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </span>
+              </div>
+
+              {problems.length === 0 ? (
+                <div className="rounded-md border border-success/30 bg-success/10 p-3 text-sm text-success">
+                  Matches the purchase orders and the accepted quantities.
+                </div>
+              ) : (
+                <div className="rounded-md border border-warning/30 bg-warning/10 p-3 text-sm space-y-1">
+                  {problems.map((p, i) => (
+                    <div key={i} className={p.kind === "quantity" ? "text-destructive" : "text-warning"}>
+                      {p.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {problems.some((p) => p.kind !== "quantity") && (
+                <div className="flex items-center gap-2">
+                  <Checkbox id="acceptVariance" checked={acceptVariance} onCheckedChange={(checked) => setAcceptVariance(checked === true)} />
+                  <Label htmlFor="acceptVariance" className="text-sm font-normal">
+                    Book at the billed rates and GST despite the differences from the order
+                  </Label>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsBillDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || billed.length === 0}>
+                {isSubmitting ? "Saving..." : "Book Invoice"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!releasing} onOpenChange={(open) => !open && setReleasing(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <form onSubmit={handleRelease}>
+            <DialogHeader>
+              <DialogTitle>QC Hold on {releasing?.grnNo}</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="releaseDate">Decision Date</Label>
+                <Input id="releaseDate" type="date" value={releaseDate} onChange={(e) => setReleaseDate(e.target.value)} required />
+              </div>
+
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">On Hold</TableHead>
+                      <TableHead className="w-[120px]">Release</TableHead>
+                      <TableHead className="w-[120px]">Reject</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {releasing?.items.map((line, index) =>
+                      line.heldQuantity > 0 ? (
+                        <TableRow key={index}>
+                          <TableCell>
+                            {line.itemName}
+                            {line.lotNo && <div className="text-xs text-muted-foreground font-mono">{line.lotNo}</div>}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {line.heldQuantity} {line.unit}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={decisions[index]?.acceptedQuantity ?? ""}
+                              onChange={(e) =>
+                                setDecisions((d) => d.map((v, i) => (i === index ? { ...v, acceptedQuantity: e.target.value } : v)))
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={decisions[index]?.rejectedQuantity ?? ""}
+                              onChange={(e) =>
+                                setDecisions((d) => d.map((v, i) => (i === index ? { ...v, rejectedQuantity: e.target.value } : v)))
+                              }
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ) : null
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Released goods enter Raw Inventory as a new lot. Rejected goods go back to the supplier and are pending again on the
+                purchase order.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setReleasing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Decision"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useMemo, useState } from "react";
+import { saveAs } from "file-saver";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useCompany } from "@/hooks/use-company";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import { companyStateCode } from "@/lib/company";
+import { exportSheetsToExcel } from "@/lib/export-excel";
+import { GST_STATES, type GstAmounts, type GstSummaryRow } from "@/lib/gst";
+import { buildGstr1, buildGstr3b, gstr1Json, gstr3bJson, returnPeriod } from "@/lib/gst-returns";
+import { AlertTriangle, Download, FileJson, RefreshCw } from "lucide-react";
+
+type ReturnTab = "gstr1" | "gstr3b";
+type Cell = string | number;
+
+interface Section {
+  title: string;
+  head: string[];
+  body: Cell[][];
+}
+
+const money = (n: number): string =>
+  (Number.isFinite(n) ? n : 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const posLabel = (code: string) => (GST_STATES[code] ? `${code}-${GST_STATES[code]}` : code || "—");
+
+const taxCells = (a: GstAmounts): Cell[] => [a.taxable, a.igst, a.cgst, a.sgst];
+const TAX_HEAD = ["Taxable Value", "IGST", "CGST", "SGST"];
+
+/** One row per document and rate, as the portal's Excel template lays them out. */
+function documentRows<T extends { rates: GstSummaryRow[] }>(docs: T[], lead: (d: T) => Cell[]): Cell[][] {
+  return docs.flatMap((d) => d.rates.map((r) => [...lead(d), r.rate, ...taxCells(r)]));
+}
+
+export default function GstReturns() {
+  const { toast } = useToast();
+  const [tab, setTab] = useState<ReturnTab>("gstr1");
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+
+  const invoicesQuery = useRecords("invoices");
+  const notesQuery = useRecords("debitCreditNotes");
+  const purchasesQuery = useRecords("purchases");
+  const purchaseBillsQuery = useRecords("purchaseBills");
+  const customersQuery = useRecords("customers");
+  const suppliersQuery = useRecords("suppliers");
+  const itemsQuery = useRecords("items");
+  const queries = [invoicesQuery, notesQuery, purchasesQuery, purchaseBillsQuery, customersQuery, suppliersQuery, itemsQuery];
+  const isFetching = queries.some((q) => q.isFetching);
+
+  const { company } = useCompany();
+  const sellerState = companyStateCode(company);
+  const { gstr1, gstr3b } = useMemo(() => {
+    const input = {
+      month,
+      sellerState,
+      invoices: invoicesQuery.data ?? [],
+      notes: notesQuery.data ?? [],
+      purchases: purchasesQuery.data ?? [],
+      purchaseBills: purchaseBillsQuery.data ?? [],
+      customers: customersQuery.data ?? [],
+      suppliers: suppliersQuery.data ?? [],
+      items: itemsQuery.data ?? [],
+    };
+    const gstr1 = buildGstr1(input);
+    return { gstr1, gstr3b: buildGstr3b(input, gstr1) };
+  }, [
+    month,
+    sellerState,
+    invoicesQuery.data,
+    notesQuery.data,
+    purchasesQuery.data,
+    purchaseBillsQuery.data,
+    customersQuery.data,
+    suppliersQuery.data,
+    itemsQuery.data,
+  ]);
+
+  const sections = useMemo<Record<ReturnTab, Section[]>>(
+    () => ({
+      gstr1: [
+        {
+          title: "B2B Invoices",
+          head: ["GSTIN", "Receiver", "Invoice No", "Date", "Invoice Value", "Place of Supply", "Rate", ...TAX_HEAD],
+          body: documentRows(gstr1.b2b, (d) => [d.ctin, d.partyName, d.number, d.date, d.value, posLabel(d.pos)]),
+        },
+        {
+          title: "B2C Large Invoices",
+          head: ["Receiver", "Invoice No", "Date", "Invoice Value", "Place of Supply", "Rate", ...TAX_HEAD],
+          body: documentRows(gstr1.b2cl, (d) => [d.partyName, d.number, d.date, d.value, posLabel(d.pos)]),
+        },
+        {
+          title: "B2C Small",
+          head: ["Type", "Place of Supply", "Rate", ...TAX_HEAD],
+          body: gstr1.b2cs.map((r) => [r.supplyType === "INTER" ? "Inter-state" : "Intra-state", posLabel(r.pos), r.rate, ...taxCells(r)]),
+        },
+        {
+          title: "Credit/Debit Notes",
+          head: ["Type", "GSTIN", "Receiver", "Note No", "Date", "Against Invoice", "Note Value", "Place of Supply", "Rate", ...TAX_HEAD],
+          body: documentRows([...gstr1.cdnr, ...gstr1.cdnur], (d) => [
+            d.noteType === "C" ? "Credit" : "Debit",
+            d.ctin || "Unregistered",
+            d.partyName,
+            d.number,
+            d.date,
+            d.invoiceNo,
+            d.value,
+            posLabel(d.pos),
+          ]),
+        },
+        {
+          title: "HSN Summary",
+          head: ["HSN", "Description", "UQC", "Quantity", "Rate", ...TAX_HEAD, "Total Value"],
+          body: gstr1.hsn.map((r) => [r.hsnCode || "—", r.description, r.uqc, r.quantity, r.rate, ...taxCells(r), r.value]),
+        },
+      ],
+      gstr3b: [
+        {
+          title: "Tax Summary",
+          head: ["Section", ...TAX_HEAD],
+          body: [
+            ["3.1(a) Outward taxable supplies", ...taxCells(gstr3b.outward)],
+            ["3.1(c) Nil rated supplies", gstr3b.nilRated, 0, 0, 0],
+            ["4(A)(5) Input tax credit (all other ITC)", ...taxCells(gstr3b.inputTax)],
+            ["Net tax payable (negative: credit carried forward)", "", gstr3b.netPayable.igst, gstr3b.netPayable.cgst, gstr3b.netPayable.sgst],
+          ],
+        },
+        {
+          title: "3.2 Inter-state supplies to unregistered persons",
+          head: ["Place of Supply", "Taxable Value", "IGST"],
+          body: gstr3b.interStateUnregistered.map((r) => [posLabel(r.pos), r.taxable, r.igst]),
+        },
+        {
+          title: "Input tax from purchases",
+          head: ["Date", "Supplier", "GSTIN", "Bill No", ...TAX_HEAD],
+          body: gstr3b.inputTaxRows.map((r) => [r.date, r.supplierName, r.ctin || "—", r.invoiceNo, ...taxCells(r)]),
+        },
+      ],
+    }),
+    [gstr1, gstr3b]
+  );
+
+  const warnings = tab === "gstr1" ? gstr1.warnings : [...gstr1.warnings, ...gstr3b.warnings];
+  const fileBase = `${tab.toUpperCase()}_${returnPeriod(month)}`;
+
+  const handleExportExcel = () => {
+    exportSheetsToExcel({
+      fileName: fileBase,
+      sheets: sections[tab].map((s) => ({
+        name: s.title.replace(/[^A-Za-z0-9 ().-]+/g, " "),
+        rows: s.body.map((cells) => Object.fromEntries(s.head.map((h, i) => [h, cells[i]]))),
+      })),
+    });
+  };
+
+  const handleDownloadJson = () => {
+    if (!company.gstin) {
+      toast({ title: "Company GSTIN missing", description: "Enter the GSTIN under Settings → Company Profile before filing.", variant: "destructive" });
+      return;
+    }
+    const json = tab === "gstr1" ? gstr1Json(company.gstin, month, gstr1) : gstr3bJson(company.gstin, month, gstr3b);
+    saveAs(new Blob([JSON.stringify(json, null, 2)], { type: "application/json" }), `${fileBase}_${company.gstin}.json`);
+    toast({ title: "JSON downloaded", description: `Import ${fileBase} into the GST offline tool.` });
+  };
+
+  const renderSection = (section: Section) => (
+    <div key={section.title} className="rounded-xl border border-border overflow-auto">
+      <div className="px-4 py-3 border-b border-border font-semibold text-foreground">
+        {section.title} <span className="text-sm font-normal text-muted-foreground">({section.body.length})</span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {section.head.map((h) => (
+              <TableHead key={h} className="whitespace-nowrap">
+                {h}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {section.body.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={section.head.length} className="text-center py-6 text-muted-foreground">
+                Nothing to report for {month}.
+              </TableCell>
+            </TableRow>
+          ) : (
+            section.body.map((cells, i) => (
+              <TableRow key={i}>
+                {cells.map((c, j) => (
+                  <TableCell key={j} className={typeof c === "number" ? "text-right whitespace-nowrap" : "whitespace-nowrap"}>
+                    {typeof c === "number" && section.head[j] !== "Rate" && section.head[j] !== "Quantity" ? money(c) : c}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <>
+      <AppHeader title="GST Returns" subtitle="GSTR-1 and GSTR-3B figures from invoices, notes and purchases" />
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <Card className="p-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>Return Period</Label>
+                <Input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} />
+              </div>
+              <p className="text-sm text-muted-foreground pb-2">
+                GSTIN {company.gstin || "not set"} · {sellerState ? posLabel(sellerState) : "state not set"}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => queries.forEach((q) => q.refetch())} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={handleExportExcel}>
+                <Download className="w-4 h-4" />
+                Export Excel
+              </Button>
+              <Button className="gap-2" onClick={handleDownloadJson}>
+                <FileJson className="w-4 h-4" />
+                Download JSON
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        {warnings.length > 0 && (
+          <Card className="p-4 border-warning/50">
+            <div className="flex items-center gap-2 font-semibold text-warning">
+              <AlertTriangle className="w-4 h-4" />
+              {warnings.length} item{warnings.length === 1 ? "" : "s"} to check before filing
+            </div>
+            <ul className="mt-2 max-h-40 overflow-auto text-sm text-muted-foreground list-disc pl-6 space-y-1">
+              {warnings.map((w, i) => (
+                <li key={i}>{w}</li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        <Tabs value={tab} onValueChange={(v) => setTab(v as ReturnTab)}>
+          <TabsList>
+            <TabsTrigger value="gstr1">GSTR-1</TabsTrigger>
+            <TabsTrigger value="gstr3b">GSTR-3B</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="gstr1">
+            <Card className="p-6 space-y-6">{sections.gstr1.map(renderSection)}</Card>
+          </TabsContent>
+
+          <TabsContent value="gstr3b">
+            <Card className="p-6 space-y-6">{sections.gstr3b.map(renderSection)}</Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { AppHeader } from "@/components/layout/AppHeader";
+import { ExpiryAlerts } from "@/components/inventory/ExpiryAlerts";
 import { StatCard } from "@/components/cards/StatCard";
 import { QuickActionCard } from "@/components/cards/QuickActionCard";
 import { 
@@ -20,8 +21,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Legend, ResponsiveContainer, Area, AreaChart } from "recharts";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, where, orderBy, limit } from "firebase/firestore";
+import { listRecords } from "@/lib/repository";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -101,63 +101,37 @@ const Index = () => {
   ];
 
   const fetchDashboardData = async () => {
-    if (!db) {
-      setLoading(false);
-      return;
-    }
-
     try {
-      // Fetch raw inventory
-      const rawInventoryRef = collection(db, "rawInventory");
-      const rawSnapshot = await getDocs(rawInventoryRef);
-      const rawInventoryCount = rawSnapshot.size;
-      const rawValue = rawSnapshot.docs.reduce((sum, doc) => {
-        const data = doc.data();
-        return sum + (parseFloat(data.quantity) || 0);
-      }, 0);
-
-      // Fetch processed inventory
-      const processedInventoryRef = collection(db, "processedInventory");
-      const processedSnapshot = await getDocs(processedInventoryRef);
-      const processedInventoryCount = processedSnapshot.size;
-      const processedValue = processedSnapshot.docs.reduce((sum, doc) => {
-        const data = doc.data();
-        return sum + (parseFloat(data.quantity) || 0);
-      }, 0);
-
-      // Fetch batches
-      const batchesRef = collection(db, "batches");
-      const batchesSnapshot = await getDocs(batchesRef);
-      const allBatches = batchesSnapshot.docs.map(doc => doc.data());
-      
+      const [rawInventory, processedInventory, allBatches, doctors, recentBatches] = await Promise.all([
+        listRecords("rawInventory"),
+        listRecords("processedInventory"),
+        listRecords("batches"),
+        listRecords("doctors"),
+        listRecords("batches", { orderBy: "createdAt", direction: "desc", limit: 5 }),
+      ]);
+
+      const rawInventoryCount = rawInventory.length;
+      const rawValue = rawInventory.reduce((sum, item) => sum + (item.quantity || 0), 0);
+      const processedInventoryCount = processedInventory.length;
+      const processedValue = processedInventory.reduce((sum, item) => sum + (item.quantity || 0), 0);
+
       const activeBatchesCount = allBatches.filter(b => b.status === "in process").length;
       const approvedBatchesCount = allBatches.filter(b => b.status === "approved").length;
       const discardedBatchesCount = allBatches.filter(b => b.status === "discarded").length;
 
-      // Fetch doctors
-      const doctorsRef = collection(db, "doctors");
-      const doctorsSnapshot = await getDocs(doctorsRef);
-      const doctorsCount = doctorsSnapshot.size;
+      const doctorsCount = doctors.length;
 
       // Check for low stock items (quantity < 10)
-      const lowStockCount = rawSnapshot.docs.filter(doc => {
-        const quantity = parseFloat(doc.data().quantity) || 0;
-        return quantity < 10;
-      }).length;
-
-      // Fetch recent activities (last 5 batches)
-      const recentBatchesQuery = query(batchesRef, orderBy("createdAt", "desc"), limit(5));
-      const recentBatchesSnapshot = await getDocs(recentBatchesQuery);
-      const activities: RecentActivity[] = recentBatchesSnapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          type: "batch",
-          description: `Batch ${data.batchNo} ${data.status}`,
-          timestamp: data.createdAt?.toDate() || new Date(),
-          status: data.status,
-        };
-      });
+      const lowStockCount = rawInventory.filter(item => (item.quantity || 0) < 10).length;
+
+      // Recent activities (last 5 batches)
+      const activities: RecentActivity[] = recentBatches.map(batch => ({
+        id: batch.id,
+        type: "batch",
+        description: `Batch ${batch.batchNo} ${batch.status}`,
+        timestamp: batch.createdAt || new Date(),
+        status: batch.status,
+      }));
 
       setStats({
         totalRawInventory: rawInventoryCount,
@@ -215,6 +189,8 @@ const Index = () => {
       />
       
       <div className="flex-1 overflow-auto p-6">
+        <ExpiryAlerts limit={5} />
+
         {/* Key Performance Indicators */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <StatCard
@@ -1,6 +1,8 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { DispatchFields } from "@/components/invoices/DispatchFields";
 import { AppHeader } from "@/components/layout/AppHeader";
+import { DocumentNumberFields } from "@/components/numbering/DocumentNumberFields";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,42 +12,27 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, doc, getDocs, runTransaction, Timestamp } from "firebase/firestore";
+import { useRecords } from "@/hooks/use-records";
+import { companyStateCode } from "@/lib/company";
+import { dispatchDetails, EMPTY_DISPATCH } from "@/lib/eway-bill";
+import { GST_STATES, gstLine, gstTotals, stateCodeFromGstin, taxTypeFor } from "@/lib/gst";
+import { invoiceJournal, postJournal } from "@/lib/ledger";
+import { nextDocumentNumber } from "@/lib/numbering";
+import { assertSaleable, saleableQuantity } from "@/lib/qc";
+import { runRecordTransaction } from "@/lib/repository";
+import type { DispatchDetails, InvoiceLineItem, ItemRecord } from "@/lib/schemas";
+import { applyStockChange } from "@/lib/stock";
 import { ArrowLeft, Check, ChevronsUpDown, FileText, Plus, Trash2 } from "lucide-react";
 
 type InvoiceStatus = "Approved" | "In Process";
 
-interface ProcessedInventoryOption {
-  id: string;
-  name: string;
-  unit?: string;
-}
-
-interface InvoiceLineItem {
-  processedInventoryId: string;
-  name: string;
-  unit: string;
-  quantity: number;
-  rate: number;
-  taxType?: "CGST / SGST" | "IGST";
-  tax?: number;
-}
-
-interface PartyOption {
-  id: string;
-  name: string;
-  address?: string;
-  phone?: string;
-  email?: string;
-  gst?: string;
-}
-
 interface InvoiceFormState {
-  invoiceNo: string;
+  branch: string;
   manualInvoiceNo: string;
   partyId: string;
+  placeOfSupply: string;
   issueDate: string;
   subtotal: string;
   taxPercent: string;
@@ -58,27 +45,38 @@ function safeNumber(value: string): number {
   return Number.isFinite(n) ? n : 0;
 }
 
-function generateSystemInvoiceNo(date: string): string {
-  const ymd = (date || new Date().toISOString().slice(0, 10)).replace(/-/g, "");
-  const suffix = Math.floor(1000 + Math.random() * 9000);
-  return `INV-${ymd}-${suffix}`;
-}
-
 export default function InvoiceNew() {
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const [customers, setCustomers] = useState<PartyOption[]>([]);
-  const [processedInventoryOptions, setProcessedInventoryOptions] = useState<ProcessedInventoryOption[]>([]);
+  const customersQuery = useRecords("customers");
+  const processedInventoryQuery = useRecords("processedInventory");
+  const itemsQuery = useRecords("items");
   const [customerPickerOpen, setCustomerPickerOpen] = useState(false);
 
-  const [isLoading, setIsLoading] = useState(false);
+  const customers = useMemo(
+    () => (customersQuery.data ?? []).filter((x) => x.name).sort((a, b) => a.name.localeCompare(b.name)),
+    [customersQuery.data]
+  );
+  const processedInventoryOptions = useMemo(
+    () => (processedInventoryQuery.data ?? []).filter((x) => x.name).sort((a, b) => a.name.localeCompare(b.name)),
+    [processedInventoryQuery.data]
+  );
+  // Processed goods carry no HSN of their own; the item master entry with the same name does.
+  const itemMasterByName = useMemo(() => {
+    const map = new Map<string, ItemRecord>();
+    for (const it of itemsQuery.data ?? []) map.set(it.name.trim().toLowerCase(), it);
+    return map;
+  }, [itemsQuery.data]);
+  const isLoading = customersQuery.isLoading || processedInventoryQuery.isLoading;
+  const loadError = customersQuery.error || processedInventoryQuery.error;
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const [formData, setFormData] = useState<InvoiceFormState>({
-    invoiceNo: "",
+    branch: "",
     manualInvoiceNo: "",
     partyId: "",
+    placeOfSupply: "",
     issueDate: new Date().toISOString().slice(0, 10),
     subtotal: "",
     taxPercent: "0",
@@ -87,11 +85,20 @@ export default function InvoiceNew() {
   });
 
   const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([]);
+  const [dispatch, setDispatch] = useState<DispatchDetails>(EMPTY_DISPATCH);
 
   const selectedCustomer = useMemo(() => customers.find((p) => p.id === formData.partyId) || null, [customers, formData.partyId]);
+  const { company } = useCompany();
+  const sellerState = companyStateCode(company);
+
+  // The profile loads after the form opens; default the place of supply to the company's state.
+  useEffect(() => {
+    if (sellerState) setFormData((s) => (s.placeOfSupply ? s : { ...s, placeOfSupply: sellerState }));
+  }, [sellerState]);
+  const supplyTaxType = taxTypeFor(sellerState, formData.placeOfSupply);
 
   const processedInventoryById = useMemo(() => {
-    const map = new Map<string, ProcessedInventoryOption>();
+    const map = new Map<string, (typeof processedInventoryOptions)[number]>();
     for (const it of processedInventoryOptions) map.set(it.id, it);
     return map;
   }, [processedInventoryOptions]);
@@ -105,105 +112,28 @@ export default function InvoiceNew() {
 
   const computedTaxAmount = useMemo(() => {
     if (lineItems.length) {
-      return Math.max(
-        0,
-        lineItems.reduce((sum, it) => {
-          const base = (Number(it.quantity) || 0) * (Number(it.rate) || 0);
-          const pct = Number(it.tax) || 0;
-          return sum + (base * pct) / 100;
-        }, 0)
-      );
+      const totals = gstTotals(lineItems.map((it) => ({ ...it, taxType: supplyTaxType })));
+      return Math.max(0, totals.cgst + totals.sgst + totals.igst);
     }
     const pct = safeNumber(formData.taxPercent);
     return Math.max(0, (computedSubtotal * pct) / 100);
-  }, [computedSubtotal, formData.taxPercent, lineItems]);
+  }, [computedSubtotal, formData.taxPercent, lineItems, supplyTaxType]);
 
   const computedTotal = useMemo(() => {
     return Math.max(0, computedSubtotal + computedTaxAmount);
   }, [computedSubtotal, computedTaxAmount]);
 
-  const fetchOptions = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setIsLoading(true);
-    try {
-      const [customersSnap, processedInvSnap] = await Promise.all([
-        getDocs(collection(db, "customers")),
-        getDocs(collection(db, "processedInventory")),
-      ]);
-
-      const customersList = customersSnap.docs
-        .map((d) => {
-          const data = d.data();
-          return {
-            id: d.id,
-            name: (data.name || "").toString(),
-            address: (data.address || "").toString() || undefined,
-            phone: (data.phone || "").toString() || undefined,
-            email: (data.email || "").toString() || undefined,
-            gst: (data.gst || "").toString() || undefined,
-          } as PartyOption;
-        })
-        .filter((x) => x.name)
-        .sort((a, b) => a.name.localeCompare(b.name));
-
-      const processedList = processedInvSnap.docs
-        .map((d) => {
-          const data = d.data();
-          return {
-            id: d.id,
-            name: (data.name || "").toString(),
-            unit: (data.unit || "").toString() || undefined,
-          } as ProcessedInventoryOption;
-        })
-        .filter((x) => x.name)
-        .sort((a, b) => a.name.localeCompare(b.name));
-
-      setCustomers(customersList);
-      setProcessedInventoryOptions(processedList);
-    } catch (error) {
-      console.error("Error loading invoice options", error);
-      toast({ title: "Load failed", description: "Could not load customers/suppliers/items.", variant: "destructive" });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   useEffect(() => {
-    fetchOptions();
-  }, []);
+    if (!loadError) return;
+    console.error("Error loading invoice options", loadError);
+    toast({ title: "Load failed", description: "Could not load customers/suppliers/items.", variant: "destructive" });
+  }, [loadError, toast]);
 
-  useEffect(() => {
-    setFormData((s) => {
-      if (s.invoiceNo) return s;
-      return { ...s, invoiceNo: generateSystemInvoiceNo(s.issueDate) };
-    });
-  }, []);
+  const setBranch = useCallback((branch: string) => setFormData((s) => ({ ...s, branch })), []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (!formData.invoiceNo.trim()) {
-      toast({ title: "Validation error", description: "Invoice number is required.", variant: "destructive" });
-      return;
-    }
-
     if (!formData.manualInvoiceNo.trim()) {
       toast({ title: "Validation error", description: "Manual invoice number is required.", variant: "destructive" });
       return;
@@ -214,6 +144,11 @@ export default function InvoiceNew() {
       return;
     }
 
+    if (!formData.placeOfSupply) {
+      toast({ title: "Validation error", description: "Select the place of supply.", variant: "destructive" });
+      return;
+    }
+
     const taxPercent = safeNumber(formData.taxPercent);
     const effectiveTaxPercent = lineItems.length ? 0 : taxPercent;
     if (computedSubtotal < 0 || effectiveTaxPercent < 0 || computedTaxAmount < 0) {
@@ -225,10 +160,11 @@ export default function InvoiceNew() {
       .map((it) => ({
         processedInventoryId: (it.processedInventoryId || "").toString(),
         name: (it.name || "").toString(),
+        hsnCode: (it.hsnCode || "").trim(),
         unit: (it.unit || "").toString() || "pcs",
         quantity: Number(it.quantity) || 0,
         rate: Number(it.rate) || 0,
-        taxType: it.taxType || "CGST / SGST",
+        taxType: supplyTaxType,
         tax: Math.max(0, Number(it.tax) || 0),
       }))
       .filter((it) => it.processedInventoryId && it.name && it.quantity > 0);
@@ -248,7 +184,6 @@ export default function InvoiceNew() {
     }
 
     const payload = {
-      invoiceNo: formData.invoiceNo.trim(),
       manualInvoiceNo: formData.manualInvoiceNo.trim(),
       partyType: "customer" as const,
       partyId: formData.partyId,
@@ -260,6 +195,8 @@ export default function InvoiceNew() {
         gst: selectedCustomer?.gst || "",
       },
       issueDate: formData.issueDate,
+      placeOfSupply: formData.placeOfSupply,
+      dispatch: dispatchDetails(dispatch),
       items: sanitizedItems,
       subtotal: computedSubtotal,
       taxPercent: effectiveTaxPercent,
@@ -267,42 +204,42 @@ export default function InvoiceNew() {
       total: computedTotal,
       status: formData.status,
       notes: formData.notes.trim(),
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
+      branch: formData.branch || undefined,
     };
 
     setIsSubmitting(true);
     try {
-      const invoicesCol = collection(db, "invoices");
-      const invoiceRef = doc(invoicesCol);
-
-      await runTransaction(db, async (tx) => {
+      const invoiceNo = await runRecordTransaction(async (tx) => {
         // Deduct processed inventory first (abort invoice if stock insufficient)
+        const stock = [];
         for (const [processedId, usedQty] of quantitiesByProcessedId.entries()) {
-          const invRef = doc(db, "processedInventory", processedId);
-          const snap = await tx.get(invRef);
-          if (!snap.exists()) {
+          const item = await tx.get("processedInventory", processedId);
+          if (!item) {
             throw new Error(`Processed inventory item not found: ${processedId}`);
           }
 
-          const data = snap.data() as any;
-          const currentQty = typeof data.quantity === "number" ? data.quantity : parseFloat(data.quantity) || 0;
-          const nextQty = currentQty - usedQty;
-          if (nextQty < 0) {
-            const name = (data.name || "").toString();
-            throw new Error(`Insufficient stock for ${name || processedId}. Available: ${currentQty}, Required: ${usedQty}`);
-          }
+          assertSaleable(item, usedQty);
+          stock.push({ item, usedQty });
+        }
 
-          tx.update(invRef, {
-            quantity: nextQty.toString(),
-            lastUpdated: new Date().toISOString().split("T")[0],
+        const invoiceNo = await nextDocumentNumber(tx, "invoice", payload.issueDate, formData.branch);
+        const invoice = { ...payload, invoiceNo };
+        const invoiceId = tx.create("invoices", invoice);
+        for (const { item, usedQty } of stock) {
+          applyStockChange(tx, "processed", item, -usedQty, {
+            date: payload.issueDate,
+            movementType: "dispatch",
+            sourceType: "invoice",
+            sourceId: invoiceId,
+            reference: invoiceNo,
           });
         }
 
-        tx.set(invoiceRef, payload);
+        postJournal(tx, "invoice", invoiceId, invoiceJournal({ ...invoice, id: invoiceId }));
+        return invoiceNo;
       });
 
-      toast({ title: "Saved", description: "Invoice saved to Firestore." });
+      toast({ title: "Saved", description: `Invoice ${invoiceNo} saved and posted to the ledger.` });
       navigate("/invoices");
     } catch (error) {
       console.error("Error saving invoice", error);
@@ -338,10 +275,13 @@ export default function InvoiceNew() {
         <form onSubmit={handleSubmit} className="space-y-4">
           <Card className="p-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="invoiceNo">System Invoice No</Label>
-                <Input id="invoiceNo" value={formData.invoiceNo} readOnly disabled />
-              </div>
+              <DocumentNumberFields
+                documentType="invoice"
+                label="System Invoice No"
+                date={formData.issueDate}
+                branch={formData.branch}
+                onBranchChange={setBranch}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="manualInvoiceNo">Manual Invoice No *</Label>
@@ -379,7 +319,11 @@ export default function InvoiceNew() {
                               key={c.id}
                               value={c.name}
                               onSelect={() => {
-                                setFormData((s) => ({ ...s, partyId: c.id }));
+                                setFormData((s) => ({
+                                  ...s,
+                                  partyId: c.id,
+                                  placeOfSupply: stateCodeFromGstin(c.gst) || s.placeOfSupply,
+                                }));
                                 setCustomerPickerOpen(false);
                               }}
                             >
@@ -398,6 +342,27 @@ export default function InvoiceNew() {
                 <Label htmlFor="issueDate">Issue Date (Invoice)</Label>
                 <Input id="issueDate" type="date" value={formData.issueDate} onChange={(e) => setFormData((s) => ({ ...s, issueDate: e.target.value }))} />
               </div>
+
+              <div className="space-y-2">
+                <Label>Place of Supply *</Label>
+                <Select value={formData.placeOfSupply} onValueChange={(v) => setFormData((s) => ({ ...s, placeOfSupply: v }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(GST_STATES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>
+                        {code} - {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {sellerState
+                    ? `${supplyTaxType === "IGST" ? "Inter-state supply: IGST" : "Intra-state supply: CGST + SGST"} applies.`
+                    : "Company state is not configured; CGST + SGST applies."}
+                </p>
+              </div>
             </div>
           </Card>
 
@@ -439,7 +404,7 @@ export default function InvoiceNew() {
                 onClick={() =>
                   setLineItems((prev) => [
                     ...prev,
-                    { processedInventoryId: "", name: "", unit: "pcs", quantity: 1, rate: 0, taxType: "CGST / SGST", tax: 0 },
+                    { processedInventoryId: "", name: "", hsnCode: "", unit: "pcs", quantity: 1, rate: 0, taxType: supplyTaxType, tax: 0 },
                   ])
                 }
               >
@@ -456,10 +421,10 @@ export default function InvoiceNew() {
                   <TableHeader>
                     <TableRow>
                       <TableHead className="min-w-[260px]">Item</TableHead>
+                      <TableHead className="w-[110px]">HSN</TableHead>
                       <TableHead className="w-[90px] text-right">Qty</TableHead>
                       <TableHead className="w-[80px]">Unit</TableHead>
                       <TableHead className="w-[110px] text-right">Rate</TableHead>
-                      <TableHead className="w-[140px]">Type</TableHead>
                       <TableHead className="w-[110px] text-right">TAX (%)</TableHead>
                       <TableHead className="w-[110px] text-right">CGST (%)</TableHead>
                       <TableHead className="w-[110px] text-right">SGST (%)</TableHead>
@@ -472,14 +437,12 @@ export default function InvoiceNew() {
 
                   <TableBody>
                     {lineItems.map((it, idx) => {
-                      const baseAmount = (Number(it.quantity) || 0) * (Number(it.rate) || 0);
-                      const taxPercent = Number(it.tax) || 0;
-                      const type = it.taxType || "CGST / SGST";
-                      const cgstPercent = type === "CGST / SGST" ? taxPercent / 2 : 0;
-                      const sgstPercent = type === "CGST / SGST" ? taxPercent / 2 : 0;
-                      const igstPercent = type === "IGST" ? taxPercent : 0;
-                      const taxAmount = (baseAmount * taxPercent) / 100;
-                      const amount = baseAmount + taxAmount;
+                      const line = gstLine({ ...it, taxType: supplyTaxType });
+                      const cgstPercent = supplyTaxType === "CGST / SGST" ? line.rate / 2 : 0;
+                      const sgstPercent = supplyTaxType === "CGST / SGST" ? line.rate / 2 : 0;
+                      const igstPercent = supplyTaxType === "IGST" ? line.rate : 0;
+                      const taxAmount = line.cgst + line.sgst + line.igst;
+                      const amount = line.total;
 
                       return (
                         <TableRow key={idx}>
@@ -488,6 +451,7 @@ export default function InvoiceNew() {
                               value={it.processedInventoryId}
                               onValueChange={(v) => {
                                 const selected = processedInventoryOptions.find((o) => o.id === v);
+                                const master = selected ? itemMasterByName.get(selected.name.trim().toLowerCase()) : undefined;
                                 setLineItems((prev) =>
                                   prev.map((x, i) =>
                                     i === idx
@@ -496,6 +460,8 @@ export default function InvoiceNew() {
                                           processedInventoryId: v,
                                           name: selected?.name || x.name,
                                           unit: selected?.unit || x.unit || "pcs",
+                                          hsnCode: master?.hsnCode || x.hsnCode || "",
+                                          tax: master?.gstRate ?? x.tax,
                                         }
                                       : x
                                   )
@@ -509,12 +475,27 @@ export default function InvoiceNew() {
                                 {processedInventoryOptions.map((o) => (
                                   <SelectItem key={o.id} value={o.id}>
                                     {o.name}
+                                    <span className="text-muted-foreground">
+                                      {" "}
+                                      ({saleableQuantity(o)} {o.unit} available
+                                      {o.quarantineQuantity ? `, ${o.quarantineQuantity} in quarantine` : ""}
+                                      {o.reservedQuantity ? `, ${o.reservedQuantity} reserved` : ""})
+                                    </span>
                                   </SelectItem>
                                 ))}
                               </SelectContent>
                             </Select>
                           </TableCell>
 
+                          <TableCell className="align-top">
+                            <Input
+                              className="w-[110px] font-mono"
+                              inputMode="numeric"
+                              value={it.hsnCode || ""}
+                              onChange={(e) => setLineItems((prev) => prev.map((x, i) => (i === idx ? { ...x, hsnCode: e.target.value } : x)))}
+                            />
+                          </TableCell>
+
                           <TableCell className="align-top">
                             <Input
                               className="w-[90px] text-right"
@@ -545,18 +526,6 @@ export default function InvoiceNew() {
                             />
                           </TableCell>
 
-                          <TableCell className="align-top">
-                            <Select value={type} onValueChange={(v) => setLineItems((prev) => prev.map((x, i) => (i === idx ? { ...x, taxType: v as any } : x)))}>
-                              <SelectTrigger className="w-[140px]">
-                                <SelectValue placeholder="Select" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="CGST / SGST">CGST / SGST</SelectItem>
-                                <SelectItem value="IGST">IGST</SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </TableCell>
-
                           <TableCell className="align-top">
                             <Input
                               className="w-[110px] text-right"
@@ -610,6 +579,14 @@ export default function InvoiceNew() {
             )}
           </Card>
 
+          <Card className="p-4">
+            <div className="mb-3">
+              <div className="font-semibold">Dispatch Details</div>
+              <div className="text-sm text-muted-foreground">Transport for the e-way bill; can also be filled in later</div>
+            </div>
+            <DispatchFields value={dispatch} onChange={setDispatch} />
+          </Card>
+
           <Card className="p-4">
             <div className="font-semibold mb-3">Other Details</div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
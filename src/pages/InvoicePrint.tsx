@@ -1,160 +1,78 @@
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo } from "react";
 import { useNavigate, useParams } from "react-router-dom";
+import { QrCodeImage } from "@/components/invoices/QrCodeImage";
+import { CompanyBankDetailsBlock, CompanyLetterhead, CompanySignature } from "@/components/print/CompanyLetterhead";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
+import { useRecord } from "@/hooks/use-records";
+import { companyStateCode } from "@/lib/company";
+import { TRANSPORT_MODE_LABELS } from "@/lib/eway-bill";
+import {
+  amountInWords,
+  gstLine,
+  gstTotals,
+  invoicePlaceOfSupply,
+  invoiceTaxLines,
+  stateCodeFromGstin,
+  stateLabel,
+  summaryByHsn,
+} from "@/lib/gst";
 import { ArrowLeft, Printer } from "lucide-react";
 
-const COMPANY_NAME = "Sentiment Pharma";
 const SYSTEM_NAME = "Sentiment Pharma Suite - Invoice System";
 const CURRENCY = "₹";
 
-// These can later be moved to Settings/Firestore.
-const INVOICE_FROM = {
-  name: COMPANY_NAME,
-  pin: "—",
-  address: "—",
-  mobile: "—",
-};
-
-type InvoiceLineItem = {
-  processedInventoryId?: string;
-  name: string;
-  unit: string;
-  quantity: number;
-  rate: number;
-};
-
-type InvoiceDoc = {
-  invoiceNo: string;
-  manualInvoiceNo?: string;
-  cuNumber?: string;
-  pin?: string;
-  issueDate?: string;
-  partyName?: string;
-  customer?: {
-    gst?: string;
-    address?: string;
-    phone?: string;
-    email?: string;
-    pin?: string;
-  };
-  items?: InvoiceLineItem[];
-  subtotal?: number;
-  taxPercent?: number;
-  tax?: number;
-  total?: number;
-  status?: string;
-  notes?: string;
-};
-
 function pad2(n: number): string {
   return n < 10 ? `0${n}` : String(n);
 }
 
-function formatDateTime(d: Date): string {
-  return `${pad2(d.getDate())}/${pad2(d.getMonth() + 1)}/${d.getFullYear()}, ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
-}
-
 function formatDateTimeWithSeconds(d: Date): string {
   return `${pad2(d.getDate())}/${pad2(d.getMonth() + 1)}/${d.getFullYear()} at ${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
 }
 
-function formatMoney(n: number): string {
+function formatDate(ymd: string | undefined): string {
+  const [y, m, d] = (ymd || "").split("-");
+  return y && m && d ? `${d}/${m}/${y}` : ymd || "—";
+}
+
+function formatNumber(n: number): string {
   const value = Number.isFinite(n) ? n : 0;
-  return `${CURRENCY} ${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatMoney(n: number): string {
+  return `${CURRENCY} ${formatNumber(n)}`;
 }
 
+const cell = "border border-black px-2 py-1";
+const head = `${cell} font-bold`;
+
 export default function InvoicePrint() {
   const { invoiceId } = useParams<{ invoiceId: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
-
-  const [isLoading, setIsLoading] = useState(true);
-  const [invoice, setInvoice] = useState<InvoiceDoc | null>(null);
-
-  const lineRows = useMemo(() => {
-    const items = Array.isArray(invoice?.items) ? invoice?.items : [];
-    return items.map((it, idx) => {
-      const qty = Number(it.quantity) || 0;
-      const rate = Number(it.rate) || 0;
-      const amount = qty * rate;
-      return { idx: idx + 1, name: it.name, unit: it.unit, qty, rate, amount };
-    });
-  }, [invoice?.items]);
-
-  const subtotal = useMemo(() => {
-    if (typeof invoice?.subtotal === "number") return invoice.subtotal;
-    return lineRows.reduce((s, r) => s + r.amount, 0);
-  }, [invoice?.subtotal, lineRows]);
-
-  const taxAmount = useMemo(() => {
-    if (typeof invoice?.tax === "number") return invoice.tax;
-    const pct = typeof invoice?.taxPercent === "number" ? invoice.taxPercent : 0;
-    return (subtotal * pct) / 100;
-  }, [invoice?.tax, invoice?.taxPercent, subtotal]);
-
-  const taxPercentLabel = useMemo(() => {
-    const pct = typeof invoice?.taxPercent === "number" ? invoice.taxPercent : undefined;
-    if (typeof pct === "number" && Number.isFinite(pct)) return `${pct}%`;
-    return undefined;
-  }, [invoice?.taxPercent]);
-
+  const { data: invoice, isLoading: isInvoiceLoading, error } = useRecord("invoices", invoiceId);
+  const { company, isLoading: isCompanyLoading } = useCompany();
+  const isLoading = isInvoiceLoading || isCompanyLoading;
+
+  const sellerState = companyStateCode(company);
+  const buyerGstin = invoice?.customer?.gst?.trim().toUpperCase() || "";
+  const placeOfSupply = invoice ? invoicePlaceOfSupply(invoice, sellerState) : undefined;
+  const lines = useMemo(() => (invoice ? invoiceTaxLines(invoice, sellerState) : []), [invoice, sellerState]);
+
+  const isInterState = lines.some((it) => it.taxType === "IGST");
+  const totals = useMemo(() => gstTotals(lines), [lines]);
+  const hsnRows = useMemo(() => summaryByHsn(lines), [lines]);
+  const grandTotal = totals.taxable + totals.cgst + totals.sgst + totals.igst;
   const printedAt = useMemo(() => new Date(), []);
 
-  const total = useMemo(() => {
-    if (typeof invoice?.total === "number") return invoice.total;
-    return subtotal + taxAmount;
-  }, [invoice?.total, subtotal, taxAmount]);
-
-  const taxSummaryRows = useMemo(() => {
-    const pct = typeof invoice?.taxPercent === "number" && Number.isFinite(invoice.taxPercent) ? invoice.taxPercent : 16;
-    return [
-      { rate: `${pct}%`, taxable: subtotal, tax: taxAmount, total },
-      { rate: "0%", taxable: 0, tax: 0, total: 0 },
-      { rate: "Ex.", taxable: 0, tax: 0, total: 0 },
-    ];
-  }, [invoice?.taxPercent, subtotal, taxAmount, total]);
-
   useEffect(() => {
-    const run = async () => {
-      if (!db) {
-        toast({
-          title: "Database unavailable",
-          description: "Firebase is not initialized. Please check your environment variables.",
-          variant: "destructive",
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      if (!invoiceId) {
-        toast({ title: "Invalid invoice", description: "Invoice id missing.", variant: "destructive" });
-        setIsLoading(false);
-        return;
-      }
-
-      try {
-        const snap = await getDoc(doc(db, "invoices", invoiceId));
-        if (!snap.exists()) {
-          toast({ title: "Not found", description: "Invoice not found.", variant: "destructive" });
-          setInvoice(null);
-          return;
-        }
-        setInvoice(snap.data() as InvoiceDoc);
-      } catch (e) {
-        console.error("Failed to load invoice", e);
-        toast({ title: "Load failed", description: "Could not load invoice.", variant: "destructive" });
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    run();
-  }, [invoiceId, toast]);
+    if (!error) return;
+    console.error("Failed to load invoice", error);
+    toast({ title: "Load failed", description: "Could not load invoice.", variant: "destructive" });
+  }, [error, toast]);
 
   useEffect(() => {
     if (!isLoading && invoice) {
@@ -183,12 +101,13 @@ export default function InvoicePrint() {
     );
   }
 
+  const taxColumns = isInterState ? ["IGST"] : ["CGST", "SGST"];
+
   return (
     <div className="min-h-screen bg-white p-6 print:p-0 text-black">
       <div className="max-w-5xl mx-auto print:max-w-none print:mx-0 print:p-6">
         <div className="flex items-center justify-between gap-2 mb-4 print:hidden">
-          <Button variant="outline" className="gap-2" onClick={() => navigate("/invoices")}
-          >
+          <Button variant="outline" className="gap-2" onClick={() => navigate("/invoices")}>
             <ArrowLeft className="w-4 h-4" />
             Back
           </Button>
@@ -198,147 +117,254 @@ export default function InvoicePrint() {
           </Button>
         </div>
 
-        <div className="p-0">
-          <div className="text-center">
-            <div className="text-2xl font-bold">{COMPANY_NAME}</div>
+        <div className="flex items-end justify-between">
+          <div className="text-xl font-bold tracking-wide">TAX INVOICE</div>
+          <div className="text-xs italic">Original for Recipient</div>
+        </div>
+
+        {invoice.status === "Cancelled" && (
+          <div className="mt-2 border-2 border-black p-2 text-center font-bold tracking-widest">
+            CANCELLED{invoice.cancelReason ? ` — ${invoice.cancelReason}` : ""}
           </div>
+        )}
 
-          <div className="mt-4 grid grid-cols-3 gap-3">
-            <div className="border border-black p-3 text-sm">
-              <div className="text-xs font-bold uppercase">Invoice From</div>
-              <div className="mt-2 space-y-1">
-                <div>
-                  <span className="font-semibold">Name:</span> {INVOICE_FROM.name}
-                </div>
-                <div>
-                  <span className="font-semibold">PIN:</span> {INVOICE_FROM.pin}
-                </div>
-                <div className="whitespace-pre-wrap">
-                  <span className="font-semibold">Address:</span> {INVOICE_FROM.address}
-                </div>
-                <div>
-                  <span className="font-semibold">Mobile:</span> {INVOICE_FROM.mobile}
-                </div>
-              </div>
-            </div>
+        <CompanyLetterhead company={company} className="mt-2 border border-black p-3" />
 
-            <div className="border border-black p-3 text-sm">
-              <div className="text-xs font-bold uppercase">Invoice To</div>
-              <div className="mt-2 space-y-1">
-                <div>
-                  <span className="font-semibold">Name:</span> {invoice.partyName || "—"}
-                </div>
-                <div>
-                  <span className="font-semibold">PIN:</span> {invoice.customer?.pin || invoice.pin || "—"}
-                </div>
-                <div className="whitespace-pre-wrap">
-                  <span className="font-semibold">Address:</span> {invoice.customer?.address || "—"}
-                </div>
-                <div>
-                  <span className="font-semibold">Mobile:</span> {invoice.customer?.phone || "—"}
-                </div>
+        {invoice.eInvoice && (
+          <div className="flex items-center justify-between gap-4 text-sm border-x border-b border-black p-3">
+            <div className="space-y-1 min-w-0">
+              <div className="break-all">
+                <span className="font-semibold">IRN:</span> {invoice.eInvoice.irn}
               </div>
+              <div>
+                <span className="font-semibold">Ack No:</span> {invoice.eInvoice.ackNo}
+                <span className="mx-2">|</span>
+                <span className="font-semibold">Ack Date:</span> {invoice.eInvoice.ackDate}
+              </div>
+              {invoice.eInvoice.source === "mock" && <div className="text-xs italic">Test IRN — not registered with the GST portal</div>}
             </div>
-
-            <div className="border border-black p-3 text-sm">
-              <div className="text-xs font-bold uppercase">Invoice No</div>
-              <div className="mt-2 space-y-1">
-                <div>
-                  <span className="font-semibold">Invoice:</span> {invoice.invoiceNo || "—"}
-                </div>
-                <div>
-                  <span className="font-semibold">Manual:</span> {invoice.manualInvoiceNo || "—"}
-                </div>
-                <div>
-                  <span className="font-semibold">Date:</span> {invoice.issueDate || "—"}
-                </div>
+            <QrCodeImage value={invoice.eInvoice.signedQrCode} size={110} className="shrink-0" />
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 text-sm border-x border-b border-black">
+          <div className="p-3 border-r border-black space-y-1">
+            <div className="text-xs font-bold uppercase">Billed To</div>
+            <div className="font-semibold">{invoice.partyName || "—"}</div>
+            <div className="whitespace-pre-wrap">{invoice.customer?.address || "—"}</div>
+            {invoice.customer?.phone && <div>Phone: {invoice.customer.phone}</div>}
+            <div>
+              <span className="font-semibold">GSTIN:</span> {buyerGstin || "Unregistered"}
+            </div>
+            <div>
+              <span className="font-semibold">State:</span> {stateLabel(stateCodeFromGstin(buyerGstin) || invoice.placeOfSupply)}
+            </div>
+          </div>
+          <div className="p-3 space-y-1">
+            <div>
+              <span className="font-semibold">Invoice No:</span> {invoice.manualInvoiceNo || invoice.invoiceNo}
+            </div>
+            {invoice.manualInvoiceNo && (
+              <div>
+                <span className="font-semibold">System Ref:</span> {invoice.invoiceNo}
               </div>
+            )}
+            <div>
+              <span className="font-semibold">Invoice Date:</span> {formatDate(invoice.issueDate)}
+            </div>
+            <div>
+              <span className="font-semibold">Place of Supply:</span> {stateLabel(placeOfSupply)}
             </div>
+            <div>
+              <span className="font-semibold">Reverse Charge:</span> No
+            </div>
+            {invoice.eWayBill && (
+              <div>
+                <span className="font-semibold">E-Way Bill No:</span> {invoice.eWayBill.ewbNo} dt. {formatDate(invoice.eWayBill.ewbDate)}
+              </div>
+            )}
+            {invoice.dispatch && (
+              <div>
+                <span className="font-semibold">Dispatch:</span>{" "}
+                {[
+                  TRANSPORT_MODE_LABELS[invoice.dispatch.transportMode],
+                  invoice.dispatch.vehicleNo,
+                  invoice.dispatch.transporterName,
+                  invoice.dispatch.transportDocNo && `LR ${invoice.dispatch.transportDocNo}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </div>
+            )}
           </div>
+        </div>
 
-          <div className="mt-6">
-            <table className="w-full border-collapse border border-black text-[12px]">
-              <thead>
-                <tr>
-                  <th className="border border-black px-2 py-1 text-left font-bold w-[60px]">SNo</th>
-                  <th className="border border-black px-2 py-1 text-left font-bold">Item Description</th>
-                  <th className="border border-black px-2 py-1 text-right font-bold w-[110px]">Qty</th>
-                  <th className="border border-black px-2 py-1 text-right font-bold w-[140px]">Unit Price</th>
-                  <th className="border border-black px-2 py-1 text-right font-bold w-[90px]">Rate</th>
-                  <th className="border border-black px-2 py-1 text-right font-bold w-[170px]">Amt incl. Tax</th>
+        <table className="mt-4 w-full border-collapse border border-black text-[11px]">
+          <thead>
+            <tr>
+              <th className={`${head} text-left w-[36px]`} rowSpan={2}>
+                SNo
+              </th>
+              <th className={`${head} text-left`} rowSpan={2}>
+                Description of Goods
+              </th>
+              <th className={`${head} text-left w-[72px]`} rowSpan={2}>
+                HSN
+              </th>
+              <th className={`${head} text-right w-[70px]`} rowSpan={2}>
+                Qty
+              </th>
+              <th className={`${head} text-right w-[80px]`} rowSpan={2}>
+                Rate
+              </th>
+              <th className={`${head} text-right w-[90px]`} rowSpan={2}>
+                Taxable Value
+              </th>
+              {taxColumns.map((c) => (
+                <th key={c} className={`${head} text-center`} colSpan={2}>
+                  {c}
+                </th>
+              ))}
+              <th className={`${head} text-right w-[95px]`} rowSpan={2}>
+                Total
+              </th>
+            </tr>
+            <tr>
+              {taxColumns.map((c) => (
+                <Fragment key={c}>
+                  <th className={`${head} text-right w-[44px]`}>%</th>
+                  <th className={`${head} text-right w-[76px]`}>Amt</th>
+                </Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((it, idx) => {
+              const line = gstLine(it);
+              const split = isInterState ? [[line.rate, line.igst]] : [[line.rate / 2, line.cgst], [line.rate / 2, line.sgst]];
+              return (
+                <tr key={idx}>
+                  <td className={cell}>{idx + 1}</td>
+                  <td className={cell}>{it.name}</td>
+                  <td className={`${cell} font-mono`}>{it.hsnCode || "—"}</td>
+                  <td className={`${cell} text-right`}>
+                    {Number(it.quantity).toLocaleString("en-IN")} {it.unit}
+                  </td>
+                  <td className={`${cell} text-right`}>{formatNumber(it.rate)}</td>
+                  <td className={`${cell} text-right`}>{formatNumber(line.taxable)}</td>
+                  {split.map(([pct, amt], i) => (
+                    <Fragment key={i}>
+                      <td className={`${cell} text-right`}>{pct}</td>
+                      <td className={`${cell} text-right`}>{formatNumber(amt)}</td>
+                    </Fragment>
+                  ))}
+                  <td className={`${cell} text-right`}>{formatNumber(line.total)}</td>
                 </tr>
-              </thead>
-              <tbody>
-                {lineRows.length === 0 ? (
-                  <tr>
-                    <td className="border border-black px-2 py-2" colSpan={6}>
-                      No items
-                    </td>
-                  </tr>
+              );
+            })}
+            <tr className="font-bold">
+              <td className={cell} colSpan={5}>
+                Total
+              </td>
+              <td className={`${cell} text-right`}>{formatNumber(totals.taxable)}</td>
+              {(isInterState ? [totals.igst] : [totals.cgst, totals.sgst]).map((amt, i) => (
+                <td key={i} className={`${cell} text-right`} colSpan={2}>
+                  {formatNumber(amt)}
+                </td>
+              ))}
+              <td className={`${cell} text-right`}>{formatNumber(grandTotal)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="mt-2 border border-black p-2 text-sm">
+          <span className="font-semibold">Amount Chargeable (in words):</span> {amountInWords(grandTotal)}
+        </div>
+
+        <div className="mt-4 border border-black p-2">
+          <div className="text-xs font-bold uppercase">HSN / Rate-wise Tax Summary</div>
+          <table className="mt-2 w-full border-collapse border border-black text-[11px]">
+            <thead>
+              <tr>
+                <th className={`${head} text-left`}>HSN</th>
+                <th className={`${head} text-right`}>GST Rate</th>
+                <th className={`${head} text-right`}>Taxable Value</th>
+                {isInterState ? (
+                  <th className={`${head} text-right`}>IGST</th>
                 ) : (
-                  lineRows.map((r) => {
-                    const base = r.amount;
-                    const allocTax = subtotal > 0 ? (base / subtotal) * taxAmount : 0;
-                    const amtInclTax = base + allocTax;
-                    return (
-                      <tr key={r.idx}>
-                        <td className="border border-black px-2 py-1">{r.idx}</td>
-                        <td className="border border-black px-2 py-1">{r.name}</td>
-                        <td className="border border-black px-2 py-1 text-right">
-                          {r.qty.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </td>
-                        <td className="border border-black px-2 py-1 text-right">{formatMoney(r.rate)}</td>
-                        <td className="border border-black px-2 py-1 text-right">{taxPercentLabel || "0%"}</td>
-                        <td className="border border-black px-2 py-1 text-right">{formatMoney(amtInclTax)}</td>
-                      </tr>
-                    );
-                  })
+                  <>
+                    <th className={`${head} text-right`}>CGST</th>
+                    <th className={`${head} text-right`}>SGST</th>
+                  </>
                 )}
-              </tbody>
-            </table>
+                <th className={`${head} text-right`}>Total Tax</th>
+              </tr>
+            </thead>
+            <tbody>
+              {hsnRows.map((r) => (
+                <tr key={`${r.hsnCode}|${r.rate}`}>
+                  <td className={`${cell} font-mono`}>{r.hsnCode || "—"}</td>
+                  <td className={`${cell} text-right`}>{r.rate}%</td>
+                  <td className={`${cell} text-right`}>{formatNumber(r.taxable)}</td>
+                  {isInterState ? (
+                    <td className={`${cell} text-right`}>{formatNumber(r.igst)}</td>
+                  ) : (
+                    <>
+                      <td className={`${cell} text-right`}>{formatNumber(r.cgst)}</td>
+                      <td className={`${cell} text-right`}>{formatNumber(r.sgst)}</td>
+                    </>
+                  )}
+                  <td className={`${cell} text-right`}>{formatNumber(r.cgst + r.sgst + r.igst)}</td>
+                </tr>
+              ))}
+              <tr className="font-bold">
+                <td className={cell} colSpan={2}>
+                  Totals
+                </td>
+                <td className={`${cell} text-right`}>{formatNumber(totals.taxable)}</td>
+                {isInterState ? (
+                  <td className={`${cell} text-right`}>{formatNumber(totals.igst)}</td>
+                ) : (
+                  <>
+                    <td className={`${cell} text-right`}>{formatNumber(totals.cgst)}</td>
+                    <td className={`${cell} text-right`}>{formatNumber(totals.sgst)}</td>
+                  </>
+                )}
+                <td className={`${cell} text-right`}>{formatNumber(totals.cgst + totals.sgst + totals.igst)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <div className="mt-1 text-xs">
+            Tax amount (in words): {amountInWords(totals.cgst + totals.sgst + totals.igst)}
           </div>
+        </div>
 
-          <div className="mt-6 flex flex-col min-h-[55vh]">
-            <div className="mt-auto">
-              <div className="border border-black p-2">
-                <div className="text-xs font-bold uppercase text-left">TAX SUMMARY</div>
-                <div className="mt-2">
-                  <table className="w-full border-collapse border border-black text-[11px]">
-                    <thead>
-                      <tr>
-                        <th className="border border-black px-2 py-1 text-left font-bold">Tax Rate</th>
-                        <th className="border border-black px-2 py-1 text-right font-bold">Taxable Amt</th>
-                        <th className="border border-black px-2 py-1 text-right font-bold">Tax Amt</th>
-                        <th className="border border-black px-2 py-1 text-right font-bold">Total Amt</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {taxSummaryRows.map((r, idx) => (
-                        <tr key={idx}>
-                          <td className="border border-black px-2 py-1">{r.rate}</td>
-                          <td className="border border-black px-2 py-1 text-right">{formatMoney(r.taxable)}</td>
-                          <td className="border border-black px-2 py-1 text-right">{formatMoney(r.tax)}</td>
-                          <td className="border border-black px-2 py-1 text-right">{formatMoney(r.total)}</td>
-                        </tr>
-                      ))}
-                      <tr>
-                        <td className="border border-black px-2 py-1 font-bold">Totals</td>
-                        <td className="border border-black px-2 py-1 text-right font-bold">{formatMoney(subtotal)}</td>
-                        <td className="border border-black px-2 py-1 text-right font-bold">{formatMoney(taxAmount)}</td>
-                        <td className="border border-black px-2 py-1 text-right font-bold">{formatMoney(total)}</td>
-                      </tr>
-                    </tbody>
-                  </table>
-                </div>
-              </div>
-
-              <Separator className="my-4 bg-black" />
-              <div className="text-xs space-y-1">
-                <div>This invoice was generated on {formatDateTimeWithSeconds(printedAt)}</div>
-                <div>{SYSTEM_NAME}</div>
+        <div className="mt-4 grid grid-cols-2 text-xs border border-black">
+          <div className="p-3 border-r border-black space-y-3">
+            <CompanyBankDetailsBlock company={company} />
+            <div>
+              <div className="font-bold uppercase">Declaration</div>
+              <div className="mt-1">
+                We declare that this invoice shows the actual price of the goods described and that all particulars are true
+                and correct.
               </div>
             </div>
+            {company.terms && (
+              <div>
+                <div className="font-bold uppercase">Terms &amp; Conditions</div>
+                <div className="mt-1 whitespace-pre-wrap">{company.terms}</div>
+              </div>
+            )}
           </div>
+          <CompanySignature company={company} className="p-3 flex flex-col justify-between min-h-[90px]" />
+        </div>
+
+        <div className="mt-2 text-right text-sm font-bold">Invoice Total: {formatMoney(grandTotal)}</div>
+
+        <Separator className="my-4 bg-black" />
+        <div className="text-xs space-y-1">
+          <div>This invoice was generated on {formatDateTimeWithSeconds(printedAt)}</div>
+          <div>{SYSTEM_NAME}</div>
         </div>
       </div>
     </div>
@@ -1,9 +1,13 @@
 import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { saveAs } from "file-saver";
 import { AppHeader } from "@/components/layout/AppHeader";
 import { StatCard } from "@/components/cards/StatCard";
 import { DataTable } from "@/components/tables/DataTable";
 import { ExportExcelButton } from "@/components/ExportExcelButton";
+import { RecordHistory } from "@/components/audit/RecordHistory";
+import { EInvoiceDialog } from "@/components/invoices/EInvoiceDialog";
+import { EWayBillDialog } from "@/components/invoices/EWayBillDialog";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -12,61 +16,20 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  orderBy,
-  query,
-  Timestamp,
-  updateDoc,
-} from "firebase/firestore";
-import { FileText, IndianRupee, Pencil, Plus, Printer, RefreshCw, Trash2 } from "lucide-react";
-
-type InvoiceStatus = "Approved" | "In Process" | "Paid" | "Pending" | "Overdue";
-
-interface ProcessedInventoryOption {
-  id: string;
-  name: string;
-  unit?: string;
-}
-
-interface InvoiceLineItem {
-  processedInventoryId: string;
-  name: string;
-  unit: string;
-  quantity: number;
-  rate: number;
-  taxType?: "CGST / SGST" | "IGST";
-  tax?: number;
-}
-
-interface InvoiceRecord {
-  id: string;
-  invoiceNo: string;
-  cuNumber?: string;
-  pin?: string;
-  partyType: "customer" | "supplier";
-  partyId: string;
-  partyName: string;
-  issueDate: string; // YYYY-MM-DD
-  dueDate: string; // YYYY-MM-DD
-  items?: InvoiceLineItem[];
-  subtotal: number;
-  tax: number;
-  total: number;
-  status: InvoiceStatus;
-  notes?: string;
-  createdAt?: Date;
-}
-
-interface PartyOption {
-  id: string;
-  name: string;
+import { useRecords } from "@/hooks/use-records";
+import { companyStateCode } from "@/lib/company";
+import { buildEWayBill, eWayBillBulkJson, eWayBillProblems } from "@/lib/eway-bill";
+import { cancelInvoice, InvoiceStateError, isCancelled, isFromChallans, updateInvoice } from "@/lib/invoices";
+import { InsufficientStockError } from "@/lib/production";
+import { moveToRecycleBin } from "@/lib/recycle-bin";
+import type { InvoiceLineItem, InvoiceRecord, InvoiceStatus, PartyRecord } from "@/lib/schemas";
+import { Ban, FileJson, FileText, IndianRupee, Pencil, Plus, Printer, QrCode, RefreshCw, Trash2, Truck } from "lucide-react";
+
+function namedOnly<T extends { name?: string }>(rows: T[] | undefined): T[] {
+  return (rows ?? []).filter((x) => x.name).sort((a, b) => a.name.localeCompare(b.name));
 }
 
 const defaultFormState = {
@@ -90,27 +53,36 @@ function safeNumber(value: string): number {
 
 export default function Invoices() {
   const navigate = useNavigate();
-  const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
-  const [customers, setCustomers] = useState<PartyOption[]>([]);
-  const [suppliers, setSuppliers] = useState<PartyOption[]>([]);
-  const [processedInventoryOptions, setProcessedInventoryOptions] = useState<ProcessedInventoryOption[]>([]);
+  const invoicesQuery = useRecords("invoices", { orderBy: "createdAt", direction: "desc" });
+  const customersQuery = useRecords("customers");
+  const suppliersQuery = useRecords("suppliers");
+  const processedInventoryQuery = useRecords("processedInventory");
+
+  const invoices = useMemo(() => invoicesQuery.data ?? [], [invoicesQuery.data]);
+  const customers = useMemo<PartyRecord[]>(() => namedOnly(customersQuery.data), [customersQuery.data]);
+  const suppliers = useMemo<PartyRecord[]>(() => namedOnly(suppliersQuery.data), [suppliersQuery.data]);
+  const processedInventoryOptions = useMemo(() => namedOnly(processedInventoryQuery.data), [processedInventoryQuery.data]);
 
   const [search, setSearch] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editing, setEditing] = useState<InvoiceRecord | null>(null);
   const [formData, setFormData] = useState(defaultFormState);
   const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([]);
+  const [eInvoiceFor, setEInvoiceFor] = useState<InvoiceRecord | null>(null);
+  const [eWayBillFor, setEWayBillFor] = useState<InvoiceRecord | null>(null);
+  const { company } = useCompany();
 
   const { toast } = useToast();
 
+  const { can } = useAuth();
+
   const partyOptions = useMemo(() => (formData.partyType === "supplier" ? suppliers : customers), [customers, suppliers, formData.partyType]);
   const selectedParty = useMemo(() => partyOptions.find((p) => p.id === formData.partyId), [partyOptions, formData.partyId]);
 
   const processedInventoryById = useMemo(() => {
-    const map = new Map<string, ProcessedInventoryOption>();
+    const map = new Map<string, (typeof processedInventoryOptions)[number]>();
     for (const it of processedInventoryOptions) map.set(it.id, it);
     return map;
   }, [processedInventoryOptions]);
@@ -149,16 +121,17 @@ export default function Invoices() {
   }, [invoices, search]);
 
   const stats = useMemo(() => {
-    const total = invoices.reduce((sum, i) => sum + (i.total || 0), 0);
-    const pendingTotal = invoices
+    const active = invoices.filter((i) => !isCancelled(i));
+    const total = active.reduce((sum, i) => sum + (i.total || 0), 0);
+    const pendingTotal = active
       .filter((i) => i.status === "Pending" || i.status === "Overdue")
       .reduce((sum, i) => sum + (i.total || 0), 0);
-    const paidTotal = invoices.filter((i) => i.status === "Paid").reduce((sum, i) => sum + (i.total || 0), 0);
+    const paidTotal = active.filter((i) => i.status === "Paid").reduce((sum, i) => sum + (i.total || 0), 0);
 
     return {
-      count: invoices.length,
+      count: active.length,
       total,
-      pendingCount: invoices.filter((i) => i.status === "Pending" || i.status === "Overdue").length,
+      pendingCount: active.filter((i) => i.status === "Pending" || i.status === "Overdue").length,
       pendingTotal,
       paidTotal,
     };
@@ -168,7 +141,7 @@ export default function Invoices() {
     () =>
       filtered.map((i) => ({
         "System Invoice": i.invoiceNo,
-        "Manual Invoice": (i as any).manualInvoiceNo || "",
+        "Manual Invoice": i.manualInvoiceNo || "",
         "CU Number": i.cuNumber || "",
         Date: i.issueDate,
         Party: i.partyName,
@@ -188,114 +161,27 @@ export default function Invoices() {
     [filtered, processedInventoryById]
   );
 
-  const fetchParties = async () => {
-    const [customersSnap, suppliersSnap] = await Promise.all([
-      getDocs(collection(db, "customers")),
-      getDocs(collection(db, "suppliers")),
-    ]);
-
-    const customersList = customersSnap.docs
-      .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
-
-    const suppliersList = suppliersSnap.docs
-      .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
+  const isLoading =
+    invoicesQuery.isFetching || customersQuery.isFetching || suppliersQuery.isFetching || processedInventoryQuery.isFetching;
+  const loadError = invoicesQuery.error || customersQuery.error || suppliersQuery.error || processedInventoryQuery.error;
 
-    setCustomers(customersList);
-    setSuppliers(suppliersList);
-  };
-
-  const fetchProcessedInventoryOptions = async () => {
-    const snap = await getDocs(collection(db, "processedInventory"));
-    const list = snap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          name: (data.name || "").toString(),
-          unit: (data.unit || "").toString() || undefined,
-        } as ProcessedInventoryOption;
-      })
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
-    setProcessedInventoryOptions(list);
-  };
-
-  const fetchInvoices = async () => {
-    const qy = query(collection(db, "invoices"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-
-      const rawItems = Array.isArray(data.items) ? data.items : [];
-      const items: InvoiceLineItem[] = rawItems
-        .map((it: any) => {
-          const quantity = typeof it.quantity === "number" ? it.quantity : parseFloat(it.quantity) || 0;
-          const rate = typeof it.rate === "number" ? it.rate : parseFloat(it.rate) || 0;
-          return {
-            processedInventoryId: (it.processedInventoryId || "").toString(),
-            name: (it.name || "").toString(),
-            unit: (it.unit || "").toString() || "pcs",
-            quantity,
-            rate,
-          } as InvoiceLineItem;
-        })
-        .filter((it: InvoiceLineItem) => it.name);
-
-      return {
-        id: d.id,
-        invoiceNo: (data.invoiceNo || "").toString(),
-        cuNumber: (data.cuNumber || "").toString() || undefined,
-        pin: (data.pin || "").toString() || undefined,
-        partyType: (data.partyType || "customer") as InvoiceRecord["partyType"],
-        partyId: (data.partyId || "").toString(),
-        partyName: (data.partyName || "").toString(),
-        issueDate: (data.issueDate || "").toString(),
-        dueDate: (data.dueDate || "").toString(),
-        items,
-        subtotal: typeof data.subtotal === "number" ? data.subtotal : parseFloat(data.subtotal) || 0,
-        tax: typeof data.tax === "number" ? data.tax : parseFloat(data.tax) || 0,
-        total: typeof data.total === "number" ? data.total : parseFloat(data.total) || 0,
-        status: (data.status || "Pending") as InvoiceStatus,
-        notes: (data.notes || "").toString() || undefined,
-        createdAt: data.createdAt?.toDate?.() || new Date(),
-      } as InvoiceRecord;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error("Error fetching invoices", loadError);
+    toast({
+      title: "Load failed",
+      description: loadError.message || "Could not load invoices from Firestore.",
+      variant: "destructive",
     });
-    setInvoices(list);
-  };
-
-  const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
+  }, [loadError, toast]);
 
-    setIsLoading(true);
-    try {
-      await Promise.all([fetchParties(), fetchProcessedInventoryOptions(), fetchInvoices()]);
-    } catch (error) {
-      console.error("Error fetching invoices", error);
-      toast({
-        title: "Load failed",
-        description: "Could not load invoices from Firestore.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const fetchAll = () => {
+    invoicesQuery.refetch();
+    customersQuery.refetch();
+    suppliersQuery.refetch();
+    processedInventoryQuery.refetch();
   };
 
-  useEffect(() => {
-    fetchAll();
-  }, []);
-
   const resetForm = () => {
     setEditing(null);
     setFormData({
@@ -326,19 +212,63 @@ export default function Invoices() {
     setIsDialogOpen(true);
   };
 
+  // Bulk e-way bill file for the listed invoices that have dispatch details but no EWB number yet.
+  const handleEWayBillExport = () => {
+    const sellerState = companyStateCode(company);
+    const pending = filtered.filter((i) => i.dispatch && !i.eWayBill && !isCancelled(i));
+    const ready = pending.filter((i) => eWayBillProblems(i, company, sellerState).length === 0);
+    if (ready.length === 0) {
+      toast({
+        title: "Nothing to export",
+        description: pending.length
+          ? "Open E-Way Bill on each invoice to see what is missing."
+          : "No listed invoice has dispatch details without an e-way bill.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const json = eWayBillBulkJson(ready.map((i) => buildEWayBill(i, company, sellerState)));
+    saveAs(new Blob([JSON.stringify(json, null, 2)], { type: "application/json" }), `EWB_bulk_${new Date().toISOString().slice(0, 10)}.json`);
+    const skipped = pending.length - ready.length;
+    toast({
+      title: "E-way bill JSON downloaded",
+      description: `${ready.length} invoice${ready.length === 1 ? "" : "s"}${skipped ? `; ${skipped} skipped with missing details` : ""}.`,
+    });
+  };
+
   const handleDelete = async (id: string) => {
-    if (!db) return;
-    if (!confirm("Delete this invoice?")) return;
+    if (!confirm("Move this invoice to the Recycle Bin?")) return;
 
     try {
-      await deleteDoc(doc(db, "invoices", id));
-      toast({ title: "Deleted", description: "Invoice removed." });
-      fetchInvoices();
+      await moveToRecycleBin("invoices", id);
+      toast({ title: "Deleted", description: "Invoice moved to the Recycle Bin and its stock returned." });
+      fetchAll();
     } catch (error) {
       console.error("Error deleting invoice", error);
       toast({
-        title: "Delete failed",
-        description: "Could not delete invoice.",
+        title: error instanceof InvoiceStateError ? "Validation error" : "Delete failed",
+        description: error instanceof Error ? error.message : "Could not delete invoice.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async (invoice: InvoiceRecord) => {
+    const irnNote = invoice.eInvoice ? " Cancel its IRN on the IRP as well." : "";
+    const effect = isFromChallans(invoice) ? "Its delivery challans can be invoiced again" : "Its goods go back to stock";
+    const reason = prompt(`Cancel invoice ${invoice.invoiceNo}? ${effect} and it keeps its number.${irnNote}\n\nReason:`);
+    if (reason === null) return;
+
+    try {
+      await cancelInvoice(invoice.id, reason);
+      const undone = isFromChallans(invoice) ? "its challans released" : "its stock returned";
+      toast({ title: "Cancelled", description: `Invoice ${invoice.invoiceNo} cancelled and ${undone}.` });
+      fetchAll();
+    } catch (error) {
+      console.error("Error cancelling invoice", error);
+      toast({
+        title: error instanceof InvoiceStateError ? "Validation error" : "Cancel failed",
+        description: error instanceof Error ? error.message : "Could not cancel invoice.",
         variant: "destructive",
       });
     }
@@ -355,20 +285,6 @@ export default function Invoices() {
       return;
     }
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (!formData.invoiceNo.trim()) {
-      toast({ title: "Validation error", description: "Invoice number is required.", variant: "destructive" });
-      return;
-    }
-
     if (!formData.partyId) {
       toast({ title: "Validation error", description: "Select a party.", variant: "destructive" });
       return;
@@ -385,6 +301,7 @@ export default function Invoices() {
       .map((it) => ({
         processedInventoryId: (it.processedInventoryId || "").toString(),
         name: (it.name || "").toString(),
+        hsnCode: (it.hsnCode || "").toString().trim(),
         unit: (it.unit || "").toString() || "pcs",
         quantity: Number(it.quantity) || 0,
         rate: Number(it.rate) || 0,
@@ -394,7 +311,6 @@ export default function Invoices() {
       .filter((it) => it.name && it.quantity > 0);
 
     const payload = {
-      invoiceNo: formData.invoiceNo.trim(),
       cuNumber: formData.cuNumber.trim(),
       pin: formData.pin.trim(),
       partyType: formData.partyType,
@@ -408,30 +324,22 @@ export default function Invoices() {
       total: computedTotal,
       status: formData.status,
       notes: formData.notes.trim(),
-      updatedAt: Timestamp.now(),
     };
 
     setIsSubmitting(true);
     try {
-      if (editing) {
-        await updateDoc(doc(db, "invoices", editing.id), payload);
-        toast({ title: "Updated", description: "Invoice updated." });
-      } else {
-        await addDoc(collection(db, "invoices"), {
-          ...payload,
-          createdAt: Timestamp.now(),
-        });
-        toast({ title: "Saved", description: "Invoice saved to Firestore." });
-      }
+      await updateInvoice(editing.id, payload);
+      toast({ title: "Updated", description: "Invoice updated and stock adjusted." });
 
       setIsDialogOpen(false);
       resetForm();
-      fetchInvoices();
+      fetchAll();
     } catch (error) {
       console.error("Error saving invoice", error);
+      const invalid = error instanceof InvoiceStateError || error instanceof InsufficientStockError;
       toast({
-        title: "Save failed",
-        description: "Could not save invoice.",
+        title: invalid ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save invoice.",
         variant: "destructive",
       });
     } finally {
@@ -439,69 +347,91 @@ export default function Invoices() {
     }
   };
 
-  const columns = useMemo(
-    () => [
-      { key: "invoiceNo", header: "System Invoice" },
-      {
-        key: "cuNumber",
-        header: "CU Number",
-        render: (i: InvoiceRecord) => <span className="font-medium">{i.cuNumber || "—"}</span>,
-      },
-      { key: "issueDate", header: "Date" },
-      { key: "partyName", header: "Customer" },
-      {
-        key: "pin",
-        header: "PIN",
-        render: (i: InvoiceRecord) => <span className="font-medium">{i.pin || "—"}</span>,
-      },
-      {
-        key: "items",
-        header: "Items",
-        render: (i: InvoiceRecord) => {
-          const label = (i.items || [])
-            .map((x) => {
-              const resolved = x.processedInventoryId ? processedInventoryById.get(x.processedInventoryId) : undefined;
-              const name = resolved?.name || x.name;
-              const unit = resolved?.unit || x.unit;
-              return `${name} (${x.quantity} ${unit})`;
-            })
-            .join(", ");
-          return <span className="text-sm text-muted-foreground">{label || "—"}</span>;
-        },
-      },
-      {
-        key: "total",
-        header: "Total Amount",
-        render: (i: InvoiceRecord) => <span className="font-medium">₹{(i.total || 0).toLocaleString("en-IN")}</span>,
+  const columns = [
+    { key: "invoiceNo", header: "System Invoice" },
+    {
+      key: "cuNumber",
+      header: "CU Number",
+      render: (i: InvoiceRecord) => <span className="font-medium">{i.cuNumber || "—"}</span>,
+    },
+    { key: "issueDate", header: "Date" },
+    { key: "partyName", header: "Customer" },
+    {
+      key: "pin",
+      header: "PIN",
+      render: (i: InvoiceRecord) => <span className="font-medium">{i.pin || "—"}</span>,
+    },
+    {
+      key: "items",
+      header: "Items",
+      render: (i: InvoiceRecord) => {
+        const label = (i.items || [])
+          .map((x) => {
+            const resolved = x.processedInventoryId ? processedInventoryById.get(x.processedInventoryId) : undefined;
+            const name = resolved?.name || x.name;
+            const unit = resolved?.unit || x.unit;
+            return `${name} (${x.quantity} ${unit})`;
+          })
+          .join(", ");
+        return <span className="text-sm text-muted-foreground">{label || "—"}</span>;
       },
-      { key: "status", header: "Status" },
-      {
-        key: "actions",
-        header: "Actions",
-        render: (i: InvoiceRecord) => (
-          <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={() => window.open(`/invoices/${i.id}/print`, "_blank", "noopener,noreferrer")}
-              title="Print"
-            >
-              <Printer className="w-4 h-4" />
-            </Button>
-            <Button variant="outline" size="sm" className="gap-1" onClick={() => openEdit(i)}>
-              <Pencil className="w-4 h-4" />
-              Edit
+    },
+    {
+      key: "total",
+      header: "Total Amount",
+      render: (i: InvoiceRecord) => <span className="font-medium">₹{(i.total || 0).toLocaleString("en-IN")}</span>,
+    },
+    {
+      key: "status",
+      header: "Status",
+      render: (i: InvoiceRecord) =>
+        isCancelled(i) ? (
+          <span className="rounded-full bg-destructive/15 text-destructive text-[11px] px-2 py-1 font-semibold" title={i.cancelReason}>
+            Cancelled
+          </span>
+        ) : (
+          i.status
+        ),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (i: InvoiceRecord) => (
+        <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => window.open(`/invoices/${i.id}/print`, "_blank", "noopener,noreferrer")}
+            title="Print"
+          >
+            <Printer className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setEInvoiceFor(i)} title="E-Invoice" disabled={isCancelled(i)}>
+            <QrCode className={`w-4 h-4 ${i.eInvoice ? "text-success" : ""}`} />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setEWayBillFor(i)} title="E-Way Bill" disabled={isCancelled(i)}>
+            <Truck className={`w-4 h-4 ${i.eWayBill ? "text-success" : ""}`} />
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => openEdit(i)} disabled={isCancelled(i)}>
+            <Pencil className="w-4 h-4" />
+            Edit
+          </Button>
+          {can("deleteRecords") && !isCancelled(i) && (
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => handleCancel(i)}>
+              <Ban className="w-4 h-4" />
+              Cancel
             </Button>
+          )}
+          {can("deleteRecords") && (
             <Button variant="destructive" size="sm" className="gap-1" onClick={() => handleDelete(i.id)}>
               <Trash2 className="w-4 h-4" />
               Delete
             </Button>
-          </div>
-        ),
-      },
-    ],
-    [processedInventoryById]
-  );
+          )}
+        </div>
+      ),
+    },
+  ];
 
   return (
     <>
@@ -564,6 +494,10 @@ export default function Invoices() {
 
             <div className="flex items-center gap-2">
               <ExportExcelButton rows={exportRows} fileName="invoices" sheetName="Invoices" label="Export" variant="outline" />
+              <Button variant="outline" className="gap-2" onClick={handleEWayBillExport}>
+                <FileJson className="w-4 h-4" />
+                E-Way Bill JSON
+              </Button>
               <Button className="gap-2" onClick={() => navigate("/invoices/new")}>
                 <Plus className="w-4 h-4" />
                 Add Invoice
@@ -589,7 +523,7 @@ export default function Invoices() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="invoiceNo">System Invoice</Label>
-                <Input id="invoiceNo" value={formData.invoiceNo} onChange={(e) => setFormData((s) => ({ ...s, invoiceNo: e.target.value }))} />
+                <Input id="invoiceNo" value={formData.invoiceNo} readOnly />
               </div>
 
               <div className="space-y-2">
@@ -882,6 +816,8 @@ export default function Invoices() {
               <Textarea id="notes" value={formData.notes} onChange={(e) => setFormData((s) => ({ ...s, notes: e.target.value }))} placeholder="Optional notes" />
             </div>
 
+            {editing && <RecordHistory collection="invoices" recordId={editing.id} />}
+
             <DialogFooter>
               <Button
                 type="button"
@@ -900,6 +836,18 @@ export default function Invoices() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <EInvoiceDialog
+        invoice={eInvoiceFor}
+        onOpenChange={(open) => !open && setEInvoiceFor(null)}
+        onRegistered={() => invoicesQuery.refetch()}
+      />
+
+      <EWayBillDialog
+        invoice={eWayBillFor}
+        onOpenChange={(open) => !open && setEWayBillFor(null)}
+        onSaved={() => invoicesQuery.refetch()}
+      />
     </>
   );
 }
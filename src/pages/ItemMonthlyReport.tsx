@@ -8,19 +8,11 @@ import { DataTable } from "@/components/tables/DataTable";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, doc, getDoc, getDocs, query, setDoc, Timestamp, where } from "firebase/firestore";
+import { landedRate } from "@/lib/purchase-bills";
+import { getRecord, listRecords, putRecord } from "@/lib/repository";
+import type { ItemRecord } from "@/lib/schemas";
 import { ArrowLeft, RefreshCw } from "lucide-react";
 
-interface ItemRecord {
-  id: string;
-  code: string;
-  name: string;
-  openingBalance: number;
-  unit: string;
-  notes?: string;
-}
-
 interface PurchaseLite {
   itemId: string;
   date: string; // YYYY-MM-DD
@@ -91,15 +83,6 @@ export default function ItemMonthlyReport() {
   );
 
   const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     if (!itemId) {
       toast({ title: "Missing item", description: "No item selected.", variant: "destructive" });
       return;
@@ -107,55 +90,33 @@ export default function ItemMonthlyReport() {
 
     setIsLoading(true);
     try {
-      const itemSnap = await getDoc(doc(db, "items", itemId));
-      if (!itemSnap.exists()) {
+      const resolvedItem = await getRecord("items", itemId);
+      if (!resolvedItem) {
         toast({ title: "Not found", description: "Item not found.", variant: "destructive" });
         setItem(null);
         return;
       }
-
-      const itemData = itemSnap.data();
-      const resolvedItem: ItemRecord = {
-        id: itemSnap.id,
-        code: (itemData.code || "").toString(),
-        name: (itemData.name || "").toString(),
-        openingBalance:
-          typeof itemData.openingBalance === "number" ? itemData.openingBalance : parseFloat(itemData.openingBalance) || 0,
-        unit: (itemData.unit || "pcs").toString(),
-        notes: (itemData.notes || "").toString() || undefined,
-      };
       setItem(resolvedItem);
 
       // Purchases: keep query simple to avoid composite index requirements; filter by year in memory.
-      const purchasesSnap = await getDocs(query(collection(db, "purchases"), where("itemId", "==", itemId)));
-      const purchasesList: PurchaseLite[] = purchasesSnap.docs
-        .map((d) => {
-          const data = d.data();
-          return {
-            itemId: (data.itemId || "").toString(),
-            date: (data.date || "").toString(),
-            quantity: typeof data.quantity === "number" ? data.quantity : parseFloat(data.quantity) || 0,
-            totalPrice: typeof data.totalPrice === "number" ? data.totalPrice : parseFloat(data.totalPrice) || 0,
-          } as PurchaseLite;
-        })
+      const purchasesList: PurchaseLite[] = (await listRecords("purchases", { where: [["itemId", "==", itemId]] }))
+        .map(({ itemId, date, quantity, totalPrice }) => ({ itemId, date, quantity, totalPrice }))
         .filter((p) => p.date);
+
+      // Purchase bill lines for this item; the unit price is the landed rate.
+      for (const bill of await listRecords("purchaseBills")) {
+        for (const line of bill.items.filter((l) => l.itemId === itemId)) {
+          purchasesList.push({ itemId, date: bill.billDate, quantity: line.quantity, totalPrice: landedRate(line) });
+        }
+      }
       setPurchases(purchasesList);
 
       // Raw inventory IDs for this item code (used to compute outQty from batches)
-      const rawSnap = await getDocs(query(collection(db, "rawInventory"), where("itemCode", "==", resolvedItem.code)));
-      let ids = rawSnap.docs.map((d) => d.id);
+      let ids = (await listRecords("rawInventory", { where: [["itemCode", "==", resolvedItem.code]] })).map((r) => r.id);
 
       // Fallback: if no rawInventory entries exist yet, try matching by name (client-side) so the report still works.
       if (ids.length === 0) {
-        const allRawSnap = await getDocs(collection(db, "rawInventory"));
-        const allRaw: RawInventoryLite[] = allRawSnap.docs.map((d) => {
-          const data = d.data();
-          return {
-            id: d.id,
-            itemCode: (data.itemCode || "").toString() || undefined,
-            name: (data.name || "").toString() || undefined,
-          };
-        });
+        const allRaw: RawInventoryLite[] = await listRecords("rawInventory");
         ids = allRaw
           .filter((r) => (r.name || "").toLowerCase() === resolvedItem.name.toLowerCase())
           .map((r) => r.id);
@@ -163,25 +124,17 @@ export default function ItemMonthlyReport() {
       setRawIds(ids);
 
       // Batches for selected year
-      const start = `${year}-01-01`;
-      const end = `${year}-12-31`;
-      const batchesSnap = await getDocs(
-        query(collection(db, "batches"), where("batchDate", ">=", start), where("batchDate", "<=", end))
-      );
-      const batchesList: BatchLite[] = batchesSnap.docs
-        .map((d) => {
-          const data = d.data();
-          const items = Array.isArray(data.items) ? data.items : [];
-          return {
-            batchDate: (data.batchDate || "").toString(),
-            items: items
-              .map((it: any) => ({
-                rawItemId: (it.rawItemId || "").toString(),
-                useQuantity: typeof it.useQuantity === "number" ? it.useQuantity : parseFloat(it.useQuantity) || 0,
-              }))
-              .filter((it: any) => it.rawItemId),
-          } as BatchLite;
-        })
+      const batchRows = await listRecords("batches", {
+        where: [
+          ["batchDate", ">=", `${year}-01-01`],
+          ["batchDate", "<=", `${year}-12-31`],
+        ],
+      });
+      const batchesList: BatchLite[] = batchRows
+        .map((b) => ({
+          batchDate: b.batchDate,
+          items: b.items.map(({ rawItemId, useQuantity }) => ({ rawItemId, useQuantity })).filter((it) => it.rawItemId),
+        }))
         .filter((b) => b.batchDate);
       setBatches(batchesList);
 
@@ -190,7 +143,7 @@ export default function ItemMonthlyReport() {
       console.error("Error loading item report", error);
       toast({
         title: "Load failed",
-        description: "Could not load item monthly report data from Firestore.",
+        description: "Could not load item monthly report data.",
         variant: "destructive",
       });
     } finally {
@@ -255,7 +208,6 @@ export default function ItemMonthlyReport() {
   }, [batches, item, months, purchases, rawIds, year, yearPurchases]);
 
   useEffect(() => {
-    if (!db) return;
     if (!itemId) return;
     if (!item) return;
     if (!rows.length) return;
@@ -263,27 +215,21 @@ export default function ItemMonthlyReport() {
 
     const persist = async () => {
       try {
-        const docId = `${itemId}_${year}`;
-        await setDoc(
-          doc(db, "itemMonthlyReports", docId),
-          {
-            itemId,
-            itemCode: item.code,
-            itemName: item.name,
-            unit: item.unit,
-            year,
-            rows,
-            updatedAt: Timestamp.now(),
-          },
-          { merge: true }
-        );
+        await putRecord("itemMonthlyReports", `${itemId}_${year}`, {
+          itemId,
+          itemCode: item.code,
+          itemName: item.name,
+          unit: item.unit,
+          year,
+          rows,
+        });
       } catch (e) {
         console.warn("Could not persist item monthly report snapshot", e);
       }
     };
 
     persist();
-  }, [db, item, itemId, reportRun, rows, year]);
+  }, [item, itemId, reportRun, rows, year]);
 
   const columns = useMemo(
     () => [
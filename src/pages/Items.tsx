@@ -10,22 +10,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { addDoc, collection, deleteDoc, doc, getDocs, orderBy, query, Timestamp, updateDoc } from "firebase/firestore";
+import { landedRate } from "@/lib/purchase-bills";
+import { moveToRecycleBin } from "@/lib/recycle-bin";
+import { createRecord, listRecords, updateRecord } from "@/lib/repository";
+import type { ItemRecord } from "@/lib/schemas";
 import { ClipboardList, Hash, PackagePlus, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
-interface ItemRecord {
-  id: string;
-  code: string;
-  name: string;
-  openingBalance: number;
-  unit: string;
-  notes?: string;
-  createdAt?: Date;
-}
-
 interface PurchaseLite {
   itemId: string;
   itemCode: string;
@@ -50,6 +43,8 @@ const defaultFormState = {
   name: "",
   openingBalance: "0",
   unit: "pcs",
+  hsnCode: "",
+  gstRate: "",
   notes: "",
 };
 
@@ -66,6 +61,7 @@ export default function Items() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const itemsWithStock = useMemo(() => {
     return items.map((item) => {
@@ -89,7 +85,7 @@ export default function Items() {
   const filteredItems = useMemo(() => {
     if (!search.trim()) return itemsWithStock;
     return itemsWithStock.filter((item) =>
-      `${item.code} ${item.name}`.toLowerCase().includes(search.toLowerCase())
+      `${item.code} ${item.name} ${item.hsnCode || ""}`.toLowerCase().includes(search.toLowerCase())
     );
   }, [itemsWithStock, search]);
 
@@ -117,6 +113,8 @@ export default function Items() {
       filteredItems.map((item) => ({
         Code: item.code,
         Name: item.name,
+        HSN: item.hsnCode || "",
+        "GST %": item.gstRate ?? "",
         "In Qty": (item as any).inQty ?? 0,
         "Opening Balance": item.openingBalance,
         Unit: item.unit,
@@ -131,90 +129,56 @@ export default function Items() {
   );
 
   const fetchItems = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     try {
-      const itemsQuery = query(collection(db, "items"), orderBy("createdAt", "desc"));
-      const snapshot = await getDocs(itemsQuery);
-      const list = snapshot.docs.map((doc) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          code: data.code || "",
-          name: data.name || "",
-          openingBalance:
-            typeof data.openingBalance === "number"
-              ? data.openingBalance
-              : parseFloat(data.openingBalance) || 0,
-          unit: data.unit || "pcs",
-          notes: data.notes || "",
-          createdAt: data.createdAt?.toDate?.() || new Date(),
-        } as ItemRecord;
-      });
-      setItems(list);
+      setItems(await listRecords("items", { orderBy: "createdAt", direction: "desc" }));
     } catch (error) {
       console.error("Error fetching items", error);
       toast({
         title: "Fetch failed",
-        description: "Could not load items from Firestore.",
+        description: "Could not load items.",
         variant: "destructive",
       });
     }
   };
 
   const fetchStockSummaries = async () => {
-    if (!db) return;
-
-    const [purchasesSnap, batchesSnap, rawInvSnap] = await Promise.all([
-      getDocs(collection(db, "purchases")),
-      getDocs(collection(db, "batches")),
-      getDocs(collection(db, "rawInventory")),
+    const [purchaseRows, bills, batchRows, rawRows] = await Promise.all([
+      listRecords("purchases"),
+      listRecords("purchaseBills"),
+      listRecords("batches"),
+      listRecords("rawInventory"),
     ]);
 
-    const purchases: PurchaseLite[] = purchasesSnap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          itemId: (data.itemId || "").toString(),
-          itemCode: (data.itemCode || "").toString(),
-          date: (data.date || "").toString(),
-          quantity: typeof data.quantity === "number" ? data.quantity : parseFloat(data.quantity) || 0,
-          totalPrice: typeof data.totalPrice === "number" ? data.totalPrice : parseFloat(data.totalPrice) || 0,
-        } as PurchaseLite;
-      })
+    const purchases: PurchaseLite[] = purchaseRows
+      .map(({ itemId, itemCode, date, quantity, totalPrice }) => ({ itemId, itemCode, date, quantity, totalPrice }))
       .filter((p) => p.itemId && p.itemCode);
 
-    const batches: BatchLite[] = batchesSnap.docs
-      .map((d) => {
-        const data = d.data();
-        const items = Array.isArray(data.items) ? data.items : [];
-        return {
-          batchDate: (data.batchDate || "").toString(),
-          items: items
-            .map((it: any) => ({
-              rawItemId: (it.rawItemId || "").toString(),
-              useQuantity: typeof it.useQuantity === "number" ? it.useQuantity : parseFloat(it.useQuantity) || 0,
-            }))
-            .filter((it: any) => it.rawItemId),
-        } as BatchLite;
-      })
+    // Purchase bill lines: the unit price is the landed rate, after discount and freight.
+    for (const bill of bills) {
+      for (const line of bill.items) {
+        if (!line.itemId || !line.itemCode) continue;
+        purchases.push({
+          itemId: line.itemId,
+          itemCode: line.itemCode,
+          date: bill.billDate,
+          quantity: line.quantity,
+          totalPrice: landedRate(line),
+        });
+      }
+    }
+
+    const batches: BatchLite[] = batchRows
+      .map((b) => ({
+        batchDate: b.batchDate,
+        items: b.items.map(({ rawItemId, useQuantity }) => ({ rawItemId, useQuantity })).filter((it) => it.rawItemId),
+      }))
       .filter((b) => b.batchDate);
 
-    const rawInventory: RawInventoryLite[] = rawInvSnap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        itemCode: (data.itemCode || "").toString() || undefined,
-        name: (data.name || "").toString() || undefined,
-      } as RawInventoryLite;
-    });
+    const rawInventory: RawInventoryLite[] = rawRows.map((r) => ({
+      id: r.id,
+      itemCode: r.itemCode || undefined,
+      name: r.name || undefined,
+    }));
 
     const nextInQtyByItemId: Record<string, number> = {};
     const nextLastUnitPriceByItemId: Record<string, number> = {};
@@ -254,15 +218,6 @@ export default function Items() {
   };
 
   const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
       await Promise.all([fetchItems(), fetchStockSummaries()]);
@@ -270,7 +225,7 @@ export default function Items() {
       console.error("Error loading items/stock", error);
       toast({
         title: "Load failed",
-        description: "Could not load items/stock data from Firestore.",
+        description: "Could not load items/stock data.",
         variant: "destructive",
       });
     } finally {
@@ -300,26 +255,19 @@ export default function Items() {
       name: item.name,
       openingBalance: (item.openingBalance ?? 0).toString(),
       unit: item.unit || "pcs",
+      hsnCode: item.hsnCode || "",
+      gstRate: item.gstRate == null ? "" : item.gstRate.toString(),
       notes: item.notes || "",
     });
     setIsDialogOpen(true);
   };
 
   const handleDeleteItem = async (itemId: string) => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (!confirm("Are you sure you want to delete this item?")) return;
+    if (!confirm("Move this item to the Recycle Bin?")) return;
 
     try {
-      await deleteDoc(doc(db, "items", itemId));
-      toast({ title: "Item deleted", description: "The item has been removed." });
+      await moveToRecycleBin("items", itemId);
+      toast({ title: "Item deleted", description: "The item has been moved to the Recycle Bin." });
       fetchAll();
     } catch (error) {
       console.error("Error deleting item", error);
@@ -334,15 +282,6 @@ export default function Items() {
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     if (!formData.code.trim()) {
       toast({
         title: "Validation error",
@@ -371,6 +310,26 @@ export default function Items() {
       return;
     }
 
+    const hsnCode = formData.hsnCode.trim();
+    if (hsnCode && !/^\d{4}(\d{2}){0,2}$/.test(hsnCode)) {
+      toast({
+        title: "Validation error",
+        description: "HSN code must be 4, 6 or 8 digits.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const gstRate = formData.gstRate.trim() === "" ? null : parseFloat(formData.gstRate);
+    if (gstRate !== null && (Number.isNaN(gstRate) || gstRate < 0 || gstRate > 28)) {
+      toast({
+        title: "Validation error",
+        description: "GST rate must be between 0 and 28%.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       const payload = {
@@ -378,19 +337,17 @@ export default function Items() {
         name: formData.name.trim(),
         openingBalance: openingValue,
         unit: formData.unit.trim() || "pcs",
+        hsnCode,
+        gstRate,
         notes: formData.notes.trim(),
-        updatedAt: Timestamp.now(),
       };
 
       if (editingItem) {
-        await updateDoc(doc(db, "items", editingItem.id), payload);
+        await updateRecord("items", editingItem.id, payload);
         toast({ title: "Item updated", description: "The item has been updated." });
       } else {
-        await addDoc(collection(db, "items"), {
-          ...payload,
-          createdAt: Timestamp.now(),
-        });
-        toast({ title: "Item added", description: "The item has been saved to Firestore." });
+        await createRecord("items", payload);
+        toast({ title: "Item added", description: "The item has been saved." });
       }
 
       setIsDialogOpen(false);
@@ -440,6 +397,19 @@ export default function Items() {
         </div>
       ),
     },
+    {
+      key: "hsnCode",
+      header: "HSN / GST",
+      render: (item: ItemRecord) =>
+        item.hsnCode || item.gstRate != null ? (
+          <div className="text-sm">
+            <span className="font-mono">{item.hsnCode || "—"}</span>
+            {item.gstRate != null && <span className="text-muted-foreground"> · {item.gstRate}%</span>}
+          </div>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        ),
+    },
     {
       key: "inQty",
       header: "In Qty",
@@ -496,14 +466,16 @@ export default function Items() {
           >
             <Pencil className="h-4 w-4" />
           </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => handleDeleteItem(item.id)}
-            className="hover:bg-destructive/10 hover:text-destructive"
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          {can("deleteRecords") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDeleteItem(item.id)}
+              className="hover:bg-destructive/10 hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       ),
     },
@@ -648,6 +620,32 @@ export default function Items() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="hsnCode">HSN Code</Label>
+                  <Input
+                    id="hsnCode"
+                    inputMode="numeric"
+                    value={formData.hsnCode}
+                    onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                    placeholder="E.g. 30049099"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gstRate">GST Rate (%)</Label>
+                  <Input
+                    id="gstRate"
+                    type="number"
+                    min="0"
+                    max="28"
+                    step="0.01"
+                    value={formData.gstRate}
+                    onChange={(e) => setFormData({ ...formData, gstRate: e.target.value })}
+                    placeholder="12"
+                  />
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="notes">Notes</Label>
                 <Textarea
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthBackend, needsFirstRunSetup } from "@/lib/auth";
+
+export default function Login() {
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [setupNeeded, setSetupNeeded] = useState(false);
+  const { session, signIn, setUpAdmin } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  const from = (location.state as { from?: string } | null)?.from || "/";
+
+  useEffect(() => {
+    needsFirstRunSetup()
+      .then(setSetupNeeded)
+      .catch((error) => console.warn("Failed to check for first-run setup:", error));
+  }, []);
+
+  if (session) return <Navigate to={from} replace />;
+
+  const handleSetUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({ title: "Passwords differ", description: "Enter the same password twice", variant: "destructive" });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const next = await setUpAdmin({ email, name, password });
+      toast({ title: "Administrator created", description: `Welcome, ${next.name}` });
+      navigate(from, { replace: true });
+    } catch (error) {
+      console.error("Setup error:", error);
+      toast({
+        title: "Setup Failed",
+        description: error instanceof Error ? error.message : "Could not create the administrator",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email || !password) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter both email and password",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const next = await signIn(email, password);
+      toast({ title: "Login Successful", description: `Welcome back, ${next.name}` });
+      navigate(from, { replace: true });
+    } catch (error) {
+      console.error("Login error:", error);
+      toast({
+        title: "Login Failed",
+        description: error instanceof Error ? error.message : "Invalid credentials",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-primary/5 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-2 text-center">
+          <div className="mx-auto w-12 h-12 rounded-xl gradient-primary flex items-center justify-center mb-2">
+            <FlaskConical className="w-6 h-6 text-white" />
+          </div>
+          <CardTitle className="text-2xl">Sentiment Pharma</CardTitle>
+          <CardDescription>{setupNeeded ? "Set up the administrator account" : "Staff sign in"}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={setupNeeded ? handleSetUp : handleLogin} className="space-y-4">
+            {setupNeeded && (
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  placeholder="Administrator"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={isLoading}
+                  autoComplete="name"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="you@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={isLoading}
+                autoComplete="username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoading}
+                autoComplete={setupNeeded ? "new-password" : "current-password"}
+              />
+            </div>
+            {setupNeeded && (
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Enter the password again"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  disabled={isLoading}
+                  autoComplete="new-password"
+                />
+              </div>
+            )}
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {setupNeeded ? (isLoading ? "Creating..." : "Create Administrator") : isLoading ? "Signing in..." : "Sign In"}
+            </Button>
+          </form>
+          <div className="mt-4 text-center text-sm text-muted-foreground">
+            <p>
+              {!setupNeeded
+                ? "Accounts are created by your system administrator."
+                : getAuthBackend().kind === "local"
+                  ? "This install has no staff accounts yet. The administrator can add the rest of the team."
+                  : "Use the email and password of the Firebase account that will administer this install."}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -14,36 +14,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, getDocs } from "firebase/firestore";
-
-interface BatchItem {
-  rawItemId: string;
-  rawItemName: string;
-  currentQuantity: number;
-  unit: string;
-  useQuantity: number;
-}
-
-interface Batch {
-  id: string;
-  batchNo: string;
-  manualBatchNo?: string;
-  items: BatchItem[];
-  createdAt: Date;
-  status: string;
-  batchDate: string;
-  actualOutputQuantity?: number;
-  producedItemName?: string;
-}
-
-interface ProcessedInventoryItem {
-  id: string;
-  name: string;
-  batchNo: string;
-  quantity: string;
-  unit: string;
-}
+import { compareWithStandard, recipeForBatch, type LossComparison } from "@/lib/recipes";
+import { DatabaseUnavailableError, listRecords } from "@/lib/repository";
 
 interface LossCalculationData {
   id: string;
@@ -58,6 +30,8 @@ interface LossCalculationData {
   lossPercentage: number;
   status: string;
   date: string;
+  /** Set when the batch's recipe is known. */
+  standard?: LossComparison;
 }
 
 export default function LossCalculation() {
@@ -70,30 +44,14 @@ export default function LossCalculation() {
   const { toast } = useToast();
 
   const fetchLossCalculations = async () => {
-    if (!db) {
-      console.warn("Firebase not initialized");
-      return;
-    }
-
     try {
       setLoading(true);
-      
-      // Fetch all batches
-      const batchesRef = collection(db, "batches");
-      const batchesSnapshot = await getDocs(batchesRef);
-      const batches = batchesSnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
-      })) as Batch[];
 
-      // Fetch processed inventory
-      const processedRef = collection(db, "processedInventory");
-      const processedSnapshot = await getDocs(processedRef);
-      const processedInventory = processedSnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as ProcessedInventoryItem[];
+      const [batches, processedInventory, recipes] = await Promise.all([
+        listRecords("batches"),
+        listRecords("processedInventory"),
+        listRecords("recipes"),
+      ]);
 
       // Calculate loss for each batch
       const calculations: LossCalculationData[] = [];
@@ -116,6 +74,7 @@ export default function LossCalculation() {
         // Calculate total loss (input - output)
         const totalLoss = totalRawUsed - actualOutput;
         const lossPercentage = totalRawUsed > 0 ? (totalLoss / totalRawUsed) * 100 : 0;
+        const recipe = recipeForBatch(recipes, batch);
 
         // Create one entry per batch showing overall loss
         calculations.push({
@@ -130,13 +89,18 @@ export default function LossCalculation() {
           lossQuantity: totalLoss,
           lossPercentage: Math.max(0, lossPercentage),
           status: batch.status,
-          date: batch.batchDate || new Date(batch.createdAt).toISOString().split('T')[0],
+          date: batch.batchDate || (batch.createdAt ?? new Date()).toISOString().split('T')[0],
+          standard: recipe ? compareWithStandard(recipe, totalRawUsed, actualOutput) : undefined,
         });
       });
 
       setLossData(calculations);
       setFilteredData(calculations);
     } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
       console.error("Error fetching loss calculations:", error);
       toast({
         title: "Error",
@@ -175,6 +139,9 @@ export default function LossCalculation() {
     "Product Qty": item.productQuantity,
     Loss: item.lossQuantity,
     "Loss %": item.lossPercentage,
+    "Standard Loss %": item.standard ? Number(item.standard.standardLossPercent.toFixed(2)) : "",
+    "Variance (pts)": item.standard ? Number(item.standard.variance.toFixed(2)) : "",
+    "Within Tolerance": item.standard ? (item.standard.withinTolerance ? "Yes" : "No") : "",
     Status: item.status,
     Date: item.date,
   }));
@@ -241,6 +208,24 @@ export default function LossCalculation() {
         </span>
       )
     },
+    {
+      key: "standard" as keyof LossCalculationData,
+      header: "vs Recipe",
+      render: (item: LossCalculationData) =>
+        item.standard ? (
+          <div>
+            <span className={`font-semibold ${item.standard.withinTolerance ? "text-success" : "text-destructive"}`}>
+              {item.standard.variance > 0 ? "+" : ""}
+              {item.standard.variance.toFixed(2)} pts
+            </span>
+            <div className="text-xs text-muted-foreground">
+              std {item.standard.standardLossPercent.toFixed(2)}%, tol {item.standard.tolerance}%
+            </div>
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">No recipe</span>
+        ),
+    },
     { 
       key: "status" as keyof LossCalculationData, 
       header: "Status",
@@ -281,7 +266,9 @@ export default function LossCalculation() {
   const avgLossPercentage = filteredData.length > 0 
     ? filteredData.reduce((sum, item) => sum + item.lossPercentage, 0) / filteredData.length 
     : 0;
-  const highLossCount = filteredData.filter(item => item.lossPercentage > 10).length;
+  const highLossCount = filteredData.filter(item =>
+    item.standard ? !item.standard.withinTolerance : item.lossPercentage > 10
+  ).length;
 
   return (
     <>
@@ -337,7 +324,7 @@ export default function LossCalculation() {
               <div>
                 <p className="text-sm font-medium text-muted-foreground mb-1">High Loss</p>
                 <p className="text-3xl font-bold text-destructive">{highLossCount}</p>
-                <p className="text-sm text-muted-foreground mt-1">&gt;10% loss</p>
+                <p className="text-sm text-muted-foreground mt-1">Over recipe tolerance, or &gt;10% without a recipe</p>
               </div>
               <div className="h-12 w-12 rounded-full bg-destructive/20 flex items-center justify-center">
                 <TrendingDown className="h-6 w-6 text-destructive" />
@@ -465,6 +452,20 @@ export default function LossCalculation() {
                       <span className="text-muted-foreground">Loss Percentage:</span>
                       <span className="font-bold text-destructive">{selectedLoss.lossPercentage.toFixed(2)}%</span>
                     </div>
+                    {selectedLoss.standard && (
+                      <>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Recipe Standard Loss:</span>
+                          <span className="font-medium">{selectedLoss.standard.standardLossPercent.toFixed(2)}%</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Variance / Tolerance:</span>
+                          <span className={`font-bold ${selectedLoss.standard.withinTolerance ? "text-success" : "text-destructive"}`}>
+                            {selectedLoss.standard.variance.toFixed(2)} / {selectedLoss.standard.tolerance} pts
+                          </span>
+                        </div>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1,29 +1,14 @@
 import { useEffect, useMemo, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
+import { getRecord } from "@/lib/repository";
+import type { PaymentRecord } from "@/lib/schemas";
 import { ArrowLeft, Printer } from "lucide-react";
 
-const COMPANY_NAME = "Sentiment Pharma";
-const COMPANY_ADDRESS = "";
-const COMPANY_TAX = "";
 const CURRENCY = "₹";
 
-type PaymentDoc = {
-  date?: string;
-  partyName?: string;
-  partyType?: "customer" | "supplier" | "other";
-  amount?: number;
-  method?: string;
-  reference?: string;
-  bankAccountName?: string;
-  cashAccountName?: string;
-  notes?: string;
-  status?: string;
-};
-
 function pad2(n: number): string {
   return n < 10 ? `0${n}` : String(n);
 }
@@ -44,9 +29,10 @@ export default function PaymentPrint() {
   const { paymentId } = useParams<{ paymentId: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { company } = useCompany();
 
   const [isLoading, setIsLoading] = useState(true);
-  const [payment, setPayment] = useState<PaymentDoc | null>(null);
+  const [payment, setPayment] = useState<PaymentRecord | null>(null);
 
   const printedAt = useMemo(() => new Date(), []);
 
@@ -55,12 +41,12 @@ export default function PaymentPrint() {
       if (!paymentId) return;
       setIsLoading(true);
       try {
-        const snap = await getDoc(doc(db, "payments", paymentId));
-        if (!snap.exists()) {
+        const record = await getRecord("payments", paymentId);
+        if (!record) {
           toast({ title: "Not found", description: "Payment record not found.", variant: "destructive" });
           return;
         }
-        setPayment(snap.data() as PaymentDoc);
+        setPayment(record);
         // Auto-print after content loads
         setTimeout(() => {
           window.print();
@@ -118,12 +104,12 @@ export default function PaymentPrint() {
 
         <div className="flex items-start justify-between">
           <div>
-            <div className="text-xl font-bold uppercase">{COMPANY_NAME}</div>
-            {COMPANY_ADDRESS ? (
-              <div className="text-xs text-muted-foreground whitespace-pre-line">{COMPANY_ADDRESS}</div>
+            <div className="text-xl font-bold uppercase">{company.name}</div>
+            {company.address ? (
+              <div className="text-xs text-muted-foreground whitespace-pre-line">{company.address}</div>
             ) : null}
-            {COMPANY_TAX ? (
-              <div className="text-xs text-muted-foreground">{COMPANY_TAX}</div>
+            {company.gstin ? (
+              <div className="text-xs text-muted-foreground">GSTIN: {company.gstin}</div>
             ) : null}
           </div>
           <div className="text-right">
@@ -2,7 +2,9 @@ import { useEffect, useMemo, useState } from "react";
 import { flushSync } from "react-dom";
 import { useNavigate } from "react-router-dom";
 import { AppHeader } from "@/components/layout/AppHeader";
+import { CompanyBankDetailsBlock } from "@/components/print/CompanyLetterhead";
 import { StatCard } from "@/components/cards/StatCard";
+import { RecordHistory } from "@/components/audit/RecordHistory";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -11,18 +13,25 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import {
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  orderBy,
-  query,
-  Timestamp,
-  writeBatch,
-} from "firebase/firestore";
+import { paymentJournal, postJournal, removeJournal } from "@/lib/ledger";
+import { legacyPurchaseBills } from "@/lib/purchase-bills";
+import { DatabaseUnavailableError, listRecords, runRecordTransaction, type RecordTransaction } from "@/lib/repository";
+import type {
+  BankAccountRecord,
+  CashAccountRecord,
+  DebitCreditNoteRecord,
+  PartyRecord,
+  PartyType,
+  PaymentDirection,
+  PaymentMethod,
+  PaymentRecord,
+  PaymentStatus,
+  PurchaseBillRecord,
+  RecordInput,
+} from "@/lib/schemas";
 import {
   ChevronDown,
   ChevronRight,
@@ -39,59 +48,13 @@ import {
 
 type InvoiceTxStatus = "Paid" | "Partially Paid" | "Unpaid";
 
-type PaymentDirection = "In" | "Out";
-type PaymentMethod = "Cash" | "UPI" | "Bank" | "Bank Transfer" | "Card" | "Cheque";
-type PaymentStatus = "Completed" | "Pending" | "Failed";
-
-interface PaymentRecord {
-  id: string;
-  date: string; // YYYY-MM-DD
-  direction: PaymentDirection;
-  partyType: "customer" | "supplier" | "other";
-  partyId?: string;
-  partyName?: string;
-  invoiceId?: string;
-  invoiceNo?: string;
-  amount: number;
-  method: PaymentMethod;
-  reference: string;
-  bankAccountId?: string;
-  bankAccountName?: string;
-  cashAccountId?: string;
-  cashAccountName?: string;
-  bankTransferCharge?: number;
-  accountingTxId?: string;
-  bankChargeTxId?: string;
-  acctAccountingTxId?: string; // ID for accountingTransactions collection entry
-  acctBankChargeTxId?: string; // ID for accountingTransactions collection bank charge entry
-  notes?: string;
-  status: PaymentStatus;
-  createdAt?: Date;
-}
-
-interface BankAccount {
-  id: string;
-  accountName: string;
-  accountNumber?: string;
-}
-
-interface CashAccount {
-  id: string;
-  accountName: string;
-}
-
-interface PartyOption {
-  id: string;
-  name: string;
-  opening?: number;
-}
-
-type PartyType = "customer" | "supplier";
-
 type InvoiceStatus = string;
 
+// Sales invoices and supplier purchase bills flattened into one receivable/payable row per bill.
 interface InvoiceRecord {
   id: string;
+  /** Every record the row stands for; older purchases were saved one row per item. */
+  ids?: string[];
   invoiceNo: string;
   manualInvoiceNo?: string;
   partyType: PartyType;
@@ -103,20 +66,9 @@ interface InvoiceRecord {
   status?: InvoiceStatus;
 }
 
-type NoteType = "Debit" | "Credit";
-
-interface NoteRecord {
-  id: string;
-  noteType: NoteType;
-  noteNo: string;
-  date: string;
-  partyType: PartyType;
-  partyId: string;
-  partyName: string;
-  amount: number;
-  relatedInvoiceNo?: string;
-  reason?: string;
-}
+/** Whether a payment was recorded against this bill, or against any purchase row grouped into it. */
+const isLinkedPayment = (payment: PaymentRecord, inv: InvoiceRecord | undefined) =>
+  !!payment.invoiceId && !!inv && (inv.ids ?? [inv.id]).includes(payment.invoiceId);
 
 const defaultFormState = {
   date: new Date().toISOString().slice(0, 10),
@@ -139,6 +91,24 @@ function safeNumber(value: string): number {
   return Number.isFinite(n) ? n : 0;
 }
 
+/** Creates, updates or deletes a row linked from a payment and returns the id to keep. */
+function syncLinkedRow<C extends "transactions" | "accountingTransactions">(
+  tx: RecordTransaction,
+  name: C,
+  currentId: string | undefined,
+  data: RecordInput<C> | null
+): string {
+  if (!data) {
+    if (currentId) tx.delete(name, currentId);
+    return "";
+  }
+  if (currentId) {
+    tx.update(name, currentId, data);
+    return currentId;
+  }
+  return tx.create(name, data);
+}
+
 function partyShortCode(name: string): string {
   const first = (name || "").trim().split(/\s+/)[0] || "";
   if (!first) return "";
@@ -151,13 +121,12 @@ function partyShortCode(name: string): string {
 export default function Payments() {
   const navigate = useNavigate();
   const [payments, setPayments] = useState<PaymentRecord[]>([]);
-  const [customers, setCustomers] = useState<PartyOption[]>([]);
-  const [suppliers, setSuppliers] = useState<PartyOption[]>([]);
+  const [customers, setCustomers] = useState<PartyRecord[]>([]);
+  const [suppliers, setSuppliers] = useState<PartyRecord[]>([]);
   const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
-  const [notes, setNotes] = useState<NoteRecord[]>([]);
-  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
-  const [cashAccounts, setCashAccounts] = useState<CashAccount[]>([]);
-  const [purchases, setPurchases] = useState<any[]>([]);
+  const [notes, setNotes] = useState<DebitCreditNoteRecord[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccountRecord[]>([]);
+  const [cashAccounts, setCashAccounts] = useState<CashAccountRecord[]>([]);
 
   const [activePartyType, setActivePartyType] = useState<PartyType>("customer");
   const [partySearch, setPartySearch] = useState("");
@@ -178,6 +147,9 @@ export default function Payments() {
 
   const { toast } = useToast();
 
+  const { can } = useAuth();
+  const { company } = useCompany();
+
   const partyOptions = useMemo(() => {
     if (formData.partyType === "supplier") return suppliers;
     if (formData.partyType === "customer") return customers;
@@ -289,193 +261,83 @@ export default function Payments() {
   }, [filterAdvanceOnly, filterOutstandingOnly, filterOverdueOnly, partySearch, partySummaries]);
 
   const fetchParties = async () => {
-    const [customersSnap, suppliersSnap] = await Promise.all([
-      getDocs(collection(db, "customers")),
-      getDocs(collection(db, "suppliers")),
-    ]);
-
-    const customersList = customersSnap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          name: (data.name || "").toString(),
-          opening: typeof data.opening === "number" ? data.opening : parseFloat(data.opening) || 0,
-        };
-      })
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
-
-    const suppliersList = suppliersSnap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          name: (data.name || "").toString(),
-          opening: typeof data.opening === "number" ? data.opening : parseFloat(data.opening) || 0,
-        };
-      })
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
-
-    setCustomers(customersList);
-    setSuppliers(suppliersList);
+    const [customersList, suppliersList] = await Promise.all([listRecords("customers"), listRecords("suppliers")]);
+    const byName = (a: PartyRecord, b: PartyRecord) => a.name.localeCompare(b.name);
+    setCustomers(customersList.filter((x) => x.name).sort(byName));
+    setSuppliers(suppliersList.filter((x) => x.name).sort(byName));
   };
 
   const fetchPayments = async () => {
-    const qy = query(collection(db, "payments"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        date: (data.date || "").toString(),
-        direction: (data.direction || "In") as PaymentDirection,
-        partyType: (data.partyType || "customer") as PaymentRecord["partyType"],
-        partyId: (data.partyId || "").toString() || undefined,
-        partyName: (data.partyName || "").toString() || undefined,
-        invoiceId: (data.invoiceId || "").toString() || undefined,
-        invoiceNo: (data.invoiceNo || "").toString() || undefined,
-        amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-        method: ((data.method || "Cash") as PaymentMethod) || "Cash",
-        reference: (data.reference || "").toString(),
-        bankAccountId: (data.bankAccountId || "").toString() || undefined,
-        bankAccountName: (data.bankAccountName || "").toString() || undefined,
-        cashAccountId: (data.cashAccountId || "").toString() || undefined,
-        cashAccountName: (data.cashAccountName || "").toString() || undefined,
-        bankTransferCharge:
-          typeof data.bankTransferCharge === "number" ? data.bankTransferCharge : parseFloat(data.bankTransferCharge) || 0,
-        accountingTxId: (data.accountingTxId || "").toString() || undefined,
-        bankChargeTxId: (data.bankChargeTxId || "").toString() || undefined,
-        acctAccountingTxId: (data.acctAccountingTxId || "").toString() || undefined,
-        acctBankChargeTxId: (data.acctBankChargeTxId || "").toString() || undefined,
-        notes: (data.notes || "").toString() || undefined,
-        status: (data.status || "Completed") as PaymentStatus,
-        createdAt: data.createdAt?.toDate?.() || new Date(),
-      } as PaymentRecord;
-    });
-    setPayments(list);
+    setPayments(await listRecords("payments", { orderBy: "createdAt", direction: "desc" }));
   };
 
   const fetchBankAccounts = async () => {
-    const qy = query(collection(db, "bankAccounts"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          accountName: (data.accountName || data.name || "").toString(),
-          accountNumber: (data.accountNumber || "").toString() || undefined,
-        } as BankAccount;
-      })
-      .filter((b) => b.accountName);
-    setBankAccounts(list);
+    const list = await listRecords("bankAccounts", { orderBy: "createdAt", direction: "desc" });
+    setBankAccounts(list.filter((b) => b.accountName));
   };
 
   const fetchCashAccounts = async () => {
-    const qy = query(collection(db, "cashAccounts"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          accountName: (data.accountName || data.name || "").toString(),
-        } as CashAccount;
-      })
-      .filter((c) => c.accountName);
-    setCashAccounts(list);
+    const list = await listRecords("cashAccounts", { orderBy: "createdAt", direction: "desc" });
+    setCashAccounts(list.filter((c) => c.accountName));
   };
 
   const fetchInvoices = async () => {
-    const [invoicesSnap, purchasesSnap] = await Promise.all([
-      getDocs(query(collection(db, "invoices"), orderBy("createdAt", "desc"))),
-      getDocs(collection(db, "purchases")),
+    const [invoiceRows, billRows, purchaseRows] = await Promise.all([
+      listRecords("invoices", { orderBy: "createdAt", direction: "desc" }),
+      listRecords("purchaseBills"),
+      listRecords("purchases"),
     ]);
-    
-    const invoicesList = invoicesSnap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          invoiceNo: (data.invoiceNo || "").toString(),
-          manualInvoiceNo: (data.manualInvoiceNo || "").toString() || undefined,
-          partyType: ((data.partyType || "customer") as PartyType) || "customer",
-          partyId: (data.partyId || "").toString(),
-          partyName: (data.partyName || "").toString(),
-          issueDate: (data.issueDate || "").toString(),
-          dueDate: (data.dueDate || "").toString() || undefined,
-          total: typeof data.total === "number" ? data.total : parseFloat(data.total) || 0,
-          status: (data.status || "").toString() || undefined,
-        } as InvoiceRecord;
-      })
-      .filter((x) => x.invoiceNo && x.partyId);
-    
-    // Convert purchases to invoice format for suppliers
-    const purchasesList = purchasesSnap.docs
-      .map((d) => {
-        const data = d.data();
-        const supplierId = (data.supplierId || "").toString();
-        const supplierName = (data.supplierName || "").toString();
-        if (!supplierId || !supplierName) return null;
-        
-        return {
-          id: d.id,
-          invoiceNo: (data.invoiceNo || "").toString(),
-          manualInvoiceNo: undefined,
-          partyType: "supplier" as PartyType,
-          partyId: supplierId,
-          partyName: supplierName,
-          issueDate: (data.date || "").toString(),
-          dueDate: undefined,
-          total: typeof data.totalPrice === "number" ? data.totalPrice : parseFloat(data.totalPrice) || 0,
-          status: "Unpaid",
-        } as InvoiceRecord;
-      })
-      .filter((x) => x !== null) as InvoiceRecord[];
-    
-    setPurchases(purchasesSnap.docs.map(d => ({id: d.id, ...d.data()})));
-    setInvoices([...invoicesList, ...purchasesList]);
+
+    const invoicesList: InvoiceRecord[] = invoiceRows
+      .map((x) => ({
+        id: x.id,
+        invoiceNo: x.invoiceNo,
+        manualInvoiceNo: x.manualInvoiceNo,
+        partyType: x.partyType,
+        partyId: x.partyId,
+        partyName: x.partyName,
+        issueDate: x.issueDate,
+        dueDate: x.dueDate || undefined,
+        total: x.total,
+        status: x.status,
+      }))
+      .filter((x) => x.invoiceNo && x.partyId && x.status !== "Cancelled");
+
+    // Purchase bills, and older purchase rows grouped into bills, as the supplier's invoices
+    const bills: Array<PurchaseBillRecord & { purchaseIds?: string[] }> = [...billRows, ...legacyPurchaseBills(purchaseRows)];
+    const billsList: InvoiceRecord[] = bills
+      .filter((b) => b.supplierId && b.supplierName)
+      .map((b) => ({
+        id: b.id,
+        ids: b.purchaseIds,
+        invoiceNo: b.billNo,
+        manualInvoiceNo: undefined,
+        partyType: "supplier" as PartyType,
+        partyId: b.supplierId,
+        partyName: b.supplierName,
+        issueDate: b.billDate,
+        dueDate: b.dueDate || undefined,
+        total: b.total,
+        status: "Unpaid",
+      }));
+
+    setInvoices([...invoicesList, ...billsList]);
   };
 
   const fetchNotes = async () => {
-    const qy = query(collection(db, "debitCreditNotes"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          noteType: (data.noteType || "Debit") as NoteType,
-          noteNo: (data.noteNo || "").toString(),
-          date: (data.date || "").toString(),
-          partyType: (data.partyType || "customer") as PartyType,
-          partyId: (data.partyId || "").toString(),
-          partyName: (data.partyName || "").toString(),
-          amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-          relatedInvoiceNo: (data.relatedInvoiceNo || "").toString() || undefined,
-          reason: (data.reason || "").toString() || undefined,
-        } as NoteRecord;
-      })
-      .filter((x) => x.noteNo && x.partyId);
-    setNotes(list);
+    const list = await listRecords("debitCreditNotes", { orderBy: "createdAt", direction: "desc" });
+    setNotes(list.filter((x) => x.noteNo && x.partyId));
   };
 
   const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
       await Promise.all([fetchParties(), fetchPayments(), fetchInvoices(), fetchNotes(), fetchBankAccounts(), fetchCashAccounts()]);
     } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
       console.error("Error fetching payments", error);
       toast({
         title: "Load failed",
@@ -553,11 +415,11 @@ export default function Payments() {
 
     const paymentMatchesInvoice = (
       payment: PaymentRecord,
-      invoiceId: string,
+      inv: InvoiceRecord,
       systemInvoiceNo: string,
       manualInvoiceNo?: string
     ): boolean => {
-      if (payment.invoiceId && invoiceId && payment.invoiceId === invoiceId) return true;
+      if (isLinkedPayment(payment, inv)) return true;
       const ref = norm(payment.reference);
       if (!ref) return false;
       const sys = norm(systemInvoiceNo);
@@ -605,7 +467,7 @@ export default function Payments() {
       const adjustedTotal = Math.max(0, baseTotal + noteAdjust.debit - noteAdjust.credit);
 
       const paidRaw = relevantPayments
-        .filter((p) => paymentMatchesInvoice(p, inv.id, systemInvoiceNo, manualInvoiceNo))
+        .filter((p) => paymentMatchesInvoice(p, inv, systemInvoiceNo, manualInvoiceNo))
         .reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
       const paid = Math.min(adjustedTotal, Math.max(0, paidRaw));
 
@@ -706,7 +568,9 @@ export default function Payments() {
             <div className="text-[11px] text-muted-foreground">
               {now.toLocaleString("en-IN")}
             </div>
-            <div className="text-lg font-bold uppercase">Sentiment Pharma</div>
+            <div className="text-lg font-bold uppercase">{company.name}</div>
+            {company.address && <div className="text-[11px] whitespace-pre-line">{company.address}</div>}
+            {company.gstin && <div className="text-[11px]">GSTIN: {company.gstin}</div>}
           </div>
           <div className="text-right">
             <div className="text-[11px] font-semibold">Statement - {summary.name}</div>
@@ -772,6 +636,8 @@ export default function Payments() {
           </div>
         </div>
 
+        {activePartyType === "customer" && <CompanyBankDetailsBlock company={company} className="mt-3" />}
+
         <div className="mt-4 text-[10px] text-muted-foreground text-center">
           Generated on {now.toLocaleString("en-IN")}
         </div>
@@ -780,6 +646,10 @@ export default function Payments() {
   };
 
   const openEdit = (row: PaymentRecord) => {
+    if (!can("editPayments")) {
+      toast({ title: "Not allowed", description: "Your role can't edit payments.", variant: "destructive" });
+      return;
+    }
     setEditing(row);
     setFormData({
       date: row.date,
@@ -787,7 +657,7 @@ export default function Payments() {
       partyType: row.partyType,
       partyId: row.partyId || "",
       partyName: row.partyName || "",
-      invoiceId: row.invoiceId || "",
+      invoiceId: invoices.find((x) => isLinkedPayment(row, x))?.id ?? (row.invoiceId || ""),
       amount: (row.amount ?? 0).toString(),
       method: row.method === "Bank" ? "Bank Transfer" : row.method,
       reference: row.reference,
@@ -800,25 +670,24 @@ export default function Payments() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!db) return;
+    if (!can("deleteRecords")) {
+      toast({ title: "Not allowed", description: "Your role can't delete payments.", variant: "destructive" });
+      return;
+    }
     if (!confirm("Delete this payment?")) return;
 
     const existing = payments.find((p) => p.id === id);
 
     try {
-      if (existing?.accountingTxId) {
-        await deleteDoc(doc(db, "transactions", existing.accountingTxId));
-      }
-      if (existing?.bankChargeTxId) {
-        await deleteDoc(doc(db, "transactions", existing.bankChargeTxId));
-      }
-      if (existing?.acctAccountingTxId) {
-        await deleteDoc(doc(db, "accountingTransactions", existing.acctAccountingTxId));
-      }
-      if (existing?.acctBankChargeTxId) {
-        await deleteDoc(doc(db, "accountingTransactions", existing.acctBankChargeTxId));
-      }
-      await deleteDoc(doc(db, "payments", id));
+      await runRecordTransaction(async (tx) => {
+        await tx.get("payments", id);
+        if (existing?.accountingTxId) tx.delete("transactions", existing.accountingTxId);
+        if (existing?.bankChargeTxId) tx.delete("transactions", existing.bankChargeTxId);
+        if (existing?.acctAccountingTxId) tx.delete("accountingTransactions", existing.acctAccountingTxId);
+        if (existing?.acctBankChargeTxId) tx.delete("accountingTransactions", existing.acctBankChargeTxId);
+        tx.delete("payments", id);
+        removeJournal(tx, "payment", id);
+      });
       toast({ title: "Deleted", description: "Payment removed." });
       fetchPayments();
     } catch (error) {
@@ -834,15 +703,6 @@ export default function Payments() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     const amount = safeNumber(formData.amount);
     if (amount <= 0) {
       toast({ title: "Validation error", description: "Amount must be greater than zero.", variant: "destructive" });
@@ -892,7 +752,6 @@ export default function Payments() {
       bankTransferCharge: isBankTransfer ? bankTransferCharge : 0,
       notes: formData.notes.trim(),
       status: formData.status,
-      updatedAt: Timestamp.now(),
     };
 
     const needsBankTx =
@@ -907,306 +766,89 @@ export default function Payments() {
 
     const needsBankChargeTx = needsBankTx && (payload.bankTransferCharge || 0) > 0;
 
-    setIsSubmitting(true);
-    try {
-      const batch = writeBatch(db);
-      const now = Timestamp.now();
-
-      if (editing) {
-        const paymentRef = doc(db, "payments", editing.id);
-
-        let nextAccountingTxId = editing.accountingTxId || "";
-        let nextBankChargeTxId = editing.bankChargeTxId || "";
-        let nextAcctAccountingTxId = editing.acctAccountingTxId || "";
-        let nextAcctBankChargeTxId = editing.acctBankChargeTxId || "";
-
-        if (needsBankTx) {
-          if (!nextAccountingTxId) {
-            const txRef = doc(collection(db, "transactions"));
-            nextAccountingTxId = txRef.id;
-            batch.set(txRef, {
-              date: payload.date,
-              description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-              category: "Payments",
-              type: payload.direction === "In" ? "Income" : "Expense",
-              amount: payload.amount,
-              paymentMethod: payload.method,
-              bankAccountId: payload.bankAccountId,
-              bankAccountName: payload.bankAccountName,
-              receiver: payload.partyName || "",
-              reference: payload.reference || "",
-              createdAt: now,
-              updatedAt: now,
-            });
-          } else {
-            batch.update(doc(db, "transactions", nextAccountingTxId), {
-              date: payload.date,
-              description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-              category: "Payments",
-              type: payload.direction === "In" ? "Income" : "Expense",
-              amount: payload.amount,
-              paymentMethod: payload.method,
-              bankAccountId: payload.bankAccountId,
-              bankAccountName: payload.bankAccountName,
-              receiver: payload.partyName || "",
-              reference: payload.reference || "",
-              updatedAt: now,
-            });
-          }
-
-          // Handle accountingTransactions collection entry
-          if (!nextAcctAccountingTxId) {
-            const acctTxRef = doc(collection(db, "accountingTransactions"));
-            nextAcctAccountingTxId = acctTxRef.id;
-            batch.set(acctTxRef, {
-              date: payload.date,
-              description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-              type: payload.direction === "In" ? "Deposit" : "Withdrawal",
-              amount: payload.amount,
-              accountId: payload.bankAccountId,
-              accountName: payload.bankAccountName,
-              reference: payload.reference || "",
-              status: "Completed",
-              createdAt: now,
-            });
-          } else {
-            batch.update(doc(db, "accountingTransactions", nextAcctAccountingTxId), {
-              date: payload.date,
-              description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-              type: payload.direction === "In" ? "Deposit" : "Withdrawal",
-              amount: payload.amount,
-              accountId: payload.bankAccountId,
-              accountName: payload.bankAccountName,
-              reference: payload.reference || "",
-              status: "Completed",
-            });
-          }
-        } else if (nextAccountingTxId) {
-          batch.delete(doc(db, "transactions", nextAccountingTxId));
-          nextAccountingTxId = "";
-          if (nextAcctAccountingTxId) {
-            batch.delete(doc(db, "accountingTransactions", nextAcctAccountingTxId));
-            nextAcctAccountingTxId = "";
-          }
-        }
-
-        if (needsCashTx) {
-          // Handle accountingTransactions collection entry for cash book tracking
-          if (!nextAcctAccountingTxId) {
-            const acctCashTxRef = doc(collection(db, "accountingTransactions"));
-            nextAcctAccountingTxId = acctCashTxRef.id;
-            batch.set(acctCashTxRef, {
-              date: payload.date,
-              description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-              type: payload.direction === "In" ? "Deposit" : "Withdrawal",
-              amount: payload.amount,
-              accountId: payload.cashAccountId,
-              accountName: payload.cashAccountName,
-              reference: payload.reference || "",
-              status: "Completed",
-              createdAt: now,
-            });
-          } else {
-            batch.update(doc(db, "accountingTransactions", nextAcctAccountingTxId), {
-              date: payload.date,
-              description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-              type: payload.direction === "In" ? "Deposit" : "Withdrawal",
-              amount: payload.amount,
-              accountId: payload.cashAccountId,
-              accountName: payload.cashAccountName,
-              reference: payload.reference || "",
-              status: "Completed",
-            });
-          }
-        } else if (!needsBankTx && nextAcctAccountingTxId) {
-          batch.delete(doc(db, "accountingTransactions", nextAcctAccountingTxId));
-          nextAcctAccountingTxId = "";
-        }
-
-        if (needsBankChargeTx) {
-          if (!nextBankChargeTxId) {
-            const chargeRef = doc(collection(db, "transactions"));
-            nextBankChargeTxId = chargeRef.id;
-            batch.set(chargeRef, {
-              date: payload.date,
-              description: `Bank charges - ${payload.partyName || ""}`,
-              category: "Bank Charges",
-              type: "Expense",
-              amount: payload.bankTransferCharge || 0,
-              paymentMethod: payload.method,
-              bankAccountId: payload.bankAccountId,
-              bankAccountName: payload.bankAccountName,
-              receiver: payload.partyName || "",
-              reference: payload.reference || "",
-              createdAt: now,
-              updatedAt: now,
-            });
-          } else {
-            batch.update(doc(db, "transactions", nextBankChargeTxId), {
-              date: payload.date,
-              description: `Bank charges - ${payload.partyName || ""}`,
-              category: "Bank Charges",
-              type: "Expense",
-              amount: payload.bankTransferCharge || 0,
-              paymentMethod: payload.method,
-              bankAccountId: payload.bankAccountId,
-              bankAccountName: payload.bankAccountName,
-              receiver: payload.partyName || "",
-              reference: payload.reference || "",
-              updatedAt: now,
-            });
-          }
-
-          // Handle accountingTransactions collection entry for bank charges
-          if (!nextAcctBankChargeTxId) {
-            const acctChargeRef = doc(collection(db, "accountingTransactions"));
-            nextAcctBankChargeTxId = acctChargeRef.id;
-            batch.set(acctChargeRef, {
-              date: payload.date,
-              description: `Bank charges - ${payload.partyName || ""}`,
-              type: "Withdrawal",
-              amount: payload.bankTransferCharge || 0,
-              accountId: payload.bankAccountId,
-              accountName: payload.bankAccountName,
-              reference: payload.reference || "",
-              status: "Completed",
-              createdAt: now,
-            });
-          } else {
-            batch.update(doc(db, "accountingTransactions", nextAcctBankChargeTxId), {
-              date: payload.date,
-              description: `Bank charges - ${payload.partyName || ""}`,
-              type: "Withdrawal",
-              amount: payload.bankTransferCharge || 0,
-              accountId: payload.bankAccountId,
-              accountName: payload.bankAccountName,
-              reference: payload.reference || "",
-              status: "Completed",
-            });
-          }
-        } else if (nextBankChargeTxId) {
-          batch.delete(doc(db, "transactions", nextBankChargeTxId));
-          nextBankChargeTxId = "";
-          if (nextAcctBankChargeTxId) {
-            batch.delete(doc(db, "accountingTransactions", nextAcctBankChargeTxId));
-            nextAcctBankChargeTxId = "";
-          }
+    // Bank/cash book rows mirrored from the payment; the payment keeps their ids so edits
+    // update them in place and deletes remove them.
+    const description = `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`;
+    const chargeDescription = `Bank charges - ${payload.partyName || ""}`;
+
+    const bankTx = needsBankTx
+      ? {
+          date: payload.date,
+          description,
+          category: "Payments",
+          type: payload.direction === "In" ? ("Income" as const) : ("Expense" as const),
+          amount: payload.amount,
+          paymentMethod: payload.method,
+          bankAccountId: payload.bankAccountId,
+          bankAccountName: payload.bankAccountName,
+          receiver: payload.partyName || "",
+          reference: payload.reference || "",
         }
+      : null;
 
-        batch.update(paymentRef, {
-          ...payload,
-          accountingTxId: nextAccountingTxId,
-          bankChargeTxId: nextBankChargeTxId,
-          acctAccountingTxId: nextAcctAccountingTxId,
-          acctBankChargeTxId: nextAcctBankChargeTxId,
-        });
-
-        await batch.commit();
-        toast({ title: "Updated", description: "Payment updated." });
-      } else {
-        const paymentRef = doc(collection(db, "payments"));
-        let accountingTxId = "";
-        let bankChargeTxId = "";
-        let acctAccountingTxId = "";
-        let acctBankChargeTxId = "";
-
-        if (needsBankTx) {
-          const txRef = doc(collection(db, "transactions"));
-          accountingTxId = txRef.id;
-          batch.set(txRef, {
+    const bookTx =
+      needsBankTx || needsCashTx
+        ? {
             date: payload.date,
-            description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-            category: "Payments",
-            type: payload.direction === "In" ? "Income" : "Expense",
+            description,
+            type: payload.direction === "In" ? ("Deposit" as const) : ("Withdrawal" as const),
             amount: payload.amount,
-            paymentMethod: payload.method,
-            bankAccountId: payload.bankAccountId,
-            bankAccountName: payload.bankAccountName,
-            receiver: payload.partyName || "",
+            accountId: needsBankTx ? payload.bankAccountId : payload.cashAccountId,
+            accountName: needsBankTx ? payload.bankAccountName : payload.cashAccountName,
             reference: payload.reference || "",
-            createdAt: now,
-            updatedAt: now,
-          });
-
-          // Also create entry in accountingTransactions for bank book tracking
-          const acctTxRef = doc(collection(db, "accountingTransactions"));
-          acctAccountingTxId = acctTxRef.id;
-          batch.set(acctTxRef, {
-            date: payload.date,
-            description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-            type: payload.direction === "In" ? "Deposit" : "Withdrawal",
-            amount: payload.amount,
-            accountId: payload.bankAccountId,
-            accountName: payload.bankAccountName,
-            reference: payload.reference || "",
-            status: "Completed",
-            createdAt: now,
-          });
+            status: "Completed" as const,
+          }
+        : null;
+
+    const chargeTx = needsBankChargeTx
+      ? {
+          date: payload.date,
+          description: chargeDescription,
+          category: "Bank Charges",
+          type: "Expense" as const,
+          amount: payload.bankTransferCharge || 0,
+          paymentMethod: payload.method,
+          bankAccountId: payload.bankAccountId,
+          bankAccountName: payload.bankAccountName,
+          receiver: payload.partyName || "",
+          reference: payload.reference || "",
         }
-
-        if (needsCashTx) {
-          // Create entry in accountingTransactions for cash book tracking
-          const acctCashTxRef = doc(collection(db, "accountingTransactions"));
-          acctAccountingTxId = acctCashTxRef.id;
-          batch.set(acctCashTxRef, {
-            date: payload.date,
-            description: `Payment ${payload.direction === "In" ? "Received" : "Paid"} - ${payload.partyName || ""}`,
-            type: payload.direction === "In" ? "Deposit" : "Withdrawal",
-            amount: payload.amount,
-            accountId: payload.cashAccountId,
-            accountName: payload.cashAccountName,
-            reference: payload.reference || "",
-            status: "Completed",
-            createdAt: now,
-          });
+      : null;
+
+    const chargeBookTx = needsBankChargeTx
+      ? {
+          date: payload.date,
+          description: chargeDescription,
+          type: "Withdrawal" as const,
+          amount: payload.bankTransferCharge || 0,
+          accountId: payload.bankAccountId,
+          accountName: payload.bankAccountName,
+          reference: payload.reference || "",
+          status: "Completed" as const,
         }
+      : null;
 
-        if (needsBankChargeTx) {
-          const chargeRef = doc(collection(db, "transactions"));
-          bankChargeTxId = chargeRef.id;
-          batch.set(chargeRef, {
-            date: payload.date,
-            description: `Bank charges - ${payload.partyName || ""}`,
-            category: "Bank Charges",
-            type: "Expense",
-            amount: payload.bankTransferCharge || 0,
-            paymentMethod: payload.method,
-            bankAccountId: payload.bankAccountId,
-            bankAccountName: payload.bankAccountName,
-            receiver: payload.partyName || "",
-            reference: payload.reference || "",
-            createdAt: now,
-            updatedAt: now,
-          });
-
-          // Also create entry in accountingTransactions for bank book tracking
-          const acctChargeRef = doc(collection(db, "accountingTransactions"));
-          acctBankChargeTxId = acctChargeRef.id;
-          batch.set(acctChargeRef, {
-            date: payload.date,
-            description: `Bank charges - ${payload.partyName || ""}`,
-            type: "Withdrawal",
-            amount: payload.bankTransferCharge || 0,
-            accountId: payload.bankAccountId,
-            accountName: payload.bankAccountName,
-            reference: payload.reference || "",
-            status: "Completed",
-            createdAt: now,
-          });
+    setIsSubmitting(true);
+    try {
+      await runRecordTransaction(async (tx) => {
+        if (editing) await tx.get("payments", editing.id);
+        const linked = {
+          accountingTxId: syncLinkedRow(tx, "transactions", editing?.accountingTxId, bankTx),
+          acctAccountingTxId: syncLinkedRow(tx, "accountingTransactions", editing?.acctAccountingTxId, bookTx),
+          bankChargeTxId: syncLinkedRow(tx, "transactions", editing?.bankChargeTxId, chargeTx),
+          acctBankChargeTxId: syncLinkedRow(tx, "accountingTransactions", editing?.acctBankChargeTxId, chargeBookTx),
+        };
+
+        let paymentId = editing?.id;
+        if (paymentId) {
+          tx.update("payments", paymentId, { ...payload, ...linked });
+        } else {
+          paymentId = tx.create("payments", { ...payload, ...linked });
         }
+        postJournal(tx, "payment", paymentId, paymentJournal({ ...payload, ...linked, id: paymentId }));
+      });
 
-        batch.set(paymentRef, {
-          ...payload,
-          accountingTxId,
-          bankChargeTxId,
-          acctAccountingTxId,
-          acctBankChargeTxId,
-          createdAt: now,
-        });
-
-        await batch.commit();
-        toast({ title: "Saved", description: "Payment saved to Firestore." });
-      }
+      toast(editing ? { title: "Updated", description: "Payment updated." } : { title: "Saved", description: "Payment saved." });
 
       setIsDialogOpen(false);
       resetForm();
@@ -1554,7 +1196,7 @@ export default function Payments() {
                                 if (payment.status !== "Completed") return false;
 
                                 // Match by invoice ID or reference
-                                if (payment.invoiceId && payment.invoiceId === r.invoiceId) return true;
+                                if (isLinkedPayment(payment, inv)) return true;
                                 const ref = norm(payment.reference);
                                 if (!ref) return false;
                                 const sys = norm(systemInvoiceNo);
@@ -1819,7 +1461,7 @@ export default function Payments() {
                         if (p.partyType !== formData.partyType || p.partyId !== formData.partyId) return false;
                         
                         // Match by invoice ID or reference
-                        if (p.invoiceId && p.invoiceId === inv.id) return true;
+                        if (isLinkedPayment(p, inv)) return true;
                         const ref = norm(p.reference);
                         if (!ref) return false;
                         const sys = norm(systemInvoiceNo);
@@ -1884,7 +1526,7 @@ export default function Payments() {
                           if (p.partyType !== formData.partyType || p.partyId !== formData.partyId) return false;
                           
                           // Match by invoice ID or reference
-                          if (p.invoiceId && p.invoiceId === inv.id) return true;
+                          if (isLinkedPayment(p, inv)) return true;
                           const ref = norm(p.reference);
                           if (!ref) return false;
                           const sys = norm(systemInvoiceNo);
@@ -1996,6 +1638,8 @@ export default function Payments() {
               <Textarea id="notes" value={formData.notes} onChange={(e) => setFormData((s) => ({ ...s, notes: e.target.value }))} placeholder="Optional notes" />
             </div>
 
+            {editing && <RecordHistory collection="payments" recordId={editing.id} />}
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => {
                 setIsDialogOpen(false);
@@ -3,6 +3,7 @@ import { AppHeader } from "@/components/layout/AppHeader";
 import { StatCard } from "@/components/cards/StatCard";
 import { DataTable } from "@/components/tables/DataTable";
 import { ExportExcelButton } from "@/components/ExportExcelButton";
+import { StockCardDialog } from "@/components/inventory/StockCardDialog";
 import { 
   Boxes, 
   TrendingUp,
@@ -21,14 +22,16 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, addDoc, getDocs, Timestamp } from "firebase/firestore";
+import { listRecords, runRecordTransaction } from "@/lib/repository";
+import { recordMovement } from "@/lib/stock";
 
 interface ProcessedInventoryItem {
   id: string;
   name: string;
   category: string;
   quantity: string;
+  quarantineQuantity?: number;
+  reservedQuantity?: number;
   unit: string;
   location: string;
   reorderLevel: string;
@@ -47,6 +50,7 @@ export default function ProcessedInventory() {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [isAddItemOpen, setIsAddItemOpen] = useState(false);
+  const [stockCardItem, setStockCardItem] = useState<ProcessedInventoryItem | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     category: "",
@@ -60,28 +64,11 @@ export default function ProcessedInventory() {
   });
   const { toast } = useToast();
 
-  // Fetch processed inventory from Firebase
   const fetchProcessedInventory = async () => {
-    if (!db) {
-      console.warn("Firebase not initialized");
-      setLoading(false);
-      return;
-    }
     try {
       setLoading(true);
-      console.log("Fetching processed inventory from Firebase...");
-      const inventoryRef = collection(db, "processedInventory");
-      const snapshot = await getDocs(inventoryRef);
-      const items = snapshot.docs.map((doc) => {
-        const data = doc.data();
-        console.log("Fetched document:", doc.id, data);
-        return {
-          id: doc.id,
-          ...data,
-        };
-      }) as ProcessedInventoryItem[];
-      console.log("Total items fetched:", items.length);
-      setProcessedInventoryData(items);
+      const items = await listRecords("processedInventory");
+      setProcessedInventoryData(items as unknown as ProcessedInventoryItem[]);
     } catch (error) {
       console.error("Error fetching inventory:", error);
       toast({
@@ -138,28 +125,31 @@ export default function ProcessedInventory() {
     }
 
     setLoading(true);
-    console.log("Adding new item to Firebase...", formData);
-    
+
     try {
-      const inventoryRef = collection(db, "processedInventory");
+      const lastUpdated = new Date().toISOString().split('T')[0];
       const itemData = {
         name: formData.name,
         category: formData.category,
-        quantity: formData.quantity,
+        quantity: parseFloat(formData.quantity) || 0,
         unit: formData.unit,
         location: formData.location,
-        reorderLevel: formData.reorderLevel || `${Math.floor(parseInt(formData.quantity) * 0.2)} ${formData.unit}`,
+        reorderLevel: parseFloat(formData.reorderLevel) || Math.floor(parseFloat(formData.quantity) * 0.2),
         status: formData.status,
         batchNo: formData.batchNo,
         processedDate: formData.processedDate,
-        lastUpdated: new Date().toISOString().split('T')[0],
-        createdAt: Timestamp.now(),
+        lastUpdated,
       };
-      
-      console.log("Item data to save:", itemData);
-      const docRef = await addDoc(inventoryRef, itemData);
-      console.log("Document added with ID:", docRef.id);
-      
+
+      await runRecordTransaction(async (tx) => {
+        const id = tx.create("processedInventory", itemData);
+        recordMovement(tx, "processed", { ...itemData, id }, itemData.quantity, itemData.quantity, {
+          date: formData.processedDate || lastUpdated,
+          movementType: "opening",
+          reference: formData.batchNo,
+        });
+      });
+
       toast({
         title: "Success",
         description: "Item added successfully to inventory",
@@ -179,7 +169,6 @@ export default function ProcessedInventory() {
       });
       
       // Refresh the inventory list
-      console.log("Refreshing inventory list...");
       await fetchProcessedInventory();
     } catch (error) {
       console.error("Error adding item:", error);
@@ -207,7 +196,17 @@ export default function ProcessedInventory() {
     { 
       key: "quantity" as keyof ProcessedInventoryItem, 
       header: "Quantity",
-      render: (item: ProcessedInventoryItem) => `${item.quantity} ${item.unit}`
+      render: (item: ProcessedInventoryItem) => (
+        <div>
+          <div>{`${item.quantity} ${item.unit}`}</div>
+          {item.quarantineQuantity > 0 && (
+            <div className="text-xs text-warning">{item.quarantineQuantity} in QC quarantine</div>
+          )}
+          {item.reservedQuantity > 0 && (
+            <div className="text-xs text-muted-foreground">{item.reservedQuantity} reserved for sales orders</div>
+          )}
+        </div>
+      )
     },
     { key: "location" as keyof ProcessedInventoryItem, header: "Location" },
     { key: "processedDate" as keyof ProcessedInventoryItem, header: "Processed Date" },
@@ -357,7 +356,9 @@ export default function ProcessedInventory() {
               data={filteredData}
               columns={inventoryColumns}
               keyField="id"
+              onRowClick={(item) => setStockCardItem(item)}
             />
+            <p className="text-xs text-muted-foreground mt-3">Click an item to open its stock card.</p>
           </div>
         </div>
 
@@ -506,6 +507,13 @@ export default function ProcessedInventory() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <StockCardDialog
+        itemType="processed"
+        item={stockCardItem}
+        onOpenChange={(open) => !open && setStockCardItem(null)}
+        onAdjusted={fetchProcessedInventory}
+      />
     </>
   );
 }
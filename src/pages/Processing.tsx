@@ -3,6 +3,7 @@ import { AppHeader } from "@/components/layout/AppHeader";
 import { StatCard } from "@/components/cards/StatCard";
 import { DataTable } from "@/components/tables/DataTable";
 import { ExportExcelButton } from "@/components/ExportExcelButton";
+import { RecordHistory } from "@/components/audit/RecordHistory";
 import { 
   FlaskConical, 
   Package, 
@@ -21,9 +22,13 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AutocompleteInput } from "@/components/ui/autocomplete-input";
-import { db } from "@/lib/firebase";
-import { collection, addDoc, getDocs, Timestamp, query, orderBy, limit, updateDoc, doc, setDoc, deleteDoc, where } from "firebase/firestore";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { allocateFefo, type LotAllocation } from "@/lib/lots";
+import { recipeInputTotal, scaleRecipe } from "@/lib/recipes";
+import { BatchStateError, createBatch, deleteBatch, InsufficientStockError, updateBatchStatus } from "@/lib/production";
+import { deleteRecord, listRecords, putRecord } from "@/lib/repository";
+import type { BatchItem, BatchRecord, RawInventoryRecord, RawLotRecord, RecipeRecord } from "@/lib/schemas";
 
 interface RawMaterial {
   id: string;
@@ -45,40 +50,45 @@ interface ProcessedMaterial {
   yield: string;
 }
 
-interface RawInventoryItem {
-  id: string;
-  name: string;
-  quantity: string;
-  unit: string;
-  category: string;
-  location: string;
-  supplier: string;
-}
+type RawInventoryItem = RawInventoryRecord;
+type Batch = BatchRecord;
 
-interface BatchItem {
-  rawItemId: string;
-  rawItemName: string;
-  currentQuantity: number;
-  unit: string;
-  useQuantity: number;
-}
+const rawMaterialsData: RawMaterial[] = [];
 
-interface Batch {
-  id: string;
-  batchNo: string;
-  manualBatchNo?: string;
-  items: BatchItem[];
-  createdAt: Date;
-  status: string;
+function batchErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof InsufficientStockError || error instanceof BatchStateError ? error.message : fallback;
 }
 
-const rawMaterialsData: RawMaterial[] = [];
-
 const processedMaterialsData: ProcessedMaterial[] = [];
 
+function LotSuggestion({ allocation, unit }: { allocation: LotAllocation | null; unit: string }) {
+  if (!allocation) return null;
+  const parts = [
+    ...(allocation.untracked > 0 ? [`${allocation.untracked} ${unit} untracked stock`] : []),
+    ...allocation.lots.map((lot) => `${lot.lotNo} (${lot.quantity} ${unit}, exp ${lot.expiryDate || "n/a"})`),
+  ];
+  return (
+    <div className="col-span-3 text-xs text-muted-foreground space-y-1">
+      <p>
+        <span className="font-medium text-foreground">Use lots (FEFO): </span>
+        {parts.join(", ") || "none"}
+      </p>
+      {allocation.shortfall > 0 && (
+        <p className="text-destructive">
+          {allocation.shortfall} {unit} short; expired lots can't be used.
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default function Processing() {
   const [isAddRecipeOpen, setIsAddRecipeOpen] = useState(false);
   const [rawInventory, setRawInventory] = useState<RawInventoryItem[]>([]);
+  const [rawLots, setRawLots] = useState<RawLotRecord[]>([]);
+  const [recipes, setRecipes] = useState<RecipeRecord[]>([]);
+  const [recipeId, setRecipeId] = useState("");
+  const [targetOutput, setTargetOutput] = useState("");
   const [batches, setBatches] = useState<Batch[]>([]);
   const [batchItems, setBatchItems] = useState<BatchItem[]>([
     { rawItemId: "", rawItemName: "", currentQuantity: 0, unit: "", useQuantity: 0 }
@@ -99,6 +109,7 @@ export default function Processing() {
   const [itemNameSuggestions, setItemNameSuggestions] = useState<string[]>([]);
   const [processedInventoryNames, setProcessedInventoryNames] = useState<string[]>([]);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const exportRows = batches.map((b) => ({
     "Batch No": b.batchNo,
@@ -110,48 +121,37 @@ export default function Processing() {
   }));
 
   const fetchRawInventory = async () => {
-    if (!db) {
-      console.warn("Firebase not initialized");
-      return;
-    }
     try {
-      const inventoryRef = collection(db, "rawInventory");
-      const snapshot = await getDocs(inventoryRef);
-      const items = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as RawInventoryItem[];
-      setRawInventory(items);
+      const [inventory, lots] = await Promise.all([listRecords("rawInventory"), listRecords("rawLots")]);
+      setRawInventory(inventory);
+      setRawLots(lots.filter((lot) => lot.quantityRemaining > 0));
     } catch (error) {
       console.error("Error fetching inventory:", error);
     }
   };
 
-  const fetchItemNameSuggestions = async () => {
-    if (!db) {
-      console.warn("Firebase not initialized");
-      return;
+  const fetchRecipes = async () => {
+    try {
+      const list = await listRecords("recipes");
+      setRecipes(list.sort((a, b) => a.productName.localeCompare(b.productName)));
+    } catch (error) {
+      console.error("Error fetching recipes:", error);
     }
+  };
+
+  const fetchItemNameSuggestions = async () => {
     try {
-      const suggestionsRef = collection(db, "itemNameSuggestions");
-      const snapshot = await getDocs(suggestionsRef);
-      const suggestions = snapshot.docs.map((doc) => doc.data().name as string);
-      setItemNameSuggestions(suggestions);
+      const suggestions = await listRecords("itemNameSuggestions");
+      setItemNameSuggestions(suggestions.map((s) => s.name));
     } catch (error) {
       console.error("Error fetching suggestions:", error);
     }
   };
 
   const fetchProcessedInventoryNames = async () => {
-    if (!db) {
-      console.warn("Firebase not initialized");
-      return;
-    }
     try {
-      const processedRef = collection(db, "processedInventory");
-      const snapshot = await getDocs(processedRef);
       // Extract unique material names from processed inventory
-      const names = snapshot.docs.map((doc) => doc.data().name as string);
+      const names = (await listRecords("processedInventory")).map((item) => item.name);
       const uniqueNames = Array.from(new Set(names)); // Remove duplicates
       setProcessedInventoryNames(uniqueNames);
     } catch (error) {
@@ -160,8 +160,6 @@ export default function Processing() {
   };
 
   const addItemNameSuggestion = async (name: string) => {
-    if (!db) return;
-    
     try {
       // Check if already exists
       if (itemNameSuggestions.includes(name)) {
@@ -173,11 +171,7 @@ export default function Processing() {
       }
 
       // Use the name as the document ID to prevent duplicates
-      const suggestionDocRef = doc(db, "itemNameSuggestions", name);
-      await setDoc(suggestionDocRef, {
-        name,
-        createdAt: Timestamp.now(),
-      });
+      await putRecord("itemNameSuggestions", name, { name });
 
       setItemNameSuggestions([...itemNameSuggestions, name]);
       toast({
@@ -195,11 +189,8 @@ export default function Processing() {
   };
 
   const removeItemNameSuggestion = async (name: string) => {
-    if (!db) return;
-    
     try {
-      const suggestionDocRef = doc(db, "itemNameSuggestions", name);
-      await deleteDoc(suggestionDocRef);
+      await deleteRecord("itemNameSuggestions", name);
 
       setItemNameSuggestions(itemNameSuggestions.filter(s => s !== name));
       toast({
@@ -217,19 +208,8 @@ export default function Processing() {
   };
 
   const fetchBatches = async () => {
-    if (!db) {
-      console.warn("Firebase not initialized");
-      return;
-    }
     try {
-      const batchesRef = collection(db, "batches");
-      const snapshot = await getDocs(batchesRef);
-      const batchData = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
-      })) as Batch[];
-      setBatches(batchData);
+      setBatches(await listRecords("batches"));
     } catch (error) {
       console.error("Error fetching batches:", error);
     }
@@ -241,31 +221,20 @@ export default function Processing() {
     const year = now.getFullYear().toString().slice(-2);
     const prefix = `BTC${month}${year}`;
     
-    if (!db) {
-      return `${prefix}001`;
-    }
-    
     try {
-      const batchesRef = collection(db, "batches");
-      const q = query(batchesRef, orderBy("createdAt", "desc"), limit(50));
-      const snapshot = await getDocs(q);
+      const recent = await listRecords("batches", { orderBy: "createdAt", direction: "desc", limit: 50, includeDeleted: true });
       
       let serialNumber = 1;
       
-      // Find the last batch with the same month and year prefix
-      if (!snapshot.empty) {
-        for (const doc of snapshot.docs) {
-          const batchData = doc.data();
-          const batchNo = batchData.batchNo as string;
-          
-          // Check if this batch is from the same month and year (e.g., BTCJAN26)
-          if (batchNo.startsWith(prefix)) {
-            // Extract the serial number (e.g., BTCJAN26001 -> 001)
-            const lastSerial = parseInt(batchNo.slice(prefix.length));
-            if (!isNaN(lastSerial)) {
-              serialNumber = lastSerial + 1;
-              break;
-            }
+      // Find the last batch with the same month and year prefix; binned batches keep their numbers
+      for (const { batchNo } of recent) {
+        // Check if this batch is from the same month and year (e.g., BTCJAN26)
+        if (batchNo.startsWith(prefix)) {
+          // Extract the serial number (e.g., BTCJAN26001 -> 001)
+          const lastSerial = parseInt(batchNo.slice(prefix.length));
+          if (!isNaN(lastSerial)) {
+            serialNumber = lastSerial + 1;
+            break;
           }
         }
       }
@@ -280,6 +249,7 @@ export default function Processing() {
 
   useEffect(() => {
     fetchRawInventory();
+    fetchRecipes();
     fetchBatches();
     fetchItemNameSuggestions();
     fetchProcessedInventoryNames();
@@ -298,15 +268,6 @@ export default function Processing() {
       return;
     }
 
-    if (!db) {
-      toast({
-        title: "Error",
-        description: "Database connection not available",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setLoading(true);
     
     try {
@@ -336,83 +297,24 @@ export default function Processing() {
         }
       }
 
-      // Save batch to Firebase
-      const batchesRef = collection(db, "batches");
-      await addDoc(batchesRef, {
+      // Stock is re-read and checked inside the transaction, not taken from the form
+      await createBatch({
         batchNo,
-        manualBatchNo: manualBatchNo.trim() || null,
+        manualBatchNo: manualBatchNo.trim() || undefined,
         items: validItems,
         status: batchStatus,
         batchDate,
-        createdAt: Timestamp.now(),
-        ...(batchStatus === "approved" ? { 
-          actualOutputQuantity: parseFloat(actualOutputQuantity),
-          producedItemName: producedItemName.trim() || `Finished Batch ${batchNo}`
-        } : {}),
+        recipeId: recipeId || undefined,
+        targetOutputQuantity: recipeId ? parseFloat(targetOutput) || undefined : undefined,
+        output:
+          batchStatus === "approved"
+            ? { producedItemName: producedItemName.trim(), actualOutputQuantity: parseFloat(actualOutputQuantity) }
+            : undefined,
       });
 
-      // Update raw inventory quantities
-      for (const item of validItems) {
-        const inventoryDocRef = doc(db, "rawInventory", item.rawItemId);
-        const currentItem = rawInventory.find(inv => inv.id === item.rawItemId);
-        if (currentItem) {
-          const newQuantity = parseFloat(currentItem.quantity) - item.useQuantity;
-          await updateDoc(inventoryDocRef, {
-            quantity: newQuantity.toString(),
-          });
-        }
-      }
-
-      // If status is approved, create finished goods in processed inventory
-      if (batchStatus === "approved") {
-        const processedInventoryRef = collection(db, "processedInventory");
-        
-        // Use actual output quantity instead of sum of inputs
-        const totalQuantity = parseFloat(actualOutputQuantity);
-        
-        const itemName = producedItemName.trim() || `Finished Batch ${batchNo}`;
-        
-        // Check if material with same name already exists
-        const existingQuery = query(processedInventoryRef, where("name", "==", itemName));
-        const existingSnapshot = await getDocs(existingQuery);
-        
-        if (!existingSnapshot.empty) {
-          // Material exists - update the quantity by adding to existing
-          const existingDoc = existingSnapshot.docs[0];
-          const existingData = existingDoc.data();
-          const existingQuantity = parseFloat(existingData.quantity) || 0;
-          const newTotalQuantity = existingQuantity + totalQuantity;
-          
-          await updateDoc(doc(db, "processedInventory", existingDoc.id), {
-            quantity: newTotalQuantity.toString(),
-            lastUpdated: new Date().toISOString().split('T')[0],
-          });
-          
-          console.log(`Updated existing product - ID: ${existingData.productId || existingDoc.id}, Name: ${itemName}, New Total: ${newTotalQuantity}kg`);
-        } else {
-          // Material doesn't exist - create new entry with unique product ID
-          const productId = `PROD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-          
-          await addDoc(processedInventoryRef, {
-            productId,
-            name: itemName,
-            batchNo,
-            quantity: totalQuantity.toString(),
-            unit: validItems[0]?.unit || "kg",
-            category: "Finished Goods",
-            location: "Production",
-            status: "In Stock",
-            processDate: batchDate,
-            createdAt: Timestamp.now(),
-          });
-          
-          console.log(`Created new product - ID: ${productId}, Name: ${itemName}, Quantity: ${totalQuantity}kg`);
-        }
-
-        // Automatically add to suggestions if not already there
-        if (producedItemName.trim() && !itemNameSuggestions.includes(producedItemName.trim())) {
-          await addItemNameSuggestion(producedItemName.trim());
-        }
+      // Automatically add to suggestions if not already there
+      if (batchStatus === "approved" && producedItemName.trim() && !itemNameSuggestions.includes(producedItemName.trim())) {
+        await addItemNameSuggestion(producedItemName.trim());
       }
 
       toast({
@@ -425,6 +327,8 @@ export default function Processing() {
       setManualBatchNo("");
       setProducedItemName("");
       setActualOutputQuantity("");
+      setRecipeId("");
+      setTargetOutput("");
       setBatchDate(new Date().toISOString().split('T')[0]);
       setBatchStatus("in process");
       setIsAddRecipeOpen(false);
@@ -437,14 +341,39 @@ export default function Processing() {
       console.error("Error saving batch:", error);
       toast({
         title: "Error",
-        description: "Failed to create batch",
+        description: batchErrorMessage(error, "Failed to create batch"),
         variant: "destructive",
       });
+      await fetchRawInventory();
     } finally {
       setLoading(false);
     }
   };
 
+  // Mirrors what createBatch will consume, so the lots can be picked off the shelf in advance
+  const suggestLots = (item: BatchItem) => {
+    const stock = rawInventory.find((inv) => inv.id === item.rawItemId);
+    if (!stock || !(item.useQuantity > 0)) return null;
+    return allocateFefo(stock, rawLots.filter((lot) => lot.rawItemId === item.rawItemId), item.useQuantity, batchDate);
+  };
+
+  const selectedRecipe = recipes.find((r) => r.id === recipeId);
+
+  const handleApplyRecipe = () => {
+    const output = parseFloat(targetOutput);
+    if (!selectedRecipe || !(output > 0)) {
+      toast({
+        title: "Error",
+        description: "Select a recipe and enter the target output quantity",
+        variant: "destructive",
+      });
+      return;
+    }
+    setBatchItems(scaleRecipe(selectedRecipe, output, rawInventory));
+    setProducedItemName(selectedRecipe.productName);
+    setActualOutputQuantity("");
+  };
+
   const handleAddBatchItem = () => {
     setBatchItems([...batchItems, { rawItemId: "", rawItemName: "", currentQuantity: 0, unit: "", useQuantity: 0 }]);
   };
@@ -466,7 +395,7 @@ export default function Processing() {
           ...newItems[index],
           rawItemId: selectedItem.id,
           rawItemName: selectedItem.name,
-          currentQuantity: parseFloat(selectedItem.quantity) || 0,
+          currentQuantity: selectedItem.quantity,
           unit: selectedItem.unit,
           useQuantity: 0
         };
@@ -504,7 +433,7 @@ export default function Processing() {
   };
 
   const handleUpdateStatus = async () => {
-    if (!editingBatch || !db) return;
+    if (!editingBatch) return;
 
     setLoading(true);
     try {
@@ -534,65 +463,21 @@ export default function Processing() {
         }
       }
 
-      const batchDocRef = doc(db, "batches", editingBatch.id);
-      await updateDoc(batchDocRef, {
-        status: newStatus,
-        ...(newStatus === "approved" && editingBatch.status !== "approved" 
-          ? { 
-              actualOutputQuantity: parseFloat(actualOutputQuantity),
-              producedItemName: approvedProducedName.trim() || `Finished Batch ${editingBatch.batchNo}`
-            } 
-          : {}),
-      });
-
-      // If status changed to approved, create/update finished goods in processed inventory
-      if (newStatus === "approved" && editingBatch.status !== "approved") {
-        const processedInventoryRef = collection(db, "processedInventory");
-        const totalQuantity = parseFloat(actualOutputQuantity);
-        const itemName = approvedProducedName.trim() || `Finished Batch ${editingBatch.batchNo}`;
-
-        // Check if material with same name already exists
-        const existingQuery = query(processedInventoryRef, where("name", "==", itemName));
-        const existingSnapshot = await getDocs(existingQuery);
-        
-        if (!existingSnapshot.empty) {
-          // Material exists - update the quantity by adding to existing
-          const existingDoc = existingSnapshot.docs[0];
-          const existingData = existingDoc.data();
-          const existingQuantity = parseFloat(existingData.quantity) || 0;
-          const newTotalQuantity = existingQuantity + totalQuantity;
-          
-          await updateDoc(doc(db, "processedInventory", existingDoc.id), {
-            quantity: newTotalQuantity.toString(),
-            lastUpdated: new Date().toISOString().split('T')[0],
-          });
-          
-          console.log(`Updated existing product - ID: ${existingData.productId || existingDoc.id}, Name: ${itemName}, New Total: ${newTotalQuantity}kg`);
-        } else {
-          // Material doesn't exist - create new entry with unique product ID
-          const productId = `PROD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-          
-          await addDoc(processedInventoryRef, {
-            productId,
-            name: itemName,
-            batchNo: editingBatch.batchNo,
-            quantity: totalQuantity.toString(),
-            unit: editingBatch.items[0]?.unit || "kg",
-            category: "Finished Goods",
-            location: "Production",
-            status: "In Stock",
-            processDate: new Date().toISOString().split('T')[0],
-            createdAt: Timestamp.now(),
-          });
-          
-          console.log(`Created new product - ID: ${productId}, Name: ${itemName}, Quantity: ${totalQuantity}kg`);
-        }
+      const approving = newStatus === "approved" && editingBatch.status !== "approved";
+      await updateBatchStatus(
+        editingBatch.id,
+        newStatus,
+        approving
+          ? { producedItemName: approvedProducedName.trim(), actualOutputQuantity: parseFloat(actualOutputQuantity) }
+          : undefined
+      );
 
+      if (approving) {
         // Automatically add to suggestions if not already there
         if (approvedProducedName.trim() && !itemNameSuggestions.includes(approvedProducedName.trim())) {
           await addItemNameSuggestion(approvedProducedName.trim());
         }
-        
+
         setApprovedProducedName("");
         setActualOutputQuantity("");
       }
@@ -610,7 +495,32 @@ export default function Processing() {
       console.error("Error updating status:", error);
       toast({
         title: "Error",
-        description: "Failed to update batch status",
+        description: batchErrorMessage(error, "Failed to update batch status"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteBatch = async (batch: Batch) => {
+    const note = batch.status === "approved" ? " Its output will be removed from processed inventory." : "";
+    if (!confirm(`Delete batch ${batch.batchNo}? Raw materials will be returned to stock.${note}`)) return;
+
+    setLoading(true);
+    try {
+      await deleteBatch(batch);
+      toast({
+        title: "Success",
+        description: `Batch ${batch.batchNo} deleted`,
+      });
+      await fetchRawInventory();
+      await fetchBatches();
+    } catch (error) {
+      console.error("Error deleting batch:", error);
+      toast({
+        title: "Error",
+        description: batchErrorMessage(error, "Failed to delete batch"),
         variant: "destructive",
       });
     } finally {
@@ -737,6 +647,18 @@ export default function Processing() {
               <Edit className="h-4 w-4 mr-2" />
               Update Status
             </DropdownMenuItem>
+            {can("deleteRecords") && (
+              <DropdownMenuItem
+                className="text-destructive"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteBatch(item);
+                }}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       )
@@ -869,6 +791,49 @@ export default function Processing() {
                   />
                 </div>
 
+                {/* Recipe */}
+                <div className="p-4 border border-border rounded-lg space-y-3">
+                  <div className="grid grid-cols-[1fr_160px_auto] gap-3 items-end">
+                    <div className="space-y-2">
+                      <Label>Recipe (Optional)</Label>
+                      <Select value={recipeId || "none"} onValueChange={(value) => setRecipeId(value === "none" ? "" : value)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select recipe" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No recipe (enter materials by hand)</SelectItem>
+                          {recipes.map((recipe) => (
+                            <SelectItem key={recipe.id} value={recipe.id}>
+                              {recipe.productName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="targetOutput">Target Output ({selectedRecipe?.outputUnit || "kg"})</Label>
+                      <Input
+                        id="targetOutput"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={targetOutput}
+                        onChange={(e) => setTargetOutput(e.target.value)}
+                        disabled={!recipeId}
+                      />
+                    </div>
+                    <Button type="button" variant="outline" onClick={handleApplyRecipe} disabled={!recipeId}>
+                      Apply
+                    </Button>
+                  </div>
+                  {selectedRecipe && (
+                    <p className="text-xs text-muted-foreground">
+                      Standard run: {recipeInputTotal(selectedRecipe)} kg input for {selectedRecipe.outputQuantity}{" "}
+                      {selectedRecipe.outputUnit} output. Applying fills the raw materials and produced item below.
+                    </p>
+                  )}
+                </div>
+
                 {/* Batch Status */}
                 <div>
                   <Label htmlFor="batchStatus">Batch Status *</Label>
@@ -956,6 +921,8 @@ export default function Processing() {
                           disabled={!item.rawItemId}
                         />
                       </div>
+
+                      <LotSuggestion allocation={suggestLots(item)} unit={item.unit} />
                     </div>
 
                     {/* Remove Button */}
@@ -1026,6 +993,8 @@ export default function Processing() {
                 setManualBatchNo("");
                 setProducedItemName("");
                 setActualOutputQuantity("");
+                setRecipeId("");
+                setTargetOutput("");
                 setBatchDate(new Date().toISOString().split("T")[0]);
                 setBatchStatus("in process");
               }}>
@@ -1095,6 +1064,11 @@ export default function Processing() {
                         <div>
                           <p className="font-medium">{item.rawItemName}</p>
                           <p className="text-sm text-muted-foreground">Available: {item.currentQuantity} {item.unit}</p>
+                          {item.lots?.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Lots: {item.lots.map((lot) => `${lot.lotNo} (${lot.quantity})`).join(", ")}
+                            </p>
+                          )}
                         </div>
                         <div className="text-right">
                           <p className="font-semibold text-primary">{item.useQuantity} {item.unit}</p>
@@ -1121,6 +1095,8 @@ export default function Processing() {
                     </div>
                   </div>
                 </div>
+
+                <RecordHistory collection="batches" recordId={selectedBatch.id} />
               </div>
             )}
             <DialogFooter>
@@ -1,6 +1,7 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { AppHeader } from "@/components/layout/AppHeader";
+import { DocumentNumberFields } from "@/components/numbering/DocumentNumberFields";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -11,8 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, doc, getDocs, runTransaction, Timestamp } from "firebase/firestore";
+import { createProformaInvoice, ProformaInvoiceError } from "@/lib/proforma-invoices";
+import { DatabaseUnavailableError, listRecords } from "@/lib/repository";
 import { ArrowLeft, Check, ChevronsUpDown, FileText, Plus, Trash2 } from "lucide-react";
 
 type ProformaInvoiceStatus = "Approved" | "In Process";
@@ -43,7 +44,7 @@ interface PartyOption {
 }
 
 interface ProformaInvoiceFormState {
-  proformaInvoiceNo: string;
+  branch: string;
   manualProformaInvoiceNo: string;
   partyId: string;
   issueDate: string;
@@ -58,12 +59,6 @@ function safeNumber(value: string): number {
   return Number.isFinite(n) ? n : 0;
 }
 
-function generateSystemProformaInvoiceNo(date: string): string {
-  const ymd = (date || new Date().toISOString().slice(0, 10)).replace(/-/g, "");
-  const suffix = Math.floor(1000 + Math.random() * 9000);
-  return `PI-${ymd}-${suffix}`;
-}
-
 export default function ProformaInvoiceNew() {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -76,7 +71,7 @@ export default function ProformaInvoiceNew() {
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const [formData, setFormData] = useState<ProformaInvoiceFormState>({
-    proformaInvoiceNo: "",
+    branch: "",
     manualProformaInvoiceNo: "",
     partyId: "",
     issueDate: new Date().toISOString().slice(0, 10),
@@ -123,52 +118,39 @@ export default function ProformaInvoiceNew() {
   }, [computedSubtotal, computedTaxAmount]);
 
   const fetchOptions = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
-      const [customersSnap, processedInvSnap] = await Promise.all([
-        getDocs(collection(db, "customers")),
-        getDocs(collection(db, "processedInventory")),
+      const [customersList, processedList] = await Promise.all([
+        listRecords("customers").then((list) =>
+          list
+            .map(
+              (c): PartyOption => ({
+                id: c.id,
+                name: c.name,
+                address: c.address || undefined,
+                phone: c.phone || undefined,
+                email: c.email || undefined,
+                gst: c.gst || undefined,
+              })
+            )
+            .filter((x) => x.name)
+            .sort((a, b) => a.name.localeCompare(b.name))
+        ),
+        listRecords("processedInventory").then((list) =>
+          list
+            .map((item): ProcessedInventoryOption => ({ id: item.id, name: item.name, unit: item.unit || undefined }))
+            .filter((x) => x.name)
+            .sort((a, b) => a.name.localeCompare(b.name))
+        ),
       ]);
 
-      const customersList = customersSnap.docs
-        .map((d) => {
-          const data = d.data();
-          return {
-            id: d.id,
-            name: (data.name || "").toString(),
-            address: (data.address || "").toString() || undefined,
-            phone: (data.phone || "").toString() || undefined,
-            email: (data.email || "").toString() || undefined,
-            gst: (data.gst || "").toString() || undefined,
-          } as PartyOption;
-        })
-        .filter((x) => x.name)
-        .sort((a, b) => a.name.localeCompare(b.name));
-
-      const processedList = processedInvSnap.docs
-        .map((d) => {
-          const data = d.data();
-          return {
-            id: d.id,
-            name: (data.name || "").toString(),
-            unit: (data.unit || "").toString() || undefined,
-          } as ProcessedInventoryOption;
-        })
-        .filter((x) => x.name)
-        .sort((a, b) => a.name.localeCompare(b.name));
-
       setCustomers(customersList);
       setProcessedInventoryOptions(processedList);
     } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
       console.error("Error loading proformaInvoice options", error);
       toast({ title: "Load failed", description: "Could not load customers/suppliers/items.", variant: "destructive" });
     } finally {
@@ -180,30 +162,11 @@ export default function ProformaInvoiceNew() {
     fetchOptions();
   }, []);
 
-  useEffect(() => {
-    setFormData((s) => {
-      if (s.proformaInvoiceNo) return s;
-      return { ...s, proformaInvoiceNo: generateSystemProformaInvoiceNo(s.issueDate) };
-    });
-  }, []);
+  const setBranch = useCallback((branch: string) => setFormData((s) => ({ ...s, branch })), []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (!formData.proformaInvoiceNo.trim()) {
-      toast({ title: "Validation error", description: "ProformaInvoice number is required.", variant: "destructive" });
-      return;
-    }
-
     if (!formData.manualProformaInvoiceNo.trim()) {
       toast({ title: "Validation error", description: "Manual proformaInvoice number is required.", variant: "destructive" });
       return;
@@ -242,13 +205,7 @@ export default function ProformaInvoiceNew() {
       return;
     }
 
-    const quantitiesByProcessedId = new Map<string, number>();
-    for (const it of sanitizedItems) {
-      quantitiesByProcessedId.set(it.processedInventoryId, (quantitiesByProcessedId.get(it.processedInventoryId) || 0) + (Number(it.quantity) || 0));
-    }
-
     const payload = {
-      proformaInvoiceNo: formData.proformaInvoiceNo.trim(),
       manualProformaInvoiceNo: formData.manualProformaInvoiceNo.trim(),
       partyType: "customer" as const,
       partyId: formData.partyId,
@@ -267,47 +224,19 @@ export default function ProformaInvoiceNew() {
       total: computedTotal,
       status: formData.status,
       notes: formData.notes.trim(),
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
+      branch: formData.branch || undefined,
     };
 
     setIsSubmitting(true);
     try {
-      const proformaInvoicesCol = collection(db, "proformaInvoices");
-      const proformaInvoiceRef = doc(proformaInvoicesCol);
-
-      await runTransaction(db, async (tx) => {
-        // Deduct processed inventory first (abort proformaInvoice if stock insufficient)
-        for (const [processedId, usedQty] of quantitiesByProcessedId.entries()) {
-          const invRef = doc(db, "processedInventory", processedId);
-          const snap = await tx.get(invRef);
-          if (!snap.exists()) {
-            throw new Error(`Processed inventory item not found: ${processedId}`);
-          }
-
-          const data = snap.data() as any;
-          const currentQty = typeof data.quantity === "number" ? data.quantity : parseFloat(data.quantity) || 0;
-          const nextQty = currentQty - usedQty;
-          if (nextQty < 0) {
-            const name = (data.name || "").toString();
-            throw new Error(`Insufficient stock for ${name || processedId}. Available: ${currentQty}, Required: ${usedQty}`);
-          }
-
-          tx.update(invRef, {
-            quantity: nextQty.toString(),
-            lastUpdated: new Date().toISOString().split("T")[0],
-          });
-        }
-
-        tx.set(proformaInvoiceRef, payload);
-      });
+      const proformaInvoiceNo = await createProformaInvoice(payload);
 
-      toast({ title: "Saved", description: "Proforma Invoice saved successfully." });
+      toast({ title: "Saved", description: `Proforma Invoice ${proformaInvoiceNo} saved successfully.` });
       navigate("/proforma-invoices");
     } catch (error) {
       console.error("Error saving proformaInvoice", error);
       const msg = error instanceof Error ? error.message : "Could not save proformaInvoice.";
-      toast({ title: "Save failed", description: msg, variant: "destructive" });
+      toast({ title: error instanceof ProformaInvoiceError ? "Validation error" : "Save failed", description: msg, variant: "destructive" });
     } finally {
       setIsSubmitting(false);
     }
@@ -338,10 +267,13 @@ export default function ProformaInvoiceNew() {
         <form onSubmit={handleSubmit} className="space-y-4">
           <Card className="p-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="proformaInvoiceNo">System ProformaInvoice No</Label>
-                <Input id="proformaInvoiceNo" value={formData.proformaInvoiceNo} readOnly disabled />
-              </div>
+              <DocumentNumberFields
+                documentType="proformaInvoice"
+                label="System Proforma Invoice No"
+                date={formData.issueDate}
+                branch={formData.branch}
+                onBranchChange={setBranch}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="manualProformaInvoiceNo">Manual ProformaInvoice No *</Label>
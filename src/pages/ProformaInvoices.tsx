@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { AppHeader } from "@/components/layout/AppHeader";
 import { StatCard } from "@/components/cards/StatCard";
@@ -12,19 +12,11 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  orderBy,
-  query,
-  Timestamp,
-  updateDoc,
-} from "firebase/firestore";
+import { InsufficientStockError } from "@/lib/production";
+import { deleteProformaInvoice, ProformaInvoiceError, updateProformaInvoice } from "@/lib/proforma-invoices";
+import { listRecords } from "@/lib/repository";
 import { FileText, IndianRupee, Pencil, Plus, Printer, RefreshCw, Trash2 } from "lucide-react";
 
 type ProformaInvoiceStatus = "Approved" | "In Process" | "Paid" | "Pending" | "Overdue";
@@ -106,6 +98,8 @@ export default function ProformaInvoices() {
 
   const { toast } = useToast();
 
+  const { can } = useAuth();
+
   const partyOptions = useMemo(() => (formData.partyType === "supplier" ? suppliers : customers), [customers, suppliers, formData.partyType]);
   const selectedParty = useMemo(() => partyOptions.find((p) => p.id === formData.partyId), [partyOptions, formData.partyId]);
 
@@ -188,95 +182,36 @@ export default function ProformaInvoices() {
     [filtered, processedInventoryById]
   );
 
-  const fetchParties = async () => {
-    const [customersSnap, suppliersSnap] = await Promise.all([
-      getDocs(collection(db, "customers")),
-      getDocs(collection(db, "suppliers")),
-    ]);
-
-    const customersList = customersSnap.docs
-      .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
-
-    const suppliersList = suppliersSnap.docs
-      .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-      .filter((x) => x.name)
-      .sort((a, b) => a.name.localeCompare(b.name));
+  const fetchParties = useCallback(async () => {
+    const [customersList, suppliersList] = await Promise.all(
+      (["customers", "suppliers"] as const).map(async (name) =>
+        (await listRecords(name))
+          .map((p) => ({ id: p.id, name: p.name }))
+          .filter((x) => x.name)
+          .sort((a, b) => a.name.localeCompare(b.name))
+      )
+    );
 
     setCustomers(customersList);
     setSuppliers(suppliersList);
-  };
+  }, []);
 
-  const fetchProcessedInventoryOptions = async () => {
-    const snap = await getDocs(collection(db, "processedInventory"));
-    const list = snap.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          name: (data.name || "").toString(),
-          unit: (data.unit || "").toString() || undefined,
-        } as ProcessedInventoryOption;
-      })
+  const fetchProcessedInventoryOptions = useCallback(async () => {
+    const list = (await listRecords("processedInventory"))
+      .map((item): ProcessedInventoryOption => ({ id: item.id, name: item.name, unit: item.unit || undefined }))
       .filter((x) => x.name)
       .sort((a, b) => a.name.localeCompare(b.name));
     setProcessedInventoryOptions(list);
-  };
-
-  const fetchProformaInvoices = async () => {
-    const qy = query(collection(db, "proformaInvoices"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-
-      const rawItems = Array.isArray(data.items) ? data.items : [];
-      const items: ProformaInvoiceLineItem[] = rawItems
-        .map((it: any) => {
-          const quantity = typeof it.quantity === "number" ? it.quantity : parseFloat(it.quantity) || 0;
-          const rate = typeof it.rate === "number" ? it.rate : parseFloat(it.rate) || 0;
-          return {
-            processedInventoryId: (it.processedInventoryId || "").toString(),
-            name: (it.name || "").toString(),
-            unit: (it.unit || "").toString() || "pcs",
-            quantity,
-            rate,
-          } as ProformaInvoiceLineItem;
-        })
-        .filter((it: ProformaInvoiceLineItem) => it.name);
-
-      return {
-        id: d.id,
-        proformaInvoiceNo: (data.proformaInvoiceNo || "").toString(),
-        cuNumber: (data.cuNumber || "").toString() || undefined,
-        pin: (data.pin || "").toString() || undefined,
-        partyType: (data.partyType || "customer") as ProformaInvoiceRecord["partyType"],
-        partyId: (data.partyId || "").toString(),
-        partyName: (data.partyName || "").toString(),
-        issueDate: (data.issueDate || "").toString(),
-        dueDate: (data.dueDate || "").toString(),
-        items,
-        subtotal: typeof data.subtotal === "number" ? data.subtotal : parseFloat(data.subtotal) || 0,
-        tax: typeof data.tax === "number" ? data.tax : parseFloat(data.tax) || 0,
-        total: typeof data.total === "number" ? data.total : parseFloat(data.total) || 0,
-        status: (data.status || "Pending") as ProformaInvoiceStatus,
-        notes: (data.notes || "").toString() || undefined,
-        createdAt: data.createdAt?.toDate?.() || new Date(),
-      } as ProformaInvoiceRecord;
-    });
-    setProformaInvoices(list);
-  };
+  }, []);
 
-  const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
+  const fetchProformaInvoices = useCallback(async () => {
+    const list = await listRecords("proformaInvoices", { orderBy: "createdAt", direction: "desc" });
+    setProformaInvoices(
+      list.map((p) => ({ ...p, items: p.items.filter((it) => it.name) })) as ProformaInvoiceRecord[]
+    );
+  }, []);
 
+  const fetchAll = useCallback(async () => {
     setIsLoading(true);
     try {
       await Promise.all([fetchParties(), fetchProcessedInventoryOptions(), fetchProformaInvoices()]);
@@ -284,17 +219,17 @@ export default function ProformaInvoices() {
       console.error("Error fetching proformaInvoices", error);
       toast({
         title: "Load failed",
-        description: "Could not load proformaInvoices from Firestore.",
+        description: "Could not load proformaInvoices.",
         variant: "destructive",
       });
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [fetchParties, fetchProcessedInventoryOptions, fetchProformaInvoices, toast]);
 
   useEffect(() => {
     fetchAll();
-  }, []);
+  }, [fetchAll]);
 
   const resetForm = () => {
     setEditing(null);
@@ -327,18 +262,17 @@ export default function ProformaInvoices() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!db) return;
-    if (!confirm("Delete this proformaInvoice?")) return;
+    if (!confirm("Delete this proformaInvoice? Its goods will be returned to stock.")) return;
 
     try {
-      await deleteDoc(doc(db, "proformaInvoices", id));
-      toast({ title: "Deleted", description: "ProformaInvoice removed." });
+      await deleteProformaInvoice(id);
+      toast({ title: "Deleted", description: "ProformaInvoice removed and its stock returned." });
       fetchProformaInvoices();
     } catch (error) {
       console.error("Error deleting proformaInvoice", error);
       toast({
         title: "Delete failed",
-        description: "Could not delete proformaInvoice.",
+        description: error instanceof Error ? error.message : "Could not delete proformaInvoice.",
         variant: "destructive",
       });
     }
@@ -355,15 +289,6 @@ export default function ProformaInvoices() {
       return;
     }
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     if (!formData.proformaInvoiceNo.trim()) {
       toast({ title: "Validation error", description: "ProformaInvoice number is required.", variant: "destructive" });
       return;
@@ -408,30 +333,22 @@ export default function ProformaInvoices() {
       total: computedTotal,
       status: formData.status,
       notes: formData.notes.trim(),
-      updatedAt: Timestamp.now(),
     };
 
     setIsSubmitting(true);
     try {
-      if (editing) {
-        await updateDoc(doc(db, "proformaInvoices", editing.id), payload);
-        toast({ title: "Updated", description: "ProformaInvoice updated." });
-      } else {
-        await addDoc(collection(db, "proformaInvoices"), {
-          ...payload,
-          createdAt: Timestamp.now(),
-        });
-        toast({ title: "Saved", description: "ProformaInvoice saved to Firestore." });
-      }
+      await updateProformaInvoice(editing.id, payload);
+      toast({ title: "Updated", description: "ProformaInvoice updated." });
 
       setIsDialogOpen(false);
       resetForm();
       fetchProformaInvoices();
     } catch (error) {
       console.error("Error saving proformaInvoice", error);
+      const invalid = error instanceof ProformaInvoiceError || error instanceof InsufficientStockError;
       toast({
-        title: "Save failed",
-        description: "Could not save proformaInvoice.",
+        title: invalid ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save proformaInvoice.",
         variant: "destructive",
       });
     } finally {
@@ -439,69 +356,68 @@ export default function ProformaInvoices() {
     }
   };
 
-  const columns = useMemo(
-    () => [
-      { key: "proformaInvoiceNo", header: "System ProformaInvoice" },
-      {
-        key: "cuNumber",
-        header: "CU Number",
-        render: (i: ProformaInvoiceRecord) => <span className="font-medium">{i.cuNumber || "—"}</span>,
-      },
-      { key: "issueDate", header: "Date" },
-      { key: "partyName", header: "Customer" },
-      {
-        key: "pin",
-        header: "PIN",
-        render: (i: ProformaInvoiceRecord) => <span className="font-medium">{i.pin || "—"}</span>,
-      },
-      {
-        key: "items",
-        header: "Items",
-        render: (i: ProformaInvoiceRecord) => {
-          const label = (i.items || [])
-            .map((x) => {
-              const resolved = x.processedInventoryId ? processedInventoryById.get(x.processedInventoryId) : undefined;
-              const name = resolved?.name || x.name;
-              const unit = resolved?.unit || x.unit;
-              return `${name} (${x.quantity} ${unit})`;
-            })
-            .join(", ");
-          return <span className="text-sm text-muted-foreground">{label || "—"}</span>;
-        },
-      },
-      {
-        key: "total",
-        header: "Total Amount",
-        render: (i: ProformaInvoiceRecord) => <span className="font-medium">₹{(i.total || 0).toLocaleString("en-IN")}</span>,
+  const columns = [
+    { key: "proformaInvoiceNo", header: "System ProformaInvoice" },
+    {
+      key: "cuNumber",
+      header: "CU Number",
+      render: (i: ProformaInvoiceRecord) => <span className="font-medium">{i.cuNumber || "—"}</span>,
+    },
+    { key: "issueDate", header: "Date" },
+    { key: "partyName", header: "Customer" },
+    {
+      key: "pin",
+      header: "PIN",
+      render: (i: ProformaInvoiceRecord) => <span className="font-medium">{i.pin || "—"}</span>,
+    },
+    {
+      key: "items",
+      header: "Items",
+      render: (i: ProformaInvoiceRecord) => {
+        const label = (i.items || [])
+          .map((x) => {
+            const resolved = x.processedInventoryId ? processedInventoryById.get(x.processedInventoryId) : undefined;
+            const name = resolved?.name || x.name;
+            const unit = resolved?.unit || x.unit;
+            return `${name} (${x.quantity} ${unit})`;
+          })
+          .join(", ");
+        return <span className="text-sm text-muted-foreground">{label || "—"}</span>;
       },
-      { key: "status", header: "Status" },
-      {
-        key: "actions",
-        header: "Actions",
-        render: (i: ProformaInvoiceRecord) => (
-          <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={() => window.open(`/proformaInvoices/${i.id}/print`, "_blank", "noopener,noreferrer")}
-              title="Print"
-            >
-              <Printer className="w-4 h-4" />
-            </Button>
-            <Button variant="outline" size="sm" className="gap-1" onClick={() => openEdit(i)}>
-              <Pencil className="w-4 h-4" />
-              Edit
-            </Button>
+    },
+    {
+      key: "total",
+      header: "Total Amount",
+      render: (i: ProformaInvoiceRecord) => <span className="font-medium">₹{(i.total || 0).toLocaleString("en-IN")}</span>,
+    },
+    { key: "status", header: "Status" },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (i: ProformaInvoiceRecord) => (
+        <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => window.open(`/proformaInvoices/${i.id}/print`, "_blank", "noopener,noreferrer")}
+            title="Print"
+          >
+            <Printer className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => openEdit(i)}>
+            <Pencil className="w-4 h-4" />
+            Edit
+          </Button>
+          {can("deleteRecords") && (
             <Button variant="destructive" size="sm" className="gap-1" onClick={() => handleDelete(i.id)}>
               <Trash2 className="w-4 h-4" />
               Delete
             </Button>
-          </div>
-        ),
-      },
-    ],
-    [processedInventoryById]
-  );
+          )}
+        </div>
+      ),
+    },
+  ];
 
   return (
     <>
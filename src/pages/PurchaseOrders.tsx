@@ -0,0 +1,615 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { DocumentNumberFields } from "@/components/numbering/DocumentNumberFields";
+import { DataTable } from "@/components/tables/DataTable";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import {
+  closePurchaseOrder,
+  createPurchaseOrder,
+  isPurchaseOrderOpen,
+  pendingQuantity,
+  PurchaseOrderError,
+  purchaseOrderStatus,
+  receiveGoods,
+} from "@/lib/purchase-orders";
+import type { PurchaseOrderRecord, PurchaseOrderStatus } from "@/lib/schemas";
+import { ClipboardList, PackageCheck, Plus, RefreshCw, Trash2, XCircle } from "lucide-react";
+
+type OrderLine = { itemId: string; quantity: string; rate: string; tax: string };
+
+type ReceiptLine = {
+  receivedQuantity: string;
+  rejectedQuantity: string;
+  heldQuantity: string;
+  lotNo: string;
+  manufacturingDate: string;
+  expiryDate: string;
+};
+
+const emptyLine: OrderLine = { itemId: "", quantity: "", rate: "", tax: "18" };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const defaultFormState = {
+  supplierId: "",
+  poDate: today(),
+  expectedDate: "",
+  notes: "",
+  branch: "",
+  items: [emptyLine],
+};
+
+const defaultReceiptState = {
+  grnDate: today(),
+  deliveryNoteNo: "",
+  vehicleNo: "",
+  lines: [] as ReceiptLine[],
+};
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  Open: "bg-primary/20 text-primary",
+  "Partly Received": "bg-warning/20 text-warning",
+  Received: "bg-success/20 text-success",
+  Closed: "bg-muted text-muted-foreground",
+  Cancelled: "bg-destructive/20 text-destructive",
+};
+
+function safeNumber(value: string): number {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export default function PurchaseOrders() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const ordersQuery = useRecords("purchaseOrders", { orderBy: "poDate", direction: "desc" });
+  const suppliersQuery = useRecords("suppliers");
+  const itemsQuery = useRecords("items");
+  const orders = useMemo(() => ordersQuery.data ?? [], [ordersQuery.data]);
+  const suppliers = useMemo(
+    () => (suppliersQuery.data ?? []).filter((s) => s.name).sort((a, b) => a.name.localeCompare(b.name)),
+    [suppliersQuery.data]
+  );
+  const items = useMemo(
+    () => (itemsQuery.data ?? []).filter((i) => i.code && i.name).sort((a, b) => a.code.localeCompare(b.code)),
+    [itemsQuery.data]
+  );
+  const isLoading = ordersQuery.isFetching;
+
+  const [isOrderDialogOpen, setIsOrderDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(defaultFormState);
+  const [receiving, setReceiving] = useState<PurchaseOrderRecord | null>(null);
+  const [receipt, setReceipt] = useState(defaultReceiptState);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!ordersQuery.error) return;
+    console.error("Error fetching purchase orders", ordersQuery.error);
+    toast({ title: "Load failed", description: "Could not load purchase orders.", variant: "destructive" });
+  }, [ordersQuery.error, toast]);
+
+  const setBranch = useCallback((branch: string) => setFormData((s) => ({ ...s, branch })), []);
+
+  const updateLine = (index: number, patch: Partial<OrderLine>) =>
+    setFormData((prev) => ({ ...prev, items: prev.items.map((line, i) => (i === index ? { ...line, ...patch } : line)) }));
+
+  const updateReceiptLine = (index: number, patch: Partial<ReceiptLine>) =>
+    setReceipt((prev) => ({ ...prev, lines: prev.lines.map((line, i) => (i === index ? { ...line, ...patch } : line)) }));
+
+  const openNew = () => {
+    setFormData({ ...defaultFormState, poDate: today() });
+    setIsOrderDialogOpen(true);
+  };
+
+  const openReceive = (order: PurchaseOrderRecord) => {
+    setReceiving(order);
+    setReceipt({
+      ...defaultReceiptState,
+      grnDate: today(),
+      lines: order.items.map((line) => ({
+        receivedQuantity: String(pendingQuantity(line)),
+        rejectedQuantity: "",
+        heldQuantity: "",
+        lotNo: "",
+        manufacturingDate: "",
+        expiryDate: "",
+      })),
+    });
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const supplier = suppliers.find((s) => s.id === formData.supplierId);
+    if (!supplier) {
+      toast({ title: "Validation error", description: "Select a supplier.", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const poNo = await createPurchaseOrder({
+        poDate: formData.poDate,
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        expectedDate: formData.expectedDate || undefined,
+        notes: formData.notes.trim() || undefined,
+        branch: formData.branch || undefined,
+        items: formData.items.map((line) => {
+          const item = items.find((i) => i.id === line.itemId);
+          return {
+            itemId: line.itemId,
+            itemCode: item?.code ?? "",
+            itemName: item?.name ?? "",
+            unit: item?.unit || "kg",
+            quantity: safeNumber(line.quantity),
+            rate: safeNumber(line.rate),
+            tax: Math.max(safeNumber(line.tax), 0),
+          };
+        }),
+      });
+      toast({ title: "Purchase order saved", description: `Purchase order ${poNo} saved.` });
+      setIsOrderDialogOpen(false);
+      ordersQuery.refetch();
+    } catch (error) {
+      console.error("Error saving purchase order", error);
+      toast({
+        title: error instanceof PurchaseOrderError ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the purchase order.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReceive = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!receiving) return;
+
+    setIsSubmitting(true);
+    try {
+      const grnNo = await receiveGoods(receiving.id, {
+        grnDate: receipt.grnDate,
+        deliveryNoteNo: receipt.deliveryNoteNo,
+        vehicleNo: receipt.vehicleNo,
+        lines: receipt.lines.map((line, orderLine) => ({
+          orderLine,
+          receivedQuantity: safeNumber(line.receivedQuantity),
+          rejectedQuantity: safeNumber(line.rejectedQuantity),
+          heldQuantity: safeNumber(line.heldQuantity),
+          lotNo: line.lotNo,
+          manufacturingDate: line.manufacturingDate || undefined,
+          expiryDate: line.expiryDate,
+        })),
+      });
+      toast({ title: "Goods received", description: `GRN ${grnNo} saved and accepted goods added to Raw Inventory.` });
+      setReceiving(null);
+      ordersQuery.refetch();
+    } catch (error) {
+      console.error("Error saving goods receipt", error);
+      toast({
+        title: error instanceof PurchaseOrderError ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the goods receipt.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = async (order: PurchaseOrderRecord) => {
+    const received = order.items.some((l) => l.receivedQuantity > 0);
+    const action = received ? "Close" : "Cancel";
+    if (!confirm(`${action} purchase order ${order.poNo}? Nothing more can be received against it.`)) return;
+
+    try {
+      await closePurchaseOrder(order.id);
+      toast({ title: received ? "Order closed" : "Order cancelled", description: `Purchase order ${order.poNo} is no longer open.` });
+      ordersQuery.refetch();
+    } catch (error) {
+      console.error("Error closing purchase order", error);
+      toast({
+        title: error instanceof PurchaseOrderError ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not close the purchase order.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const columns = [
+    {
+      key: "poNo",
+      header: "PO",
+      render: (o: PurchaseOrderRecord) => (
+        <div>
+          <div className="font-medium">{o.poNo}</div>
+          <div className="text-xs text-muted-foreground">
+            {o.poDate}
+            {o.expectedDate ? ` · due ${o.expectedDate}` : ""}
+          </div>
+        </div>
+      ),
+    },
+    { key: "supplierName", header: "Supplier" },
+    {
+      key: "items",
+      header: "Ordered / Received / Rejected / Billed",
+      render: (o: PurchaseOrderRecord) => (
+        <div className="space-y-1 text-sm">
+          {o.items.map((line, i) => (
+            <div key={i} className="whitespace-nowrap">
+              {line.itemName}: {line.quantity} / {line.receivedQuantity} / {line.rejectedQuantity} / {line.billedQuantity} {line.unit}
+            </div>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "total",
+      header: "Value",
+      render: (o: PurchaseOrderRecord) => (
+        <span className="font-medium">₹{o.total.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+      ),
+    },
+    {
+      key: "status",
+      header: "Status",
+      render: (o: PurchaseOrderRecord) => {
+        const status = purchaseOrderStatus(o);
+        return <span className={`rounded-full text-[11px] px-2 py-1 font-semibold ${STATUS_STYLES[status]}`}>{status}</span>;
+      },
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (o: PurchaseOrderRecord) =>
+        isPurchaseOrderOpen(o) && (
+          <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+            <Button variant="ghost" size="sm" onClick={() => openReceive(o)} title="Receive goods on a GRN">
+              <PackageCheck className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleClose(o)}
+              title="Close the order"
+              className="hover:bg-destructive/10 hover:text-destructive"
+            >
+              <XCircle className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Purchase Orders" subtitle="Orders placed with suppliers and the goods received against them" />
+
+      <div className="p-6 space-y-6">
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <Button variant="secondary" onClick={() => ordersQuery.refetch()} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate("/goods-receipts")}>
+                <PackageCheck className="h-4 w-4 mr-2" />
+                Goods Receipts
+              </Button>
+              <Button onClick={openNew}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Purchase Order
+              </Button>
+            </div>
+          </div>
+
+          {orders.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-muted-foreground/30 p-10 text-center text-muted-foreground">
+              <ClipboardList className="w-12 h-12 mx-auto mb-4 opacity-20" />
+              {isLoading ? "Loading purchase orders..." : "No purchase orders yet."}
+            </div>
+          ) : (
+            <DataTable data={orders} columns={columns} keyField="id" />
+          )}
+        </Card>
+      </div>
+
+      <Dialog open={isOrderDialogOpen} onOpenChange={setIsOrderDialogOpen}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>New Purchase Order</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <DocumentNumberFields
+                  documentType="purchaseOrder"
+                  label="PO No"
+                  date={formData.poDate}
+                  branch={formData.branch}
+                  onBranchChange={setBranch}
+                />
+                <div className="space-y-2">
+                  <Label htmlFor="poDate">PO Date</Label>
+                  <Input
+                    id="poDate"
+                    type="date"
+                    value={formData.poDate}
+                    onChange={(e) => setFormData({ ...formData, poDate: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Supplier *</Label>
+                  <Select value={formData.supplierId} onValueChange={(supplierId) => setFormData((s) => ({ ...s, supplierId }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expectedDate">Expected By</Label>
+                  <Input
+                    id="expectedDate"
+                    type="date"
+                    value={formData.expectedDate}
+                    onChange={(e) => setFormData({ ...formData, expectedDate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Items (rate before GST)</Label>
+                {formData.items.map((line, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_110px_110px_80px_auto] gap-3 items-center">
+                    <Select
+                      value={line.itemId}
+                      onValueChange={(itemId) => {
+                        const gstRate = items.find((i) => i.id === itemId)?.gstRate;
+                        updateLine(index, { itemId, ...(gstRate !== undefined && { tax: String(gstRate) }) });
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {items.map((item) => (
+                          <SelectItem key={item.id} value={item.id}>
+                            {item.code} - {item.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      placeholder="Quantity"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.rate}
+                      onChange={(e) => updateLine(index, { rate: e.target.value })}
+                      placeholder="Rate"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.tax}
+                      onChange={(e) => updateLine(index, { tax: e.target.value })}
+                      placeholder="GST %"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={formData.items.length === 1}
+                      onClick={() => setFormData((prev) => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full gap-2"
+                  onClick={() => setFormData((prev) => ({ ...prev, items: [...prev.items, emptyLine] }))}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Item
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="poNotes">Notes</Label>
+                <Textarea id="poNotes" value={formData.notes} onChange={(e) => setFormData({ ...formData, notes: e.target.value })} rows={2} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOrderDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Purchase Order"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!receiving} onOpenChange={(open) => !open && setReceiving(null)}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleReceive}>
+            <DialogHeader>
+              <DialogTitle>
+                Goods Receipt against {receiving?.poNo} · {receiving?.supplierName}
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <DocumentNumberFields
+                  documentType="goodsReceipt"
+                  label="GRN No"
+                  date={receipt.grnDate}
+                  branch={receiving?.branch ?? ""}
+                  onBranchChange={() => undefined}
+                />
+                <div className="space-y-2">
+                  <Label htmlFor="grnDate">GRN Date</Label>
+                  <Input
+                    id="grnDate"
+                    type="date"
+                    value={receipt.grnDate}
+                    onChange={(e) => setReceipt({ ...receipt, grnDate: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="deliveryNoteNo">Supplier Challan / Invoice No</Label>
+                  <Input
+                    id="deliveryNoteNo"
+                    value={receipt.deliveryNoteNo}
+                    onChange={(e) => setReceipt({ ...receipt, deliveryNoteNo: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="grnVehicleNo">Vehicle No</Label>
+                  <Input
+                    id="grnVehicleNo"
+                    value={receipt.vehicleNo}
+                    onChange={(e) => setReceipt({ ...receipt, vehicleNo: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Pending</TableHead>
+                      <TableHead className="w-[100px]">Received</TableHead>
+                      <TableHead className="w-[100px]">Rejected</TableHead>
+                      <TableHead className="w-[100px]">QC Hold</TableHead>
+                      <TableHead className="w-[120px]">Supplier Batch</TableHead>
+                      <TableHead className="w-[140px]">Mfg Date</TableHead>
+                      <TableHead className="w-[140px]">Expiry Date</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {receiving?.items.map((line, index) => {
+                      const value = receipt.lines[index];
+                      const disabled = pendingQuantity(line) === 0;
+                      return (
+                        <TableRow key={index}>
+                          <TableCell>{line.itemName}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {pendingQuantity(line)} {line.unit}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={value?.receivedQuantity ?? ""}
+                              disabled={disabled}
+                              onChange={(e) => updateReceiptLine(index, { receivedQuantity: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={value?.rejectedQuantity ?? ""}
+                              disabled={disabled}
+                              onChange={(e) => updateReceiptLine(index, { rejectedQuantity: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={value?.heldQuantity ?? ""}
+                              disabled={disabled}
+                              onChange={(e) => updateReceiptLine(index, { heldQuantity: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={value?.lotNo ?? ""}
+                              disabled={disabled}
+                              onChange={(e) => updateReceiptLine(index, { lotNo: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="date"
+                              value={value?.manufacturingDate ?? ""}
+                              disabled={disabled}
+                              onChange={(e) => updateReceiptLine(index, { manufacturingDate: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="date"
+                              value={value?.expiryDate ?? ""}
+                              disabled={disabled}
+                              onChange={(e) => updateReceiptLine(index, { expiryDate: e.target.value })}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Received includes rejected goods. Goods on QC hold stay out of Raw Inventory until released from the GRN.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setReceiving(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save GRN"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
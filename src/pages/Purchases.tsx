@@ -3,69 +3,51 @@ import { AppHeader } from "@/components/layout/AppHeader";
 import { StatCard } from "@/components/cards/StatCard";
 import { DataTable } from "@/components/tables/DataTable";
 import { ExportExcelButton } from "@/components/ExportExcelButton";
+import { PurchaseBillDialog } from "@/components/purchases/PurchaseBillDialog";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import {
-  addDoc,
-  collection,
-  doc,
-  getDocs,
-  orderBy,
-  query,
-  Timestamp,
-  updateDoc,
-  where,
-} from "firebase/firestore";
-import { IndianRupee, Plus, RefreshCw, ShoppingCart, Truck, PackageSearch } from "lucide-react";
-
-interface SupplierOption {
-  id: string;
-  name: string;
-}
-
-interface ItemOption {
-  id: string;
-  code: string;
-  name: string;
-  unit?: string;
-}
-
-interface PurchaseRecord {
-  id: string;
-  date: string; // YYYY-MM-DD
-  supplierId: string;
-  supplierName: string;
-  invoiceNo: string;
+import { companyStateCode } from "@/lib/company";
+import { stateCodeFromGstin, taxTypeFor } from "@/lib/gst";
+import { createPurchaseBill, landedRate, legacyPurchaseBills, priceBill, PurchaseBillError } from "@/lib/purchase-bills";
+import { DatabaseUnavailableError, listRecords } from "@/lib/repository";
+import type { ItemRecord, PartyRecord, PurchaseBillRecord } from "@/lib/schemas";
+import { Eye, IndianRupee, PackageSearch, Plus, RefreshCw, ShoppingCart, Trash2, Truck } from "lucide-react";
+
+type BillLine = {
   itemId: string;
-  itemCode: string;
-  itemName: string;
-  quantity: number;
+  quantity: string;
   unit: string;
-  invoicePrice: number;
-  taxInvoicePrice: number;
-  notTaxInvoice: boolean;
-  totalPrice: number;
-  createdAt?: Date;
-}
+  rate: string;
+  tax: string;
+  lotNo: string;
+  manufacturingDate: string;
+  expiryDate: string;
+};
+
+/** Bills grouped from the older one-item purchase rows are marked so the list can label them. */
+type ListedBill = PurchaseBillRecord & { purchaseIds?: string[] };
+
+const emptyLine: BillLine = { itemId: "", quantity: "", unit: "kg", rate: "", tax: "18", lotNo: "", manufacturingDate: "", expiryDate: "" };
+
+const today = () => new Date().toISOString().slice(0, 10);
 
 const defaultFormState = {
-  date: new Date().toISOString().slice(0, 10),
+  billDate: today(),
+  dueDate: "",
   supplierId: "",
-  invoiceNo: "",
-  itemId: "",
-  quantity: "",
-  unit: "pcs",
-  invoicePrice: "",
-  taxInvoicePrice: "",
-  notTaxInvoice: false,
+  billNo: "",
+  freight: "",
+  discount: "",
+  notes: "",
+  items: [emptyLine],
 };
 
 function safeNumber(value: string): number {
@@ -73,150 +55,143 @@ function safeNumber(value: string): number {
   return Number.isFinite(n) ? n : 0;
 }
 
+const money = (n: number) => n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
 export default function Purchases() {
-  const [suppliers, setSuppliers] = useState<SupplierOption[]>([]);
-  const [items, setItems] = useState<ItemOption[]>([]);
-  const [purchases, setPurchases] = useState<PurchaseRecord[]>([]);
+  const [suppliers, setSuppliers] = useState<PartyRecord[]>([]);
+  const [items, setItems] = useState<ItemRecord[]>([]);
+  const [bills, setBills] = useState<ListedBill[]>([]);
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [search, setSearch] = useState("");
+  const [viewing, setViewing] = useState<PurchaseBillRecord | null>(null);
 
   const [formData, setFormData] = useState(defaultFormState);
 
   const { toast } = useToast();
+  const { company } = useCompany();
 
   const selectedSupplier = useMemo(
     () => suppliers.find((s) => s.id === formData.supplierId),
     [suppliers, formData.supplierId]
   );
 
-  const selectedItem = useMemo(
-    () => items.find((i) => i.id === formData.itemId),
-    [items, formData.itemId]
+  const billLines = useMemo(
+    () =>
+      formData.items.map((line) => {
+        const item = items.find((i) => i.id === line.itemId);
+        return {
+          itemId: line.itemId,
+          itemCode: item?.code ?? "",
+          itemName: item?.name ?? "",
+          unit: (line.unit || item?.unit || "kg").trim() || "kg",
+          quantity: safeNumber(line.quantity),
+          rate: safeNumber(line.rate),
+          tax: Math.max(safeNumber(line.tax), 0),
+          lotNo: line.lotNo.trim() || undefined,
+          manufacturingDate: line.manufacturingDate || undefined,
+          expiryDate: line.expiryDate || undefined,
+        };
+      }),
+    [formData.items, items]
   );
 
-  const computedTotal = useMemo(() => {
-    const invoicePrice = safeNumber(formData.invoicePrice);
-    const taxInvoicePrice = safeNumber(formData.taxInvoicePrice);
+  // The same split the bill is saved with: the supplier's state against ours.
+  const taxType = taxTypeFor(stateCodeFromGstin(selectedSupplier?.gst), companyStateCode(company));
 
-    // Total Price is treated as per-unit price:
-    // - Non-tax invoice: Invoice Price
-    // - Tax invoice: Tax Invoice Price if provided, otherwise Invoice Price
-    if (formData.notTaxInvoice) return invoicePrice;
-    return taxInvoicePrice > 0 ? taxInvoicePrice : invoicePrice;
-  }, [formData.invoicePrice, formData.notTaxInvoice, formData.taxInvoicePrice]);
+  const priced = useMemo(
+    () =>
+      priceBill(
+        billLines.filter((l) => l.itemId && l.quantity > 0),
+        { discount: safeNumber(formData.discount), freight: safeNumber(formData.freight) },
+        taxType
+      ),
+    [billLines, formData.discount, formData.freight, taxType]
+  );
 
-  const filteredPurchases = useMemo(() => {
-    if (!search.trim()) return purchases;
+  const filteredBills = useMemo(() => {
+    if (!search.trim()) return bills;
     const q = search.toLowerCase();
-    return purchases.filter((p) =>
-      `${p.invoiceNo} ${p.supplierName} ${p.itemCode} ${p.itemName}`.toLowerCase().includes(q)
+    return bills.filter((b) =>
+      `${b.billNo} ${b.supplierName} ${b.items.map((l) => `${l.itemCode} ${l.itemName}`).join(" ")}`.toLowerCase().includes(q)
     );
-  }, [purchases, search]);
+  }, [bills, search]);
 
   const stats = useMemo(() => {
-    const total = purchases.reduce((sum, p) => sum + (p.totalPrice || 0), 0);
-    const today = new Date().toISOString().slice(0, 10);
-    const todayCount = purchases.filter((p) => p.date === today).length;
+    const total = bills.reduce((sum, b) => sum + (b.total || 0), 0);
+    const todayCount = bills.filter((b) => b.billDate === today()).length;
     return {
-      totalPurchases: purchases.length,
+      totalBills: bills.length,
       totalValue: total,
       todayCount,
-      uniqueSuppliers: new Set(purchases.map((p) => p.supplierId)).size,
+      uniqueSuppliers: new Set(bills.map((b) => b.supplierId)).size,
     };
-  }, [purchases]);
+  }, [bills]);
 
   const exportRows = useMemo(
     () =>
-      filteredPurchases.map((p) => ({
-        Date: p.date,
-        "Invoice No": p.invoiceNo,
-        Supplier: p.supplierName,
-        "Item Code": p.itemCode,
-        "Item Name": p.itemName,
-        Quantity: p.quantity,
-        Unit: p.unit,
-        "Invoice Price": p.invoicePrice,
-        "Tax Invoice Price": p.taxInvoicePrice,
-        "Not Tax Invoice": p.notTaxInvoice ? "Yes" : "No",
-        "Total Price": p.totalPrice,
-      })),
-    [filteredPurchases]
+      filteredBills.flatMap((b) =>
+        b.items.map((l) => ({
+          Date: b.billDate,
+          "Bill No": b.billNo,
+          Supplier: b.supplierName,
+          "Item Code": l.itemCode,
+          "Item Name": l.itemName,
+          Quantity: l.quantity,
+          Unit: l.unit,
+          Rate: l.rate,
+          "GST %": l.tax,
+          Discount: l.discount,
+          "Taxable Value": l.taxable,
+          CGST: l.cgst,
+          SGST: l.sgst,
+          IGST: l.igst,
+          Freight: l.freight,
+          "Landed Cost": l.landedCost,
+          "Landed Rate": landedRate(l),
+          "Supplier Batch No": l.lotNo ?? "",
+          "Mfg Date": l.manufacturingDate ?? "",
+          "Expiry Date": l.expiryDate ?? "",
+          "Bill Total": b.total,
+        }))
+      ),
+    [filteredBills]
   );
 
   const fetchSuppliers = async () => {
-    const snapshot = await getDocs(collection(db, "suppliers"));
-    const list: SupplierOption[] = snapshot.docs
-      .map((d) => ({ id: d.id, name: (d.data().name || "").toString() }))
-      .filter((s) => s.name);
+    const list = (await listRecords("suppliers")).filter((s) => s.name);
     list.sort((a, b) => a.name.localeCompare(b.name));
     setSuppliers(list);
   };
 
   const fetchItems = async () => {
-    const snapshot = await getDocs(collection(db, "items"));
-    const list: ItemOption[] = snapshot.docs
-      .map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          code: (data.code || "").toString(),
-          name: (data.name || "").toString(),
-          unit: (data.unit || "").toString() || undefined,
-        };
-      })
-      .filter((i) => i.code && i.name);
+    const list = (await listRecords("items")).filter((i) => i.code && i.name);
     list.sort((a, b) => a.code.localeCompare(b.code));
     setItems(list);
   };
 
-  const fetchPurchases = async () => {
-    const purchasesQuery = query(collection(db, "purchases"), orderBy("createdAt", "desc"));
-    const snapshot = await getDocs(purchasesQuery);
-    const list = snapshot.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        date: (data.date || "").toString(),
-        supplierId: (data.supplierId || "").toString(),
-        supplierName: (data.supplierName || "").toString(),
-        invoiceNo: (data.invoiceNo || "").toString(),
-        itemId: (data.itemId || "").toString(),
-        itemCode: (data.itemCode || "").toString(),
-        itemName: (data.itemName || "").toString(),
-        quantity: typeof data.quantity === "number" ? data.quantity : parseFloat(data.quantity) || 0,
-        unit: (data.unit || "pcs").toString(),
-        invoicePrice: typeof data.invoicePrice === "number" ? data.invoicePrice : parseFloat(data.invoicePrice) || 0,
-        taxInvoicePrice:
-          typeof data.taxInvoicePrice === "number" ? data.taxInvoicePrice : parseFloat(data.taxInvoicePrice) || 0,
-        notTaxInvoice: Boolean(data.notTaxInvoice),
-        totalPrice: typeof data.totalPrice === "number" ? data.totalPrice : parseFloat(data.totalPrice) || 0,
-        createdAt: data.createdAt?.toDate?.() || new Date(),
-      } as PurchaseRecord;
-    });
-    setPurchases(list);
+  const fetchBills = async () => {
+    const [billRows, purchaseRows] = await Promise.all([listRecords("purchaseBills"), listRecords("purchases")]);
+    const list: ListedBill[] = [...billRows, ...legacyPurchaseBills(purchaseRows)];
+    list.sort((a, b) => b.billDate.localeCompare(a.billDate) || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    setBills(list);
   };
 
   const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
-      await Promise.all([fetchSuppliers(), fetchItems(), fetchPurchases()]);
+      await Promise.all([fetchSuppliers(), fetchItems(), fetchBills()]);
     } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
       console.error("Error loading purchase dependencies", error);
       toast({
         title: "Load failed",
-        description: "Could not load suppliers/items/purchases from Firestore.",
+        description: "Could not load suppliers/items/purchase bills from Firestore.",
         variant: "destructive",
       });
     } finally {
@@ -228,174 +203,42 @@ export default function Purchases() {
     fetchAll();
   }, []);
 
-  const resetForm = () => {
-    setFormData({
-      ...defaultFormState,
-      date: new Date().toISOString().slice(0, 10),
-    });
-  };
-
-  const upsertRawInventoryFromPurchase = async (payload: {
-    itemCode: string;
-    itemName: string;
-    supplierName: string;
-    quantity: number;
-    unit: string;
-    date: string;
-  }) => {
-    // Raw Inventory page expects: name/category/supplier/location/status/lastUpdated/reorderLevel
-    const inventoryRef = collection(db, "rawInventory");
-    const existingQuery = query(inventoryRef, where("itemCode", "==", payload.itemCode));
-    const snapshot = await getDocs(existingQuery);
-
-    const lastUpdated = payload.date || new Date().toISOString().slice(0, 10);
-
-    if (snapshot.empty) {
-      await addDoc(inventoryRef, {
-        itemCode: payload.itemCode,
-        name: payload.itemName,
-        category: "Purchased",
-        quantity: payload.quantity.toString(),
-        unit: payload.unit,
-        location: "Main Store",
-        supplier: payload.supplierName,
-        reorderLevel: "0",
-        status: "Adequate",
-        lastUpdated,
-        createdAt: Timestamp.now(),
-      });
-      return;
-    }
+  const updateLine = (index: number, patch: Partial<BillLine>) =>
+    setFormData((prev) => ({ ...prev, items: prev.items.map((line, i) => (i === index ? { ...line, ...patch } : line)) }));
 
-    const docSnap = snapshot.docs[0];
-    const data = docSnap.data();
-    const currentQty = parseFloat((data.quantity ?? "0").toString()) || 0;
-    const newQty = currentQty + payload.quantity;
-    await updateDoc(doc(db, "rawInventory", docSnap.id), {
-      quantity: newQty.toString(),
-      unit: payload.unit || (data.unit ?? "pcs"),
-      supplier: payload.supplierName || data.supplier,
-      lastUpdated,
-    });
+  const openNew = () => {
+    setFormData({ ...defaultFormState, billDate: today() });
+    setIsDialogOpen(true);
   };
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (!formData.date) {
-      toast({ title: "Validation error", description: "Date is required.", variant: "destructive" });
-      return;
-    }
-
-    if (!formData.supplierId) {
-      toast({ title: "Validation error", description: "Supplier is required.", variant: "destructive" });
-      return;
-    }
-
-    if (!formData.invoiceNo.trim()) {
-      toast({ title: "Validation error", description: "Invoice No. is required.", variant: "destructive" });
-      return;
-    }
-
-    if (!formData.itemId) {
-      toast({ title: "Validation error", description: "Item is required.", variant: "destructive" });
-      return;
-    }
-
-    const quantity = safeNumber(formData.quantity);
-    if (!quantity || quantity <= 0) {
-      toast({ title: "Validation error", description: "Quantity must be greater than 0.", variant: "destructive" });
-      return;
-    }
-
-    const invoicePrice = safeNumber(formData.invoicePrice);
-    const taxInvoicePrice = safeNumber(formData.taxInvoicePrice);
-    const unit = (formData.unit || selectedItem?.unit || "pcs").trim() || "pcs";
-
-    // Total Price is per-unit; pick Invoice Price or Tax Invoice Price accordingly
-    if (formData.notTaxInvoice) {
-      if (invoicePrice <= 0) {
-        toast({
-          title: "Validation error",
-          description: "Invoice Price is required for non-tax invoices.",
-          variant: "destructive",
-        });
-        return;
-      }
-    } else {
-      if (taxInvoicePrice <= 0 && invoicePrice <= 0) {
-        toast({
-          title: "Validation error",
-          description: "Tax Invoice Price (or Invoice Price) is required.",
-          variant: "destructive",
-        });
-        return;
-      }
-    }
-
-    const supplierName = selectedSupplier?.name || "";
-    const itemCode = selectedItem?.code || "";
-    const itemName = selectedItem?.name || "";
-
-    if (!supplierName || !itemCode || !itemName) {
-      toast({
-        title: "Validation error",
-        description: "Selected supplier/item could not be resolved. Please refresh and try again.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsSubmitting(true);
     try {
-      const totalPrice = computedTotal;
-
-      await addDoc(collection(db, "purchases"), {
-        date: formData.date,
+      const total = await createPurchaseBill({
+        billNo: formData.billNo,
+        billDate: formData.billDate,
+        dueDate: formData.dueDate || undefined,
         supplierId: formData.supplierId,
-        supplierName,
-        invoiceNo: formData.invoiceNo.trim(),
-        itemId: formData.itemId,
-        itemCode,
-        itemName,
-        quantity,
-        unit,
-        invoicePrice,
-        taxInvoicePrice,
-        notTaxInvoice: formData.notTaxInvoice,
-        totalPrice,
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
+        supplierName: selectedSupplier?.name ?? "",
+        items: billLines,
+        freight: safeNumber(formData.freight),
+        discount: safeNumber(formData.discount),
+        notes: formData.notes,
       });
 
-      await upsertRawInventoryFromPurchase({
-        itemCode,
-        itemName,
-        supplierName,
-        quantity,
-        unit,
-        date: formData.date,
+      toast({
+        title: "Purchase bill saved",
+        description: `Bill ${formData.billNo.trim()} booked for ₹${money(total)} and Raw Inventory updated.`,
       });
-
-      toast({ title: "Purchase added", description: "Purchase saved and Raw Inventory updated." });
-
       setIsDialogOpen(false);
-      resetForm();
-      await fetchPurchases();
+      await fetchBills();
     } catch (error) {
-      console.error("Error adding purchase", error);
+      console.error("Error saving purchase bill", error);
       toast({
-        title: "Save failed",
-        description: "Could not save the purchase. Please try again.",
+        title: error instanceof PurchaseBillError ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the purchase bill. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -405,74 +248,85 @@ export default function Purchases() {
 
   const columns = [
     {
-      key: "date",
+      key: "billDate",
       header: "Date",
-      render: (p: PurchaseRecord) => <span className="text-sm">{p.date}</span>,
+      render: (b: ListedBill) => <span className="text-sm">{b.billDate}</span>,
     },
     {
       key: "supplierName",
       header: "Supplier",
-      render: (p: PurchaseRecord) => (
+      render: (b: ListedBill) => (
         <div className="flex items-center gap-2">
           <Truck className="h-4 w-4 text-muted-foreground" />
-          <span className="font-medium">{p.supplierName}</span>
+          <span className="font-medium">{b.supplierName}</span>
         </div>
       ),
     },
     {
-      key: "invoiceNo",
-      header: "Invoice No.",
-      render: (p: PurchaseRecord) => <Badge variant="outline" className="font-mono text-xs">{p.invoiceNo}</Badge>,
+      key: "billNo",
+      header: "Bill No.",
+      render: (b: ListedBill) => (
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="font-mono text-xs">{b.billNo}</Badge>
+          {b.purchaseIds && (
+            <Badge variant="secondary" className="text-[10px]" title="Recorded one item per entry before purchase bills">
+              Older entry
+            </Badge>
+          )}
+        </div>
+      ),
     },
     {
-      key: "itemName",
-      header: "Item",
-      render: (p: PurchaseRecord) => (
-        <div>
-          <div className="font-medium">{p.itemName}</div>
-          <div className="text-xs text-muted-foreground">{p.itemCode}</div>
+      key: "items",
+      header: "Items",
+      render: (b: ListedBill) => (
+        <div className="space-y-0.5 text-sm">
+          {b.items.map((l, i) => (
+            <div key={i} className="whitespace-nowrap">
+              {l.itemName}: {l.quantity} {l.unit}
+            </div>
+          ))}
         </div>
       ),
     },
     {
-      key: "quantity",
-      header: "Qty",
-      render: (p: PurchaseRecord) => (
-        <span className="text-sm">
-          {p.quantity} {p.unit}
-        </span>
-      ),
+      key: "taxable",
+      header: "Taxable",
+      render: (b: ListedBill) => <span className="text-sm">{money(b.taxable)}</span>,
     },
     {
-      key: "totalPrice",
-      header: "Total Price",
-      render: (p: PurchaseRecord) => (
+      key: "tax",
+      header: "GST",
+      render: (b: ListedBill) => <span className="text-sm">{money(b.cgst + b.sgst + b.igst)}</span>,
+    },
+    {
+      key: "total",
+      header: "Bill Total",
+      render: (b: ListedBill) => (
         <div className="flex items-center gap-1 font-semibold">
           <IndianRupee className="h-4 w-4 text-muted-foreground" />
-          <span>
-            {p.totalPrice.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-          </span>
+          <span>{money(b.total)}</span>
         </div>
       ),
     },
     {
-      key: "notTaxInvoice",
-      header: "Type",
-      render: (p: PurchaseRecord) => (
-        <Badge variant={p.notTaxInvoice ? "secondary" : "default"}>
-          {p.notTaxInvoice ? "Non-tax" : "Tax"}
-        </Badge>
+      key: "actions",
+      header: "Actions",
+      render: (b: ListedBill) => (
+        <Button variant="ghost" size="sm" onClick={() => setViewing(b)} title="View the bill">
+          <Eye className="h-4 w-4" />
+        </Button>
       ),
     },
   ];
 
   return (
     <div className="min-h-screen bg-background">
-      <AppHeader title="Purchases" subtitle="Create purchase entries and update Raw Inventory" />
+      <AppHeader title="Purchases" subtitle="Supplier bills with their lines, freight and GST, received into Raw Inventory" />
 
       <div className="p-6 space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-          <StatCard title="Total Purchases" value={stats.totalPurchases} icon={ShoppingCart} />
+          <StatCard title="Purchase Bills" value={stats.totalBills} icon={ShoppingCart} />
           <StatCard
             title="Total Value"
             value={`₹${stats.totalValue.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`}
@@ -487,7 +341,7 @@ export default function Purchases() {
           <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
             <div className="flex items-center gap-3">
               <Input
-                placeholder="Search invoice / supplier / item"
+                placeholder="Search bill / supplier / item"
                 value={search}
                 onChange={(e) => setSearch(e.target.value)}
                 className="w-80"
@@ -498,54 +352,42 @@ export default function Purchases() {
               </Button>
               <ExportExcelButton
                 rows={exportRows}
-                fileName="purchases"
-                sheetName="Purchases"
+                fileName="purchase-bills"
+                sheetName="Purchase Bills"
                 label="Export to Excel"
                 variant="outline"
               />
             </div>
-            <Button onClick={() => setIsDialogOpen(true)}>
+            <Button onClick={openNew}>
               <Plus className="h-4 w-4 mr-2" />
-              Add Purchase
+              Add Purchase Bill
             </Button>
           </div>
 
-          {filteredPurchases.length === 0 ? (
+          {filteredBills.length === 0 ? (
             <div className="rounded-lg border border-dashed border-muted-foreground/30 p-10 text-center text-muted-foreground">
-              {isLoading ? "Loading purchases..." : "No purchases found. Add your first purchase."}
+              {isLoading ? "Loading purchase bills..." : "No purchase bills found. Add your first bill."}
             </div>
           ) : (
-            <DataTable data={filteredPurchases} columns={columns} keyField="id" />
+            <DataTable data={filteredBills} columns={columns} keyField="id" />
           )}
         </Card>
       </div>
 
+      <PurchaseBillDialog bill={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="sm:max-w-2xl">
+        <DialogContent className="sm:max-w-6xl max-h-[90vh] overflow-y-auto">
           <form onSubmit={handleSubmit}>
             <DialogHeader>
-              <DialogTitle>Add Purchase</DialogTitle>
+              <DialogTitle>Add Purchase Bill</DialogTitle>
             </DialogHeader>
 
             <div className="space-y-4 py-2">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="date">Date</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                    required
-                  />
-                </div>
-
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="space-y-2">
-                  <Label>Supplier</Label>
-                  <Select
-                    value={formData.supplierId}
-                    onValueChange={(value) => setFormData({ ...formData, supplierId: value })}
-                  >
+                  <Label>Supplier *</Label>
+                  <Select value={formData.supplierId} onValueChange={(supplierId) => setFormData((s) => ({ ...s, supplierId }))}>
                     <SelectTrigger>
                       <SelectValue placeholder={suppliers.length ? "Select supplier" : "No suppliers"} />
                     </SelectTrigger>
@@ -558,143 +400,224 @@ export default function Purchases() {
                     </SelectContent>
                   </Select>
                 </div>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="invoiceNo">Invoice No.</Label>
+                  <Label htmlFor="billNo">Supplier Bill No. *</Label>
                   <Input
-                    id="invoiceNo"
-                    value={formData.invoiceNo}
-                    onChange={(e) => setFormData({ ...formData, invoiceNo: e.target.value })}
+                    id="billNo"
+                    value={formData.billNo}
+                    onChange={(e) => setFormData({ ...formData, billNo: e.target.value })}
                     placeholder="INV-0001"
                     required
                   />
                 </div>
-
-                <div className="space-y-2">
-                  <Label>Item</Label>
-                  <Select
-                    value={formData.itemId}
-                    onValueChange={(value) => {
-                      const item = items.find((i) => i.id === value);
-                      setFormData({
-                        ...formData,
-                        itemId: value,
-                        unit: item?.unit || formData.unit,
-                      });
-                    }}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={items.length ? "Select item" : "No items"} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {items.map((i) => (
-                        <SelectItem key={i.id} value={i.id}>
-                          <span className="flex items-center gap-2">
-                            <Badge variant="outline" className="font-mono text-[10px]">{i.code}</Badge>
-                            <span>{i.name}</span>
-                          </span>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="quantity">Quantity</Label>
+                  <Label htmlFor="billDate">Bill Date</Label>
                   <Input
-                    id="quantity"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={formData.quantity}
-                    onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
-                    placeholder="0"
+                    id="billDate"
+                    type="date"
+                    value={formData.billDate}
+                    onChange={(e) => setFormData({ ...formData, billDate: e.target.value })}
                     required
                   />
                 </div>
-
                 <div className="space-y-2">
-                  <Label htmlFor="unit">Unit</Label>
+                  <Label htmlFor="dueDate">Due Date</Label>
                   <Input
-                    id="unit"
-                    value={formData.unit}
-                    onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
-                    placeholder="pcs / kg / box"
+                    id="dueDate"
+                    type="date"
+                    value={formData.dueDate}
+                    onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
                   />
                 </div>
+              </div>
 
-                <div className="space-y-2">
-                  <Label>Total Price</Label>
-                  <div className="h-10 px-3 rounded-md border border-input bg-muted flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Computed</span>
-                    <span className="font-semibold">
-                      ₹{computedTotal.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                    </span>
+              <div className="space-y-3">
+                <Label>Items (rate per unit before GST; supplier batch and expiry for each)</Label>
+                {formData.items.map((line, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-[1fr_90px_70px_100px_70px_120px_140px_140px_auto] gap-2 items-center"
+                  >
+                    <Select
+                      value={line.itemId}
+                      onValueChange={(itemId) => {
+                        const item = items.find((i) => i.id === itemId);
+                        updateLine(index, {
+                          itemId,
+                          unit: item?.unit || line.unit,
+                          ...(item?.gstRate !== undefined && { tax: String(item.gstRate) }),
+                        });
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={items.length ? "Select item" : "No items"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {items.map((i) => (
+                          <SelectItem key={i.id} value={i.id}>
+                            {i.code} - {i.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      placeholder="Qty"
+                    />
+                    <Input value={line.unit} onChange={(e) => updateLine(index, { unit: e.target.value })} placeholder="Unit" />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.rate}
+                      onChange={(e) => updateLine(index, { rate: e.target.value })}
+                      placeholder="Rate"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.tax}
+                      onChange={(e) => updateLine(index, { tax: e.target.value })}
+                      placeholder="GST %"
+                    />
+                    <Input
+                      value={line.lotNo}
+                      onChange={(e) => updateLine(index, { lotNo: e.target.value })}
+                      placeholder="Supplier batch"
+                    />
+                    <Input
+                      type="date"
+                      value={line.manufacturingDate}
+                      onChange={(e) => updateLine(index, { manufacturingDate: e.target.value })}
+                      title="Mfg. date"
+                    />
+                    <Input
+                      type="date"
+                      value={line.expiryDate}
+                      onChange={(e) => updateLine(index, { expiryDate: e.target.value })}
+                      title="Expiry date"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={formData.items.length === 1}
+                      onClick={() => setFormData((prev) => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </div>
-                </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full gap-2"
+                  onClick={() => setFormData((prev) => ({ ...prev, items: [...prev.items, emptyLine] }))}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Item
+                </Button>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="invoicePrice">Invoice Price (per unit)</Label>
-                  <Input
-                    id="invoicePrice"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={formData.invoicePrice}
-                    onChange={(e) => setFormData({ ...formData, invoicePrice: e.target.value })}
-                    placeholder="0.00"
-                  />
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="freight">Freight</Label>
+                      <Input
+                        id="freight"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.freight}
+                        onChange={(e) => setFormData({ ...formData, freight: e.target.value })}
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="discount">Discount</Label>
+                      <Input
+                        id="discount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.discount}
+                        onChange={(e) => setFormData({ ...formData, discount: e.target.value })}
+                        placeholder="0.00"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="billNotes">Notes</Label>
+                    <Textarea
+                      id="billNotes"
+                      value={formData.notes}
+                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                      rows={2}
+                    />
+                  </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="taxInvoicePrice">Tax Invoice Price (per unit)</Label>
-                  <Input
-                    id="taxInvoicePrice"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={formData.taxInvoicePrice}
-                    onChange={(e) => {
-                      const value = e.target.value;
-                      setFormData((prev) => {
-                        const tax = safeNumber(value);
-                        return {
-                          ...prev,
-                          taxInvoicePrice: value,
-                          notTaxInvoice: tax > 0 ? false : prev.notTaxInvoice,
-                        };
-                      });
-                    }}
-                    placeholder="0.00"
-                    disabled={formData.notTaxInvoice}
-                  />
-                </div>
-              </div>
-
-              <div className="flex items-center gap-3 rounded-lg border p-3">
-                <Checkbox
-                  id="notTaxInvoice"
-                  checked={formData.notTaxInvoice}
-                  onCheckedChange={(checked) => {
-                    const isNonTax = Boolean(checked);
-                    setFormData((prev) => ({
-                      ...prev,
-                      notTaxInvoice: isNonTax,
-                      taxInvoicePrice: isNonTax ? "" : prev.taxInvoicePrice,
-                    }));
-                  }}
-                />
-                <div className="flex-1">
-                  <Label htmlFor="notTaxInvoice">Not a tax invoice</Label>
-                  <p className="text-xs text-muted-foreground">
-                    If enabled, Total Price uses Invoice Price; otherwise it uses Tax Invoice Price (or Invoice Price if tax price is empty).
-                  </p>
+                <div className="rounded-lg border p-3 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Value</span>
+                    <span>₹{money(priced.subtotal)}</span>
+                  </div>
+                  {priced.discount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Discount</span>
+                      <span>-₹{money(priced.discount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Taxable value</span>
+                    <span>₹{money(priced.taxable)}</span>
+                  </div>
+                  {taxType === "IGST" ? (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">IGST</span>
+                      <span>₹{money(priced.igst)}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">CGST</span>
+                        <span>₹{money(priced.cgst)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">SGST</span>
+                        <span>₹{money(priced.sgst)}</span>
+                      </div>
+                    </>
+                  )}
+                  {priced.freight > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Freight</span>
+                      <span>₹{money(priced.freight)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between border-t pt-1 font-semibold">
+                    <span>Bill total</span>
+                    <span>₹{money(priced.total)}</span>
+                  </div>
+                  {priced.items.length > 0 && (
+                    <div className="pt-2 text-xs text-muted-foreground space-y-0.5">
+                      {priced.items.map((l, i) => (
+                        <div key={i} className="flex justify-between">
+                          <span>{l.itemName} landed at</span>
+                          <span>
+                            ₹{money(landedRate(l))}/{l.unit}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -703,25 +626,19 @@ export default function Purchases() {
                 <div>
                   <div className="font-medium text-foreground">Raw Inventory update</div>
                   <div>
-                    This purchase will create/update the Raw Inventory record using the selected item code.
+                    Each line is received into Raw Inventory under its item code as a new lot. Freight and the discount are
+                    spread over the lines by value for their landed cost.
                   </div>
                 </div>
               </div>
             </div>
 
             <DialogFooter>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => {
-                  setIsDialogOpen(false);
-                  resetForm();
-                }}
-              >
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                 Cancel
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Saving..." : "Save Purchase"}
+                {isSubmitting ? "Saving..." : "Save Purchase Bill"}
               </Button>
             </DialogFooter>
           </form>
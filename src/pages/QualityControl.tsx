@@ -0,0 +1,627 @@
+import { useMemo, useState } from "react";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { StatCard } from "@/components/cards/StatCard";
+import { DataTable } from "@/components/tables/DataTable";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { useRecords } from "@/hooks/use-records";
+import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import type { CompanyDetails } from "@/lib/company";
+import { drawPdfLetterhead } from "@/lib/letterhead";
+import { BatchStateError } from "@/lib/production";
+import {
+  DEFAULT_QC_PARAMETERS,
+  decideQc,
+  evaluateTest,
+  findSpecification,
+  saveQcResults,
+  specificationText,
+} from "@/lib/qc";
+import { createRecord, deleteRecord, updateRecord } from "@/lib/repository";
+import type { BatchQcStatus, BatchRecord, QcParameter, QcSpecificationRecord, QcTestRecord } from "@/lib/schemas";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { CheckCircle2, FileText, Pencil, Plus, ShieldAlert, ShieldCheck, Trash2, XCircle } from "lucide-react";
+
+const qcBadge: Record<BatchQcStatus, { label: string; className: string }> = {
+  quarantine: { label: "Quarantine", className: "bg-warning/20 text-warning" },
+  released: { label: "Released", className: "badge-processed" },
+  rejected: { label: "Rejected", className: "bg-destructive/20 text-destructive" },
+};
+
+type ParameterRow = { name: string; unit: string; min: string; max: string; method: string };
+
+const toRow = (p: QcParameter): ParameterRow => ({
+  name: p.name,
+  unit: p.unit,
+  min: p.min === undefined ? "" : String(p.min),
+  max: p.max === undefined ? "" : String(p.max),
+  method: p.method ?? "",
+});
+
+const optionalNumber = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+function qcErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof BatchStateError ? error.message : fallback;
+}
+
+function downloadCoa(company: CompanyDetails, batch: BatchRecord, test: QcTestRecord) {
+  const doc = new jsPDF();
+
+  const top = drawPdfLetterhead(doc, company);
+  doc.setFontSize(18);
+  doc.text("Certificate of Analysis", 14, top + 6);
+
+  doc.setFontSize(10);
+  const details: [string, string][] = [
+    ["Product", test.productName || batch.producedItemName || "-"],
+    ["Batch No.", batch.manualBatchNo ? `${batch.batchNo} / ${batch.manualBatchNo}` : batch.batchNo],
+    ["Manufacturing Date", batch.batchDate || "-"],
+    ["Batch Size", `${batch.actualOutputQuantity ?? 0} ${batch.items[0]?.unit || "kg"}`],
+    ["Date of Analysis", test.testedDate || "-"],
+    ["Release Date", test.decidedDate || "-"],
+  ];
+  autoTable(doc, {
+    startY: top + 12,
+    body: details,
+    theme: "plain",
+    styles: { fontSize: 10, cellPadding: 1 },
+    columnStyles: { 0: { fontStyle: "bold", cellWidth: 50 } },
+  });
+
+  let y = top + 12 + details.length * 7 + 6;
+  autoTable(doc, {
+    startY: y,
+    head: [["Test", "Method", "Specification", "Result", "Complies"]],
+    body: test.results.map((r) => [
+      r.name,
+      r.method || "-",
+      specificationText(r),
+      r.value === undefined ? "-" : `${r.value}${r.unit ? ` ${r.unit}` : ""}`,
+      r.passed ? "Yes" : "No",
+    ]),
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [59, 130, 246] },
+    didDrawPage: (hook) => {
+      y = hook.cursor?.y ?? y;
+    },
+  });
+
+  y += 12;
+  doc.setFontSize(10);
+  doc.text("The batch complies with the specification and is released for sale.", 14, y);
+  if (test.remarks) doc.text(`Remarks: ${test.remarks}`, 14, y + 6);
+  doc.text(`Tested by: ${test.testedBy || "-"}`, 14, y + 20);
+  doc.text(`Released by (QA): ${test.decidedBy || "-"}`, 110, y + 20);
+
+  doc.save(`CoA_${batch.batchNo.replace(/[^A-Za-z0-9]+/g, "_")}.pdf`);
+}
+
+export default function QualityControl() {
+  const { toast } = useToast();
+  const { company } = useCompany();
+  const { can } = useAuth();
+  const [tab, setTab] = useState("batches");
+
+  const batchesQuery = useRecords("batches", { where: [["status", "==", "approved"]] });
+  const testsQuery = useRecords("qcTests");
+  const specsQuery = useRecords("qcSpecifications");
+
+  const specs = useMemo(
+    () => [...(specsQuery.data ?? [])].sort((a, b) => a.productName.localeCompare(b.productName)),
+    [specsQuery.data]
+  );
+  const testsByBatch = useMemo(() => new Map((testsQuery.data ?? []).map((t) => [t.batchId, t])), [testsQuery.data]);
+  const batches = useMemo(
+    () =>
+      [...(batchesQuery.data ?? [])].sort(
+        (a, b) =>
+          Number(b.qcStatus === "quarantine") - Number(a.qcStatus === "quarantine") ||
+          b.batchDate.localeCompare(a.batchDate)
+      ),
+    [batchesQuery.data]
+  );
+
+  // Results / decision dialog
+  const [activeBatch, setActiveBatch] = useState<BatchRecord | null>(null);
+  const [values, setValues] = useState<string[]>([]);
+  const [testedBy, setTestedBy] = useState("");
+  const [testedDate, setTestedDate] = useState("");
+  const [remarks, setRemarks] = useState("");
+  const [decidedBy, setDecidedBy] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeSpec = activeBatch ? findSpecification(specs, activeBatch.producedItemName) : undefined;
+  const activeTest = activeBatch ? testsByBatch.get(activeBatch.id) : undefined;
+  const preview = useMemo(
+    () => evaluateTest(activeSpec?.parameters ?? [], values.map(optionalNumber)),
+    [activeSpec, values]
+  );
+
+  const openResults = (batch: BatchRecord) => {
+    const spec = findSpecification(specs, batch.producedItemName);
+    const test = testsByBatch.get(batch.id);
+    setActiveBatch(batch);
+    setValues(
+      (spec?.parameters ?? []).map((p) => {
+        const previous = test?.results.find((r) => r.name === p.name)?.value;
+        return previous === undefined ? "" : String(previous);
+      })
+    );
+    setTestedBy(test?.testedBy ?? "");
+    setTestedDate(test?.testedDate ?? new Date().toISOString().split("T")[0]);
+    setRemarks(test?.remarks ?? "");
+    setDecidedBy("");
+  };
+
+  const refresh = () => Promise.all([batchesQuery.refetch(), testsQuery.refetch()]);
+
+  const handleSaveResults = async () => {
+    if (!activeBatch) return;
+    setIsSaving(true);
+    try {
+      const status = await saveQcResults(activeBatch, activeSpec, values.map(optionalNumber), {
+        testedBy: testedBy.trim() || undefined,
+        testedDate,
+        remarks: remarks.trim() || undefined,
+      });
+      toast({ title: "Results saved", description: `Batch ${activeBatch.batchNo}: ${status}.` });
+      await refresh();
+    } catch (error) {
+      console.error("Error saving QC results", error);
+      toast({ title: "Save failed", description: qcErrorMessage(error, "Could not save QC results."), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDecision = async (decision: "released" | "rejected") => {
+    if (!activeBatch) return;
+    if (!decidedBy.trim()) {
+      toast({ title: "Validation error", description: "Enter who is signing off the batch.", variant: "destructive" });
+      return;
+    }
+    if (decision === "rejected" && !confirm(`Reject batch ${activeBatch.batchNo}? Its output will be written off stock.`)) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await decideQc(activeBatch.id, decision, decidedBy.trim());
+      toast({
+        title: decision === "released" ? "Batch released" : "Batch rejected",
+        description:
+          decision === "released"
+            ? `${activeBatch.producedItemName} from ${activeBatch.batchNo} can now be invoiced.`
+            : `${activeBatch.actualOutputQuantity ?? 0} of ${activeBatch.producedItemName} written off.`,
+      });
+      setActiveBatch(null);
+      await refresh();
+    } catch (error) {
+      console.error("Error deciding QC", error);
+      toast({ title: "Update failed", description: qcErrorMessage(error, "Could not update the batch."), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Specification dialog
+  const [editingSpec, setEditingSpec] = useState<QcSpecificationRecord | null>(null);
+  const [isSpecOpen, setIsSpecOpen] = useState(false);
+  const [specProduct, setSpecProduct] = useState("");
+  const [specNotes, setSpecNotes] = useState("");
+  const [paramRows, setParamRows] = useState<ParameterRow[]>([]);
+
+  const openSpec = (spec: QcSpecificationRecord | null) => {
+    setEditingSpec(spec);
+    setSpecProduct(spec?.productName ?? "");
+    setSpecNotes(spec?.notes ?? "");
+    setParamRows((spec?.parameters.length ? spec.parameters : DEFAULT_QC_PARAMETERS).map(toRow));
+    setIsSpecOpen(true);
+  };
+
+  const updateParam = (index: number, patch: Partial<ParameterRow>) => {
+    setParamRows((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleSaveSpec = async () => {
+    const parameters = paramRows
+      .filter((row) => row.name.trim())
+      .map((row) => ({
+        name: row.name.trim(),
+        unit: row.unit.trim(),
+        min: optionalNumber(row.min),
+        max: optionalNumber(row.max),
+        method: row.method.trim() || undefined,
+      }));
+    if (!specProduct.trim() || parameters.length === 0) {
+      toast({ title: "Validation error", description: "Enter the product and at least one test.", variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const payload = { productName: specProduct.trim(), parameters, notes: specNotes.trim() || undefined };
+      if (editingSpec) {
+        await updateRecord("qcSpecifications", editingSpec.id, payload);
+      } else {
+        await createRecord("qcSpecifications", payload);
+      }
+      toast({ title: "Specification saved", description: `${payload.productName} has ${parameters.length} tests.` });
+      setIsSpecOpen(false);
+      await specsQuery.refetch();
+    } catch (error) {
+      console.error("Error saving specification", error);
+      toast({ title: "Save failed", description: "Could not save the specification.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteSpec = async (spec: QcSpecificationRecord) => {
+    if (!confirm(`Delete the specification for ${spec.productName}?`)) return;
+    try {
+      await deleteRecord("qcSpecifications", spec.id);
+      await specsQuery.refetch();
+    } catch (error) {
+      console.error("Error deleting specification", error);
+      toast({ title: "Delete failed", description: "Could not delete the specification.", variant: "destructive" });
+    }
+  };
+
+  const batchColumns = [
+    {
+      key: "batchNo",
+      header: "Batch No.",
+      render: (b: BatchRecord) => (
+        <div>
+          <div className="font-medium">{b.batchNo}</div>
+          {b.manualBatchNo && <div className="text-xs text-muted-foreground">{b.manualBatchNo}</div>}
+        </div>
+      ),
+    },
+    { key: "producedItemName", header: "Product" },
+    {
+      key: "actualOutputQuantity",
+      header: "Output",
+      render: (b: BatchRecord) => `${b.actualOutputQuantity ?? 0} ${b.items[0]?.unit || "kg"}`,
+    },
+    { key: "batchDate", header: "Batch Date" },
+    {
+      key: "qcStatus",
+      header: "QC Status",
+      render: (b: BatchRecord) => <span className={`badge-type ${qcBadge[b.qcStatus].className}`}>{qcBadge[b.qcStatus].label}</span>,
+    },
+    {
+      key: "id",
+      header: "Results",
+      render: (b: BatchRecord) => {
+        const test = testsByBatch.get(b.id);
+        if (!test) return <span className="text-xs text-muted-foreground">Not tested</span>;
+        return (
+          <Badge variant={test.status === "passed" ? "default" : test.status === "failed" ? "destructive" : "secondary"}>
+            {test.status}
+          </Badge>
+        );
+      },
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (b: BatchRecord) => {
+        const test = testsByBatch.get(b.id);
+        return (
+          <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+            {b.qcStatus === "quarantine" && (
+              <Button size="sm" variant="outline" onClick={() => openResults(b)}>
+                Enter Results
+              </Button>
+            )}
+            {b.qcStatus === "released" && test?.status === "passed" && (
+              <Button size="sm" variant="outline" className="gap-1" onClick={() => downloadCoa(company, b, test)}>
+                <FileText className="h-4 w-4" />
+                CoA
+              </Button>
+            )}
+          </div>
+        );
+      },
+    },
+  ];
+
+  const quarantined = batches.filter((b) => b.qcStatus === "quarantine");
+
+  return (
+    <>
+      <AppHeader title="Quality Control" subtitle="Test finished batches, release them for sale and issue certificates" />
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <StatCard
+            title="In Quarantine"
+            value={quarantined.length}
+            icon={ShieldAlert}
+            iconBgColor="bg-warning/20"
+            iconColor="text-warning"
+          />
+          <StatCard
+            title="Released"
+            value={batches.filter((b) => b.qcStatus === "released").length}
+            icon={ShieldCheck}
+            iconBgColor="bg-success/20"
+            iconColor="text-success"
+          />
+          <StatCard
+            title="Rejected"
+            value={batches.filter((b) => b.qcStatus === "rejected").length}
+            icon={XCircle}
+            iconBgColor="bg-destructive/20"
+            iconColor="text-destructive"
+          />
+        </div>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="batches">Batches</TabsTrigger>
+            <TabsTrigger value="specifications">Specifications</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="batches">
+            <Card className="p-6">
+              {batches.length === 0 ? (
+                <p className="text-center py-10 text-muted-foreground">
+                  {batchesQuery.isLoading ? "Loading batches..." : "No approved batches yet."}
+                </p>
+              ) : (
+                <DataTable data={batches} columns={batchColumns} keyField="id" />
+              )}
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="specifications">
+            <Card className="p-6 space-y-4">
+              <div className="flex justify-end">
+                <Button onClick={() => openSpec(null)} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Specification
+                </Button>
+              </div>
+              {specs.length === 0 ? (
+                <p className="text-center py-10 text-muted-foreground">
+                  No specifications yet. Batches can't be tested until their product has one.
+                </p>
+              ) : (
+                specs.map((spec) => (
+                  <div key={spec.id} className="rounded-xl border border-border p-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-semibold">{spec.productName}</h3>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => openSpec(spec)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {can("deleteRecords") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteSpec(spec)}
+                            className="hover:bg-destructive/10 hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2 text-sm">
+                      {spec.parameters.map((p) => (
+                        <Badge key={p.name} variant="outline">
+                          {p.name}: {specificationText(p)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={!!activeBatch} onOpenChange={(open) => !open && setActiveBatch(null)}>
+        <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              QC Results: {activeBatch?.batchNo} ({activeBatch?.producedItemName})
+            </DialogTitle>
+          </DialogHeader>
+
+          {!activeSpec ? (
+            <p className="text-sm text-muted-foreground py-4">
+              There is no specification for {activeBatch?.producedItemName}. Add one on the Specifications tab first.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="rounded-xl border border-border overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Test</TableHead>
+                      <TableHead>Specification</TableHead>
+                      <TableHead className="w-[140px]">Result</TableHead>
+                      <TableHead className="w-[80px]">Complies</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {activeSpec.parameters.map((p, i) => (
+                      <TableRow key={p.name}>
+                        <TableCell className="font-medium">
+                          {p.name}
+                          {p.method && <div className="text-xs text-muted-foreground">{p.method}</div>}
+                        </TableCell>
+                        <TableCell>{specificationText(p)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="any"
+                            value={values[i] ?? ""}
+                            onChange={(e) => setValues((prev) => prev.map((v, j) => (j === i ? e.target.value : v)))}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {values[i] ? (
+                            preview.results[i]?.passed ? (
+                              <CheckCircle2 className="h-5 w-5 text-success" />
+                            ) : (
+                              <XCircle className="h-5 w-5 text-destructive" />
+                            )
+                          ) : null}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="testedBy">Tested By</Label>
+                  <Input id="testedBy" value={testedBy} onChange={(e) => setTestedBy(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="testedDate">Date of Analysis</Label>
+                  <Input id="testedDate" type="date" value={testedDate} onChange={(e) => setTestedDate(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="qcRemarks">Remarks</Label>
+                <Textarea id="qcRemarks" rows={2} value={remarks} onChange={(e) => setRemarks(e.target.value)} />
+              </div>
+
+              <div className="flex items-center justify-between rounded-lg bg-muted/40 p-3 text-sm">
+                <span>
+                  Overall: <span className="font-semibold capitalize">{preview.status}</span>
+                  {activeTest && (
+                    <span className="text-muted-foreground"> (saved: {activeTest.status})</span>
+                  )}
+                </span>
+                <Button variant="outline" onClick={handleSaveResults} disabled={isSaving}>
+                  Save Results
+                </Button>
+              </div>
+
+              <div className="border-t border-border pt-4 grid grid-cols-[1fr_auto_auto] gap-3 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="decidedBy">QA Sign-off</Label>
+                  <Input
+                    id="decidedBy"
+                    value={decidedBy}
+                    onChange={(e) => setDecidedBy(e.target.value)}
+                    placeholder="Name of the person releasing or rejecting"
+                  />
+                </div>
+                <Button
+                  variant="destructive"
+                  onClick={() => handleDecision("rejected")}
+                  disabled={isSaving}
+                >
+                  Reject
+                </Button>
+                <Button onClick={() => handleDecision("released")} disabled={isSaving || activeTest?.status !== "passed"}>
+                  Release
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Save passing results before releasing the batch.</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setActiveBatch(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isSpecOpen} onOpenChange={setIsSpecOpen}>
+        <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSpec ? "Edit Specification" : "Add Specification"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="specProduct">Product</Label>
+              <Input
+                id="specProduct"
+                value={specProduct}
+                onChange={(e) => setSpecProduct(e.target.value)}
+                placeholder="Same name as the batch's produced item"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tests</Label>
+              <div className="grid grid-cols-[2fr_80px_90px_90px_1.5fr_auto] gap-2 text-xs text-muted-foreground">
+                <span>Test</span>
+                <span>Unit</span>
+                <span>Min</span>
+                <span>Max</span>
+                <span>Method</span>
+                <span />
+              </div>
+              {paramRows.map((row, i) => (
+                <div key={i} className="grid grid-cols-[2fr_80px_90px_90px_1.5fr_auto] gap-2">
+                  <Input value={row.name} onChange={(e) => updateParam(i, { name: e.target.value })} />
+                  <Input value={row.unit} onChange={(e) => updateParam(i, { unit: e.target.value })} />
+                  <Input type="number" step="any" value={row.min} onChange={(e) => updateParam(i, { min: e.target.value })} />
+                  <Input type="number" step="any" value={row.max} onChange={(e) => updateParam(i, { max: e.target.value })} />
+                  <Input value={row.method} onChange={(e) => updateParam(i, { method: e.target.value })} placeholder="e.g. IP, HPLC" />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setParamRows((rows) => rows.filter((_, j) => j !== i))}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                className="w-full gap-2"
+                onClick={() => setParamRows((rows) => [...rows, { name: "", unit: "", min: "", max: "", method: "" }])}
+              >
+                <Plus className="h-4 w-4" />
+                Add Test
+              </Button>
+              <p className="text-xs text-muted-foreground">Leave Min and Max empty for tests that are only reported.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="specNotes">Notes</Label>
+              <Textarea id="specNotes" rows={2} value={specNotes} onChange={(e) => setSpecNotes(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSpecOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSpec} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Specification"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -6,33 +6,25 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useRecords } from "@/hooks/use-records";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, deleteDoc, doc, getDocs, orderBy, query, addDoc, Timestamp } from "firebase/firestore";
-import { Calendar, DollarSign, FileText, Filter, Plus, RefreshCw, Search, Trash2, FileCheck } from "lucide-react";
-
-interface QuotationRecord {
-  id: string;
-  quotationNo: string;
-  manualQuotationNo?: string;
-  partyType: "customer" | "supplier";
-  partyId: string;
-  partyName: string;
-  issueDate: string;
-  validUntil?: string;
-  total: number;
-  status?: string;
-  lineItems?: any[];
-  notes?: string;
-  createdAt?: Date;
-}
+import { stateCodeFromGstin } from "@/lib/gst";
+import { InsufficientStockError } from "@/lib/production";
+import { createProformaInvoice, ProformaInvoiceError } from "@/lib/proforma-invoices";
+import { deleteQuotation } from "@/lib/quotations";
+import { createSalesOrder, SalesOrderError } from "@/lib/sales-orders";
+import type { QuotationRecord } from "@/lib/schemas";
+import { Calendar, ClipboardCheck, DollarSign, FileText, Filter, Plus, RefreshCw, Search, Trash2, FileCheck } from "lucide-react";
 
 export default function Quotations() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [quotations, setQuotations] = useState<QuotationRecord[]>([]);
+  const { can } = useAuth();
+  const quotationsQuery = useRecords("quotations", { orderBy: "issueDate", direction: "desc" });
+  const quotations = useMemo(() => quotationsQuery.data ?? [], [quotationsQuery.data]);
   const [search, setSearch] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
+  const isLoading = quotationsQuery.isFetching;
 
   const CURRENCY = "₹";
 
@@ -61,61 +53,25 @@ export default function Quotations() {
     return { total, totalValue, pending, approved };
   }, [quotations]);
 
-  const fetchQuotations = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized.",
-        variant: "destructive",
-      });
-      return;
-    }
+  useEffect(() => {
+    if (!quotationsQuery.error) return;
+    console.error("Error fetching quotations", quotationsQuery.error);
+    toast({
+      title: "Load failed",
+      description: "Could not load quotations.",
+      variant: "destructive",
+    });
+  }, [quotationsQuery.error, toast]);
 
-    setIsLoading(true);
-    try {
-      const q = query(collection(db, "quotations"), orderBy("issueDate", "desc"));
-      const snap = await getDocs(q);
-      const list = snap.docs.map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          quotationNo: (data.quotationNo || "").toString(),
-          manualQuotationNo: data.manualQuotationNo ? data.manualQuotationNo.toString() : undefined,
-          partyType: (data.partyType || "customer") as "customer" | "supplier",
-          partyId: (data.partyId || "").toString(),
-          partyName: (data.partyName || "").toString(),
-          issueDate: (data.issueDate || "").toString(),
-          validUntil: data.validUntil ? data.validUntil.toString() : undefined,
-          total: typeof data.total === "number" ? data.total : parseFloat(data.total) || 0,
-          status: data.status ? data.status.toString() : undefined,
-          lineItems: data.lineItems || [],
-          notes: data.notes ? data.notes.toString() : undefined,
-          createdAt: data.createdAt?.toDate?.() || new Date(),
-        } as QuotationRecord;
-      });
-      setQuotations(list);
-    } catch (error) {
-      console.error("Error fetching quotations", error);
-      toast({
-        title: "Load failed",
-        description: "Could not load quotations.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const fetchQuotations = () => {
+    quotationsQuery.refetch();
   };
 
-  useEffect(() => {
-    fetchQuotations();
-  }, []);
-
   const handleDelete = async (id: string) => {
-    if (!db) return;
     if (!confirm("Delete this quotation?")) return;
 
     try {
-      await deleteDoc(doc(db, "quotations", id));
+      await deleteQuotation(id);
       toast({ title: "Deleted", description: "Quotation removed." });
       fetchQuotations();
     } catch (error) {
@@ -128,38 +84,27 @@ export default function Quotations() {
     }
   };
 
-  const handleConvertToProformaInvoice = async (quotation: QuotationRecord) => {
-    if (!db) return;
+  const convertedNotes = (quotation: QuotationRecord) =>
+    `Converted from quotation ${quotation.manualQuotationNo || quotation.quotationNo}${quotation.notes ? "\n" + quotation.notes : ""}`;
 
+  const handleConvertToProformaInvoice = async (quotation: QuotationRecord) => {
     try {
-      // Get the latest proforma invoice number
-      const q = query(collection(db, "proformaInvoices"), orderBy("createdAt", "desc"));
-      const snap = await getDocs(q);
-      
-      let nextNumber = 1;
-      if (snap.docs.length > 0) {
-        const lastDoc = snap.docs[0].data();
-        const lastNum = lastDoc.proformaInvoiceNo || "PI-0";
-        const match = lastNum.match(/PI-(\d+)/);
-        if (match) nextNumber = parseInt(match[1], 10) + 1;
-      }
-
-      const proformaInvoiceNo = `PI-${String(nextNumber).padStart(4, "0")}`;
-
-      // Create the proforma invoice
-      await addDoc(collection(db, "proformaInvoices"), {
-        proformaInvoiceNo,
-        partyType: quotation.partyType,
-        partyId: quotation.partyId,
-        partyName: quotation.partyName,
-        issueDate: quotation.issueDate,
-        lineItems: quotation.lineItems || [],
-        subtotal: quotation.total,
-        total: quotation.total,
-        status: "In Process",
-        notes: `Converted from quotation ${quotation.manualQuotationNo || quotation.quotationNo}${quotation.notes ? "\n" + quotation.notes : ""}`,
-        createdAt: Timestamp.now(),
-      });
+      const proformaInvoiceNo = await createProformaInvoice(
+        {
+          partyType: quotation.partyType,
+          partyId: quotation.partyId,
+          partyName: quotation.partyName,
+          customer: quotation.customer,
+          issueDate: quotation.issueDate,
+          items: quotation.items,
+          subtotal: quotation.total,
+          total: quotation.total,
+          status: "In Process",
+          notes: convertedNotes(quotation),
+          branch: quotation.branch,
+        },
+        quotation.id
+      );
 
       toast({
         title: "Converted",
@@ -169,58 +114,41 @@ export default function Quotations() {
       navigate("/proforma-invoices");
     } catch (error) {
       console.error("Error converting to proforma invoice", error);
+      const invalid = error instanceof ProformaInvoiceError || error instanceof InsufficientStockError;
       toast({
-        title: "Conversion failed",
-        description: "Could not convert to proforma invoice.",
+        title: invalid ? "Validation error" : "Conversion failed",
+        description: error instanceof Error ? error.message : "Could not convert to proforma invoice.",
         variant: "destructive",
       });
     }
   };
 
-  const handleConvertToInvoice = async (quotation: QuotationRecord) => {
-    if (!db) return;
-
+  const handleConvertToSalesOrder = async (quotation: QuotationRecord) => {
     try {
-      // Get the latest invoice number
-      const q = query(collection(db, "invoices"), orderBy("createdAt", "desc"));
-      const snap = await getDocs(q);
-      
-      let nextNumber = 1;
-      if (snap.docs.length > 0) {
-        const lastDoc = snap.docs[0].data();
-        const lastNum = lastDoc.invoiceNo || "INV-0";
-        const match = lastNum.match(/INV-(\d+)/);
-        if (match) nextNumber = parseInt(match[1], 10) + 1;
-      }
-
-      const invoiceNo = `INV-${String(nextNumber).padStart(4, "0")}`;
-
-      // Create the invoice
-      await addDoc(collection(db, "invoices"), {
-        invoiceNo,
-        partyType: quotation.partyType,
+      const orderNo = await createSalesOrder({
+        orderDate: new Date().toISOString().slice(0, 10),
         partyId: quotation.partyId,
         partyName: quotation.partyName,
-        issueDate: quotation.issueDate,
-        lineItems: quotation.lineItems || [],
-        subtotal: quotation.total,
-        total: quotation.total,
-        status: "Unpaid",
-        notes: `Converted from quotation ${quotation.manualQuotationNo || quotation.quotationNo}${quotation.notes ? "\n" + quotation.notes : ""}`,
-        createdAt: Timestamp.now(),
+        customer: quotation.customer,
+        placeOfSupply: quotation.placeOfSupply || stateCodeFromGstin(quotation.customer?.gst),
+        items: quotation.items,
+        notes: convertedNotes(quotation),
+        branch: quotation.branch,
+        quotationId: quotation.id,
       });
 
       toast({
         title: "Converted",
-        description: `Quotation converted to Invoice ${invoiceNo}`,
+        description: `Quotation converted to Sales Order ${orderNo}; its stock is reserved.`,
       });
 
-      navigate("/invoices");
+      navigate("/sales-orders");
     } catch (error) {
-      console.error("Error converting to invoice", error);
+      console.error("Error converting to sales order", error);
+      const invalid = error instanceof SalesOrderError || error instanceof InsufficientStockError;
       toast({
-        title: "Conversion failed",
-        description: "Could not convert to invoice.",
+        title: invalid ? "Validation error" : "Conversion failed",
+        description: error instanceof Error ? error.message : "Could not convert to sales order.",
         variant: "destructive",
       });
     }
@@ -347,6 +275,7 @@ export default function Quotations() {
                               variant="ghost"
                               size="sm"
                               onClick={() => handleConvertToProformaInvoice(quot)}
+                              disabled={quot.status === "Converted"}
                               title="Convert to Proforma Invoice"
                             >
                               <FileCheck className="w-4 h-4" />
@@ -354,14 +283,17 @@ export default function Quotations() {
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => handleConvertToInvoice(quot)}
-                              title="Convert to Invoice"
+                              onClick={() => handleConvertToSalesOrder(quot)}
+                              disabled={quot.status === "Converted"}
+                              title="Convert to Sales Order"
                             >
-                              <FileText className="w-4 h-4" />
-                            </Button>
-                            <Button variant="ghost" size="sm" onClick={() => handleDelete(quot.id)}>
-                              <Trash2 className="w-4 h-4" />
+                              <ClipboardCheck className="w-4 h-4" />
                             </Button>
+                            {can("deleteRecords") && (
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(quot.id)}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
                           </div>
                         </div>
                       </TableCell>
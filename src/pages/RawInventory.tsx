@@ -1,8 +1,10 @@
 import { useState, useEffect } from "react";
 import { AppHeader } from "@/components/layout/AppHeader";
+import { ExpiryAlerts } from "@/components/inventory/ExpiryAlerts";
 import { StatCard } from "@/components/cards/StatCard";
 import { DataTable } from "@/components/tables/DataTable";
 import { ExportExcelButton } from "@/components/ExportExcelButton";
+import { StockCardDialog } from "@/components/inventory/StockCardDialog";
 import { 
   Package, 
   AlertTriangle,
@@ -21,8 +23,8 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, addDoc, getDocs, Timestamp } from "firebase/firestore";
+import { listRecords, runRecordTransaction } from "@/lib/repository";
+import { recordMovement } from "@/lib/stock";
 
 interface RawInventoryItem {
   id: string;
@@ -46,6 +48,7 @@ export default function RawInventory() {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [isAddItemOpen, setIsAddItemOpen] = useState(false);
+  const [stockCardItem, setStockCardItem] = useState<RawInventoryItem | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     category: "",
@@ -57,28 +60,11 @@ export default function RawInventory() {
   });
   const { toast } = useToast();
 
-  // Fetch raw inventory from Firebase
   const fetchRawInventory = async () => {
-    if (!db) {
-      console.warn("Firebase not initialized");
-      setLoading(false);
-      return;
-    }
     try {
       setLoading(true);
-      console.log("Fetching raw inventory from Firebase...");
-      const inventoryRef = collection(db, "rawInventory");
-      const snapshot = await getDocs(inventoryRef);
-      const items = snapshot.docs.map((doc) => {
-        const data = doc.data();
-        console.log("Fetched document:", doc.id, data);
-        return {
-          id: doc.id,
-          ...data,
-        };
-      }) as RawInventoryItem[];
-      console.log("Total items fetched:", items.length);
-      setRawInventoryData(items);
+      const items = await listRecords("rawInventory");
+      setRawInventoryData(items as unknown as RawInventoryItem[]);
     } catch (error) {
       console.error("Error fetching inventory:", error);
       toast({
@@ -133,36 +119,29 @@ export default function RawInventory() {
       return;
     }
 
-    if (!db) {
-      toast({
-        title: "Error",
-        description: "Database connection not available",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setLoading(true);
-    console.log("Adding new item to Firebase...", formData);
-    
+
     try {
-      const inventoryRef = collection(db, "rawInventory");
+      const lastUpdated = new Date().toISOString().split('T')[0];
       const itemData = {
         name: formData.name,
         category: formData.category,
-        quantity: formData.quantity,
+        quantity: parseFloat(formData.quantity) || 0,
         unit: formData.unit,
         location: formData.location,
         status: formData.status,
         supplier: formData.supplier,
-        lastUpdated: new Date().toISOString().split('T')[0],
-        createdAt: Timestamp.now(),
+        lastUpdated,
       };
-      
-      console.log("Item data to save:", itemData);
-      const docRef = await addDoc(inventoryRef, itemData);
-      console.log("Document added with ID:", docRef.id);
-      
+
+      await runRecordTransaction(async (tx) => {
+        const id = tx.create("rawInventory", itemData);
+        recordMovement(tx, "raw", { ...itemData, id }, itemData.quantity, itemData.quantity, {
+          date: lastUpdated,
+          movementType: "opening",
+        });
+      });
+
       toast({
         title: "Success",
         description: "Item added successfully to inventory",
@@ -180,7 +159,6 @@ export default function RawInventory() {
       });
       
       // Refresh the inventory list
-      console.log("Refreshing inventory list...");
       await fetchRawInventory();
     } catch (error) {
       console.error("Error adding item:", error);
@@ -234,6 +212,8 @@ export default function RawInventory() {
       <AppHeader title="Raw Inventory Management" subtitle="Track and manage raw material stock levels" />
       
       <div className="flex-1 overflow-auto p-6">
+        <ExpiryAlerts />
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <StatCard
@@ -357,7 +337,9 @@ export default function RawInventory() {
               data={filteredData}
               columns={inventoryColumns}
               keyField="id"
+              onRowClick={(item) => setStockCardItem(item)}
             />
+            <p className="text-xs text-muted-foreground mt-3">Click an item to open its stock card.</p>
           </div>
         </div>
 
@@ -486,6 +468,13 @@ export default function RawInventory() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <StockCardDialog
+        itemType="raw"
+        item={stockCardItem}
+        onOpenChange={(open) => !open && setStockCardItem(null)}
+        onAdjusted={fetchRawInventory}
+      />
     </>
   );
 }
@@ -0,0 +1,411 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { DataTable } from "@/components/tables/DataTable";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { recipeInputTotal, standardYield } from "@/lib/recipes";
+import { createRecord, DatabaseUnavailableError, deleteRecord, listRecords, updateRecord } from "@/lib/repository";
+import type { RawInventoryRecord, RecipeRecord } from "@/lib/schemas";
+import { BookOpen, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+
+type RecipeLine = { rawItemId: string; quantity: string };
+
+const emptyLine: RecipeLine = { rawItemId: "", quantity: "" };
+
+const defaultFormState = {
+  productName: "",
+  outputQuantity: "",
+  outputUnit: "kg",
+  expectedYield: "",
+  lossTolerance: "2",
+  notes: "",
+  items: [emptyLine],
+};
+
+function safeNumber(value: string): number {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export default function Recipes() {
+  const [recipes, setRecipes] = useState<RecipeRecord[]>([]);
+  const [rawInventory, setRawInventory] = useState<RawInventoryRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<RecipeRecord | null>(null);
+  const [formData, setFormData] = useState(defaultFormState);
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const fetchAll = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [recipeList, inventory] = await Promise.all([listRecords("recipes"), listRecords("rawInventory")]);
+      setRecipes(recipeList.sort((a, b) => a.productName.localeCompare(b.productName)));
+      setRawInventory(inventory.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
+      console.error("Error loading recipes", error);
+      toast({ title: "Load failed", description: "Could not load recipes.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const inputTotal = useMemo(
+    () => formData.items.reduce((sum, line) => sum + safeNumber(line.quantity), 0),
+    [formData.items]
+  );
+  const computedYield = inputTotal > 0 ? (safeNumber(formData.outputQuantity) / inputTotal) * 100 : 0;
+
+  const openNew = () => {
+    setEditingRecipe(null);
+    setFormData(defaultFormState);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (recipe: RecipeRecord) => {
+    setEditingRecipe(recipe);
+    setFormData({
+      productName: recipe.productName,
+      outputQuantity: String(recipe.outputQuantity),
+      outputUnit: recipe.outputUnit,
+      expectedYield: recipe.expectedYield ? String(recipe.expectedYield) : "",
+      lossTolerance: String(recipe.lossTolerance ?? 0),
+      notes: recipe.notes ?? "",
+      items: recipe.items.length
+        ? recipe.items.map((item) => ({ rawItemId: item.rawItemId, quantity: String(item.quantity) }))
+        : [emptyLine],
+    });
+    setIsDialogOpen(true);
+  };
+
+  const updateLine = (index: number, patch: Partial<RecipeLine>) => {
+    setFormData((prev) => ({
+      ...prev,
+      items: prev.items.map((line, i) => (i === index ? { ...line, ...patch } : line)),
+    }));
+  };
+
+  const handleDelete = async (recipe: RecipeRecord) => {
+    if (!confirm(`Delete the recipe for ${recipe.productName}? Existing batches keep their materials.`)) return;
+    try {
+      await deleteRecord("recipes", recipe.id);
+      toast({ title: "Recipe deleted", description: `${recipe.productName} has been removed.` });
+      fetchAll();
+    } catch (error) {
+      console.error("Error deleting recipe", error);
+      toast({ title: "Delete failed", description: "Could not delete the recipe.", variant: "destructive" });
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!formData.productName.trim()) {
+      toast({ title: "Validation error", description: "Product name is required.", variant: "destructive" });
+      return;
+    }
+
+    const outputQuantity = safeNumber(formData.outputQuantity);
+    if (outputQuantity <= 0) {
+      toast({ title: "Validation error", description: "Standard output must be greater than 0.", variant: "destructive" });
+      return;
+    }
+
+    const lines = formData.items.filter((line) => line.rawItemId && safeNumber(line.quantity) > 0);
+    if (lines.length === 0) {
+      toast({ title: "Validation error", description: "Add at least one raw material.", variant: "destructive" });
+      return;
+    }
+
+    const expectedYield = safeNumber(formData.expectedYield);
+    if (expectedYield < 0 || expectedYield > 100) {
+      toast({ title: "Validation error", description: "Expected yield must be between 0 and 100%.", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const payload = {
+        productName: formData.productName.trim(),
+        outputQuantity,
+        outputUnit: formData.outputUnit.trim() || "kg",
+        expectedYield,
+        lossTolerance: Math.max(safeNumber(formData.lossTolerance), 0),
+        notes: formData.notes.trim() || undefined,
+        items: lines.map((line) => {
+          const stock = rawInventory.find((inv) => inv.id === line.rawItemId);
+          return {
+            rawItemId: line.rawItemId,
+            rawItemName: stock?.name ?? "",
+            quantity: safeNumber(line.quantity),
+            unit: stock?.unit || "kg",
+          };
+        }),
+      };
+
+      if (editingRecipe) {
+        await updateRecord("recipes", editingRecipe.id, payload);
+        toast({ title: "Recipe updated", description: `${payload.productName} has been updated.` });
+      } else {
+        await createRecord("recipes", payload);
+        toast({ title: "Recipe added", description: `${payload.productName} has been saved.` });
+      }
+
+      setIsDialogOpen(false);
+      fetchAll();
+    } catch (error) {
+      console.error("Error saving recipe", error);
+      toast({ title: "Save failed", description: "Could not save the recipe.", variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const columns = [
+    {
+      key: "productName",
+      header: "Product",
+      render: (r: RecipeRecord) => (
+        <div>
+          <div className="font-medium">{r.productName}</div>
+          {r.notes && <div className="text-xs text-muted-foreground line-clamp-1">{r.notes}</div>}
+        </div>
+      ),
+    },
+    {
+      key: "items",
+      header: "Materials",
+      render: (r: RecipeRecord) => (
+        <span className="text-sm">{r.items.map((item) => `${item.rawItemName} ${item.quantity} ${item.unit}`).join(", ")}</span>
+      ),
+    },
+    {
+      key: "outputQuantity",
+      header: "Standard Run",
+      render: (r: RecipeRecord) => (
+        <span className="text-sm whitespace-nowrap">
+          {recipeInputTotal(r)} → {r.outputQuantity} {r.outputUnit}
+        </span>
+      ),
+    },
+    {
+      key: "expectedYield",
+      header: "Expected Yield",
+      render: (r: RecipeRecord) => <span className="font-medium">{standardYield(r).toFixed(2)}%</span>,
+    },
+    {
+      key: "lossTolerance",
+      header: "Loss Tolerance",
+      render: (r: RecipeRecord) => <span>+{r.lossTolerance}%</span>,
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (r: RecipeRecord) => (
+        <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+          <Button variant="ghost" size="sm" onClick={() => openEdit(r)} className="hover:bg-primary/10 hover:text-primary">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          {can("deleteRecords") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(r)}
+              className="hover:bg-destructive/10 hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Recipes" subtitle="Bills of materials with standard yield for each finished product" />
+
+      <div className="p-6 space-y-6">
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <Button variant="secondary" onClick={fetchAll} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button onClick={openNew}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Recipe
+            </Button>
+          </div>
+
+          {recipes.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-muted-foreground/30 p-10 text-center text-muted-foreground">
+              <BookOpen className="w-12 h-12 mx-auto mb-4 opacity-20" />
+              {isLoading ? "Loading recipes..." : "No recipes yet. Add one to pre-fill batches in Processing."}
+            </div>
+          ) : (
+            <DataTable data={recipes} columns={columns} keyField="id" />
+          )}
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editingRecipe ? "Edit Recipe" : "Add Recipe"}</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="productName">Finished Product</Label>
+                <Input
+                  id="productName"
+                  value={formData.productName}
+                  onChange={(e) => setFormData({ ...formData, productName: e.target.value })}
+                  placeholder="Name used for processed inventory"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="outputQuantity">Standard Output</Label>
+                  <Input
+                    id="outputQuantity"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.outputQuantity}
+                    onChange={(e) => setFormData({ ...formData, outputQuantity: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="outputUnit">Unit</Label>
+                  <Input
+                    id="outputUnit"
+                    value={formData.outputUnit}
+                    onChange={(e) => setFormData({ ...formData, outputUnit: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expectedYield">Expected Yield %</Label>
+                  <Input
+                    id="expectedYield"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.expectedYield}
+                    onChange={(e) => setFormData({ ...formData, expectedYield: e.target.value })}
+                    placeholder={computedYield ? computedYield.toFixed(2) : ""}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lossTolerance">Loss Tolerance %</Label>
+                  <Input
+                    id="lossTolerance"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.lossTolerance}
+                    onChange={(e) => setFormData({ ...formData, lossTolerance: e.target.value })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave Expected Yield empty to use output ÷ input from the quantities below. Loss Tolerance is how many
+                percentage points a batch may lose beyond the standard before Loss Calculation flags it.
+              </p>
+
+              <div className="space-y-3">
+                <Label>Raw Materials per Standard Run</Label>
+                {formData.items.map((line, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_140px_auto] gap-3 items-center">
+                    <Select value={line.rawItemId} onValueChange={(value) => updateLine(index, { rawItemId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select raw item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {rawInventory.map((inv) => (
+                          <SelectItem key={inv.id} value={inv.id}>
+                            {inv.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      placeholder="Quantity"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={formData.items.length === 1}
+                      onClick={() => setFormData((prev) => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full gap-2"
+                  onClick={() => setFormData((prev) => ({ ...prev, items: [...prev.items, emptyLine] }))}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Raw Material
+                </Button>
+                <p className="text-xs text-muted-foreground">Total input: {inputTotal.toFixed(3)}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Recipe"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { DataTable } from "@/components/tables/DataTable";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatAuditTime } from "@/lib/audit";
+import {
+  listRecycleBin,
+  purgeRecord,
+  RECYCLABLE_COLLECTIONS,
+  RECYCLABLE_LABELS,
+  restoreRecord,
+  type RecycleBinEntry,
+} from "@/lib/recycle-bin";
+import { DatabaseUnavailableError } from "@/lib/repository";
+import { ArchiveRestore, RefreshCw, Search, Trash2 } from "lucide-react";
+
+export default function RecycleBin() {
+  const [entries, setEntries] = useState<RecycleBinEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [collectionFilter, setCollectionFilter] = useState("all");
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await listRecycleBin());
+    } catch (error) {
+      if (error instanceof DatabaseUnavailableError) {
+        toast({ title: "Database unavailable", description: error.message, variant: "destructive" });
+        return;
+      }
+      console.error("Error loading recycle bin", error);
+      toast({ title: "Load failed", description: "Could not load the Recycle Bin.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries.filter((e) => {
+      if (collectionFilter !== "all" && e.collection !== collectionFilter) return false;
+      return !term || e.label.toLowerCase().includes(term) || e.deletedBy?.toLowerCase().includes(term);
+    });
+  }, [entries, search, collectionFilter]);
+
+  const handleRestore = async (entry: RecycleBinEntry) => {
+    setBusyId(entry.id);
+    try {
+      await restoreRecord(entry.collection, entry.id);
+      toast({ title: "Restored", description: `${entry.label} has been restored.` });
+      fetchEntries();
+    } catch (error) {
+      console.error("Error restoring record", error);
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "Could not restore the record.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (entry: RecycleBinEntry) => {
+    if (!confirm(`Permanently delete ${entry.label}? This cannot be undone.`)) return;
+    setBusyId(entry.id);
+    try {
+      await purgeRecord(entry.collection, entry.id);
+      toast({ title: "Deleted", description: `${entry.label} was permanently deleted.` });
+      fetchEntries();
+    } catch (error) {
+      console.error("Error purging record", error);
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Could not delete the record.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const columns = [
+    {
+      key: "collection",
+      header: "Type",
+      render: (e: RecycleBinEntry) => <Badge variant="secondary">{RECYCLABLE_LABELS[e.collection]}</Badge>,
+    },
+    { key: "label", header: "Record", render: (e: RecycleBinEntry) => <span className="font-medium">{e.label}</span> },
+    { key: "deletedAt", header: "Deleted", render: (e: RecycleBinEntry) => formatAuditTime(e.deletedAt) },
+    {
+      key: "deletedBy",
+      header: "Deleted By",
+      render: (e: RecycleBinEntry) => e.deletedBy || <span className="text-muted-foreground">unknown</span>,
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (e: RecycleBinEntry) => (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="gap-2" disabled={busyId === e.id} onClick={() => handleRestore(e)}>
+            <ArchiveRestore className="h-4 w-4" />
+            Restore
+          </Button>
+          {can("deleteRecords") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={busyId === e.id}
+              onClick={() => handlePurge(e)}
+              className="hover:bg-destructive/10 hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <AppHeader title="Recycle Bin" subtitle="Deleted invoices, notes, parties and items, ready to restore or purge" />
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <Card className="p-6 space-y-4">
+          <div className="flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+            <div className="flex flex-1 gap-4">
+              <div className="relative flex-1 max-w-sm">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  className="pl-10"
+                  placeholder="Search records or users"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+              <Select value={collectionFilter} onValueChange={setCollectionFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {RECYCLABLE_COLLECTIONS.map((c) => (
+                    <SelectItem key={c} value={c}>
+                      {RECYCLABLE_LABELS[c]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="secondary" onClick={fetchEntries} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {filtered.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-muted-foreground/30 p-10 text-center text-muted-foreground">
+              <Trash2 className="w-12 h-12 mx-auto mb-4 opacity-20" />
+              {isLoading ? "Loading..." : "The Recycle Bin is empty."}
+            </div>
+          ) : (
+            <DataTable data={filtered} columns={columns} keyField="id" />
+          )}
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,550 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DispatchFields } from "@/components/invoices/DispatchFields";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { DocumentNumberFields } from "@/components/numbering/DocumentNumberFields";
+import { DataTable } from "@/components/tables/DataTable";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useCompany } from "@/hooks/use-company";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import { companyStateCode } from "@/lib/company";
+import { dispatchDetails, EMPTY_DISPATCH } from "@/lib/eway-bill";
+import { GST_STATES, stateCodeFromGstin } from "@/lib/gst";
+import { InsufficientStockError } from "@/lib/production";
+import { saleableQuantity } from "@/lib/qc";
+import {
+  closeSalesOrder,
+  createDeliveryChallan,
+  createSalesOrder,
+  isOrderOpen,
+  orderStatus,
+  outstandingQuantity,
+  SalesOrderError,
+} from "@/lib/sales-orders";
+import type { DispatchDetails, ItemRecord, SalesOrderRecord, SalesOrderStatus } from "@/lib/schemas";
+import { ClipboardCheck, Plus, RefreshCw, Trash2, Truck, XCircle } from "lucide-react";
+
+type OrderLine = { processedInventoryId: string; quantity: string; rate: string; tax: string };
+
+const emptyLine: OrderLine = { processedInventoryId: "", quantity: "", rate: "", tax: "12" };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const defaultFormState = {
+  partyId: "",
+  orderDate: today(),
+  customerPoNo: "",
+  placeOfSupply: "",
+  notes: "",
+  branch: "",
+  items: [emptyLine],
+};
+
+const STATUS_STYLES: Record<SalesOrderStatus, string> = {
+  Open: "bg-primary/20 text-primary",
+  "Partly Dispatched": "bg-warning/20 text-warning",
+  Dispatched: "bg-info/20 text-info",
+  Invoiced: "bg-success/20 text-success",
+  Closed: "bg-muted text-muted-foreground",
+  Cancelled: "bg-destructive/20 text-destructive",
+};
+
+function safeNumber(value: string): number {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+const isValidationError = (error: unknown) => error instanceof SalesOrderError || error instanceof InsufficientStockError;
+
+export default function SalesOrders() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { company } = useCompany();
+  const sellerState = companyStateCode(company);
+  const ordersQuery = useRecords("salesOrders", { orderBy: "orderDate", direction: "desc" });
+  const customersQuery = useRecords("customers");
+  const inventoryQuery = useRecords("processedInventory");
+  const itemsQuery = useRecords("items");
+  const orders = useMemo(() => ordersQuery.data ?? [], [ordersQuery.data]);
+  const customers = useMemo(() => customersQuery.data ?? [], [customersQuery.data]);
+  const inventory = useMemo(() => inventoryQuery.data ?? [], [inventoryQuery.data]);
+  // Processed goods carry no HSN of their own; the item master entry with the same name does.
+  const itemMasterByName = useMemo(() => {
+    const map = new Map<string, ItemRecord>();
+    for (const it of itemsQuery.data ?? []) map.set(it.name.trim().toLowerCase(), it);
+    return map;
+  }, [itemsQuery.data]);
+  const isLoading = ordersQuery.isFetching;
+
+  const [isOrderDialogOpen, setIsOrderDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(defaultFormState);
+  const [dispatching, setDispatching] = useState<SalesOrderRecord | null>(null);
+  const [challanDate, setChallanDate] = useState(today());
+  const [quantities, setQuantities] = useState<string[]>([]);
+  const [dispatch, setDispatch] = useState<DispatchDetails>(EMPTY_DISPATCH);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!ordersQuery.error) return;
+    console.error("Error fetching sales orders", ordersQuery.error);
+    toast({ title: "Load failed", description: "Could not load sales orders.", variant: "destructive" });
+  }, [ordersQuery.error, toast]);
+
+  const refresh = () => {
+    ordersQuery.refetch();
+    inventoryQuery.refetch();
+  };
+
+  const setBranch = useCallback((branch: string) => setFormData((s) => ({ ...s, branch })), []);
+
+  const updateLine = (index: number, patch: Partial<OrderLine>) =>
+    setFormData((prev) => ({ ...prev, items: prev.items.map((line, i) => (i === index ? { ...line, ...patch } : line)) }));
+
+  const openNew = () => {
+    setFormData({ ...defaultFormState, orderDate: today(), placeOfSupply: sellerState ?? "" });
+    setIsOrderDialogOpen(true);
+  };
+
+  const openDispatch = (order: SalesOrderRecord) => {
+    setDispatching(order);
+    setChallanDate(today());
+    setQuantities(order.items.map((line) => String(outstandingQuantity(line))));
+    setDispatch(EMPTY_DISPATCH);
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const customer = customers.find((c) => c.id === formData.partyId);
+    if (!customer) {
+      toast({ title: "Validation error", description: "Select a customer.", variant: "destructive" });
+      return;
+    }
+    if (!formData.placeOfSupply) {
+      toast({ title: "Validation error", description: "Select the place of supply.", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const orderNo = await createSalesOrder({
+        orderDate: formData.orderDate,
+        partyId: customer.id,
+        partyName: customer.name,
+        customer: { address: customer.address, phone: customer.phone, email: customer.email, gst: customer.gst },
+        placeOfSupply: formData.placeOfSupply,
+        customerPoNo: formData.customerPoNo.trim() || undefined,
+        notes: formData.notes.trim() || undefined,
+        branch: formData.branch || undefined,
+        items: formData.items.map((line) => {
+          const item = inventory.find((i) => i.id === line.processedInventoryId);
+          return {
+            processedInventoryId: line.processedInventoryId,
+            name: item?.name ?? "",
+            hsnCode: item ? itemMasterByName.get(item.name.trim().toLowerCase())?.hsnCode : undefined,
+            unit: item?.unit || "pcs",
+            quantity: safeNumber(line.quantity),
+            rate: safeNumber(line.rate),
+            tax: Math.max(safeNumber(line.tax), 0),
+          };
+        }),
+      });
+      toast({ title: "Sales order saved", description: `Order ${orderNo} saved and its stock reserved.` });
+      setIsOrderDialogOpen(false);
+      refresh();
+    } catch (error) {
+      console.error("Error saving sales order", error);
+      toast({
+        title: isValidationError(error) ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the sales order.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDispatch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!dispatching) return;
+
+    setIsSubmitting(true);
+    try {
+      const challanNo = await createDeliveryChallan(dispatching.id, {
+        challanDate,
+        quantities: quantities.map(safeNumber),
+        dispatch: dispatchDetails(dispatch),
+      });
+      toast({ title: "Challan saved", description: `Delivery challan ${challanNo} saved and the goods dispatched.` });
+      setDispatching(null);
+      refresh();
+    } catch (error) {
+      console.error("Error saving delivery challan", error);
+      toast({
+        title: isValidationError(error) ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the delivery challan.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = async (order: SalesOrderRecord) => {
+    const dispatched = order.items.some((l) => l.dispatchedQuantity > 0);
+    const action = dispatched ? "Close" : "Cancel";
+    if (!confirm(`${action} sales order ${order.orderNo}? Stock not yet dispatched is released from the reservation.`)) return;
+
+    try {
+      await closeSalesOrder(order.id);
+      toast({ title: dispatched ? "Order closed" : "Order cancelled", description: `Sales order ${order.orderNo} no longer holds stock.` });
+      refresh();
+    } catch (error) {
+      console.error("Error closing sales order", error);
+      toast({
+        title: isValidationError(error) ? "Validation error" : "Save failed",
+        description: error instanceof Error ? error.message : "Could not close the sales order.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const columns = [
+    {
+      key: "orderNo",
+      header: "Order",
+      render: (o: SalesOrderRecord) => (
+        <div>
+          <div className="font-medium">{o.orderNo}</div>
+          <div className="text-xs text-muted-foreground">
+            {o.orderDate}
+            {o.customerPoNo ? ` · PO ${o.customerPoNo}` : ""}
+          </div>
+        </div>
+      ),
+    },
+    { key: "partyName", header: "Customer" },
+    {
+      key: "items",
+      header: "Ordered / Dispatched / Invoiced",
+      render: (o: SalesOrderRecord) => (
+        <div className="space-y-1 text-sm">
+          {o.items.map((line, i) => (
+            <div key={i} className="whitespace-nowrap">
+              {line.name}: {line.quantity} / {line.dispatchedQuantity} / {line.invoicedQuantity} {line.unit}
+            </div>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "total",
+      header: "Value",
+      render: (o: SalesOrderRecord) => (
+        <span className="font-medium">₹{o.total.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+      ),
+    },
+    {
+      key: "status",
+      header: "Status",
+      render: (o: SalesOrderRecord) => {
+        const status = orderStatus(o);
+        return <span className={`rounded-full text-[11px] px-2 py-1 font-semibold ${STATUS_STYLES[status]}`}>{status}</span>;
+      },
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (o: SalesOrderRecord) =>
+        isOrderOpen(o) && (
+          <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+            <Button variant="ghost" size="sm" onClick={() => openDispatch(o)} title="Dispatch on a delivery challan">
+              <Truck className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleClose(o)}
+              title="Close the order and release its reservation"
+              className="hover:bg-destructive/10 hover:text-destructive"
+            >
+              <XCircle className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Sales Orders" subtitle="Confirmed orders that reserve stock until it is dispatched" />
+
+      <div className="p-6 space-y-6">
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <Button variant="secondary" onClick={refresh} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate("/delivery-challans")}>
+                <Truck className="h-4 w-4 mr-2" />
+                Delivery Challans
+              </Button>
+              <Button onClick={openNew}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Sales Order
+              </Button>
+            </div>
+          </div>
+
+          {orders.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-muted-foreground/30 p-10 text-center text-muted-foreground">
+              <ClipboardCheck className="w-12 h-12 mx-auto mb-4 opacity-20" />
+              {isLoading ? "Loading sales orders..." : "No sales orders yet. Add one, or convert a quotation."}
+            </div>
+          ) : (
+            <DataTable data={orders} columns={columns} keyField="id" />
+          )}
+        </Card>
+      </div>
+
+      <Dialog open={isOrderDialogOpen} onOpenChange={setIsOrderDialogOpen}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>New Sales Order</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <DocumentNumberFields
+                  documentType="salesOrder"
+                  label="Order No"
+                  date={formData.orderDate}
+                  branch={formData.branch}
+                  onBranchChange={setBranch}
+                />
+                <div className="space-y-2">
+                  <Label htmlFor="orderDate">Order Date</Label>
+                  <Input
+                    id="orderDate"
+                    type="date"
+                    value={formData.orderDate}
+                    onChange={(e) => setFormData({ ...formData, orderDate: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Customer *</Label>
+                  <Select
+                    value={formData.partyId}
+                    onValueChange={(partyId) => {
+                      const gst = customers.find((c) => c.id === partyId)?.gst;
+                      setFormData((s) => ({ ...s, partyId, placeOfSupply: stateCodeFromGstin(gst) || s.placeOfSupply }));
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select customer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customers.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="customerPoNo">Customer PO No</Label>
+                  <Input
+                    id="customerPoNo"
+                    value={formData.customerPoNo}
+                    onChange={(e) => setFormData({ ...formData, customerPoNo: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Place of Supply *</Label>
+                  <Select value={formData.placeOfSupply} onValueChange={(v) => setFormData((s) => ({ ...s, placeOfSupply: v }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select state" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(GST_STATES).map(([code, name]) => (
+                        <SelectItem key={code} value={code}>
+                          {code} - {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Items</Label>
+                {formData.items.map((line, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_110px_110px_80px_auto] gap-3 items-center">
+                    <Select value={line.processedInventoryId} onValueChange={(value) => {
+                        const name = inventory.find((i) => i.id === value)?.name ?? "";
+                        const gstRate = itemMasterByName.get(name.trim().toLowerCase())?.gstRate;
+                        updateLine(index, { processedInventoryId: value, ...(gstRate !== undefined && { tax: String(gstRate) }) });
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select processed item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {inventory.map((item) => (
+                          <SelectItem key={item.id} value={item.id}>
+                            {item.name} ({saleableQuantity(item)} {item.unit} available)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      placeholder="Quantity"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.rate}
+                      onChange={(e) => updateLine(index, { rate: e.target.value })}
+                      placeholder="Rate"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.tax}
+                      onChange={(e) => updateLine(index, { tax: e.target.value })}
+                      placeholder="GST %"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={formData.items.length === 1}
+                      onClick={() => setFormData((prev) => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full gap-2"
+                  onClick={() => setFormData((prev) => ({ ...prev, items: [...prev.items, emptyLine] }))}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Item
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="orderNotes">Notes</Label>
+                <Textarea id="orderNotes" value={formData.notes} onChange={(e) => setFormData({ ...formData, notes: e.target.value })} rows={2} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOrderDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save & Reserve Stock"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!dispatching} onOpenChange={(open) => !open && setDispatching(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleDispatch}>
+            <DialogHeader>
+              <DialogTitle>Delivery Challan for {dispatching?.orderNo}</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <DocumentNumberFields
+                  documentType="deliveryChallan"
+                  label="Challan No"
+                  date={challanDate}
+                  branch={dispatching?.branch ?? ""}
+                  onBranchChange={() => undefined}
+                />
+                <div className="space-y-2">
+                  <Label htmlFor="challanDate">Challan Date</Label>
+                  <Input id="challanDate" type="date" value={challanDate} onChange={(e) => setChallanDate(e.target.value)} required />
+                </div>
+              </div>
+
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Dispatched</TableHead>
+                      <TableHead className="w-[140px]">Dispatch Now</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dispatching?.items.map((line, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{line.name}</TableCell>
+                        <TableCell className="text-right">
+                          {line.quantity} {line.unit}
+                        </TableCell>
+                        <TableCell className="text-right">{line.dispatchedQuantity}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={outstandingQuantity(line)}
+                            step="0.001"
+                            value={quantities[index] ?? ""}
+                            disabled={outstandingQuantity(line) === 0}
+                            onChange={(e) => setQuantities((q) => q.map((v, i) => (i === index ? e.target.value : v)))}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <DispatchFields value={dispatch} onChange={setDispatch} />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDispatching(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Challan"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
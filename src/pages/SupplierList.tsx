@@ -3,6 +3,7 @@ import { AppHeader } from "@/components/layout/AppHeader";
 import { DataTable } from "@/components/tables/DataTable";
 import { StatCard } from "@/components/cards/StatCard";
 import { ExportExcelButton } from "@/components/ExportExcelButton";
+import { OpenPurchaseOrdersDialog } from "@/components/purchases/OpenPurchaseOrdersDialog";
 import { 
   Users, 
   Plus,
@@ -15,7 +16,8 @@ import {
   MapPin,
   CreditCard,
   DollarSign,
-  Building2
+  Building2,
+  ClipboardList
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -24,9 +26,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, addDoc, getDocs, updateDoc, deleteDoc, doc, Timestamp } from "firebase/firestore";
+import { moveToRecycleBin } from "@/lib/recycle-bin";
+import { createRecord, listRecords, updateRecord } from "@/lib/repository";
 
 interface Supplier {
   id: string;
@@ -46,8 +49,10 @@ const SupplierList = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [openPoSupplier, setOpenPoSupplier] = useState<Supplier | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const [formData, setFormData] = useState({
     name: "",
@@ -95,22 +100,10 @@ const SupplierList = () => {
   const fetchSuppliers = async () => {
     try {
       setIsLoading(true);
-      const suppliersCollection = collection(db, "suppliers");
-      const supplierSnapshot = await getDocs(suppliersCollection);
-      const supplierList = supplierSnapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          name: data.name || "",
-          address: data.address || "",
-          phone: data.phone || "",
-          email: data.email || "",
-          gst: data.gst || "",
-          opening: typeof data.opening === 'number' ? data.opening : parseFloat(data.opening) || 0,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || undefined
-        };
-      }) as Supplier[];
+      const supplierList = (await listRecords("suppliers")).map((record) => ({
+        ...record,
+        createdAt: record.createdAt ?? new Date(),
+      })) as Supplier[];
       
       // Sort by creation date (newest first)
       supplierList.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
@@ -121,7 +114,7 @@ const SupplierList = () => {
       console.error("Error fetching suppliers:", error);
       toast({
         title: "Error",
-        description: "Failed to fetch suppliers. Please check your Firebase connection.",
+        description: "Failed to fetch suppliers. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -156,13 +149,13 @@ const SupplierList = () => {
   };
 
   const handleDeleteSupplier = async (supplierId: string) => {
-    if (!confirm("Are you sure you want to delete this supplier?")) return;
+    if (!confirm("Move this supplier to the Recycle Bin?")) return;
 
     try {
-      await deleteDoc(doc(db, "suppliers", supplierId));
+      await moveToRecycleBin("suppliers", supplierId);
       toast({
         title: "Success",
-        description: "Supplier deleted successfully"
+        description: "Supplier moved to the Recycle Bin"
       });
       fetchSuppliers();
     } catch (error) {
@@ -228,21 +221,14 @@ const SupplierList = () => {
 
       if (editingSupplier) {
         // Update existing supplier
-        await updateDoc(doc(db, "suppliers", editingSupplier.id), {
-          ...supplierData,
-          updatedAt: Timestamp.now()
-        });
+        await updateRecord("suppliers", editingSupplier.id, supplierData);
         toast({
           title: "Success",
           description: "Supplier updated successfully",
         });
       } else {
         // Add new supplier
-        await addDoc(collection(db, "suppliers"), {
-          ...supplierData,
-          createdAt: Timestamp.now(),
-          updatedAt: Timestamp.now()
-        });
+        await createRecord("suppliers", supplierData);
         toast({
           title: "Success",
           description: "Supplier added successfully",
@@ -348,19 +334,30 @@ const SupplierList = () => {
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => handleEditSupplier(row)}
+            onClick={() => setOpenPoSupplier(row)}
+            title="Open purchase orders"
             className="hover:bg-primary/10 hover:text-primary"
           >
-            <Pencil className="h-4 w-4" />
+            <ClipboardList className="h-4 w-4" />
           </Button>
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => handleDeleteSupplier(row.id)}
-            className="hover:bg-destructive/10 hover:text-destructive"
+            onClick={() => handleEditSupplier(row)}
+            className="hover:bg-primary/10 hover:text-primary"
           >
-            <Trash2 className="h-4 w-4" />
+            <Pencil className="h-4 w-4" />
           </Button>
+          {can("deleteRecords") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDeleteSupplier(row.id)}
+              className="hover:bg-destructive/10 hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       )
     }
@@ -486,6 +483,8 @@ const SupplierList = () => {
         </Card>
       </div>
 
+      <OpenPurchaseOrdersDialog supplier={openPoSupplier} onOpenChange={(open) => !open && setOpenPoSupplier(null)} />
+
       {/* Add/Edit Supplier Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -0,0 +1,379 @@
+import { useMemo, useState } from "react";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCompany } from "@/hooks/use-company";
+import { useRecords } from "@/hooks/use-records";
+import { useToast } from "@/hooks/use-toast";
+import { drawPdfLetterhead } from "@/lib/letterhead";
+import { tracePurchaseLots, traceBatches, type BatchTrace, type TraceData, type TraceQuery } from "@/lib/traceability";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { ArrowDown, FileText, GitBranch, RefreshCw, Search } from "lucide-react";
+
+type SearchKind = TraceQuery["kind"];
+
+const searchLabels: Record<SearchKind, string> = {
+  batch: "Finished batch no.",
+  rawItem: "Raw item",
+  purchase: "Supplier invoice no.",
+};
+
+function upstreamRows(trace: BatchTrace): string[][] {
+  return trace.inputs.flatMap(({ item, lots, untracked }) => [
+    ...lots.map(({ usage, lot, purchase, bill }) => [
+      item.rawItemName,
+      `${usage.quantity} ${item.unit}`,
+      usage.lotNo,
+      usage.expiryDate || "-",
+      purchase?.supplierName || bill?.supplierName || lot?.supplierName || "-",
+      purchase?.invoiceNo || bill?.billNo || "-",
+      lot?.receivedDate || "-",
+    ]),
+    ...(untracked > 0 ? [[item.rawItemName, `${untracked} ${item.unit}`, "Untracked stock", "-", "-", "-", "-"]] : []),
+  ]);
+}
+
+function downstreamRows(trace: BatchTrace): string[][] {
+  return trace.dispatches.map((d) => [d.date, d.documentType, d.documentNo, d.customer, `${d.quantity} ${d.unit}`]);
+}
+
+const upstreamHead = ["Raw Item", "Qty Used", "Lot", "Expiry", "Supplier", "Supplier Invoice", "Received"];
+const downstreamHead = ["Date", "Document", "No.", "Customer", "Qty"];
+
+export default function Traceability() {
+  const { toast } = useToast();
+  const { company } = useCompany();
+  const [kind, setKind] = useState<SearchKind>("batch");
+  const [value, setValue] = useState("");
+  const [query, setQuery] = useState<TraceQuery | null>(null);
+
+  const batches = useRecords("batches");
+  const lots = useRecords("rawLots");
+  const purchases = useRecords("purchases");
+  const purchaseBills = useRecords("purchaseBills");
+  const movements = useRecords("stockMovements", { where: [["itemType", "==", "processed"]] });
+  const invoices = useRecords("invoices");
+  const proformaInvoices = useRecords("proformaInvoices");
+  const deliveryChallans = useRecords("deliveryChallans");
+  const rawInventory = useRecords("rawInventory");
+
+  const sources = [batches, lots, purchases, purchaseBills, movements, invoices, proformaInvoices, deliveryChallans, rawInventory];
+  const isFetching = sources.some((q) => q.isFetching);
+
+  const data = useMemo<TraceData>(
+    () => ({
+      batches: batches.data ?? [],
+      lots: lots.data ?? [],
+      purchases: purchases.data ?? [],
+      purchaseBills: purchaseBills.data ?? [],
+      movements: movements.data ?? [],
+      invoices: invoices.data ?? [],
+      proformaInvoices: proformaInvoices.data ?? [],
+      deliveryChallans: deliveryChallans.data ?? [],
+    }),
+    [
+      batches.data,
+      lots.data,
+      purchases.data,
+      purchaseBills.data,
+      movements.data,
+      invoices.data,
+      proformaInvoices.data,
+      deliveryChallans.data,
+    ]
+  );
+
+  const traces = useMemo(() => (query ? traceBatches(data, query) : []), [data, query]);
+  const receivedLots = useMemo(
+    () => (query?.kind === "purchase" ? tracePurchaseLots(data, query.invoiceNo) : []),
+    [data, query]
+  );
+
+  const rawItems = useMemo(
+    () => [...(rawInventory.data ?? [])].sort((a, b) => a.name.localeCompare(b.name)),
+    [rawInventory.data]
+  );
+
+  const queryLabel = (() => {
+    if (!query) return "";
+    if (query.kind === "batch") return `Batch ${query.batchNo}`;
+    if (query.kind === "purchase") return `Supplier invoice ${query.invoiceNo}`;
+    return `Raw item ${rawItems.find((r) => r.id === query.rawItemId)?.name ?? query.rawItemId}`;
+  })();
+
+  const handleTrace = (e: React.FormEvent) => {
+    e.preventDefault();
+    const v = value.trim();
+    if (!v) {
+      toast({ title: "Validation error", description: `Enter a ${searchLabels[kind].toLowerCase()}.`, variant: "destructive" });
+      return;
+    }
+    setQuery(kind === "batch" ? { kind, batchNo: v } : kind === "rawItem" ? { kind, rawItemId: v } : { kind, invoiceNo: v });
+  };
+
+  const handleRefresh = () => {
+    sources.forEach((q) => q.refetch());
+  };
+
+  const handleExportPdf = () => {
+    if (!query || traces.length === 0) return;
+    const doc = new jsPDF();
+    const top = drawPdfLetterhead(doc, company);
+
+    doc.setFontSize(18);
+    doc.text("Batch Traceability", 14, top + 6);
+    doc.setFontSize(11);
+    doc.text(`${queryLabel} (generated ${new Date().toISOString().slice(0, 10)})`, 14, top + 14);
+
+    let y = top + 22;
+    const ensureRoom = (needed: number) => {
+      if (y + needed > doc.internal.pageSize.getHeight() - 15) {
+        doc.addPage();
+        y = 20;
+      }
+    };
+    const table = (head: string[], body: string[][]) => {
+      autoTable(doc, {
+        startY: y,
+        head: [head],
+        body,
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [59, 130, 246] },
+        didDrawPage: (hook) => {
+          y = hook.cursor?.y ?? y;
+        },
+      });
+      y += 6;
+    };
+
+    for (const trace of traces) {
+      ensureRoom(30);
+      doc.setFontSize(13);
+      doc.text(
+        `Batch ${trace.batch.batchNo}${trace.batch.manualBatchNo ? ` / ${trace.batch.manualBatchNo}` : ""} - ${trace.batch.batchDate} (${trace.batch.status})`,
+        14,
+        y
+      );
+      y += 6;
+      doc.setFontSize(10);
+      doc.text(
+        trace.product
+          ? `Output: ${trace.product.quantity} ${trace.product.unit} ${trace.product.itemName} on ${trace.product.date}`
+          : "No finished goods recorded for this batch.",
+        14,
+        y
+      );
+      y += 4;
+
+      table(upstreamHead, upstreamRows(trace));
+      if (trace.dispatches.length > 0) {
+        ensureRoom(20);
+        table(downstreamHead, downstreamRows(trace));
+      }
+    }
+
+    doc.save(`Traceability_${queryLabel.replace(/[^A-Za-z0-9]+/g, "_")}.pdf`);
+    toast({ title: "PDF Downloaded", description: "Traceability report has been downloaded." });
+  };
+
+  return (
+    <>
+      <AppHeader title="Traceability" subtitle="Trace batches back to raw lots and suppliers, and forward to customers" />
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <Card className="p-6">
+          <form onSubmit={handleTrace} className="flex flex-wrap items-end justify-between gap-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>Search by</Label>
+                <Select
+                  value={kind}
+                  onValueChange={(v) => {
+                    setKind(v as SearchKind);
+                    setValue("");
+                  }}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(searchLabels) as SearchKind[]).map((k) => (
+                      <SelectItem key={k} value={k}>
+                        {searchLabels[k]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{searchLabels[kind]}</Label>
+                {kind === "rawItem" ? (
+                  <Select value={value} onValueChange={setValue}>
+                    <SelectTrigger className="w-[260px]">
+                      <SelectValue placeholder="Select raw item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rawItems.map((r) => (
+                        <SelectItem key={r.id} value={r.id}>
+                          {r.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    className="w-[260px]"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder={kind === "batch" ? "e.g. BATCH-2025-0001" : "e.g. INV-0001"}
+                  />
+                )}
+              </div>
+
+              <Button type="submit" className="gap-2">
+                <Search className="w-4 h-4" />
+                Trace
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button type="button" variant="outline" className="gap-2" onClick={handleRefresh} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+              <Button type="button" className="gap-2" onClick={handleExportPdf} disabled={traces.length === 0}>
+                <FileText className="w-4 h-4" />
+                Download PDF
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {query?.kind === "purchase" && (
+          <Card className="p-6 space-y-2">
+            <h2 className="section-title">Lots received on {query.invoiceNo}</h2>
+            {receivedLots.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No lots were recorded against this supplier invoice.</p>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {receivedLots.map((lot) => (
+                  <li key={lot.id}>
+                    <span className="font-medium">{lot.rawItemName}</span> lot {lot.lotNo}: {lot.quantityReceived} {lot.unit}{" "}
+                    received {lot.receivedDate}, {lot.quantityRemaining} {lot.unit} left
+                    {lot.expiryDate && `, expires ${lot.expiryDate}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        )}
+
+        {query && traces.length === 0 && (
+          <Card className="p-10 text-center text-muted-foreground">
+            <GitBranch className="w-12 h-12 mx-auto mb-4 opacity-20" />
+            No batches found for {queryLabel.toLowerCase()}.
+          </Card>
+        )}
+
+        {traces.map((trace) => (
+          <Card key={trace.batch.id} className="p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h2 className="section-title">
+                  Batch {trace.batch.batchNo}
+                  {trace.batch.manualBatchNo && <span className="text-muted-foreground"> / {trace.batch.manualBatchNo}</span>}
+                </h2>
+                <p className="section-subtitle">Made on {trace.batch.batchDate}</p>
+              </div>
+              <Badge variant={trace.batch.status === "approved" ? "default" : "secondary"}>{trace.batch.status}</Badge>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Upstream: raw lots and suppliers</h3>
+              <div className="rounded-xl border border-border overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {upstreamHead.map((h) => (
+                        <TableHead key={h} className="whitespace-nowrap">
+                          {h}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {upstreamRows(trace).map((row, i) => (
+                      <TableRow key={i}>
+                        {row.map((cell, j) => (
+                          <TableCell key={j} className={j === 0 ? "font-medium" : "whitespace-nowrap"}>
+                            {cell}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <ArrowDown className="w-4 h-4 text-muted-foreground" />
+              {trace.product ? (
+                <span>
+                  Produced <span className="font-semibold">{trace.product.quantity} {trace.product.unit}</span> of{" "}
+                  <span className="font-semibold">{trace.product.itemName}</span> on {trace.product.date}
+                </span>
+              ) : (
+                <span className="text-muted-foreground">No finished goods recorded for this batch yet.</span>
+              )}
+            </div>
+
+            {trace.product && (
+              <div>
+                <h3 className="text-sm font-semibold mb-1">Downstream: customers</h3>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Every dispatch of {trace.product.itemName} since this batch was produced.
+                </p>
+                {trace.dispatches.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Not dispatched yet.</p>
+                ) : (
+                  <div className="rounded-xl border border-border overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {downstreamHead.map((h) => (
+                            <TableHead key={h} className="whitespace-nowrap">
+                              {h}
+                            </TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {downstreamRows(trace).map((row, i) => (
+                          <TableRow key={i}>
+                            {row.map((cell, j) => (
+                              <TableCell key={j} className={j === 3 ? "font-medium" : "whitespace-nowrap"}>
+                                {cell}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            )}
+          </Card>
+        ))}
+      </div>
+    </>
+  );
+}
@@ -10,19 +10,10 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  orderBy,
-  query,
-  Timestamp,
-  updateDoc,
-} from "firebase/firestore";
+import { bookEntryJournal, postJournal, removeJournal } from "@/lib/ledger";
+import { createRecord, listRecords, runRecordTransaction } from "@/lib/repository";
 import { 
   BookOpen, 
   Calendar,
@@ -107,6 +98,8 @@ export default function Transactions() {
 
   const { toast } = useToast();
 
+  const { can } = useAuth();
+
   const filtered = useMemo(() => {
     if (!search.trim()) return transactions;
     const q = search.toLowerCase();
@@ -159,17 +152,13 @@ export default function Transactions() {
   };
 
   const fetchBankAccounts = async () => {
-    const qy = query(collection(db, "bankAccounts"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        accountName: (data.accountName || data.name || "").toString(),
-        accountNumber: (data.accountNumber || "").toString() || undefined,
-        opening: typeof data.opening === "number" ? data.opening : parseFloat(data.opening) || 0,
-      } as BankAccount;
-    });
+    const records = await listRecords("bankAccounts", { orderBy: "createdAt", direction: "desc" });
+    const list: BankAccount[] = records.map(({ id, accountName, accountNumber, opening }) => ({
+      id,
+      accountName,
+      accountNumber: accountNumber || undefined,
+      opening,
+    }));
     // Filter out ABC BANK, test banks, and CASH accounts
     const filteredList = list.filter((b) => {
       const name = (b.accountName || "").toUpperCase().trim();
@@ -180,27 +169,15 @@ export default function Transactions() {
   };
 
   const fetchCashAccounts = async () => {
-    const qy = query(collection(db, "cashAccounts"), orderBy("createdAt", "desc"));
-    const snap = await getDocs(qy);
-    const list = snap.docs.map((d) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        accountName: (data.accountName || data.name || "Cash").toString(),
-        opening: typeof data.opening === "number" ? data.opening : parseFloat(data.opening) || 0,
-      } as CashAccount;
-    });
+    const records = await listRecords("cashAccounts", { orderBy: "createdAt", direction: "desc" });
+    const list: CashAccount[] = records.map(({ id, accountName, opening }) => ({ id, accountName, opening }));
     
     // If no cash accounts exist, create a default one in database
-    if (list.length === 0 && db) {
+    if (list.length === 0) {
       try {
-        const defaultCashRef = await addDoc(collection(db, "cashAccounts"), {
-          accountName: "Cash",
-          opening: 0,
-          createdAt: Timestamp.now(),
-        });
+        const id = await createRecord("cashAccounts", { accountName: "Cash", opening: 0 });
         list.push({
-          id: defaultCashRef.id,
+          id,
           accountName: "Cash",
           opening: 0,
         });
@@ -216,31 +193,30 @@ export default function Transactions() {
   };
 
   const fetchTransactions = async () => {
-    const [accountingSnap, regularSnap] = await Promise.all([
-      getDocs(query(collection(db, "accountingTransactions"), orderBy("createdAt", "desc"))),
-      getDocs(query(collection(db, "transactions"), orderBy("createdAt", "desc"))),
+    const [accountingRecords, regularRecords] = await Promise.all([
+      listRecords("accountingTransactions", { orderBy: "createdAt", direction: "desc" }),
+      listRecords("transactions", { orderBy: "createdAt", direction: "desc" }),
     ]);
 
-    const accountingList = accountingSnap.docs.map((d) => {
-      const data = d.data();
-      const accountName = (data.accountName || "").toString();
+    const accountingList = accountingRecords.map((t) => {
+      const accountName = t.accountName || "";
       const accountType = accountName.toUpperCase().includes("CASH") ? "cash" : "bank";
       return {
-        id: d.id,
-        date: (data.date || "").toString(),
-        description: (data.description || "").toString(),
-        type: (data.type || "Deposit") as TransactionType,
-        amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-        category: (data.category || "General").toString(),
-        paymentMethod: (data.paymentMethod || "Cash") as PaymentMethod,
-        transferCharge: typeof data.transferCharge === "number" ? data.transferCharge : parseFloat(data.transferCharge) || 0,
+        id: t.id,
+        date: t.date,
+        description: t.description,
+        type: t.type,
+        amount: t.amount,
+        category: t.category,
+        paymentMethod: (t.paymentMethod || "Cash") as PaymentMethod,
+        transferCharge: t.transferCharge,
         accountType,
-        accountId: (data.accountId || "").toString(),
+        accountId: t.accountId,
         accountName: accountName || undefined,
-        reference: (data.reference || "").toString() || undefined,
-        notes: (data.notes || "").toString() || undefined,
-        status: (data.status || "Completed") as TransactionStatus,
-        createdAt: data.createdAt?.toDate?.() || new Date(),
+        reference: t.reference || undefined,
+        notes: t.notes || undefined,
+        status: t.status,
+        createdAt: t.createdAt || new Date(),
       } as TransactionRecord;
     });
 
@@ -250,27 +226,25 @@ export default function Transactions() {
       )
     );
 
-    const regularList = regularSnap.docs
-      .map((d) => {
-        const data = d.data();
-        const bankAccountId = (data.bankAccountId || "").toString();
-        if (!bankAccountId) return null;
+    const regularList = regularRecords
+      .map((t) => {
+        if (!t.bankAccountId) return null;
         return {
-          id: d.id,
-          date: (data.date || "").toString(),
-          description: (data.description || "").toString(),
-          type: (data.type === "Income" ? "Deposit" : "Withdrawal") as TransactionType,
-          amount: typeof data.amount === "number" ? data.amount : parseFloat(data.amount) || 0,
-          category: (data.category || "General").toString(),
-          paymentMethod: (data.paymentMethod || "Bank") as PaymentMethod,
-          transferCharge: typeof data.transferCharge === "number" ? data.transferCharge : parseFloat(data.transferCharge) || 0,
+          id: t.id,
+          date: t.date,
+          description: t.description,
+          type: (t.type === "Income" ? "Deposit" : "Withdrawal") as TransactionType,
+          amount: t.amount,
+          category: t.category,
+          paymentMethod: (t.paymentMethod || "Bank") as PaymentMethod,
+          transferCharge: 0,
           accountType: "bank" as const,
-          accountId: bankAccountId,
-          accountName: (data.bankAccountName || "").toString() || undefined,
-          reference: (data.reference || "").toString() || undefined,
-          notes: (data.notes || "").toString() || undefined,
-          status: (data.status || "Completed") as TransactionStatus,
-          createdAt: data.createdAt?.toDate?.() || new Date(),
+          accountId: t.bankAccountId,
+          accountName: t.bankAccountName || undefined,
+          reference: t.reference || undefined,
+          notes: t.notes || undefined,
+          status: (t.status || "Completed") as TransactionStatus,
+          createdAt: t.createdAt || new Date(),
         } as TransactionRecord;
       })
       .filter((t): t is TransactionRecord => t !== null)
@@ -283,15 +257,6 @@ export default function Transactions() {
   };
 
   const fetchAll = async () => {
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
       console.log("Starting fetchAll...");
@@ -305,7 +270,7 @@ export default function Transactions() {
       console.error("Error fetching transactions", error);
       toast({
         title: "Load failed",
-        description: "Could not load transactions from Firestore.",
+        description: "Could not load transactions.",
         variant: "destructive",
       });
     } finally {
@@ -350,11 +315,13 @@ export default function Transactions() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!db) return;
     if (!confirm("Delete this transaction?")) return;
 
     try {
-      await deleteDoc(doc(db, "accountingTransactions", id));
+      await runRecordTransaction(async (tx) => {
+        tx.delete("accountingTransactions", id);
+        removeJournal(tx, "bookEntry", id);
+      });
       toast({ title: "Deleted", description: "Transaction removed." });
       fetchTransactions();
     } catch (error) {
@@ -370,15 +337,6 @@ export default function Transactions() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!db) {
-      toast({
-        title: "Database unavailable",
-        description: "Firebase is not initialized. Please check your environment variables.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     if (!formData.date) {
       toast({ title: "Validation error", description: "Date is required.", variant: "destructive" });
       return;
@@ -419,20 +377,30 @@ export default function Transactions() {
       reference: formData.reference.trim(),
       notes: formData.notes.trim(),
       status: formData.status,
-      updatedAt: Timestamp.now(),
     };
 
     setIsSubmitting(true);
     try {
       if (editing) {
-        await updateDoc(doc(db, "accountingTransactions", editing.id), payload);
+        // Rows mirrored from a payment are already in the ledger through the payment's entry.
+        const mirroredFrom = await listRecords("payments", {
+          where: [["acctAccountingTxId", "==", editing.id]],
+          limit: 1,
+        });
+        await runRecordTransaction(async (tx) => {
+          await tx.get("accountingTransactions", editing.id);
+          tx.update("accountingTransactions", editing.id, payload);
+          if (!mirroredFrom.length) {
+            postJournal(tx, "bookEntry", editing.id, bookEntryJournal({ ...payload, id: editing.id }));
+          }
+        });
         toast({ title: "Updated", description: "Transaction updated successfully." });
       } else {
-        await addDoc(collection(db, "accountingTransactions"), {
-          ...payload,
-          createdAt: Timestamp.now(),
+        await runRecordTransaction(async (tx) => {
+          const id = tx.create("accountingTransactions", payload);
+          postJournal(tx, "bookEntry", id, bookEntryJournal({ ...payload, id }));
         });
-        toast({ title: "Saved", description: "Transaction saved to Firestore." });
+        toast({ title: "Saved", description: "Transaction saved and posted to the ledger." });
       }
 
       setIsDialogOpen(false);
@@ -626,9 +594,11 @@ export default function Transactions() {
                           <Button variant="ghost" size="sm" onClick={() => openEdit(t)}>
                             <Pencil className="w-4 h-4" />
                           </Button>
-                          <Button variant="ghost" size="sm" onClick={() => handleDelete(t.id)}>
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          {can("deleteRecords") && (
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(t.id)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
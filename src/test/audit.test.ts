@@ -0,0 +1,62 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { setAuditActor } from "@/lib/audit";
+import { createRecord, deleteRecord, getRecord, listRecords, putRecord, updateRecord } from "@/lib/repository";
+import { getStorage, setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("audit trail", () => {
+  beforeEach(() => {
+    setStorage(new LocalStorageBackend());
+    localStorage.clear();
+    setAuditActor("accounts@example.com");
+  });
+
+  it("logs field-level changes with the acting user", async () => {
+    const id = await createRecord("payments", { date: "2026-04-01", direction: "In", partyName: "Acme", amount: 100, reference: "UTR1" });
+    await updateRecord("payments", id, { amount: 150 });
+    await deleteRecord("payments", id);
+
+    const log = await listRecords("auditLog", { where: [["recordId", "==", id]], orderBy: "createdAt" });
+    expect(log.map((e) => e.action)).toEqual(["create", "update", "delete"]);
+    expect(log.every((e) => e.actor === "accounts@example.com" && e.reference === "UTR1")).toBe(true);
+    expect(log[1].changes).toEqual([{ field: "amount", before: "100", after: "150" }]);
+    expect(log[2].changes.find((c) => c.field === "partyName")).toMatchObject({ before: "Acme" });
+  });
+
+  it("keeps the creation time when a document is replaced", async () => {
+    await putRecord("payments", "p1", { date: "2026-04-01", partyName: "Acme", amount: 100 });
+    const created = (await getRecord("payments", "p1")).createdAt;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await putRecord("payments", "p1", { date: "2026-04-01", partyName: "Acme", amount: 120 });
+
+    const replaced = await getRecord("payments", "p1");
+    expect(replaced.createdAt).toEqual(created);
+    expect(replaced.updatedAt.getTime()).toBeGreaterThan(created.getTime());
+    const log = await listRecords("auditLog", { where: [["recordId", "==", "p1"]], orderBy: "createdAt" });
+    expect(log.map((e) => e.action)).toEqual(["create", "update"]);
+    expect(log[1].changes).toEqual([{ field: "amount", before: "100", after: "120" }]);
+  });
+
+  it("logs writes to a doctor's patients under the doctor's document", async () => {
+    await putRecord("patients", "d1/p1", { name: "Ravi", age: 40 });
+    await updateRecord("patients", "d1/p1", { histories: [{ id: "h1", date: "2026-10-01", note: "Fever" }] });
+
+    expect((await getStorage().get("doctors/d1/patients", "p1"))?.name).toBe("Ravi");
+    expect((await getRecord("patients", "d1/p1"))?.histories).toHaveLength(1);
+    expect((await listRecords("patients", { parentId: "d1" })).map((p) => [p.id, p.name])).toEqual([["d1/p1", "Ravi"]]);
+    const log = await listRecords("auditLog", { where: [["recordId", "==", "d1/p1"]], orderBy: "createdAt" });
+    expect(log.map((e) => [e.collection, e.action])).toEqual([
+      ["patients", "create"],
+      ["patients", "update"],
+    ]);
+  });
+
+  it("redacts secrets and skips unaudited collections", async () => {
+    await createRecord("staffUsers", { email: "a@example.com", name: "A", role: "admin", passwordHash: "abc123" });
+    await createRecord("doctorSessions", { doctorId: "d1", expiresAt: new Date() });
+
+    const log = await listRecords("auditLog");
+    expect(log.map((e) => e.collection)).toEqual(["staffUsers"]);
+    expect(log[0].changes.find((c) => c.field === "passwordHash")?.after).toBe("••••");
+  });
+});
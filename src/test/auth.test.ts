@@ -0,0 +1,52 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { canAccessPath, hasPermission, saveStaffUser, setAuthBackend, setUpFirstAdmin, signInStaff } from "@/lib/auth";
+import { getRecord } from "@/lib/repository";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("staff access", () => {
+  beforeEach(() => {
+    setStorage(new LocalStorageBackend());
+    setAuthBackend(null);
+    localStorage.clear();
+  });
+
+  it("limits pages and destructive actions by role", () => {
+    expect(canAccessPath("production", "/processing")).toBe(true);
+    expect(canAccessPath("production", "/payments")).toBe(false);
+    expect(canAccessPath("sales", "/invoices/new")).toBe(true);
+    expect(canAccessPath("admin", "/payments")).toBe(true);
+    expect(hasPermission("accountant", "editPayments")).toBe(true);
+    expect(hasPermission("accountant", "deleteRecords")).toBe(false);
+    expect(hasPermission("admin", "wipeData")).toBe(true);
+  });
+
+  it("refuses sign-in until an administrator is set up, then checks every one", async () => {
+    await expect(signInStaff("anyone@example.com", "anything")).rejects.toThrow(/No administrator/);
+
+    const admin = { email: "Owner@Example.com", name: "Owner", password: "secret" };
+    expect(await setUpFirstAdmin(admin)).toMatchObject({ email: "owner@example.com", role: "admin" });
+    await expect(setUpFirstAdmin({ ...admin, email: "intruder@example.com" })).rejects.toThrow(/already been set up/);
+    expect((await signInStaff("owner@example.com", "secret")).role).toBe("admin");
+
+    await expect(signInStaff("stranger@example.com", "secret")).rejects.toThrow(/Invalid email or password/);
+
+    await saveStaffUser({ email: "sam@example.com", name: "Sam", role: "sales", password: "pw" });
+    await expect(signInStaff("sam@example.com", "wrong")).rejects.toThrow(/Invalid email or password/);
+    expect((await signInStaff("sam@example.com", "pw")).role).toBe("sales");
+
+    const sam = await getRecord("staffUsers", "sam@example.com");
+    await saveStaffUser({ email: sam!.email, name: sam!.name, role: "sales", disabled: true }, sam!);
+    await expect(signInStaff("sam@example.com", "pw")).rejects.toThrow(/disabled/);
+  });
+
+  it("stores a salted hash rather than the password", async () => {
+    await setUpFirstAdmin({ email: "owner@example.com", name: "Owner", password: "secret" });
+    await saveStaffUser({ email: "a@example.com", name: "A", role: "sales", password: "pw" });
+    await saveStaffUser({ email: "b@example.com", name: "B", role: "sales", password: "pw" });
+    const [a, b] = await Promise.all([getRecord("staffUsers", "a@example.com"), getRecord("staffUsers", "b@example.com")]);
+    expect(a?.salt).toBeTruthy();
+    expect(a?.passwordHash).not.toContain("pw");
+    expect(a?.passwordHash).not.toBe(b?.passwordHash);
+  });
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { backupPaths, createBackup, parseBackup, planRestore, restoreBackup, serializeBackup, wipeAllData } from "@/lib/backup";
+import { createRecord, getRecord, listRecords, putRecord, updateRecord } from "@/lib/repository";
+import { getStorage, setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("backup and restore", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  it("round-trips collections, subcollections and dates through a dry run and restore", async () => {
+    const customerId = await createRecord("customers", { name: "Acme" });
+    const doctorId = await createRecord("doctors", { name: "Rao" });
+    await getStorage().set(`doctors/${doctorId}/patients`, "p1", { name: "Patient", visitedAt: new Date("2025-05-01") });
+    await putRecord("itemMonthlyReports", "i1_2025", { itemId: "i1", itemName: "Lactose", year: 2025, rows: [{ month: "january 2025", inQty: 5 }] });
+
+    const text = serializeBackup(await createBackup());
+
+    setStorage(new LocalStorageBackend());
+    const fresh = await createRecord("customers", { name: "Fresh" });
+    const backup = parseBackup(text);
+    const plan = await planRestore(backup);
+    expect(plan.find((p) => p.path === "customers")).toMatchObject({ added: 1, onlyInDatabase: 1 });
+    expect(plan.find((p) => p.path === `doctors/${doctorId}/patients`)).toMatchObject({ added: 1 });
+
+    await restoreBackup(backup);
+    expect((await getRecord("customers", customerId))?.createdAt).toBeInstanceOf(Date);
+    expect((await getRecord("customers", fresh))?.name).toBe("Fresh");
+    expect((await getRecord("itemMonthlyReports", "i1_2025"))?.rows[0].inQty).toBe(5);
+    expect((await getStorage().get(`doctors/${doctorId}/patients`, "p1"))?.visitedAt).toEqual(new Date("2025-05-01"));
+
+    await updateRecord("customers", customerId, { name: "Acme Ltd" });
+    expect((await planRestore(backup)).find((p) => p.path === "customers")).toMatchObject({ changed: 1, unchanged: 0 });
+  });
+
+  it("leaves legacy plaintext doctor passwords out of the file", async () => {
+    await createRecord("doctors", { name: "Old", loginId: "old", password: "plain" });
+
+    const text = serializeBackup(await createBackup());
+    expect(text).not.toContain("plain");
+    expect(parseBackup(text).collections.doctors[0].data).toMatchObject({ name: "Old", loginId: "old" });
+  });
+
+  it("leaves password hashes out of the file and keeps the current ones on restore", async () => {
+    await putRecord("staffUsers", "a@example.com", { email: "a@example.com", name: "A", role: "admin", passwordHash: "staff-hash", salt: "staff-salt" });
+    await putRecord("doctorCredentials", "d1", { doctorId: "d1", loginId: "rao", passwordHash: "doctor-hash", salt: "doctor-salt" });
+
+    const text = serializeBackup(await createBackup());
+    expect(text).not.toMatch(/staff-hash|staff-salt|doctor-hash|doctor-salt/);
+
+    await updateRecord("staffUsers", "a@example.com", { name: "Renamed" });
+    await restoreBackup(parseBackup(text));
+    expect(await getRecord("staffUsers", "a@example.com")).toMatchObject({ name: "A", passwordHash: "staff-hash", salt: "staff-salt" });
+    expect(await getRecord("doctorCredentials", "d1")).toMatchObject({ loginId: "rao", passwordHash: "doctor-hash" });
+  });
+
+  it("covers every collection the app writes, except portal sessions", () => {
+    const paths = backupPaths();
+    expect(paths).toEqual(expect.arrayContaining(["itemMonthlyReports", "itemNameSuggestions", "journalEntries", "auditLog"]));
+    expect(paths).not.toContain("doctorSessions");
+  });
+
+  it("wipes every collection but staff sign-ins and the company's settings", async () => {
+    const staffId = await createRecord("staffUsers", { email: "admin@example.com", role: "admin" });
+    await putRecord("companyProfile", "default", { legalName: "Sentiment Pharma" });
+    await createRecord("customers", { name: "Acme" });
+    await createRecord("journalEntries", { date: "2026-10-01", lines: [] });
+    const doctorId = await createRecord("doctors", { name: "Rao" });
+    await getStorage().set(`doctors/${doctorId}/patients`, "p1", { name: "Patient" });
+
+    expect(await wipeAllData()).toBeGreaterThan(0);
+
+    expect(await getRecord("staffUsers", staffId)).not.toBeNull();
+    expect(await getRecord("companyProfile", "default")).not.toBeNull();
+    for (const name of ["customers", "journalEntries", "doctors", "auditLog"] as const) {
+      expect(await listRecords(name)).toEqual([]);
+    }
+    expect(await getStorage().list(`doctors/${doctorId}/patients`)).toEqual([]);
+  });
+
+  it("never lowers a number counter and logs the stock a restore puts back", async () => {
+    await putRecord("numberCounters", "invoice_2026-27_default", { documentType: "invoice", financialYear: "2026-27", branch: "default", lastNumber: 4 });
+    const itemId = await createRecord("processedInventory", { name: "Paracetamol", unit: "kg", quantity: 10 });
+    const backup = parseBackup(serializeBackup(await createBackup()));
+
+    await updateRecord("numberCounters", "invoice_2026-27_default", { lastNumber: 9 });
+    await updateRecord("processedInventory", itemId, { quantity: 6 });
+    await restoreBackup(backup);
+
+    expect((await getRecord("numberCounters", "invoice_2026-27_default"))?.lastNumber).toBe(9);
+    expect((await getRecord("processedInventory", itemId))?.quantity).toBe(10);
+    expect(await listRecords("stockMovements")).toEqual([
+      expect.objectContaining({ itemId, movementType: "adjustment", quantity: 4, balanceAfter: 10, sourceType: "restore" }),
+    ]);
+  });
+
+  it("rejects unknown collections and documents that don't fit their collection", () => {
+    const file = (collections: Record<string, unknown>) =>
+      serializeBackup({ format: "sentiment-pharma-suite-backup", version: 1, createdAt: new Date(), collections } as never);
+    expect(() => parseBackup(file({ secrets: [{ id: "a", data: {} }] }))).toThrow(/unknown collection secrets/);
+    expect(() => parseBackup(file({ "customers/c1/patients": [{ id: "a", data: {} }] }))).toThrow(/unknown collection/);
+    expect(() => parseBackup(file({ invoices: [{ id: "a", data: { items: ["Paracetamol"] } }] }))).toThrow(/invoices\/a/);
+    expect(parseBackup(file({ "doctors/d1/patients": [{ id: "p1", data: { name: "Ravi" } }] })).collections).toHaveProperty("doctors/d1/patients");
+  });
+
+  it("rejects files from other apps or newer versions", () => {
+    expect(() => parseBackup("{")).toThrow(/not valid JSON/);
+    expect(() => parseBackup(JSON.stringify({ format: "other" }))).toThrow(/not a backup/);
+    const future = JSON.parse(serializeBackup({ format: "sentiment-pharma-suite-backup", version: 1, createdAt: new Date(), collections: {} }));
+    expect(() => parseBackup(JSON.stringify({ ...future, version: 99 }))).toThrow(/version 99/);
+  });
+});
@@ -0,0 +1,42 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { CompanyProfileError, DEFAULT_COMPANY, companyStateCode, loadCompany, saveCompanyProfile } from "@/lib/company";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+const profile = {
+  legalName: "Sentiment Pharma Pvt Ltd",
+  gstin: "24aaacs1234a1z5",
+  address: "Plot 12, GIDC Estate, Vadodara 390010",
+  drugLicences: [
+    { label: "20B", number: "GJ/VAD/20B/1234" },
+    { label: "21B", number: "" },
+  ],
+  bankAccountNo: "50200012345678",
+  bankIfsc: "hdfc0001234",
+};
+
+describe("company profile", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setStorage(new LocalStorageBackend());
+  });
+
+  it("falls back to the environment until a profile is saved, then prints from it", async () => {
+    expect(await loadCompany()).toBe(DEFAULT_COMPANY);
+
+    await saveCompanyProfile(profile);
+    const company = await loadCompany();
+    expect(company.name).toBe("Sentiment Pharma Pvt Ltd");
+    expect(company.gstin).toBe("24AAACS1234A1Z5");
+    expect(companyStateCode(company)).toBe("24");
+    expect(company.drugLicences).toEqual([{ label: "20B", number: "GJ/VAD/20B/1234" }]);
+    expect(company.bank).toMatchObject({ accountName: "Sentiment Pharma Pvt Ltd", ifsc: "HDFC0001234" });
+  });
+
+  it("rejects an invalid GSTIN, a state that does not match it, or a bad IFSC", async () => {
+    await expect(saveCompanyProfile({ ...profile, gstin: "24AAACS1234A1Z" })).rejects.toThrow(CompanyProfileError);
+    await expect(saveCompanyProfile({ ...profile, stateCode: "27" })).rejects.toThrow("does not match");
+    await expect(saveCompanyProfile({ ...profile, bankIfsc: "HDFC1234" })).rejects.toThrow("IFSC");
+    expect(await loadCompany()).toBe(DEFAULT_COMPANY);
+  });
+});
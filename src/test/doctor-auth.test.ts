@@ -0,0 +1,64 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import {
+  createDoctorAccount,
+  currentDoctorSession,
+  MAX_FAILED_ATTEMPTS,
+  migrateLegacyPasswords,
+  resetDoctorPassword,
+  signInDoctor,
+} from "@/lib/doctor-auth";
+import { createRecord, getRecord, listRecords, updateRecord } from "@/lib/repository";
+import { getStorage, setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("doctor portal sign-in", () => {
+  beforeEach(() => {
+    setStorage(new LocalStorageBackend());
+    localStorage.clear();
+  });
+
+  it("stores only a salted hash and locks after repeated failures", async () => {
+    const doctorId = await createDoctorAccount({ name: "Rao" }, "rao", "correct-horse");
+    expect((await getRecord("doctors", doctorId))?.password).toBeUndefined();
+    expect((await getRecord("doctorCredentials", doctorId))?.passwordHash).not.toContain("correct-horse");
+
+    const session = await signInDoctor("rao", "correct-horse");
+    expect((await currentDoctorSession())?.doctor.id).toBe(doctorId);
+
+    for (let i = 1; i < MAX_FAILED_ATTEMPTS; i++) {
+      await expect(signInDoctor("rao", "wrong")).rejects.toThrow(/Invalid login/);
+    }
+    await expect(signInDoctor("rao", "wrong")).rejects.toThrow(/locked/);
+    await expect(signInDoctor("rao", "correct-horse")).rejects.toThrow(/Try again/);
+
+    await resetDoctorPassword(doctorId, "rao", "battery-staple");
+    expect(await getRecord("doctorSessions", session.sessionId)).toBeNull();
+    expect((await signInDoctor("rao", "battery-staple")).doctor.name).toBe("Rao");
+  });
+
+  it("expires sessions and moves legacy plaintext passwords into credentials", async () => {
+    const doctorId = await createRecord("doctors", { name: "Old", loginId: "old", password: "plain" });
+
+    const { expiresAt } = await signInDoctor("old", "plain");
+    expect((await getRecord("doctors", doctorId))?.password).toBeUndefined();
+    expect(await listRecords("doctorCredentials")).toHaveLength(1);
+
+    expect(await currentDoctorSession(new Date(expiresAt.getTime() + 1))).toBeNull();
+    expect(await currentDoctorSession()).toBeNull();
+  });
+
+  it("hashes every legacy plaintext password without waiting for a sign-in", async () => {
+    const oldId = await createRecord("doctors", { name: "Old", loginId: "old", password: "plain" });
+    const raoId = await createDoctorAccount({ name: "Rao" }, "rao", "correct-horse");
+    await updateRecord("doctors", raoId, { password: "stale" });
+
+    expect(await migrateLegacyPasswords()).toBe(2);
+    for (const id of [oldId, raoId]) {
+      expect(await getStorage().get("doctors", id)).not.toHaveProperty("password");
+    }
+    expect((await getRecord("doctorCredentials", oldId))?.passwordHash).not.toContain("plain");
+    expect((await signInDoctor("old", "plain")).doctor.id).toBe(oldId);
+    expect((await signInDoctor("rao", "correct-horse")).doctor.id).toBe(raoId);
+    expect(await migrateLegacyPasswords()).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { attachEInvoice, buildEInvoice, EInvoiceError, eInvoiceProblems, mockIrp, parseIrpResponse } from "@/lib/einvoice";
+import { createRecord, getRecord } from "@/lib/repository";
+import { invoiceSchema } from "@/lib/schemas";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+const company = {
+  name: "Sentiment Pharma",
+  address: "Plot 12, GIDC Estate, Vadodara 390010",
+  phone: "+91 98250 12345",
+  email: "",
+  gstin: "24AAACS1234A1Z5",
+  stateCode: "24",
+};
+
+const invoiceData = {
+  invoiceNo: "INV-101",
+  issueDate: "2025-04-05",
+  partyName: "Mumbai Distributors",
+  customer: { address: "4 Dock Road, Mumbai 400001", gst: "27AAACR5055K1Z7" },
+  placeOfSupply: "27",
+  items: [
+    { name: "Syrup", hsnCode: "3004", unit: "btl", quantity: 10, rate: 100, tax: 12, taxType: "IGST" },
+    { name: "Tablets", hsnCode: "300490", unit: "box", quantity: 2, rate: 250, tax: 5, taxType: "IGST" },
+  ],
+};
+const invoice = { id: "i1", ...invoiceSchema.parse(invoiceData) };
+
+describe("e-invoice", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  it("builds the INV-01 payload and lists what blocks an invoice", () => {
+    const payload = buildEInvoice(invoice, company, "24");
+    expect(payload.DocDtls).toEqual({ Typ: "INV", No: "INV-101", Dt: "05/04/2025" });
+    expect(payload.SellerDtls).toMatchObject({ Gstin: company.gstin, Pin: 390010, Stcd: "24", Loc: "Vadodara" });
+    expect(payload.BuyerDtls).toMatchObject({ Pos: "27", Pin: 400001, Stcd: "27" });
+    expect(payload.ItemList[0]).toMatchObject({ HsnCd: "3004", Unit: "BTL", AssAmt: 1000, IgstAmt: 120, CgstAmt: 0, TotItemVal: 1120 });
+    expect(payload.ValDtls).toMatchObject({ AssVal: 1500, IgstVal: 145, TotInvVal: 1645 });
+
+    const unregistered = {
+      ...invoice,
+      customer: { ...invoice.customer!, gst: "" },
+      placeOfSupply: "24",
+      items: [{ ...invoice.items[0], hsnCode: "" }],
+    };
+    expect(eInvoiceProblems(unregistered, company, "24")).toEqual([
+      "E-invoices are only for registered buyers; the customer GSTIN is missing or invalid.",
+      "Syrup needs a 4, 6 or 8 digit HSN code.",
+      "Syrup is taxed as IGST but the place of supply needs CGST / SGST.",
+    ]);
+    expect(() => buildEInvoice(unregistered, company, "24")).toThrow(EInvoiceError);
+  });
+
+  it("issues the same IRN for the same document and stores the IRP result on the invoice", async () => {
+    const payload = buildEInvoice(invoice, company, "24");
+    const first = parseIrpResponse(await mockIrp(payload));
+    const again = parseIrpResponse({ Data: JSON.stringify(await mockIrp(payload)) });
+    expect(first.irn).toMatch(/^[0-9a-f]{64}$/);
+    expect(again.irn).toBe(first.irn);
+    expect(() => parseIrpResponse({ ErrorDetails: [{ ErrorMessage: "Duplicate IRN" }] })).toThrow("Duplicate IRN");
+
+    const id = await createRecord("invoices", invoiceData);
+    await attachEInvoice(id, first);
+    expect((await getRecord("invoices", id))?.eInvoice).toMatchObject({ irn: first.irn, signedQrCode: first.signedQrCode });
+  });
+});
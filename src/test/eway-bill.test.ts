@@ -0,0 +1,74 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { attachEWayBill, buildEWayBill, eWayBillBulkJson, eWayBillProblems, EWayBillError, saveDispatch } from "@/lib/eway-bill";
+import { createRecord, getRecord } from "@/lib/repository";
+import { invoiceSchema } from "@/lib/schemas";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+const company = {
+  name: "Sentiment Pharma",
+  address: "Plot 12, GIDC Estate, Vadodara 390010",
+  phone: "",
+  email: "",
+  gstin: "24AAACS1234A1Z5",
+  stateCode: "24",
+};
+
+const invoiceData = {
+  invoiceNo: "INV-201",
+  issueDate: "2025-06-10",
+  partyName: "Surat Medicals",
+  customer: { address: "Ring Road, Surat 395002" },
+  placeOfSupply: "24",
+  items: [{ name: "Syrup", hsnCode: "3004", unit: "btl", quantity: 600, rate: 100, tax: 12, taxType: "CGST / SGST" }],
+  dispatch: { transportMode: "road", distanceKm: 150, vehicleNo: "gj 06 ab 1234", transporterName: "Shree Logistics" },
+};
+const invoice = { id: "i1", ...invoiceSchema.parse(invoiceData) };
+
+describe("e-way bill", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  it("builds Part-A and Part-B for an unregistered buyer and wraps bills for bulk upload", () => {
+    const bill = buildEWayBill(invoice, company, "24");
+    expect(bill).toMatchObject({
+      docNo: "INV-201",
+      docDate: "10/06/2025",
+      fromPincode: 390010,
+      toGstin: "URP",
+      toPincode: 395002,
+      toStateCode: 24,
+      totalValue: 60000,
+      cgstValue: 3600,
+      sgstValue: 3600,
+      totInvValue: 67200,
+      transMode: "1",
+      transDistance: "150",
+      vehicleNo: "GJ06AB1234",
+    });
+    expect(bill.itemList[0]).toMatchObject({ hsnCode: 3004, qtyUnit: "BTL", cgstRate: 6, sgstRate: 6, igstRate: 0 });
+
+    const bulk = eWayBillBulkJson([bill]);
+    expect(bulk.billLists[0]).toMatchObject({ userGstin: company.gstin, actualToStateCode: 24, transType: 1, mainHsnCode: 3004 });
+    expect(bulk.billLists[0].itemList[0].itemNo).toBe(1);
+
+    const byRail = { ...invoice, dispatch: { ...invoice.dispatch!, transportMode: "rail" as const, vehicleNo: "12345" } };
+    expect(eWayBillProblems(byRail, company, "24")).toEqual([
+      "12345 is not a valid vehicle number.",
+      "Rail transport needs the transport document number and date.",
+    ]);
+  });
+
+  it("saves dispatch details and the EWB number on the invoice", async () => {
+    const id = await createRecord("invoices", { ...invoiceData, dispatch: undefined });
+    await saveDispatch(id, invoice.dispatch!);
+    await expect(attachEWayBill(id, { ewbNo: "1234", ewbDate: "2025-06-10" })).rejects.toThrow(EWayBillError);
+    await attachEWayBill(id, { ewbNo: "3210 9876 5432", ewbDate: "2025-06-10" });
+
+    const saved = await getRecord("invoices", id);
+    expect(saved?.dispatch).toMatchObject({ vehicleNo: "GJ06AB1234", distanceKm: 150 });
+    expect(saved?.eWayBill).toMatchObject({ ewbNo: "321098765432" });
+
+    await saveDispatch(id, { transportMode: "road", distanceKm: 0 });
+    expect((await getRecord("invoices", id))?.dispatch).toBeUndefined();
+  });
+});
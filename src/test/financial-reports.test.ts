@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { balanceSheet, previousPeriod, profitAndLoss, trialBalance } from "@/lib/financial-reports";
+import { invoiceJournal, journalTotals, purchaseJournal, type JournalDraft } from "@/lib/ledger";
+import { invoiceSchema, purchaseSchema, type JournalEntryRecord } from "@/lib/schemas";
+
+function asEntry(id: string, draft: JournalDraft): JournalEntryRecord {
+  return { id, ...draft, sourceType: "manual", sourceId: id, total: journalTotals(draft.lines).totalDebit };
+}
+
+const entries = [
+  asEntry("e1", invoiceJournal({ id: "i1", ...invoiceSchema.parse({ invoiceNo: "INV-1", issueDate: "2024-06-01", total: 1180, tax: 180 }) })!),
+  asEntry("e2", invoiceJournal({ id: "i2", ...invoiceSchema.parse({ invoiceNo: "INV-2", issueDate: "2025-05-10", total: 500 }) })!),
+  asEntry(
+    "e3",
+    purchaseJournal({ id: "p1", ...purchaseSchema.parse({ invoiceNo: "B-1", date: "2025-05-12", quantity: 2, totalPrice: 100 }) })!
+  ),
+];
+
+describe("financial reports", () => {
+  it("steps back a financial year, a month or the same number of days", () => {
+    expect(previousPeriod({ from: "2025-04-01", to: "2026-03-31" })).toEqual({ from: "2024-04-01", to: "2025-03-31" });
+    expect(previousPeriod({ from: "2025-03-01", to: "2025-03-31" })).toEqual({ from: "2025-02-01", to: "2025-02-28" });
+    expect(previousPeriod({ from: "2025-05-11", to: "2025-05-20" })).toEqual({ from: "2025-05-01", to: "2025-05-10" });
+  });
+
+  it("compares profit with the previous period and keeps the balance sheet in balance", () => {
+    const period = { from: "2025-04-01", to: "2026-03-31" };
+    const previous = previousPeriod(period);
+
+    const pl = profitAndLoss(entries, period, previous);
+    expect(pl.netProfit).toEqual({ current: 300, previous: 1000 });
+
+    const tb = trialBalance(entries, period.to, previous.to);
+    expect(tb.totalDebit).toEqual(tb.totalCredit);
+
+    const bs = balanceSheet(entries, period.to, previous.to);
+    expect(bs.assets.total).toEqual(bs.totalLiabilitiesAndEquity);
+    expect(bs.assets.rows.find((r) => r.label === "Sundry Debtors")).toMatchObject({ current: 1680, previous: 1180 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { buildGstr1, buildGstr3b, gstr1Json, gstr3bJson } from "@/lib/gst-returns";
+import { debitCreditNoteSchema, invoiceSchema, partySchema, purchaseSchema } from "@/lib/schemas";
+
+const BUYER_GSTIN = "27AAACR5055K1Z7";
+const SUPPLIER_GSTIN = "24AAACS1234A1Z5";
+
+const invoice = (id: string, data: Record<string, unknown>) => ({ id, ...invoiceSchema.parse(data) });
+
+const input = {
+  month: "2025-04",
+  sellerState: "24",
+  invoices: [
+    invoice("i1", {
+      invoiceNo: "INV-1",
+      issueDate: "2025-04-05",
+      partyName: "Mumbai Distributors",
+      customer: { gst: BUYER_GSTIN },
+      placeOfSupply: "27",
+      items: [{ name: "Syrup", hsnCode: "3004", unit: "btl", quantity: 10, rate: 100, tax: 12, taxType: "IGST" }],
+    }),
+    invoice("i2", {
+      invoiceNo: "INV-2",
+      issueDate: "2025-04-09",
+      partyName: "Walk-in",
+      placeOfSupply: "24",
+      items: [{ name: "Syrup", hsnCode: "3004", unit: "btl", quantity: 5, rate: 100, tax: 12 }],
+    }),
+    invoice("i3", { invoiceNo: "INV-3", issueDate: "2025-05-01", subtotal: 900, taxPercent: 12 }),
+  ],
+  notes: [
+    { id: "n1", ...debitCreditNoteSchema.parse({ noteType: "Credit", noteNo: "CN-1", date: "2025-04-20", partyName: "Mumbai Distributors", amount: 112, relatedInvoiceNo: "INV-1" }) },
+    { id: "n2", ...debitCreditNoteSchema.parse({ noteType: "Credit", noteNo: "CN-2", date: "2025-04-21", partyName: "Walk-in", amount: 56, relatedInvoiceNo: "INV-2" }) },
+  ],
+  purchases: [
+    { id: "p1", ...purchaseSchema.parse({ date: "2025-04-02", supplierId: "s1", invoiceNo: "B-1", quantity: 10, invoicePrice: 50, taxInvoicePrice: 56 }) },
+    { id: "p2", ...purchaseSchema.parse({ date: "2025-04-03", supplierId: "s1", invoiceNo: "B-2", quantity: 10, invoicePrice: 50, notTaxInvoice: true }) },
+  ],
+  customers: [],
+  suppliers: [{ id: "s1", ...partySchema.parse({ name: "Ahmedabad Chem", gst: SUPPLIER_GSTIN }) }],
+  items: [],
+};
+
+describe("gst returns", () => {
+  it("sorts the month's invoices and notes into GSTR-1 sections", () => {
+    const gstr1 = buildGstr1(input);
+    expect(gstr1.b2b).toHaveLength(1);
+    expect(gstr1.b2b[0]).toMatchObject({ ctin: BUYER_GSTIN, number: "INV-1", value: 1120, pos: "27" });
+    expect(gstr1.b2cs).toEqual([{ supplyType: "INTRA", pos: "24", rate: 12, taxable: 450, cgst: 27, sgst: 27, igst: 0 }]);
+    expect(gstr1.cdnr[0].rates).toEqual([{ rate: 12, taxable: 100, cgst: 0, sgst: 0, igst: 12 }]);
+    expect(gstr1.hsn).toMatchObject([{ hsnCode: "3004", uqc: "BTL", quantity: 15, taxable: 1500, igst: 120, cgst: 30, sgst: 30 }]);
+
+    const json = gstr1Json("24AAACX0000A1Z1", input.month, gstr1);
+    expect(json.fp).toBe("042025");
+    expect(json.b2b[0].inv[0]).toMatchObject({ inum: "INV-1", idt: "05-04-2025", val: 1120, pos: "27" });
+    expect(json.cdnr[0].nt[0]).toMatchObject({ ntty: "C", nt_num: "CN-1", val: 112 });
+  });
+
+  it("nets notes into GSTR-3B and takes input tax from tax invoice prices", () => {
+    const gstr3b = buildGstr3b(input);
+    expect(gstr3b.outward).toEqual({ taxable: 1350, igst: 108, cgst: 27, sgst: 27 });
+    expect(gstr3b.inputTax).toEqual({ taxable: 500, igst: 0, cgst: 30, sgst: 30 });
+    expect(gstr3b.netPayable).toEqual({ igst: 108, cgst: -3, sgst: -3 });
+
+    const json = gstr3bJson("24AAACX0000A1Z1", input.month, gstr3b);
+    expect(json.sup_details.osup_det).toEqual({ txval: 1350, iamt: 108, camt: 27, samt: 27, csamt: 0 });
+    expect(json.itc_elg.itc_avl.find((r) => r.ty === "OTH")).toMatchObject({ camt: 30, samt: 30 });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { amountInWords, gstLine, gstTotals, isValidGstin, stateCodeFromGstin, summaryByHsn, taxTypeFor } from "@/lib/gst";
+
+describe("gst", () => {
+  it("picks CGST/SGST within the state and IGST across states, splitting tax to the paisa", () => {
+    expect(stateCodeFromGstin("24AAACS1234A1Z5")).toBe("24");
+    expect(isValidGstin("24AAACS1234A1Z")).toBe(false);
+    expect(taxTypeFor("24", "24")).toBe("CGST / SGST");
+    expect(taxTypeFor("24", "27")).toBe("IGST");
+    expect(taxTypeFor(undefined, "27")).toBe("CGST / SGST");
+
+    const intra = gstLine({ quantity: 3, rate: 33.33, tax: 5, taxType: "CGST / SGST" });
+    expect(intra).toMatchObject({ taxable: 99.99, cgst: 2.5, sgst: 2.5, igst: 0 });
+    expect(gstLine({ quantity: 1, rate: 100, tax: 12, taxType: "IGST" })).toMatchObject({ igst: 12, cgst: 0, total: 112 });
+  });
+
+  it("summarizes tax by HSN and rate and spells the amount in Indian words", () => {
+    const lines = [
+      { hsnCode: "3004", quantity: 10, rate: 50, tax: 12, taxType: "CGST / SGST" as const },
+      { hsnCode: "3004", quantity: 5, rate: 20, tax: 12, taxType: "CGST / SGST" as const },
+      { hsnCode: "3004", quantity: 1, rate: 100, tax: 5, taxType: "CGST / SGST" as const },
+    ];
+    expect(summaryByHsn(lines)).toEqual([
+      { hsnCode: "3004", rate: 5, taxable: 100, cgst: 2.5, sgst: 2.5, igst: 0 },
+      { hsnCode: "3004", rate: 12, taxable: 600, cgst: 36, sgst: 36, igst: 0 },
+    ]);
+    expect(gstTotals(lines)).toEqual({ taxable: 700, cgst: 38.5, sgst: 38.5, igst: 0 });
+
+    expect(amountInWords(777)).toBe("Rupees Seven Hundred Seventy Seven Only");
+    expect(amountInWords(12_34_567.5)).toBe("Rupees Twelve Lakh Thirty Four Thousand Five Hundred Sixty Seven and Fifty Paise Only");
+    expect(amountInWords(2_01_00_000)).toBe("Rupees Two Crore One Lakh Only");
+  });
+});
@@ -0,0 +1,70 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { cancelInvoice, InvoiceStateError, updateInvoice } from "@/lib/invoices";
+import { journalId } from "@/lib/ledger";
+import { InsufficientStockError } from "@/lib/production";
+import { moveToRecycleBin, restoreRecord } from "@/lib/recycle-bin";
+import { createRecord, getRecord, listRecords, putRecord } from "@/lib/repository";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+const line = (processedInventoryId: string, quantity: number) => ({ processedInventoryId, name: "Syrup", unit: "btl", quantity, rate: 100 });
+
+describe("invoice edits", () => {
+  let syrup: string;
+  let tablets: string;
+
+  // Stock as it stands after InvoiceNew sold 4 syrup: 6 left of 10.
+  beforeEach(async () => {
+    localStorage.clear();
+    setStorage(new LocalStorageBackend());
+    syrup = await createRecord("processedInventory", { name: "Syrup", unit: "btl", quantity: 6 });
+    tablets = await createRecord("processedInventory", { name: "Tablets", unit: "box", quantity: 5 });
+  });
+
+  const quantity = async (id: string) => (await getRecord("processedInventory", id))?.quantity;
+
+  it("moves only the difference in stock when lines change", async () => {
+    const id = await createRecord("invoices", { invoiceNo: "INV-1", partyName: "Acme", items: [line(syrup, 4)], total: 400 });
+
+    await updateInvoice(id, { items: [line(syrup, 1), line(tablets, 2)], total: 300 });
+    expect(await quantity(syrup)).toBe(9);
+    expect(await quantity(tablets)).toBe(3);
+    expect((await getRecord("journalEntries", journalId("invoice", id)))?.lines.length).toBeGreaterThan(0);
+
+    await expect(updateInvoice(id, { invoiceNo: "INV-9" })).rejects.toThrow(/keeps the number/);
+    await expect(updateInvoice(id, { items: [line(syrup, 1), line(tablets, 9)] })).rejects.toThrow(InsufficientStockError);
+    expect(await quantity(tablets)).toBe(3);
+    expect((await listRecords("stockMovements")).map((m) => m.quantity).sort()).toEqual([-2, 3]);
+  });
+
+  it("cancels an invoice by keeping its number, returning stock and dropping its ledger entry", async () => {
+    const id = await createRecord("invoices", { invoiceNo: "INV-2", partyName: "Acme", items: [line(syrup, 4)], total: 400 });
+    await updateInvoice(id, { notes: "posted" });
+
+    await cancelInvoice(id, "Wrong customer");
+    const invoice = await getRecord("invoices", id);
+    expect(invoice).toMatchObject({ invoiceNo: "INV-2", status: "Cancelled", cancelReason: "Wrong customer" });
+    expect(await quantity(syrup)).toBe(10);
+    expect(await getRecord("journalEntries", journalId("invoice", id))).toBeNull();
+
+    await cancelInvoice(id, "again");
+    expect(await quantity(syrup)).toBe(10);
+    await expect(updateInvoice(id, { total: 1 })).rejects.toThrow(InvoiceStateError);
+
+    // A cancelled invoice has no stock left to return when it is deleted and restored.
+    await moveToRecycleBin("invoices", id);
+    await restoreRecord("invoices", id);
+    expect(await quantity(syrup)).toBe(10);
+  });
+
+  it("returns stock while a deleted invoice is in the bin and refuses to cancel a paid one", async () => {
+    const id = await createRecord("invoices", { invoiceNo: "INV-3", partyName: "Acme", items: [line(syrup, 4)], total: 400 });
+    await moveToRecycleBin("invoices", id);
+    expect(await quantity(syrup)).toBe(10);
+    await restoreRecord("invoices", id);
+    expect(await quantity(syrup)).toBe(6);
+
+    await putRecord("payments", "p1", { invoiceId: id, amount: 400, status: "Completed" });
+    await expect(cancelInvoice(id, "")).rejects.toThrow(/Payments are recorded/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  ACCOUNTS,
+  accountBalances,
+  debitCreditNoteJournal,
+  invoiceJournal,
+  journalTotals,
+  paymentJournal,
+  type JournalDraft,
+} from "@/lib/ledger";
+import { debitCreditNoteSchema, invoiceSchema, paymentSchema, type JournalEntryRecord } from "@/lib/schemas";
+
+function asEntry(id: string, draft: JournalDraft): JournalEntryRecord {
+  return { id, ...draft, sourceType: "manual", sourceId: id, total: journalTotals(draft.lines).totalDebit };
+}
+
+describe("ledger", () => {
+  it("posts balanced entries for invoices, payments with charges and notes", () => {
+    const invoice = invoiceJournal({
+      id: "i1",
+      ...invoiceSchema.parse({ invoiceNo: "INV-1", issueDate: "2025-04-01", partyName: "Acme", total: 1180, tax: 180 }),
+    });
+    const payment = paymentJournal({
+      id: "p1",
+      ...paymentSchema.parse({
+        direction: "In",
+        partyType: "customer",
+        partyName: "Acme",
+        amount: 1000,
+        method: "Bank Transfer",
+        bankAccountId: "b1",
+        bankTransferCharge: 15,
+        status: "Completed",
+        date: "2025-04-05",
+      }),
+    });
+    const note = debitCreditNoteJournal({
+      id: "n1",
+      ...debitCreditNoteSchema.parse({ noteType: "Credit", noteNo: "CN-1", partyType: "customer", amount: 100, date: "2025-04-06" }),
+    });
+
+    for (const draft of [invoice, payment, note]) {
+      const { totalDebit, totalCredit } = journalTotals(draft!.lines);
+      expect(totalDebit).toBe(totalCredit);
+    }
+    expect(invoice!.lines.find((l) => l.accountCode === ACCOUNTS.taxPayable.code)?.credit).toBe(180);
+    expect(payment!.lines.filter((l) => l.bankAccountId === "b1")).toHaveLength(2);
+  });
+
+  it("skips payments that are not completed", () => {
+    const pending = paymentSchema.parse({ direction: "In", amount: 500, status: "Pending", date: "2025-04-01" });
+    expect(paymentJournal({ id: "p2", ...pending })).toBeNull();
+  });
+
+  it("computes balances in each account's natural direction within a date range", () => {
+    const sale = invoiceJournal({
+      id: "i1",
+      ...invoiceSchema.parse({ invoiceNo: "INV-1", issueDate: "2025-04-01", total: 500 }),
+    });
+    const later = invoiceJournal({
+      id: "i2",
+      ...invoiceSchema.parse({ invoiceNo: "INV-2", issueDate: "2025-05-01", total: 300 }),
+    });
+    const balances = accountBalances([asEntry("e1", sale!), asEntry("e2", later!)], { to: "2025-04-30" });
+    const byCode = new Map(balances.map((b) => [b.account.code, b.balance]));
+    expect(byCode.get(ACCOUNTS.receivables.code)).toBe(500);
+    expect(byCode.get(ACCOUNTS.sales.code)).toBe(500);
+  });
+});
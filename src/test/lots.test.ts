@@ -0,0 +1,60 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { allocateFefo, expiryAlerts } from "@/lib/lots";
+import { createBatch, deleteBatch } from "@/lib/production";
+import { createRecord, getRecord, listRecords } from "@/lib/repository";
+import { rawLotSchema } from "@/lib/schemas";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+const lot = (id: string, expiryDate: string, quantityRemaining: number) => ({
+  id,
+  ...rawLotSchema.parse({ rawItemId: "r1", lotNo: id.toUpperCase(), expiryDate, receivedDate: "2025-01-01", quantityRemaining }),
+});
+
+describe("raw material lots", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  it("uses untracked stock, then unexpired lots earliest expiry first", () => {
+    const lots = [lot("l1", "2026-01-31", 5), lot("l2", "2025-07-15", 5), lot("l3", "2025-04-30", 5)];
+
+    const plan = allocateFefo({ quantity: 17 }, lots, 9, "2025-05-01");
+
+    expect(plan.untracked).toBe(2);
+    expect(plan.lots.map((u) => [u.lotId, u.quantity])).toEqual([
+      ["l2", 5],
+      ["l1", 2],
+    ]);
+    expect(plan.shortfall).toBe(0);
+    expect(allocateFefo({ quantity: 17 }, lots, 13, "2025-05-01").shortfall).toBe(1);
+
+    expect(expiryAlerts(lots, "2025-05-01").map((a) => [a.lot.id, a.status])).toEqual([
+      ["l3", "expired"],
+      ["l2", "near-expiry"],
+    ]);
+  });
+
+  it("records lot usage on the batch and returns it when the batch is deleted", async () => {
+    const id = await createRecord("rawInventory", { name: "Lactose", unit: "kg", quantity: 10 });
+    const early = await createRecord("rawLots", { rawItemId: id, lotNo: "A", expiryDate: "2099-01-31", quantityRemaining: 4 });
+    const late = await createRecord("rawLots", { rawItemId: id, lotNo: "B", expiryDate: "2099-06-30", quantityRemaining: 6 });
+
+    await createBatch({
+      batchNo: "B1",
+      batchDate: "2025-05-01",
+      status: "in process",
+      items: [{ rawItemId: id, rawItemName: "Lactose", currentQuantity: 10, unit: "kg", useQuantity: 7 }],
+    });
+
+    const [batch] = await listRecords("batches");
+    expect(batch.items[0].lots.map((u) => [u.lotNo, u.quantity])).toEqual([
+      ["A", 4],
+      ["B", 3],
+    ]);
+    expect((await getRecord("rawLots", late))?.quantityRemaining).toBe(3);
+
+    await deleteBatch(batch);
+    expect((await getRecord("rawLots", early))?.quantityRemaining).toBe(4);
+    expect((await getRecord("rawLots", late))?.quantityRemaining).toBe(6);
+    expect((await getRecord("rawInventory", id))?.quantity).toBe(10);
+  });
+});
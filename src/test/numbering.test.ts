@@ -0,0 +1,60 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { DEFAULT_SERIES, NumberingError, nextDocumentNumber, saveNumbering } from "@/lib/numbering";
+import { createRecord, listRecords, runRecordTransaction } from "@/lib/repository";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+const issue = (date: string, branch = "") =>
+  runRecordTransaction(async (tx) => {
+    const invoiceNo = await nextDocumentNumber(tx, "invoice", date, branch);
+    tx.create("invoices", { invoiceNo, issueDate: date, partyName: "Mumbai Distributors", total: 100 });
+    return invoiceNo;
+  });
+
+describe("document numbering", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setStorage(new LocalStorageBackend());
+  });
+
+  it("numbers each financial year from 1 and keeps a series per branch", async () => {
+    expect(await issue("2026-03-31")).toBe("INV/2025-26/0001");
+    expect(await issue("2026-04-01")).toBe("INV/2026-27/0001");
+    expect(await issue("2026-09-14")).toBe("INV/2026-27/0002");
+
+    const byBranch = { ...DEFAULT_SERIES };
+    for (const s of Object.values(byBranch)) byBranch[s.documentType] = { ...s, format: "{BRANCH}/{FYS}/{SEQ}" };
+    await saveNumbering({
+      series: byBranch,
+      branches: [
+        { code: "ahd", name: "Ahmedabad" },
+        { code: "VAD", name: "Vadodara" },
+      ],
+    });
+    expect(await issue("2026-09-15", "AHD")).toBe("AHD/2627/0001");
+    expect(await issue("2026-09-15", "VAD")).toBe("VAD/2627/0001");
+    expect(await issue("2026-09-16", "AHD")).toBe("AHD/2627/0002");
+  });
+
+  it("does not use up a number when the save fails", async () => {
+    await expect(
+      runRecordTransaction(async (tx) => {
+        await nextDocumentNumber(tx, "invoice", "2026-05-01");
+        throw new Error("Insufficient stock");
+      })
+    ).rejects.toThrow("Insufficient stock");
+    expect(await issue("2026-05-02")).toBe("INV/2026-27/0001");
+    await createRecord("invoices", { invoiceNo: "manual" });
+    expect((await listRecords("invoices")).map((i) => i.invoiceNo).sort()).toEqual(["INV/2026-27/0001", "manual"]);
+  });
+
+  it("rejects series that would repeat numbers across branches or years", async () => {
+    const branches = [
+      { code: "AHD", name: "Ahmedabad" },
+      { code: "VAD", name: "Vadodara" },
+    ];
+    await expect(saveNumbering({ series: DEFAULT_SERIES, branches })).rejects.toThrow(NumberingError);
+    const noYear = { ...DEFAULT_SERIES, quotation: { ...DEFAULT_SERIES.quotation, format: "{PREFIX}-{SEQ}" } };
+    await expect(saveNumbering({ series: noYear, branches: [] })).rejects.toThrow("April reset");
+  });
+});
@@ -0,0 +1,47 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createBatch, deleteBatch, InsufficientStockError } from "@/lib/production";
+import { createRecord, getRecord, listRecords } from "@/lib/repository";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("batch processing", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  const item = (rawItemId: string, useQuantity: number) => ({
+    rawItemId,
+    rawItemName: "Lactose",
+    currentQuantity: 0,
+    unit: "kg",
+    useQuantity,
+  });
+
+  it("rejects over-consumption across lines without touching stock", async () => {
+    const id = await createRecord("rawInventory", { name: "Lactose", quantity: 10 });
+
+    await expect(
+      createBatch({ batchNo: "B1", batchDate: "2025-05-01", status: "in process", items: [item(id, 6), item(id, 6)] })
+    ).rejects.toBeInstanceOf(InsufficientStockError);
+
+    expect((await getRecord("rawInventory", id))?.quantity).toBe(10);
+    expect(await listRecords("batches")).toHaveLength(0);
+  });
+
+  it("creates an approved batch and reverses it on delete", async () => {
+    const id = await createRecord("rawInventory", { name: "Lactose", quantity: 10 });
+    const batchId = await createBatch({
+      batchNo: "B1",
+      batchDate: "2025-05-01",
+      status: "approved",
+      items: [item(id, 4)],
+      output: { producedItemName: "Tablet Mix", actualOutputQuantity: 3.5 },
+    });
+
+    expect((await getRecord("rawInventory", id))?.quantity).toBe(6);
+    const [produced] = await listRecords("processedInventory");
+    expect(produced.quantity).toBe(3.5);
+
+    await deleteBatch((await getRecord("batches", batchId))!);
+    expect((await getRecord("rawInventory", id))?.quantity).toBe(10);
+    expect((await getRecord("processedInventory", produced.id))?.quantity).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { InsufficientStockError } from "@/lib/production";
+import { createProformaInvoice, deleteProformaInvoice, ProformaInvoiceError, updateProformaInvoice } from "@/lib/proforma-invoices";
+import { deleteQuotation } from "@/lib/quotations";
+import { createRecord, getRecord, listRecords, runRecordTransaction } from "@/lib/repository";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+import { applyStockChange } from "@/lib/stock";
+
+const line = (processedInventoryId: string, quantity: number) => ({
+  processedInventoryId,
+  name: "Syrup",
+  unit: "btl",
+  quantity,
+  rate: 100,
+  tax: 12,
+});
+
+describe("proforma invoices", () => {
+  let syrup: string;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    setStorage(new LocalStorageBackend());
+    syrup = await createRecord("processedInventory", { name: "Syrup", unit: "btl", quantity: 10 });
+  });
+
+  const stock = async () => (await getRecord("processedInventory", syrup))!.quantity;
+
+  const saveProforma = async (quantity: number) => {
+    await createProformaInvoice({ issueDate: "2026-10-01", items: [line(syrup, quantity)] });
+    const [proforma] = await listRecords("proformaInvoices");
+    return proforma.id;
+  };
+
+  /** A quotation saved before sales orders existed, which took its goods out of stock. */
+  const legacyQuotation = (quantity: number) =>
+    runRecordTransaction(async (tx) => {
+      const item = await tx.get("processedInventory", syrup);
+      const id = tx.create("quotations", { quotationNo: "QT/1", issueDate: "2025-01-10", items: [line(syrup, quantity)] });
+      applyStockChange(tx, "processed", item, -quantity, {
+        date: "2025-01-10",
+        movementType: "dispatch",
+        sourceType: "quotation",
+        sourceId: id,
+      });
+      return id;
+    });
+
+  it("moves only the difference on edit and returns everything on delete", async () => {
+    const id = await saveProforma(4);
+    expect(await stock()).toBe(6);
+
+    await updateProformaInvoice(id, { items: [line(syrup, 6)], notes: "Revised" });
+    expect(await stock()).toBe(4);
+    expect((await getRecord("proformaInvoices", id))?.notes).toBe("Revised");
+    await expect(updateProformaInvoice(id, { items: [line(syrup, 11)] })).rejects.toThrow(InsufficientStockError);
+
+    await deleteProformaInvoice(id);
+    expect(await stock()).toBe(10);
+    expect(await getRecord("proformaInvoices", id)).toBeNull();
+    const log = await listRecords("auditLog", { where: [["recordId", "==", id]] });
+    expect(log.map((e) => e.action).sort()).toEqual(["create", "delete", "update"]);
+  });
+
+  it("leaves stock alone for proformas saved before the movement log", async () => {
+    const id = await createRecord("proformaInvoices", { proformaInvoiceNo: "PI/0", items: [line(syrup, 4)] });
+
+    await updateProformaInvoice(id, { items: [line(syrup, 2)] });
+    await deleteProformaInvoice(id);
+    expect(await stock()).toBe(10);
+  });
+
+  it("converts a quotation once, putting back what an older quotation took", async () => {
+    const quotationId = await legacyQuotation(8);
+    expect(await stock()).toBe(2);
+
+    await expect(createProformaInvoice({ issueDate: "2026-10-01", items: [line(syrup, 11)] }, quotationId)).rejects.toThrow(
+      /Only 10 of Syrup in stock, 11 needed/
+    );
+    await createProformaInvoice({ issueDate: "2026-10-01", items: [line(syrup, 9)] }, quotationId);
+    expect(await stock()).toBe(1);
+    expect((await getRecord("quotations", quotationId))?.status).toBe("Converted");
+    await expect(createProformaInvoice({ issueDate: "2026-10-01", items: [line(syrup, 1)] }, quotationId)).rejects.toThrow(
+      ProformaInvoiceError
+    );
+
+    await deleteQuotation(quotationId);
+    expect(await stock()).toBe(1);
+  });
+
+  it("returns what an older quotation took when it is deleted", async () => {
+    const quotationId = await legacyQuotation(3);
+
+    await deleteQuotation(quotationId);
+    expect(await stock()).toBe(10);
+    expect(await getRecord("quotations", quotationId)).toBeNull();
+  });
+});
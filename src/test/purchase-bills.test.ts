@@ -0,0 +1,119 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { ACCOUNTS } from "@/lib/ledger";
+import {
+  allocate,
+  createPurchaseBill,
+  landedRate,
+  legacyPurchaseBills,
+  priceBill,
+  PurchaseBillError,
+} from "@/lib/purchase-bills";
+import { createRecord, listRecords } from "@/lib/repository";
+import { purchaseSchema } from "@/lib/schemas";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+const lactose = { itemId: "i1", itemCode: "RM-001", itemName: "Lactose", unit: "kg" };
+const starch = { itemId: "i2", itemCode: "RM-002", itemName: "Starch", unit: "kg" };
+
+describe("purchase bills", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setStorage(new LocalStorageBackend());
+  });
+
+  it("spreads the discount by value and freight by taxable value, to the paisa", () => {
+    expect(allocate(100, [1, 1, 1])).toEqual([33.34, 33.33, 33.33]);
+
+    const bill = priceBill(
+      [
+        { ...lactose, quantity: 100, rate: 10, tax: 18 },
+        { ...starch, quantity: 50, rate: 40, tax: 5 },
+      ],
+      { discount: 300, freight: 100 },
+      "IGST"
+    );
+
+    expect(bill.items.map((l) => [l.discount, l.taxable, l.igst, l.freight])).toEqual([
+      [100, 900, 162, 33.33],
+      [200, 1800, 90, 66.67],
+    ]);
+    expect(bill).toMatchObject({ subtotal: 3000, discount: 300, taxable: 2700, cgst: 0, igst: 252, freight: 100, total: 3052 });
+    expect(bill.items.map(landedRate)).toEqual([9.33, 37.33]);
+  });
+
+  it("books a bill with stock and a lot per line, input tax and one payable", async () => {
+    const total = await createPurchaseBill({
+      billNo: "CC/101",
+      billDate: "2026-10-10",
+      supplierId: "s1",
+      supplierName: "Chem Co",
+      freight: 118,
+      items: [
+        { ...lactose, quantity: 100, rate: 50, tax: 18, lotNo: "A-1", expiryDate: "2028-01-31" },
+        { ...starch, quantity: 20, rate: 100, tax: 5, lotNo: "B-1", expiryDate: "2028-03-31" },
+      ],
+    });
+
+    expect(total).toBe(8118);
+    const [bill] = await listRecords("purchaseBills");
+    expect(bill).toMatchObject({ taxType: "CGST / SGST", taxable: 7000, cgst: 500, sgst: 500, freight: 118 });
+    expect(bill.items.map((l) => l.landedCost)).toEqual([5084.29, 2033.71]);
+    expect((await listRecords("rawInventory")).map((r) => [r.itemCode, r.quantity]).sort()).toEqual([
+      ["RM-001", 100],
+      ["RM-002", 20],
+    ]);
+    expect((await listRecords("rawLots")).every((l) => l.purchaseBillId === bill.id)).toBe(true);
+
+    const [entry] = await listRecords("journalEntries");
+    expect(entry.sourceType).toBe("purchaseBill");
+    expect(entry.lines.map((l) => [l.accountCode, l.debit, l.credit])).toEqual([
+      [ACCOUNTS.purchases.code, 7118, 0],
+      [ACCOUNTS.inputTax.code, 1000, 0],
+      [ACCOUNTS.payables.code, 0, 8118],
+    ]);
+
+    await expect(
+      createPurchaseBill({ billNo: "cc/101", billDate: "2026-10-11", supplierId: "s1", supplierName: "Chem Co", items: bill.items })
+    ).rejects.toThrow(PurchaseBillError);
+    await expect(
+      createPurchaseBill({
+        billNo: "CC/102",
+        billDate: "2026-10-11",
+        supplierId: "s1",
+        supplierName: "Chem Co",
+        items: [{ ...lactose, quantity: 5, rate: 50, tax: 18 }],
+      })
+    ).rejects.toThrow(/batch number/);
+  });
+
+  it("groups older one-item purchase rows into bills by supplier and invoice number", async () => {
+    const row = (invoiceNo: string, itemName: string, quantity: number) =>
+      createRecord(
+        "purchases",
+        purchaseSchema.parse({
+          date: "2025-06-01",
+          supplierId: "s1",
+          supplierName: "Chem Co",
+          invoiceNo,
+          itemId: itemName,
+          itemCode: itemName,
+          itemName,
+          quantity,
+          invoicePrice: 100,
+          taxInvoicePrice: 118,
+          totalPrice: 118,
+        })
+      );
+    await row("INV-9", "Lactose", 10);
+    await row("inv-9 ", "Starch", 5);
+    await row("INV-10", "Talc", 1);
+
+    const bills = legacyPurchaseBills(await listRecords("purchases"));
+    expect(bills.map((b) => [b.billNo, b.purchaseIds.length, b.total, b.taxable])).toEqual([
+      ["INV-9", 2, 1770, 1500],
+      ["INV-10", 1, 118, 100],
+    ]);
+    expect(bills[0].items.map((l) => l.tax)).toEqual([18, 18]);
+  });
+});
@@ -0,0 +1,91 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { PurchaseBillError } from "@/lib/purchase-bills";
+import {
+  bookSupplierInvoice,
+  closePurchaseOrder,
+  createPurchaseOrder,
+  openPurchaseOrderLines,
+  PurchaseOrderError,
+  receiveGoods,
+  releaseQcHold,
+  ThreeWayMatchError,
+} from "@/lib/purchase-orders";
+import { listRecords } from "@/lib/repository";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+import { tracePurchaseLots } from "@/lib/traceability";
+
+const lactose = { itemId: "i1", itemCode: "RM-001", itemName: "Lactose", unit: "kg", quantity: 100, rate: 50, tax: 18 };
+const lot = { lotNo: "L-1", expiryDate: "2028-01-31" };
+
+describe("purchase orders and goods receipts", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setStorage(new LocalStorageBackend());
+  });
+
+  const order = async () => (await listRecords("purchaseOrders"))[0];
+  const stock = async () => (await listRecords("rawInventory"))[0];
+  const newOrder = () =>
+    createPurchaseOrder({ poDate: "2026-10-01", supplierId: "s1", supplierName: "Chem Co", items: [lactose] });
+
+  it("receives part of an order, keeping rejected goods pending and held goods out of stock", async () => {
+    await newOrder();
+    const { id } = await order();
+    await receiveGoods(id, {
+      grnDate: "2026-10-05",
+      lines: [{ orderLine: 0, receivedQuantity: 60, rejectedQuantity: 10, heldQuantity: 20, ...lot }],
+    });
+
+    expect(await stock()).toMatchObject({ itemCode: "RM-001", quantity: 30 });
+    expect((await listRecords("rawLots")).map((l) => l.quantityReceived)).toEqual([30]);
+    expect(await order()).toMatchObject({ status: "Partly Received" });
+    expect((await order()).items[0]).toMatchObject({ receivedQuantity: 50, rejectedQuantity: 10 });
+    await expect(
+      receiveGoods(id, { grnDate: "2026-10-06", lines: [{ orderLine: 0, receivedQuantity: 51, ...lot }] })
+    ).rejects.toThrow(PurchaseOrderError);
+
+    const [grn] = await listRecords("goodsReceipts");
+    await releaseQcHold(grn.id, 0, { acceptedQuantity: 15, rejectedQuantity: 5, date: "2026-10-07" });
+    expect((await stock()).quantity).toBe(45);
+    expect((await listRecords("goodsReceipts"))[0].items[0]).toMatchObject({ acceptedQuantity: 45, heldQuantity: 0, rejectedQuantity: 15 });
+    expect(openPurchaseOrderLines([await order()])).toMatchObject([{ pending: 55 }]);
+    expect(await listRecords("purchases")).toHaveLength(0);
+
+    await closePurchaseOrder(id);
+    expect((await order()).status).toBe("Closed");
+    expect(openPurchaseOrderLines([await order()])).toEqual([]);
+  });
+
+  it("books the supplier invoice only when it matches the order and the accepted quantity", async () => {
+    await newOrder();
+    await receiveGoods((await order()).id, { grnDate: "2026-10-05", lines: [{ orderLine: 0, receivedQuantity: 40, ...lot }] });
+    const [grn] = await listRecords("goodsReceipts");
+    const bill = (quantity: number, rate: number, acceptVariance = false) =>
+      bookSupplierInvoice({
+        invoiceNo: "CC/77",
+        date: "2026-10-06",
+        lines: [{ goodsReceiptId: grn.id, grnLine: 0, quantity, rate, tax: 18 }],
+        acceptVariance,
+      });
+
+    await expect(bill(41, 50)).rejects.toThrow(ThreeWayMatchError);
+    await expect(bill(40, 55)).rejects.toThrow(/against 50/);
+    await expect(bill(41, 55, true)).rejects.toThrow(ThreeWayMatchError);
+
+    expect(await bill(40, 50)).toBe(2360);
+    const [booked] = await listRecords("purchaseBills");
+    expect(booked).toMatchObject({ billNo: "CC/77", supplierId: "s1", taxable: 2000, cgst: 180, sgst: 180, total: 2360 });
+    expect(booked.items[0]).toMatchObject({ goodsReceiptId: grn.id, grnLine: 0, quantity: 40, lotNo: "L-1" });
+    expect(await listRecords("purchases")).toHaveLength(0);
+    expect((await listRecords("journalEntries")).map((e) => e.sourceType)).toEqual(["purchaseBill"]);
+    expect((await stock()).quantity).toBe(40);
+    expect((await order()).items[0].billedQuantity).toBe(40);
+    const traced = tracePurchaseLots(
+      { lots: await listRecords("rawLots"), purchases: [], purchaseBills: await listRecords("purchaseBills") },
+      "cc/77"
+    );
+    expect(traced.map((l) => l.lotNo)).toEqual(["L-1"]);
+    await expect(bill(1, 50)).rejects.toThrow(PurchaseBillError);
+  });
+});
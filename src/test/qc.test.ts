@@ -0,0 +1,54 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createBatch } from "@/lib/production";
+import { assertSaleable, DEFAULT_QC_PARAMETERS, decideQc, evaluateTest, saleableQuantity, saveQcResults } from "@/lib/qc";
+import { createRecord, getRecord, listRecords } from "@/lib/repository";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("quality control", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  it("passes, fails or holds a test against the specification", () => {
+    const params = DEFAULT_QC_PARAMETERS.slice(0, 2);
+
+    expect(evaluateTest(params, [99.5, 0.3]).status).toBe("passed");
+    expect(evaluateTest(params, [97.2, 0.3]).status).toBe("failed");
+    expect(evaluateTest(params, [99.5, undefined]).status).toBe("pending");
+  });
+
+  it("keeps approved output in quarantine until released", async () => {
+    const rawId = await createRecord("rawInventory", { name: "Lactose", quantity: 10 });
+    const batchId = await createBatch({
+      batchNo: "B1",
+      batchDate: "2025-05-01",
+      status: "approved",
+      items: [{ rawItemId: rawId, rawItemName: "Lactose", currentQuantity: 10, unit: "kg", useQuantity: 4 }],
+      output: { producedItemName: "Tablet Mix", actualOutputQuantity: 3.5 },
+    });
+    const [produced] = await listRecords("processedInventory");
+    expect(saleableQuantity(produced)).toBe(0);
+
+    const batch = (await getRecord("batches", batchId))!;
+    await expect(decideQc(batchId, "released", "QA")).rejects.toThrow(/passing QC results/);
+
+    const specId = await createRecord("qcSpecifications", {
+      productName: "Tablet Mix",
+      parameters: [{ name: "Assay", unit: "%", min: 98, max: 102 }],
+    });
+    const spec = { id: specId, ...(await getRecord("qcSpecifications", specId))! };
+    expect(await saveQcResults({ ...batch, id: batchId }, spec, [100.1], { testedBy: "Lab" })).toBe("passed");
+    await decideQc(batchId, "released", "QA");
+
+    expect(saleableQuantity((await getRecord("processedInventory", produced.id))!)).toBe(3.5);
+    expect((await getRecord("batches", batchId))?.qcStatus).toBe("released");
+  });
+
+  it("names the stock held back when an item can't cover a sale", async () => {
+    const id = await createRecord("processedInventory", { name: "Syrup", quantity: 10, quarantineQuantity: 3, reservedQuantity: 2 });
+    const item = (await getRecord("processedInventory", id))!;
+
+    expect(() => assertSaleable(item, 5)).not.toThrow();
+    expect(() => assertSaleable(item, 6)).toThrow("Only 5 of Syrup in stock (3 more in QC quarantine, 2 reserved for sales orders), 6 needed.");
+    expect(() => assertSaleable(item, 6, 1)).not.toThrow();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { compareWithStandard, recipeForBatch, scaleRecipe } from "@/lib/recipes";
+import { rawInventorySchema, recipeSchema } from "@/lib/schemas";
+
+const recipe = {
+  id: "r1",
+  ...recipeSchema.parse({
+    productName: "Paracetamol Granules",
+    outputQuantity: 90,
+    expectedYield: 90,
+    lossTolerance: 2,
+    items: [
+      { rawItemId: "api", rawItemName: "Paracetamol", quantity: 80, unit: "kg" },
+      { rawItemId: "lac", rawItemName: "Lactose", quantity: 20, unit: "kg" },
+    ],
+  }),
+};
+
+describe("recipes", () => {
+  it("scales the recipe to a target output with current stock", () => {
+    const inventory = [{ id: "api", ...rawInventorySchema.parse({ name: "Paracetamol API", quantity: 500, unit: "kg" }) }];
+
+    expect(scaleRecipe(recipe, 45, inventory).map((i) => [i.rawItemName, i.useQuantity, i.currentQuantity])).toEqual([
+      ["Paracetamol API", 40, 500],
+      ["Lactose", 10, 0],
+    ]);
+  });
+
+  it("flags batches losing more than the tolerance over standard", () => {
+    expect(compareWithStandard(recipe, 100, 89)).toMatchObject({ standardLossPercent: 10, withinTolerance: true });
+    expect(compareWithStandard(recipe, 100, 87).withinTolerance).toBe(false);
+    expect(recipeForBatch([recipe], { producedItemName: "paracetamol granules" })?.id).toBe("r1");
+  });
+});
@@ -0,0 +1,64 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { journalId } from "@/lib/ledger";
+import { listRecycleBin, moveToRecycleBin, purgeRecord, restoreRecord } from "@/lib/recycle-bin";
+import { createRecord, getRecord, listRecords, putRecord } from "@/lib/repository";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("recycle bin", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  it("hides a note with its transaction and returned stock, then restores them together", async () => {
+    const itemId = await createRecord("processedInventory", { name: "Syrup", unit: "btl", quantity: 10 });
+    const transactionId = await createRecord("transactions", { date: "2025-05-01", description: "CN-1", amount: 50 });
+    const noteId = await createRecord("debitCreditNotes", {
+      noteType: "Credit",
+      noteNo: "CN-1",
+      partyType: "customer",
+      partyName: "Acme",
+      amount: 50,
+      transactionId,
+      returnItemId: itemId,
+      returnQuantity: 3,
+    });
+
+    await moveToRecycleBin("debitCreditNotes", noteId);
+    expect(await listRecords("debitCreditNotes")).toEqual([]);
+    expect(await listRecords("transactions")).toEqual([]);
+    expect((await getRecord("processedInventory", itemId))?.quantity).toBe(7);
+    expect((await listRecycleBin()).map((e) => e.label)).toEqual(["Credit note CN-1 · Acme"]);
+
+    await restoreRecord("debitCreditNotes", noteId);
+    expect((await listRecords("debitCreditNotes")).map((n) => n.id)).toEqual([noteId]);
+    expect((await listRecords("transactions")).map((t) => t.id)).toEqual([transactionId]);
+    expect((await getRecord("processedInventory", itemId))?.quantity).toBe(10);
+    expect(await listRecycleBin()).toEqual([]);
+  });
+
+  it("purges a binned invoice along with its journal entry", async () => {
+    const invoiceId = await createRecord("invoices", { invoiceNo: "INV-1", partyName: "Acme", total: 100 });
+    await putRecord("journalEntries", journalId("invoice", invoiceId), { date: "2025-05-01", memo: "INV-1", sourceId: invoiceId });
+
+    await expect(purgeRecord("invoices", invoiceId)).rejects.toThrow(/Recycle Bin/);
+    await moveToRecycleBin("invoices", invoiceId);
+    await purgeRecord("invoices", invoiceId);
+
+    expect(await getRecord("invoices", invoiceId)).toBeNull();
+    expect(await getRecord("journalEntries", journalId("invoice", invoiceId))).toBeNull();
+  });
+
+  it("keeps invoices with receipts or an IRN out of the bin", async () => {
+    const paid = await createRecord("invoices", { invoiceNo: "INV-2", partyName: "Acme", total: 100 });
+    await createRecord("payments", { invoiceId: paid, amount: 100, status: "Completed", reference: "R-1" });
+    const reported = await createRecord("invoices", {
+      invoiceNo: "INV-3",
+      partyName: "Acme",
+      total: 100,
+      eInvoice: { irn: "a".repeat(64), ackNo: "1", ackDate: "2026-10-01 10:00:00" },
+    });
+
+    await expect(moveToRecycleBin("invoices", paid)).rejects.toThrow(/reverse them/);
+    await expect(moveToRecycleBin("invoices", reported)).rejects.toThrow(/cancel the IRN/);
+    expect(await listRecycleBin()).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { cancelInvoice, InvoiceStateError, updateInvoice } from "@/lib/invoices";
+import { InsufficientStockError } from "@/lib/production";
+import { saleableQuantity } from "@/lib/qc";
+import { moveToRecycleBin } from "@/lib/recycle-bin";
+import { createRecord, getRecord, listRecords } from "@/lib/repository";
+import {
+  closeSalesOrder,
+  createDeliveryChallan,
+  createSalesOrder,
+  invoiceFromChallans,
+  SalesOrderError,
+} from "@/lib/sales-orders";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+const line = (processedInventoryId: string, quantity: number) => ({
+  processedInventoryId,
+  name: "Syrup",
+  unit: "btl",
+  quantity,
+  rate: 100,
+  tax: 12,
+});
+
+describe("sales orders and delivery challans", () => {
+  let syrup: string;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    setStorage(new LocalStorageBackend());
+    syrup = await createRecord("processedInventory", { name: "Syrup", unit: "btl", quantity: 10 });
+  });
+
+  const stock = async () => (await getRecord("processedInventory", syrup))!;
+  const order = async () => (await listRecords("salesOrders"))[0];
+  const newOrder = (quantity: number) =>
+    createSalesOrder({ orderDate: "2026-09-14", partyId: "c1", partyName: "Acme", items: [line(syrup, quantity)] });
+
+  it("reserves stock on the order and dispatches it in lots against challans", async () => {
+    await newOrder(8);
+    expect(await stock()).toMatchObject({ quantity: 10, reservedQuantity: 8 });
+    expect(saleableQuantity(await stock())).toBe(2);
+    await expect(newOrder(3)).rejects.toThrow(InsufficientStockError);
+
+    const { id } = await order();
+    await createDeliveryChallan(id, { challanDate: "2026-09-15", quantities: [5] });
+    expect(await stock()).toMatchObject({ quantity: 5, reservedQuantity: 3 });
+    expect(await order()).toMatchObject({ status: "Partly Dispatched" });
+    await expect(createDeliveryChallan(id, { challanDate: "2026-09-16", quantities: [4] })).rejects.toThrow(SalesOrderError);
+
+    await createDeliveryChallan(id, { challanDate: "2026-09-16", quantities: [3] });
+    expect(await stock()).toMatchObject({ quantity: 2, reservedQuantity: 0 });
+    expect((await order()).status).toBe("Dispatched");
+    expect((await listRecords("stockMovements")).map((m) => m.sourceType)).toEqual(["deliveryChallan", "deliveryChallan"]);
+  });
+
+  it("invoices several challans at once without moving stock, and frees them again on cancel", async () => {
+    await newOrder(8);
+    const { id } = await order();
+    await createDeliveryChallan(id, { challanDate: "2026-09-15", quantities: [5] });
+    await createDeliveryChallan(id, { challanDate: "2026-09-16", quantities: [3] });
+    const challanIds = (await listRecords("deliveryChallans")).map((c) => c.id);
+
+    await invoiceFromChallans(challanIds, { issueDate: "2026-09-17" });
+    const [invoice] = await listRecords("invoices");
+    expect(invoice).toMatchObject({ challanIds, subtotal: 800, tax: 96, total: 896 });
+    expect(invoice.items).toHaveLength(1);
+    expect(invoice.items[0].quantity).toBe(8);
+    expect((await stock()).quantity).toBe(2);
+    expect(await order()).toMatchObject({ status: "Invoiced" });
+    await expect(invoiceFromChallans(challanIds, { issueDate: "2026-09-17" })).rejects.toThrow(SalesOrderError);
+
+    await expect(updateInvoice(invoice.id, { items: [{ ...invoice.items[0], quantity: 6 }] })).rejects.toThrow(InvoiceStateError);
+    await expect(moveToRecycleBin("invoices", invoice.id)).rejects.toThrow(InvoiceStateError);
+
+    await cancelInvoice(invoice.id, "Rate error");
+    expect((await stock()).quantity).toBe(2);
+    expect(await order()).toMatchObject({ status: "Dispatched" });
+    expect((await listRecords("deliveryChallans")).every((c) => !c.invoiceId)).toBe(true);
+  });
+
+  it("releases what is left of the reservation when an order is closed", async () => {
+    await newOrder(6);
+    const { id } = await order();
+    await createDeliveryChallan(id, { challanDate: "2026-09-15", quantities: [2] });
+    await closeSalesOrder(id);
+
+    expect(await stock()).toMatchObject({ quantity: 8, reservedQuantity: 0 });
+    expect((await order()).status).toBe("Closed");
+    await expect(createDeliveryChallan(id, { challanDate: "2026-09-16", quantities: [1] })).rejects.toThrow(SalesOrderError);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { collectionDefinitions, invoiceSchema, rawInventorySchema } from "@/lib/schemas";
+
+describe("schemas", () => {
+  it("coerces legacy string quantities and blank optionals", () => {
+    const row = rawInventorySchema.parse({ name: "Paracetamol", quantity: "12.5", reorderLevel: "", itemCode: "" });
+    expect(row.quantity).toBe(12.5);
+    expect(row.reorderLevel).toBe(0);
+    expect(row.itemCode).toBeUndefined();
+    expect(row.unit).toBe("kg");
+  });
+
+  it("reads quotation-converted invoices that stored lineItems", () => {
+    const { normalize } = collectionDefinitions.invoices;
+    const invoice = invoiceSchema.parse(
+      normalize({ invoiceNo: "INV-0001", status: "Draft", lineItems: [{ name: "Syrup", quantity: "2", rate: 10 }] })
+    );
+    expect(invoice.status).toBe("Pending");
+    expect(invoice.items).toHaveLength(1);
+    expect(invoice.items[0].quantity).toBe(2);
+    expect(invoice.items[0].taxType).toBe("CGST / SGST");
+  });
+});
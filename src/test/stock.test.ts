@@ -0,0 +1,54 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createBatch } from "@/lib/production";
+import { createRecord, getRecord, listRecords } from "@/lib/repository";
+import { adjustStock, stockCard } from "@/lib/stock";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("stock movements", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  it("logs batch consumption and counted adjustments against the item", async () => {
+    const id = await createRecord("rawInventory", { name: "Lactose", unit: "kg", quantity: 10 });
+
+    await createBatch({
+      batchNo: "B1",
+      batchDate: "2025-05-01",
+      status: "in process",
+      items: [{ rawItemId: id, rawItemName: "Lactose", currentQuantity: 10, unit: "kg", useQuantity: 4 }],
+    });
+    await adjustStock("raw", id, 5, "Physical count");
+
+    expect((await getRecord("rawInventory", id))?.quantity).toBe(5);
+    const movements = await listRecords("stockMovements", { where: [["itemId", "==", id]] });
+    expect(movements.map((m) => [m.movementType, m.quantity, m.balanceAfter])).toEqual(
+      expect.arrayContaining([
+        ["consumption", -4, 6],
+        ["adjustment", -1, 5],
+      ])
+    );
+  });
+
+  it("carries stock that predates the log forward so the card ends at today's quantity", () => {
+    const movement = (id: string, quantity: number, at: number) => ({
+      id,
+      date: "2025-05-01",
+      itemType: "raw" as const,
+      itemId: "r1",
+      itemName: "Lactose",
+      unit: "kg",
+      movementType: "adjustment" as const,
+      quantity,
+      balanceAfter: 0,
+      createdAt: new Date(at),
+    });
+
+    const card = stockCard(12, [movement("m2", -3, 2), movement("m1", 5, 1)]);
+
+    expect(card.broughtForward).toBe(10);
+    expect(card.rows.map((r) => [r.movement.id, r.quantityIn, r.quantityOut, r.balance])).toEqual([
+      ["m1", 5, 0, 15],
+      ["m2", 0, 3, 12],
+    ]);
+  });
+});
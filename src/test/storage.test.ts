@@ -0,0 +1,43 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createRecord, listRecords, runRecordTransaction, updateRecord } from "@/lib/repository";
+import { getStorage, setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+
+describe("local storage backend", () => {
+  beforeEach(() => setStorage(new LocalStorageBackend()));
+
+  it("defaults to the in-memory backend under test", () => {
+    setStorage(null);
+    expect(getStorage().kind).toBe("memory");
+  });
+
+  it("filters and orders like Firestore queries", async () => {
+    await createRecord("rawInventory", { name: "Lactose", quantity: 40 });
+    await createRecord("rawInventory", { name: "Starch", quantity: 5 });
+    await createRecord("rawInventory", { name: "Talc", quantity: 12 });
+
+    const rows = await listRecords("rawInventory", { where: [["quantity", ">", 10]], orderBy: "quantity", direction: "desc" });
+    expect(rows.map((r) => r.name)).toEqual(["Lactose", "Talc"]);
+    expect(rows[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it("discards every write when a transaction throws", async () => {
+    const id = await createRecord("rawInventory", { name: "Lactose", quantity: 40 });
+
+    await expect(
+      runRecordTransaction(async (tx) => {
+        const row = await tx.get("rawInventory", id);
+        tx.update("rawInventory", id, { quantity: row.quantity - 50 });
+        tx.create("processedInventory", { name: "Granules", quantity: 50 });
+        throw new Error("Insufficient stock");
+      })
+    ).rejects.toThrow("Insufficient stock");
+
+    expect((await listRecords("rawInventory"))[0].quantity).toBe(40);
+    expect(await listRecords("processedInventory")).toHaveLength(0);
+  });
+
+  it("rejects updates to missing documents", async () => {
+    await expect(updateRecord("invoices", "missing", { status: "Paid" })).rejects.toThrow("No document invoices/missing.");
+  });
+});
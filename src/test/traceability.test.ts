@@ -0,0 +1,93 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createBatch } from "@/lib/production";
+import { createRecord, listRecords, runRecordTransaction, updateRecord } from "@/lib/repository";
+import { createDeliveryChallan, createSalesOrder } from "@/lib/sales-orders";
+import { applyStockChange } from "@/lib/stock";
+import { setStorage } from "@/lib/storage";
+import { LocalStorageBackend } from "@/lib/storage-local";
+import { traceBatches, type TraceData } from "@/lib/traceability";
+
+async function loadTraceData(): Promise<TraceData> {
+  const [batches, lots, purchases, purchaseBills, movements, invoices, proformaInvoices, deliveryChallans] = await Promise.all([
+    listRecords("batches"),
+    listRecords("rawLots"),
+    listRecords("purchases"),
+    listRecords("purchaseBills"),
+    listRecords("stockMovements", { where: [["itemType", "==", "processed"]] }),
+    listRecords("invoices"),
+    listRecords("proformaInvoices"),
+    listRecords("deliveryChallans"),
+  ]);
+  return { batches, lots, purchases, purchaseBills, movements, invoices, proformaInvoices, deliveryChallans };
+}
+
+describe("traceability", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setStorage(new LocalStorageBackend());
+  });
+
+  it("traces a supplier invoice through a batch to the customers it was invoiced to", async () => {
+    const rawId = await createRecord("rawInventory", { name: "Lactose", unit: "kg", quantity: 10 });
+    const purchaseId = await createRecord("purchases", { invoiceNo: "SUP-7", supplierName: "Acme Chemicals" });
+    await createRecord("rawLots", { rawItemId: rawId, lotNo: "L-1", expiryDate: "2099-01-31", quantityRemaining: 10, purchaseId });
+
+    await createBatch({
+      batchNo: "B1",
+      batchDate: "2025-05-01",
+      status: "approved",
+      items: [{ rawItemId: rawId, rawItemName: "Lactose", currentQuantity: 10, unit: "kg", useQuantity: 6 }],
+      output: { producedItemName: "Tablets", actualOutputQuantity: 5 },
+    });
+
+    const [product] = await listRecords("processedInventory");
+    const invoiceId = await createRecord("invoices", { invoiceNo: "INV-1", partyName: "City Pharmacy" });
+    await runRecordTransaction(async (tx) => {
+      const item = await tx.get("processedInventory", product.id);
+      applyStockChange(tx, "processed", item, -2, {
+        date: "2025-05-03",
+        movementType: "dispatch",
+        sourceType: "invoice",
+        sourceId: invoiceId,
+        reference: "INV-1",
+      });
+    });
+
+    const [trace] = traceBatches(await loadTraceData(), { kind: "purchase", invoiceNo: "sup-7" });
+
+    expect(trace.batch.batchNo).toBe("B1");
+    expect(trace.inputs[0].lots.map((l) => [l.usage.lotNo, l.usage.quantity, l.purchase?.supplierName])).toEqual([
+      ["L-1", 6, "Acme Chemicals"],
+    ]);
+    expect(trace.product).toMatchObject({ itemName: "Tablets", quantity: 5 });
+    expect(trace.dispatches.map((d) => [d.documentNo, d.customer, d.quantity])).toEqual([["INV-1", "City Pharmacy", 2]]);
+  });
+
+  it("names the customer on a delivery challan that dispatched the batch", async () => {
+    const rawId = await createRecord("rawInventory", { name: "Sucrose", unit: "kg", quantity: 10 });
+    await createBatch({
+      batchNo: "B2",
+      batchDate: "2025-06-01",
+      status: "approved",
+      items: [{ rawItemId: rawId, rawItemName: "Sucrose", currentQuantity: 10, unit: "kg", useQuantity: 4 }],
+      output: { producedItemName: "Syrup", actualOutputQuantity: 6 },
+    });
+
+    const [product] = await listRecords("processedInventory");
+    await updateRecord("processedInventory", product.id, { quarantineQuantity: 0 }); // released by QC
+    await createSalesOrder({
+      orderDate: "2025-06-02",
+      partyId: "c1",
+      partyName: "Town Chemists",
+      items: [{ processedInventoryId: product.id, name: "Syrup", unit: "btl", quantity: 3, rate: 50, tax: 12 }],
+    });
+    const [order] = await listRecords("salesOrders");
+    const challanNo = await createDeliveryChallan(order.id, { challanDate: "2025-06-03", quantities: [3] });
+
+    const [trace] = traceBatches(await loadTraceData(), { kind: "batch", batchNo: "B2" });
+
+    expect(trace.dispatches.map((d) => [d.documentType, d.documentNo, d.customer, d.quantity])).toEqual([
+      ["Delivery Challan", challanNo, "Town Chemists", 3],
+    ]);
+  });
+});